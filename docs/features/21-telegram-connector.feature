@@ -0,0 +1,55 @@
+# language: zh-TW
+功能: Telegram 平台整合
+
+  背景:
+    假設 Telegram Bot API 以 bot token 進行認證
+    而且系統透過 getUpdates 長輪詢接收更新
+    而且系統已完整實作 Telegram 平台支援
+
+  情境: Telegram Adapter 的基本功能
+    當系統新增 Telegram 平台 Adapter
+    那麼 Adapter 必須能提供 platform="telegram"
+    而且能輸出正規化事件模型(包含 isDm 與 channelId)
+    而且能實作 sendReply、editMessage 與 addReaction 能力
+
+  情境: 私人聊天
+    假設使用者在私人聊天中傳送訊息給機器人
+    當 allowDm 為 true
+    那麼系統必須將其視為私訊事件 (isDm=true)
+    而且 channelId 為聊天 ID
+
+  情境: 群組中的提及與回覆
+    假設使用者在群組中傳送訊息
+    當訊息以 @機器人名稱 提及機器人或回覆機器人的訊息
+    那麼系統必須觸發回覆流程
+    而且 guildId 為群組的聊天 ID
+    而且未提及機器人的群組訊息只會被記錄為上下文，不會觸發回覆
+
+  情境: 論壇主題 (Forum Topics)
+    假設群組啟用了主題功能
+    當使用者在某個主題中提及機器人
+    那麼 channelId 的格式為 "{chatId}:{topicId}"
+    而且回覆必須送到同一個主題中
+
+  情境: 取得近期訊息
+    假設 Bot API 無法讀取聊天歷史
+    當系統組裝上下文
+    那麼系統使用 Adapter 在記憶體中記錄的近期訊息
+    而且每個聊天保留的訊息數量受 historyLimit 限制
+
+  情境: 自訂表情
+    假設設定檔中列出了自訂表情貼圖包名稱 (customEmojiSets)
+    當系統取得可用表情
+    那麼系統透過 getStickerSet 取得自訂表情
+    而且 Agent 可用自訂表情 ID 作為回應表情
+
+  情境: 主動發文
+    假設 Telegram 的 spontaneousPost 已啟用
+    當排程觸發主動發文
+    那麼系統從白名單的 telegram 項目中隨機選擇聊天或帳號
+    而且帳號項目會直接使用該使用者的私人聊天
+
+  情境: 白名單格式
+    當管理者設定白名單
+    那麼系統接受 "telegram/account/{userId}" 與 "telegram/channel/{chatId}" 格式
+    而且接受論壇主題格式 "telegram/channel/{chatId}:{topicId}"
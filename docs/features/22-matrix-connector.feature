@@ -0,0 +1,56 @@
+# language: zh-TW
+功能: Matrix 平台整合
+
+  背景:
+    假設 Matrix Client-Server API 以 access token 進行認證
+    而且系統透過 /sync 長輪詢接收事件
+    而且系統已完整實作 Matrix 平台支援
+
+  情境: Matrix Adapter 的基本功能
+    當系統新增 Matrix 平台 Adapter
+    那麼 Adapter 必須能提供 platform="matrix"
+    而且能輸出正規化事件模型(包含 isDm 與 channelId)
+    而且 channelId 為房間 ID (例如 "!room:server")，userId 為使用者 ID (例如 "@user:server")
+
+  情境: 自動加入房間
+    假設機器人收到房間邀請
+    當 autoJoin 為 true
+    那麼系統必須自動加入該房間
+    而且若邀請標記為 is_direct，系統將該房間記錄到 m.direct 帳號資料
+
+  情境: 私訊房間
+    假設房間列在機器人的 m.direct 帳號資料中
+    當使用者在該房間傳送訊息且 allowDm 為 true
+    那麼系統必須將其視為私訊事件 (isDm=true)
+
+  情境: 群組房間中的提及與回覆
+    假設使用者在一般房間中傳送訊息
+    當訊息透過 m.mentions 或 matrix.to 連結提及機器人，或回覆機器人的訊息
+    那麼系統必須觸發回覆流程
+    而且未提及機器人的訊息只會被記錄為上下文，不會觸發回覆
+    而且 m.notice 與編輯事件不會觸發回覆
+
+  情境: 回覆、編輯與表情回應
+    當 Agent 回覆訊息
+    那麼系統透過 m.relates_to 的 m.in_reply_to 指向原始訊息
+    當 Agent 編輯已送出的訊息
+    那麼系統送出 rel_type 為 m.replace 的事件並附上 m.new_content
+    當 Agent 新增表情回應
+    那麼系統送出 rel_type 為 m.annotation 的 m.reaction 事件
+
+  情境: 取得近期訊息
+    當系統組裝上下文
+    那麼系統透過 /rooms/{roomId}/messages 取得近期訊息
+    而且編輯事件的內容會套用到原始訊息上
+
+  情境: 工作區隔離
+    假設 Matrix 使用者 ID 含有 ":" 等字元
+    當系統計算工作區路徑
+    那麼這些字元會以百分比編碼轉換 (例如 "matrix/@user%3Aserver")
+    而且不同的使用者 ID 不會對應到相同的工作區
+
+  情境: 主動發文
+    假設 Matrix 的 spontaneousPost 已啟用
+    當排程觸發主動發文
+    那麼系統從白名單的 matrix 項目中隨機選擇房間或帳號
+    而且帳號項目會使用 m.direct 中的私訊房間，必要時建立新的私訊房間
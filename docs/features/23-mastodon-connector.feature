@@ -0,0 +1,42 @@
+# language: zh-TW
+功能: Mastodon 平台整合
+
+  背景:
+    假設 Mastodon API 以 access token 進行認證
+    而且系統透過串流 API (server-sent events) 接收使用者通知
+    而且系統已完整實作 Mastodon 平台支援
+
+  情境: Mastodon Adapter 的基本功能
+    當系統新增 Mastodon 平台 Adapter
+    那麼 Adapter 必須能提供 platform="mastodon"
+    而且能輸出正規化事件模型(包含 isDm 與 channelId)
+    而且嘟文的 HTML 內容會轉換為純文字
+
+  情境: 回應提及
+    假設使用者發出提及機器人的嘟文
+    當系統收到類型為 mention 的通知
+    那麼系統必須觸發回覆流程
+    而且 channelId 的格式為 "status:{statusId}"
+    而且回覆會使用與原嘟文相同的可見度，並提及原作者
+
+  情境: 私訊 (direct 可見度)
+    假設使用者發出可見度為 direct 的嘟文提及機器人
+    當 allowDm 為 true
+    那麼系統必須將其視為私訊事件 (isDm=true)
+    而且 channelId 的格式為 "dm:{accountId}"
+    而且回覆的可見度同樣為 direct
+
+  情境: 取得討論串上下文
+    當系統組裝 "status:{statusId}" 的上下文
+    那麼系統透過 statuses/:id/context 取得上層與回覆嘟文
+    而且若該端點失敗，系統沿著 in_reply_to_id 逐一向上取得上層嘟文
+
+  情境: 表情回應
+    假設 Mastodon 沒有表情回應功能
+    當 Agent 對嘟文新增表情回應
+    那麼系統將該嘟文加入最愛
+
+  情境: 主動發文
+    假設 Mastodon 的 spontaneousPost 已啟用
+    當排程觸發主動發文
+    那麼系統在機器人自己的時間軸上發布公開嘟文
@@ -0,0 +1,40 @@
+# language: zh-TW
+功能: 本機 Console 平台 (離線開發用)
+
+  背景:
+    假設開發者想在不連線任何真實平台的情況下測試提示詞與技能
+    而且系統已實作 Console 平台 Adapter
+
+  情境: 以 Console 模式啟動
+    當開發者執行 "deno task dev --platform console"
+    那麼系統只啟用 Console 平台，其餘平台一律停用
+    而且不需要任何平台的憑證 (包含 Discord token)
+    而且 Console 使用者會自動加入白名單 "console/account/{userId}"
+
+  情境: 從標準輸入對話
+    當開發者在終端機輸入一行文字並按下 Enter
+    那麼 Adapter 必須產生 platform="console" 的正規化事件
+    而且空白行會被忽略
+    而且訊息會經過完整的 orchestrator、技能與記憶流程
+
+  情境: 輸出機器人的動作
+    當 Agent 呼叫 send-reply、edit-reply 或 react-message
+    那麼 Console 會分別印出回覆、編輯後的內容與表情回應
+    而且每則訊息都會標示編號以便對照
+
+  情境: 模擬私訊或伺服器
+    當開發者加上 "--dm" 參數
+    那麼事件的 isDm 為 true，且 channelId 的格式為 "dm:{userId}"
+    當開發者加上 "--guild {guildId}" 參數
+    那麼非私訊事件會帶有該 guildId
+
+  情境: 扮演指定使用者
+    當開發者加上 "--user {userId}" 參數
+    那麼事件的 userId 為該使用者
+    而且記憶會寫入該使用者的工作區
+
+  情境: 頻道歷史與 /clear
+    假設 Console 在記憶體中保存頻道歷史
+    當系統組裝上下文
+    那麼 fetchRecentMessages 會回傳包含機器人回覆的歷史訊息
+    而且輸入 "/clear" 後，先前的訊息不再納入上下文
@@ -0,0 +1,32 @@
+# language: zh-TW
+功能: 通用 HTTP Webhook 平台
+
+  背景:
+    假設內部工具 (客服小工具、遊戲伺服器) 可以發送與接收 HTTP 請求
+    而且系統已設定 webhook 的 secret 與 callbackUrl
+
+  情境: 接收聊天訊息
+    當內部工具以 "Authorization: Bearer {secret}" POST 一則訊息到 /webhook
+    那麼系統回應 202 並產生 platform="webhook" 的正規化事件
+    而且訊息欄位沿用 NormalizedEvent 的 channelId、userId、messageId 與 content
+
+  情境: 拒絕無效的請求
+    當請求的 secret 錯誤
+    那麼系統回應 401
+    當請求內容不是合法的 JSON 或缺少必要欄位
+    那麼系統回應 400，且不觸發回覆流程
+
+  情境: 僅記錄上下文
+    當訊息帶有 respond=false 或 isBot=true
+    那麼系統只將訊息記錄到頻道歷史
+    而且不觸發回覆流程
+
+  情境: 回傳機器人的動作
+    當 Agent 回覆、編輯訊息或新增表情回應
+    那麼系統將 type 為 reply、edit 或 reaction 的 JSON POST 到 callbackUrl
+    而且請求帶有以 secret 計算的 HMAC-SHA256 簽章 "X-AIr-Friends-Signature"
+    而且 callback 可回傳 ReplyResult 格式的 messageId 取代系統產生的 ID
+
+  情境: 上下文歷史
+    當系統組裝上下文
+    那麼 fetchRecentMessages 會回傳 Adapter 在記憶體中保存的已接收訊息與機器人回覆
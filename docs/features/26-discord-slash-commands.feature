@@ -0,0 +1,45 @@
+# language: zh-TW
+功能: Discord 斜線指令
+
+  背景:
+    假設一般使用者不知道 "!" 前綴與 "/clear" 文字慣例
+    而且系統已在 Discord 註冊斜線指令，取代啟動時刪除所有指令的行為
+
+  情境: 啟動時註冊指令
+    當 Discord 機器人連線完成且 slashCommands 未設為 false
+    那麼若設定了 guildIds，系統會在每個指定的伺服器註冊 /clear、/forget、/memories、/status、/stop 與 /ask
+    而且若未設定 guildIds，系統會註冊為全域指令
+
+  情境: 延遲回應以避開 3 秒逾時
+    當使用者執行任何斜線指令
+    那麼 Adapter 必須立即呼叫 deferReply
+    而且除了 /clear 之外，回應只有執行指令的使用者看得到
+
+  情境: 清除對話脈絡
+    當使用者執行 /clear
+    那麼機器人在頻道中公開回覆以 "/clear" 開頭的訊息
+    而且之後組裝脈絡時會忽略該訊息之前的所有訊息
+
+  情境: 遺忘記憶
+    當使用者執行 /forget 並提供 memory_id
+    那麼系統在該使用者的工作區停用該記憶
+    而且若找不到該記憶，則回覆找不到的訊息
+
+  情境: 列出記憶
+    當使用者執行 /memories
+    那麼系統私下列出該使用者工作區中啟用的記憶與其 ID
+    而且私人記憶只會在私訊中列出
+
+  情境: 查詢狀態
+    當使用者執行 /status
+    那麼系統回覆各平台的連線狀態、進行中的工作階段數、模型與運作時間
+
+  情境: 私下提問
+    當使用者執行 /ask 並提供 question
+    那麼問題會以正規化事件送入 orchestrator 與技能流程
+    而且 Agent 的回覆會以僅限本人可見的互動回應送出
+    而且若 Agent 沒有回覆，系統會以預設訊息結束該互動
+
+  情境: 存取控制
+    當未獲允許的使用者執行 /forget、/memories、/status 或 /ask
+    那麼系統依 accessControl 設定拒絕處理
@@ -0,0 +1,36 @@
+# language: zh-TW
+功能: Discord 討論串與論壇頻道
+
+  背景:
+    假設使用者會在討論串與論壇貼文中與機器人對話
+    而且系統已讓 DiscordAdapter 支援討論串頻道
+
+  情境: 討論串是獨立的對話
+    當使用者在討論串中提及機器人
+    那麼事件的 channelId 為討論串 ID
+    而且事件的 parentChannelId 為所屬的頻道或論壇 ID
+    而且最近訊息只會從該討論串取得
+
+  情境: 組裝討論串脈絡
+    當觸發訊息位於討論串中
+    那麼 ContextAssembler.assembleContext 會呼叫 fetchThreadContext
+    而且脈絡包含討論串名稱、起始訊息與上層頻道的最新訊息
+    而且論壇貼文只會在討論串區塊中出現一次
+
+  情境: 論壇貼文
+    當觸發訊息位於論壇頻道的貼文中
+    那麼貼文本文會作為討論串起始訊息提供給 Agent
+    而且論壇頻道本身沒有訊息可取得
+
+  情境: 白名單涵蓋討論串
+    假設白名單包含 "discord/channel/{parentId}"
+    當使用者在該頻道的討論串中發言
+    那麼在 accessControl.includeThreads 未設為 false 時，系統視為已加入白名單
+    而且設為 false 時，討論串必須個別加入白名單
+
+  情境: 以討論串回覆長訊息
+    假設 platforms.discord.replyThreadThreshold 大於 0
+    當回覆內容超過該長度且位於一般文字頻道
+    那麼機器人會從觸發訊息開啟討論串並在其中回覆
+    而且之後編輯該回覆時會在討論串中編輯
+    而且若無法開啟討論串，則改為在原頻道回覆
@@ -0,0 +1,47 @@
+# language: zh-TW
+功能: 回覆附件上傳
+
+  背景:
+    假設 Agent 需要在回覆中附上圖片或檔案
+    而且系統已讓 send-reply 技能支援 attachments 參數
+
+  情境: 附加工作區中的檔案
+    當 Agent 以 --attach "chart.png" 呼叫 send-reply
+    那麼系統會從使用者工作區讀取 chart.png
+    而且依副檔名判斷 MIME 類型
+    而且檔案會隨回覆一起上傳至平台
+
+  情境: 附加 Agent 工作區中的檔案
+    當附件路徑位於 $AGENT_WORKSPACE 內
+    那麼系統同樣允許上傳該檔案
+
+  情境: 拒絕工作區以外的路徑
+    當附件路徑為 "../secret.txt" 或指向工作區外的符號連結
+    那麼 send-reply 回傳錯誤 "Attachment path is outside the workspace"
+    而且回覆不會送出
+    而且 Agent 仍可不附檔案再次傳送回覆
+
+  情境: 附加 data URL
+    當附件為 "data:image/png;base64,..."
+    那麼系統會解碼內容並以 "attachment.png" 作為檔名上傳
+
+  情境: 平台大小與數量限制
+    假設平台的 capabilities.maxAttachmentSize 為 10 MiB
+    當附件大於 10 MiB 或附件數量超過 maxAttachments
+    那麼 send-reply 回傳錯誤且回覆不會送出
+
+  情境: 不支援附件的平台
+    假設平台未設定 capabilities.maxAttachmentSize
+    當 Agent 傳送附件
+    那麼 send-reply 回傳錯誤 "Attachments are not supported on {platform}"
+
+  情境: Discord 上傳
+    當回覆包含附件
+    那麼 DiscordAdapter 以 multipart 上傳 files
+    而且討論串回覆與 /ask 的互動回覆同樣附上檔案
+
+  情境: Misskey 上傳
+    當回覆包含附件
+    那麼 MisskeyAdapter 先將檔案上傳至 Drive (drive/files/create)
+    而且貼文以 fileIds 附上檔案
+    而且聊天訊息第一個檔案以 fileId 附上，其餘檔案以後續訊息傳送
@@ -0,0 +1,44 @@
+# language: zh-TW
+功能: 長訊息自動分割
+
+  背景:
+    假設 Agent 的回覆可能超過平台的訊息長度上限
+    而且系統已讓 send-reply 與 edit-reply 支援分割訊息
+
+  情境: 回覆長度未超過上限
+    當回覆長度不超過 PlatformCapabilities.maxMessageLength
+    那麼系統以單一訊息傳送回覆
+
+  情境: 在安全的位置分割長回覆
+    當回覆長度超過平台上限
+    那麼系統依序優先在段落、行、句子與單字邊界分割
+    而且不會切斷程式碼區塊、清單項目、MFM 標籤、自訂表情符號、提及或網址
+    而且每個部分都回覆前一個部分
+    而且附件只隨第一個部分傳送
+    而且 send-reply 的結果以 messageIds 列出所有訊息 ID
+
+  情境: 超長的程式碼區塊
+    當單一程式碼區塊超過訊息上限
+    那麼系統在行與行之間分割
+    而且每個部分都會關閉並重新開啟程式碼區塊
+
+  情境: 編輯分割的回覆
+    假設先前的回覆被分割為三則訊息
+    當 Agent 以第一則訊息 ID 呼叫 edit-reply 並提供較短的內容
+    那麼系統依序編輯需要的訊息
+    而且刪除多餘的訊息
+    而且平台無法刪除訊息時，多餘的訊息會改為 "…"
+
+  情境: 編輯後內容變長
+    當 edit-reply 的新內容需要更多訊息
+    那麼系統編輯既有的訊息並補送新的部分
+
+  情境: 平台專屬的長度上限
+    假設 Misskey 實例的 maxNoteTextLength 為 5000
+    那麼貼文以 5000 字元為上限分割
+    而且聊天訊息以 2000 字元為上限分割
+
+  情境: 部分訊息傳送失敗
+    當長回覆的後續部分傳送失敗
+    那麼 send-reply 回傳錯誤並列出已傳送的訊息
+    而且回覆視為已送出，Agent 可用 edit-reply 修正
@@ -0,0 +1,43 @@
+# language: zh-TW
+功能: Agent 處理中的輸入狀態提示
+
+  背景:
+    假設平台的 PlatformCapabilities.supportsTypingIndicator 為 true
+    而且使用者傳送了一則會觸發 Agent 的訊息
+
+  情境: Discord 顯示「正在輸入」
+    當 Agent 開始處理訊息
+    那麼頻道中顯示 Bot 正在輸入
+    而且系統每 8 秒重新送出輸入狀態，直到 Agent 回應
+
+  情境: Discord 斜線指令
+    當訊息來自斜線指令
+    那麼系統不另外送出輸入狀態
+    而且由延遲回覆顯示「思考中」
+
+  情境: Misskey 處理中的反應
+    假設 Misskey 設定了 workingReaction 為 "⏳"
+    當 Agent 開始處理貼文
+    那麼系統在觸發貼文加上 "⏳" 反應
+    而且 Agent 回應後移除該反應
+
+  情境: Misskey 聊天訊息
+    當訊息來自 Misskey 聊天
+    那麼系統不顯示處理中的提示
+
+  情境: Agent 以反應回應
+    假設 Misskey 的觸發貼文上有處理中的反應
+    當 Agent 透過 react-message 加上其他反應
+    那麼系統先移除處理中的反應再加上新的反應
+
+  情境: 回應後停止提示
+    當 send-reply 或 react-message 執行成功
+    那麼輸入狀態提示立即停止
+
+  情境: 工作階段結束
+    當 Agent 工作階段結束、失敗或逾時
+    那麼輸入狀態提示一定會停止
+
+  情境: 無法顯示提示
+    當平台無法開始輸入狀態提示
+    那麼系統記錄警告並繼續處理訊息
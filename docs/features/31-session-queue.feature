@@ -0,0 +1,47 @@
+# language: zh-TW
+功能: 頻道工作階段佇列與連發訊息合併
+
+  背景:
+    假設 sessionQueue.debounceMs 設定為 1500
+    而且同一頻道同一時間只會執行一個 Agent 工作階段
+
+  情境: 單則訊息
+    當使用者在頻道中傳送一則訊息
+    而且之後 1500 毫秒內頻道沒有新訊息
+    那麼系統為該訊息啟動一個工作階段
+
+  情境: 連續傳送多則訊息
+    當使用者在 1500 毫秒內連續傳送三則訊息
+    那麼系統只啟動一個工作階段
+    而且 Agent 在 "Current Messages" 區段依序看到三則訊息
+    而且回覆對象為最後一則訊息
+
+  情境: 工作階段執行中收到新訊息
+    假設頻道中已有工作階段正在執行
+    當使用者又傳送兩則訊息
+    那麼新訊息會等待目前的工作階段結束
+    而且兩則訊息合併為一個後續工作階段
+
+  情境: 不同使用者的訊息不合併
+    當使用者 A 與使用者 B 在 1500 毫秒內各自傳送訊息
+    那麼系統為兩人各啟動一個工作階段
+    而且先處理較早傳送訊息的使用者
+    而且 A 的訊息不會出現在 B 的工作階段或記憶中
+
+  情境: 持續傳送訊息時仍在上限時間內開始
+    假設 sessionQueue.maxWaitMs 設定為 10000
+    當使用者每隔 1 秒持續傳送訊息
+    那麼工作階段最晚在第一則訊息 10000 毫秒後開始
+
+  情境: 不同頻道
+    當兩個頻道同時收到訊息
+    那麼兩個頻道的工作階段各自獨立執行
+
+  情境: 合併後的工作階段失敗
+    當合併多則訊息的工作階段失敗且未送出回覆
+    那麼系統只送出一次錯誤訊息
+
+  情境: 佇列監控指標
+    當訊息在佇列中等待
+    那麼 airfriends_session_queue_depth 顯示等待中的訊息數
+    而且 airfriends_session_queue_wait_seconds 記錄訊息的等待時間
@@ -0,0 +1,40 @@
+# language: zh-TW
+功能: 全域 Agent 並行數量限制與優先順序排程
+
+  背景:
+    假設 agentConcurrency.maxAgents 設定為 4
+    而且 agentConcurrency.maxQueued 設定為 20
+    而且每個 Agent 工作階段都會啟動一個完整的 Agent CLI 程序
+
+  情境: 未達上限
+    當執行中的 Agent 程序少於 4 個
+    那麼新的工作階段立即啟動
+
+  情境: 達到上限時排隊
+    假設已有 4 個 Agent 程序正在執行
+    當新的訊息需要 Agent 回應
+    那麼工作階段進入等待佇列
+    而且有程序結束時依優先順序啟動等待中的工作階段
+
+  情境: 優先順序
+    假設佇列中有記憶維護、自主研究、自發貼文、公開提及與白名單帳號私訊
+    當有 Agent 程序結束
+    那麼依序優先啟動白名單帳號私訊、其他訊息、自發貼文、自主研究、記憶維護
+    而且相同優先順序依到達順序啟動
+
+  情境: 佇列已滿
+    假設佇列中已有 20 個等待中的工作階段
+    當新的訊息到達且優先順序不高於佇列中最低者
+    那麼系統在該訊息加上 "⏳" 反應
+    而且不送出錯誤訊息
+
+  情境: 高優先順序插隊
+    假設佇列已滿且其中有自主研究工作階段
+    當白名單帳號傳送私訊
+    那麼自主研究工作階段被移出佇列
+    而且私訊進入佇列
+
+  情境: 健康檢查
+    當佇列已滿
+    那麼 /health 的 agent-capacity 檢查為 warn
+    而且整體狀態為 degraded
@@ -0,0 +1,70 @@
+# language: zh-TW
+功能: 預熱 Agent 程序池
+
+  背景:
+    假設 agentPool.enabled 設定為 true
+    而且 agentPool.sessionCwd 設定為 true
+    而且 agentPool.warmProcesses 設定為 1
+
+  情境: 啟動時預熱
+    當系統啟動並連線各平台
+    那麼系統在 Agent 工作區啟動 1 個預設類型的 Agent 程序
+    而且完成 ACP 初始化後放入程序池等待
+
+  情境: 使用預熱程序
+    假設程序池中有閒置的 Agent 程序
+    當使用者傳送訊息
+    那麼工作階段使用閒置程序，不需重新啟動 Agent CLI
+    而且 ACP 工作階段的 cwd 為該使用者的工作區
+    而且系統在背景啟動新的程序補足預熱數量
+    而且 airfriends_agent_pool_hits_total 增加 1
+
+  情境: 程序池沒有可用程序
+    假設程序池中沒有閒置的 Agent 程序
+    當使用者傳送訊息
+    那麼系統啟動新的 Agent 程序
+    而且 airfriends_agent_pool_misses_total 增加 1
+
+  情境: 工作階段結束後回收
+    當工作階段正常結束
+    那麼 Agent 程序回到程序池等待下一個工作階段
+
+  情境: 工作階段失敗
+    當工作階段執行中發生錯誤
+    那麼 Agent 程序被終止而不放回程序池
+
+  情境: 達到工作階段次數上限
+    假設 agentPool.maxSessionsPerProcess 設定為 20
+    當某個程序完成第 20 個工作階段
+    那麼該程序被終止
+
+  情境: 閒置逾時
+    假設 agentPool.idleTimeoutMs 設定為 600000
+    當程序閒置超過 10 分鐘
+    那麼該程序被終止
+
+  情境: 閒置程序數量上限
+    假設 agentPool.maxIdleProcesses 設定為 2
+    當第 3 個程序回到程序池
+    那麼最久未使用的閒置程序被終止
+
+  情境: 程序總數不超過 Agent 數量上限
+    假設 agentConcurrency.maxAgents 設定為 2
+    而且 agentPool.warmProcesses 設定為 2
+    而且兩個角色各有自己的 Agent 工作區
+    當兩個角色的工作階段交替啟動
+    那麼執行中、閒置與預熱中的程序合計不超過 2 個
+    而且需要新程序的工作階段先終止其他角色的閒置程序
+    而且達到上限時不再預熱程序
+
+  情境: 不支援工作階段 cwd 的 Agent
+    假設 agentPool.sessionCwd 設定為 false
+    當使用者傳送訊息
+    那麼 Agent 程序在該使用者的工作區啟動
+    而且該程序只會再被同一工作區的工作階段使用
+
+  情境: 程序池停用
+    假設 agentPool.enabled 設定為 false
+    當使用者傳送訊息
+    那麼每個工作階段都啟動新的 Agent 程序
+    而且工作階段結束後終止該程序
@@ -0,0 +1,50 @@
+# language: zh-TW
+功能: 依頻道續用 ACP 工作階段
+
+  背景:
+    假設 Agent 在初始化時宣告支援 loadSession
+    而且 sessionResume.enabled 設定為 true
+    而且 sessionResume.maxAgeMs 設定為 21600000
+
+  情境: 第一則訊息建立新的工作階段
+    假設頻道沒有保存的工作階段
+    當使用者傳送訊息
+    那麼系統建立新的 ACP 工作階段並送出完整上下文
+    而且工作階段 ID 保存在工作區的 agent-sessions.json
+
+  情境: 後續訊息續用工作階段
+    假設頻道有 1 小時前保存的工作階段
+    而且之後頻道中有其他使用者傳送了 2 則訊息
+    當使用者再次傳送訊息
+    那麼系統以 loadSession 載入保存的工作階段
+    而且提示只包含這 2 則新訊息與目前的訊息
+    而且不再重複送出系統提示與重要記憶
+
+  情境: 工作階段已不存在
+    假設 Agent 已找不到保存的工作階段
+    當使用者傳送訊息
+    那麼系統刪除保存的工作階段 ID
+    而且建立新的工作階段並送出完整上下文
+
+  情境: 工作階段過舊
+    假設頻道保存的工作階段最後一次使用在 7 小時前
+    當使用者傳送訊息
+    那麼系統建立新的工作階段並送出完整上下文
+
+  情境: 使用 /clear 清除上下文
+    假設頻道保存了工作階段
+    而且之後有人在頻道中傳送 "/clear"
+    當使用者傳送訊息
+    那麼系統建立新的工作階段
+    而且上下文只包含 /clear 之後的訊息
+
+  情境: 新訊息過多
+    假設上次工作階段後頻道中的新訊息超過 memory.recentMessageLimit
+    當使用者傳送訊息
+    那麼系統建立新的工作階段並送出完整上下文
+
+  情境: Agent 不支援 loadSession
+    假設 Agent 沒有宣告支援 loadSession
+    當使用者傳送訊息
+    那麼每則訊息都建立新的工作階段
+    而且不保存工作階段 ID
@@ -0,0 +1,53 @@
+# language: zh-TW
+功能: 以逐步編輯訊息串流回覆
+
+  背景:
+    假設平台設定了 streamReplies 為 true
+    而且 Skill API 已啟用
+    而且使用者傳送了一則會觸發 Agent 的訊息
+
+  情境: 張貼草稿
+    當 Agent 開始輸出文字
+    那麼系統在頻道回覆一則內容為 "…" 的草稿訊息
+
+  情境: 逐步更新草稿
+    當 Agent 持續輸出文字
+    那麼系統以目前累積的文字編輯草稿
+    而且兩次編輯至少間隔 1.5 秒
+    而且超過訊息長度上限的文字以 "…" 截斷
+
+  情境: 工具呼叫後重新開始
+    假設草稿顯示 Agent 在工具呼叫前輸出的文字
+    當 Agent 呼叫工具後再輸出新的文字
+    那麼草稿改為只顯示新的文字
+
+  情境: 續接的工作階段不重播舊回覆
+    假設頻道的 ACP 工作階段以 loadSession 續接
+    當 Agent 重播先前工作階段的訊息
+    那麼系統不張貼草稿
+    而且草稿只顯示新提示詞開始後 Agent 輸出的文字
+
+  情境: 草稿成為最終回覆
+    假設草稿已經張貼
+    當 Agent 執行 send-reply
+    那麼系統將草稿編輯為最終回覆，而不另外傳送訊息
+    而且過長的回覆會接續草稿分成多則訊息
+    而且 edit-reply 可以編輯這則回覆
+
+  情境: 附帶附件的回覆
+    假設草稿已經張貼
+    當 Agent 執行附帶附件的 send-reply
+    那麼系統刪除草稿並傳送新的回覆訊息
+
+  情境: 尚未張貼草稿
+    當 Agent 在輸出任何文字之前執行 send-reply
+    那麼系統照常傳送回覆訊息
+
+  情境: 未成為回覆的草稿
+    當 Agent 工作階段結束時草稿沒有成為回覆
+    那麼系統刪除草稿
+    而且平台無法刪除訊息時將草稿內容改為 "…"
+
+  情境: 未啟用串流
+    假設平台未設定 streamReplies
+    那麼系統不張貼草稿，只在 send-reply 時傳送回覆
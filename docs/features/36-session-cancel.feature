@@ -0,0 +1,49 @@
+# language: zh-TW
+功能: 使用者中止處理中的 Agent 工作階段
+
+  背景:
+    假設 sessionCancel.enabled 為 true
+    而且 Agent 正在處理使用者在某頻道傳送的訊息
+
+  情境: 以 /stop 中止
+    當同一位使用者在同一頻道傳送 "/stop"
+    那麼系統呼叫 AgentConnector.cancel 中止該工作階段
+    而且 "/stop" 訊息本身不會交給 Agent 處理，也不必等待排隊
+
+  情境: 其他使用者的 /stop
+    當另一位沒有參與該工作階段的使用者傳送 "/stop"
+    那麼工作階段繼續執行
+
+  情境: 刪除觸發訊息
+    當觸發訊息被刪除
+    那麼系統中止處理該訊息的工作階段
+
+  情境: 以反應中止
+    當訊息作者在觸發訊息加上 sessionCancel.reaction 設定的反應 "🛑"
+    那麼系統中止處理該訊息的工作階段
+    而且其他使用者加上的反應或其他表情符號不會中止工作階段
+
+  情境: 中止後的清理
+    當工作階段被中止
+    那麼系統立即移除 SessionRegistry 中的工作階段，之後的技能呼叫都會被拒絕
+    而且系統不會傳送錯誤訊息
+    而且 sessionsTotal 以 status "cancelled" 記錄該工作階段
+
+  情境: 排隊中的訊息
+    假設訊息還在等待工作階段開始
+    當使用者以上述任一方式中止
+    那麼系統將訊息移出佇列，不為它啟動工作階段
+
+  情境: Discord 斜線指令
+    當使用者執行 /stop 斜線指令
+    那麼系統中止該使用者在此頻道的工作階段
+    而且私下回覆是否有中止任何工作
+
+  情境: Misskey 貼文
+    當 Misskey 的觸發貼文被刪除或被作者加上中止反應
+    那麼系統透過串流 API 擷取的貼文事件中止工作階段
+
+  情境: 停用中止功能
+    假設 sessionCancel.enabled 為 false
+    當使用者傳送 "/stop"
+    那麼訊息照常交給 Agent 處理
@@ -0,0 +1,47 @@
+# language: zh-TW
+功能: ACP Agent 備援鏈
+
+  背景:
+    假設 agent.defaultAgentType 設定為 [copilot, opencode, gemini]
+    而且使用者傳送了一則需要回覆的訊息
+
+  情境: 第一個 Agent 可用
+    當 copilot 正常完成工作階段
+    那麼由 copilot 回覆訊息
+    而且 airfriends_agent_sessions_total 以 agent_type "copilot" 記錄該工作階段
+
+  情境: 缺少憑證
+    假設沒有設定 GitHub token
+    當系統為 copilot 建立 Agent 設定失敗
+    那麼系統改用 opencode 處理同一則訊息
+    而且 airfriends_agent_fallbacks_total 記錄從 copilot 到 opencode 的備援
+
+  情境: 配額用盡或連線失敗
+    當 copilot 在 connect、createSession 或 prompt 時回報配額用盡、速率限制或連線錯誤
+    而且 Agent 尚未傳送任何回覆或反應
+    那麼系統釋放並終止 copilot 的程序
+    而且以 opencode 重新執行工作階段
+
+  情境: 已經回覆後失敗
+    假設 copilot 已經傳送回覆
+    當 copilot 接著回報配額用盡
+    那麼系統不會改用下一個 Agent，避免重複回覆
+
+  情境: 與 Agent 無關的錯誤
+    當 Agent 因其他錯誤失敗
+    那麼系統不會改用下一個 Agent，依原本的流程回報錯誤
+
+  情境: 所有 Agent 都無法使用
+    當 copilot、opencode 與 gemini 都無法使用
+    那麼工作階段以最後一個 Agent 的錯誤結束
+
+  情境: 背景工作階段的備援
+    當 copilot 在主動發文、自主研究或記憶整理的工作階段中無法使用
+    那麼系統改用 opencode 執行同一個工作階段
+    而且主動發文已經送出後不會改用下一個 Agent
+
+  情境: 以環境變數設定備援鏈
+    假設 AGENT_DEFAULT_TYPE 為 "copilot,opencode"
+    當系統載入設定
+    那麼 agent.defaultAgentType 為 [copilot, opencode]
+    而且未知的 Agent 類型會讓設定載入失敗
@@ -0,0 +1,36 @@
+# language: zh-TW
+功能: 依規則分派工作階段設定
+
+  背景:
+    假設 routing.rules 依序設定了以下規則
+      | name          | match                                  | model       | agentType |
+      | 維護者私訊    | isDm: true, userId: [maintainer]       | strong-model |           |
+      | 公開頻道      | platform: discord, channelId: "public" | cheap-model  | opencode  |
+
+  情境: 第一個符合的規則生效
+    當使用者 maintainer 私訊機器人
+    那麼工作階段使用 "維護者私訊" 規則的 strong-model
+    而且日誌記錄套用的規則名稱
+
+  情境: 頻道規則涵蓋討論串
+    當使用者在 "public" 頻道底下的討論串提及機器人
+    那麼工作階段使用 opencode 與 cheap-model
+
+  情境: 沒有符合的規則
+    當使用者在其他頻道提及機器人
+    那麼工作階段使用 agent 與 memory 區段的設定
+
+  情境: 規則覆寫情境設定
+    假設規則設定了 systemPromptPath、tokenLimit 與 recentMessageLimit
+    當符合規則的訊息觸發工作階段
+    那麼系統以規則的系統提示、權杖上限與最近訊息數量組合情境
+    而且未設定的欄位沿用全域設定
+
+  情境: 系統提示不同時不續用工作階段
+    假設頻道上一次的 ACP 工作階段使用另一個系統提示
+    當符合另一條規則的訊息觸發工作階段
+    那麼系統建立新的 ACP 工作階段並提供完整情境
+
+  情境: 設定錯誤
+    當規則的 match 含有未知條件或 agentType 為未知的 Agent 類型
+    那麼設定載入失敗並指出錯誤的規則
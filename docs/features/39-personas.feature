@@ -0,0 +1,67 @@
+# language: zh-TW
+功能: 同一部署中的多個角色
+
+  背景:
+    假設 platforms 區段設定了預設角色的 Discord 帳號
+    而且 personas 設定了角色 alice，使用另一個 Discord Bot 帳號與一個 Misskey 帳號
+    而且 alice 的 systemPromptPath 為 ./prompts/alice/system.md
+
+  情境: 事件標記收到訊息的角色
+    當使用者在同一個頻道提及兩個 Discord Bot
+    那麼兩個帳號各自收到訊息並以各自的角色處理
+    而且重複訊息判斷與工作階段佇列依帳號分開
+
+  情境: 角色之間不共用記憶
+    當使用者 user1 分別與預設角色及 alice 對話
+    那麼預設角色使用工作區 "discord/user1"
+    而且 alice 使用工作區 "alice/discord/user1"
+    而且 alice 的工作階段無法讀取預設角色的記憶
+
+  情境: 每個角色有自己的 Agent 工作區
+    當 alice 的工作階段啟動
+    那麼 Agent 工作區為 {repoPath}/agent-workspaces/alice/
+    而且共用的 Agent 程序只在同一個 Agent 工作區內重複使用
+
+  情境: 角色使用自己的提示與模型
+    當 alice 的帳號收到訊息
+    那麼系統以 ./prompts/alice/system.md 與同目錄的角色檔組合系統提示
+    而且 alice 未設定的欄位沿用 agent 區段的設定
+    而且符合的 routing 規則套用在 alice 的設定之上
+
+  情境: 角色帳號的主動發文
+    假設 alice 的 Discord 帳號啟用了 spontaneousPost
+    當 alice 的主動發文排程觸發
+    那麼系統以 alice 的 Discord 帳號發文
+    而且使用工作區 "alice/discord/{botId}" 與 alice 的 Agent 工作區
+    而且以 alice 的系統提示、Agent 類型與模型撰寫內容
+    而且預設角色的帳號有各自獨立的排程
+
+  情境: 每個角色各自進行自主研究
+    假設 selfResearch.enabled 為 true
+    當自主研究排程觸發
+    那麼預設角色與 alice 各自挑選 RSS 素材進行研究
+    而且 alice 的筆記寫入 {repoPath}/agent-workspaces/alice/
+    而且 alice 的研究指示讀取 ./prompts/alice/system_self_research.md
+
+  情境: 角色工作區的記憶整理
+    假設 memoryMaintenance.enabled 為 true
+    當系統整理工作區 "alice/discord/user1" 的記憶
+    那麼整理指示讀取 ./prompts/alice/system_memory_maintenance.md
+
+  情境: 套用顯示名稱與頭像
+    假設 alice 設定了 displayName 與 avatarUrl
+    當 alice 的 Discord 或 Misskey 帳號連線
+    那麼帳號名稱與頭像更新為 alice 的設定
+    而且 Misskey 只在名稱或頭像不同時更新
+
+  情境: Discord 以伺服器暱稱顯示角色名稱
+    假設 alice 設定了 displayName 與 avatarUrl
+    當 alice 的 Discord 帳號連線或加入新的伺服器
+    那麼 Bot 在每個伺服器的暱稱設為 alice 的 displayName
+    而且 Bot 帳號的全域使用者名稱不變
+    而且重新連線時只在 avatarUrl 改變後才再次上傳頭像
+
+  情境: 設定錯誤
+    當角色名稱含有不允許的字元、與平台名稱相同或重複
+    那麼設定載入失敗並指出錯誤的角色
+    而且啟用的角色帳號缺少憑證時設定載入失敗
@@ -0,0 +1,48 @@
+# language: zh-TW
+功能: 提示詞模板引擎——變數、條件與引入
+
+  背景:
+    假設 Bot 的系統提示詞檔案為 prompts/system.md
+    而且 agent.timezone 設定為 "Asia/Taipei"
+
+  情境: 依工作階段填入變數
+    假設 system.md 包含 "現在是 {{now}}，你在 {{platform}} 與 {{username}} 聊天"
+    當使用者 Jim 在 Discord 頻道傳送訊息
+    那麼系統提示中的 {{now}} 為台北時間，格式為 "YYYY-MM-DD HH:mm"
+    而且 {{platform}} 為 "discord"
+    而且 {{username}} 為 "Jim"
+
+  情境: 依條件顯示段落
+    假設 system.md 包含 "{{#if isDm}}私訊{{else}}群組{{/if}}"
+    當使用者在私訊中傳送訊息
+    那麼系統提示只包含 "私訊"
+    而且單獨佔一行的條件標籤不會留下空行
+
+  情境: 引入共用的提示片段
+    假設 system.md、system_self_research.md 與 system_memory_maintenance.md 都包含 "{{> character_scenario}}"
+    當系統組合任一種工作階段的提示
+    那麼三者都使用 character_scenario.md 的內容
+    而且被引入的片段同樣可以使用變數與引入其他片段
+
+  情境: 沿用舊的片段佔位符
+    假設 system.md 包含 "{{character_name}}"
+    而且 prompts 目錄下存在 character_name.md
+    當系統載入系統提示詞
+    那麼 "{{character_name}}" 被替換為 character_name.md 去除首尾空白後的內容
+
+  情境: 偵測循環引入
+    假設 a.md 引入 b.md，而 b.md 又引入 a.md
+    當系統在啟動時載入提示詞模板
+    那麼啟動失敗
+    而且錯誤訊息列出引入的檔案鏈與發生位置的檔案與行號
+
+  情境: 模板錯誤在啟動時即失敗
+    假設 system.md 的第 12 行有未關閉的 "{{#if isDm}}"
+    當系統啟動
+    那麼啟動失敗，錯誤訊息為 "prompts/system.md:12: Unclosed {{#if isDm}}"
+    而且條件中使用未知變數、引入不存在的檔案時同樣在啟動時失敗
+
+  情境: 無效的時區
+    假設 agent.timezone 設定為 "Mars/Olympus_Mons"
+    當系統載入設定檔
+    那麼系統拋出 ConfigError
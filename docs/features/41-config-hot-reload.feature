@@ -0,0 +1,46 @@
+# language: zh-TW
+功能: 設定檔與提示詞熱重載
+
+  背景:
+    假設 Bot 正在執行
+    而且 configReload.enabled 為 true
+
+  情境: 修改白名單後立即生效
+    假設 accessControl.whitelist 不包含 "discord/account/123"
+    當管理者將 "discord/account/123" 加入 config.yaml 的白名單
+    那麼系統在 debounceMs 後重新載入設定檔
+    而且使用者 123 的下一則訊息會得到回覆
+    而且日誌列出變更的設定 "accessControl.whitelist"
+
+  情境: 修改提示詞檔案
+    當管理者編輯 prompts/character_scenario.md
+    那麼系統重新載入提示詞模板
+    而且下一次工作階段使用新的提示詞
+
+  情境: 提示詞模板有錯誤
+    當管理者在 prompts/system.md 留下未關閉的 "{{#if isDm}}"
+    那麼系統記錄錯誤的檔案與行號
+    而且繼續使用原本的提示詞
+
+  情境: 無效的設定檔被拒絕
+    當管理者將 accessControl.replyTo 改為 "nobody"
+    那麼系統拒絕這次重新載入，並記錄錯誤與變更的設定
+    而且繼續使用最後一份有效的設定
+
+  情境: 只有憑證變更時才重建平台連線
+    當管理者修改 platforms.discord.token
+    那麼 Discord 帳號中斷連線，並以新的 token 重新連線
+    而且其他平台帳號保持連線
+
+  情境: 調整排程間隔
+    當管理者修改 selfResearch.minIntervalMs 與 maxIntervalMs
+    那麼等待中的自我研究排程以新的間隔重新排程
+    而且進行中的工作階段不受影響
+
+  情境: 需要重新啟動的設定
+    當管理者修改 workspace.repoPath
+    那麼系統記錄警告，指出該設定要在重新啟動後才會生效
+
+  情境: 密鑰不會出現在日誌中
+    當管理者修改 platforms.misskey.token
+    那麼日誌中的變更記錄以 "***" 取代 token 的值
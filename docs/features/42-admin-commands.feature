@@ -0,0 +1,57 @@
+# language: zh-TW
+功能: 聊天室內的管理指令
+
+  背景:
+    假設 Bot 正在執行
+    而且 accessControl.admins 包含 "discord/account/111"
+
+  情境: 查詢運作狀態
+    當使用者 111 傳送 "!af status"
+    那麼 Bot 直接回覆平台連線狀態、進行中的工作階段、排隊中的訊息與執行時間
+    而且不會啟動 Agent 工作階段
+
+  情境: 非管理者的指令被忽略
+    當使用者 222 傳送 "!af reload"
+    那麼 Bot 不回覆
+    而且日誌記錄一則警告
+    而且不會重新載入設定檔
+
+  情境: 將帳號加入白名單
+    假設 accessControl.replyTo 為 "whitelist"
+    當使用者 111 傳送 "!af whitelist add discord/account/333"
+    那麼 "discord/account/333" 被寫入 {repoPath}/runtime-overrides.yaml 的白名單
+    而且系統重新載入設定檔
+    而且使用者 333 的下一則訊息會得到回覆
+
+  情境: 白名單變更在重新啟動後仍然有效
+    假設 runtime-overrides.yaml 的白名單包含 "discord/account/333"
+    當 Bot 重新啟動
+    那麼 runtime-overrides.yaml 覆蓋 config.yaml 與環境變數中的白名單
+
+  情境: 無效的白名單項目
+    當使用者 111 傳送 "!af whitelist add discord/user/333"
+    那麼 Bot 回覆項目格式無效
+    而且 runtime-overrides.yaml 不會被修改
+
+  情境: 立即發布自發性貼文
+    假設 Discord 已啟用自發性貼文
+    當使用者 111 在 Discord 傳送 "!af spontaneous now"
+    那麼 Discord 的自發性貼文立即開始
+    而且下一次自發性貼文在這次完成後重新排程
+
+  情境: 手動執行記憶整理
+    假設工作區 "discord/333" 存在
+    當使用者 111 傳送 "!af maintenance run discord/333"
+    那麼 Bot 回覆記憶整理已開始
+    而且整理完成後 Bot 再回覆一次結果
+
+  情境: 列出使用者的記憶
+    假設使用者 333 有一則公開記憶與一則私人記憶
+    當使用者 111 傳送 "!af memories 333"
+    那麼 Bot 列出兩則記憶與其 ID
+    而且私人記憶標示 🔒
+
+  情境: 在公開頻道中不列出私人記憶
+    假設使用者 333 有一則公開記憶與一則私人記憶
+    當使用者 111 在伺服器頻道傳送 "!af memories 333"
+    那麼 Bot 只列出公開記憶
@@ -0,0 +1,43 @@
+# language: zh-TW
+功能: 本地頻道對話紀錄
+
+  背景:
+    假設 Bot 正在執行
+    而且 transcript.enabled 為 true
+
+  情境: 記錄收到的訊息與 Bot 的回覆
+    當使用者在 Discord 頻道 "123" 傳送 "你好"
+    而且 Bot 回覆 "嗨！"
+    那麼 {repoPath}/transcripts/discord/123.jsonl 依序記錄這兩則訊息
+    而且 Bot 之後編輯回覆或加上反應時，也會記錄在同一個檔案
+
+  情境: 平台無法提供歷史訊息時使用對話紀錄
+    假設 transcript.contextSource 為 "platform"
+    而且 Bot 失去讀取頻道歷史訊息的權限
+    當使用者在頻道中傳送訊息
+    那麼系統記錄警告
+    而且脈絡中的近期訊息取自對話紀錄
+
+  情境: 優先使用對話紀錄
+    假設 transcript.contextSource 為 "transcript"
+    而且頻道已有對話紀錄
+    當使用者在頻道中傳送訊息
+    那麼脈絡中的近期訊息取自對話紀錄
+    而且不會向平台查詢歷史訊息
+
+  情境: /clear 成為持久的標記
+    假設使用者曾在頻道中傳送 "/clear"
+    當使用者刪除這則 "/clear" 訊息
+    而且再傳送新的訊息
+    那麼脈絡中只包含 "/clear" 之後的訊息
+
+  情境: Discord 的 /clear 斜線指令也成為標記
+    假設 transcript.contextSource 設定為 transcript
+    當使用者在 Discord 頻道使用 /clear 斜線指令
+    而且再傳送新的訊息
+    那麼逐字稿記錄 /clear 標記
+    而且脈絡中只包含斜線指令之後的訊息
+
+  情境: 私密的 /ask 不會被記錄
+    當使用者使用 Discord 斜線指令 /ask 提問
+    那麼問題與 Bot 的私密回答都不會寫入對話紀錄
@@ -0,0 +1,43 @@
+# language: zh-TW
+功能: 影子模式（試運行）
+
+  背景:
+    假設 Bot 正在執行
+    而且 shadow.enabled 為 true
+
+  情境: 影子頻道中的回覆寫入審查紀錄
+    假設 shadow.channels 包含 "discord/channel/123"
+    當使用者在 Discord 頻道 "123" 傳送 "你好"
+    那麼 Agent 照常執行並呼叫 send-reply
+    而且回覆不會出現在頻道 "123"
+    而且回覆寫入 {repoPath}/shadow-review.jsonl
+
+  情境: 編輯與反應也會被攔截
+    假設頻道 "123" 受影子模式影響
+    當 Agent 編輯回覆或對訊息加上反應
+    那麼頻道中的訊息不會改變
+    而且編輯與反應寫入審查紀錄
+
+  情境: 討論串跟隨其頻道
+    假設 shadow.channels 包含 "discord/channel/123"
+    當使用者在頻道 "123" 的討論串中傳送訊息
+    那麼回覆寫入審查紀錄而不會發送
+
+  情境: 未列出頻道時所有頻道都受影響
+    假設 shadow.channels 為空
+    當任何頻道觸發對話或自發性貼文
+    那麼輸出都寫入審查紀錄
+
+  情境: 將攔截的輸出轉發給管理員
+    假設 shadow.reviewChannel 為 "discord/channel/999"
+    當影子頻道中的 Agent 回覆
+    那麼回覆內容與原本的頻道一起發送到頻道 "999"
+
+  情境: 不受影響的頻道照常回覆
+    假設 shadow.channels 只包含 "discord/channel/123"
+    當使用者在頻道 "456" 傳送訊息
+    那麼 Bot 照常在頻道 "456" 回覆
+
+  情境: 重新載入設定即可關閉影子模式
+    當管理員將 shadow.enabled 改為 false 並重新載入設定
+    那麼之後的回覆會照常發送
@@ -0,0 +1,50 @@
+# language: zh-TW
+功能: 事件錄製與離線重播
+
+  情境: 錄製收到的事件與頻道歷史
+    假設 eventRecording.enabled 為 true
+    而且 eventRecording.historyLimit 為 20
+    當使用者在 Discord 頻道 "123" 傳送訊息 "456"
+    那麼事件寫入 {repoPath}/recordings/discord/123/{時間戳}-456.json
+    而且檔案包含當下最近 20 則頻道訊息
+    而且檔案不包含平台原始資料
+
+  情境: 未啟用時不錄製
+    假設 eventRecording.enabled 為 false
+    當使用者傳送訊息
+    那麼不會寫入任何錄製檔案
+
+  情境: 取得歷史失敗時仍錄製事件
+    假設 eventRecording.enabled 為 true
+    而且平台 API 無法回傳頻道歷史
+    當使用者傳送訊息
+    那麼事件以空的歷史寫入錄製檔案
+    而且 Bot 照常回覆
+
+  情境: 以腳本 Agent 重播 Misskey 引用轉發
+    假設 fixture 包含一則提及 Bot 的 Misskey 引用轉發
+    而且腳本 Agent 依序呼叫 react-message、memory-save 與 send-reply
+    當執行 deno task replay
+    那麼事件經由 AgentCore.handleEvent 處理
+    而且回覆發送到原本的 note 並回覆該 note
+    而且記憶寫入使用者的工作區
+    而且不需要網路或 LLM
+
+  情境: 重播附帶附件的 Discord 回覆
+    假設 fixture 包含一則附帶圖片與文字檔並回覆他人的 Discord 訊息
+    當執行 deno task replay
+    那麼送給 Agent 的 prompt 包含被回覆的訊息與附件名稱
+    而且 Bot 回覆該訊息
+
+  情境: 輸出不符合預期時重播失敗
+    假設 fixture 預期 airfriends_replies_sent_total 增加 2
+    而且重播只發送了 1 則回覆
+    當執行 deno task replay
+    那麼報告列出不符合的預期
+    而且結束代碼為 1
+
+  情境: 腳本用完後 Agent 不再動作
+    假設腳本 Agent 沒有剩餘的回合
+    當 Bot 送出 prompt 與重試 prompt
+    那麼 Agent 結束回合而不呼叫任何 skill
+    而且使用者收到錯誤訊息
@@ -7,7 +7,8 @@ async function main() {
   try {
     // Parse arguments
     const args = parse(Deno.args, {
-      string: ["session-id", "api-url", "message"],
+      string: ["session-id", "api-url", "message", "attach"],
+      collect: ["attach"],
       alias: { s: "session-id", a: "api-url", m: "message" },
     });
 
@@ -18,9 +19,14 @@ async function main() {
       exitWithError("Missing required argument: --message");
     }
 
+    // Workspace file paths or data URLs, one per --attach
+    const attach = (args.attach as string[] | undefined) ?? [];
+    const attachments = attach.map((url) => ({ url }));
+
     // Call API
     const result = await callSkillApi(apiUrl, "send-reply", sessionId, {
       message,
+      ...(attachments.length > 0 ? { attachments } : {}),
     });
 
     outputResult(result);
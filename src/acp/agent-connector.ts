@@ -2,7 +2,12 @@
 
 import * as acp from "@agentclientprotocol/sdk";
 import { ChatbotClient } from "./client.ts";
-import type { AgentCapabilities, AgentConnectorOptions, MCPServerConfig } from "./types.ts";
+import type {
+  AgentCapabilities,
+  AgentConnectorOptions,
+  ClientConfig,
+  MCPServerConfig,
+} from "./types.ts";
 import type { SkillRegistry } from "@skills/registry.ts";
 import type { Logger } from "@utils/logger.ts";
 
@@ -35,41 +40,12 @@ export class AgentConnector {
   }
 
   /**
-   * Connect to an ACP Agent by spawning a subprocess
+   * Connect to an ACP Agent, by default a subprocess (see openStream())
    */
   async connect(): Promise<void> {
-    const { agentConfig, clientConfig, skillRegistry, logger } = this.options;
+    const { clientConfig, skillRegistry, logger } = this.options;
 
-    (logger as Logger).info("Spawning ACP agent via dumb-init", {
-      command: agentConfig.command,
-      args: agentConfig.args,
-      cwd: agentConfig.cwd,
-    });
-
-    // Spawn the Agent subprocess wrapped with dumb-init for proper signal
-    // forwarding and child process reaping (prevents memory leaks from orphaned processes)
-    const command = new Deno.Command(DUMB_INIT_PATH, {
-      args: ["--", agentConfig.command, ...agentConfig.args],
-      cwd: agentConfig.cwd,
-      env: agentConfig.env,
-      stdin: "piped",
-      stdout: "piped",
-      stderr: "piped", // Capture stderr to log error messages
-    });
-
-    this.process = command.spawn();
-
-    // Pipe stderr to logger (doesn't block the process)
-    this.readStderr(this.process.stderr, logger as Logger).catch((error) => {
-      (logger as Logger).error("Failed to read stderr", {
-        error: error instanceof Error ? error.message : String(error),
-      });
-    });
-
-    // Create streams for JSON-RPC communication
-    // ACP uses: output (to agent) = WritableStream, input (from agent) = ReadableStream
-    const output = this.process.stdin; // WritableStream - we send messages to agent
-    const input = this.process.stdout; // ReadableStream - we receive messages from agent
+    const stream = this.openStream();
 
     // Create the Client implementation
     this.client = new ChatbotClient(
@@ -78,8 +54,6 @@ export class AgentConnector {
       clientConfig,
     );
 
-    // Create ClientSideConnection with proper stream order
-    const stream = acp.ndJsonStream(output, input);
     this.connection = new acp.ClientSideConnection(
       (_agent) => this.client!,
       stream,
@@ -117,7 +91,57 @@ export class AgentConnector {
   }
 
   /**
-   * Create a new session with the Agent
+   * Spawn the Agent subprocess and open the JSON-RPC stream to it.
+   * Protected to allow connecting to an Agent that is not a subprocess (replay harness).
+   */
+  protected openStream(): acp.Stream {
+    const { agentConfig, logger } = this.options;
+
+    (logger as Logger).info("Spawning ACP agent via dumb-init", {
+      command: agentConfig.command,
+      args: agentConfig.args,
+      cwd: agentConfig.cwd,
+    });
+
+    // Spawn the Agent subprocess wrapped with dumb-init for proper signal
+    // forwarding and child process reaping (prevents memory leaks from orphaned processes)
+    const command = new Deno.Command(DUMB_INIT_PATH, {
+      args: ["--", agentConfig.command, ...agentConfig.args],
+      cwd: agentConfig.cwd,
+      env: agentConfig.env,
+      stdin: "piped",
+      stdout: "piped",
+      stderr: "piped", // Capture stderr to log error messages
+    });
+
+    this.process = command.spawn();
+
+    // Pipe stderr to logger (doesn't block the process)
+    this.readStderr(this.process.stderr).catch((error) => {
+      (logger as Logger).error("Failed to read stderr", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    });
+
+    // Create streams for JSON-RPC communication
+    // ACP uses: output (to agent) = WritableStream, input (from agent) = ReadableStream
+    const output = this.process.stdin; // WritableStream - we send messages to agent
+    const input = this.process.stdout; // ReadableStream - we receive messages from agent
+    return acp.ndJsonStream(output, input);
+  }
+
+  /**
+   * Hand the connected Agent to another conversation.
+   * Used by the agent pool: later sessions run in clientConfig.workingDir,
+   * skill calls act for the new user and logs go to the new session logger.
+   */
+  rebind(clientConfig: ClientConfig, logger: Logger): void {
+    this.options = { ...this.options, clientConfig, logger };
+    this.client?.rebind(clientConfig, logger);
+  }
+
+  /**
+   * Create a new session with the Agent in the working directory of the client config
    * @param mcpServers Optional MCP servers to connect to
    * @throws Error if MCP servers use unsupported transport types
    */
@@ -134,7 +158,7 @@ export class AgentConnector {
     }
 
     const result = await this.connection.newSession({
-      cwd: this.options.agentConfig.cwd,
+      cwd: this.options.clientConfig.workingDir,
       mcpServers: mcpServers.map((server) => this.convertMCPServerConfig(server)),
     });
 
@@ -145,6 +169,34 @@ export class AgentConnector {
     return result.sessionId;
   }
 
+  /**
+   * Resume a previous session in the working directory of the client config.
+   * The Agent replays the conversation as session updates before this resolves.
+   * @throws Error if the Agent does not support loadSession or no longer has the session
+   */
+  async loadSession(sessionId: string, mcpServers: MCPServerConfig[] = []): Promise<void> {
+    if (!this.connection) {
+      throw new Error("Not connected to agent");
+    }
+    if (!this.supportsLoadSession()) {
+      throw new Error("Agent does not support loading sessions");
+    }
+
+    const logger = this.options.logger as Logger;
+
+    if (mcpServers.length > 0) {
+      this.validateMCPServerTransports(mcpServers);
+    }
+
+    await this.connection.loadSession({
+      sessionId,
+      cwd: this.options.clientConfig.workingDir,
+      mcpServers: mcpServers.map((server) => this.convertMCPServerConfig(server)),
+    });
+
+    logger.info("Session {sessionId} loaded", { sessionId });
+  }
+
   /**
    * Validate that all MCP server transports are supported by the Agent
    * @throws Error if any server uses unsupported transport type
@@ -287,7 +339,7 @@ export class AgentConnector {
     const logger = this.options.logger as Logger;
 
     // Reset client state for new prompt
-    this.client?.reset();
+    this.client?.startPrompt();
 
     // If content is a plain string, wrap as text ContentBlock (backward compatible)
     const prompt: acp.ContentBlock[] = typeof content === "string"
@@ -354,17 +406,16 @@ export class AgentConnector {
    * Check if connected to an Agent
    */
   get isConnected(): boolean {
-    return this.connection !== null && this.process !== null;
+    return this.connection !== null;
   }
 
   /**
    * Read stderr stream from the agent process and log errors
    * This runs asynchronously in the background
    */
-  private async readStderr(
-    stderr: ReadableStream<Uint8Array>,
-    logger: Logger,
-  ): Promise<void> {
+  private async readStderr(stderr: ReadableStream<Uint8Array>): Promise<void> {
+    // Read the logger per chunk so a rebound process logs to its current session
+    const logger = () => this.options.logger as Logger;
     try {
       const decoder = new TextDecoder();
       const reader = stderr.getReader();
@@ -376,13 +427,13 @@ export class AgentConnector {
         const text = decoder.decode(value, { stream: true });
         if (text.trim()) {
           // Log stderr output as warnings (they're usually errors)
-          logger.warn("Agent stderr", { message: text.trim() });
+          logger().warn("Agent stderr", { message: text.trim() });
         }
       }
     } catch (error) {
       // Only log if it's not a cancellation error
       if (error instanceof Error && error.message !== "operation canceled") {
-        logger.error("Error reading stderr stream", {
+        logger().error("Error reading stderr stream", {
           error: error.message,
         });
       }
@@ -2,6 +2,12 @@
 
 import type { AgentConfig, AgentType, RetryPromptStrategy } from "./types.ts";
 import type { Config } from "../types/config.ts";
+import { ConfigError, ErrorCode } from "../types/errors.ts";
+
+/**
+ * JSON-RPC error code of ACP "Authentication required" errors
+ */
+const ACP_AUTH_REQUIRED = -32000;
 
 /**
  * Create ACP Agent configuration based on agent type
@@ -23,7 +29,8 @@ export function createAgentConfig(
         Deno.env.get("GITHUB_TOKEN");
 
       if (!githubToken) {
-        throw new Error(
+        throw new ConfigError(
+          ErrorCode.CONFIG_MISSING_FIELD,
           "GitHub token not configured for Copilot agent. " +
             "Set agent.githubToken in config or GITHUB_TOKEN env var",
         );
@@ -86,7 +93,8 @@ export function createAgentConfig(
         Deno.env.get("GEMINI_API_KEY");
 
       if (!geminiApiKey) {
-        throw new Error(
+        throw new ConfigError(
+          ErrorCode.CONFIG_MISSING_FIELD,
           "Gemini API key not configured for Gemini agent. " +
             "Set agent.geminiApiKey in config or GEMINI_API_KEY env var",
         );
@@ -188,10 +196,68 @@ export function createAgentConfig(
 }
 
 /**
- * Get the default agent type from config, or fall back to "copilot"
+ * Get the agent types to try for a session, in order.
+ * agent.defaultAgentType may be a single type or a fallback chain; defaults to "copilot".
+ * @param configured Agent type setting to use instead of agent.defaultAgentType (e.g. of a routing rule)
+ */
+export function getAgentTypes(
+  appConfig: Config,
+  configured = appConfig.agent.defaultAgentType,
+): AgentType[] {
+  const types = (Array.isArray(configured) ? configured : [configured])
+    .filter((type): type is AgentType => !!type);
+  return types.length > 0 ? [...new Set(types)] : ["copilot"];
+}
+
+/**
+ * Get the default agent type from config (the first of the fallback chain), or fall back to "copilot"
  */
 export function getDefaultAgentType(appConfig: Config): AgentType {
-  return appConfig.agent.defaultAgentType ?? "copilot";
+  return getAgentTypes(appConfig)[0];
+}
+
+/**
+ * Error messages of agents that cannot serve any session right now
+ */
+const AGENT_UNAVAILABLE_PATTERNS = [
+  /quota/i,
+  /rate.?limit/i,
+  /too many requests/i,
+  /\b(402|429)\b/,
+  /insufficient (credits|balance|funds)/i,
+  /billing/i,
+  /unauthori[sz]ed/i,
+  /authenticat/i,
+  /not connected to agent/i,
+  /connection (closed|reset|refused)/i,
+  /broken pipe/i,
+];
+
+/**
+ * Whether an agent error means the agent itself is unavailable (its process or connection
+ * failed, or its provider refused the request), so another agent type may still succeed.
+ * Errors caused by the session, like an invalid prompt, are not.
+ */
+export function isAgentUnavailableError(error: unknown): boolean {
+  if (
+    error instanceof Deno.errors.BrokenPipe ||
+    error instanceof Deno.errors.ConnectionReset ||
+    error instanceof Deno.errors.UnexpectedEof ||
+    error instanceof Deno.errors.NotFound
+  ) {
+    return true;
+  }
+
+  // Errors returned by the agent are JSON-RPC error objects, not Error instances
+  const rpcError = typeof error === "object" && error !== null
+    ? error as { code?: unknown; message?: unknown }
+    : {};
+  if (rpcError.code === ACP_AUTH_REQUIRED) {
+    return true;
+  }
+
+  const message = typeof rpcError.message === "string" ? rpcError.message : String(error);
+  return AGENT_UNAVAILABLE_PATTERNS.some((pattern) => pattern.test(message));
 }
 
 /**
@@ -0,0 +1,357 @@
+// src/acp/agent-pool.ts
+
+import { createLogger, type Logger } from "@utils/logger.ts";
+import { agentPoolHitsTotal, agentPoolIdleGauge, agentPoolMissesTotal } from "@utils/metrics.ts";
+import type { AgentConnector } from "./agent-connector.ts";
+import type { AgentConnectorOptions, AgentType } from "./types.ts";
+import type { AgentPoolConfig } from "../types/config.ts";
+
+const logger = createLogger("AgentPool");
+
+/**
+ * Default agent pool configuration
+ */
+export const DEFAULT_AGENT_POOL: AgentPoolConfig = {
+  enabled: false,
+  warmProcesses: 1,
+  maxIdleProcesses: 2,
+  maxSessionsPerProcess: 20,
+  idleTimeoutMs: 600_000,
+  sessionCwd: true,
+};
+
+/**
+ * Creates an unconnected AgentConnector
+ */
+export type ConnectorFactory = (options: AgentConnectorOptions) => AgentConnector;
+
+/**
+ * Agent sessions holding a concurrency slot and the slot limit (maxAgents <= 0: no limit).
+ * Every session runs one agent process, leased from the pool or not.
+ */
+export type AgentProcessCounter = () => { active: number; maxAgents: number };
+
+/**
+ * A connected agent process lent to one session
+ */
+export interface AgentLease {
+  connector: AgentConnector;
+  /** The process was already running when the session started */
+  warm: boolean;
+  /**
+   * Hand the process back once the session is over.
+   * Processes that failed (healthy = false) are killed instead of reused.
+   * Safe to call more than once.
+   */
+  release(healthy: boolean): Promise<void>;
+}
+
+interface PooledAgent {
+  /** Agent type and working directory class the process was started for */
+  key: string;
+  connector: AgentConnector;
+  /** Sessions served so far */
+  sessions: number;
+  idleTimer?: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Keeps connected agent processes between sessions to skip the agent startup time.
+ *
+ * Processes are grouped by agent type and working directory class.
+ * With sessionCwd (the default) every process starts in the agent workspace and serves
+ * any user: the workspace is passed as the cwd of each ACP session, and a replacement is
+ * warmed up in the background whenever a process is handed out.
+ * Without it, a process is only reused by later sessions of the workspace it started in.
+ *
+ * Processes are killed after maxSessionsPerProcess sessions, after idleTimeoutMs without a
+ * session, or when more than maxIdleProcesses are idle (least recently used first).
+ * Idle and warming processes count against maxAgents together with the running sessions:
+ * warm-ups stop at the limit, and a session needing a new process evicts idle ones first.
+ * A disabled pool spawns a process per session and kills it on release.
+ */
+export class AgentPool {
+  private config: AgentPoolConfig;
+  private createConnector: ConnectorFactory;
+  private countProcesses: AgentProcessCounter;
+  /** Idle processes, least recently used first */
+  private idle: PooledAgent[] = [];
+  /** Processes being warmed up per key */
+  private warming = new Map<string, number>();
+  private pendingWarmUps = new Set<Promise<void>>();
+  private closed = false;
+
+  constructor(
+    config: AgentPoolConfig,
+    createConnector: ConnectorFactory,
+    countProcesses: AgentProcessCounter = () => ({ active: 0, maxAgents: 0 }),
+  ) {
+    this.config = config;
+    this.createConnector = createConnector;
+    this.countProcesses = countProcesses;
+  }
+
+  /**
+   * Get a connected agent process for a session
+   * @param options Connector options of the session; agentConfig.cwd is its workspace
+   */
+  async acquire(agentType: AgentType, options: AgentConnectorOptions): Promise<AgentLease> {
+    if (!this.config.enabled || this.closed) {
+      const connector = this.createConnector(options);
+      await connector.connect();
+      return this.createLease({ key: "", connector, sessions: 1 }, false, false);
+    }
+
+    const spawnOptions = this.toSpawnOptions(options);
+    const key = this.getKey(agentType, options);
+
+    let agent = await this.takeIdleOrMakeRoom(key);
+    const warm = agent !== null;
+    if (agent) {
+      agent.connector.rebind(options.clientConfig, options.logger as Logger);
+      agentPoolHitsTotal.inc({ agent_type: agentType });
+    } else {
+      agentPoolMissesTotal.inc({ agent_type: agentType });
+      const connector = this.createConnector(spawnOptions);
+      await connector.connect();
+      agent = { key, connector, sessions: 0 };
+    }
+
+    agent.sessions++;
+    logger.debug("Agent process for {key} handed out", {
+      key,
+      warm,
+      sessions: agent.sessions,
+      idle: this.idle.length,
+    });
+
+    this.replenish(key, spawnOptions);
+    return this.createLease(agent, warm, true);
+  }
+
+  /**
+   * Start the warm processes of an agent type ahead of the first session.
+   * Does nothing unless the pool is enabled with sessionCwd.
+   */
+  async warmUp(agentType: AgentType, options: AgentConnectorOptions): Promise<void> {
+    if (!this.config.enabled || this.closed) return;
+
+    this.replenish(this.getKey(agentType, options), this.toSpawnOptions(options));
+    await Promise.all(this.pendingWarmUps);
+  }
+
+  /**
+   * Number of idle processes
+   */
+  getIdleCount(): number {
+    return this.idle.length;
+  }
+
+  /**
+   * Kill all idle processes. Leased processes are killed when released.
+   */
+  async close(): Promise<void> {
+    this.closed = true;
+    await Promise.all(this.pendingWarmUps);
+
+    const agents = this.idle;
+    this.idle = [];
+    agentPoolIdleGauge.set(0);
+    await Promise.all(agents.map((agent) => this.kill(agent)));
+
+    if (agents.length > 0) {
+      logger.info("Agent pool closed, {count} idle processes killed", { count: agents.length });
+    }
+  }
+
+  /**
+   * Shared processes are told their agent workspace at spawn, so each persona has its own
+   */
+  private getKey(agentType: AgentType, options: AgentConnectorOptions): string {
+    return `${agentType}:${
+      this.config.sessionCwd
+        ? `shared:${options.clientConfig.agentWorkspacePath ?? ""}`
+        : options.agentConfig.cwd
+    }`;
+  }
+
+  /**
+   * Shared processes start in the agent workspace: their sessions get the user workspace as cwd
+   */
+  private toSpawnOptions(options: AgentConnectorOptions): AgentConnectorOptions {
+    const sharedCwd = options.clientConfig.agentWorkspacePath;
+    if (!this.config.sessionCwd || !sharedCwd) return options;
+
+    return { ...options, agentConfig: { ...options.agentConfig, cwd: sharedCwd } };
+  }
+
+  private createLease(agent: PooledAgent, warm: boolean, pooled: boolean): AgentLease {
+    let released = false;
+    return {
+      connector: agent.connector,
+      warm,
+      release: async (healthy) => {
+        if (released) return;
+        released = true;
+
+        if (pooled) {
+          await this.release(agent, healthy);
+        } else {
+          await agent.connector.disconnect();
+        }
+      },
+    };
+  }
+
+  private async release(agent: PooledAgent, healthy: boolean): Promise<void> {
+    const { maxSessionsPerProcess } = this.config;
+    let reason: string | null = null;
+    if (this.closed) {
+      reason = "pool closed";
+    } else if (!healthy || !agent.connector.isConnected) {
+      reason = "session failed";
+    } else if (maxSessionsPerProcess > 0 && agent.sessions >= maxSessionsPerProcess) {
+      reason = "session limit reached";
+    }
+
+    if (reason) {
+      logger.info("Agent process for {key} recycled: {reason}", {
+        key: agent.key,
+        reason,
+        sessions: agent.sessions,
+      });
+      await this.kill(agent);
+      return;
+    }
+
+    await this.addIdle(agent);
+  }
+
+  /**
+   * Take an idle process of a key. Without one, make room for the session's new process:
+   * evict idle processes of other keys, or wait for warm-ups, while the limit is exceeded.
+   */
+  private async takeIdleOrMakeRoom(key: string): Promise<PooledAgent | null> {
+    while (true) {
+      const agent = this.takeIdle(key);
+      // The session's slot already counts its new process
+      if (agent || this.getSpareProcesses() >= 0) return agent;
+
+      if (this.idle.length > 0) {
+        const oldest = this.idle[0];
+        logger.info("Agent process for {key} recycled: agent limit reached", { key: oldest.key });
+        this.removeIdle(oldest);
+        await this.kill(oldest);
+      } else if (this.pendingWarmUps.size > 0) {
+        await Promise.race(this.pendingWarmUps);
+      } else {
+        return null;
+      }
+    }
+  }
+
+  /**
+   * Processes that can still be started within maxAgents, negative when over the limit
+   */
+  private getSpareProcesses(): number {
+    const { active, maxAgents } = this.countProcesses();
+    if (maxAgents <= 0) return Infinity;
+
+    let warming = 0;
+    for (const count of this.warming.values()) warming += count;
+    return maxAgents - active - this.idle.length - warming;
+  }
+
+  /**
+   * Take the most recently used live process of a key
+   */
+  private takeIdle(key: string): PooledAgent | null {
+    for (let i = this.idle.length - 1; i >= 0; i--) {
+      const agent = this.idle[i];
+      if (agent.key !== key) continue;
+
+      this.removeIdle(agent);
+      if (agent.connector.isConnected) {
+        return agent;
+      }
+      this.kill(agent);
+    }
+    return null;
+  }
+
+  private async addIdle(agent: PooledAgent): Promise<void> {
+    this.idle.push(agent);
+    if (this.config.idleTimeoutMs > 0) {
+      agent.idleTimer = setTimeout(() => {
+        logger.info("Agent process for {key} recycled: idle timeout", { key: agent.key });
+        this.removeIdle(agent);
+        this.kill(agent);
+      }, this.config.idleTimeoutMs);
+    }
+
+    const evicted: PooledAgent[] = [];
+    while (this.idle.length > this.config.maxIdleProcesses) {
+      const oldest = this.idle[0];
+      this.removeIdle(oldest);
+      evicted.push(oldest);
+    }
+    agentPoolIdleGauge.set(this.idle.length);
+
+    await Promise.all(evicted.map((oldest) => this.kill(oldest)));
+  }
+
+  private removeIdle(agent: PooledAgent): void {
+    clearTimeout(agent.idleTimer);
+    agent.idleTimer = undefined;
+    this.idle = this.idle.filter((other) => other !== agent);
+    agentPoolIdleGauge.set(this.idle.length);
+  }
+
+  /**
+   * Warm up processes in the background until the shared key has warmProcesses idle ones,
+   * as long as they fit within maxAgents
+   */
+  private replenish(key: string, options: AgentConnectorOptions): void {
+    if (!this.config.sessionCwd) return;
+
+    const ready = this.idle.filter((agent) => agent.key === key).length +
+      (this.warming.get(key) ?? 0);
+    for (let i = ready; i < this.config.warmProcesses && this.getSpareProcesses() > 0; i++) {
+      const warmUp = this.spawnIdle(key, { ...options, logger });
+      this.pendingWarmUps.add(warmUp);
+      warmUp.finally(() => this.pendingWarmUps.delete(warmUp));
+    }
+  }
+
+  private async spawnIdle(key: string, options: AgentConnectorOptions): Promise<void> {
+    this.warming.set(key, (this.warming.get(key) ?? 0) + 1);
+    const connector = this.createConnector(options);
+    try {
+      await connector.connect();
+      if (this.closed) {
+        await connector.disconnect();
+        return;
+      }
+      await this.addIdle({ key, connector, sessions: 0 });
+      logger.debug("Agent process for {key} warmed up", { key, idle: this.idle.length });
+    } catch (error) {
+      logger.warn("Failed to warm up agent process for {key}", {
+        key,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    } finally {
+      this.warming.set(key, this.warming.get(key)! - 1);
+    }
+  }
+
+  private async kill(agent: PooledAgent): Promise<void> {
+    try {
+      await agent.connector.disconnect();
+    } catch (error) {
+      logger.warn("Failed to stop agent process for {key}", {
+        key: agent.key,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+}
@@ -16,6 +16,8 @@ export class ChatbotClient implements acp.Client {
   private logger: Logger;
   private config: ClientConfig;
   private replyAlreadySent: boolean = false;
+  // Agent messages replayed by loadSession arrive before the first prompt
+  private prompting: boolean = false;
 
   constructor(
     skillRegistry: SkillRegistry,
@@ -27,6 +29,15 @@ export class ChatbotClient implements acp.Client {
     this.config = config;
   }
 
+  /**
+   * Switch to another session's context when a pooled agent process is reused
+   */
+  rebind(config: ClientConfig, logger: Logger): void {
+    this.config = config;
+    this.logger = logger;
+    this.reset();
+  }
+
   /**
    * Handle permission requests from the Agent
    * Auto-approves our registered skills and access to skills directory
@@ -162,15 +173,21 @@ export class ChatbotClient implements acp.Client {
 
     switch (update.sessionUpdate) {
       case "agent_message_chunk":
-        // Agent is generating response - log but don't send
+        // Agent is generating response - only streamed to the reply draft, if any
         if (update.content.type === "text") {
           this.logger.debug("Agent message chunk", {
             text: update.content.text.substring(0, 100),
           });
+          if (this.prompting) {
+            this.config.replyDraft?.append(update.content.text);
+          }
         }
         break;
 
       case "tool_call":
+        if (this.prompting) {
+          this.config.replyDraft?.restart();
+        }
         this.logger.info(
           "Tool call started: {title} (id: {id}, kind: {kind})",
           {
@@ -359,6 +376,15 @@ export class ChatbotClient implements acp.Client {
    */
   reset(): void {
     this.replyAlreadySent = false;
+    this.prompting = false;
+  }
+
+  /**
+   * Reset client state and stream agent messages of a new prompt to the reply draft
+   */
+  startPrompt(): void {
+    this.reset();
+    this.prompting = true;
   }
 
   /**
@@ -24,6 +24,19 @@ export interface ClientConfig {
 
   /** YOLO mode: auto-approve all permission requests */
   yolo?: boolean;
+
+  /** Draft reply the text written by the agent is streamed to */
+  replyDraft?: ReplyStream;
+}
+
+/**
+ * Receiver of the text an agent writes while it works
+ */
+export interface ReplyStream {
+  /** Add a chunk of agent text */
+  append(text: string): void;
+  /** Start over with the next chunk, e.g. after a tool call */
+  restart(): void;
 }
 
 /**
@@ -1,6 +1,6 @@
 // src/bootstrap.ts
 
-import { loadConfig } from "@core/config-loader.ts";
+import { type ConfigOverrides, loadConfig } from "@core/config-loader.ts";
 import type { Config } from "./types/config.ts";
 import { AgentCore } from "@core/agent-core.ts";
 import { SpontaneousScheduler } from "@core/spontaneous-scheduler.ts";
@@ -9,12 +9,12 @@ import { MemoryMaintenanceScheduler } from "@core/memory-maintenance-scheduler.t
 import { determineSpontaneousTarget } from "@core/spontaneous-target.ts";
 import { fetchRssItems, pickRandom } from "@utils/rss-fetcher.ts";
 import { getPlatformRegistry } from "@platforms/platform-registry.ts";
-import { DiscordAdapter } from "@platforms/discord/index.ts";
-import { MisskeyAdapter } from "@platforms/misskey/index.ts";
+import { createPlatformAdapters } from "@platforms/platform-factory.ts";
 import { HealthCheckServer } from "./healthcheck.ts";
+import { ConfigReloader } from "./config-reloader.ts";
 import { configureLogger, createLogger } from "@utils/logger.ts";
 import { GelfTransport } from "@utils/gelf-transport.ts";
-import type { Platform } from "./types/events.ts";
+import { getAccountKey, type Platform } from "./types/events.ts";
 
 const logger = createLogger("Bootstrap");
 
@@ -29,19 +29,26 @@ export interface AppContext {
   spontaneousScheduler: SpontaneousScheduler | null;
   selfResearchScheduler: SelfResearchScheduler | null;
   memoryMaintenanceScheduler: MemoryMaintenanceScheduler | null;
+  configReloader: ConfigReloader | null;
   yolo: boolean;
 }
 
 /**
  * Bootstrap the application
+ * @param overrides - Command line overrides (e.g., running a single platform)
  */
-export async function bootstrap(configPath?: string, yolo = false): Promise<AppContext> {
-  logger.info("Starting bootstrap", { yolo });
+export async function bootstrap(
+  configPath?: string,
+  yolo = false,
+  overrides: ConfigOverrides = {},
+): Promise<AppContext> {
+  logger.info("Starting bootstrap", { yolo, platform: overrides.platform });
 
   // Load configuration
   const configFile = configPath ?? "./config.yaml";
   logger.info("Loading configuration", { path: configFile });
-  const config = await loadConfig(configPath ? configPath.replace(/\/[^/]+$/, "") : ".");
+  const configDir = configPath ? configPath.replace(/\/[^/]+$/, "") : ".";
+  const config = await loadConfig(configDir, overrides);
 
   // Initialize GELF transport if configured
   let gelfTransport: GelfTransport | undefined;
@@ -70,24 +77,26 @@ export async function bootstrap(configPath?: string, yolo = false): Promise<AppC
   logger.info("Initializing agent core");
   const agentCore = new AgentCore(config, yolo);
 
+  // Load prompt templates now: a broken template stops the startup
+  await agentCore.getOrchestrator().loadPromptTemplates();
+
   // Initialize platform registry
   logger.info("Initializing platform registry");
   const platformRegistry = getPlatformRegistry();
 
-  // Register Discord adapter if configured
-  if (config.platforms.discord.enabled) {
-    logger.info("Registering Discord adapter");
-    const discordAdapter = new DiscordAdapter(config.platforms.discord);
-    platformRegistry.register(discordAdapter);
-    agentCore.registerPlatform(discordAdapter);
+  // Register the platform accounts of the default persona, then those of other personas
+  for (const adapter of createPlatformAdapters(config.platforms)) {
+    platformRegistry.register(adapter);
+    agentCore.registerPlatform(adapter);
   }
 
-  // Register Misskey adapter if configured
-  if (config.platforms.misskey.enabled) {
-    logger.info("Registering Misskey adapter");
-    const misskeyAdapter = new MisskeyAdapter(config.platforms.misskey);
-    platformRegistry.register(misskeyAdapter);
-    agentCore.registerPlatform(misskeyAdapter);
+  for (const persona of config.personas ?? []) {
+    logger.info("Registering platforms of persona {persona}", { persona: persona.name });
+    for (const adapter of createPlatformAdapters(persona.platforms)) {
+      adapter.setPersona(persona);
+      platformRegistry.register(adapter);
+      agentCore.registerPlatform(adapter);
+    }
   }
 
   // Initialize Health Check server if enabled
@@ -98,136 +107,149 @@ export async function bootstrap(configPath?: string, yolo = false): Promise<AppC
     healthCheckServer.start();
   }
 
-  // Initialize Spontaneous Scheduler
+  // Initialize Spontaneous Scheduler (one timer per platform account of each persona)
   const spontaneousScheduler = new SpontaneousScheduler(config);
-  spontaneousScheduler.setCallback(async (platform: Platform) => {
-    const adapter = platformRegistry.getAdapter(platform);
+  spontaneousScheduler.setCallback(async (platform: Platform, persona?: string) => {
+    const account = getAccountKey(platform, persona);
+    const adapter = platformRegistry.getAdapter(platform, persona);
     if (!adapter) {
-      logger.warn("Platform adapter not found: {platform}", { platform });
+      logger.warn("Platform adapter not found: {platform}", { platform: account });
       return;
     }
 
     if (adapter.getConnectionStatus().state !== "connected") {
-      logger.warn("Platform {platform} not connected, skipping spontaneous post", { platform });
+      logger.warn("Platform {platform} not connected, skipping spontaneous post", {
+        platform: account,
+      });
       return;
     }
 
     const botId = adapter.getBotId();
     if (!botId) {
-      logger.warn("Bot ID not available for {platform}, skipping spontaneous post", { platform });
+      logger.warn("Bot ID not available for {platform}, skipping spontaneous post", {
+        platform: account,
+      });
       return;
     }
 
     const target = await determineSpontaneousTarget(platform, adapter, config);
     if (!target) {
-      logger.warn("No valid target for spontaneous post on {platform}", { platform });
+      logger.warn("No valid target for spontaneous post on {platform}", { platform: account });
       return;
     }
 
-    const sp = config.platforms[platform].spontaneousPost!;
+    const platforms = persona
+      ? config.personas?.find((candidate) => candidate.name === persona)?.platforms
+      : config.platforms;
+    const sp = platforms?.[platform]?.spontaneousPost;
+    if (!sp) return;
     const fetchRecentMessages = Math.random() < sp.contextFetchProbability;
 
     logger.info("Triggering spontaneous post", {
-      platform,
+      platform: account,
       channelId: target.channelId,
       fetchRecentMessages,
     });
 
+    const shadowMode = agentCore.getShadowMode();
     const response = await agentCore.getOrchestrator().processSpontaneousPost(
       platform,
       target.channelId,
-      adapter,
-      { botId, fetchRecentMessages },
+      shadowMode.isShadowed({ platform, channelId: target.channelId })
+        ? shadowMode.wrap(adapter)
+        : adapter,
+      { botId, fetchRecentMessages, persona },
     );
 
     if (!response.success) {
       logger.warn("Spontaneous post did not succeed", {
-        platform,
+        platform: account,
         error: response.error,
       });
     }
   });
 
-  // Initialize Self-Research Scheduler
-  let selfResearchScheduler: SelfResearchScheduler | null = null;
-  if (config.selfResearch?.enabled) {
-    selfResearchScheduler = new SelfResearchScheduler(config);
-    selfResearchScheduler.setCallback(async () => {
-      const allItems = await fetchRssItems(config.selfResearch!.rssFeeds);
-      if (allItems.length === 0) {
-        logger.warn("No RSS items fetched, skipping self-research");
-        return;
-      }
+  // Initialize Self-Research Scheduler (it runs only when enabled, which a config reload can change)
+  const selfResearchScheduler = new SelfResearchScheduler(config);
+  selfResearchScheduler.setCallback(async () => {
+    const allItems = await fetchRssItems(config.selfResearch!.rssFeeds);
+    if (allItems.length === 0) {
+      logger.warn("No RSS items fetched, skipping self-research");
+      return;
+    }
 
+    // Each persona picks its own materials and writes to its own agent workspace
+    const personas = [undefined, ...(config.personas ?? []).map((persona) => persona.name)];
+    for (const persona of personas) {
       const selectedItems = pickRandom(allItems, 20);
 
       const response = await agentCore.getOrchestrator().processSelfResearch(
         selectedItems,
         config.selfResearch!,
+        persona,
       );
 
       if (!response.success) {
-        logger.warn("Self-research session did not succeed", { error: response.error });
+        logger.warn("Self-research session did not succeed", { persona, error: response.error });
       }
-    });
-  }
+    }
+  });
 
   // Initialize Memory Maintenance Scheduler
-  let memoryMaintenanceScheduler: MemoryMaintenanceScheduler | null = null;
-  if (config.memoryMaintenance?.enabled) {
-    memoryMaintenanceScheduler = new MemoryMaintenanceScheduler(config.memoryMaintenance);
-    memoryMaintenanceScheduler.setCallback(async () => {
-      const orchestrator = agentCore.getOrchestrator();
-      const workspaceManager = agentCore.getWorkspaceManager();
-      const memoryStore = agentCore.getMemoryStore();
-      const workspaceKeys = await workspaceManager.listWorkspaces();
-
-      for (const workspaceKey of workspaceKeys) {
-        try {
-          const [platform, userId] = workspaceKey.split("/");
-          if ((platform !== "discord" && platform !== "misskey") || !userId) {
-            logger.warn("Skipping invalid workspace key", { workspaceKey });
-            continue;
-          }
-
-          const workspaceInfo = await workspaceManager.getOrCreateWorkspace({
-            platform,
-            userId,
-            channelId: "internal",
-            messageId: `maintenance_check_${Date.now()}`,
-            isDm: true,
-            guildId: "",
-            content: "",
-            timestamp: new Date(),
-          });
-
-          const count = await memoryStore.countEnabledMemories(workspaceInfo);
-          if (count < config.memoryMaintenance!.minMemoryCount) {
-            logger.debug("Skipping workspace, below memory maintenance threshold", {
-              workspaceKey,
-              count,
-              threshold: config.memoryMaintenance!.minMemoryCount,
-            });
-            continue;
-          }
-
-          logger.info("Starting memory maintenance for workspace {workspaceKey}", {
+  const memoryMaintenanceScheduler = new MemoryMaintenanceScheduler(config.memoryMaintenance!);
+  memoryMaintenanceScheduler.setCallback(async () => {
+    const orchestrator = agentCore.getOrchestrator();
+    const workspaceManager = agentCore.getWorkspaceManager();
+    const memoryStore = agentCore.getMemoryStore();
+    const workspaceKeys = await workspaceManager.listWorkspaces();
+
+    for (const workspaceKey of workspaceKeys) {
+      try {
+        const components = workspaceManager.parseWorkspaceKey(workspaceKey);
+        if (!components) {
+          logger.warn("Skipping invalid workspace key", { workspaceKey });
+          continue;
+        }
+        const { platform, userId, persona } = components;
+
+        const workspaceInfo = await workspaceManager.getOrCreateWorkspace({
+          platform,
+          userId,
+          persona,
+          channelId: "internal",
+          messageId: `maintenance_check_${Date.now()}`,
+          isDm: true,
+          guildId: "",
+          content: "",
+          timestamp: new Date(),
+        });
+
+        const count = await memoryStore.countEnabledMemories(workspaceInfo);
+        if (count < config.memoryMaintenance!.minMemoryCount) {
+          logger.debug("Skipping workspace, below memory maintenance threshold", {
             workspaceKey,
             count,
+            threshold: config.memoryMaintenance!.minMemoryCount,
           });
-          await orchestrator.processMemoryMaintenance(workspaceKey, config.memoryMaintenance!);
-          logger.info("Memory maintenance completed for workspace {workspaceKey}", {
-            workspaceKey,
-          });
-        } catch (error) {
-          logger.error("Memory maintenance failed for workspace {workspaceKey}", {
-            workspaceKey,
-            error: error instanceof Error ? error.message : String(error),
-          });
+          continue;
         }
+
+        logger.info("Starting memory maintenance for workspace {workspaceKey}", {
+          workspaceKey,
+          count,
+        });
+        await orchestrator.processMemoryMaintenance(workspaceKey, config.memoryMaintenance!);
+        logger.info("Memory maintenance completed for workspace {workspaceKey}", {
+          workspaceKey,
+        });
+      } catch (error) {
+        logger.error("Memory maintenance failed for workspace {workspaceKey}", {
+          workspaceKey,
+          error: error instanceof Error ? error.message : String(error),
+        });
       }
-    });
-  }
+    }
+  });
 
   logger.info("Bootstrap completed");
 
@@ -239,8 +261,18 @@ export async function bootstrap(configPath?: string, yolo = false): Promise<AppC
     spontaneousScheduler,
     selfResearchScheduler,
     memoryMaintenanceScheduler,
+    configReloader: null,
     yolo,
   };
+  const configReloader = new ConfigReloader(context, configDir, overrides);
+  context.configReloader = configReloader;
+
+  // Admin commands reach the components created here
+  agentCore.getAdminCommands().setOperations({
+    reloadConfig: () => configReloader.reloadConfig(),
+    runSpontaneousPost: (platform, persona) => spontaneousScheduler.runNow(platform, persona),
+    runSelfResearch: () => selfResearchScheduler.runNow(),
+  });
 
   // Set Health Check server context after all components initialized
   if (healthCheckServer) {
@@ -264,6 +296,13 @@ export async function startPlatforms(context: AppContext): Promise<void> {
 
   logger.info("Connecting to {count} platforms", { count: adapters.length });
 
+  // Warm up pooled agent processes while the platforms connect
+  context.agentCore.getOrchestrator().warmUpAgentPool().catch((error) => {
+    logger.warn("Failed to warm up agent pool", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  });
+
   // Connect all platforms
   await platformRegistry.connectAll();
 
@@ -281,5 +320,10 @@ export async function startPlatforms(context: AppContext): Promise<void> {
     context.memoryMaintenanceScheduler.start();
   }
 
+  // Apply config and prompt edits from now on
+  if (context.configReloader) {
+    await context.configReloader.start();
+  }
+
   logger.info("All platforms connected");
 }
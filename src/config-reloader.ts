@@ -0,0 +1,464 @@
+// src/config-reloader.ts
+
+import { dirname, resolve } from "@std/path";
+import {
+  type ConfigOverrides,
+  getConfigFilePaths,
+  parseConfig,
+  readConfig,
+} from "@core/config-loader.ts";
+import { loadPromptTemplate } from "@core/prompt-template.ts";
+import { getPromptTemplatePaths } from "@core/session-orchestrator.ts";
+import { createPlatformAdapters } from "@platforms/platform-factory.ts";
+import { createLogger } from "@utils/logger.ts";
+import type { AppContext } from "./bootstrap.ts";
+import type { Config, PersonaConfig, PlatformsConfig } from "./types/config.ts";
+import { getAccountKey, type Platform, PLATFORMS } from "./types/events.ts";
+
+const logger = createLogger("ConfigReloader");
+
+/**
+ * Platform settings an adapter connects with. Changing them replaces the adapter,
+ * which reconnects the account.
+ */
+const PLATFORM_CREDENTIAL_FIELDS: Record<Platform, string[]> = {
+  discord: ["token"],
+  misskey: ["host", "token"],
+  telegram: ["token", "apiBaseUrl"],
+  matrix: ["homeserverUrl", "accessToken"],
+  mastodon: ["host", "token"],
+  console: [],
+  webhook: ["secret", "callbackUrl", "port", "host", "path"],
+};
+
+/**
+ * Platform settings read while the adapter runs
+ */
+const LIVE_PLATFORM_FIELDS = ["enabled", "spontaneousPost"];
+
+/**
+ * Settings read once at startup; changes are applied on the next restart
+ */
+const RESTART_SETTINGS = [
+  "workspace",
+  "logging",
+  "health",
+  "skillApi",
+  "metrics",
+  "agentConcurrency",
+  "agentPool",
+  "configReload",
+  "transcript.enabled",
+  "memory.searchLimit",
+  "memory.maxChars",
+];
+
+/**
+ * Settings whose values are masked in logs
+ */
+const SECRET_KEY_PATTERN = /(?:token|secret|apiKey|password)$/i;
+
+/**
+ * A changed setting, with the dot separated path to it
+ */
+export interface ConfigChange {
+  path: string;
+  before: unknown;
+  after: unknown;
+}
+
+/**
+ * Platform accounts to disconnect and connect for a configuration change, by account key.
+ * An account with changed credentials is in both lists.
+ */
+export interface AccountChanges {
+  removed: string[];
+  added: string[];
+}
+
+interface Account {
+  platform: Platform;
+  persona?: PersonaConfig;
+  config: Record<string, unknown>;
+}
+
+/**
+ * Watches the config files and prompt directories and applies changes to the running bot.
+ *
+ * The config object is updated in place, so components reading it see the new values;
+ * components deriving state from it are updated explicitly. A configuration that fails
+ * validation, or whose prompt templates do not load, is rejected with the changes it
+ * contains logged, and the last good configuration stays in use.
+ */
+export class ConfigReloader {
+  private readonly context: AppContext;
+  private readonly basePath: string;
+  private readonly overrides: ConfigOverrides;
+  /** Unvalidated configuration of the last reload, to log the changes of rejected ones */
+  private rawConfig: Record<string, unknown> | null = null;
+  private configWatcher: Deno.FsWatcher | null = null;
+  private promptWatcher: Deno.FsWatcher | null = null;
+  private watchedPromptDirs: string[] = [];
+  private debounceTimer: ReturnType<typeof setTimeout> | null = null;
+  private pendingConfig = false;
+  private pendingPrompts = false;
+  private reloading: Promise<void> = Promise.resolve();
+
+  constructor(context: AppContext, basePath: string = ".", overrides: ConfigOverrides = {}) {
+    this.context = context;
+    this.basePath = basePath;
+    this.overrides = overrides;
+  }
+
+  /**
+   * Start watching for changes
+   */
+  async start(): Promise<void> {
+    if (!this.context.config.configReload?.enabled) {
+      logger.info("Config hot reload disabled");
+      return;
+    }
+
+    this.rawConfig = await readConfig(this.basePath, this.overrides);
+
+    const configFiles = getConfigFilePaths(this.basePath).map((path) => resolve(path));
+    this.configWatcher = this.watch([resolve(this.basePath)], false, (path) => {
+      if (configFiles.includes(path)) this.scheduleReload("config");
+    });
+    this.watchPromptDirs();
+
+    logger.info("Watching configuration and prompts for changes", {
+      configFiles,
+      promptDirs: this.watchedPromptDirs,
+    });
+  }
+
+  /**
+   * Stop watching for changes
+   */
+  stop(): void {
+    if (this.debounceTimer !== null) {
+      clearTimeout(this.debounceTimer);
+      this.debounceTimer = null;
+    }
+    this.configWatcher?.close();
+    this.configWatcher = null;
+    this.promptWatcher?.close();
+    this.promptWatcher = null;
+  }
+
+  /**
+   * Reload the config files and apply the changes, after the reload in progress if any
+   * @returns Whether the configuration was valid and applied
+   */
+  reloadConfig(): Promise<boolean> {
+    const result = this.reloading.then(() => this.applyConfigFiles());
+    this.reloading = result.then(() => {}, () => {});
+    return result;
+  }
+
+  private async applyConfigFiles(): Promise<boolean> {
+    const { config } = this.context;
+
+    let raw: Record<string, unknown> | undefined;
+    let next: Config;
+    try {
+      raw = await readConfig(this.basePath, this.overrides);
+      next = parseConfig(raw);
+      await Promise.all(getPromptTemplatePaths(next).map((path) => loadPromptTemplate(path)));
+    } catch (error) {
+      logger.error("Configuration reload rejected, keeping the current configuration", {
+        error: error instanceof Error ? error.message : String(error),
+        changes: raw && this.rawConfig ? diffConfig(this.rawConfig, raw).map(formatChange) : [],
+      });
+      return false;
+    }
+
+    const changes = diffConfig(config, next);
+    this.rawConfig = raw;
+    if (changes.length === 0) {
+      logger.debug("Config files changed without configuration changes");
+      return true;
+    }
+
+    const accounts = diffAccounts(config, next);
+    updateInPlace(
+      config as unknown as Record<string, unknown>,
+      next as unknown as Record<string, unknown>,
+    );
+
+    this.context.agentCore.applyConfig();
+    await this.context.agentCore.getOrchestrator().reloadPromptTemplates();
+    this.rescheduleBackgroundTasks(changes);
+    await this.replaceAccounts(accounts);
+    this.watchPromptDirs();
+
+    logger.info("Configuration reloaded", {
+      changes: changes.map(formatChange),
+      reconnectedAccounts: accounts.added,
+    });
+
+    const restartRequired = changes.filter((change) => requiresRestart(change.path));
+    if (restartRequired.length > 0) {
+      logger.warn("Some changed settings apply only after a restart", {
+        settings: restartRequired.map((change) => change.path),
+      });
+    }
+    return true;
+  }
+
+  /**
+   * Reload the prompt templates after prompt files changed
+   * @returns Whether all templates loaded; otherwise the current templates stay in use
+   */
+  async reloadPrompts(): Promise<boolean> {
+    try {
+      await this.context.agentCore.getOrchestrator().reloadPromptTemplates();
+    } catch (error) {
+      logger.error("Prompt reload rejected, keeping the current prompts", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return false;
+    }
+    logger.info("Prompts reloaded");
+    return true;
+  }
+
+  private watch(
+    paths: string[],
+    recursive: boolean,
+    onChange: (path: string) => void,
+  ): Deno.FsWatcher {
+    const watcher = Deno.watchFs(paths, { recursive });
+    (async () => {
+      try {
+        for await (const event of watcher) {
+          if (event.kind === "access") continue;
+          event.paths.forEach(onChange);
+        }
+      } catch (error) {
+        logger.warn("File watcher stopped", {
+          paths,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    })();
+    return watcher;
+  }
+
+  /**
+   * Watch the directories of the prompt templates in use, again when they changed
+   */
+  private watchPromptDirs(): void {
+    if (!this.configWatcher) return;
+
+    const dirs = [
+      ...new Set(getPromptTemplatePaths(this.context.config).map((path) => resolve(dirname(path)))),
+    ].sort();
+    if (this.promptWatcher && dirs.join("\n") === this.watchedPromptDirs.join("\n")) return;
+
+    this.promptWatcher?.close();
+    this.watchedPromptDirs = dirs;
+    this.promptWatcher = this.watch(dirs, true, () => this.scheduleReload("prompts"));
+  }
+
+  private scheduleReload(kind: "config" | "prompts"): void {
+    if (kind === "config") this.pendingConfig = true;
+    else this.pendingPrompts = true;
+
+    if (this.debounceTimer !== null) clearTimeout(this.debounceTimer);
+    this.debounceTimer = setTimeout(() => {
+      this.debounceTimer = null;
+      this.reloading = this.reloading.then(() => this.reloadPending());
+    }, this.context.config.configReload?.debounceMs ?? 0);
+  }
+
+  private async reloadPending(): Promise<void> {
+    const { pendingConfig, pendingPrompts } = this;
+    this.pendingConfig = false;
+    this.pendingPrompts = false;
+
+    try {
+      // A config reload also reloads the prompts
+      if (pendingConfig) await this.applyConfigFiles();
+      else if (pendingPrompts) await this.reloadPrompts();
+    } catch (error) {
+      logger.error("Failed to apply reloaded configuration", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  private rescheduleBackgroundTasks(changes: ConfigChange[]): void {
+    const changed = (pattern: RegExp) => changes.some((change) => pattern.test(change.path));
+    const { spontaneousScheduler, selfResearchScheduler, memoryMaintenanceScheduler, config } =
+      this.context;
+
+    // Accounts of added, removed or renamed personas are scheduled as well
+    if (
+      changed(/^(?:personas\.\d+\.)?platforms\.\w+\.(enabled|spontaneousPost)\b/) ||
+      changed(/^personas(\.\d+(\.name)?)?$/)
+    ) {
+      spontaneousScheduler?.reschedule();
+    }
+    if (changed(/^selfResearch\./)) {
+      selfResearchScheduler?.reschedule();
+    }
+    if (changed(/^memoryMaintenance\./) && config.memoryMaintenance) {
+      memoryMaintenanceScheduler?.reschedule(config.memoryMaintenance);
+    }
+  }
+
+  /**
+   * Disconnect removed accounts and connect added ones, with the updated configuration
+   */
+  private async replaceAccounts({ removed, added }: AccountChanges): Promise<void> {
+    const { platformRegistry, agentCore, config } = this.context;
+
+    for (const key of removed) {
+      const adapter = platformRegistry.getAllAdapters()
+        .find((adapter) => getAccountKey(adapter.platform, adapter.getPersonaName()) === key);
+      if (!adapter) continue;
+      agentCore.unregisterPlatform(adapter);
+      await platformRegistry.unregister(adapter);
+    }
+
+    const accounts = getEnabledAccounts(config);
+    for (const key of added) {
+      const account = accounts.get(key);
+      if (!account) continue;
+      for (const adapter of createPlatformAdapters({ [account.platform]: account.config })) {
+        if (account.persona) adapter.setPersona(account.persona);
+        platformRegistry.register(adapter);
+        agentCore.registerPlatform(adapter);
+        await platformRegistry.connect(adapter);
+      }
+    }
+  }
+}
+
+/**
+ * List the settings that differ between two configurations. Lists of objects are compared
+ * by index, other lists as a whole.
+ */
+export function diffConfig(before: unknown, after: unknown, path = ""): ConfigChange[] {
+  const beforeIsObject = isPlainObject(before) || isObjectList(before);
+  const afterIsObject = isPlainObject(after) || isObjectList(after);
+  if (
+    beforeIsObject && afterIsObject && Array.isArray(before) === Array.isArray(after)
+  ) {
+    const beforeRecord = before as Record<string, unknown>;
+    const afterRecord = after as Record<string, unknown>;
+    const keys = new Set([...Object.keys(beforeRecord), ...Object.keys(afterRecord)]);
+    return [...keys].flatMap((key) =>
+      diffConfig(beforeRecord[key], afterRecord[key], path ? `${path}.${key}` : key)
+    );
+  }
+
+  if (JSON.stringify(before) === JSON.stringify(after)) return [];
+  return [{ path, before, after }];
+}
+
+/**
+ * Find the platform accounts to reconnect: accounts that were enabled or disabled, and
+ * accounts whose credentials changed
+ */
+export function diffAccounts(before: Config, after: Config): AccountChanges {
+  const previous = getEnabledAccounts(before);
+  const current = getEnabledAccounts(after);
+  const credentialsChanged = (a: Account, b: Account) =>
+    PLATFORM_CREDENTIAL_FIELDS[a.platform].some((field) =>
+      JSON.stringify(a.config[field]) !== JSON.stringify(b.config[field])
+    );
+
+  return {
+    removed: [...previous].filter(([key, account]) => {
+      const next = current.get(key);
+      return !next || credentialsChanged(account, next);
+    }).map(([key]) => key),
+    added: [...current].filter(([key, account]) => {
+      const prev = previous.get(key);
+      return !prev || credentialsChanged(prev, account);
+    }).map(([key]) => key),
+  };
+}
+
+/**
+ * Whether a changed setting needs a restart to apply
+ */
+export function requiresRestart(path: string): boolean {
+  if (RESTART_SETTINGS.some((setting) => path === setting || path.startsWith(`${setting}.`))) {
+    return true;
+  }
+
+  const platformSetting = path.match(/^(?:personas\.\d+\.)?platforms\.(\w+)\.(\w+)/);
+  if (platformSetting) {
+    const [, platform, field] = platformSetting;
+    return !LIVE_PLATFORM_FIELDS.includes(field) &&
+      !PLATFORM_CREDENTIAL_FIELDS[platform as Platform]?.includes(field);
+  }
+
+  // Persona profiles are applied when the account connects
+  return /^personas\.\d+\.(displayName|avatarUrl)$/.test(path);
+}
+
+function getEnabledAccounts(config: Config): Map<string, Account> {
+  const accounts = new Map<string, Account>();
+  const add = (platforms: Partial<PlatformsConfig>, persona?: PersonaConfig) => {
+    for (const platform of PLATFORMS) {
+      const platformConfig = platforms[platform];
+      if (!platformConfig?.enabled) continue;
+      accounts.set(getAccountKey(platform, persona?.name), {
+        platform,
+        persona,
+        config: platformConfig as unknown as Record<string, unknown>,
+      });
+    }
+  };
+
+  add(config.platforms);
+  for (const persona of config.personas ?? []) {
+    add(persona.platforms, persona);
+  }
+  return accounts;
+}
+
+/**
+ * Make target equal to source, keeping the nested objects of target
+ */
+function updateInPlace(target: Record<string, unknown>, source: Record<string, unknown>): void {
+  for (const key of Object.keys(target)) {
+    if (!(key in source)) delete target[key];
+  }
+  for (const [key, value] of Object.entries(source)) {
+    const current = target[key];
+    if (isPlainObject(current) && isPlainObject(value)) {
+      updateInPlace(current, value);
+    } else {
+      target[key] = value;
+    }
+  }
+}
+
+/**
+ * Describe a change for logs, with secrets masked
+ */
+export function formatChange({ path, before, after }: ConfigChange): string {
+  const format = (value: unknown) => {
+    if (value === undefined) return "(unset)";
+    if (SECRET_KEY_PATTERN.test(path.split(".").pop() ?? "")) return "***";
+    return JSON.stringify(
+      value,
+      (key, nested) => SECRET_KEY_PATTERN.test(key) && nested !== undefined ? "***" : nested,
+    );
+  };
+  return `${path}: ${format(before)} -> ${format(after)}`;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isObjectList(value: unknown): boolean {
+  return Array.isArray(value) && value.length > 0 && value.every(isPlainObject);
+}
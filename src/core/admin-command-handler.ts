@@ -0,0 +1,367 @@
+// src/core/admin-command-handler.ts
+
+import { createLogger } from "@utils/logger.ts";
+import { isValidWhitelistEntry, updateRuntimeOverrides } from "./config-loader.ts";
+import { formatUptime, previewMemory } from "./command-processor.ts";
+import type { MemoryStore } from "./memory-store.ts";
+import type { MessageHandler } from "./message-handler.ts";
+import type { ReplyPolicyEvaluator } from "./reply-policy.ts";
+import type { SessionOrchestrator } from "./session-orchestrator.ts";
+import type { WorkspaceManager } from "./workspace-manager.ts";
+import type { PlatformAdapter } from "@platforms/platform-adapter.ts";
+import type { Config } from "../types/config.ts";
+import { getAccountKey, type NormalizedEvent, type Platform, PLATFORMS } from "../types/events.ts";
+import type { ResolvedMemory } from "../types/memory.ts";
+import type { WorkspaceInfo } from "../types/workspace.ts";
+
+const logger = createLogger("AdminCommandHandler");
+
+/**
+ * First word of admin command messages
+ */
+export const ADMIN_COMMAND_PREFIX = "!af";
+
+const USAGE = [
+  "Admin commands:",
+  `- \`${ADMIN_COMMAND_PREFIX} status\` sessions, queue and platform connections`,
+  `- \`${ADMIN_COMMAND_PREFIX} whitelist [add|remove <entry>]\` show or change the whitelist`,
+  `- \`${ADMIN_COMMAND_PREFIX} reload\` reload the config files and prompts`,
+  `- \`${ADMIN_COMMAND_PREFIX} spontaneous now [platform]\` post spontaneously now`,
+  `- \`${ADMIN_COMMAND_PREFIX} research now\` start a self-research session now`,
+  `- \`${ADMIN_COMMAND_PREFIX} maintenance run <workspace>\` run memory maintenance of a workspace`,
+  `- \`${ADMIN_COMMAND_PREFIX} memories <workspace or user ID>\` list the memories of a user (private ones in DMs only)`,
+].join("\n");
+
+/**
+ * Operations of the components bootstrap creates after AgentCore
+ */
+export interface AdminOperations {
+  /** Reload the config files; resolves whether the new configuration was applied */
+  reloadConfig(): Promise<boolean>;
+  /** Start a spontaneous post on a platform account; false when it cannot start now */
+  runSpontaneousPost(platform: Platform, persona?: string): boolean;
+  /** Start a self-research session; false when it cannot start now */
+  runSelfResearch(): boolean;
+}
+
+/**
+ * AdminCommandHandler answers "!af" messages of the accounts in accessControl.admins,
+ * ahead of the reply policy and without an agent session. Messages of other users
+ * starting with "!af" are dropped.
+ *
+ * Whitelist changes are saved to the runtime overrides file, so they outlive restarts.
+ */
+export class AdminCommandHandler {
+  private readonly startedAt = Date.now();
+  private operations: AdminOperations | null = null;
+
+  constructor(
+    private readonly config: Config,
+    private readonly replyPolicy: ReplyPolicyEvaluator,
+    private readonly sessions: Pick<MessageHandler, "getActiveCount" | "getQueuedCount">,
+    private readonly orchestrator: Pick<
+      SessionOrchestrator,
+      "getAgentLimiter" | "processMemoryMaintenance"
+    >,
+    private readonly workspaceManager: WorkspaceManager,
+    private readonly memoryStore: MemoryStore,
+    private readonly platformAdapters: Map<string, PlatformAdapter>,
+  ) {}
+
+  /**
+   * Set the operations on components created after AgentCore.
+   * Must be called before platforms connect.
+   */
+  setOperations(operations: AdminOperations): void {
+    this.operations = operations;
+  }
+
+  /**
+   * Whether a message is an admin command, whoever sent it
+   */
+  isAdminCommand(event: NormalizedEvent): boolean {
+    return event.content.trim().split(/\s+/)[0] === ADMIN_COMMAND_PREFIX;
+  }
+
+  /**
+   * Execute an admin command and reply with its result
+   */
+  async handle(event: NormalizedEvent, adapter: PlatformAdapter): Promise<void> {
+    if (!this.replyPolicy.isAdmin(event.platform, event.userId)) {
+      logger.warn("Admin command from non-admin user {userId} ignored", {
+        platform: event.platform,
+        channelId: event.channelId,
+        userId: event.userId,
+      });
+      return;
+    }
+
+    const [, name = "help", ...args] = event.content.trim().split(/\s+/);
+    logger.info("Executing admin command {command} for user {userId}", {
+      command: name,
+      args,
+      platform: event.platform,
+      channelId: event.channelId,
+      userId: event.userId,
+    });
+
+    let content: string;
+    try {
+      content = await this.execute(name, args, event, adapter);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.error("Admin command {command} failed", { command: name, error: message });
+      content = `Admin command failed: ${message}`;
+    }
+
+    await this.reply(adapter, event, content);
+  }
+
+  private async execute(
+    name: string,
+    args: string[],
+    event: NormalizedEvent,
+    adapter: PlatformAdapter,
+  ): Promise<string> {
+    switch (name) {
+      case "status":
+        return this.status();
+      case "whitelist":
+        return await this.whitelist(args[0], args[1]);
+      case "reload":
+        return await this.reload();
+      case "spontaneous":
+        if (args[0] !== "now") break;
+        return this.spontaneousPost(args[1] ?? event.platform, event.persona);
+      case "research":
+        if (args[0] !== "now") break;
+        return this.selfResearch();
+      case "maintenance":
+        if (args[0] !== "run" || !args[1]) break;
+        return await this.memoryMaintenance(args[1], event, adapter);
+      case "memories":
+        if (!args[0]) break;
+        return await this.listMemories(args[0], event, adapter);
+    }
+    return USAGE;
+  }
+
+  /**
+   * Report platform connections, sessions, agent slots and uptime
+   */
+  private status(): string {
+    const platforms = Array.from(this.platformAdapters.entries())
+      .map(([key, adapter]) => `${key} (${adapter.getConnectionStatus().state})`)
+      .join(", ");
+    const agents = this.orchestrator.getAgentLimiter().getStatus();
+    const maxAgents = agents.maxAgents || "∞";
+
+    return [
+      `Platforms: ${platforms || "none"}`,
+      `Sessions: ${this.sessions.getActiveCount()} active, ` +
+      `${this.sessions.getQueuedCount()} messages queued`,
+      `Agents: ${agents.active}/${maxAgents} running, ${agents.queued}/${agents.maxQueued} waiting`,
+      `Uptime: ${formatUptime(Date.now() - this.startedAt)}`,
+    ].join("\n");
+  }
+
+  /**
+   * Show the whitelist, or add or remove an entry and save the result as a runtime override
+   */
+  private async whitelist(action?: string, entry?: string): Promise<string> {
+    const whitelist = this.config.accessControl.whitelist;
+    if (action === undefined) {
+      return whitelist.length > 0
+        ? `Whitelist:\n${whitelist.map((e) => `- \`${e}\``).join("\n")}`
+        : "The whitelist is empty.";
+    }
+    if ((action !== "add" && action !== "remove") || !entry) {
+      return `Usage: \`${ADMIN_COMMAND_PREFIX} whitelist add|remove <entry>\``;
+    }
+    if (!isValidWhitelistEntry(entry)) {
+      return `Invalid whitelist entry \`${entry}\`. Use {platform}/account/{id} or {platform}/channel/{id}.`;
+    }
+    if (action === "add" && whitelist.includes(entry)) {
+      return `\`${entry}\` is already whitelisted.`;
+    }
+    if (action === "remove" && !whitelist.includes(entry)) {
+      return `\`${entry}\` is not whitelisted.`;
+    }
+
+    const updated = action === "add"
+      ? [...whitelist, entry]
+      : whitelist.filter((existing) => existing !== entry);
+    const path = await updateRuntimeOverrides(this.config.workspace.repoPath, (overrides) => {
+      const accessControl = (overrides.accessControl ?? {}) as Record<string, unknown>;
+      accessControl.whitelist = updated;
+      overrides.accessControl = accessControl;
+    });
+
+    const applied = await this.requireOperations().reloadConfig();
+    const done = action === "add"
+      ? `Added \`${entry}\` to the whitelist.`
+      : `Removed \`${entry}\` from the whitelist.`;
+    return applied
+      ? done
+      : `Saved the whitelist to ${path}, but the configuration was not reloaded; see the logs.`;
+  }
+
+  private async reload(): Promise<string> {
+    return await this.requireOperations().reloadConfig()
+      ? "Configuration reloaded."
+      : "The configuration was rejected; the current configuration stays in use. See the logs.";
+  }
+
+  /**
+   * Post with the account of the platform that belongs to the persona the command was sent to
+   */
+  private spontaneousPost(platform: string, persona?: string): string {
+    if (!(PLATFORMS as readonly string[]).includes(platform)) {
+      return `Unknown platform \`${platform}\`.`;
+    }
+    const account = getAccountKey(platform as Platform, persona);
+    return this.requireOperations().runSpontaneousPost(platform as Platform, persona)
+      ? `Started a spontaneous post on ${account}.`
+      : `Cannot post on ${account} now: spontaneous posts are disabled there or one is in progress.`;
+  }
+
+  private selfResearch(): string {
+    return this.requireOperations().runSelfResearch()
+      ? "Started a self-research session."
+      : "Cannot start self-research now: it is disabled or a session is in progress.";
+  }
+
+  /**
+   * Start memory maintenance of a workspace, whatever its memory count.
+   * The result is sent as another reply when the session completes.
+   */
+  private async memoryMaintenance(
+    workspace: string,
+    event: NormalizedEvent,
+    adapter: PlatformAdapter,
+  ): Promise<string> {
+    const settings = this.config.memoryMaintenance;
+    if (!settings) return "Memory maintenance is not configured.";
+
+    const info = await this.findWorkspace(workspace, event);
+    if (!info) return `No workspace \`${workspace}\`.`;
+
+    this.orchestrator.processMemoryMaintenance(info.key, settings)
+      .then((response) =>
+        response.success
+          ? `Memory maintenance of \`${info.key}\` completed.`
+          : `Memory maintenance of \`${info.key}\` failed: ${response.error ?? "unknown error"}`
+      )
+      .catch((error) =>
+        `Memory maintenance of \`${info.key}\` failed: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      )
+      .then((content) => this.reply(adapter, event, content));
+
+    return `Started memory maintenance of \`${info.key}\`.`;
+  }
+
+  /**
+   * List the enabled memories of a workspace.
+   * Private memories are only listed when the command comes from a DM, like /memories.
+   */
+  private async listMemories(
+    workspace: string,
+    event: NormalizedEvent,
+    adapter: PlatformAdapter,
+  ): Promise<string> {
+    const info = await this.findWorkspace(workspace, event);
+    if (!info) return `No workspace \`${workspace}\`.`;
+
+    const memories: (ResolvedMemory & { isPrivate?: boolean })[] = await this.memoryStore
+      .loadAllMemories(info, "public");
+    if (event.isDm) {
+      memories.push(
+        ...(await this.memoryStore.loadAllMemories(info, "private"))
+          .map((memory) => ({ ...memory, isPrivate: true })),
+      );
+    }
+    const enabled = memories
+      .filter((m) => m.enabled)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+    if (enabled.length === 0) {
+      return `\`${info.key}\` has no memories.`;
+    }
+
+    const maxLength = adapter.capabilities.maxMessageLength;
+    let content = `\`${info.key}\` has ${enabled.length} memor${
+      enabled.length === 1 ? "y" : "ies"
+    }:`;
+    for (const [index, memory] of enabled.entries()) {
+      const line = `\n- \`${memory.id}\`${memory.isPrivate ? " 🔒" : ""}${
+        memory.importance === "high" ? " ⭐" : ""
+      } ${previewMemory(memory.content)}`;
+      const more = `\n…and ${enabled.length - index} more`;
+      if (content.length + line.length + more.length > maxLength) {
+        content += more;
+        break;
+      }
+      content += line;
+    }
+    return content;
+  }
+
+  /**
+   * Find an existing workspace by key, or by user ID on the platform account of the event
+   */
+  private async findWorkspace(
+    workspace: string,
+    event: NormalizedEvent,
+  ): Promise<WorkspaceInfo | null> {
+    const components = this.workspaceManager.parseWorkspaceKey(workspace) ?? {
+      platform: event.platform,
+      userId: workspace,
+      ...(event.persona ? { persona: event.persona } : {}),
+    };
+    const key = this.workspaceManager.computeWorkspaceKey(components);
+    if (!(await this.workspaceManager.listWorkspaces()).includes(key)) {
+      return null;
+    }
+
+    return {
+      key,
+      components,
+      path: this.workspaceManager.getWorkspacePath(key),
+      isDm: true,
+    };
+  }
+
+  private requireOperations(): AdminOperations {
+    if (!this.operations) {
+      throw new Error("Admin operations are not available");
+    }
+    return this.operations;
+  }
+
+  private async reply(
+    adapter: PlatformAdapter,
+    event: NormalizedEvent,
+    content: string,
+  ): Promise<void> {
+    try {
+      const result = await adapter.sendReply(event.channelId, content, {
+        replyToMessageId: event.messageId,
+      });
+      if (!result.success) {
+        logger.warn("Failed to send admin command reply", {
+          platform: event.platform,
+          channelId: event.channelId,
+          error: result.error,
+        });
+      }
+    } catch (error) {
+      logger.error("Exception while sending admin command reply", {
+        platform: event.platform,
+        channelId: event.channelId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+}
@@ -2,21 +2,52 @@
 
 import { createLogger } from "@utils/logger.ts";
 import { SessionOrchestrator } from "./session-orchestrator.ts";
-import { MessageHandler } from "./message-handler.ts";
+import { DEFAULT_SESSION_CANCEL, MessageHandler } from "./message-handler.ts";
 import { ReplyDispatcher } from "./reply-dispatcher.ts";
 import { WorkspaceManager } from "./workspace-manager.ts";
 import { ContextAssembler } from "./context-assembler.ts";
 import { MemoryStore } from "./memory-store.ts";
 import { ReplyPolicyEvaluator } from "./reply-policy.ts";
+import { CommandProcessor } from "./command-processor.ts";
+import { AdminCommandHandler } from "./admin-command-handler.ts";
+import { TranscriptStore } from "./transcript-store.ts";
+import { ShadowMode } from "./shadow-mode.ts";
+import { EventRecorder } from "./event-recorder.ts";
 import { SkillRegistry } from "@skills/registry.ts";
 import { SessionRegistry } from "../skill-api/session-registry.ts";
 import { SkillAPIServer } from "../skill-api/server.ts";
-import type { Config } from "../types/config.ts";
-import type { NormalizedEvent } from "../types/events.ts";
+import type { Config, RateLimitConfig } from "../types/config.ts";
+import type { ContextAssemblyConfig } from "../types/context.ts";
+import { getAccountKey, type MessageActivity, type NormalizedEvent } from "../types/events.ts";
 import type { PlatformAdapter } from "@platforms/platform-adapter.ts";
+import type { ConnectorFactory } from "@acp/agent-pool.ts";
 
 const logger = createLogger("AgentCore");
 
+/**
+ * Rate limit settings of configs without a rateLimit section
+ */
+const DISABLED_RATE_LIMIT: RateLimitConfig = {
+  enabled: false,
+  maxRequestsPerWindow: 10,
+  windowMs: 600000,
+  cooldownMs: 600000,
+};
+
+/**
+ * Context assembler settings of a configuration
+ */
+function getContextAssemblyConfig(config: Config): ContextAssemblyConfig {
+  return {
+    systemPromptPath: config.agent.systemPromptPath,
+    recentMessageLimit: config.memory.recentMessageLimit,
+    tokenLimit: config.agent.tokenLimit,
+    memoryMaxChars: config.memory.maxChars,
+    timezone: config.agent.timezone,
+    contextSource: config.transcript?.contextSource,
+  };
+}
+
 /**
  * AgentCore is the main integration point that coordinates all components
  * It manages the lifecycle of handling messages from platforms to generating replies
@@ -29,12 +60,22 @@ export class AgentCore {
   private sessionRegistry: SessionRegistry;
   private skillApiServer: SkillAPIServer | null = null;
   private orchestrator: SessionOrchestrator;
+  private contextAssembler: ContextAssembler;
   private replyPolicy: ReplyPolicyEvaluator;
+  private adminCommands: AdminCommandHandler;
   private yolo: boolean;
   private workspaceManager: WorkspaceManager;
   private memoryStore: MemoryStore;
+  private commandProcessor: CommandProcessor;
+  private transcriptStore: TranscriptStore | null;
+  private shadowMode: ShadowMode;
+  private eventRecorder: EventRecorder;
 
-  constructor(config: Config, yolo = false) {
+  /**
+   * @param connectorFactory Creates the connectors of agent sessions
+   *   (default: agent subprocesses; the replay harness uses a scripted agent)
+   */
+  constructor(config: Config, yolo = false, connectorFactory?: ConnectorFactory) {
     this.config = config;
     this.yolo = yolo;
 
@@ -75,42 +116,71 @@ export class AgentCore {
       });
     }
 
+    // Initialize transcript store if enabled
+    this.transcriptStore = config.transcript?.enabled
+      ? new TranscriptStore(config.workspace.repoPath)
+      : null;
+
     // Initialize context assembler
-    const contextAssembler = new ContextAssembler(this.memoryStore, {
-      systemPromptPath: config.agent.systemPromptPath,
-      recentMessageLimit: config.memory.recentMessageLimit,
-      tokenLimit: config.agent.tokenLimit,
-      memoryMaxChars: config.memory.maxChars,
-    });
+    this.contextAssembler = new ContextAssembler(
+      this.memoryStore,
+      getContextAssemblyConfig(config),
+      this.transcriptStore,
+    );
 
     // Initialize orchestrator
     this.orchestrator = new SessionOrchestrator(
       this.workspaceManager,
-      contextAssembler,
+      this.contextAssembler,
       skillRegistry,
       config,
       this.sessionRegistry,
       this.memoryStore,
       this.yolo,
+      connectorFactory,
     );
 
     this.replyPolicy = new ReplyPolicyEvaluator(config.accessControl);
 
     // Initialize message handler and reply dispatcher
-    const rateLimitConfig = config.rateLimit ?? {
-      enabled: false,
-      maxRequestsPerWindow: 10,
-      windowMs: 600000,
-      cooldownMs: 600000,
-    };
-    this.messageHandler = new MessageHandler(this.orchestrator, rateLimitConfig, this.replyPolicy);
+    const sessionQueueConfig = config.sessionQueue ?? { debounceMs: 1500, maxWaitMs: 10000 };
+    this.messageHandler = new MessageHandler(
+      this.orchestrator,
+      config.rateLimit ?? DISABLED_RATE_LIMIT,
+      this.replyPolicy,
+      sessionQueueConfig,
+      config.sessionCancel ?? DEFAULT_SESSION_CANCEL,
+    );
     this.replyDispatcher = new ReplyDispatcher();
 
+    this.commandProcessor = new CommandProcessor(
+      this.workspaceManager,
+      this.memoryStore,
+      this.replyPolicy,
+      this.platformAdapters,
+      this.messageHandler,
+      config.agent.model,
+    );
+
+    this.adminCommands = new AdminCommandHandler(
+      config,
+      this.replyPolicy,
+      this.messageHandler,
+      this.orchestrator,
+      this.workspaceManager,
+      this.memoryStore,
+      this.platformAdapters,
+    );
+
+    this.shadowMode = new ShadowMode(config, this.platformAdapters);
+    this.eventRecorder = new EventRecorder(config);
+
     logger.info("Agent Core initialized", {
       workspaceRoot: config.workspace.repoPath,
       tokenLimit: config.agent.tokenLimit,
       memorySearchLimit: config.memory.searchLimit,
       skillApiEnabled: config.skillApi?.enabled ?? false,
+      transcriptEnabled: this.transcriptStore !== null,
     });
   }
 
@@ -118,24 +188,53 @@ export class AgentCore {
    * Register a platform adapter
    */
   registerPlatform(adapter: PlatformAdapter): void {
-    this.platformAdapters.set(adapter.platform, adapter);
+    const key = getAccountKey(adapter.platform, adapter.getPersonaName());
+    this.platformAdapters.set(key, adapter);
     logger.info("Platform adapter registered: {platform}", {
-      platform: adapter.platform,
+      platform: key,
       capabilities: adapter.capabilities,
     });
 
-    // Set up event handler
+    // Record the channel traffic before any handler answers it
+    this.transcriptStore?.attach(adapter);
+    this.eventRecorder.attach(adapter);
+
+    // Set up event and command handlers
     adapter.onEvent((event) => this.handleEvent(event));
+    adapter.onCommand((command) => this.commandProcessor.execute(command));
+    adapter.onActivity((activity) => this.handleActivity(activity));
+  }
+
+  /**
+   * Remove a platform adapter whose account was removed or is replaced (config reload)
+   */
+  unregisterPlatform(adapter: PlatformAdapter): void {
+    const key = getAccountKey(adapter.platform, adapter.getPersonaName());
+    if (this.platformAdapters.get(key) === adapter) {
+      this.platformAdapters.delete(key);
+      logger.info("Platform adapter unregistered: {platform}", { platform: key });
+    }
+  }
+
+  /**
+   * Apply the reloaded configuration to the components that derive settings from it.
+   * The config reloader updates the config object in place.
+   */
+  applyConfig(): void {
+    this.replyPolicy.update(this.config.accessControl);
+    this.messageHandler.updateRateLimit(this.config.rateLimit ?? DISABLED_RATE_LIMIT);
+    this.contextAssembler.updateConfig(getContextAssemblyConfig(this.config));
+    this.orchestrator.applyConfig();
   }
 
   /**
    * Handle an incoming event from any platform
    */
   async handleEvent(event: NormalizedEvent): Promise<void> {
-    const platform = this.platformAdapters.get(event.platform);
+    const platform = this.platformAdapters.get(getAccountKey(event.platform, event.persona));
     if (!platform) {
       logger.error("No adapter registered for platform: {platform}", {
-        platform: event.platform,
+        platform: getAccountKey(event.platform, event.persona),
         messageId: event.messageId,
       });
       return;
@@ -148,6 +247,12 @@ export class AgentCore {
       messageId: event.messageId,
     });
 
+    // Admin commands are answered without an agent session, whatever the reply policy
+    if (this.adminCommands.isAdminCommand(event)) {
+      await this.adminCommands.handle(event, platform);
+      return;
+    }
+
     if (!this.replyPolicy.shouldReply(event)) {
       logger.info("Event filtered by access control policy for user {userId} on {platform}", {
         platform: event.platform,
@@ -159,13 +264,20 @@ export class AgentCore {
       return;
     }
 
+    // In shadowed channels the session posts nothing: its outputs go to the review log
+    const adapter = this.shadowMode.isShadowed(event) ? this.shadowMode.wrap(platform) : platform;
+
     // Process the event
-    const response = await this.messageHandler.handleEvent(event, platform);
+    const response = await this.messageHandler.handleEvent(event, adapter);
 
     // If processing failed and no reply was sent, dispatch error message
-    if (!response.success && !response.replySent) {
+    // (once per session: coalesced messages share the response of the latest message).
+    // Users who stopped a session know why there is no answer.
+    if (
+      !response.success && !response.replySent && !response.coalesced && !response.cancelled
+    ) {
       await this.replyDispatcher.dispatchErrorIfNeeded(
-        platform,
+        adapter,
         event.channelId,
         response,
         event.messageId,
@@ -174,17 +286,26 @@ export class AgentCore {
   }
 
   /**
-   * Get the list of registered platform names
+   * Handle a deletion of or reaction to a message from any platform:
+   * they may stop the session answering the message
+   */
+  handleActivity(activity: MessageActivity): Promise<void> {
+    this.messageHandler.handleActivity(activity);
+    return Promise.resolve();
+  }
+
+  /**
+   * Get the list of registered platform accounts (see getAccountKey)
    */
   getRegisteredPlatforms(): string[] {
     return Array.from(this.platformAdapters.keys());
   }
 
   /**
-   * Get a platform adapter by name
+   * Get a platform adapter by platform account key (see getAccountKey)
    */
-  getPlatformAdapter(platform: string): PlatformAdapter | undefined {
-    return this.platformAdapters.get(platform);
+  getPlatformAdapter(accountKey: string): PlatformAdapter | undefined {
+    return this.platformAdapters.get(accountKey);
   }
 
   /**
@@ -209,6 +330,22 @@ export class AgentCore {
     return this.orchestrator;
   }
 
+  /**
+   * Get the admin command handler.
+   * Bootstrap sets the operations on components created after AgentCore.
+   */
+  getAdminCommands(): AdminCommandHandler {
+    return this.adminCommands;
+  }
+
+  /**
+   * Get the shadow mode.
+   * Bootstrap wraps the adapter of spontaneous posts in shadowed channels.
+   */
+  getShadowMode(): ShadowMode {
+    return this.shadowMode;
+  }
+
   /**
    * Get the workspace manager.
    */
@@ -240,6 +377,9 @@ export class AgentCore {
     // Dispose message handler
     this.messageHandler.dispose();
 
+    // Kill warm agent processes
+    await this.orchestrator.getAgentPool().close();
+
     logger.info("Agent Core shutdown complete");
   }
 }
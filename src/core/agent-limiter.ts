@@ -0,0 +1,171 @@
+// src/core/agent-limiter.ts
+
+import { createLogger } from "@utils/logger.ts";
+import { agentLimiterRejectionsTotal, agentLimiterWaitingGauge } from "@utils/metrics.ts";
+import type { AgentConcurrencyConfig } from "../types/config.ts";
+
+const logger = createLogger("AgentLimiter");
+
+/**
+ * Default agent concurrency configuration
+ */
+export const DEFAULT_AGENT_CONCURRENCY: AgentConcurrencyConfig = {
+  maxAgents: 4,
+  maxQueued: 20,
+  busyReaction: "⏳",
+};
+
+/**
+ * Error of sessions rejected because every agent slot and queue place is taken
+ */
+export const AGENT_CAPACITY_ERROR = "Agent capacity reached";
+
+/**
+ * Session priority, lower values run first
+ */
+export enum SessionPriority {
+  /** DM from a whitelisted account */
+  WhitelistedDm = 0,
+  /** Any other message (mentions, replies, DMs) */
+  Message = 1,
+  Spontaneous = 2,
+  SelfResearch = 3,
+  MemoryMaintenance = 4,
+}
+
+/**
+ * Permission to run one agent process. Release it once the process has exited.
+ */
+export interface AgentSlot {
+  /** Safe to call more than once */
+  release(): void;
+}
+
+/**
+ * Snapshot of the limiter state
+ */
+export interface AgentLimiterStatus {
+  active: number;
+  queued: number;
+  maxAgents: number;
+  maxQueued: number;
+  /** New low-priority sessions are being rejected */
+  saturated: boolean;
+}
+
+interface Waiter {
+  priority: SessionPriority;
+  label: string;
+  resolve: (slot: AgentSlot | null) => void;
+}
+
+/**
+ * Limits the number of agent processes running at once across all platforms.
+ *
+ * Sessions over the limit wait in a priority queue (FIFO within a priority).
+ * When the queue is full, a new session takes the place of the lowest-priority waiter
+ * if it outranks it, and is rejected otherwise.
+ */
+export class AgentLimiter {
+  private config: AgentConcurrencyConfig;
+  private active = 0;
+  /** Waiting sessions, highest priority first */
+  private waiting: Waiter[] = [];
+
+  constructor(config: AgentConcurrencyConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Wait for an agent slot
+   * @returns null if the session was rejected because the queue is full
+   */
+  acquire(priority: SessionPriority, label: string): Promise<AgentSlot | null> {
+    if (this.hasFreeSlot() && this.waiting.length === 0) {
+      this.active++;
+      return Promise.resolve(this.createSlot());
+    }
+
+    if (this.waiting.length >= this.config.maxQueued) {
+      const lowest = this.waiting[this.waiting.length - 1];
+      if (!lowest || lowest.priority <= priority) {
+        this.reject(label, priority);
+        return Promise.resolve(null);
+      }
+
+      this.waiting.pop();
+      agentLimiterWaitingGauge.dec();
+      this.reject(lowest.label, lowest.priority);
+      lowest.resolve(null);
+    }
+
+    logger.info("Session {label} waiting for an agent slot", {
+      label,
+      priority: SessionPriority[priority],
+      active: this.active,
+      queued: this.waiting.length,
+    });
+
+    return new Promise((resolve) => {
+      const index = this.waiting.findIndex((waiter) => waiter.priority > priority);
+      const waiter = { priority, label, resolve };
+      if (index === -1) {
+        this.waiting.push(waiter);
+      } else {
+        this.waiting.splice(index, 0, waiter);
+      }
+      agentLimiterWaitingGauge.inc();
+    });
+  }
+
+  getStatus(): AgentLimiterStatus {
+    return {
+      active: this.active,
+      queued: this.waiting.length,
+      maxAgents: this.config.maxAgents,
+      maxQueued: this.config.maxQueued,
+      saturated: !this.hasFreeSlot() && this.waiting.length >= this.config.maxQueued,
+    };
+  }
+
+  /**
+   * maxAgents <= 0 disables the limit
+   */
+  private hasFreeSlot(): boolean {
+    return this.config.maxAgents <= 0 || this.active < this.config.maxAgents;
+  }
+
+  private createSlot(): AgentSlot {
+    let released = false;
+    return {
+      release: () => {
+        if (released) return;
+        released = true;
+        this.active--;
+        this.startWaiting();
+      },
+    };
+  }
+
+  /**
+   * Hand free slots to the highest-priority waiters
+   */
+  private startWaiting(): void {
+    while (this.hasFreeSlot() && this.waiting.length > 0) {
+      const waiter = this.waiting.shift()!;
+      agentLimiterWaitingGauge.dec();
+      this.active++;
+      waiter.resolve(this.createSlot());
+    }
+  }
+
+  private reject(label: string, priority: SessionPriority): void {
+    agentLimiterRejectionsTotal.labels(SessionPriority[priority]).inc();
+    logger.warn("Agent capacity reached, session {label} rejected", {
+      label,
+      priority: SessionPriority[priority],
+      active: this.active,
+      queued: this.waiting.length,
+    });
+  }
+}
@@ -0,0 +1,120 @@
+// src/core/agent-session-store.ts
+
+import { createLogger } from "@utils/logger.ts";
+import type { WorkspaceManager } from "./workspace-manager.ts";
+import { WorkspaceError } from "../types/errors.ts";
+import type { AgentType } from "@acp/types.ts";
+import type { SessionResumeConfig } from "../types/config.ts";
+import type { WorkspaceInfo } from "../types/workspace.ts";
+
+const logger = createLogger("AgentSessionStore");
+
+/**
+ * Default session resume configuration
+ */
+export const DEFAULT_SESSION_RESUME: SessionResumeConfig = {
+  enabled: true,
+  maxAgeMs: 6 * 60 * 60 * 1000,
+};
+
+/**
+ * File in each workspace holding the ACP sessions of its channels
+ */
+const SESSIONS_FILE = "agent-sessions.json";
+
+/**
+ * ACP session kept for the next message of a channel
+ */
+export interface StoredAgentSession {
+  sessionId: string;
+  agentType: AgentType;
+  /** System prompt the session was started with (not recorded by older versions) */
+  systemPromptPath?: string;
+  /** When the context given to the session was assembled; later channel messages are new to it */
+  contextAt: string;
+  /** When the last prompt turn of the session completed */
+  updatedAt: string;
+}
+
+/**
+ * Persists the ACP session ID of each workspace channel so the next message can resume it
+ */
+export class AgentSessionStore {
+  private readonly workspaceManager: WorkspaceManager;
+  /** Pending writes per workspace, so channels of a workspace do not overwrite each other */
+  private writes = new Map<string, Promise<void>>();
+
+  constructor(workspaceManager: WorkspaceManager) {
+    this.workspaceManager = workspaceManager;
+  }
+
+  async get(workspace: WorkspaceInfo, channelId: string): Promise<StoredAgentSession | null> {
+    await this.writes.get(workspace.key);
+    const sessions = await this.readSessions(workspace);
+    return sessions[channelId] ?? null;
+  }
+
+  async save(
+    workspace: WorkspaceInfo,
+    channelId: string,
+    session: StoredAgentSession,
+  ): Promise<void> {
+    await this.update(workspace, (sessions) => {
+      sessions[channelId] = session;
+    });
+  }
+
+  async delete(workspace: WorkspaceInfo, channelId: string): Promise<void> {
+    await this.update(workspace, (sessions) => {
+      delete sessions[channelId];
+    });
+  }
+
+  private async update(
+    workspace: WorkspaceInfo,
+    change: (sessions: Record<string, StoredAgentSession>) => void,
+  ): Promise<void> {
+    const previous = this.writes.get(workspace.key) ?? Promise.resolve();
+    const write = previous.then(async () => {
+      const sessions = await this.readSessions(workspace);
+      change(sessions);
+      await this.workspaceManager.writeWorkspaceFile(
+        workspace,
+        SESSIONS_FILE,
+        JSON.stringify(sessions, null, 2),
+      );
+    });
+
+    const settled = write.catch(() => {});
+    this.writes.set(workspace.key, settled);
+    try {
+      await write;
+    } finally {
+      if (this.writes.get(workspace.key) === settled) {
+        this.writes.delete(workspace.key);
+      }
+    }
+  }
+
+  private async readSessions(
+    workspace: WorkspaceInfo,
+  ): Promise<Record<string, StoredAgentSession>> {
+    let content: string;
+    try {
+      content = await this.workspaceManager.readWorkspaceFile(workspace, SESSIONS_FILE);
+    } catch (error) {
+      if (error instanceof WorkspaceError) return {};
+      throw error;
+    }
+
+    try {
+      return JSON.parse(content);
+    } catch (error) {
+      logger.warn("Ignoring unreadable agent sessions file", {
+        workspaceKey: workspace.key,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return {};
+    }
+  }
+}
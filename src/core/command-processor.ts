@@ -0,0 +1,197 @@
+// src/core/command-processor.ts
+
+import { createLogger } from "@utils/logger.ts";
+import type { MemoryStore } from "./memory-store.ts";
+import type { MessageHandler } from "./message-handler.ts";
+import type { ReplyPolicyEvaluator } from "./reply-policy.ts";
+import type { WorkspaceManager } from "./workspace-manager.ts";
+import type { PlatformAdapter } from "@platforms/platform-adapter.ts";
+import type { CommandResult, PlatformCommand } from "../types/platform.ts";
+import type { ResolvedMemory } from "../types/memory.ts";
+import { getAccountKey } from "../types/events.ts";
+import { MemoryError } from "../types/errors.ts";
+
+const logger = createLogger("CommandProcessor");
+
+/**
+ * Maximum length of a single memory shown in the memory list
+ */
+const MAX_MEMORY_PREVIEW_LENGTH = 200;
+
+/**
+ * CommandProcessor answers platform commands that do not need an agent session:
+ * forgetting a memory, listing memories, reporting bot status and stopping a session.
+ */
+export class CommandProcessor {
+  private readonly startedAt = Date.now();
+
+  constructor(
+    private readonly workspaceManager: WorkspaceManager,
+    private readonly memoryStore: MemoryStore,
+    private readonly replyPolicy: ReplyPolicyEvaluator,
+    private readonly platformAdapters: Map<string, PlatformAdapter>,
+    private readonly sessions: Pick<MessageHandler, "getActiveCount" | "cancel">,
+    private readonly model: string,
+  ) {}
+
+  /**
+   * Execute a command on behalf of the user who issued it
+   */
+  async execute(command: PlatformCommand): Promise<CommandResult> {
+    const { event } = command;
+
+    if (!this.replyPolicy.shouldReply(event)) {
+      logger.info("Command {command} filtered by access control policy for user {userId}", {
+        command: command.name,
+        platform: event.platform,
+        userId: event.userId,
+      });
+      return { success: false, content: "You are not allowed to use this command." };
+    }
+
+    logger.info("Executing command {command} for user {userId}", {
+      command: command.name,
+      platform: event.platform,
+      channelId: event.channelId,
+      userId: event.userId,
+    });
+
+    switch (command.name) {
+      case "forget":
+        return await this.forget(command);
+      case "memories":
+        return await this.listMemories(command);
+      case "status":
+        return this.status();
+      case "stop":
+        return this.stop(command);
+      default:
+        return { success: false, content: `Unknown command: ${command.name}` };
+    }
+  }
+
+  /**
+   * Disable a memory in the user's workspace
+   */
+  private async forget(command: PlatformCommand): Promise<CommandResult> {
+    const memoryId = command.args.memory_id?.trim();
+    if (!memoryId) {
+      return { success: false, content: "Please provide the ID of the memory to forget." };
+    }
+
+    const workspace = await this.workspaceManager.getOrCreateWorkspace(command.event);
+
+    try {
+      await this.memoryStore.patchMemory(workspace, memoryId, { enabled: false });
+    } catch (error) {
+      if (error instanceof MemoryError) {
+        return { success: false, content: `I don't have a memory with the ID \`${memoryId}\`.` };
+      }
+      throw error;
+    }
+
+    return { success: true, content: `Okay, I forgot memory \`${memoryId}\`.` };
+  }
+
+  /**
+   * List the enabled memories of the user's workspace.
+   * Private memories are only listed in DMs, matching what the agent can see there.
+   */
+  private async listMemories(command: PlatformCommand): Promise<CommandResult> {
+    const workspace = await this.workspaceManager.getOrCreateWorkspace(command.event);
+
+    const memories: ResolvedMemory[] = await this.memoryStore.loadAllMemories(workspace, "public");
+    if (workspace.isDm) {
+      memories.push(...await this.memoryStore.loadAllMemories(workspace, "private"));
+    }
+    const enabled = memories
+      .filter((m) => m.enabled)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+    if (enabled.length === 0) {
+      return { success: true, content: "I don't remember anything about you yet." };
+    }
+
+    const maxLength = this.platformAdapters.get(
+      getAccountKey(command.event.platform, command.event.persona),
+    )?.capabilities.maxMessageLength ?? 2000;
+    let content = `I remember ${enabled.length} thing${enabled.length === 1 ? "" : "s"}:`;
+
+    for (const [index, memory] of enabled.entries()) {
+      const line = `\n- \`${memory.id}\`${memory.importance === "high" ? " ⭐" : ""} ${
+        previewMemory(memory.content)
+      }`;
+      const remaining = enabled.length - index;
+      const more = `\n…and ${remaining} more`;
+      if (content.length + line.length + more.length > maxLength) {
+        content += more;
+        break;
+      }
+      content += line;
+    }
+
+    return { success: true, content };
+  }
+
+  /**
+   * Report connected platforms, active sessions, model and uptime
+   */
+  private status(): CommandResult {
+    const platforms = Array.from(this.platformAdapters.entries())
+      .map(([key, adapter]) => `${key} (${adapter.getConnectionStatus().state})`)
+      .join(", ");
+
+    const lines = [
+      `Platforms: ${platforms || "none"}`,
+      `Active sessions: ${this.sessions.getActiveCount()}`,
+      `Model: ${this.model}`,
+      `Uptime: ${formatUptime(Date.now() - this.startedAt)}`,
+    ];
+
+    return { success: true, content: lines.join("\n") };
+  }
+
+  /**
+   * Stop the sessions answering the user in the channel
+   */
+  private stop(command: PlatformCommand): CommandResult {
+    const { event } = command;
+    const stopped = this.sessions.cancel({
+      platform: event.platform,
+      persona: event.persona,
+      channelId: event.channelId,
+      userId: event.userId,
+      reason: "command",
+    });
+
+    return stopped
+      ? { success: true, content: "Okay, I stopped." }
+      : { success: false, content: "I'm not working on anything for you here." };
+  }
+}
+
+/**
+ * Shorten a memory to one line for memory lists
+ */
+export function previewMemory(content: string): string {
+  const singleLine = content.replace(/\s+/g, " ").trim();
+  return singleLine.length > MAX_MEMORY_PREVIEW_LENGTH
+    ? singleLine.slice(0, MAX_MEMORY_PREVIEW_LENGTH - 1) + "…"
+    : singleLine;
+}
+
+/**
+ * Format a duration as "1d 2h 3m"
+ */
+export function formatUptime(ms: number): string {
+  const totalMinutes = Math.floor(ms / 60000);
+  const days = Math.floor(totalMinutes / 1440);
+  const hours = Math.floor((totalMinutes % 1440) / 60);
+  const minutes = totalMinutes % 60;
+
+  const parts: string[] = [];
+  if (days > 0) parts.push(`${days}d`);
+  if (days > 0 || hours > 0) parts.push(`${hours}h`);
+  parts.push(`${minutes}m`);
+  return parts.join(" ");
+}
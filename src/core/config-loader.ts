@@ -1,15 +1,37 @@
 // src/core/config-loader.ts
 
-import { parse as parseYaml } from "@std/yaml";
-import { exists } from "@std/fs";
-import { basename, dirname, join } from "@std/path";
+import { parse as parseYaml, stringify as stringifyYaml } from "@std/yaml";
+import { ensureDir, exists } from "@std/fs";
+import { dirname, join } from "@std/path";
 import { createLogger } from "@utils/logger.ts";
 import { applyEnvOverrides, getEnvironment } from "@utils/env.ts";
-import type { Config, MemoryMaintenanceConfig, RateLimitConfig } from "../types/config.ts";
+import type {
+  Config,
+  ConfigReloadConfig,
+  MemoryMaintenanceConfig,
+  RateLimitConfig,
+  SessionQueueConfig,
+} from "../types/config.ts";
+import { type Platform, PLATFORMS } from "../types/events.ts";
 import { ConfigError, ErrorCode } from "../types/errors.ts";
+import { DEFAULT_CONSOLE_CONFIG } from "@platforms/console/console-config.ts";
+import { DEFAULT_AGENT_CONCURRENCY } from "./agent-limiter.ts";
+import { DEFAULT_AGENT_POOL } from "@acp/agent-pool.ts";
+import { DEFAULT_SESSION_RESUME } from "./agent-session-store.ts";
+import { DEFAULT_SESSION_CANCEL } from "./message-handler.ts";
+import { isValidTimezone } from "./prompt-template.ts";
+import { DEFAULT_ROUTING } from "./session-router.ts";
+import { DEFAULT_TRANSCRIPT } from "./transcript-store.ts";
+import { DEFAULT_SHADOW } from "./shadow-mode.ts";
+import { DEFAULT_EVENT_RECORDING } from "./event-recorder.ts";
 
 const logger = createLogger("ConfigLoader");
 
+/**
+ * File in the data directory holding the settings changed with admin commands
+ */
+const RUNTIME_OVERRIDES_FILE = "runtime-overrides.yaml";
+
 /**
  * Default configuration values
  */
@@ -39,6 +61,7 @@ const DEFAULT_CONFIG: Partial<Config> = {
   accessControl: {
     replyTo: "whitelist",
     whitelist: [],
+    includeThreads: true,
   },
 };
 
@@ -76,6 +99,22 @@ const DEFAULT_RATE_LIMIT: RateLimitConfig = {
   cooldownMs: 600000, // 10 minutes
 };
 
+/**
+ * Default per-channel session queue configuration
+ */
+const DEFAULT_SESSION_QUEUE: SessionQueueConfig = {
+  debounceMs: 1500,
+  maxWaitMs: 10000,
+};
+
+/**
+ * Default config hot reload configuration
+ */
+const DEFAULT_CONFIG_RELOAD: ConfigReloadConfig = {
+  enabled: true,
+  debounceMs: 500,
+};
+
 const DEFAULT_MEMORY_MAINTENANCE: MemoryMaintenanceConfig = {
   enabled: false,
   model: "gpt-5-mini",
@@ -87,13 +126,122 @@ const DEFAULT_MEMORY_MAINTENANCE: MemoryMaintenanceConfig = {
  * Required configuration fields that must be present
  */
 const REQUIRED_FIELDS = [
-  "platforms.discord.token",
   "agent.model",
   "agent.systemPromptPath",
   "workspace.repoPath",
   "workspace.workspacesDir",
 ] as const;
 
+/**
+ * Fields required by each platform, checked only when the platform is enabled
+ */
+const PLATFORM_REQUIRED_FIELDS: Record<string, string[]> = {
+  discord: ["token"],
+  telegram: ["token"],
+  matrix: ["homeserverUrl", "accessToken"],
+  mastodon: ["host", "token"],
+  webhook: ["secret", "callbackUrl"],
+};
+
+/**
+ * Agent types accepted by agent.defaultAgentType and routing rules
+ */
+const VALID_AGENT_TYPES = ["copilot", "gemini", "opencode"];
+
+/**
+ * Persona names are used as workspace directory names
+ */
+const PERSONA_NAME_PATTERN = /^[a-zA-Z0-9_-]+$/;
+
+/**
+ * Conditions a routing rule can match on
+ */
+const ROUTING_MATCH_KEYS = ["platform", "guildId", "channelId", "userId", "isDm"];
+
+/**
+ * Check an agent type setting: one agent type or a list of them
+ */
+function validateAgentTypes(value: unknown, field: string): void {
+  if (value === undefined) return;
+
+  const agentTypes = Array.isArray(value) ? value : [value];
+  const invalid = agentTypes.filter((type) => !VALID_AGENT_TYPES.includes(String(type)));
+  if (invalid.length > 0) {
+    throw new ConfigError(
+      ErrorCode.CONFIG_INVALID,
+      `Invalid ${field} value: "${invalid.join(", ")}". Must be one of: ${
+        VALID_AGENT_TYPES.join(", ")
+      }`,
+      { [field]: value, validValues: VALID_AGENT_TYPES },
+    );
+  }
+}
+
+/**
+ * Get the credentials missing from the enabled platforms of a platforms section
+ */
+function findMissingPlatformFields(
+  platforms: Record<string, unknown> | undefined,
+  prefix: string,
+): string[] {
+  const missing: string[] = [];
+  for (const [platformName, fields] of Object.entries(PLATFORM_REQUIRED_FIELDS)) {
+    const platformConfig = platforms?.[platformName] as Record<string, unknown> | undefined;
+    if (platformConfig?.enabled !== true) continue;
+    for (const field of fields) {
+      if (platformConfig[field] === undefined || platformConfig[field] === "") {
+        missing.push(`${prefix}.${platformName}.${field}`);
+      }
+    }
+  }
+  return missing;
+}
+
+/**
+ * Validate the personas section. Persona names end up in workspace keys, whose first
+ * component tells personas and platforms apart.
+ */
+function validatePersonas(config: Record<string, unknown>): void {
+  if (config.personas === undefined) return;
+  if (!Array.isArray(config.personas)) {
+    throw new ConfigError(ErrorCode.CONFIG_INVALID, "personas must be a list");
+  }
+
+  const names = new Set<string>();
+  for (const [index, persona] of (config.personas as Record<string, unknown>[]).entries()) {
+    const field = `personas[${index}]`;
+    const name = persona?.name;
+    if (typeof name !== "string" || !PERSONA_NAME_PATTERN.test(name)) {
+      throw new ConfigError(
+        ErrorCode.CONFIG_INVALID,
+        `${field}.name must consist of letters, digits, "-" and "_"`,
+        { name },
+      );
+    }
+    if ((PLATFORMS as readonly string[]).includes(name)) {
+      throw new ConfigError(
+        ErrorCode.CONFIG_INVALID,
+        `${field}.name must not be a platform name: "${name}"`,
+        { name, platforms: PLATFORMS },
+      );
+    }
+    if (names.has(name)) {
+      throw new ConfigError(ErrorCode.CONFIG_INVALID, `Duplicate persona name: "${name}"`, {
+        name,
+      });
+    }
+    names.add(name);
+
+    const platforms = persona.platforms;
+    if (platforms === null || typeof platforms !== "object" || Array.isArray(platforms)) {
+      throw new ConfigError(ErrorCode.CONFIG_INVALID, `${field}.platforms must be an object`, {
+        name,
+      });
+    }
+    validateAgentTypes(persona.agentType, `${field}.agentType`);
+  }
+}
+
 /**
  * Validate that all required fields are present
  */
@@ -117,10 +265,16 @@ function validateConfig(config: Record<string, unknown>): void {
     }
   }
 
-  // Special case: at least one platform must be enabled
+  validatePersonas(config);
+  const personas = (config.personas ?? []) as {
+    platforms: Record<string, { enabled?: boolean }>;
+  }[];
+
+  // Special case: at least one platform must be enabled, by any persona
   const platforms = config.platforms as Record<string, { enabled?: boolean }> | undefined;
-  const hasEnabledPlatform = platforms &&
-    Object.values(platforms).some((p) => p?.enabled === true);
+  const hasEnabledPlatform = [platforms, ...personas.map((persona) => persona.platforms)].some(
+    (accounts) => accounts && Object.values(accounts).some((p) => p?.enabled === true),
+  );
 
   if (!hasEnabledPlatform) {
     throw new ConfigError(
@@ -130,6 +284,12 @@ function validateConfig(config: Record<string, unknown>): void {
     );
   }
 
+  // Platforms only require their credentials when enabled
+  missing.push(...findMissingPlatformFields(platforms, "platforms"));
+  for (const [index, persona] of personas.entries()) {
+    missing.push(...findMissingPlatformFields(persona.platforms, `personas[${index}].platforms`));
+  }
+
   if (missing.length > 0) {
     throw new ConfigError(
       ErrorCode.CONFIG_MISSING_FIELD,
@@ -140,7 +300,7 @@ function validateConfig(config: Record<string, unknown>): void {
 
   // Validate accessControl.replyTo value
   const accessControl = config.accessControl as
-    | { replyTo?: unknown; whitelist?: unknown[] }
+    | { replyTo?: unknown; whitelist?: unknown[]; admins?: unknown[] }
     | undefined;
   if (accessControl?.replyTo !== undefined) {
     const validReplyPolicies = ["all", "public", "whitelist"];
@@ -156,13 +316,10 @@ function validateConfig(config: Record<string, unknown>): void {
   }
 
   // Validate accessControl.whitelist entries format
-  // Pattern allows alphanumeric, underscore, hyphen, and some special chars commonly used in IDs
-  // Excludes whitespace, path separators, and other potentially dangerous characters
-  const WHITELIST_ENTRY_PATTERN = /^(discord|misskey)\/(account|channel)\/[a-zA-Z0-9_\-@.]+$/;
   if (accessControl?.whitelist && Array.isArray(accessControl.whitelist)) {
     const validEntries: string[] = [];
     for (const entry of accessControl.whitelist) {
-      if (typeof entry === "string" && WHITELIST_ENTRY_PATTERN.test(entry)) {
+      if (typeof entry === "string" && isValidWhitelistEntry(entry)) {
         validEntries.push(entry);
       } else {
         logger.warn("Invalid whitelist entry format, ignoring", {
@@ -175,8 +332,115 @@ function validateConfig(config: Record<string, unknown>): void {
     accessControl.whitelist = validEntries;
   }
 
+  // Validate accessControl.admins entries: accounts only
+  if (accessControl?.admins && Array.isArray(accessControl.admins)) {
+    const validAdmins: string[] = [];
+    for (const entry of accessControl.admins) {
+      if (typeof entry === "string" && isValidWhitelistEntry(entry, "account")) {
+        validAdmins.push(entry);
+      } else {
+        logger.warn("Invalid admin entry format, ignoring", {
+          entry,
+          expectedFormat: "{platform}/account/{id}",
+        });
+      }
+    }
+    accessControl.admins = validAdmins;
+  }
+
+  // Validate transcript.contextSource value
+  const contextSource = (config.transcript as { contextSource?: unknown } | undefined)
+    ?.contextSource;
+  if (contextSource !== undefined) {
+    const validSources = ["platform", "transcript"];
+    if (!validSources.includes(String(contextSource))) {
+      throw new ConfigError(
+        ErrorCode.CONFIG_INVALID,
+        `Invalid transcript.contextSource value: "${contextSource}". Must be one of: ${
+          validSources.join(", ")
+        }`,
+        { contextSource, validValues: validSources },
+      );
+    }
+  }
+
+  // Validate shadow channel entries: channels only
+  const shadow = config.shadow as { channels?: unknown[]; reviewChannel?: unknown } | undefined;
+  if (shadow?.channels && Array.isArray(shadow.channels)) {
+    const validChannels: string[] = [];
+    for (const entry of shadow.channels) {
+      if (typeof entry === "string" && isValidWhitelistEntry(entry, "channel")) {
+        validChannels.push(entry);
+      } else {
+        logger.warn("Invalid shadow channel entry format, ignoring", {
+          entry,
+          expectedFormat: "{platform}/channel/{id}",
+        });
+      }
+    }
+    shadow.channels = validChannels;
+  }
+  if (
+    shadow?.reviewChannel !== undefined &&
+    !(typeof shadow.reviewChannel === "string" &&
+      isValidWhitelistEntry(shadow.reviewChannel, "channel"))
+  ) {
+    logger.warn("Invalid shadow.reviewChannel format, ignoring", {
+      entry: shadow.reviewChannel,
+      expectedFormat: "{platform}/channel/{id}",
+    });
+    delete shadow.reviewChannel;
+  }
+
+  // Validate agent.defaultAgentType: one agent type or a fallback chain.
+  // A comma-separated string (e.g. AGENT_DEFAULT_TYPE=copilot,opencode) becomes a list.
+  const agent = config.agent as { defaultAgentType?: unknown } | undefined;
+  if (typeof agent?.defaultAgentType === "string" && agent.defaultAgentType.includes(",")) {
+    agent.defaultAgentType = agent.defaultAgentType.split(",").map((s) => s.trim())
+      .filter((s) => s !== "");
+  }
+  if (agent?.defaultAgentType !== "") {
+    validateAgentTypes(agent?.defaultAgentType, "agent.defaultAgentType");
+  }
+
+  // Validate agent.timezone, used for the time variables of prompt templates
+  const timezone = (config.agent as { timezone?: unknown } | undefined)?.timezone;
+  if (timezone !== undefined && (typeof timezone !== "string" || !isValidTimezone(timezone))) {
+    throw new ConfigError(
+      ErrorCode.CONFIG_INVALID,
+      `Invalid agent.timezone value: "${timezone}". Must be an IANA timezone such as Asia/Taipei`,
+      { timezone },
+    );
+  }
+
+  // Validate routing rules: a mistyped match key would silently match every message
+  const routing = config.routing as { rules?: unknown } | undefined;
+  if (routing?.rules !== undefined && !Array.isArray(routing.rules)) {
+    throw new ConfigError(ErrorCode.CONFIG_INVALID, "routing.rules must be a list");
+  }
+  for (const [index, rule] of ((routing?.rules ?? []) as Record<string, unknown>[]).entries()) {
+    const field = `routing.rules[${index}]`;
+    const match = rule?.match as Record<string, unknown> | undefined;
+    if (match === null || typeof match !== "object" || Array.isArray(match)) {
+      throw new ConfigError(ErrorCode.CONFIG_INVALID, `${field}.match must be an object`, {
+        rule,
+      });
+    }
+    const unknownKeys = Object.keys(match).filter((key) => !ROUTING_MATCH_KEYS.includes(key));
+    if (unknownKeys.length > 0) {
+      throw new ConfigError(
+        ErrorCode.CONFIG_INVALID,
+        `Unknown ${field}.match conditions: ${unknownKeys.join(", ")}. Must be one of: ${
+          ROUTING_MATCH_KEYS.join(", ")
+        }`,
+        { rule, validValues: ROUTING_MATCH_KEYS },
+      );
+    }
+    validateAgentTypes(rule.agentType, `${field}.agentType`);
+  }
+
   // Validate spontaneous post config for each platform
-  for (const platformName of ["discord", "misskey"] as const) {
+  for (const platformName of PLATFORMS) {
     const platformConfig = (config.platforms as Record<string, Record<string, unknown>>)?.[
       platformName
     ];
@@ -308,6 +572,79 @@ function validateConfig(config: Record<string, unknown>): void {
       ...(config.rateLimit as Record<string, unknown>),
     };
   }
+
+  // Session queue defaults
+  config.sessionQueue = {
+    ...DEFAULT_SESSION_QUEUE,
+    ...(config.sessionQueue as Record<string, unknown> | undefined),
+  };
+
+  // Session cancellation defaults
+  config.sessionCancel = {
+    ...DEFAULT_SESSION_CANCEL,
+    ...(config.sessionCancel as Record<string, unknown> | undefined),
+  };
+
+  // Agent concurrency defaults
+  config.agentConcurrency = {
+    ...DEFAULT_AGENT_CONCURRENCY,
+    ...(config.agentConcurrency as Record<string, unknown> | undefined),
+  };
+
+  // Agent pool defaults
+  config.agentPool = {
+    ...DEFAULT_AGENT_POOL,
+    ...(config.agentPool as Record<string, unknown> | undefined),
+  };
+
+  // Session resume defaults
+  config.sessionResume = {
+    ...DEFAULT_SESSION_RESUME,
+    ...(config.sessionResume as Record<string, unknown> | undefined),
+  };
+
+  // Routing defaults
+  config.routing = {
+    ...DEFAULT_ROUTING,
+    ...(config.routing as Record<string, unknown> | undefined),
+  };
+
+  // Config hot reload defaults
+  config.configReload = {
+    ...DEFAULT_CONFIG_RELOAD,
+    ...(config.configReload as Record<string, unknown> | undefined),
+  };
+
+  // Transcript defaults
+  config.transcript = {
+    ...DEFAULT_TRANSCRIPT,
+    ...(config.transcript as Record<string, unknown> | undefined),
+  };
+
+  // Shadow mode defaults
+  config.shadow = {
+    ...DEFAULT_SHADOW,
+    ...(config.shadow as Record<string, unknown> | undefined),
+  };
+
+  // Event recording defaults
+  config.eventRecording = {
+    ...DEFAULT_EVENT_RECORDING,
+    ...(config.eventRecording as Record<string, unknown> | undefined),
+  };
+}
+
+/**
+ * Check the format of a whitelist entry: "{platform}/account/{id}" or "{platform}/channel/{id}".
+ * IDs may contain alphanumerics, "_", "-", "@", "." and, for Telegram topic IDs and Matrix IDs
+ * such as "@user:server", ":" and "!". Whitespace and path separators are never allowed.
+ */
+export function isValidWhitelistEntry(
+  entry: string,
+  type: "account" | "channel" | "any" = "any",
+): boolean {
+  const types = type === "any" ? "account|channel" : type;
+  return new RegExp(`^(${PLATFORMS.join("|")})\\/(${types})\\/[a-zA-Z0-9_\\-@.:!]+$`).test(entry);
 }
 
 /**
@@ -376,23 +713,130 @@ async function loadYamlFile(path: string): Promise<Record<string, unknown>> {
 }
 
 /**
- * Load and validate configuration
+ * Command line overrides applied on top of files and environment variables
+ */
+export interface ConfigOverrides {
+  /** Run only this platform; all other platforms are disabled */
+  platform?: Platform;
+
+  /** Extra settings merged into the selected platform's configuration */
+  platformConfig?: Record<string, unknown>;
+}
+
+/**
+ * Enable only the selected platform and merge its overrides
+ */
+function applyPlatformOverride(
+  config: Record<string, unknown>,
+  overrides: ConfigOverrides,
+): void {
+  const platform = overrides.platform;
+  if (!platform) return;
+
+  const platforms = (config.platforms ?? {}) as Record<string, Record<string, unknown>>;
+  for (const [name, platformConfig] of Object.entries(platforms)) {
+    if (name !== platform && platformConfig) {
+      platformConfig.enabled = false;
+    }
+  }
+  platforms[platform] = deepMerge(platforms[platform] ?? {}, {
+    ...overrides.platformConfig,
+    enabled: true,
+  });
+  config.platforms = platforms;
+
+  // Accounts of other personas stay enabled on the selected platform only
+  const personas = Array.isArray(config.personas) ? config.personas : [];
+  for (const persona of personas as { platforms?: Record<string, Record<string, unknown>> }[]) {
+    for (const [name, platformConfig] of Object.entries(persona?.platforms ?? {})) {
+      if (name !== platform && platformConfig) {
+        platformConfig.enabled = false;
+      }
+    }
+  }
+}
+
+/**
+ * Whitelist the console user when the console platform is enabled.
+ * Whoever types into the local console is the operator of the bot.
+ */
+function whitelistConsoleUser(config: Record<string, unknown>): void {
+  const platforms = config.platforms as Record<string, Record<string, unknown>> | undefined;
+  if (platforms?.console?.enabled !== true) return;
+
+  const userId = String(platforms.console.userId ?? DEFAULT_CONSOLE_CONFIG.userId);
+  const accessControl = config.accessControl as { whitelist?: string[] };
+  const entry = `console/account/${userId}`;
+  if (!accessControl.whitelist?.includes(entry)) {
+    accessControl.whitelist = [...(accessControl.whitelist ?? []), entry];
+  }
+}
+
+/**
+ * Paths of the config files read from a config directory
+ */
+export function getConfigFilePaths(basePath: string = "."): string[] {
+  return [`${basePath}/config.yaml`, `${basePath}/config.${getEnvironment()}.yaml`];
+}
+
+/**
+ * Path of the runtime overrides file in the data directory
+ */
+export function getRuntimeOverridesPath(repoPath: string): string {
+  return join(repoPath, RUNTIME_OVERRIDES_FILE);
+}
+
+/**
+ * Change the runtime overrides file. It holds the settings changed by admin commands,
+ * which override the config files and environment variables on every load.
+ * @param update - Changes the overrides read from the file (empty when there is none)
+ * @returns The path of the file
+ */
+export async function updateRuntimeOverrides(
+  repoPath: string,
+  update: (overrides: Record<string, unknown>) => void,
+): Promise<string> {
+  const path = getRuntimeOverridesPath(repoPath);
+  const overrides = await exists(path) ? await loadYamlFile(path) : {};
+  update(overrides);
+
+  // Write a new file and rename it over the old one, so a crash never leaves half a file
+  await ensureDir(dirname(path));
+  const tempPath = `${path}.tmp`;
+  await Deno.writeTextFile(
+    tempPath,
+    `# Settings changed with admin commands; they override config.yaml\n${
+      stringifyYaml(overrides)
+    }`,
+  );
+  await Deno.rename(tempPath, path);
+
+  logger.info("Runtime overrides saved", { path });
+  return path;
+}
+
+/**
+ * Read the configuration without validating it
  *
  * Loading order (later overrides earlier):
  * 1. Default configuration
  * 2. Base config file (config.yaml)
  * 3. Environment-specific config (config.{env}.yaml)
  * 4. Environment variables
+ * 5. Runtime overrides written by admin commands ({repoPath}/runtime-overrides.yaml)
+ * 6. Command line overrides
  */
-export async function loadConfig(basePath: string = "."): Promise<Config> {
+export async function readConfig(
+  basePath: string = ".",
+  overrides: ConfigOverrides = {},
+): Promise<Record<string, unknown>> {
   const env = getEnvironment();
-  logger.info("Loading configuration", { environment: env, basePath });
+  const [baseConfigPath, envConfigPath] = getConfigFilePaths(basePath);
 
   // Start with defaults
   let config = deepMerge({}, DEFAULT_CONFIG as Record<string, unknown>);
 
   // Load base config
-  const baseConfigPath = `${basePath}/config.yaml`;
   if (await exists(baseConfigPath)) {
     logger.debug("Loading base config", { path: baseConfigPath });
     const baseConfig = await loadYamlFile(baseConfigPath);
@@ -402,7 +846,6 @@ export async function loadConfig(basePath: string = "."): Promise<Config> {
   }
 
   // Load environment-specific config
-  const envConfigPath = `${basePath}/config.${env}.yaml`;
   if (await exists(envConfigPath)) {
     logger.debug("Loading environment config", { path: envConfigPath, environment: env });
     const envConfig = await loadYamlFile(envConfigPath);
@@ -412,117 +855,49 @@ export async function loadConfig(basePath: string = "."): Promise<Config> {
   // Apply environment variable overrides
   applyEnvOverrides(config);
 
-  // Validate final configuration
-  validateConfig(config);
-
-  logger.info("Configuration loaded successfully", {
-    enabledPlatforms: Object.entries(
-      (config.platforms as Record<string, { enabled?: boolean }>) ?? {},
-    )
-      .filter(([, v]) => v?.enabled)
-      .map(([k]) => k),
-  });
-
-  return config as unknown as Config;
-}
-
-/**
- * Load system prompt from file, replacing {{placeholder}} tokens
- * with the content of corresponding .md files in the same directory.
- *
- * For example, if system.md contains {{character_name}}, it will be
- * replaced with the trimmed content of character_name.md in the prompts directory.
- * Placeholders without a corresponding file are left unchanged and a warning is logged.
- */
-export async function loadSystemPrompt(path: string): Promise<string> {
-  let content: string;
-  try {
-    content = await Deno.readTextFile(path);
-  } catch (error) {
-    if (error instanceof Deno.errors.NotFound) {
-      throw new ConfigError(
-        ErrorCode.CONFIG_NOT_FOUND,
-        `System prompt file not found: ${path}`,
-        { path },
-      );
+  // Apply runtime overrides
+  const repoPath = (config.workspace as { repoPath?: unknown } | undefined)?.repoPath;
+  if (typeof repoPath === "string") {
+    const overridesPath = getRuntimeOverridesPath(repoPath);
+    if (await exists(overridesPath)) {
+      logger.debug("Loading runtime overrides", { path: overridesPath });
+      config = deepMerge(config, await loadYamlFile(overridesPath));
     }
-    throw new ConfigError(
-      ErrorCode.CONFIG_INVALID,
-      `Failed to read system prompt: ${error instanceof Error ? error.message : String(error)}`,
-      { path },
-    );
   }
 
-  // Build a map of available template fragment files in the same directory
-  const promptDir = dirname(path);
-  const systemFileName = basename(path);
-  const fragments = await loadPromptFragments(promptDir, systemFileName);
-
-  // Replace all {{placeholder}} tokens
-  content = replacePlaceholders(content, fragments);
+  // Apply command line overrides
+  applyPlatformOverride(config, overrides);
+  whitelistConsoleUser(config);
 
-  return content.trim();
+  return config;
 }
 
 /**
- * Scan the prompt directory for .md files (excluding the system prompt file itself)
- * and return a map of { name (without extension) -> trimmed content }.
+ * Validate configuration read with readConfig() and apply defaults, leaving the input unchanged
  */
-export async function loadPromptFragments(
-  dir: string,
-  excludeFileName: string,
-): Promise<Map<string, string>> {
-  const fragments = new Map<string, string>();
-
-  try {
-    for await (const entry of Deno.readDir(dir)) {
-      if (
-        !(entry.isFile || entry.isSymlink) ||
-        !entry.name.endsWith(".md") ||
-        entry.name === excludeFileName
-      ) {
-        continue;
-      }
-
-      const name = entry.name.slice(0, -3); // strip ".md"
-      const filePath = join(dir, entry.name);
-      try {
-        const text = await Deno.readTextFile(filePath);
-        fragments.set(name, text.trim());
-      } catch (error) {
-        logger.warn("Failed to read prompt fragment file", {
-          file: entry.name,
-          error: String(error),
-        });
-      }
-    }
-  } catch (error) {
-    logger.warn("Failed to scan prompt directory for fragments", {
-      dir,
-      error: String(error),
-    });
-  }
-
-  return fragments;
+export function parseConfig(raw: Record<string, unknown>): Config {
+  const config = structuredClone(raw);
+  validateConfig(config);
+  return config as unknown as Config;
 }
 
 /**
- * Replace all {{key}} placeholders in content with values from the fragments map.
- * Placeholders without a matching fragment are left unchanged and a warning is logged.
+ * Load and validate configuration (see readConfig() for the loading order)
  */
-export function replacePlaceholders(
-  content: string,
-  fragments: Map<string, string>,
-): string {
-  return content.replace(/\{\{(\w+)\}\}/g, (match, key: string) => {
-    const value = fragments.get(key);
-    if (value !== undefined) {
-      return value;
-    }
-    logger.warn("Prompt placeholder has no matching fragment file", {
-      placeholder: match,
-      expectedFile: `${key}.md`,
-    });
-    return match;
+export async function loadConfig(
+  basePath: string = ".",
+  overrides: ConfigOverrides = {},
+): Promise<Config> {
+  logger.info("Loading configuration", { environment: getEnvironment(), basePath });
+
+  const config = parseConfig(await readConfig(basePath, overrides));
+
+  logger.info("Configuration loaded successfully", {
+    enabledPlatforms: Object.entries(config.platforms ?? {})
+      .filter(([, v]) => v?.enabled)
+      .map(([k]) => k),
+    personas: (config.personas ?? []).map((persona) => persona.name),
   });
+
+  return config;
 }
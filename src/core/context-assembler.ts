@@ -3,75 +3,115 @@
 import { createLogger } from "@utils/logger.ts";
 import { combinedTokenCount, estimateTokens } from "@utils/token-counter.ts";
 import { MemoryStore } from "./memory-store.ts";
-import { loadSystemPrompt } from "./config-loader.ts";
+import type { TranscriptStore } from "./transcript-store.ts";
+import {
+  createPromptVariables,
+  loadPromptTemplate,
+  type PromptTemplate,
+} from "./prompt-template.ts";
 import type {
   AssembledContext,
   AssembledSpontaneousContext,
   ContextAssemblyConfig,
+  ContextOverrides,
   FormattedContext,
   MessageFetcher,
+  ThreadContext,
 } from "../types/context.ts";
 import type { WorkspaceInfo } from "../types/workspace.ts";
-import type { NormalizedEvent, Platform, PlatformMessage } from "../types/events.ts";
+import {
+  getAccountKey,
+  type NormalizedEvent,
+  type Platform,
+  type PlatformMessage,
+} from "../types/events.ts";
 import type { ResolvedMemory } from "../types/memory.ts";
 import type { PlatformEmoji } from "../types/platform.ts";
+import type { ChannelHistory } from "../types/transcript.ts";
 
 const logger = createLogger("ContextAssembler");
 
+/**
+ * Number of parent channel messages included as thread context
+ */
+const THREAD_PARENT_MESSAGE_LIMIT = 5;
+
 export class ContextAssembler {
   private readonly memoryStore: MemoryStore;
-  private readonly config: ContextAssemblyConfig;
-  private systemPromptCache: string | null = null;
-
-  constructor(memoryStore: MemoryStore, config: ContextAssemblyConfig) {
+  private readonly transcriptStore: TranscriptStore | null;
+  private config: ContextAssemblyConfig;
+  /** Prompt templates by path */
+  private promptTemplateCache = new Map<string, PromptTemplate>();
+
+  constructor(
+    memoryStore: MemoryStore,
+    config: ContextAssemblyConfig,
+    transcriptStore: TranscriptStore | null = null,
+  ) {
     this.memoryStore = memoryStore;
     this.config = config;
+    this.transcriptStore = transcriptStore;
   }
 
   /**
-   * Load and cache system prompt
+   * Apply changed settings (config reload)
    */
-  private async getSystemPrompt(): Promise<string> {
-    if (this.systemPromptCache === null) {
-      this.systemPromptCache = await loadSystemPrompt(this.config.systemPromptPath);
-      logger.debug("System prompt loaded", {
-        path: this.config.systemPromptPath,
-        length: this.systemPromptCache.length,
-      });
+  updateConfig(config: ContextAssemblyConfig): void {
+    this.config = config;
+  }
+
+  /**
+   * Load and cache a prompt template
+   */
+  async getPromptTemplate(path = this.config.systemPromptPath): Promise<PromptTemplate> {
+    let template = this.promptTemplateCache.get(path);
+    if (template === undefined) {
+      template = await loadPromptTemplate(path);
+      this.promptTemplateCache.set(path, template);
+      logger.debug("Prompt template loaded", { path });
     }
-    return this.systemPromptCache;
+    return template;
   }
 
   /**
    * Assemble initial context for an Agent session
+   * @param overrides Settings of the session that differ from the assembler config
    */
   async assembleContext(
     event: NormalizedEvent,
     workspace: WorkspaceInfo,
     messageFetcher: MessageFetcher,
+    overrides: ContextOverrides = {},
   ): Promise<AssembledContext> {
     logger.info("Assembling context", {
       workspaceKey: workspace.key,
       channelId: event.channelId,
     });
 
-    // Load system prompt
-    const systemPrompt = await this.getSystemPrompt();
+    // Load system prompt template (rendered once the author's username is known)
+    const systemPromptTemplate = await this.getPromptTemplate(overrides.systemPromptPath);
 
     // Get important memories
     const importantMemories = await this.memoryStore.getImportantMemories(workspace);
     logger.debug("Loaded {count} important memories", { count: importantMemories.length });
 
-    // Fetch recent messages
-    const rawRecentMessages = await messageFetcher.fetchRecentMessages(
+    // Fetch recent messages (cut at the /clear marker of the transcript)
+    const history = await this.fetchRecentMessages(
+      getAccountKey(event.platform, event.persona),
       event.channelId,
-      this.config.recentMessageLimit,
+      messageFetcher,
+      overrides.recentMessageLimit ?? this.config.recentMessageLimit,
     );
+    const rawRecentMessages = history.messages;
     logger.debug("Fetched {count} recent messages", { count: rawRecentMessages.length });
 
     // Apply /clear command: drop everything before (and including) the last /clear message
-    const recentMessages = this.applyClearCommand(rawRecentMessages);
+    let recentMessages = this.applyClearCommand(rawRecentMessages);
+    let clearedAt = history.clearedAt;
     if (recentMessages.length !== rawRecentMessages.length) {
+      const commandAt =
+        rawRecentMessages[rawRecentMessages.length - recentMessages.length - 1].timestamp;
+      if (!clearedAt || commandAt > clearedAt) clearedAt = commandAt;
       logger.info("Applied /clear command: {originalCount} → {filteredCount} messages", {
         originalCount: rawRecentMessages.length,
         filteredCount: recentMessages.length,
@@ -119,16 +159,41 @@ export class ContextAssembler {
       }
     }
 
-    // Create trigger message from event
-    const triggerMessage: PlatformMessage = {
-      messageId: event.messageId,
-      userId: event.userId,
-      username: event.userId, // Will be enriched by platform adapter
-      content: event.content,
-      timestamp: event.timestamp,
-      isBot: false,
-      attachments: event.attachments,
-    };
+    // Fetch starter message and parent channel when the message was sent in a thread
+    let threadContext: ThreadContext | undefined;
+    if (event.parentChannelId && messageFetcher.fetchThreadContext) {
+      try {
+        threadContext = await messageFetcher.fetchThreadContext(
+          event.channelId,
+          THREAD_PARENT_MESSAGE_LIMIT,
+        ) ?? undefined;
+      } catch (error) {
+        logger.warn("Failed to fetch thread context", {
+          channelId: event.channelId,
+          error: String(error),
+        });
+      }
+
+      // Forum posts are also the first message of their thread; show them only once
+      const starterId = threadContext?.starterMessage?.messageId;
+      if (starterId) {
+        recentMessages = recentMessages.filter((m) => m.messageId !== starterId);
+      }
+    }
+
+    // Create trigger messages from the event (and the earlier messages coalesced into it)
+    const triggerMessage = toTriggerMessage(event);
+    const precedingMessages = event.precedingEvents?.map(toTriggerMessage);
+
+    // Events carry no username: take it from the author's latest fetched message
+    const systemPrompt = systemPromptTemplate.render(createPromptVariables({
+      timezone: this.config.timezone,
+      platform: event.platform,
+      channelType: event.isDm ? "dm" : event.parentChannelId ? "thread" : "channel",
+      persona: event.persona,
+      username: rawRecentMessages.findLast((m) => m.userId === event.userId)?.username ??
+        event.userId,
+    }));
 
     // Estimate token count
     const estimatedTokens = this.calculateTokenEstimate(
@@ -136,8 +201,9 @@ export class ContextAssembler {
       importantMemories,
       recentMessages,
       relatedMessages,
-      triggerMessage,
+      [...(precedingMessages ?? []), triggerMessage],
       availableEmojis,
+      threadContext,
     );
 
     const context: AssembledContext = {
@@ -146,8 +212,11 @@ export class ContextAssembler {
       relatedMessages,
       systemPrompt,
       triggerMessage,
+      precedingMessages,
       estimatedTokens,
       availableEmojis,
+      threadContext,
+      clearedAt,
       assembledAt: new Date(),
     };
 
@@ -173,8 +242,9 @@ export class ContextAssembler {
     memories: ResolvedMemory[],
     recentMessages: PlatformMessage[],
     relatedMessages: PlatformMessage[] | undefined,
-    triggerMessage: PlatformMessage,
+    triggerMessages: PlatformMessage[],
     emojis?: PlatformEmoji[],
+    threadContext?: ThreadContext,
   ): number {
     const memoriesText = memories.map((m) => m.content).join("\n");
     const recentText = recentMessages
@@ -183,8 +253,11 @@ export class ContextAssembler {
     const relatedText = relatedMessages
       ?.map((m) => `${m.username}: ${m.content}`)
       .join("\n") ?? "";
-    const triggerText = `${triggerMessage.username}: ${triggerMessage.content}`;
+    const triggerText = triggerMessages
+      .map((m) => `${m.username}: ${m.content}`)
+      .join("\n");
     const emojiText = emojis?.map((e) => e.name).join(", ") ?? "";
+    const threadText = threadContext ? this.formatThreadSection(threadContext) : "";
 
     return combinedTokenCount(
       systemPrompt,
@@ -193,25 +266,33 @@ export class ContextAssembler {
       relatedText,
       triggerText,
       emojiText,
+      threadText,
     );
   }
 
   /**
    * Format context for LLM consumption
    */
-  formatContext(context: AssembledContext): FormattedContext {
-    const availableTokens = this.config.tokenLimit - estimateTokens(context.systemPrompt);
+  formatContext(context: AssembledContext, overrides: ContextOverrides = {}): FormattedContext {
+    const tokenLimit = overrides.tokenLimit ?? this.config.tokenLimit;
+    const availableTokens = tokenLimit - estimateTokens(context.systemPrompt);
 
     // Format memories section (always include all important memories)
     const memoriesSection = context.importantMemories.length > 0
       ? this.formatMemoriesSection(context.importantMemories)
       : "";
 
+    // Format thread section (starter message and parent channel)
+    const threadSection = context.threadContext
+      ? this.formatThreadSection(context.threadContext)
+      : "";
+
     // Calculate trigger message section
-    const triggerSection = this.formatTriggerSection(context.triggerMessage);
+    const triggerSection = this.formatTriggerSection(context);
 
-    // Calculate tokens used by mandatory sections (memories + trigger)
-    const mandatoryTokens = estimateTokens(memoriesSection) + estimateTokens(triggerSection);
+    // Calculate tokens used by mandatory sections (memories + thread + trigger)
+    const mandatoryTokens = estimateTokens(memoriesSection) + estimateTokens(threadSection) +
+      estimateTokens(triggerSection);
     const remainingAfterMandatory = availableTokens - mandatoryTokens;
 
     // Allocate conversation budget FIRST, then give remaining to emojis.
@@ -233,9 +314,10 @@ export class ContextAssembler {
     // Build user message with context
     const userMessage = this.buildUserMessage(
       memoriesSection,
+      threadSection,
       conversationSection,
       emojiSection,
-      context.triggerMessage,
+      triggerSection,
     );
 
     const estimatedTokens = combinedTokenCount(
@@ -250,6 +332,38 @@ export class ContextAssembler {
     };
   }
 
+  /**
+   * Format context for a resumed agent session.
+   * The session already holds the system prompt, memories and earlier conversation,
+   * so only channel messages sent after `since` and the current message(s) are included.
+   */
+  formatResumeContext(
+    context: AssembledContext,
+    since: Date,
+    overrides: ContextOverrides = {},
+  ): FormattedContext {
+    const triggerIds = new Set(
+      [...(context.precedingMessages ?? []), context.triggerMessage].map((m) => m.messageId),
+    );
+    const newMessages = context.recentMessages.filter((m) =>
+      m.timestamp > since && !triggerIds.has(m.messageId)
+    );
+
+    const triggerSection = this.formatTriggerSection(context);
+    const conversationSection = this.formatConversationSectionWithBudget(
+      newMessages,
+      undefined,
+      (overrides.tokenLimit ?? this.config.tokenLimit) - estimateTokens(triggerSection),
+    );
+    const userMessage = this.buildUserMessage("", "", conversationSection, "", triggerSection);
+
+    return {
+      systemMessage: "",
+      userMessage,
+      estimatedTokens: estimateTokens(userMessage),
+    };
+  }
+
   /**
    * Format memories into a readable section
    */
@@ -263,6 +377,37 @@ export class ContextAssembler {
     return lines.join("\n");
   }
 
+  /**
+   * Format the thread the conversation takes place in
+   */
+  private formatThreadSection(thread: ThreadContext): string {
+    const parent = thread.parentChannelName
+      ? `#${thread.parentChannelName}`
+      : `channel ${thread.parentChannelId}`;
+    const lines = [
+      "## Thread",
+      "",
+      `This conversation takes place in the thread "${thread.name}" of ${parent}.`,
+      "",
+    ];
+
+    if (thread.starterMessage) {
+      lines.push("Thread starter:");
+      lines.push(this.formatMessageLine(thread.starterMessage));
+      lines.push("");
+    }
+
+    if (thread.parentMessages.length > 0) {
+      lines.push(`Latest messages in ${parent}:`);
+      for (const msg of thread.parentMessages) {
+        lines.push(this.formatMessageLine(msg));
+      }
+      lines.push("");
+    }
+
+    return lines.join("\n");
+  }
+
   /**
    * Format available emojis into a readable section for the agent.
    * Groups emojis by category if categories are available.
@@ -505,20 +650,41 @@ export class ContextAssembler {
   }
 
   /**
-   * Format trigger message section
+   * Format trigger message section.
+   * Messages coalesced from a burst are listed together, oldest first.
    */
-  private formatTriggerSection(triggerMessage: PlatformMessage): string {
-    let section = `## Current Message\n\n${triggerMessage.username}: ${triggerMessage.content}`;
+  private formatTriggerSection(context: AssembledContext): string {
+    if (!context.precedingMessages?.length) {
+      return `## Current Message\n\n${this.formatTriggerLine(context.triggerMessage)}\n`;
+    }
+
+    const lines = [...context.precedingMessages, context.triggerMessage]
+      .map((message) => this.formatTriggerLine(message));
+    return [
+      "## Current Messages",
+      "",
+      "These messages were sent in quick succession. Answer them together in one reply.",
+      "",
+      ...lines,
+      "",
+    ].join("\n");
+  }
+
+  /**
+   * Format a trigger message with its attachments
+   */
+  private formatTriggerLine(triggerMessage: PlatformMessage): string {
+    let line = `${triggerMessage.username}: ${triggerMessage.content}`;
 
     if (triggerMessage.attachments && triggerMessage.attachments.length > 0) {
       const attachmentDescs = triggerMessage.attachments.map((att) => {
         const sizeStr = att.size ? ` ${formatFileSize(att.size)}` : "";
         return `📎 ${att.filename} (${att.mimeType}${sizeStr}) ${att.url}`;
       });
-      section += `\n  Attachments: ${attachmentDescs.join(" | ")}`;
+      line += `\n  Attachments: ${attachmentDescs.join(" | ")}`;
     }
 
-    return section + "\n";
+    return line;
   }
 
   /**
@@ -526,9 +692,10 @@ export class ContextAssembler {
    */
   private buildUserMessage(
     memoriesSection: string,
+    threadSection: string,
     conversationSection: string,
     emojiSection: string,
-    triggerMessage: PlatformMessage,
+    triggerSection: string,
   ): string {
     const parts: string[] = [];
 
@@ -536,6 +703,10 @@ export class ContextAssembler {
       parts.push(memoriesSection);
     }
 
+    if (threadSection) {
+      parts.push(threadSection);
+    }
+
     if (conversationSection) {
       parts.push(conversationSection);
     }
@@ -544,19 +715,8 @@ export class ContextAssembler {
       parts.push(emojiSection);
     }
 
-    // Add current message
-    parts.push("## Current Message");
-    parts.push("");
-    let triggerLine = `${triggerMessage.username}: ${triggerMessage.content}`;
-    if (triggerMessage.attachments && triggerMessage.attachments.length > 0) {
-      const attachmentDescs = triggerMessage.attachments.map((att) => {
-        const sizeStr = att.size ? ` ${formatFileSize(att.size)}` : "";
-        return `📎 ${att.filename} (${att.mimeType}${sizeStr}) ${att.url}`;
-      });
-      triggerLine += `\n  Attachments: ${attachmentDescs.join(" | ")}`;
-    }
-    parts.push(triggerLine);
-    parts.push("");
+    // Add current message(s)
+    parts.push(triggerSection);
 
     return parts.join("\n");
   }
@@ -564,30 +724,41 @@ export class ContextAssembler {
   /**
    * Assemble context for a spontaneous post session.
    * Unlike assembleContext(), this does not have a trigger message.
+   * @param options.persona Persona of the posting account (unset for the default persona)
+   * @param options.systemPromptPath System prompt of the persona
    */
   async assembleSpontaneousContext(
     platform: Platform,
     channelId: string,
     workspace: WorkspaceInfo,
     messageFetcher: MessageFetcher,
-    options: { fetchRecentMessages: boolean },
+    options: { fetchRecentMessages: boolean; persona?: string; systemPromptPath?: string },
   ): Promise<AssembledSpontaneousContext> {
     logger.info("Assembling spontaneous context", {
       platform,
       channelId,
+      persona: options.persona,
       fetchRecentMessages: options.fetchRecentMessages,
     });
 
-    const systemPrompt = await this.getSystemPrompt();
+    const systemPrompt = (await this.getPromptTemplate(options.systemPromptPath)).render(
+      createPromptVariables({
+        timezone: this.config.timezone,
+        platform,
+        persona: options.persona,
+      }),
+    );
     const importantMemories = await this.memoryStore.getImportantMemories(workspace);
 
     let recentMessages: PlatformMessage[] = [];
     if (options.fetchRecentMessages) {
       try {
-        recentMessages = await messageFetcher.fetchRecentMessages(
+        recentMessages = (await this.fetchRecentMessages(
+          getAccountKey(platform, options.persona),
           channelId,
+          messageFetcher,
           this.config.recentMessageLimit,
-        );
+        )).messages;
       } catch (error) {
         logger.warn("Failed to fetch recent messages for spontaneous context", {
           platform,
@@ -696,10 +867,10 @@ export class ContextAssembler {
   }
 
   /**
-   * Invalidate system prompt cache (for hot reload)
+   * Invalidate prompt template cache (for hot reload)
    */
   invalidateSystemPromptCache(): void {
-    this.systemPromptCache = null;
+    this.promptTemplateCache.clear();
   }
 
   /**
@@ -720,6 +891,61 @@ export class ContextAssembler {
     return line;
   }
 
+  /**
+   * Fetch the recent messages of a channel from the platform or from its transcript.
+   * The transcript stands in when the platform fetch fails or returns nothing
+   * (or is read first with contextSource "transcript"); platform messages are cut
+   * at the last /clear marker of the transcript.
+   */
+  private async fetchRecentMessages(
+    accountKey: string,
+    channelId: string,
+    messageFetcher: MessageFetcher,
+    limit: number,
+  ): Promise<ChannelHistory> {
+    if (!this.transcriptStore) {
+      return { messages: await messageFetcher.fetchRecentMessages(channelId, limit) };
+    }
+
+    let transcript: ChannelHistory = { messages: [] };
+    try {
+      transcript = await this.transcriptStore.readRecent(accountKey, channelId, limit);
+    } catch (error) {
+      logger.warn("Failed to read transcript", {
+        platform: accountKey,
+        channelId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    if (this.config.contextSource === "transcript" && transcript.messages.length > 0) {
+      logger.debug("Using {count} transcript messages", { count: transcript.messages.length });
+      return transcript;
+    }
+
+    try {
+      const messages = await messageFetcher.fetchRecentMessages(channelId, limit);
+      if (messages.length > 0 || transcript.messages.length === 0) {
+        const { clearedAt } = transcript;
+        return clearedAt
+          ? { messages: messages.filter((m) => m.timestamp > clearedAt), clearedAt }
+          : { messages };
+      }
+      logger.info("Platform returned no recent messages, using the transcript", {
+        platform: accountKey,
+        channelId,
+      });
+    } catch (error) {
+      if (transcript.messages.length === 0) throw error;
+      logger.warn("Failed to fetch recent messages, using the transcript", {
+        platform: accountKey,
+        channelId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+    return transcript;
+  }
+
   /**
    * Apply /clear command to recent messages.
    *
@@ -755,3 +981,18 @@ function formatFileSize(bytes: number): string {
   if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)}KB`;
   return `${(bytes / (1024 * 1024)).toFixed(1)}MB`;
 }
+
+/**
+ * Create the trigger message of an event
+ */
+function toTriggerMessage(event: NormalizedEvent): PlatformMessage {
+  return {
+    messageId: event.messageId,
+    userId: event.userId,
+    username: event.userId, // Will be enriched by platform adapter
+    content: event.content,
+    timestamp: event.timestamp,
+    isBot: false,
+    attachments: event.attachments,
+  };
+}
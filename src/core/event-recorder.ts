@@ -0,0 +1,104 @@
+// src/core/event-recorder.ts
+
+import { dirname, join } from "@std/path";
+import { createLogger } from "@utils/logger.ts";
+import { encodePathComponent, ensureDirectory } from "@utils/path-validator.ts";
+import type { PlatformAdapter } from "@platforms/platform-adapter.ts";
+import type { Config, EventRecordingConfig } from "../types/config.ts";
+import { getAccountKey, type NormalizedEvent, type PlatformMessage } from "../types/events.ts";
+import type { ReplayFixture } from "../types/replay.ts";
+
+const logger = createLogger("EventRecorder");
+
+/**
+ * Default event recording configuration
+ */
+export const DEFAULT_EVENT_RECORDING: EventRecordingConfig = {
+  enabled: false,
+  historyLimit: 20,
+};
+
+/**
+ * Directory in the data directory holding the recordings
+ */
+const RECORDINGS_DIR = "recordings";
+
+/**
+ * Records received events as replay fixtures, one file per event, together with the
+ * channel history fetched when the event arrived. The fixtures can be replayed offline
+ * (see src/replay/) once an agent script and expectations are added.
+ *
+ * Layout: {repoPath}/recordings/{accountKey}/{channelId}/{timestamp}-{messageId}.json
+ *
+ * The settings are read on each event, so a config reload starts or stops the recording.
+ */
+export class EventRecorder {
+  private config: Config;
+
+  constructor(config: Config) {
+    this.config = config;
+  }
+
+  /**
+   * Record the events of a platform adapter. Must be called before the handler answering
+   * events is registered, so the history is fetched before the bot replies.
+   */
+  attach(adapter: PlatformAdapter): void {
+    adapter.onEvent((event) => this.record(adapter, event));
+  }
+
+  /**
+   * Write the fixture of an event. Failures are logged, never thrown:
+   * recording must not break the message it records.
+   */
+  private async record(adapter: PlatformAdapter, event: NormalizedEvent): Promise<void> {
+    const recording = this.config.eventRecording;
+    if (!recording?.enabled) return;
+
+    const accountKey = getAccountKey(event.platform, event.persona);
+    let history: PlatformMessage[] = [];
+    try {
+      history = await adapter.fetchRecentMessages(event.channelId, recording.historyLimit);
+    } catch (error) {
+      logger.warn("Failed to fetch the history of a recorded event", {
+        platform: accountKey,
+        channelId: event.channelId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    // Raw platform data is neither needed for replays nor serializable
+    const { raw: _raw, ...recorded } = event;
+    const fixture: ReplayFixture = {
+      version: 1,
+      recordedAt: new Date().toISOString(),
+      platform: event.platform,
+      botId: adapter.getBotId() ?? "",
+      capabilities: adapter.capabilities,
+      events: [{ event: recorded, history }],
+    };
+
+    const path = join(
+      this.config.workspace.repoPath,
+      RECORDINGS_DIR,
+      ...accountKey.split("/").map(encodePathComponent),
+      encodePathComponent(event.channelId),
+      `${event.timestamp.getTime()}-${encodePathComponent(event.messageId)}.json`,
+    );
+    try {
+      await ensureDirectory(dirname(path));
+      await Deno.writeTextFile(path, JSON.stringify(fixture, null, 2) + "\n");
+      logger.debug("Recorded event {messageId}", {
+        platform: accountKey,
+        messageId: event.messageId,
+        path,
+      });
+    } catch (error) {
+      logger.warn("Failed to record event {messageId}", {
+        platform: accountKey,
+        messageId: event.messageId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+}
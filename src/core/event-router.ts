@@ -125,6 +125,29 @@ export function isPlatform(...platforms: string[]): RouteCondition {
   return (event) => platforms.includes(event.platform);
 }
 
+/**
+ * Create a condition that matches events from specific guilds/servers
+ */
+export function isGuild(...guildIds: string[]): RouteCondition {
+  return (event) => !!event.guildId && guildIds.includes(event.guildId);
+}
+
+/**
+ * Create a condition that matches specific channels (and their threads)
+ */
+export function isChannel(...channelIds: string[]): RouteCondition {
+  return (event) =>
+    channelIds.includes(event.channelId) ||
+    (!!event.parentChannelId && channelIds.includes(event.parentChannelId));
+}
+
+/**
+ * Create a condition that matches events from specific users
+ */
+export function isUser(...userIds: string[]): RouteCondition {
+  return (event) => userIds.includes(event.userId);
+}
+
 /**
  * Create a condition that matches messages containing keywords
  */
@@ -149,3 +172,10 @@ export function allOf(...conditions: RouteCondition[]): RouteCondition {
 export function anyOf(...conditions: RouteCondition[]): RouteCondition {
   return (event) => conditions.some((c) => c(event));
 }
+
+/**
+ * Negate a condition
+ */
+export function not(condition: RouteCondition): RouteCondition {
+  return (event) => !condition(event);
+}
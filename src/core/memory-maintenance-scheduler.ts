@@ -49,6 +49,25 @@ export class MemoryMaintenanceScheduler {
     logger.info("Memory maintenance scheduler stopped");
   }
 
+  /**
+   * Apply changed settings (config reload): the pending maintenance is rescheduled with
+   * the new interval. A maintenance in progress schedules the next one when it completes.
+   */
+  reschedule(config: MemoryMaintenanceConfig): void {
+    this.config = config;
+    if (this.timerId !== null) {
+      clearTimeout(this.timerId);
+      this.timerId = null;
+    }
+    this.started = config.enabled;
+    this.nextScheduledAt = null;
+
+    if (this.started && !this.isRunning) {
+      this.scheduleNext();
+    }
+    logger.info("Memory maintenance scheduler rescheduled", { enabled: this.started });
+  }
+
   getStatus(): {
     isRunning: boolean;
     lastExecutedAt: Date | null;
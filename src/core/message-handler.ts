@@ -2,16 +2,31 @@
 
 import { createLogger } from "@utils/logger.ts";
 import type { SessionOrchestrator, SessionResponse } from "./session-orchestrator.ts";
-import type { NormalizedEvent } from "../types/events.ts";
+import { getAccountKey, type MessageActivity, type NormalizedEvent } from "../types/events.ts";
 import type { PlatformAdapter } from "@platforms/platform-adapter.ts";
-import type { RateLimitConfig } from "../types/config.ts";
+import type { RateLimitConfig, SessionCancelConfig, SessionQueueConfig } from "../types/config.ts";
 import { RateLimiter } from "./rate-limiter.ts";
 import type { ReplyPolicyEvaluator } from "./reply-policy.ts";
+import { type CancelRequest, SessionQueue } from "./session-queue.ts";
+import { SessionPriority } from "./agent-limiter.ts";
 
 import { messagesReceivedTotal } from "@utils/metrics.ts";
 
 const logger = createLogger("MessageHandler");
 
+/**
+ * Default session cancellation configuration
+ */
+export const DEFAULT_SESSION_CANCEL: SessionCancelConfig = {
+  enabled: true,
+  reaction: "🛑",
+};
+
+/**
+ * Message that stops the sessions answering its author in the channel
+ */
+const STOP_COMMAND = "/stop";
+
 /**
  * MessageHandler processes incoming platform events
  * and coordinates with SessionOrchestrator
@@ -21,22 +36,47 @@ export class MessageHandler {
   private activeEvents: Set<string> = new Set();
   private rateLimiter: RateLimiter;
   private replyPolicy: ReplyPolicyEvaluator;
+  private sessionQueue: SessionQueue;
+  private sessionCancelConfig: SessionCancelConfig;
   private cleanupInterval: ReturnType<typeof setInterval> | null = null;
 
   constructor(
     orchestrator: SessionOrchestrator,
     rateLimitConfig: RateLimitConfig,
     replyPolicy: ReplyPolicyEvaluator,
+    sessionQueueConfig: SessionQueueConfig,
+    sessionCancelConfig: SessionCancelConfig = DEFAULT_SESSION_CANCEL,
   ) {
     this.orchestrator = orchestrator;
+    this.sessionCancelConfig = sessionCancelConfig;
     this.rateLimiter = new RateLimiter(rateLimitConfig);
     this.replyPolicy = replyPolicy;
+    this.sessionQueue = new SessionQueue(
+      sessionQueueConfig,
+      (queuedEvent, adapter) =>
+        this.orchestrator.processMessage(queuedEvent, adapter, this.getPriority(queuedEvent)),
+    );
+
+    this.scheduleRateLimitCleanup(rateLimitConfig);
+  }
+
+  /**
+   * Apply changed rate limit settings (config reload)
+   */
+  updateRateLimit(rateLimitConfig: RateLimitConfig): void {
+    this.rateLimiter.updateConfig(rateLimitConfig);
+    this.scheduleRateLimitCleanup(rateLimitConfig);
+  }
 
+  private scheduleRateLimitCleanup(rateLimitConfig: RateLimitConfig): void {
     // Periodic cleanup every hour to prevent memory leaks
-    if (rateLimitConfig.enabled) {
+    if (rateLimitConfig.enabled && !this.cleanupInterval) {
       this.cleanupInterval = setInterval(() => {
         this.rateLimiter.cleanup();
       }, 3600000);
+    } else if (!rateLimitConfig.enabled && this.cleanupInterval) {
+      clearInterval(this.cleanupInterval);
+      this.cleanupInterval = null;
     }
   }
 
@@ -48,7 +88,8 @@ export class MessageHandler {
     platformAdapter: PlatformAdapter,
   ): Promise<SessionResponse> {
     // Generate unique event key to prevent duplicates
-    const eventKey = `${event.platform}:${event.messageId}`;
+    // Accounts of several personas can receive the same message
+    const eventKey = `${getAccountKey(event.platform, event.persona)}:${event.messageId}`;
 
     // Check for duplicate processing
     if (this.activeEvents.has(eventKey)) {
@@ -64,6 +105,18 @@ export class MessageHandler {
       };
     }
 
+    // /stop is answered right away instead of waiting behind the session it stops
+    if (this.sessionCancelConfig.enabled && event.content.trim() === STOP_COMMAND) {
+      const cancelled = this.cancel({
+        platform: event.platform,
+        persona: event.persona,
+        channelId: event.channelId,
+        userId: event.userId,
+        reason: "command",
+      });
+      return { success: true, replySent: false, cancelled };
+    }
+
     // Mark event as active
     this.activeEvents.add(eventKey);
     messagesReceivedTotal.labels(event.platform).inc();
@@ -94,10 +147,16 @@ export class MessageHandler {
         isDm: event.isDm,
       });
 
-      // Process through orchestrator
-      const response = await this.orchestrator.processMessage(event, platformAdapter);
+      // Process through orchestrator, one session per channel at a time
+      const response = await this.sessionQueue.enqueue(event, platformAdapter);
 
-      if (response.success) {
+      if (response.coalesced) {
+        logger.info("Event {messageId} answered together with later messages", {
+          platform: event.platform,
+          messageId: event.messageId,
+          channelId: event.channelId,
+        });
+      } else if (response.success) {
         logger.info("Event {messageId} processed successfully", {
           platform: event.platform,
           messageId: event.messageId,
@@ -118,11 +177,62 @@ export class MessageHandler {
     }
   }
 
+  /**
+   * Stop the running session and drop the waiting messages a cancel request refers to
+   * @returns Whether anything was stopped
+   */
+  cancel(request: CancelRequest): boolean {
+    if (!this.sessionCancelConfig.enabled) return false;
+
+    const dropped = this.sessionQueue.cancel(request);
+    const stopped = this.orchestrator.cancelSession(request);
+    if (dropped === 0 && !stopped) {
+      logger.debug("Nothing to cancel in {channelId}", {
+        platform: request.platform,
+        channelId: request.channelId,
+        messageId: request.messageId,
+        reason: request.reason,
+      });
+    }
+    return dropped > 0 || stopped;
+  }
+
+  /**
+   * Stop the session of a deleted message, or of a message its author gave the cancel reaction
+   * @returns Whether anything was stopped
+   */
+  handleActivity(activity: MessageActivity): boolean {
+    if (activity.type === "cleared") return false;
+    if (activity.type === "reacted") {
+      const reaction = this.sessionCancelConfig.reaction;
+      if (!reaction || activity.reaction !== reaction) return false;
+    }
+
+    return this.cancel({
+      platform: activity.platform,
+      persona: activity.persona,
+      channelId: activity.channelId,
+      messageId: activity.messageId,
+      userId: activity.type === "reacted" ? activity.userId : undefined,
+      reason: activity.type === "reacted" ? "reaction" : "deleted",
+    });
+  }
+
+  /**
+   * Agent slot priority of a message: DMs from whitelisted accounts go first
+   */
+  private getPriority(event: NormalizedEvent): SessionPriority {
+    return event.isDm && this.replyPolicy.isWhitelistedAccount(event.platform, event.userId)
+      ? SessionPriority.WhitelistedDm
+      : SessionPriority.Message;
+  }
+
   /**
    * Check if an event is currently being processed
+   * @param accountKey - Platform account the event arrived on (see getAccountKey)
    */
-  isProcessing(platform: string, messageId: string): boolean {
-    return this.activeEvents.has(`${platform}:${messageId}`);
+  isProcessing(accountKey: string, messageId: string): boolean {
+    return this.activeEvents.has(`${accountKey}:${messageId}`);
   }
 
   /**
@@ -133,9 +243,18 @@ export class MessageHandler {
   }
 
   /**
-   * Dispose resources (cleanup interval)
+   * Get count of messages waiting for a session
+   */
+  getQueuedCount(): number {
+    return this.sessionQueue.getQueueDepth();
+  }
+
+  /**
+   * Dispose resources (cleanup interval, session queue)
    */
   dispose(): void {
+    this.sessionQueue.dispose();
+
     if (this.cleanupInterval) {
       clearInterval(this.cleanupInterval);
       this.cleanupInterval = null;
@@ -0,0 +1,395 @@
+// src/core/prompt-template.ts
+
+import { basename, dirname, extname, join, resolve } from "@std/path";
+import { createLogger } from "@utils/logger.ts";
+import { ConfigError, ErrorCode } from "../types/errors.ts";
+
+const logger = createLogger("PromptTemplate");
+
+/**
+ * Variables available to prompt templates
+ */
+export const PROMPT_VARIABLES = [
+  "now",
+  "date",
+  "weekday",
+  "timezone",
+  "platform",
+  "channelType",
+  "isDm",
+  "persona",
+  "username",
+] as const;
+
+export type PromptVariableName = typeof PROMPT_VARIABLES[number];
+
+/**
+ * Values of the prompt variables. Unset variables render as empty text and are false in conditions.
+ */
+export type PromptVariables = Partial<Record<PromptVariableName, string | boolean>>;
+
+/**
+ * Where a session takes place, as seen by prompt templates
+ */
+export interface PromptVariableOptions {
+  /** IANA timezone of the time variables (system timezone if unset) */
+  timezone?: string;
+  /** Defaults to the current time */
+  now?: Date;
+  platform?: string;
+  channelType?: "dm" | "thread" | "channel";
+  persona?: string;
+  username?: string;
+}
+
+type TemplateNode =
+  | { type: "text"; text: string }
+  | { type: "variable"; name: PromptVariableName }
+  | {
+    type: "condition";
+    name: PromptVariableName;
+    negate: boolean;
+    then: TemplateNode[];
+    otherwise: TemplateNode[];
+  }
+  | { type: "include"; nodes: TemplateNode[] };
+
+type Token =
+  | { kind: "text"; text: string }
+  | { kind: "tag"; raw: string; sigil: string; word: string; arg?: string; line: number };
+
+/**
+ * Template tags: {{name}}, {{> fragment}}, {{#if name}}, {{#unless name}}, {{else}}, {{/if}}, {{/unless}}
+ */
+const TAG_PATTERN = /\{\{([#/>]?)\s*([\w./-]+)(?:\s+([\w./-]+))?\s*\}\}/g;
+
+/**
+ * Parsed prompt file with its includes resolved, rendered once per session
+ */
+export class PromptTemplate {
+  readonly path: string;
+  private readonly nodes: TemplateNode[];
+
+  constructor(path: string, nodes: TemplateNode[]) {
+    this.path = path;
+    this.nodes = nodes;
+  }
+
+  render(variables: PromptVariables = {}): string {
+    return renderNodes(this.nodes, variables).trim();
+  }
+}
+
+/**
+ * Load and parse a prompt template.
+ *
+ * Besides variables and conditionals, a template can include other prompt files with
+ * {{> name}} (relative to the including file, ".md" added when there is no extension).
+ * {{name}} of a name that is not a variable includes name.md of the template directory,
+ * as prompt placeholders always did; without such a file it is left unchanged and a
+ * warning is logged.
+ *
+ * @throws ConfigError naming the file and line of syntax errors, unknown variables in
+ *   conditions, missing includes and include cycles
+ */
+export async function loadPromptTemplate(path: string): Promise<PromptTemplate> {
+  const loader = new TemplateLoader(path);
+  return new PromptTemplate(path, await loader.load(path, []));
+}
+
+/**
+ * Compute the template variables of a session
+ */
+export function createPromptVariables(options: PromptVariableOptions = {}): PromptVariables {
+  const timezone = options.timezone ?? Intl.DateTimeFormat().resolvedOptions().timeZone;
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat("en-US", {
+      timeZone: timezone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23",
+      weekday: "long",
+    }).formatToParts(options.now ?? new Date()).map((part) => [part.type, part.value]),
+  );
+  const date = `${parts.year}-${parts.month}-${parts.day}`;
+
+  return {
+    now: `${date} ${parts.hour}:${parts.minute}`,
+    date,
+    weekday: parts.weekday,
+    timezone,
+    platform: options.platform,
+    channelType: options.channelType,
+    isDm: options.channelType === "dm",
+    persona: options.persona,
+    username: options.username,
+  };
+}
+
+/**
+ * Check that a timezone is known to the runtime
+ */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function isPromptVariable(name: string | undefined): name is PromptVariableName {
+  return (PROMPT_VARIABLES as readonly string[]).includes(name ?? "");
+}
+
+function renderNodes(nodes: TemplateNode[], variables: PromptVariables): string {
+  let output = "";
+  for (const node of nodes) {
+    switch (node.type) {
+      case "text":
+        output += node.text;
+        break;
+      case "variable":
+        output += String(variables[node.name] ?? "");
+        break;
+      case "condition": {
+        const value = variables[node.name];
+        const isSet = value !== undefined && value !== false && value !== "";
+        output += renderNodes(isSet !== node.negate ? node.then : node.otherwise, variables);
+        break;
+      }
+      case "include":
+        output += renderNodes(node.nodes, variables).trim();
+        break;
+    }
+  }
+  return output;
+}
+
+function tokenize(content: string): Token[] {
+  const tokens: Token[] = [];
+  let line = 1;
+  let offset = 0;
+
+  for (const match of content.matchAll(TAG_PATTERN)) {
+    const text = content.slice(offset, match.index);
+    line += text.split("\n").length - 1;
+    tokens.push({ kind: "text", text });
+    tokens.push({
+      kind: "tag",
+      raw: match[0],
+      sigil: match[1],
+      word: match[2],
+      arg: match[3],
+      line,
+    });
+    line += match[0].split("\n").length - 1;
+    offset = match.index + match[0].length;
+  }
+  tokens.push({ kind: "text", text: content.slice(offset) });
+
+  stripStandaloneTags(tokens);
+  return tokens;
+}
+
+function isBlockTag(token: Token): boolean {
+  return token.kind === "tag" &&
+    (token.sigil === "#" || token.sigil === "/" || (token.sigil === "" && token.word === "else"));
+}
+
+/**
+ * Block tags alone on their line leave no blank line behind.
+ * tokenize() alternates text and tags, starting and ending with text.
+ */
+function stripStandaloneTags(tokens: Token[]): void {
+  const standalone = tokens.map((token, i) => {
+    if (!isBlockTag(token)) return false;
+    const before = tokens[i - 1] as { text: string };
+    const after = tokens[i + 1] as { text: string };
+    const startsLine = /\n[ \t]*$/.test(before.text) ||
+      (i === 1 && /^[ \t]*$/.test(before.text));
+    const endsLine = /^[ \t]*\r?\n/.test(after.text) ||
+      (i === tokens.length - 2 && /^[ \t]*$/.test(after.text));
+    return startsLine && endsLine;
+  });
+
+  standalone.forEach((isStandalone, i) => {
+    if (!isStandalone) return;
+    const before = tokens[i - 1] as { text: string };
+    const after = tokens[i + 1] as { text: string };
+    before.text = before.text.replace(/[ \t]*$/, "");
+    after.text = after.text.replace(/^[ \t]*\r?\n?/, "");
+  });
+}
+
+interface OpenBlock {
+  keyword: string;
+  node: Extract<TemplateNode, { type: "condition" }>;
+  line: number;
+  raw: string;
+  inElse: boolean;
+}
+
+/**
+ * Reads a template and the files it includes
+ */
+class TemplateLoader {
+  private readonly rootPath: string;
+
+  constructor(rootPath: string) {
+    this.rootPath = rootPath;
+  }
+
+  /**
+   * @param includedBy Files including this one, outermost first
+   */
+  async load(
+    path: string,
+    includedBy: string[],
+    location?: { file: string; line: number },
+  ): Promise<TemplateNode[]> {
+    let content: string;
+    try {
+      content = await Deno.readTextFile(path);
+    } catch (error) {
+      if (!location) {
+        if (error instanceof Deno.errors.NotFound) {
+          throw new ConfigError(
+            ErrorCode.CONFIG_NOT_FOUND,
+            `System prompt file not found: ${path}`,
+            { path },
+          );
+        }
+        throw new ConfigError(
+          ErrorCode.CONFIG_INVALID,
+          `Failed to read system prompt: ${error instanceof Error ? error.message : String(error)}`,
+          { path },
+        );
+      }
+      const reason = error instanceof Deno.errors.NotFound
+        ? "not found"
+        : `unreadable (${error instanceof Error ? error.message : String(error)})`;
+      throw this.error(location.file, location.line, `Included prompt file ${path} ${reason}`);
+    }
+
+    return await this.parse(tokenize(content), path, [...includedBy, path]);
+  }
+
+  private async parse(tokens: Token[], file: string, stack: string[]): Promise<TemplateNode[]> {
+    const root: TemplateNode[] = [];
+    const open: OpenBlock[] = [];
+    const target = (): TemplateNode[] => {
+      const block = open[open.length - 1];
+      if (!block) return root;
+      return block.inElse ? block.node.otherwise : block.node.then;
+    };
+
+    for (const token of tokens) {
+      if (token.kind === "text") {
+        if (token.text) target().push({ type: "text", text: token.text });
+        continue;
+      }
+
+      const { sigil, word, arg, line, raw } = token;
+      if (sigil === "#") {
+        if (word !== "if" && word !== "unless") {
+          throw this.error(file, line, `Unknown block ${raw}`);
+        }
+        if (!isPromptVariable(arg)) {
+          throw this.error(
+            file,
+            line,
+            `Unknown variable in ${raw} (available: ${PROMPT_VARIABLES.join(", ")})`,
+          );
+        }
+        const node = {
+          type: "condition" as const,
+          name: arg,
+          negate: word === "unless",
+          then: [],
+          otherwise: [],
+        };
+        target().push(node);
+        open.push({ keyword: word, node, line, raw, inElse: false });
+      } else if (sigil === "/") {
+        const block = open.pop();
+        if (!block || block.keyword !== word || arg !== undefined) {
+          throw this.error(
+            file,
+            line,
+            block ? `${raw} does not close ${block.raw} (line ${block.line})` : `Unexpected ${raw}`,
+          );
+        }
+      } else if (sigil === ">") {
+        if (arg !== undefined) throw this.error(file, line, `Invalid include ${raw}`);
+        const path = join(dirname(file), extname(word) ? word : `${word}.md`);
+        target().push(await this.include(path, stack, file, line));
+      } else if (word === "else" && arg === undefined) {
+        const block = open[open.length - 1];
+        if (!block || block.inElse) throw this.error(file, line, `Unexpected ${raw}`);
+        block.inElse = true;
+      } else if (arg === undefined && isPromptVariable(word)) {
+        target().push({ type: "variable", name: word });
+      } else if (arg === undefined && /^\w+$/.test(word) && await this.hasFragment(word)) {
+        target().push(
+          await this.include(join(dirname(this.rootPath), `${word}.md`), stack, file, line),
+        );
+      } else {
+        if (arg === undefined && /^\w+$/.test(word)) {
+          logger.warn("Prompt placeholder has no matching fragment file", {
+            placeholder: raw,
+            expectedFile: `${word}.md`,
+            file,
+            line,
+          });
+        }
+        target().push({ type: "text", text: raw });
+      }
+    }
+
+    const unclosed = open.pop();
+    if (unclosed) {
+      throw this.error(file, unclosed.line, `Unclosed ${unclosed.raw}`);
+    }
+    return root;
+  }
+
+  private async include(
+    path: string,
+    stack: string[],
+    file: string,
+    line: number,
+  ): Promise<TemplateNode> {
+    if (stack.some((included) => resolve(included) === resolve(path))) {
+      throw this.error(
+        file,
+        line,
+        `Prompt include cycle: ${[...stack, path].map((p) => basename(p)).join(" -> ")}`,
+      );
+    }
+    return { type: "include", nodes: await this.load(path, stack, { file, line }) };
+  }
+
+  /**
+   * Whether {{name}} refers to a prompt fragment (the template itself is not one)
+   */
+  private async hasFragment(name: string): Promise<boolean> {
+    const fileName = `${name}.md`;
+    if (fileName === basename(this.rootPath)) return false;
+    try {
+      return (await Deno.stat(join(dirname(this.rootPath), fileName))).isFile;
+    } catch {
+      return false;
+    }
+  }
+
+  private error(file: string, line: number, message: string): ConfigError {
+    return new ConfigError(ErrorCode.CONFIG_INVALID, `${file}:${line}: ${message}`, {
+      path: file,
+      line,
+    });
+  }
+}
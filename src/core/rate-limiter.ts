@@ -21,6 +21,13 @@ export class RateLimiter {
     this.config = config;
   }
 
+  /**
+   * Apply changed settings. Requests already counted stay in their windows.
+   */
+  updateConfig(config: RateLimitConfig): void {
+    this.config = config;
+  }
+
   /**
    * Check if a request from the given user should be allowed.
    * Returns true if allowed, false if rate-limited.
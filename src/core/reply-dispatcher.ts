@@ -3,6 +3,7 @@
 import { createLogger } from "@utils/logger.ts";
 import type { PlatformAdapter } from "@platforms/platform-adapter.ts";
 import type { SessionResponse } from "./session-orchestrator.ts";
+import { AGENT_CAPACITY_ERROR } from "./agent-limiter.ts";
 
 const logger = createLogger("ReplyDispatcher");
 
@@ -28,7 +29,8 @@ export class ReplyDispatcher {
 
     // Don't send error messages for certain types of errors
     const skipErrorMessage = response.error?.includes("already being processed") ||
-      response.error?.includes("cancelled");
+      response.error?.includes("cancelled") ||
+      response.error === AGENT_CAPACITY_ERROR;
 
     if (skipErrorMessage) {
       logger.debug("Skipping error message dispatch", {
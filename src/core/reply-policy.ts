@@ -1,6 +1,6 @@
 import { createLogger } from "@utils/logger.ts";
 import type { AccessControlConfig, ReplyPolicy } from "../types/config.ts";
-import type { NormalizedEvent, Platform } from "../types/events.ts";
+import { type NormalizedEvent, type Platform, PLATFORMS } from "../types/events.ts";
 
 const logger = createLogger("ReplyPolicy");
 
@@ -14,16 +14,37 @@ interface WhitelistEntry {
  * Evaluates whether to reply to a given event based on access control config.
  */
 export class ReplyPolicyEvaluator {
-  private readonly policy: ReplyPolicy;
-  private readonly entries: WhitelistEntry[];
+  private policy: ReplyPolicy;
+  private entries: WhitelistEntry[];
+  private includeThreads: boolean;
+  private admins: WhitelistEntry[];
 
   constructor(config: AccessControlConfig) {
     this.policy = config.replyTo;
     this.entries = this.parseWhitelist(config.whitelist);
+    this.includeThreads = config.includeThreads ?? true;
+    this.admins = this.parseWhitelist(config.admins ?? []);
 
     logger.info("Reply policy initialized", {
       policy: this.policy,
       whitelistEntries: this.entries.length,
+      admins: this.admins.length,
+    });
+  }
+
+  /**
+   * Apply changed access control settings (config reload).
+   */
+  update(config: AccessControlConfig): void {
+    this.policy = config.replyTo;
+    this.entries = this.parseWhitelist(config.whitelist);
+    this.includeThreads = config.includeThreads ?? true;
+    this.admins = this.parseWhitelist(config.admins ?? []);
+
+    logger.info("Reply policy updated", {
+      policy: this.policy,
+      whitelistEntries: this.entries.length,
+      admins: this.admins.length,
     });
   }
 
@@ -61,6 +82,17 @@ export class ReplyPolicyEvaluator {
     );
   }
 
+  /**
+   * Check if a user may use admin commands.
+   */
+  isAdmin(platform: string, userId: string): boolean {
+    return this.admins.some((entry) =>
+      entry.platform === platform &&
+      entry.type === "account" &&
+      entry.id === userId
+    );
+  }
+
   /**
    * Check whether an event matches any whitelist entry.
    */
@@ -74,7 +106,8 @@ export class ReplyPolicyEvaluator {
         case "account":
           return entry.id === event.userId;
         case "channel":
-          return entry.id === event.channelId;
+          return entry.id === event.channelId ||
+            (this.includeThreads && entry.id === event.parentChannelId);
       }
     });
   }
@@ -83,7 +116,7 @@ export class ReplyPolicyEvaluator {
    * Parse whitelist string entries into structured format.
    */
   private parseWhitelist(whitelist: string[]): WhitelistEntry[] {
-    const pattern = /^(discord|misskey)\/(account|channel)\/(\S+)$/;
+    const pattern = new RegExp(`^(${PLATFORMS.join("|")})\\/(account|channel)\\/(\\S+)$`);
     const entries: WhitelistEntry[] = [];
 
     for (const raw of whitelist) {
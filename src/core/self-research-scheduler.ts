@@ -68,6 +68,41 @@ export class SelfResearchScheduler {
     logger.info("Self-research scheduler stopped");
   }
 
+  /**
+   * Apply changed self-research settings (config reload): the pending session is
+   * rescheduled with the current intervals. A session in progress schedules the next
+   * one when it completes.
+   */
+  reschedule(): void {
+    if (this.timerId !== null) {
+      clearTimeout(this.timerId);
+      this.timerId = null;
+    }
+    this.started = this.config.selfResearch?.enabled ?? false;
+    this.nextScheduledAt = null;
+
+    if (this.started && !this.isRunning) {
+      this.scheduleNext();
+    }
+    logger.info("Self-research scheduler rescheduled", { enabled: this.started });
+  }
+
+  /**
+   * Start a self-research session now instead of when the timer fires (admin command).
+   * The next session is scheduled when this one completes.
+   * @returns false when self-research is disabled or a session is in progress
+   */
+  runNow(): boolean {
+    if (!this.started || this.isRunning || !this.callback) return false;
+
+    if (this.timerId !== null) {
+      clearTimeout(this.timerId);
+      this.timerId = null;
+    }
+    this.execute();
+    return true;
+  }
+
   /**
    * Get the current status of the scheduler.
    */
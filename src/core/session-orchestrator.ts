@@ -1,24 +1,56 @@
 // src/core/session-orchestrator.ts
 
 import { createLogger } from "@utils/logger.ts";
-import { activeSessionsGauge, sessionDurationSeconds, sessionsTotal } from "@utils/metrics.ts";
+import {
+  activeSessionsGauge,
+  agentFallbacksTotal,
+  agentSessionsTotal,
+  sessionDurationSeconds,
+  sessionsTotal,
+} from "@utils/metrics.ts";
 import { AgentConnector } from "@acp/agent-connector.ts";
+import { AgentPool, type ConnectorFactory, DEFAULT_AGENT_POOL } from "@acp/agent-pool.ts";
 import * as acp from "@agentclientprotocol/sdk";
 import {
   createAgentConfig,
+  getAgentTypes,
   getDefaultAgentType,
   getRetryPromptStrategy,
+  isAgentUnavailableError,
 } from "@acp/agent-factory.ts";
 import { ContextAssembler } from "./context-assembler.ts";
 import { WorkspaceManager } from "./workspace-manager.ts";
 import { MemoryStore } from "./memory-store.ts";
-import { loadPromptFragments, replacePlaceholders } from "./config-loader.ts";
+import {
+  AGENT_CAPACITY_ERROR,
+  AgentLimiter,
+  DEFAULT_AGENT_CONCURRENCY,
+  SessionPriority,
+} from "./agent-limiter.ts";
+import {
+  AgentSessionStore,
+  DEFAULT_SESSION_RESUME,
+  type StoredAgentSession,
+} from "./agent-session-store.ts";
+import { createPromptVariables, loadPromptTemplate } from "./prompt-template.ts";
+import { type CancelRequest, matchesCancelRequest } from "./session-queue.ts";
+import { type SessionRoute, SessionRouter } from "./session-router.ts";
 import type { SkillRegistry } from "@skills/registry.ts";
 import type { SessionRegistry } from "../skill-api/session-registry.ts";
-import type { Config, MemoryMaintenanceConfig, SelfResearchConfig } from "../types/config.ts";
-import type { NormalizedEvent, Platform } from "../types/events.ts";
+import type {
+  Config,
+  MemoryMaintenanceConfig,
+  SelfResearchConfig,
+  SessionResumeConfig,
+} from "../types/config.ts";
+import type { AssembledContext, FormattedContext } from "../types/context.ts";
+import { ConfigError } from "../types/errors.ts";
+import { getAccountKey, type NormalizedEvent, type Platform } from "../types/events.ts";
 import type { PlatformAdapter } from "@platforms/platform-adapter.ts";
-import type { AgentConnectorOptions, ClientConfig } from "@acp/types.ts";
+import { ReplyDraft } from "@platforms/reply-draft.ts";
+import { ShadowPlatformAdapter } from "@platforms/shadow-adapter.ts";
+import type { TypingIndicator } from "../types/platform.ts";
+import type { AgentConnectorOptions, AgentType, ClientConfig } from "@acp/types.ts";
 import { dirname, join } from "@std/path";
 import type { RssItem } from "@utils/rss-fetcher.ts";
 import type { WorkspaceInfo } from "../types/workspace.ts";
@@ -31,6 +63,32 @@ const MAX_IMAGE_SIZE_BYTES = 20 * 1024 * 1024;
 /** Timeout for image download in milliseconds */
 const IMAGE_FETCH_TIMEOUT_MS = 10_000;
 
+/** Prompt files of self-research and memory maintenance sessions, next to the system prompt */
+const SELF_RESEARCH_PROMPT_FILE = "system_self_research.md";
+const MEMORY_MAINTENANCE_PROMPT_FILE = "system_memory_maintenance.md";
+
+/**
+ * Prompt templates a configuration refers to: the system prompts of the agent, personas and
+ * routing rules, and the prompts of the enabled background sessions
+ */
+export function getPromptTemplatePaths(config: Config): string[] {
+  // Each persona reads its background session prompts next to its own system prompt
+  const promptDirs = [
+    config.agent.systemPromptPath,
+    ...(config.personas ?? []).map((persona) => persona.systemPromptPath),
+  ].filter((path): path is string => path !== undefined).map((path) => dirname(path));
+  const paths = [
+    config.agent.systemPromptPath,
+    ...(config.personas ?? []).map((persona) => persona.systemPromptPath),
+    ...(config.routing?.rules ?? []).map((rule) => rule.systemPromptPath),
+    ...promptDirs.flatMap((dir) => [
+      config.selfResearch?.enabled ? join(dir, SELF_RESEARCH_PROMPT_FILE) : undefined,
+      config.memoryMaintenance?.enabled ? join(dir, MEMORY_MAINTENANCE_PROMPT_FILE) : undefined,
+    ]),
+  ];
+  return [...new Set(paths.filter((path): path is string => path !== undefined))];
+}
+
 /**
  * Response from a session
  */
@@ -39,6 +97,54 @@ export interface SessionResponse {
   replySent: boolean;
   reactionSent?: boolean;
   error?: string;
+  /** The message was answered by a session triggered by a later message of the same channel */
+  coalesced?: boolean;
+  /** The user stopped the session (see SessionOrchestrator.cancelSession) */
+  cancelled?: boolean;
+}
+
+/**
+ * Response of a session stopped by the user
+ */
+const CANCELLED_RESPONSE: SessionResponse = {
+  success: false,
+  replySent: false,
+  cancelled: true,
+  error: "Session was cancelled",
+};
+
+/**
+ * Message session in progress, which its users can stop
+ */
+interface RunningSession {
+  event: NormalizedEvent;
+  cancel: AbortController;
+}
+
+/**
+ * What an agent needs to answer a message, prepared once for the whole fallback chain
+ */
+interface AgentSessionInput {
+  event: NormalizedEvent;
+  workspace: WorkspaceInfo;
+  agentWorkspacePath: string;
+  clientConfig: ClientConfig;
+  context: AssembledContext;
+  formattedContext: FormattedContext;
+  fullPrompt: string;
+  shellSessionId: string | null;
+  cancel: AbortController;
+  route: SessionRoute;
+}
+
+/**
+ * Hooks of a fallback chain
+ */
+interface AgentFallbackOptions {
+  /** Whether the session may still move to the next agent type (default: always) */
+  canFallBack?: () => boolean;
+  /** Called before running the next agent type */
+  onFallBack?: () => void;
 }
 
 /**
@@ -53,6 +159,14 @@ export class SessionOrchestrator {
   private memoryStore: MemoryStore;
   private config: Config;
   private yolo: boolean;
+  private agentLimiter: AgentLimiter;
+  private agentPool: AgentPool;
+  private agentSessionStore: AgentSessionStore;
+  private sessionResumeConfig: SessionResumeConfig;
+  private sessionRouter: SessionRouter;
+  private connectorFactory: ConnectorFactory;
+  /** Message sessions in progress, keyed by platform and channel */
+  private runningSessions = new Map<string, RunningSession>();
 
   constructor(
     workspaceManager: WorkspaceManager,
@@ -62,6 +176,7 @@ export class SessionOrchestrator {
     sessionRegistry: SessionRegistry,
     memoryStore: MemoryStore,
     yolo = false,
+    connectorFactory: ConnectorFactory = (options) => new AgentConnector(options),
   ) {
     this.workspaceManager = workspaceManager;
     this.contextAssembler = contextAssembler;
@@ -70,6 +185,119 @@ export class SessionOrchestrator {
     this.memoryStore = memoryStore;
     this.config = config;
     this.yolo = yolo;
+    this.connectorFactory = connectorFactory;
+    this.agentLimiter = new AgentLimiter(config.agentConcurrency ?? DEFAULT_AGENT_CONCURRENCY);
+    this.agentPool = new AgentPool(
+      config.agentPool ?? DEFAULT_AGENT_POOL,
+      (options) => this.createConnector(options),
+      () => this.agentLimiter.getStatus(),
+    );
+    this.agentSessionStore = new AgentSessionStore(workspaceManager);
+    this.sessionResumeConfig = config.sessionResume ?? DEFAULT_SESSION_RESUME;
+    this.sessionRouter = new SessionRouter(config);
+  }
+
+  /**
+   * Get the limiter of concurrent agent processes
+   */
+  getAgentLimiter(): AgentLimiter {
+    return this.agentLimiter;
+  }
+
+  /**
+   * Get the pool of warm agent processes used by message sessions
+   */
+  getAgentPool(): AgentPool {
+    return this.agentPool;
+  }
+
+  /**
+   * Load every prompt template the configuration refers to, so that template errors
+   * stop the startup instead of failing sessions later
+   */
+  async loadPromptTemplates(): Promise<void> {
+    const paths = getPromptTemplatePaths(this.config);
+    for (const path of paths) {
+      await this.contextAssembler.getPromptTemplate(path);
+    }
+    logger.info("Prompt templates loaded", { count: paths.length });
+  }
+
+  /**
+   * Reload the prompt templates after prompt files changed. The cached templates stay
+   * in use when a template is broken.
+   * @throws ConfigError of the first broken template
+   */
+  async reloadPromptTemplates(): Promise<void> {
+    await Promise.all(getPromptTemplatePaths(this.config).map((path) => loadPromptTemplate(path)));
+    this.contextAssembler.invalidateSystemPromptCache();
+    await this.loadPromptTemplates();
+  }
+
+  /**
+   * Apply the reloaded configuration, which is updated in place, to the settings
+   * derived from it
+   */
+  applyConfig(): void {
+    this.sessionRouter = new SessionRouter(this.config);
+    this.sessionResumeConfig = this.config.sessionResume ?? DEFAULT_SESSION_RESUME;
+  }
+
+  /**
+   * Start the warm agent processes of the default agent type ahead of the first message
+   */
+  async warmUpAgentPool(): Promise<void> {
+    if (!this.config.agentPool?.enabled) return;
+
+    const agentWorkspacePath = await this.workspaceManager.getOrCreateAgentWorkspace();
+    const agentType = getDefaultAgentType(this.config);
+    await this.agentPool.warmUp(agentType, {
+      agentConfig: createAgentConfig(
+        agentType,
+        agentWorkspacePath,
+        this.config,
+        this.yolo,
+        agentWorkspacePath,
+      ),
+      clientConfig: {
+        workingDir: agentWorkspacePath,
+        agentWorkspacePath,
+        platform: "",
+        userId: "",
+        channelId: "",
+        isDM: false,
+        yolo: this.yolo,
+      },
+      skillRegistry: this.skillRegistry,
+      logger,
+    });
+  }
+
+  /**
+   * Stop the message session of a channel on behalf of a user.
+   * The agent is asked to cancel its prompt turn, and skill calls of the session are
+   * rejected from now on.
+   * @returns Whether the request matched a running session
+   */
+  cancelSession(request: CancelRequest): boolean {
+    const running = this.runningSessions.get(
+      `${getAccountKey(request.platform, request.persona)}:${request.channelId}`,
+    );
+    if (
+      !running || running.cancel.signal.aborted || !matchesCancelRequest(running.event, request)
+    ) {
+      return false;
+    }
+
+    logger.info("Cancelling session in {channelId}: {reason}", {
+      platform: request.platform,
+      channelId: request.channelId,
+      messageId: running.event.messageId,
+      userId: request.userId,
+      reason: request.reason,
+    });
+    running.cancel.abort();
+    return true;
   }
 
   /**
@@ -78,8 +306,9 @@ export class SessionOrchestrator {
   async processMessage(
     event: NormalizedEvent,
     platformAdapter: PlatformAdapter,
+    priority: SessionPriority = SessionPriority.Message,
   ): Promise<SessionResponse> {
-    const sessionLoggerName = `${event.platform}:${event.channelId}`;
+    const sessionLoggerName = `${getAccountKey(event.platform, event.persona)}:${event.channelId}`;
     const sessionLogger = logger.child(sessionLoggerName);
 
     sessionLogger.info("Processing message", {
@@ -99,14 +328,53 @@ export class SessionOrchestrator {
       };
     }
 
+    // Sessions can be stopped from here on, even while waiting for an agent slot
+    const cancel = new AbortController();
+    this.runningSessions.set(sessionLoggerName, { event, cancel });
+
+    const slot = await this.agentLimiter.acquire(priority, sessionLoggerName);
+    if (!slot || cancel.signal.aborted) {
+      this.runningSessions.delete(sessionLoggerName);
+      if (!slot) {
+        return await this.rejectBusyMessage(event, platformAdapter, sessionLogger);
+      }
+      slot.release();
+      sessionLogger.info("Session cancelled before it started");
+      sessionsTotal.labels(event.platform, "message", "cancelled").inc();
+      return CANCELLED_RESPONSE;
+    }
+
     const sessionStartTime = Date.now();
     activeSessionsGauge.inc();
     let result: SessionResponse;
+    /** Agent type that ran (or last tried to run) the session */
+    let agentType: AgentType | null = null;
+    const typingIndicator = await this.startTypingIndicator(event, platformAdapter, sessionLogger);
+    // Only send-reply can turn a draft into the reply, so streaming needs the skill API.
+    // Shadowed sessions do not stream: each draft edit would be a review log entry.
+    const replyDraft = this.config.skillApi?.enabled &&
+        this.getPlatformConfig(event)?.streamReplies &&
+        !(platformAdapter instanceof ShadowPlatformAdapter)
+      ? new ReplyDraft(platformAdapter, event.channelId, event.messageId)
+      : null;
 
     try {
+      // Settings of the routing rule matching the message
+      const route = this.sessionRouter.resolve(event);
+      if (route.rule) {
+        sessionLogger.info("Routing rule {rule} applies", {
+          rule: route.rule,
+          agentTypes: route.agentTypes,
+          model: route.model,
+          context: route.context,
+        });
+      }
+
       // 1. Get or create workspace
       const workspace = await this.workspaceManager.getOrCreateWorkspace(event);
-      const agentWorkspacePath = await this.workspaceManager.getOrCreateAgentWorkspace();
+      const agentWorkspacePath = await this.workspaceManager.getOrCreateAgentWorkspace(
+        event.persona,
+      );
       sessionLogger.debug("Workspace ready", {
         workspaceKey: workspace.key,
         workingDir: workspace.path,
@@ -127,6 +395,8 @@ export class SessionOrchestrator {
           triggerEvent: event,
           timeoutMs: this.config.skillApi.sessionTimeoutMs,
           agentWorkspacePath,
+          typingIndicator: typingIndicator ?? undefined,
+          replyDraft: replyDraft ?? undefined,
         });
 
         // Create SESSION_ID file in workspace
@@ -137,6 +407,10 @@ export class SessionOrchestrator {
           shellSessionId,
           sessionIdFile,
         });
+
+        // A cancelled session must not reply anymore
+        const registeredId = shellSessionId;
+        cancel.signal.addEventListener("abort", () => this.sessionRegistry.remove(registeredId));
       }
 
       // 3. Assemble initial context
@@ -144,6 +418,7 @@ export class SessionOrchestrator {
         event,
         workspace,
         platformAdapter,
+        route.context,
       );
       sessionLogger.debug("Context assembled", {
         memoriesCount: context.importantMemories.length,
@@ -153,7 +428,7 @@ export class SessionOrchestrator {
       });
 
       // 3. Format context for prompt
-      const formattedContext = this.contextAssembler.formatContext(context);
+      const formattedContext = this.contextAssembler.formatContext(context, route.context);
       const fullPrompt = this.buildPrompt(formattedContext, shellSessionId);
 
       sessionLogger.debug("Prompt built", {
@@ -173,170 +448,45 @@ export class SessionOrchestrator {
         channelId: event.channelId,
         isDM: event.isDm,
         yolo: this.yolo,
+        replyDraft: replyDraft ?? undefined,
       };
 
-      // 5. Build ACP connector
-      const agentType = getDefaultAgentType(this.config);
-      const connector = this.createConnector({
-        agentConfig: createAgentConfig(
-          agentType,
-          workspace.path,
-          this.config,
-          this.yolo,
-          agentWorkspacePath,
-        ),
-        clientConfig,
-        skillRegistry: this.skillRegistry,
-        logger: sessionLogger,
-      });
+      // 5. Answer with the first agent of the fallback chain that is available
+      const replyHandler = this.skillRegistry.getReplyHandler();
+      const reactionHandler = this.skillRegistry.getReactionHandler();
+      replyHandler.clearReplyState(workspace.key, event.channelId);
+      reactionHandler.clearReactionState(workspace.key, event.channelId);
 
-      // 6. Execute agent session
       try {
-        await connector.connect();
-        sessionLogger.info("Agent connected");
-
-        // Check Agent image capability
-        const supportsImage = connector.supportsImageContent();
-        sessionLogger.info("Agent capabilities checked", { supportsImage });
-
-        const sessionId = await connector.createSession();
-        sessionLogger.info("Agent session {sessionId} created", { sessionId });
-
-        // Set the model for the session
-        await connector.setSessionModel(sessionId, this.config.agent.model);
-        sessionLogger.info("Agent session {sessionId} model set to {model}", {
-          sessionId,
-          model: this.config.agent.model,
-        });
-
-        // Clear reply state before prompting
-        const replyHandler = this.skillRegistry.getReplyHandler();
-        replyHandler.clearReplyState(workspace.key, event.channelId);
-
-        // Clear reaction state before prompting
-        const reactionHandler = this.skillRegistry.getReactionHandler();
-        reactionHandler.clearReactionState(workspace.key, event.channelId);
-
-        // Send prompt to agent (with image ContentBlocks if supported)
-        const promptContent = await this.buildPromptContent(
-          fullPrompt,
-          supportsImage,
-          event,
+        result = await this.withAgentFallback(
+          route.agentTypes,
+          (nextAgentType) => {
+            agentType = nextAgentType;
+            return this.runAgentSession(nextAgentType, {
+              event,
+              workspace,
+              agentWorkspacePath,
+              clientConfig,
+              context,
+              formattedContext,
+              fullPrompt,
+              shellSessionId,
+              cancel,
+              route,
+            }, sessionLogger);
+          },
           sessionLogger,
+          {
+            // Falling back after a reply went out would answer the message twice
+            canFallBack: () =>
+              !replyHandler.hasReplySent(workspace.key, event.channelId) &&
+              !reactionHandler.hasReactionSent(workspace.key, event.channelId) &&
+              !cancel.signal.aborted,
+            onFallBack: () => replyDraft?.restart(),
+          },
         );
-        const response = await connector.prompt(sessionId, promptContent);
-        sessionLogger.info("Agent session {sessionId} completed with stopReason {stopReason}", {
-          sessionId,
-          stopReason: response.stopReason,
-        });
-
-        // Check if reply or reaction was sent
-        let replySent = replyHandler.hasReplySent(workspace.key, event.channelId);
-        let reactionSent = reactionHandler.hasReactionSent(workspace.key, event.channelId);
-
-        // Agent has responded if it sent a reply OR a reaction
-        let hasResponded = replySent || reactionSent;
-
-        // If agent completed without any response (no reply AND no reaction), retry
-        if (!hasResponded && response.stopReason === "end_turn") {
-          sessionLogger.warn(
-            "Agent completed without sending reply or reaction, retrying with special prompt",
-          );
-
-          const retryStrategy = getRetryPromptStrategy(agentType);
-
-          for (let attempt = 0; attempt < retryStrategy.maxRetries; attempt++) {
-            // Clear reply state to allow retry (reaction state is NOT cleared)
-            replyHandler.clearReplyState(workspace.key, event.channelId);
-
-            sessionLogger.info("Sending retry prompt", {
-              sessionId,
-              attempt: attempt + 1,
-              maxRetries: retryStrategy.maxRetries,
-            });
-
-            // Send retry prompt on the same session
-            const retryResponse = await connector.prompt(
-              sessionId,
-              retryStrategy.retryPromptMessage,
-            );
-
-            sessionLogger.info("Retry prompt completed", {
-              sessionId,
-              attempt: attempt + 1,
-              stopReason: retryResponse.stopReason,
-            });
-
-            // Check if reply or reaction was sent after retry
-            replySent = replyHandler.hasReplySent(workspace.key, event.channelId);
-            reactionSent = reactionHandler.hasReactionSent(workspace.key, event.channelId);
-            hasResponded = replySent || reactionSent;
-
-            if (hasResponded) {
-              sessionLogger.info("Response sent after retry", {
-                sessionId,
-                attempt: attempt + 1,
-                replySent,
-                reactionSent,
-              });
-              break;
-            }
-
-            // If the retry was cancelled or had unexpected stop reason, stop retrying
-            if (retryResponse.stopReason !== "end_turn") {
-              sessionLogger.warn("Retry stopped with unexpected stop reason", {
-                sessionId,
-                stopReason: retryResponse.stopReason,
-              });
-              break;
-            }
-          }
-
-          // Re-evaluate after retry
-          replySent = replyHandler.hasReplySent(workspace.key, event.channelId);
-          reactionSent = reactionHandler.hasReactionSent(workspace.key, event.channelId);
-          hasResponded = replySent || reactionSent;
-        }
-
-        if (hasResponded) {
-          result = {
-            success: true,
-            replySent,
-            reactionSent,
-          };
-          return result;
-        }
-
-        // Agent completed but didn't send reply or reaction even after retry
-        if (response.stopReason === "end_turn") {
-          sessionLogger.warn("Agent completed without sending reply after retry");
-          result = {
-            success: false,
-            replySent: false,
-            error: "Agent did not generate a reply",
-          };
-          return result;
-        }
-
-        if (response.stopReason === "cancelled") {
-          result = {
-            success: false,
-            replySent: false,
-            error: "Session was cancelled",
-          };
-          return result;
-        }
-
-        result = {
-          success: false,
-          replySent: false,
-          error: `Unexpected stop reason: ${response.stopReason}`,
-        };
         return result;
       } finally {
-        await connector.disconnect();
-        sessionLogger.debug("Agent disconnected");
-
         // Clean up shell session if it exists
         if (shellSessionId) {
           this.sessionRegistry.remove(shellSessionId);
@@ -358,6 +508,15 @@ export class SessionOrchestrator {
         }
       }
     } catch (error) {
+      // Agents may fail the prompt instead of ending it when cancelled
+      if (cancel.signal.aborted) {
+        sessionLogger.info("Session cancelled", {
+          error: error instanceof Error ? error.message : String(error),
+        });
+        result = CANCELLED_RESPONSE;
+        return result;
+      }
+
       sessionLogger.error("Session failed", {
         error: error instanceof Error ? error.message : String(error),
       });
@@ -368,17 +527,353 @@ export class SessionOrchestrator {
       };
       return result;
     } finally {
+      this.runningSessions.delete(sessionLoggerName);
+      await typingIndicator?.stop();
+      // A draft that did not become the reply must not stay in the channel
+      await replyDraft?.discard();
+      slot.release();
       activeSessionsGauge.dec();
       const durationSec = (Date.now() - sessionStartTime) / 1000;
-      const status = result!.success ? "success" : "failure";
+      const status = result!.cancelled ? "cancelled" : result!.success ? "success" : "failure";
       sessionsTotal.labels(event.platform, "message", status).inc();
       sessionDurationSeconds.labels(event.platform, "message", status).observe(durationSec);
+      if (agentType) {
+        agentSessionsTotal.inc({ agent_type: agentType, status });
+      }
+    }
+  }
+
+  /**
+   * Run a session with the first available agent type of a fallback chain.
+   * Moves to the next agent type when one fails with a ConfigError or cannot start.
+   */
+  private async withAgentFallback<T>(
+    agentTypes: AgentType[],
+    run: (agentType: AgentType) => Promise<T>,
+    sessionLogger: ReturnType<typeof logger.child>,
+    options: AgentFallbackOptions = {},
+  ): Promise<T> {
+    for (let i = 0;; i++) {
+      const agentType = agentTypes[i];
+      try {
+        return await run(agentType);
+      } catch (error) {
+        const nextAgentType = agentTypes[i + 1];
+        if (
+          !nextAgentType || options.canFallBack?.() === false ||
+          !(error instanceof ConfigError || isAgentUnavailableError(error))
+        ) {
+          throw error;
+        }
+
+        sessionLogger.warn("Agent {agentType} unavailable, falling back to {nextAgentType}", {
+          agentType,
+          nextAgentType,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        agentFallbacksTotal.inc({ from: agentType, to: nextAgentType });
+        options.onFallBack?.();
+      }
+    }
+  }
+
+  /**
+   * Run the agent session of a message with one agent type.
+   * Retries once with a special prompt when the agent ends its turn without responding.
+   */
+  private async runAgentSession(
+    agentType: AgentType,
+    session: AgentSessionInput,
+    sessionLogger: ReturnType<typeof logger.child>,
+  ): Promise<SessionResponse> {
+    const {
+      event,
+      workspace,
+      agentWorkspacePath,
+      clientConfig,
+      context,
+      formattedContext,
+      fullPrompt,
+      shellSessionId,
+      cancel,
+      route,
+    } = session;
+
+    // Get an ACP connector, warm from the pool when possible
+    const lease = await this.agentPool.acquire(agentType, {
+      agentConfig: createAgentConfig(
+        agentType,
+        workspace.path,
+        this.config,
+        this.yolo,
+        agentWorkspacePath,
+      ),
+      clientConfig,
+      skillRegistry: this.skillRegistry,
+      logger: sessionLogger,
+    });
+    const connector = lease.connector;
+    let agentFailed = false;
+    let cancelPrompt: (() => void) | undefined;
+
+    try {
+      sessionLogger.info("Agent {agentType} connected", { agentType, warm: lease.warm });
+
+      // Check Agent image capability
+      const supportsImage = connector.supportsImageContent();
+      sessionLogger.info("Agent capabilities checked", { supportsImage });
+
+      // Resume the channel's previous ACP session or start a new one
+      const resumed = await this.resumeAgentSession(
+        connector,
+        agentType,
+        route,
+        workspace,
+        event.channelId,
+        context,
+        sessionLogger,
+      );
+      const sessionId = resumed?.sessionId ?? await connector.createSession();
+      sessionLogger.info(
+        resumed ? "Agent session {sessionId} resumed" : "Agent session {sessionId} created",
+        { sessionId },
+      );
+
+      // Set the model for the session
+      await connector.setSessionModel(sessionId, route.model);
+      sessionLogger.info("Agent session {sessionId} model set to {model}", {
+        sessionId,
+        model: route.model,
+      });
+
+      const replyHandler = this.skillRegistry.getReplyHandler();
+      const reactionHandler = this.skillRegistry.getReactionHandler();
+
+      // A resumed session only needs the messages sent since its last turn
+      let prompt = fullPrompt;
+      if (resumed) {
+        const resumeContext = this.contextAssembler.formatResumeContext(
+          context,
+          new Date(resumed.contextAt),
+          route.context,
+        );
+        prompt = this.buildPrompt(resumeContext, shellSessionId);
+        sessionLogger.info("Resume prompt built", {
+          estimatedTokens: resumeContext.estimatedTokens,
+          fullContextTokens: formattedContext.estimatedTokens,
+        });
+      }
+
+      // Send prompt to agent (with image ContentBlocks if supported)
+      const promptContent = await this.buildPromptContent(
+        prompt,
+        supportsImage,
+        event,
+        sessionLogger,
+      );
+      if (cancel.signal.aborted) {
+        sessionLogger.info("Session cancelled before the prompt");
+        return CANCELLED_RESPONSE;
+      }
+      cancelPrompt = () => {
+        connector.cancel(sessionId).catch((error) => {
+          sessionLogger.warn("Failed to cancel agent session {sessionId}", {
+            sessionId,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        });
+      };
+      cancel.signal.addEventListener("abort", cancelPrompt, { once: true });
+
+      const response = await connector.prompt(sessionId, promptContent);
+      sessionLogger.info("Agent session {sessionId} completed with stopReason {stopReason}", {
+        sessionId,
+        stopReason: response.stopReason,
+      });
+
+      await this.storeAgentSession(
+        connector,
+        agentType,
+        route,
+        workspace,
+        event.channelId,
+        sessionId,
+        context.assembledAt,
+        sessionLogger,
+      );
+
+      // Check if reply or reaction was sent
+      let replySent = replyHandler.hasReplySent(workspace.key, event.channelId);
+      let reactionSent = reactionHandler.hasReactionSent(workspace.key, event.channelId);
+
+      // Agent has responded if it sent a reply OR a reaction
+      let hasResponded = replySent || reactionSent;
+
+      // If agent completed without any response (no reply AND no reaction), retry
+      if (!hasResponded && response.stopReason === "end_turn" && !cancel.signal.aborted) {
+        sessionLogger.warn(
+          "Agent completed without sending reply or reaction, retrying with special prompt",
+        );
+
+        const retryStrategy = getRetryPromptStrategy(agentType);
+
+        for (let attempt = 0; attempt < retryStrategy.maxRetries; attempt++) {
+          // Clear reply state to allow retry (reaction state is NOT cleared)
+          replyHandler.clearReplyState(workspace.key, event.channelId);
+
+          sessionLogger.info("Sending retry prompt", {
+            sessionId,
+            attempt: attempt + 1,
+            maxRetries: retryStrategy.maxRetries,
+          });
+
+          // Send retry prompt on the same session
+          const retryResponse = await connector.prompt(
+            sessionId,
+            retryStrategy.retryPromptMessage,
+          );
+
+          sessionLogger.info("Retry prompt completed", {
+            sessionId,
+            attempt: attempt + 1,
+            stopReason: retryResponse.stopReason,
+          });
+
+          // Check if reply or reaction was sent after retry
+          replySent = replyHandler.hasReplySent(workspace.key, event.channelId);
+          reactionSent = reactionHandler.hasReactionSent(workspace.key, event.channelId);
+          hasResponded = replySent || reactionSent;
+
+          if (hasResponded) {
+            sessionLogger.info("Response sent after retry", {
+              sessionId,
+              attempt: attempt + 1,
+              replySent,
+              reactionSent,
+            });
+            break;
+          }
+
+          // If the retry was cancelled or had unexpected stop reason, stop retrying
+          if (retryResponse.stopReason !== "end_turn" || cancel.signal.aborted) {
+            sessionLogger.warn("Retry stopped with unexpected stop reason", {
+              sessionId,
+              stopReason: retryResponse.stopReason,
+            });
+            break;
+          }
+        }
+
+        // Re-evaluate after retry
+        replySent = replyHandler.hasReplySent(workspace.key, event.channelId);
+        reactionSent = reactionHandler.hasReactionSent(workspace.key, event.channelId);
+        hasResponded = replySent || reactionSent;
+      }
+
+      if (hasResponded) {
+        return {
+          success: true,
+          replySent,
+          reactionSent,
+        };
+      }
+
+      if (response.stopReason === "cancelled" || cancel.signal.aborted) {
+        sessionLogger.info("Session cancelled");
+        return CANCELLED_RESPONSE;
+      }
+
+      // Agent completed but didn't send reply or reaction even after retry
+      if (response.stopReason === "end_turn") {
+        sessionLogger.warn("Agent completed without sending reply after retry");
+        return {
+          success: false,
+          replySent: false,
+          error: "Agent did not generate a reply",
+        };
+      }
+
+      return {
+        success: false,
+        replySent: false,
+        error: `Unexpected stop reason: ${response.stopReason}`,
+      };
+    } catch (error) {
+      agentFailed = true;
+      throw error;
+    } finally {
+      // The pooled process may serve another session: a later abort must not reach it
+      if (cancelPrompt) cancel.signal.removeEventListener("abort", cancelPrompt);
+      await lease.release(!agentFailed);
+      sessionLogger.debug("Agent released");
+    }
+  }
+
+  /**
+   * Config of the platform account an event arrived on
+   */
+  private getPlatformConfig(event: NormalizedEvent) {
+    const platforms = event.persona
+      ? this.config.personas?.find((persona) => persona.name === event.persona)?.platforms
+      : this.config.platforms;
+    return platforms?.[event.platform];
+  }
+
+  /**
+   * Answer a message rejected for lack of agent capacity with the busy reaction
+   */
+  private async rejectBusyMessage(
+    event: NormalizedEvent,
+    platformAdapter: PlatformAdapter,
+    sessionLogger: ReturnType<typeof logger.child>,
+  ): Promise<SessionResponse> {
+    const busyReaction = (this.config.agentConcurrency ?? DEFAULT_AGENT_CONCURRENCY).busyReaction;
+    let reactionSent = false;
+
+    if (busyReaction && platformAdapter.capabilities.supportsReactions) {
+      const reaction = await platformAdapter.addReaction(
+        event.channelId,
+        event.messageId,
+        busyReaction,
+      );
+      reactionSent = reaction.success;
+      if (!reaction.success) {
+        sessionLogger.warn("Failed to add busy reaction", { error: reaction.error });
+      }
+    }
+
+    return { success: false, replySent: false, reactionSent, error: AGENT_CAPACITY_ERROR };
+  }
+
+  /**
+   * Start the platform's typing indicator for a message, if it has one.
+   * The indicator is cosmetic: failing to start it never fails the session.
+   */
+  private async startTypingIndicator(
+    event: NormalizedEvent,
+    platformAdapter: PlatformAdapter,
+    sessionLogger: ReturnType<typeof logger.child>,
+  ): Promise<TypingIndicator | null> {
+    if (!platformAdapter.capabilities.supportsTypingIndicator) {
+      return null;
+    }
+
+    try {
+      return await platformAdapter.startTypingIndicator?.(event.channelId, event.messageId) ??
+        null;
+    } catch (error) {
+      sessionLogger.warn("Failed to start typing indicator", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return null;
     }
   }
 
   /**
    * Process a spontaneous post without a user-triggered event.
    * Used by the SpontaneousScheduler to create unprompted posts.
+   * The post is written by the persona of the posting account (options.persona, unset for
+   * the default persona), with its workspace, agent workspace and settings.
    */
   async processSpontaneousPost(
     platform: Platform,
@@ -387,17 +882,27 @@ export class SessionOrchestrator {
     options: {
       botId: string;
       fetchRecentMessages: boolean;
+      persona?: string;
     },
   ): Promise<SessionResponse> {
-    const sessionLoggerName = `spontaneous:${platform}:${channelId}`;
+    const sessionLoggerName = `spontaneous:${
+      getAccountKey(platform, options.persona)
+    }:${channelId}`;
     const sessionLogger = logger.child(sessionLoggerName);
+    const route = this.sessionRouter.resolvePersona(options.persona);
 
     sessionLogger.info("Processing spontaneous post", {
       platform,
       channelId,
+      persona: options.persona,
       fetchRecentMessages: options.fetchRecentMessages,
     });
 
+    const slot = await this.agentLimiter.acquire(SessionPriority.Spontaneous, sessionLoggerName);
+    if (!slot) {
+      return { success: false, replySent: false, error: AGENT_CAPACITY_ERROR };
+    }
+
     const sessionStartTime = Date.now();
     activeSessionsGauge.inc();
     let result: SessionResponse;
@@ -409,13 +914,16 @@ export class SessionOrchestrator {
         channelId,
         userId: options.botId,
         messageId: `spontaneous_${Date.now()}`,
+        persona: options.persona,
         isDm: false,
         guildId: "",
         content: "",
         timestamp: new Date(),
       };
       const workspace = await this.workspaceManager.getOrCreateWorkspace(botEvent);
-      const agentWorkspacePath = await this.workspaceManager.getOrCreateAgentWorkspace();
+      const agentWorkspacePath = await this.workspaceManager.getOrCreateAgentWorkspace(
+        options.persona,
+      );
 
       // 2. Register session WITHOUT triggerEvent
       let shellSessionId: string | null = null;
@@ -443,7 +951,11 @@ export class SessionOrchestrator {
         channelId,
         workspace,
         platformAdapter,
-        { fetchRecentMessages: options.fetchRecentMessages },
+        {
+          fetchRecentMessages: options.fetchRecentMessages,
+          persona: options.persona,
+          systemPromptPath: route.context.systemPromptPath,
+        },
       );
 
       // 4. Format context
@@ -465,70 +977,77 @@ export class SessionOrchestrator {
         yolo: this.yolo,
       };
 
-      // 6. Build and execute ACP connector
-      const agentType = getDefaultAgentType(this.config);
-      const connector = this.createConnector({
-        agentConfig: createAgentConfig(
-          agentType,
-          workspace.path,
-          this.config,
-          this.yolo,
-          agentWorkspacePath,
-        ),
-        clientConfig,
-        skillRegistry: this.skillRegistry,
-        logger: sessionLogger,
-      });
+      // 6. Post with the first agent of the fallback chain that is available
+      const replyHandler = this.skillRegistry.getReplyHandler();
+      replyHandler.clearReplyState(workspace.key, channelId);
 
       try {
-        await connector.connect();
-        sessionLogger.info("Agent connected");
+        result = await this.withAgentFallback(
+          route.agentTypes,
+          async (agentType) => {
+            const connector = this.createConnector({
+              agentConfig: createAgentConfig(
+                agentType,
+                workspace.path,
+                this.config,
+                this.yolo,
+                agentWorkspacePath,
+              ),
+              clientConfig,
+              skillRegistry: this.skillRegistry,
+              logger: sessionLogger,
+            });
 
-        const sessionId = await connector.createSession();
-        await connector.setSessionModel(sessionId, this.config.agent.model);
+            try {
+              await connector.connect();
+              sessionLogger.info("Agent connected");
 
-        // Clear reply state
-        const replyHandler = this.skillRegistry.getReplyHandler();
-        replyHandler.clearReplyState(workspace.key, channelId);
+              const sessionId = await connector.createSession();
+              await connector.setSessionModel(sessionId, route.model);
 
-        // Send prompt
-        const response = await connector.prompt(sessionId, fullPrompt);
-        sessionLogger.info("Agent session completed with stopReason {stopReason}", {
-          stopReason: response.stopReason,
-        });
+              // Send prompt
+              const response = await connector.prompt(sessionId, fullPrompt);
+              sessionLogger.info("Agent session completed with stopReason {stopReason}", {
+                stopReason: response.stopReason,
+              });
 
-        let replySent = replyHandler.hasReplySent(workspace.key, channelId);
+              let replySent = replyHandler.hasReplySent(workspace.key, channelId);
 
-        // Retry if no reply sent
-        if (!replySent && response.stopReason === "end_turn") {
-          sessionLogger.warn("Agent completed without reply, retrying");
+              // Retry if no reply sent
+              if (!replySent && response.stopReason === "end_turn") {
+                sessionLogger.warn("Agent completed without reply, retrying");
 
-          const retryStrategy = getRetryPromptStrategy(agentType);
-          for (let attempt = 0; attempt < retryStrategy.maxRetries; attempt++) {
-            replyHandler.clearReplyState(workspace.key, channelId);
+                const retryStrategy = getRetryPromptStrategy(agentType);
+                for (let attempt = 0; attempt < retryStrategy.maxRetries; attempt++) {
+                  replyHandler.clearReplyState(workspace.key, channelId);
 
-            const retryResponse = await connector.prompt(
-              sessionId,
-              retryStrategy.retryPromptMessage,
-            );
+                  const retryResponse = await connector.prompt(
+                    sessionId,
+                    retryStrategy.retryPromptMessage,
+                  );
 
-            replySent = replyHandler.hasReplySent(workspace.key, channelId);
-            if (replySent || retryResponse.stopReason !== "end_turn") break;
-          }
+                  replySent = replyHandler.hasReplySent(workspace.key, channelId);
+                  if (replySent || retryResponse.stopReason !== "end_turn") break;
+                }
 
-          replySent = replyHandler.hasReplySent(workspace.key, channelId);
-        }
+                replySent = replyHandler.hasReplySent(workspace.key, channelId);
+              }
 
-        result = {
-          success: replySent,
-          replySent,
-          error: replySent ? undefined : "Agent did not send a reply",
-        };
+              return {
+                success: replySent,
+                replySent,
+                error: replySent ? undefined : "Agent did not send a reply",
+              };
+            } finally {
+              await connector.disconnect();
+              sessionLogger.debug("Agent disconnected");
+            }
+          },
+          sessionLogger,
+          { canFallBack: () => !replyHandler.hasReplySent(workspace.key, channelId) },
+        );
         return result;
       } finally {
-        await connector.disconnect();
-        sessionLogger.debug("Agent disconnected");
-
         if (shellSessionId) {
           this.sessionRegistry.remove(shellSessionId);
           const sessionIdFile = join(workspace.path, "SESSION_ID");
@@ -556,6 +1075,7 @@ export class SessionOrchestrator {
       };
       return result;
     } finally {
+      slot.release();
       activeSessionsGauge.dec();
       const durationSec = (Date.now() - sessionStartTime) / 1000;
       const status = result!.success ? "success" : "failure";
@@ -568,19 +1088,29 @@ export class SessionOrchestrator {
    * Process a self-research session.
    * The agent reads RSS materials, picks a topic, researches it, and writes notes.
    * This does NOT send any reply to any platform - it only writes to agent workspace.
+   * Each persona researches in its own workspace and agent workspace (persona unset for the
+   * default persona), with the agent types of the persona.
    */
   async processSelfResearch(
     rssItems: RssItem[],
     selfResearchConfig: SelfResearchConfig,
+    persona?: string,
   ): Promise<SessionResponse> {
-    const sessionLoggerName = "self-research";
+    const sessionLoggerName = persona ? `self-research:${persona}` : "self-research";
     const sessionLogger = logger.child(sessionLoggerName);
+    const route = this.sessionRouter.resolvePersona(persona);
 
     sessionLogger.info("Processing self-research session", {
       rssItemCount: rssItems.length,
       model: selfResearchConfig.model,
+      persona,
     });
 
+    const slot = await this.agentLimiter.acquire(SessionPriority.SelfResearch, sessionLoggerName);
+    if (!slot) {
+      return { success: false, replySent: false, error: AGENT_CAPACITY_ERROR };
+    }
+
     const sessionStartTime = Date.now();
     activeSessionsGauge.inc();
     let result: SessionResponse;
@@ -592,13 +1122,14 @@ export class SessionOrchestrator {
         channelId: "internal",
         userId: "self-research",
         messageId: `research_${Date.now()}`,
+        persona,
         isDm: false,
         guildId: "",
         content: "",
         timestamp: new Date(),
       };
       const workspace = await this.workspaceManager.getOrCreateWorkspace(botEvent);
-      const agentWorkspacePath = await this.workspaceManager.getOrCreateAgentWorkspace();
+      const agentWorkspacePath = await this.workspaceManager.getOrCreateAgentWorkspace(persona);
 
       // 2. Register session (for skill API access, mainly for memory-search)
       let shellSessionId: string | null = null;
@@ -623,6 +1154,7 @@ export class SessionOrchestrator {
       const fullPrompt = await this.buildSelfResearchPrompt(
         rssItems,
         shellSessionId,
+        persona,
       );
 
       sessionLogger.debug("Self-research prompt built");
@@ -638,48 +1170,58 @@ export class SessionOrchestrator {
         yolo: this.yolo,
       };
 
-      // 5. Build and execute ACP connector (use selfResearch model)
-      const agentType = getDefaultAgentType(this.config);
-      const connector = this.createConnector({
-        agentConfig: createAgentConfig(
-          agentType,
-          workspace.path,
-          this.config,
-          this.yolo,
-          agentWorkspacePath,
-        ),
-        clientConfig,
-        skillRegistry: this.skillRegistry,
-        logger: sessionLogger,
-      });
-
+      // 5. Run the first agent of the fallback chain that is available (use selfResearch model)
       try {
-        await connector.connect();
-        sessionLogger.info("Agent connected");
-
-        const sessionId = await connector.createSession();
-        // Use self-research specific model
-        await connector.setSessionModel(sessionId, selfResearchConfig.model);
-
-        // Send prompt
-        const response = await connector.prompt(sessionId, fullPrompt);
-        sessionLogger.info("Self-research agent session completed with stopReason {stopReason}", {
-          stopReason: response.stopReason,
-        });
-
-        // Success is determined by agent completing normally
-        const success = response.stopReason === "end_turn";
+        result = await this.withAgentFallback(
+          route.agentTypes,
+          async (agentType) => {
+            const connector = this.createConnector({
+              agentConfig: createAgentConfig(
+                agentType,
+                workspace.path,
+                this.config,
+                this.yolo,
+                agentWorkspacePath,
+              ),
+              clientConfig,
+              skillRegistry: this.skillRegistry,
+              logger: sessionLogger,
+            });
 
-        result = {
-          success,
-          replySent: false,
-          error: success ? undefined : `Unexpected stop reason: ${response.stopReason}`,
-        };
+            try {
+              await connector.connect();
+              sessionLogger.info("Agent connected");
+
+              const sessionId = await connector.createSession();
+              // Use self-research specific model
+              await connector.setSessionModel(sessionId, selfResearchConfig.model);
+
+              // Send prompt
+              const response = await connector.prompt(sessionId, fullPrompt);
+              sessionLogger.info(
+                "Self-research agent session completed with stopReason {stopReason}",
+                {
+                  stopReason: response.stopReason,
+                },
+              );
+
+              // Success is determined by agent completing normally
+              const success = response.stopReason === "end_turn";
+
+              return {
+                success,
+                replySent: false,
+                error: success ? undefined : `Unexpected stop reason: ${response.stopReason}`,
+              };
+            } finally {
+              await connector.disconnect();
+              sessionLogger.debug("Agent disconnected");
+            }
+          },
+          sessionLogger,
+        );
         return result;
       } finally {
-        await connector.disconnect();
-        sessionLogger.debug("Agent disconnected");
-
         if (shellSessionId) {
           this.sessionRegistry.remove(shellSessionId);
           const sessionIdFile = join(workspace.path, "SESSION_ID");
@@ -705,6 +1247,7 @@ export class SessionOrchestrator {
       };
       return result;
     } finally {
+      slot.release();
       activeSessionsGauge.dec();
       const durationSec = (Date.now() - sessionStartTime) / 1000;
       const status = result!.success ? "success" : "failure";
@@ -724,21 +1267,29 @@ export class SessionOrchestrator {
     const sessionLoggerName = `memory-maintenance:${workspaceKey}`;
     const sessionLogger = logger.child(sessionLoggerName);
 
-    const [platformStr, userId] = workspaceKey.split("/");
-    if ((platformStr !== "discord" && platformStr !== "misskey") || !userId) {
+    const components = this.workspaceManager.parseWorkspaceKey(workspaceKey);
+    if (!components) {
       return {
         success: false,
         replySent: false,
         error: `Invalid workspace key: ${workspaceKey}`,
       };
     }
-    const platform = platformStr;
+    const { platform, userId, persona } = components;
 
     sessionLogger.info("Processing memory maintenance session", {
       workspaceKey,
       model: memoryMaintenanceConfig.model,
     });
 
+    const slot = await this.agentLimiter.acquire(
+      SessionPriority.MemoryMaintenance,
+      sessionLoggerName,
+    );
+    if (!slot) {
+      return { success: false, replySent: false, error: AGENT_CAPACITY_ERROR };
+    }
+
     const sessionStartTime = Date.now();
     activeSessionsGauge.inc();
     let result: SessionResponse;
@@ -750,13 +1301,14 @@ export class SessionOrchestrator {
         channelId: "internal",
         userId,
         messageId: `maintenance_${Date.now()}`,
+        persona,
         isDm: true,
         guildId: "",
         content: "",
         timestamp: new Date(),
       };
       const workspace = await this.workspaceManager.getOrCreateWorkspace(syntheticEvent);
-      const agentWorkspacePath = await this.workspaceManager.getOrCreateAgentWorkspace();
+      const agentWorkspacePath = await this.workspaceManager.getOrCreateAgentWorkspace(persona);
 
       let shellSessionId: string | null = null;
       if (this.config.skillApi?.enabled) {
@@ -792,43 +1344,53 @@ export class SessionOrchestrator {
         yolo: this.yolo,
       };
 
-      const agentType = getDefaultAgentType(this.config);
-      const connector = this.createConnector({
-        agentConfig: createAgentConfig(
-          agentType,
-          workspace.path,
-          this.config,
-          this.yolo,
-          agentWorkspacePath,
-        ),
-        clientConfig,
-        skillRegistry: this.skillRegistry,
-        logger: sessionLogger,
-      });
-
       try {
-        await connector.connect();
-        sessionLogger.info("Agent connected");
-
-        const sessionId = await connector.createSession();
-        await connector.setSessionModel(sessionId, memoryMaintenanceConfig.model);
-
-        const response = await connector.prompt(sessionId, fullPrompt);
-        sessionLogger.info("Memory maintenance session completed with stopReason {stopReason}", {
-          stopReason: response.stopReason,
-        });
+        result = await this.withAgentFallback(
+          getAgentTypes(this.config),
+          async (agentType) => {
+            const connector = this.createConnector({
+              agentConfig: createAgentConfig(
+                agentType,
+                workspace.path,
+                this.config,
+                this.yolo,
+                agentWorkspacePath,
+              ),
+              clientConfig,
+              skillRegistry: this.skillRegistry,
+              logger: sessionLogger,
+            });
 
-        const success = response.stopReason === "end_turn";
-        result = {
-          success,
-          replySent: false,
-          error: success ? undefined : `Unexpected stop reason: ${response.stopReason}`,
-        };
+            try {
+              await connector.connect();
+              sessionLogger.info("Agent connected");
+
+              const sessionId = await connector.createSession();
+              await connector.setSessionModel(sessionId, memoryMaintenanceConfig.model);
+
+              const response = await connector.prompt(sessionId, fullPrompt);
+              sessionLogger.info(
+                "Memory maintenance session completed with stopReason {stopReason}",
+                {
+                  stopReason: response.stopReason,
+                },
+              );
+
+              const success = response.stopReason === "end_turn";
+              return {
+                success,
+                replySent: false,
+                error: success ? undefined : `Unexpected stop reason: ${response.stopReason}`,
+              };
+            } finally {
+              await connector.disconnect();
+              sessionLogger.debug("Agent disconnected");
+            }
+          },
+          sessionLogger,
+        );
         return result;
       } finally {
-        await connector.disconnect();
-        sessionLogger.debug("Agent disconnected");
-
         if (shellSessionId) {
           this.sessionRegistry.remove(shellSessionId);
           const sessionIdFile = join(workspace.path, "SESSION_ID");
@@ -854,6 +1416,7 @@ export class SessionOrchestrator {
       };
       return result;
     } finally {
+      slot.release();
       activeSessionsGauge.dec();
       const durationSec = (Date.now() - sessionStartTime) / 1000;
       const status = result!.success ? "success" : "failure";
@@ -863,16 +1426,16 @@ export class SessionOrchestrator {
   }
 
   /**
-   * Create an AgentConnector instance.
+   * Create an AgentConnector instance with the connector factory.
    * Protected to allow test subclasses to inject mocks.
    */
   protected createConnector(options: AgentConnectorOptions): AgentConnector {
-    return new AgentConnector(options);
+    return this.connectorFactory(options);
   }
 
   /**
    * Build prompt content with optional image ContentBlocks.
-   * Only downloads images from the trigger message when Agent supports image capability.
+   * Only downloads images from the trigger messages when Agent supports image capability.
    */
   private async buildPromptContent(
     fullPrompt: string,
@@ -880,11 +1443,14 @@ export class SessionOrchestrator {
     event: NormalizedEvent,
     sessionLogger: ReturnType<typeof logger.child>,
   ): Promise<string | acp.ContentBlock[]> {
-    if (!supportsImage || !event.attachments) {
+    // Coalesced messages bring their images along
+    const attachments = [...(event.precedingEvents ?? []), event]
+      .flatMap((triggerEvent) => triggerEvent.attachments ?? []);
+    if (!supportsImage || attachments.length === 0) {
       return fullPrompt;
     }
 
-    const imageAttachments = event.attachments.filter(
+    const imageAttachments = attachments.filter(
       (att) => att.isImage && (!att.size || att.size <= MAX_IMAGE_SIZE_BYTES),
     );
 
@@ -946,9 +1512,11 @@ export class SessionOrchestrator {
   ): string {
     const parts: string[] = [];
 
-    // System prompt
-    parts.push(context.systemMessage);
-    parts.push("");
+    // System prompt (resumed sessions already have it)
+    if (context.systemMessage) {
+      parts.push(context.systemMessage);
+      parts.push("");
+    }
 
     // Session information
     if (sessionId) {
@@ -980,6 +1548,106 @@ export class SessionOrchestrator {
     return parts.join("\n");
   }
 
+  /**
+   * Load the stored ACP session of a channel when the agent supports it
+   * and the session still covers the assembled context
+   * @returns The resumed session, or null to start a new session with the full context
+   */
+  private async resumeAgentSession(
+    connector: AgentConnector,
+    agentType: AgentType,
+    route: SessionRoute,
+    workspace: WorkspaceInfo,
+    channelId: string,
+    context: AssembledContext,
+    sessionLogger: ReturnType<typeof logger.child>,
+  ): Promise<StoredAgentSession | null> {
+    if (!this.sessionResumeConfig.enabled || !connector.supportsLoadSession()) {
+      return null;
+    }
+
+    const stored = await this.agentSessionStore.get(workspace, channelId);
+    if (!stored) {
+      return null;
+    }
+
+    const contextAt = new Date(stored.contextAt);
+    let reason: string | null = null;
+    if (stored.agentType !== agentType) {
+      reason = "agent type changed";
+    } else if (
+      (stored.systemPromptPath ?? this.config.agent.systemPromptPath) !==
+        (route.context.systemPromptPath ?? this.config.agent.systemPromptPath)
+    ) {
+      // The session was started by another routing rule
+      reason = "system prompt changed";
+    } else if (Date.now() - Date.parse(stored.updatedAt) > this.sessionResumeConfig.maxAgeMs) {
+      reason = "session too old";
+    } else if (context.clearedAt && context.clearedAt > contextAt) {
+      reason = "context cleared";
+    } else if (
+      context.recentMessages.length >=
+        (route.context.recentMessageLimit ?? this.config.memory.recentMessageLimit) &&
+      context.recentMessages.every((message) => message.timestamp > contextAt)
+    ) {
+      // Every fetched message is new: older new messages may be missing
+      reason = "too many new messages";
+    }
+
+    if (reason) {
+      sessionLogger.info("Not resuming agent session {sessionId}: {reason}", {
+        sessionId: stored.sessionId,
+        reason,
+      });
+      return null;
+    }
+
+    try {
+      await connector.loadSession(stored.sessionId);
+      return stored;
+    } catch (error) {
+      sessionLogger.warn("Failed to resume agent session {sessionId}, starting a new one", {
+        sessionId: stored.sessionId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      await this.agentSessionStore.delete(workspace, channelId);
+      return null;
+    }
+  }
+
+  /**
+   * Remember the ACP session of a channel for the next message
+   */
+  private async storeAgentSession(
+    connector: AgentConnector,
+    agentType: AgentType,
+    route: SessionRoute,
+    workspace: WorkspaceInfo,
+    channelId: string,
+    sessionId: string,
+    contextAt: Date,
+    sessionLogger: ReturnType<typeof logger.child>,
+  ): Promise<void> {
+    if (!this.sessionResumeConfig.enabled || !connector.supportsLoadSession()) {
+      return;
+    }
+
+    try {
+      await this.agentSessionStore.save(workspace, channelId, {
+        sessionId,
+        agentType,
+        systemPromptPath: route.context.systemPromptPath ?? this.config.agent.systemPromptPath,
+        contextAt: contextAt.toISOString(),
+        updatedAt: new Date().toISOString(),
+      });
+    } catch (error) {
+      sessionLogger.warn("Failed to store agent session {sessionId}", {
+        sessionId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
   /**
    * Build the full prompt to send to the agent
    */
@@ -1029,21 +1697,29 @@ export class SessionOrchestrator {
     return parts.join("\n");
   }
 
+  /**
+   * Path of a background session prompt file, in the directory of the persona's system prompt
+   */
+  private getPersonaPromptPath(file: string, persona?: string): string {
+    const systemPromptPath = this.sessionRouter.resolvePersona(persona).context.systemPromptPath ??
+      this.config.agent.systemPromptPath;
+    return join(dirname(systemPromptPath), file);
+  }
+
   /**
    * Build the full prompt for a self-research session
    */
   private async buildSelfResearchPrompt(
     rssItems: RssItem[],
     sessionId: string | null,
+    persona?: string,
   ): Promise<string> {
-    // Read system_self_research.md
-    const promptDir = dirname(this.config.agent.systemPromptPath);
-    const instructionsPath = join(promptDir, "system_self_research.md");
-    let instructions = await Deno.readTextFile(instructionsPath);
-
-    // Replace {{placeholder}} tokens using the same prompt fragment mechanism
-    const fragments = await loadPromptFragments(promptDir, "system_self_research.md");
-    instructions = replacePlaceholders(instructions, fragments);
+    const template = await this.contextAssembler.getPromptTemplate(
+      this.getPersonaPromptPath(SELF_RESEARCH_PROMPT_FILE, persona),
+    );
+    let instructions = template.render(
+      createPromptVariables({ timezone: this.config.agent.timezone, persona }),
+    );
 
     // Format RSS items
     const rssBlock = rssItems.map((item, i) =>
@@ -1081,12 +1757,15 @@ export class SessionOrchestrator {
     sessionId: string | null,
     workspace: WorkspaceInfo,
   ): Promise<string> {
-    const promptDir = dirname(this.config.agent.systemPromptPath);
-    const instructionsPath = join(promptDir, "system_memory_maintenance.md");
-    let instructions = await Deno.readTextFile(instructionsPath);
-
-    const fragments = await loadPromptFragments(promptDir, "system_memory_maintenance.md");
-    instructions = replacePlaceholders(instructions, fragments);
+    const template = await this.contextAssembler.getPromptTemplate(
+      this.getPersonaPromptPath(MEMORY_MAINTENANCE_PROMPT_FILE, workspace.components.persona),
+    );
+    let instructions = template.render(createPromptVariables({
+      timezone: this.config.agent.timezone,
+      platform: workspace.components.platform,
+      channelType: workspace.isDm ? "dm" : undefined,
+      persona: workspace.components.persona,
+    }));
     instructions = instructions.replaceAll("{workspace_key}", workspaceKey);
     instructions = instructions.replaceAll("{session_id}", sessionId ?? "");
 
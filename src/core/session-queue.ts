@@ -0,0 +1,289 @@
+// src/core/session-queue.ts
+
+import { createLogger } from "@utils/logger.ts";
+import { sessionQueueDepth, sessionQueueWaitSeconds } from "@utils/metrics.ts";
+import type { SessionResponse } from "./session-orchestrator.ts";
+import { getAccountKey, type NormalizedEvent, type Platform } from "../types/events.ts";
+import type { PlatformAdapter } from "@platforms/platform-adapter.ts";
+import type { SessionQueueConfig } from "../types/config.ts";
+
+const logger = createLogger("SessionQueue");
+
+/**
+ * Longest time in milliseconds a message waits for more messages of its author,
+ * for configs without sessionQueue.maxWaitMs
+ */
+const DEFAULT_MAX_WAIT_MS = 10000;
+
+/**
+ * Runs an agent session for a (possibly coalesced) event
+ */
+export type SessionRunner = (
+  event: NormalizedEvent,
+  platformAdapter: PlatformAdapter,
+) => Promise<SessionResponse>;
+
+/**
+ * Request from a user to stop the session answering their messages
+ */
+export interface CancelRequest {
+  platform: Platform;
+  /** Persona whose account the request was made on (unset for the default persona) */
+  persona?: string;
+  channelId: string;
+  /** Message whose session to stop; without it, any session answering the user */
+  messageId?: string;
+  /** User asking; must have written the message (unknown for deletions) */
+  userId?: string;
+  /** What the user did */
+  reason: "command" | "deleted" | "reaction";
+}
+
+interface QueuedMessage {
+  event: NormalizedEvent;
+  platformAdapter: PlatformAdapter;
+  enqueuedAt: number;
+  resolve: (response: SessionResponse) => void;
+}
+
+interface ChannelState {
+  /** Messages waiting for a session, of all authors, oldest first */
+  pending: QueuedMessage[];
+  /** Whether a session is running for this channel */
+  running: boolean;
+  /** Debounce timer of the next session */
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+/**
+ * Per-channel session queue.
+ *
+ * Sessions of a channel run one at a time. Waiting messages are batched by author: only
+ * messages of the same user are coalesced into a session, which runs in that user's workspace
+ * and answers their latest message. The batch of the oldest waiting message goes first; it
+ * starts once its author has been quiet for debounceMs, or maxWaitMs after its first message
+ * at the latest, so a busy channel cannot postpone it forever. Messages received while a
+ * session runs wait for the next batches.
+ */
+export class SessionQueue {
+  private config: SessionQueueConfig;
+  private runSession: SessionRunner;
+  private channels: Map<string, ChannelState> = new Map();
+
+  constructor(config: SessionQueueConfig, runSession: SessionRunner) {
+    this.config = config;
+    this.runSession = runSession;
+  }
+
+  /**
+   * Queue a message for its channel.
+   * Resolves with the response of the session that answered it.
+   */
+  enqueue(event: NormalizedEvent, platformAdapter: PlatformAdapter): Promise<SessionResponse> {
+    const key = `${getAccountKey(event.platform, event.persona)}:${event.channelId}`;
+    let state = this.channels.get(key);
+    if (!state) {
+      state = { pending: [], running: false, timer: null };
+      this.channels.set(key, state);
+    }
+
+    const response = new Promise<SessionResponse>((resolve) => {
+      state.pending.push({ event, platformAdapter, enqueuedAt: Date.now(), resolve });
+    });
+    sessionQueueDepth.labels(event.platform).inc();
+
+    if (!state.running) {
+      this.schedule(key, state);
+    }
+
+    return response;
+  }
+
+  /**
+   * Drop the waiting messages a cancel request refers to.
+   * Their callers get a cancelled response instead of a session.
+   * @returns Number of dropped messages
+   */
+  cancel(request: CancelRequest): number {
+    const key = `${getAccountKey(request.platform, request.persona)}:${request.channelId}`;
+    const state = this.channels.get(key);
+    if (!state) return 0;
+
+    const dropped = state.pending.filter((message) => matchesCancelRequest(message.event, request));
+    if (dropped.length === 0) return 0;
+
+    state.pending = state.pending.filter((message) => !dropped.includes(message));
+    for (const message of dropped) {
+      sessionQueueDepth.labels(message.event.platform).dec();
+      message.resolve({
+        success: false,
+        replySent: false,
+        cancelled: true,
+        error: "Session was cancelled",
+      });
+    }
+
+    if (state.pending.length === 0 && !state.running) {
+      if (state.timer !== null) {
+        clearTimeout(state.timer);
+        state.timer = null;
+      }
+      this.channels.delete(key);
+    }
+
+    logger.info("Dropped {count} waiting messages in {channelId}: {reason}", {
+      platform: request.platform,
+      channelId: request.channelId,
+      count: dropped.length,
+      reason: request.reason,
+    });
+    return dropped.length;
+  }
+
+  /**
+   * Number of messages waiting for a session
+   */
+  getQueueDepth(): number {
+    let depth = 0;
+    for (const state of this.channels.values()) {
+      depth += state.pending.length;
+    }
+    return depth;
+  }
+
+  /**
+   * Stop all debounce timers and fail the messages still waiting
+   */
+  dispose(): void {
+    for (const state of this.channels.values()) {
+      if (state.timer !== null) {
+        clearTimeout(state.timer);
+        state.timer = null;
+      }
+      for (const message of state.pending.splice(0)) {
+        sessionQueueDepth.labels(message.event.platform).dec();
+        message.resolve({ success: false, replySent: false, error: "Shutting down" });
+      }
+    }
+    this.channels.clear();
+  }
+
+  /**
+   * (Re)start the debounce timer of the next batch, so it starts debounceMs after the
+   * latest message of its author, but no later than maxWaitMs after its first message
+   */
+  private schedule(key: string, state: ChannelState): void {
+    if (state.timer !== null) {
+      clearTimeout(state.timer);
+    }
+
+    const batch = nextBatch(state.pending);
+    const startAt = Math.min(
+      batch[batch.length - 1].enqueuedAt + this.config.debounceMs,
+      batch[0].enqueuedAt + (this.config.maxWaitMs ?? DEFAULT_MAX_WAIT_MS),
+    );
+    const delay = Math.max(0, startAt - Date.now());
+    state.timer = setTimeout(() => {
+      state.timer = null;
+      this.run(key, state);
+    }, delay);
+  }
+
+  /**
+   * Run one session for the next batch of a channel
+   */
+  private async run(key: string, state: ChannelState): Promise<void> {
+    const batch = nextBatch(state.pending);
+    state.pending = state.pending.filter((message) => !batch.includes(message));
+    state.running = true;
+
+    const now = Date.now();
+    for (const message of batch) {
+      sessionQueueDepth.labels(message.event.platform).dec();
+      sessionQueueWaitSeconds.labels(message.event.platform)
+        .observe((now - message.enqueuedAt) / 1000);
+    }
+
+    const last = batch[batch.length - 1];
+    const event = coalesceEvents(batch.map((message) => message.event));
+    if (batch.length > 1) {
+      logger.info("Coalesced {count} messages in {channelId} into one session", {
+        platform: event.platform,
+        channelId: event.channelId,
+        userId: event.userId,
+        count: batch.length,
+        messageIds: batch.map((message) => message.event.messageId),
+      });
+    }
+
+    let response: SessionResponse;
+    try {
+      response = await this.runSession(event, last.platformAdapter);
+    } catch (error) {
+      response = {
+        success: false,
+        replySent: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+
+    for (const message of batch) {
+      message.resolve(message === last ? response : { ...response, coalesced: true });
+    }
+
+    state.running = false;
+    if (state.pending.length > 0) {
+      this.schedule(key, state);
+    } else if (this.channels.get(key) === state) {
+      this.channels.delete(key);
+    }
+  }
+}
+
+/**
+ * Messages of the next session: the waiting messages of the author of the oldest one
+ */
+function nextBatch(pending: QueuedMessage[]): QueuedMessage[] {
+  const author = pending[0].event.userId;
+  return pending.filter((message) => message.event.userId === author);
+}
+
+/**
+ * Whether a cancel request refers to an event or one of the messages coalesced into it
+ */
+export function matchesCancelRequest(event: NormalizedEvent, request: CancelRequest): boolean {
+  if (
+    event.platform !== request.platform || event.persona !== request.persona ||
+    event.channelId !== request.channelId
+  ) {
+    return false;
+  }
+
+  const messages = [...(event.precedingEvents ?? []), event];
+  if (request.messageId === undefined) {
+    return messages.some((message) => message.userId === request.userId);
+  }
+
+  const message = messages.find((message) => message.messageId === request.messageId);
+  return message !== undefined &&
+    (request.userId === undefined || message.userId === request.userId);
+}
+
+/**
+ * Merge a burst of messages into the event of the latest one,
+ * keeping the earlier messages in precedingEvents
+ */
+export function coalesceEvents(events: NormalizedEvent[]): NormalizedEvent {
+  const last = events[events.length - 1];
+  if (events.length === 1) {
+    return last;
+  }
+
+  return {
+    ...last,
+    precedingEvents: events.slice(0, -1).flatMap((event) => [
+      ...(event.precedingEvents ?? []),
+      { ...event, precedingEvents: undefined },
+    ]),
+  };
+}
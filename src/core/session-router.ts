@@ -0,0 +1,149 @@
+// src/core/session-router.ts
+
+import { createLogger } from "@utils/logger.ts";
+import { getAgentTypes } from "@acp/agent-factory.ts";
+import {
+  allOf,
+  isChannel,
+  isDmEvent,
+  isGuild,
+  isPlatform,
+  isUser,
+  not,
+  type RouteCondition,
+} from "./event-router.ts";
+import type { AgentType } from "@acp/types.ts";
+import type { Config, RoutingConfig, RoutingMatch, RoutingRule } from "../types/config.ts";
+import type { ContextOverrides } from "../types/context.ts";
+import type { NormalizedEvent } from "../types/events.ts";
+
+const logger = createLogger("SessionRouter");
+
+/**
+ * Default routing configuration
+ */
+export const DEFAULT_ROUTING: RoutingConfig = {
+  rules: [],
+};
+
+/**
+ * Settings of a message session, after applying the routing rule matching its message
+ */
+export interface SessionRoute {
+  /** Name of the matching rule, or null for the default settings */
+  rule: string | null;
+  /** Agent types to try, in order */
+  agentTypes: AgentType[];
+  model: string;
+  /** Context settings of the rule; unset ones keep the context assembler config */
+  context: ContextOverrides;
+}
+
+/**
+ * Session settings a persona or routing rule can change
+ */
+type RouteSettings = Pick<
+  RoutingRule,
+  "agentType" | "model" | "tokenLimit" | "systemPromptPath" | "recentMessageLimit"
+>;
+
+interface CompiledRule {
+  name: string;
+  condition: RouteCondition;
+  settings: RouteSettings;
+}
+
+/**
+ * Build the route condition of a routing rule from its match section
+ */
+export function createMatchCondition(match: RoutingMatch): RouteCondition {
+  const conditions: RouteCondition[] = [];
+  if (match.platform !== undefined) conditions.push(isPlatform(...toList(match.platform)));
+  if (match.guildId !== undefined) conditions.push(isGuild(...toList(match.guildId)));
+  if (match.channelId !== undefined) conditions.push(isChannel(...toList(match.channelId)));
+  if (match.userId !== undefined) conditions.push(isUser(...toList(match.userId)));
+  if (match.isDm !== undefined) conditions.push(match.isDm ? isDmEvent : not(isDmEvent));
+  return allOf(...conditions);
+}
+
+function toList(value: string | string[]): string[] {
+  return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * Picks the agent type, model, prompt and context limits of message sessions from the
+ * persona settings and routing rules. Rules are checked in order and the first match
+ * applies on top of the settings of the persona whose account received the message;
+ * unset settings keep the agent and memory sections of the config.
+ */
+export class SessionRouter {
+  private readonly config: Config;
+  /** Settings of each persona without routing rules, by name ("" for the default persona) */
+  private readonly personaRoutes = new Map<string, SessionRoute>();
+  private readonly rules: CompiledRule[];
+
+  constructor(config: Config) {
+    this.config = config;
+
+    const defaultRoute: SessionRoute = {
+      rule: null,
+      agentTypes: getAgentTypes(config),
+      model: config.agent.model,
+      context: {},
+    };
+    this.personaRoutes.set("", defaultRoute);
+    for (const persona of config.personas ?? []) {
+      this.personaRoutes.set(persona.name, this.applySettings(defaultRoute, null, persona));
+    }
+
+    const rules = (config.routing ?? DEFAULT_ROUTING).rules;
+    this.rules = rules.map((rule, index) => ({
+      name: rule.name ?? `rule ${index + 1}`,
+      condition: createMatchCondition(rule.match),
+      settings: rule,
+    }));
+
+    if (this.rules.length > 0) {
+      logger.info("Loaded {count} routing rules", {
+        count: this.rules.length,
+        rules: this.rules.map((rule) => rule.name),
+      });
+    }
+  }
+
+  /**
+   * Get the session settings for a message
+   */
+  resolve(event: NormalizedEvent): SessionRoute {
+    const personaRoute = this.resolvePersona(event.persona);
+    const rule = this.rules.find((rule) => rule.condition(event));
+    return rule ? this.applySettings(personaRoute, rule.name, rule.settings) : personaRoute;
+  }
+
+  /**
+   * Get the session settings of a persona without routing rules, for sessions that do not
+   * answer a message (spontaneous posts and self-research)
+   */
+  resolvePersona(persona?: string): SessionRoute {
+    return this.personaRoutes.get(persona ?? "") ?? this.personaRoutes.get("")!;
+  }
+
+  private applySettings(
+    base: SessionRoute,
+    rule: string | null,
+    settings: RouteSettings,
+  ): SessionRoute {
+    return {
+      rule,
+      agentTypes: settings.agentType === undefined
+        ? base.agentTypes
+        : getAgentTypes(this.config, settings.agentType),
+      model: settings.model ?? base.model,
+      context: {
+        tokenLimit: settings.tokenLimit ?? base.context.tokenLimit,
+        systemPromptPath: settings.systemPromptPath ?? base.context.systemPromptPath,
+        recentMessageLimit: settings.recentMessageLimit ?? base.context.recentMessageLimit,
+      },
+    };
+  }
+}
@@ -0,0 +1,169 @@
+// src/core/shadow-mode.ts
+
+import { join } from "@std/path";
+import { createLogger } from "@utils/logger.ts";
+import { ensureDirectory } from "@utils/path-validator.ts";
+import type { PlatformAdapter } from "@platforms/platform-adapter.ts";
+import { sendReplySeries } from "@platforms/reply-series.ts";
+import { type ShadowOutput, ShadowPlatformAdapter } from "@platforms/shadow-adapter.ts";
+import type { Config, ShadowConfig } from "../types/config.ts";
+import { getAccountKey } from "../types/events.ts";
+
+const logger = createLogger("ShadowMode");
+
+/**
+ * Default shadow mode configuration
+ */
+export const DEFAULT_SHADOW: ShadowConfig = {
+  enabled: false,
+  channels: [],
+};
+
+/**
+ * Review log in the data directory
+ */
+const REVIEW_LOG_FILE = "shadow-review.jsonl";
+
+/**
+ * Channel a session answers in
+ */
+export interface ShadowTarget {
+  platform: string;
+  channelId: string;
+  /** Parent channel of a thread (optional) */
+  parentChannelId?: string;
+}
+
+/**
+ * Shadow (dry-run) mode: sessions in shadowed channels run as usual, but what they would
+ * post is appended to the review log and, when a review channel is set, posted there instead.
+ * Used to watch real traffic after changing a persona, prompt or model.
+ *
+ * Settings are read from the config on each check, so a config reload applies them.
+ */
+export class ShadowMode {
+  private config: Config;
+  private platformAdapters: Map<string, PlatformAdapter>;
+  private readonly logPath: string;
+  /** One wrapper per adapter, so queued messages of a channel share it */
+  private wrappers = new WeakMap<PlatformAdapter, ShadowPlatformAdapter>();
+  /** Pending appends to the review log, so entries keep their order */
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(config: Config, platformAdapters: Map<string, PlatformAdapter>) {
+    this.config = config;
+    this.platformAdapters = platformAdapters;
+    this.logPath = join(config.workspace.repoPath, REVIEW_LOG_FILE);
+  }
+
+  /**
+   * Check whether sessions answering in a channel are shadowed.
+   * Without channels, every channel is; a channel entry also covers its threads.
+   */
+  isShadowed(target: ShadowTarget): boolean {
+    const shadow = this.config.shadow;
+    if (!shadow?.enabled) return false;
+    if (shadow.channels.length === 0) return true;
+
+    return shadow.channels.some((entry) =>
+      entry === `${target.platform}/channel/${target.channelId}` ||
+      (target.parentChannelId !== undefined &&
+        entry === `${target.platform}/channel/${target.parentChannelId}`)
+    );
+  }
+
+  /**
+   * Get the shadow wrapper of a platform adapter
+   */
+  wrap(adapter: PlatformAdapter): ShadowPlatformAdapter {
+    let wrapper = this.wrappers.get(adapter);
+    if (!wrapper) {
+      wrapper = new ShadowPlatformAdapter(adapter, (source, output) => this.record(source, output));
+      this.wrappers.set(adapter, wrapper);
+    }
+    return wrapper;
+  }
+
+  /**
+   * Record an intercepted output. Failures are logged, never thrown:
+   * the session goes on as if the output was posted.
+   */
+  private async record(adapter: PlatformAdapter, output: ShadowOutput): Promise<void> {
+    const accountKey = getAccountKey(adapter.platform, adapter.getPersonaName());
+    logger.info("Shadow mode intercepted a {type} in {platform} channel {channelId}", {
+      platform: accountKey,
+      ...output,
+    });
+
+    await this.append({ ts: new Date().toISOString(), platform: accountKey, ...output });
+    await this.postForReview(accountKey, output);
+  }
+
+  private async append(entry: Record<string, unknown>): Promise<void> {
+    const write = this.writes.then(async () => {
+      await ensureDirectory(this.config.workspace.repoPath);
+      await Deno.writeTextFile(this.logPath, JSON.stringify(entry) + "\n", { append: true });
+    });
+    this.writes = write.catch(() => {});
+
+    try {
+      await write;
+    } catch (error) {
+      logger.warn("Failed to write the shadow review log", {
+        path: this.logPath,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Post an intercepted reply, edit or reaction to the review channel (deletions only
+   * remove parts of intercepted replies, so they are not posted)
+   */
+  private async postForReview(accountKey: string, output: ShadowOutput): Promise<void> {
+    const reviewChannel = this.config.shadow?.reviewChannel;
+    if (!reviewChannel || output.type === "delete") return;
+
+    const [platform, , channelId] = reviewChannel.split("/");
+    // The review channel belongs to an account of the default persona
+    const adapter = this.platformAdapters.get(platform);
+    if (!adapter) {
+      logger.warn("No adapter registered for the shadow review channel {reviewChannel}", {
+        reviewChannel,
+      });
+      return;
+    }
+
+    const where = `\`${accountKey}/channel/${output.channelId}\``;
+    let content: string;
+    switch (output.type) {
+      case "reply":
+        content = `🕶️ Reply in ${where}` +
+          (output.replyToMessageId ? ` to \`${output.replyToMessageId}\`` : "") +
+          (output.attachments ? ` with ${output.attachments.join(", ")}` : "") +
+          `:\n${output.content}`;
+        break;
+      case "edit":
+        content = `🕶️ Edit of \`${output.messageId}\` in ${where}:\n${output.content}`;
+        break;
+      case "reaction":
+        content = `🕶️ Reaction ${output.reaction} to \`${output.messageId}\` in ${where}`;
+        break;
+    }
+
+    try {
+      const result = await sendReplySeries(adapter, channelId, content);
+      if (!result.success) {
+        logger.warn("Failed to post to the shadow review channel {reviewChannel}", {
+          reviewChannel,
+          error: result.error,
+        });
+      }
+    } catch (error) {
+      logger.warn("Failed to post to the shadow review channel {reviewChannel}", {
+        reviewChannel,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+}
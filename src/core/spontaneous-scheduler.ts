@@ -1,21 +1,23 @@
 // src/core/spontaneous-scheduler.ts
 
 import { createLogger } from "@utils/logger.ts";
-import type { Config } from "../types/config.ts";
-import type { Platform } from "../types/events.ts";
+import type { Config, PlatformsConfig } from "../types/config.ts";
+import { getAccountKey, type Platform, PLATFORMS } from "../types/events.ts";
 
 const logger = createLogger("SpontaneousScheduler");
 
 /**
  * Callback function invoked when a spontaneous post should be triggered.
+ * persona is unset for the accounts of the default persona.
  */
-export type SpontaneousPostCallback = (platform: Platform) => Promise<void>;
+export type SpontaneousPostCallback = (platform: Platform, persona?: string) => Promise<void>;
 
 /**
- * Per-platform scheduler state
+ * Per-account scheduler state
  */
 interface PlatformSchedulerState {
   platform: Platform;
+  persona?: string;
   timerId: number | null;
   isRunning: boolean;
   lastExecutedAt: Date | null;
@@ -23,12 +25,13 @@ interface PlatformSchedulerState {
 }
 
 /**
- * Manages periodic spontaneous posting for each platform.
+ * Manages periodic spontaneous posting for each platform account.
  * Schedules random intervals between configured min and max values.
- * Each platform has its own independent timer.
+ * Each account (of the default persona or another persona) has its own independent timer,
+ * keyed by getAccountKey.
  */
 export class SpontaneousScheduler {
-  private readonly states: Map<Platform, PlatformSchedulerState> = new Map();
+  private readonly states: Map<string, PlatformSchedulerState> = new Map();
   private callback: SpontaneousPostCallback | null = null;
   private readonly config: Config;
   private started = false;
@@ -46,8 +49,8 @@ export class SpontaneousScheduler {
   }
 
   /**
-   * Start scheduling for all enabled platforms.
-   * Only schedules for platforms that have spontaneousPost.enabled = true.
+   * Start scheduling for all enabled platform accounts.
+   * Only schedules for accounts that have spontaneousPost.enabled = true.
    */
   start(): void {
     if (this.started) {
@@ -55,40 +58,58 @@ export class SpontaneousScheduler {
       return;
     }
     this.started = true;
+    this.addEnabledPlatforms();
+  }
+
+  /**
+   * Apply changed spontaneous post settings (config reload): pending posts are rescheduled
+   * with the current intervals, and accounts are added or removed. Posts in progress
+   * schedule their next post when they complete.
+   */
+  reschedule(): void {
+    if (!this.started) return;
 
-    for (const platformName of ["discord", "misskey"] as const) {
-      const platformConfig = this.config.platforms[platformName];
-      if (!platformConfig.enabled || !platformConfig.spontaneousPost?.enabled) {
-        continue;
+    for (const [key, state] of this.states) {
+      if (state.timerId !== null) {
+        clearTimeout(state.timerId);
+        state.timerId = null;
+      }
+      if (!this.isEnabled(state.platform, state.persona)) {
+        this.states.delete(key);
+      } else if (!state.isRunning) {
+        this.scheduleNext(key);
       }
+    }
+    this.addEnabledPlatforms();
+  }
 
-      const state: PlatformSchedulerState = {
-        platform: platformName,
-        timerId: null,
-        isRunning: false,
-        lastExecutedAt: null,
-        nextScheduledAt: null,
-      };
-      this.states.set(platformName, state);
-      this.scheduleNext(platformName);
+  /**
+   * Post on a platform account now instead of when its timer fires (admin command).
+   * The next post is scheduled when this one completes.
+   * @returns false when spontaneous posts are not enabled on the account or one is in progress
+   */
+  runNow(platform: Platform, persona?: string): boolean {
+    const key = getAccountKey(platform, persona);
+    const state = this.states.get(key);
+    if (!state || state.isRunning || !this.callback) return false;
 
-      logger.info("Spontaneous posting enabled for {platform}", {
-        platform: platformName,
-        minIntervalMs: platformConfig.spontaneousPost.minIntervalMs,
-        maxIntervalMs: platformConfig.spontaneousPost.maxIntervalMs,
-      });
+    if (state.timerId !== null) {
+      clearTimeout(state.timerId);
+      state.timerId = null;
     }
+    this.execute(key);
+    return true;
   }
 
   /**
    * Stop all scheduled timers and clean up.
    */
   stop(): void {
-    for (const [platform, state] of this.states) {
+    for (const [key, state] of this.states) {
       if (state.timerId !== null) {
         clearTimeout(state.timerId);
         state.timerId = null;
-        logger.debug("Timer cleared", { platform });
+        logger.debug("Timer cleared", { platform: key });
       }
     }
     this.states.clear();
@@ -97,7 +118,7 @@ export class SpontaneousScheduler {
   }
 
   /**
-   * Get the current status of all platform schedulers.
+   * Get the current status of all account schedulers, keyed by getAccountKey.
    */
   getStatus(): Record<string, {
     isRunning: boolean;
@@ -109,8 +130,8 @@ export class SpontaneousScheduler {
       lastExecutedAt: Date | null;
       nextScheduledAt: Date | null;
     }> = {};
-    for (const [platform, state] of this.states) {
-      status[platform] = {
+    for (const [key, state] of this.states) {
+      status[key] = {
         isRunning: state.isRunning,
         lastExecutedAt: state.lastExecutedAt,
         nextScheduledAt: state.nextScheduledAt,
@@ -119,51 +140,100 @@ export class SpontaneousScheduler {
     return status;
   }
 
+  /**
+   * Platform accounts of the default persona (persona unset) or of another persona
+   */
+  private getPlatformsConfig(persona?: string): Partial<PlatformsConfig> | undefined {
+    return persona
+      ? this.config.personas?.find((candidate) => candidate.name === persona)?.platforms
+      : this.config.platforms;
+  }
+
+  private isEnabled(platform: Platform, persona?: string): boolean {
+    const platformConfig = this.getPlatformsConfig(persona)?.[platform];
+    return !!platformConfig?.enabled && !!platformConfig.spontaneousPost?.enabled;
+  }
+
+  /**
+   * Start scheduling the enabled accounts that are not scheduled yet
+   */
+  private addEnabledPlatforms(): void {
+    const personas = [undefined, ...(this.config.personas ?? []).map((persona) => persona.name)];
+    for (const persona of personas) {
+      for (const platformName of PLATFORMS) {
+        const key = getAccountKey(platformName, persona);
+        if (!this.isEnabled(platformName, persona) || this.states.has(key)) {
+          continue;
+        }
+
+        const state: PlatformSchedulerState = {
+          platform: platformName,
+          persona,
+          timerId: null,
+          isRunning: false,
+          lastExecutedAt: null,
+          nextScheduledAt: null,
+        };
+        this.states.set(key, state);
+        this.scheduleNext(key);
+
+        const spontaneousPost = this.getPlatformsConfig(persona)![platformName]!.spontaneousPost!;
+        logger.info("Spontaneous posting enabled for {platform}", {
+          platform: key,
+          minIntervalMs: spontaneousPost.minIntervalMs,
+          maxIntervalMs: spontaneousPost.maxIntervalMs,
+        });
+      }
+    }
+  }
+
   /**
    * Calculate a random interval between min and max.
    */
-  private getRandomInterval(platform: Platform): number {
-    const platformConfig = this.config.platforms[platform];
+  private getRandomInterval(state: PlatformSchedulerState): number {
+    const platformConfig = this.getPlatformsConfig(state.persona)![state.platform]!;
     const sp = platformConfig.spontaneousPost!;
     const range = sp.maxIntervalMs - sp.minIntervalMs;
     return sp.minIntervalMs + Math.floor(Math.random() * range);
   }
 
   /**
-   * Schedule the next spontaneous post for a platform.
+   * Schedule the next spontaneous post for an account.
    */
-  private scheduleNext(platform: Platform): void {
-    const state = this.states.get(platform);
+  private scheduleNext(key: string): void {
+    const state = this.states.get(key);
     if (!state) return;
 
-    const interval = this.getRandomInterval(platform);
+    const interval = this.getRandomInterval(state);
     const nextTime = new Date(Date.now() + interval);
     state.nextScheduledAt = nextTime;
 
     logger.info("Next spontaneous post for {platform} scheduled at {scheduledAt}", {
-      platform,
+      platform: key,
       intervalMs: interval,
       scheduledAt: nextTime.toISOString(),
     });
 
     state.timerId = setTimeout(() => {
-      this.execute(platform);
+      this.execute(key);
     }, interval);
   }
 
   /**
-   * Execute the spontaneous post for a platform.
+   * Execute the spontaneous post for an account.
    * Catches all errors to prevent crashing the bot.
    * Schedules the next execution after completion.
    */
-  private async execute(platform: Platform): Promise<void> {
-    const state = this.states.get(platform);
+  private async execute(key: string): Promise<void> {
+    const state = this.states.get(key);
     if (!state || !this.callback) return;
 
-    // Prevent concurrent execution for the same platform
+    // Prevent concurrent execution for the same account
     if (state.isRunning) {
-      logger.warn("Previous spontaneous post still running on {platform}, skipping", { platform });
-      this.scheduleNext(platform);
+      logger.warn("Previous spontaneous post still running on {platform}, skipping", {
+        platform: key,
+      });
+      this.scheduleNext(key);
       return;
     }
 
@@ -171,21 +241,21 @@ export class SpontaneousScheduler {
     state.timerId = null;
 
     try {
-      logger.info("Executing spontaneous post on {platform}", { platform });
-      await this.callback(platform);
+      logger.info("Executing spontaneous post on {platform}", { platform: key });
+      await this.callback(state.platform, state.persona);
       state.lastExecutedAt = new Date();
-      logger.info("Spontaneous post completed on {platform}", { platform });
+      logger.info("Spontaneous post completed on {platform}", { platform: key });
     } catch (error) {
       // Critical: never crash the bot due to spontaneous post failure
       logger.error("Spontaneous post failed on {platform}", {
-        platform,
+        platform: key,
         error: error instanceof Error ? error.message : String(error),
       });
     } finally {
       state.isRunning = false;
       // Always schedule next, even on failure
       if (this.started) {
-        this.scheduleNext(platform);
+        this.scheduleNext(key);
       }
     }
   }
@@ -16,23 +16,24 @@ export interface SpontaneousTarget {
 }
 
 /**
- * Determine the target for a spontaneous post on Discord.
- * Randomly selects a channel or account from the whitelist.
+ * Determine the target for a spontaneous post from the platform's whitelist entries.
+ * Randomly selects a channel or account; accounts are resolved to a DM channel.
  */
-export async function determineDiscordTarget(
+async function determineWhitelistTarget(
+  platform: Platform,
   adapter: PlatformAdapter,
   config: Config,
 ): Promise<SpontaneousTarget | null> {
-  const discordEntries = config.accessControl.whitelist.filter(
-    (entry) => entry.startsWith("discord/"),
+  const platformEntries = config.accessControl.whitelist.filter(
+    (entry) => entry.startsWith(`${platform}/`),
   );
 
-  if (discordEntries.length === 0) {
-    logger.warn("No Discord whitelist entries available for spontaneous post");
+  if (platformEntries.length === 0) {
+    logger.warn("No {platform} whitelist entries available for spontaneous post", { platform });
     return null;
   }
 
-  const selectedEntry = discordEntries[Math.floor(Math.random() * discordEntries.length)];
+  const selectedEntry = platformEntries[Math.floor(Math.random() * platformEntries.length)];
   const parts = selectedEntry.split("/");
   const type = parts[1]; // "account" or "channel"
   const id = parts[2];
@@ -67,6 +68,28 @@ export async function determineDiscordTarget(
   return null;
 }
 
+/**
+ * Determine the target for a spontaneous post on Discord.
+ * Randomly selects a channel or account from the whitelist.
+ */
+export function determineDiscordTarget(
+  adapter: PlatformAdapter,
+  config: Config,
+): Promise<SpontaneousTarget | null> {
+  return determineWhitelistTarget("discord", adapter, config);
+}
+
+/**
+ * Determine the target for a spontaneous post on Telegram.
+ * Randomly selects a chat or account from the whitelist; accounts map to their private chat.
+ */
+export function determineTelegramTarget(
+  adapter: PlatformAdapter,
+  config: Config,
+): Promise<SpontaneousTarget | null> {
+  return determineWhitelistTarget("telegram", adapter, config);
+}
+
 /**
  * Determine the target for a spontaneous post on Misskey.
  * Always returns the bot's own timeline (creates a new note).
@@ -75,6 +98,44 @@ export function determineMisskeyTarget(): SpontaneousTarget {
   return { channelId: "timeline:self" };
 }
 
+/**
+ * Determine the target for a spontaneous post on Matrix.
+ * Randomly selects a room or account from the whitelist; accounts use (or create) a DM room.
+ */
+export function determineMatrixTarget(
+  adapter: PlatformAdapter,
+  config: Config,
+): Promise<SpontaneousTarget | null> {
+  return determineWhitelistTarget("matrix", adapter, config);
+}
+
+/**
+ * Determine the target for a spontaneous post on Mastodon.
+ * Always returns the bot's own timeline (posts a new public status).
+ */
+export function determineMastodonTarget(): SpontaneousTarget {
+  return { channelId: "timeline:self" };
+}
+
+/**
+ * Determine the target for a spontaneous post on the local console.
+ * Always returns the channel the console user is chatting in.
+ */
+export function determineConsoleTarget(adapter: PlatformAdapter): SpontaneousTarget {
+  return { channelId: (adapter as PlatformAdapter & { getChannelId(): string }).getChannelId() };
+}
+
+/**
+ * Determine the target for a spontaneous post on the webhook platform.
+ * Randomly selects a channel or account from the whitelist; accounts use their last DM channel.
+ */
+export function determineWebhookTarget(
+  adapter: PlatformAdapter,
+  config: Config,
+): Promise<SpontaneousTarget | null> {
+  return determineWhitelistTarget("webhook", adapter, config);
+}
+
 /**
  * Determine the target for a spontaneous post on any platform.
  */
@@ -88,6 +149,16 @@ export async function determineSpontaneousTarget(
       return await determineDiscordTarget(adapter, config);
     case "misskey":
       return determineMisskeyTarget();
+    case "telegram":
+      return await determineTelegramTarget(adapter, config);
+    case "matrix":
+      return await determineMatrixTarget(adapter, config);
+    case "mastodon":
+      return determineMastodonTarget();
+    case "console":
+      return determineConsoleTarget(adapter);
+    case "webhook":
+      return await determineWebhookTarget(adapter, config);
     default:
       logger.warn("Unsupported platform for spontaneous post: {platform}", { platform });
       return null;
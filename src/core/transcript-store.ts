@@ -0,0 +1,376 @@
+// src/core/transcript-store.ts
+
+import { dirname, join } from "@std/path";
+import { createLogger } from "@utils/logger.ts";
+import { encodePathComponent, ensureDirectory } from "@utils/path-validator.ts";
+import type { PlatformAdapter } from "@platforms/platform-adapter.ts";
+import type { TranscriptConfig } from "../types/config.ts";
+import {
+  getAccountKey,
+  type MessageActivity,
+  type NormalizedEvent,
+  type PlatformMessage,
+} from "../types/events.ts";
+import type { ReplyOptions, ReplyResult } from "../types/platform.ts";
+import type { ChannelHistory, TranscriptEntry } from "../types/transcript.ts";
+
+const logger = createLogger("TranscriptStore");
+
+/**
+ * Default transcript configuration
+ */
+export const DEFAULT_TRANSCRIPT: TranscriptConfig = {
+  enabled: true,
+  contextSource: "platform",
+};
+
+/**
+ * Directory in the data directory holding the transcripts
+ */
+const TRANSCRIPTS_DIR = "transcripts";
+
+/**
+ * Only the end of a transcript is read: recent messages never need more,
+ * and older edits and deletions only concern messages outside the window
+ */
+const READ_WINDOW_BYTES = 256 * 1024;
+
+/**
+ * Persists the messages of each channel to a local JSONL transcript:
+ * received events, deletions and reactions, and the replies, edits and reactions
+ * the bot sends. Recent messages can be read back when the platform cannot
+ * provide them, and /clear commands are kept as markers.
+ *
+ * Layout: {repoPath}/transcripts/{accountKey}/{channelId}.jsonl
+ */
+export class TranscriptStore {
+  private readonly rootPath: string;
+  /** Pending appends per transcript file, so entries keep their order */
+  private writes = new Map<string, Promise<void>>();
+  /** Usernames by account key and user ID, so each user is looked up once */
+  private usernames = new Map<string, string>();
+  /** Messages answered privately (Discord /ask) and the replies to them */
+  private hiddenMessageIds = new Set<string>();
+
+  constructor(repoPath: string) {
+    this.rootPath = join(repoPath, TRANSCRIPTS_DIR);
+  }
+
+  /**
+   * Record the traffic of a platform adapter: its events and activities, and the
+   * messages sent, edited, reacted to and deleted through it by any component.
+   * Must be called before other event handlers are registered, so an event is
+   * recorded before it is answered.
+   */
+  attach(adapter: PlatformAdapter): void {
+    adapter.onEvent((event) => this.recordEvent(adapter, event));
+    adapter.onActivity((activity) => this.recordActivity(adapter, activity));
+
+    const sendReply = adapter.sendReply.bind(adapter);
+    adapter.sendReply = async (channelId: string, content: string, options?: ReplyOptions) => {
+      const result = await sendReply(channelId, content, options);
+      if (result.success) {
+        await this.recordReply(adapter, channelId, content, result, options?.replyToMessageId);
+      }
+      return result;
+    };
+
+    const editMessage = adapter.editMessage.bind(adapter);
+    adapter.editMessage = async (
+      channelId: string,
+      messageId: string,
+      newContent: string,
+      replyToMessageId?: string,
+    ) => {
+      const result = await editMessage(channelId, messageId, newContent, replyToMessageId);
+      if (result.success && !this.hiddenMessageIds.has(messageId)) {
+        const newMessageId = result.messageId && result.messageId !== messageId
+          ? result.messageId
+          : undefined;
+        await this.append(adapter, channelId, {
+          type: "edit",
+          messageId,
+          ts: new Date().toISOString(),
+          content: newContent,
+          ...(newMessageId ? { newMessageId } : {}),
+        });
+      }
+      return result;
+    };
+
+    const addReaction = adapter.addReaction.bind(adapter);
+    adapter.addReaction = async (channelId: string, messageId: string, emoji: string) => {
+      const result = await addReaction(channelId, messageId, emoji);
+      if (result.success && !this.hiddenMessageIds.has(messageId)) {
+        await this.append(adapter, channelId, {
+          type: "reaction",
+          messageId,
+          ts: new Date().toISOString(),
+          userId: adapter.getBotId() ?? "",
+          reaction: emoji,
+          isBot: true,
+        });
+      }
+      return result;
+    };
+
+    if (adapter.deleteMessage) {
+      const deleteMessage = adapter.deleteMessage.bind(adapter);
+      adapter.deleteMessage = async (channelId: string, messageId: string) => {
+        const result = await deleteMessage(channelId, messageId);
+        if (result.success) {
+          await this.append(adapter, channelId, {
+            type: "delete",
+            messageId,
+            ts: new Date().toISOString(),
+          });
+        }
+        return result;
+      };
+    }
+  }
+
+  /**
+   * Read the recent messages of a channel: the latest messages after the last
+   * /clear marker, with edits and deletions applied
+   */
+  async readRecent(accountKey: string, channelId: string, limit: number): Promise<ChannelHistory> {
+    const path = this.getTranscriptPath(accountKey, channelId);
+    await this.writes.get(path);
+
+    const messages = new Map<string, PlatformMessage>();
+    let clearedAt: Date | undefined;
+
+    for (const entry of await this.readEntries(path)) {
+      switch (entry.type) {
+        case "message":
+          messages.set(entry.messageId, {
+            messageId: entry.messageId,
+            userId: entry.userId,
+            username: entry.username,
+            content: entry.content,
+            timestamp: new Date(entry.ts),
+            isBot: entry.isBot,
+            ...(entry.attachments ? { attachments: entry.attachments } : {}),
+          });
+          break;
+        case "edit": {
+          const message = messages.get(entry.messageId);
+          if (!message) break;
+          message.content = entry.content;
+          if (entry.newMessageId) {
+            messages.delete(entry.messageId);
+            messages.set(entry.newMessageId, { ...message, messageId: entry.newMessageId });
+          }
+          break;
+        }
+        case "delete":
+          messages.delete(entry.messageId);
+          break;
+        case "clear":
+          messages.clear();
+          clearedAt = new Date(entry.ts);
+          break;
+      }
+    }
+
+    const recent = Array.from(messages.values())
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+      .slice(-limit);
+    return clearedAt ? { messages: recent, clearedAt } : { messages: recent };
+  }
+
+  private async recordEvent(adapter: PlatformAdapter, event: NormalizedEvent): Promise<void> {
+    if (event.ephemeral) {
+      this.hiddenMessageIds.add(event.messageId);
+      return;
+    }
+
+    await this.append(adapter, event.channelId, {
+      type: "message",
+      messageId: event.messageId,
+      ts: event.timestamp.toISOString(),
+      userId: event.userId,
+      username: await this.getUsername(adapter, event.userId),
+      content: event.content,
+      isBot: false,
+      ...(event.attachments?.length ? { attachments: event.attachments } : {}),
+    });
+
+    if (event.content.trimStart().startsWith("/clear")) {
+      await this.append(adapter, event.channelId, {
+        type: "clear",
+        messageId: event.messageId,
+        ts: event.timestamp.toISOString(),
+        userId: event.userId,
+      });
+    }
+  }
+
+  private async recordActivity(adapter: PlatformAdapter, activity: MessageActivity): Promise<void> {
+    if (this.hiddenMessageIds.has(activity.messageId)) return;
+
+    const ts = new Date().toISOString();
+    switch (activity.type) {
+      case "deleted":
+        await this.append(adapter, activity.channelId, {
+          type: "delete",
+          messageId: activity.messageId,
+          ts,
+        });
+        break;
+      case "reacted":
+        await this.append(adapter, activity.channelId, {
+          type: "reaction",
+          messageId: activity.messageId,
+          ts,
+          userId: activity.userId,
+          reaction: activity.reaction,
+          isBot: false,
+        });
+        break;
+      case "cleared":
+        await this.append(adapter, activity.channelId, {
+          type: "clear",
+          messageId: activity.messageId,
+          ts,
+          userId: activity.userId,
+        });
+        break;
+    }
+  }
+
+  private async recordReply(
+    adapter: PlatformAdapter,
+    channelId: string,
+    content: string,
+    result: ReplyResult,
+    replyToMessageId?: string,
+  ): Promise<void> {
+    const messageId = result.messageId ?? result.messageIds?.[0];
+    if (!messageId) return;
+
+    if (replyToMessageId && this.hiddenMessageIds.has(replyToMessageId)) {
+      this.hiddenMessageIds.add(messageId);
+      return;
+    }
+
+    const botId = adapter.getBotId() ?? "";
+    await this.append(adapter, channelId, {
+      type: "message",
+      messageId,
+      ts: new Date().toISOString(),
+      userId: botId,
+      username: botId ? await this.getUsername(adapter, botId) : "bot",
+      content,
+      isBot: true,
+      ...(replyToMessageId ? { replyToMessageId } : {}),
+    });
+  }
+
+  /**
+   * Append an entry to the transcript of a channel. Failures are logged, never thrown:
+   * recording must not break the message it records.
+   */
+  private async append(
+    adapter: PlatformAdapter,
+    channelId: string,
+    entry: TranscriptEntry,
+  ): Promise<void> {
+    const accountKey = getAccountKey(adapter.platform, adapter.getPersonaName());
+    const path = this.getTranscriptPath(accountKey, channelId);
+
+    const previous = this.writes.get(path) ?? Promise.resolve();
+    const write = previous.then(async () => {
+      await ensureDirectory(dirname(path));
+      await Deno.writeTextFile(path, JSON.stringify(entry) + "\n", { append: true });
+    });
+
+    const settled = write.catch(() => {});
+    this.writes.set(path, settled);
+    try {
+      await write;
+    } catch (error) {
+      logger.warn("Failed to record {type} in transcript", {
+        type: entry.type,
+        platform: accountKey,
+        channelId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    } finally {
+      if (this.writes.get(path) === settled) {
+        this.writes.delete(path);
+      }
+    }
+  }
+
+  /**
+   * Read the entries in the last READ_WINDOW_BYTES of a transcript file
+   */
+  private async readEntries(path: string): Promise<TranscriptEntry[]> {
+    let file: Deno.FsFile;
+    try {
+      file = await Deno.open(path);
+    } catch (error) {
+      if (error instanceof Deno.errors.NotFound) return [];
+      throw error;
+    }
+
+    let text: string;
+    try {
+      const { size } = await file.stat();
+      const start = Math.max(0, size - READ_WINDOW_BYTES);
+      await file.seek(start, Deno.SeekMode.Start);
+
+      const buffer = new Uint8Array(size - start);
+      let length = 0;
+      while (length < buffer.length) {
+        const read = await file.read(buffer.subarray(length));
+        if (read === null) break;
+        length += read;
+      }
+      text = new TextDecoder().decode(buffer.subarray(0, length));
+      // The window may start in the middle of an entry
+      if (start > 0) text = text.slice(text.indexOf("\n") + 1);
+    } finally {
+      file.close();
+    }
+
+    const entries: TranscriptEntry[] = [];
+    let invalidLines = 0;
+    for (const line of text.split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        entries.push(JSON.parse(line) as TranscriptEntry);
+      } catch {
+        invalidLines++;
+      }
+    }
+    if (invalidLines > 0) {
+      logger.warn("Skipped {count} unreadable transcript lines", { count: invalidLines, path });
+    }
+    return entries;
+  }
+
+  private async getUsername(adapter: PlatformAdapter, userId: string): Promise<string> {
+    const key = `${getAccountKey(adapter.platform, adapter.getPersonaName())}/${userId}`;
+    let username = this.usernames.get(key);
+    if (username === undefined) {
+      try {
+        username = await adapter.getUsername(userId);
+      } catch {
+        username = userId;
+      }
+      this.usernames.set(key, username);
+    }
+    return username;
+  }
+
+  private getTranscriptPath(accountKey: string, channelId: string): string {
+    return join(
+      this.rootPath,
+      ...accountKey.split("/").map(encodePathComponent),
+      `${encodePathComponent(channelId)}.jsonl`,
+    );
+  }
+}
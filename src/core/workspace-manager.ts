@@ -3,9 +3,10 @@
 import { join, resolve } from "@std/path";
 import { createLogger } from "@utils/logger.ts";
 import {
+  decodePathComponent,
+  encodePathComponent,
   ensureDirectory,
   pathExists,
-  sanitizePathComponent,
   validatePathWithinBoundary,
 } from "@utils/path-validator.ts";
 import type {
@@ -14,7 +15,7 @@ import type {
   WorkspaceManagerConfig,
 } from "../types/workspace.ts";
 import { MemoryFileType } from "../types/workspace.ts";
-import type { NormalizedEvent } from "../types/events.ts";
+import { type NormalizedEvent, type Platform, PLATFORMS } from "../types/events.ts";
 import { ErrorCode, WorkspaceError } from "../types/errors.ts";
 
 const logger = createLogger("WorkspaceManager");
@@ -35,18 +36,46 @@ export class WorkspaceManager {
 
   /**
    * Compute workspace key from event components
-   * Format: {platform}/{user_id}
+   * Format: {platform}/{user_id}, or {persona}/{platform}/{user_id} for personas other
+   * than the default one, so memories never leak between characters.
    * Memory is per-user, not per-channel — the same user's memories are shared
    * across all channels/threads they interact in.
    */
   computeWorkspaceKey(components: WorkspaceKeyComponents): string {
-    const { platform, userId } = components;
+    const { platform, userId, persona } = components;
 
-    // Sanitize each component to prevent path traversal
-    const safePlatform = sanitizePathComponent(platform);
-    const safeUserId = sanitizePathComponent(userId);
+    // Encode each component to prevent path traversal while keeping IDs such as
+    // Matrix "@user:server" distinct and filesystem-safe
+    const safePlatform = encodePathComponent(platform);
+    const safeUserId = encodePathComponent(userId);
 
-    return `${safePlatform}/${safeUserId}`;
+    return persona
+      ? `${encodePathComponent(persona)}/${safePlatform}/${safeUserId}`
+      : `${safePlatform}/${safeUserId}`;
+  }
+
+  /**
+   * Parse a workspace key back into its components.
+   * Returns null if the key is malformed or refers to an unknown platform.
+   */
+  parseWorkspaceKey(workspaceKey: string): WorkspaceKeyComponents | null {
+    const parts = workspaceKey.split("/");
+    if (parts.length < 2 || parts.length > 3 || !parts[parts.length - 1]) {
+      return null;
+    }
+
+    try {
+      const components = parts.map(decodePathComponent);
+      const persona = components.length === 3 ? components.shift() : undefined;
+      const [platform, userId] = components;
+      if (!isPlatform(platform) || (persona !== undefined && (!persona || isPlatform(persona)))) {
+        return null;
+      }
+      return persona ? { platform, userId, persona } : { platform, userId };
+    } catch {
+      // Malformed percent-encoding
+      return null;
+    }
   }
 
   /**
@@ -56,6 +85,7 @@ export class WorkspaceManager {
     return this.computeWorkspaceKey({
       platform: event.platform,
       userId: event.userId,
+      persona: event.persona,
     });
   }
 
@@ -104,6 +134,7 @@ export class WorkspaceManager {
       components: {
         platform: event.platform,
         userId: event.userId,
+        ...(event.persona ? { persona: event.persona } : {}),
       },
       path,
       isDm: event.isDm,
@@ -212,11 +243,14 @@ export class WorkspaceManager {
 
   /**
    * Get or create the Agent's global workspace.
-   * Path: {repoPath}/agent-workspace/
-   * This workspace is shared across all users and conversations.
+   * Path: {repoPath}/agent-workspace/, or {repoPath}/agent-workspaces/{persona}/ for
+   * personas other than the default one.
+   * This workspace is shared across all users and conversations of the persona.
    */
-  async getOrCreateAgentWorkspace(): Promise<string> {
-    const agentWorkspacePath = resolve(join(this.repoPath, "agent-workspace"));
+  async getOrCreateAgentWorkspace(persona?: string): Promise<string> {
+    const agentWorkspacePath = persona
+      ? resolve(join(this.repoPath, "agent-workspaces", encodePathComponent(persona)))
+      : resolve(join(this.repoPath, "agent-workspace"));
 
     // Validate path is within repoPath boundary
     validatePathWithinBoundary(agentWorkspacePath, this.repoPath);
@@ -274,24 +308,24 @@ This is your personal workspace for long-term knowledge and notes.
   }
 
   /**
-   * List workspaces (for debugging/admin purposes)
+   * List workspaces (for debugging/admin purposes), including those of all personas
    */
   async listWorkspaces(platform?: string): Promise<string[]> {
     const workspaces: string[] = [];
 
     try {
-      for await (const platformEntry of Deno.readDir(this.workspacesRoot)) {
-        if (!platformEntry.isDirectory) continue;
-        if (platform && platformEntry.name !== platform) continue;
+      for await (const entry of Deno.readDir(this.workspacesRoot)) {
+        if (!entry.isDirectory) continue;
 
-        const platformPath = join(this.workspacesRoot, platformEntry.name);
-
-        for await (const userEntry of Deno.readDir(platformPath)) {
-          if (!userEntry.isDirectory) continue;
+        // Top-level directories are platforms, or personas holding their own platforms
+        if (isPlatform(decodePathComponent(entry.name))) {
+          await this.collectWorkspaces(entry.name, [], workspaces, platform);
+          continue;
+        }
 
-          workspaces.push(
-            `${platformEntry.name}/${userEntry.name}`,
-          );
+        for await (const platformEntry of Deno.readDir(join(this.workspacesRoot, entry.name))) {
+          if (!platformEntry.isDirectory) continue;
+          await this.collectWorkspaces(platformEntry.name, [entry.name], workspaces, platform);
         }
       }
     } catch (error) {
@@ -302,4 +336,27 @@ This is your personal workspace for long-term knowledge and notes.
 
     return workspaces;
   }
+
+  /**
+   * Add the user workspaces of a platform directory to the list
+   */
+  private async collectWorkspaces(
+    platformDir: string,
+    prefix: string[],
+    workspaces: string[],
+    platform?: string,
+  ): Promise<void> {
+    if (platform && platformDir !== platform) return;
+
+    const platformPath = join(this.workspacesRoot, ...prefix, platformDir);
+    for await (const userEntry of Deno.readDir(platformPath)) {
+      if (!userEntry.isDirectory) continue;
+
+      workspaces.push([...prefix, platformDir, userEntry.name].join("/"));
+    }
+  }
+}
+
+function isPlatform(value: string | undefined): value is Platform {
+  return (PLATFORMS as readonly (string | undefined)[]).includes(value);
 }
@@ -163,6 +163,15 @@ export class HealthCheckServer {
           message: status.lastError,
         });
       }
+
+      // Check agent capacity: a full queue means messages are being turned away
+      const agents = this.context.agentCore.getOrchestrator().getAgentLimiter().getStatus();
+      checks.push({
+        name: "agent-capacity",
+        status: agents.saturated ? "warn" : "pass",
+        message: `${agents.active}/${agents.maxAgents || "∞"} agents running, ` +
+          `${agents.queued}/${agents.maxQueued} queued`,
+      });
     }
 
     // Determine overall status
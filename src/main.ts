@@ -4,19 +4,30 @@ import { bootstrap, startPlatforms } from "./bootstrap.ts";
 import { shutdownHandler } from "./shutdown.ts";
 import { configureLogger, createLogger } from "@utils/logger.ts";
 import { parse } from "@std/flags";
+import type { ConfigOverrides } from "@core/config-loader.ts";
+import { type Platform, PLATFORMS } from "./types/events.ts";
 
 const logger = createLogger("Main");
 
 /**
  * Parse command line arguments
  */
-function parseArgs(): { config?: string; help: boolean; yolo: boolean } {
+function parseArgs(): {
+  config?: string;
+  help: boolean;
+  yolo: boolean;
+  platform?: string;
+  user?: string;
+  dm: boolean;
+  guild?: string;
+} {
   const args = parse(Deno.args, {
-    string: ["config"],
-    boolean: ["help", "yolo"],
+    string: ["config", "platform", "user", "guild"],
+    boolean: ["help", "yolo", "dm"],
     alias: {
       c: "config",
       h: "help",
+      p: "platform",
     },
   });
 
@@ -24,9 +35,35 @@ function parseArgs(): { config?: string; help: boolean; yolo: boolean } {
     config: args.config,
     help: args.help,
     yolo: args.yolo || false,
+    platform: args.platform,
+    user: args.user,
+    dm: args.dm || false,
+    guild: args.guild,
   };
 }
 
+/**
+ * Build configuration overrides from command line arguments
+ */
+function buildConfigOverrides(args: ReturnType<typeof parseArgs>): ConfigOverrides {
+  if (!args.platform) return {};
+
+  if (!(PLATFORMS as readonly string[]).includes(args.platform)) {
+    console.error(`Unknown platform: ${args.platform} (expected one of: ${PLATFORMS.join(", ")})`);
+    Deno.exit(1);
+  }
+
+  const platform = args.platform as Platform;
+  if (platform !== "console") return { platform };
+
+  const platformConfig: Record<string, unknown> = {};
+  if (args.user) platformConfig.userId = args.user;
+  if (args.dm) platformConfig.isDm = true;
+  if (args.guild) platformConfig.guildId = args.guild;
+
+  return { platform, platformConfig };
+}
+
 /**
  * Print help message
  */
@@ -41,15 +78,29 @@ Options:
   -c, --config <path>   Path to configuration file (default: config.yaml)
   -h, --help            Show this help message
   --yolo                Auto-approve all permission requests (for container environments)
+  -p, --platform <name> Run only this platform (e.g., console for a local REPL)
+
+Console Options (with --platform console):
+  --user <id>           User ID to act as (default: console-user)
+  --dm                  Send messages as direct messages
+  --guild <id>          Guild ID for non-DM messages (default: console)
 
 Environment Variables:
   LOG_LEVEL             Log level (DEBUG, INFO, WARN, ERROR, FATAL)
   DISCORD_TOKEN         Discord bot token
   MISSKEY_TOKEN         Misskey API token
   MISSKEY_HOST          Misskey instance host
-
-Example:
+  TELEGRAM_TOKEN        Telegram bot token
+  MATRIX_HOMESERVER_URL Matrix homeserver URL
+  MATRIX_ACCESS_TOKEN   Matrix access token
+  MASTODON_HOST         Mastodon instance host
+  MASTODON_TOKEN        Mastodon access token
+  WEBHOOK_SECRET        Webhook shared secret
+  WEBHOOK_CALLBACK_URL  Webhook callback URL for bot replies
+
+Examples:
   deno run -A src/main.ts --config ./my-config.yaml --yolo
+  deno task dev --platform console --dm
 `);
 }
 
@@ -73,7 +124,7 @@ async function main(): Promise<void> {
 
   try {
     // Bootstrap application
-    const context = await bootstrap(args.config, args.yolo);
+    const context = await bootstrap(args.config, args.yolo, buildConfigOverrides(args));
 
     // Set up shutdown handler
     shutdownHandler.setContext(context);
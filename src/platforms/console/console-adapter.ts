@@ -0,0 +1,291 @@
+// src/platforms/console/console-adapter.ts
+
+import { createLogger } from "@utils/logger.ts";
+import { PlatformAdapter } from "@platforms/platform-adapter.ts";
+import type { NormalizedEvent, Platform, PlatformMessage } from "../../types/events.ts";
+import {
+  ConnectionState,
+  PlatformCapabilities,
+  type PlatformEmoji,
+  type ReactionResult,
+  type ReplyOptions,
+  type ReplyResult,
+} from "../../types/platform.ts";
+import { CONSOLE_BOT_ID, ConsoleAdapterConfig, DEFAULT_CONSOLE_CONFIG } from "./console-config.ts";
+
+const logger = createLogger("ConsoleAdapter");
+
+/**
+ * Local REPL adapter for offline development.
+ * Reads user messages from stdin (one per line) and prints the bot's
+ * replies, edits and reactions to stdout. History is kept in memory.
+ */
+export class ConsoleAdapter extends PlatformAdapter {
+  readonly platform: Platform = "console";
+  readonly capabilities: PlatformCapabilities = {
+    canFetchHistory: true,
+    canSearchMessages: false,
+    supportsDm: true,
+    supportsGuild: true,
+    supportsReactions: true,
+    maxMessageLength: 4000,
+  };
+
+  private readonly config: Required<Omit<ConsoleAdapterConfig, "input" | "output">>;
+  private readonly input: ReadableStream<Uint8Array> | undefined;
+  private readonly output: (text: string) => void;
+  private readonly history = new Map<string, PlatformMessage[]>();
+  private nextMessageId = 1;
+  private running = false;
+  private reader: ReadableStreamDefaultReader<string> | null = null;
+  private readLoop: Promise<void> | null = null;
+
+  constructor(config: ConsoleAdapterConfig = {}) {
+    super();
+
+    const { input, output, ...rest } = config;
+    this.config = {
+      ...DEFAULT_CONSOLE_CONFIG,
+      ...Object.fromEntries(Object.entries(rest).filter(([, value]) => value !== undefined)),
+    } as Required<Omit<ConsoleAdapterConfig, "input" | "output">>;
+    this.input = input;
+    this.output = output ?? ((text) => console.log(text));
+  }
+
+  /**
+   * Channel ID used for the console user's messages
+   */
+  getChannelId(): string {
+    return this.config.isDm ? `dm:${this.config.userId}` : "general";
+  }
+
+  /**
+   * Start reading user input
+   */
+  connect(): Promise<void> {
+    this.updateConnectionState(ConnectionState.CONNECTING);
+
+    this.running = true;
+    this.readLoop = this.read(this.input ?? Deno.stdin.readable);
+
+    this.updateConnectionState(ConnectionState.CONNECTED);
+    this.output(
+      `[console] Chatting as ${this.config.username} (${this.config.userId}) in ${
+        this.config.isDm ? "a DM" : `guild ${this.config.guildId}`
+      }. Type a message and press Enter; /clear resets the context.`,
+    );
+
+    return Promise.resolve();
+  }
+
+  /**
+   * Read input line by line until the stream ends or disconnect() is called
+   */
+  private async read(input: ReadableStream<Uint8Array>): Promise<void> {
+    this.reader = input.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = "";
+
+    try {
+      while (this.running) {
+        const { value, done } = await this.reader.read();
+        if (done) break;
+        buffer += value;
+
+        let newline = buffer.indexOf("\n");
+        while (newline !== -1) {
+          this.handleLine(buffer.slice(0, newline).replace(/\r$/, ""));
+          buffer = buffer.slice(newline + 1);
+          newline = buffer.indexOf("\n");
+        }
+      }
+      if (this.running && buffer) this.handleLine(buffer);
+    } catch (error) {
+      if (this.running) {
+        logger.error("Failed to read console input", {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    } finally {
+      this.reader.releaseLock();
+      this.reader = null;
+    }
+
+    if (this.running) {
+      logger.info("Console input closed");
+    }
+  }
+
+  /**
+   * Turn an input line into a message event
+   */
+  private handleLine(line: string): void {
+    const content = line.trim();
+    if (!content) return;
+
+    const channelId = this.getChannelId();
+    const message = this.recordMessage(channelId, {
+      messageId: String(this.nextMessageId++),
+      userId: this.config.userId,
+      username: `@${this.config.username} (${this.config.userId})`,
+      content,
+      timestamp: new Date(),
+      isBot: false,
+    });
+
+    const event: NormalizedEvent = {
+      platform: this.platform,
+      channelId,
+      userId: this.config.userId,
+      messageId: message.messageId,
+      isDm: this.config.isDm,
+      guildId: this.config.isDm ? "" : this.config.guildId,
+      content,
+      timestamp: message.timestamp,
+    };
+
+    // emitEvent resolves after the whole session; keep reading input meanwhile
+    this.emitEvent(event).catch((error) => {
+      logger.error("Failed to handle console message", {
+        messageId: event.messageId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    });
+  }
+
+  /**
+   * Append or replace a message in the channel history
+   */
+  private recordMessage(channelId: string, message: PlatformMessage): PlatformMessage {
+    const messages = this.history.get(channelId) ?? [];
+    const existingIndex = messages.findIndex((m) => m.messageId === message.messageId);
+
+    if (existingIndex !== -1) {
+      messages[existingIndex] = message;
+    } else {
+      messages.push(message);
+    }
+    if (messages.length > this.config.historyLimit) {
+      messages.splice(0, messages.length - this.config.historyLimit);
+    }
+
+    this.history.set(channelId, messages);
+    return message;
+  }
+
+  /**
+   * Stop reading user input
+   */
+  async disconnect(): Promise<void> {
+    this.running = false;
+    await this.reader?.cancel().catch(() => {});
+    await this.readLoop;
+    this.readLoop = null;
+
+    this.updateConnectionState(ConnectionState.DISCONNECTED);
+  }
+
+  /**
+   * Print a bot message
+   */
+  sendReply(
+    channelId: string,
+    content: string,
+    options?: ReplyOptions,
+  ): Promise<ReplyResult> {
+    const message = this.recordMessage(channelId, {
+      messageId: String(this.nextMessageId++),
+      userId: CONSOLE_BOT_ID,
+      username: `@bot (${CONSOLE_BOT_ID})`,
+      content,
+      timestamp: new Date(),
+      isBot: true,
+    });
+
+    const replyTo = options?.replyToMessageId ? ` -> #${options.replyToMessageId}` : "";
+    this.output(`[bot #${message.messageId}${replyTo}] ${content}`);
+
+    return Promise.resolve({ success: true, messageId: message.messageId });
+  }
+
+  /**
+   * Print an edited bot message
+   */
+  editMessage(
+    channelId: string,
+    messageId: string,
+    newContent: string,
+  ): Promise<ReplyResult> {
+    const existing = this.history.get(channelId)?.find((m) => m.messageId === messageId);
+    if (!existing) {
+      return Promise.resolve({
+        success: false,
+        error: `Failed to edit message: message ${messageId} not found`,
+      });
+    }
+
+    this.recordMessage(channelId, { ...existing, content: newContent });
+    this.output(`[bot #${messageId} edited] ${newContent}`);
+
+    return Promise.resolve({ success: true, messageId });
+  }
+
+  /**
+   * Return the in-memory history of a channel
+   */
+  fetchRecentMessages(
+    channelId: string,
+    limit: number,
+  ): Promise<PlatformMessage[]> {
+    const messages = this.history.get(channelId) ?? [];
+    return Promise.resolve(messages.slice(-limit));
+  }
+
+  /**
+   * The console has no custom emojis
+   */
+  fetchEmojis(): Promise<PlatformEmoji[]> {
+    return Promise.resolve([]);
+  }
+
+  /**
+   * Print a reaction
+   */
+  addReaction(
+    _channelId: string,
+    messageId: string,
+    emoji: string,
+  ): Promise<ReactionResult> {
+    this.output(`[bot reacted to #${messageId}] ${emoji}`);
+    return Promise.resolve({ success: true });
+  }
+
+  /**
+   * Get the DM channel ID for a user
+   */
+  getDmChannelId(userId: string): Promise<string | null> {
+    return Promise.resolve(`dm:${userId}`);
+  }
+
+  /**
+   * Get display name for a user ID
+   */
+  getUsername(userId: string): Promise<string> {
+    if (userId === this.config.userId) return Promise.resolve(this.config.username);
+    if (userId === CONSOLE_BOT_ID) return Promise.resolve("bot");
+    return Promise.resolve(userId);
+  }
+
+  /**
+   * Check if a user ID is the bot itself
+   */
+  isSelf(userId: string): boolean {
+    return userId === CONSOLE_BOT_ID;
+  }
+
+  /**
+   * Get the bot's user ID
+   */
+  getBotId(): string | null {
+    return CONSOLE_BOT_ID;
+  }
+}
@@ -0,0 +1,43 @@
+// src/platforms/console/console-config.ts
+
+/**
+ * Console adapter configuration
+ */
+export interface ConsoleAdapterConfig {
+  /** User ID the console user acts as */
+  userId?: string;
+
+  /** Display name of the console user */
+  username?: string;
+
+  /** Whether messages are sent as direct messages instead of guild messages */
+  isDm?: boolean;
+
+  /** Guild ID reported for non-DM messages */
+  guildId?: string;
+
+  /** Number of messages kept in memory for context */
+  historyLimit?: number;
+
+  /** Source of user input lines (defaults to stdin) */
+  input?: ReadableStream<Uint8Array>;
+
+  /** Sink for rendered bot output (defaults to stdout) */
+  output?: (text: string) => void;
+}
+
+/**
+ * Default console configuration
+ */
+export const DEFAULT_CONSOLE_CONFIG: Partial<ConsoleAdapterConfig> = {
+  userId: "console-user",
+  username: "console",
+  isDm: false,
+  guildId: "console",
+  historyLimit: 200,
+};
+
+/**
+ * User ID of the bot in console sessions
+ */
+export const CONSOLE_BOT_ID = "console-bot";
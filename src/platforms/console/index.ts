@@ -0,0 +1,5 @@
+// src/platforms/console/index.ts
+
+export { ConsoleAdapter } from "./console-adapter.ts";
+export { CONSOLE_BOT_ID, DEFAULT_CONSOLE_CONFIG } from "./console-config.ts";
+export type { ConsoleAdapterConfig } from "./console-config.ts";
@@ -1,18 +1,30 @@
 // src/platforms/discord/discord-adapter.ts
 
 import {
+  type AttachmentBuilder,
   ChannelType,
+  type ChatInputCommandInteraction,
   Client,
   type DMChannel,
+  type Guild,
+  type Interaction,
   type Message,
+  MessageFlags,
+  type MessageReaction,
   type NewsChannel,
+  type PartialMessage,
+  type PartialMessageReaction,
+  type PartialUser,
   REST,
   Routes,
   type TextChannel,
+  type ThreadChannel,
+  type User,
 } from "discord.js";
 import { createLogger } from "@utils/logger.ts";
 import { PlatformAdapter } from "@platforms/platform-adapter.ts";
 import type { Platform, PlatformMessage } from "../../types/events.ts";
+import type { ThreadContext } from "../../types/context.ts";
 import {
   ConnectionState,
   type PlatformCapabilities,
@@ -20,20 +32,41 @@ import {
   type ReactionResult,
   type ReplyOptions,
   type ReplyResult,
+  type TypingIndicator,
 } from "../../types/platform.ts";
 import { ErrorCode, PlatformError } from "../../types/errors.ts";
 import { DEFAULT_DISCORD_CONFIG, type DiscordAdapterConfig } from "./discord-config.ts";
 import {
+  CLEAR_COMMAND_REPLY,
+  DISCORD_SLASH_COMMANDS,
+  getCommandArgs,
+  interactionToEvent,
+  isEphemeralCommand,
+  isSlashCommandName,
+} from "./discord-commands.ts";
+import {
+  buildThreadName,
   isBotMentioned,
   messageToPltatformMessage,
   normalizeDiscordMessage,
   removeBotMention,
   shouldRespondToMessage,
+  toDiscordFiles,
 } from "./discord-utils.ts";
 
 const logger = createLogger("DiscordAdapter");
 
-type TextBasedChannel = TextChannel | DMChannel | NewsChannel;
+type TextBasedChannel = TextChannel | DMChannel | NewsChannel | ThreadChannel;
+
+/**
+ * Maximum number of replies whose thread is remembered for later edits
+ */
+const MAX_TRACKED_THREAD_REPLIES = 1000;
+
+/**
+ * Typing indicator refresh interval (Discord shows it for about 10 seconds)
+ */
+const TYPING_REFRESH_INTERVAL_MS = 8_000;
 
 export class DiscordAdapter extends PlatformAdapter {
   readonly platform: Platform = "discord";
@@ -44,6 +77,8 @@ export class DiscordAdapter extends PlatformAdapter {
     supportsGuild: true,
     supportsReactions: true,
     maxMessageLength: 2000,
+    maxAttachmentSize: 10 * 1024 * 1024,
+    maxAttachments: 10,
   };
 
   private readonly client: Client;
@@ -53,6 +88,18 @@ export class DiscordAdapter extends PlatformAdapter {
   private emojiCacheTimestamp = 0;
   private readonly EMOJI_CACHE_TTL_MS = 5 * 60 * 1000; // 5 minutes
 
+  /** /ask interactions awaiting an answer, keyed by interaction ID */
+  private readonly pendingInteractions = new Map<string, ChatInputCommandInteraction>();
+
+  /** Interactions whose answer has been sent, keyed by the answer's message ID */
+  private readonly interactionReplies = new Map<string, ChatInputCommandInteraction>();
+
+  /** Thread IDs of replies sent in a newly opened thread, keyed by message ID */
+  private readonly threadReplies = new Map<string, string>();
+
+  /** Avatar URL of the persona last uploaded, so reconnections do not upload it again */
+  private appliedAvatarUrl: string | null = null;
+
   constructor(config: DiscordAdapterConfig) {
     super();
 
@@ -60,6 +107,7 @@ export class DiscordAdapter extends PlatformAdapter {
       ...DEFAULT_DISCORD_CONFIG,
       ...config,
     } as Required<DiscordAdapterConfig>;
+    this.capabilities.supportsTypingIndicator = this.config.typingIndicator;
 
     this.client = new Client({
       intents: this.config.intents,
@@ -83,14 +131,35 @@ export class DiscordAdapter extends PlatformAdapter {
         guilds: this.client.guilds.cache.size,
       });
 
-      // Cleanup all slash commands
-      await this.cleanupSlashCommands();
+      if (this.config.slashCommands) {
+        await this.registerSlashCommands();
+      }
+
+      await this.applyPersonaProfile();
+    });
+
+    this.client.on("guildCreate", async (guild) => {
+      if (this.persona?.displayName) {
+        await this.applyPersonaNickname(guild, this.persona.displayName);
+      }
     });
 
     this.client.on("messageCreate", async (message) => {
       await this.handleMessage(message);
     });
 
+    this.client.on("interactionCreate", async (interaction) => {
+      await this.handleInteraction(interaction);
+    });
+
+    this.client.on("messageDelete", async (message) => {
+      await this.handleMessageDelete(message);
+    });
+
+    this.client.on("messageReactionAdd", async (reaction, user) => {
+      await this.handleReactionAdd(reaction, user);
+    });
+
     this.client.on("error", (error) => {
       logger.error("Discord client error", {
         error: error.message,
@@ -110,50 +179,161 @@ export class DiscordAdapter extends PlatformAdapter {
   }
 
   /**
-   * Cleanup all slash commands (global and guild-based)
+   * Register the slash commands, per guild when guildIds is configured and globally otherwise.
+   * Guild commands show up immediately, while global commands may take a while to propagate.
    */
-  private async cleanupSlashCommands(): Promise<void> {
+  private async registerSlashCommands(): Promise<void> {
     if (!this.botId) {
-      logger.warn("Cannot cleanup commands: bot ID not set");
+      logger.warn("Cannot register commands: bot ID not set");
       return;
     }
 
     const rest = new REST().setToken(this.config.token);
+    const guildIds = this.config.guildIds ?? [];
 
-    try {
-      // Delete all global commands
-      logger.info("Deleting all global slash commands");
-      await rest.put(Routes.applicationCommands(this.botId), { body: [] });
-      logger.info("Successfully deleted all global slash commands");
-    } catch (error) {
-      logger.error("Failed to delete global commands", {
-        error: error instanceof Error ? error.message : String(error),
-      });
+    if (guildIds.length === 0) {
+      try {
+        await rest.put(Routes.applicationCommands(this.botId), { body: DISCORD_SLASH_COMMANDS });
+        logger.info("Registered {count} global slash commands", {
+          count: DISCORD_SLASH_COMMANDS.length,
+        });
+      } catch (error) {
+        logger.error("Failed to register global commands", {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+      return;
     }
 
-    // Delete guild-based commands for all guilds
-    const guilds = this.client.guilds.cache;
-    for (const [guildId, guild] of guilds) {
+    for (const guildId of guildIds) {
       try {
-        logger.info("Deleting slash commands for guild", {
-          guildId,
-          guildName: guild.name,
+        await rest.put(Routes.applicationGuildCommands(this.botId, guildId), {
+          body: DISCORD_SLASH_COMMANDS,
         });
-        await rest.put(Routes.applicationGuildCommands(this.botId, guildId), { body: [] });
-        logger.info("Successfully deleted all guild commands", {
+        logger.info("Registered {count} slash commands for guild {guildId}", {
+          count: DISCORD_SLASH_COMMANDS.length,
           guildId,
-          guildName: guild.name,
         });
       } catch (error) {
-        logger.error("Failed to delete guild commands", {
+        logger.error("Failed to register guild commands", {
           guildId,
-          guildName: guild.name,
           error: error instanceof Error ? error.message : String(error),
         });
       }
     }
   }
 
+  /**
+   * Handle a slash command interaction.
+   * The reply is deferred right away because Discord drops interactions that are
+   * not acknowledged within 3 seconds, and the agent usually takes longer.
+   */
+  private async handleInteraction(interaction: Interaction): Promise<void> {
+    if (!interaction.isChatInputCommand() || !isSlashCommandName(interaction.commandName)) {
+      return;
+    }
+    const name = interaction.commandName;
+
+    if (!interaction.guildId && !this.config.allowDm) {
+      await interaction.reply({
+        content: "I don't respond to direct messages.",
+        flags: MessageFlags.Ephemeral,
+      }).catch(() => {});
+      return;
+    }
+
+    logger.debug("Processing slash command", {
+      command: name,
+      interactionId: interaction.id,
+      channelId: interaction.channelId,
+    });
+
+    try {
+      await interaction.deferReply(
+        isEphemeralCommand(name) ? { flags: MessageFlags.Ephemeral } : {},
+      );
+
+      switch (name) {
+        case "clear":
+          await interaction.editReply(CLEAR_COMMAND_REPLY);
+          // The command is no message: report it so the transcript keeps the marker
+          await this.emitActivity({
+            type: "cleared",
+            platform: this.platform,
+            channelId: interaction.channelId,
+            messageId: interaction.id,
+            userId: interaction.user.id,
+          });
+          break;
+        case "ask":
+          await this.handleAskCommand(interaction);
+          break;
+        default: {
+          const result = await this.executeCommand({
+            name,
+            args: getCommandArgs(interaction),
+            event: interactionToEvent(interaction, `/${name}`),
+          });
+          await interaction.editReply(result.content);
+        }
+      }
+    } catch (error) {
+      logger.error("Failed to handle slash command", {
+        command: name,
+        interactionId: interaction.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Run an agent session for /ask. Replies to the interaction ID are sent
+   * as the (ephemeral) interaction response instead of a channel message.
+   */
+  private async handleAskCommand(interaction: ChatInputCommandInteraction): Promise<void> {
+    const question = interaction.options.getString("question", true);
+    this.pendingInteractions.set(interaction.id, interaction);
+
+    try {
+      await this.emitEvent({ ...interactionToEvent(interaction, question), ephemeral: true });
+
+      const answered = Array.from(this.interactionReplies.values()).includes(interaction);
+      if (!answered) {
+        await interaction.editReply("I don't have an answer for you right now.");
+      }
+    } finally {
+      this.pendingInteractions.delete(interaction.id);
+      for (const [messageId, pending] of this.interactionReplies) {
+        if (pending === interaction) this.interactionReplies.delete(messageId);
+      }
+    }
+  }
+
+  /**
+   * Send a reply as the response of a pending interaction
+   */
+  private async replyToInteraction(
+    interaction: ChatInputCommandInteraction,
+    content: string,
+    files: AttachmentBuilder[] = [],
+  ): Promise<ReplyResult> {
+    const answered = Array.from(this.interactionReplies.values()).includes(interaction);
+    const message = answered
+      ? await interaction.followUp({ content, files, flags: MessageFlags.Ephemeral })
+      : await interaction.editReply({ content, files });
+
+    this.interactionReplies.set(message.id, interaction);
+
+    logger.debug("Interaction reply sent", {
+      interactionId: interaction.id,
+      messageId: message.id,
+      contentLength: content.length,
+      fileCount: files.length,
+    });
+
+    return { success: true, messageId: message.id };
+  }
+
   /**
    * Handle incoming message
    */
@@ -201,6 +381,94 @@ export class DiscordAdapter extends PlatformAdapter {
     await this.emitEvent(normalizedEvent);
   }
 
+  /**
+   * Report deleted messages, except those of the bot itself
+   */
+  private async handleMessageDelete(message: Message | PartialMessage): Promise<void> {
+    if (message.author && message.author.id === this.botId) return;
+
+    await this.emitActivity({
+      type: "deleted",
+      platform: this.platform,
+      channelId: message.channelId,
+      messageId: message.id,
+    });
+  }
+
+  /**
+   * Report reactions added by users
+   */
+  private async handleReactionAdd(
+    reaction: MessageReaction | PartialMessageReaction,
+    user: User | PartialUser,
+  ): Promise<void> {
+    if (user.id === this.botId || user.bot) return;
+
+    await this.emitActivity({
+      type: "reacted",
+      platform: this.platform,
+      channelId: reaction.message.channelId,
+      messageId: reaction.message.id,
+      userId: user.id,
+      reaction: reaction.emoji.toString(),
+    });
+  }
+
+  /**
+   * Give the bot account the display name and avatar of its persona.
+   * The display name becomes the bot's nickname in each guild rather than its username:
+   * usernames are global, must be unique and can only be changed a few times per hour.
+   * DMs keep showing the username. Avatar changes are rate limited as well, so the avatar
+   * is only uploaded when its URL changed since the last connection.
+   */
+  private async applyPersonaProfile(): Promise<void> {
+    const user = this.client.user;
+    if (!this.persona || !user) return;
+
+    const { name, displayName, avatarUrl } = this.persona;
+    if (avatarUrl && avatarUrl !== this.appliedAvatarUrl) {
+      try {
+        await user.setAvatar(avatarUrl);
+        this.appliedAvatarUrl = avatarUrl;
+        logger.info("Applied avatar of persona {persona}", { persona: name, avatarUrl });
+      } catch (error) {
+        logger.warn("Failed to apply avatar of persona {persona}", {
+          persona: name,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    if (displayName) {
+      await Promise.all(
+        this.client.guilds.cache.map((guild) => this.applyPersonaNickname(guild, displayName)),
+      );
+    }
+  }
+
+  /**
+   * Set the persona's display name as the bot's nickname in a guild, when it differs
+   */
+  private async applyPersonaNickname(guild: Guild, displayName: string): Promise<void> {
+    const me = guild.members.me;
+    if (!me || me.nickname === displayName) return;
+
+    try {
+      await me.setNickname(displayName);
+      logger.info("Applied nickname of persona {persona} in guild {guildId}", {
+        persona: this.persona?.name,
+        guildId: guild.id,
+        displayName,
+      });
+    } catch (error) {
+      logger.warn("Failed to apply nickname of persona {persona} in guild {guildId}", {
+        persona: this.persona?.name,
+        guildId: guild.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
   /**
    * Connect to Discord
    */
@@ -247,7 +515,24 @@ export class DiscordAdapter extends PlatformAdapter {
     options?: ReplyOptions,
   ): Promise<ReplyResult> {
     try {
-      const channel = await this.client.channels.fetch(channelId);
+      // Truncate content if necessary
+      const truncatedContent = content.length > this.capabilities.maxMessageLength
+        ? content.slice(0, this.capabilities.maxMessageLength - 3) + "..."
+        : content;
+      const files = toDiscordFiles(options?.attachments);
+
+      // Replies to an interaction, or to one of its answers, stay private to the user
+      const replyTo = options?.replyToMessageId;
+      const interaction = replyTo
+        ? this.pendingInteractions.get(replyTo) ?? this.interactionReplies.get(replyTo)
+        : undefined;
+      if (interaction) {
+        return await this.replyToInteraction(interaction, truncatedContent, files);
+      }
+
+      // Replies to a message moved to a thread continue in that thread
+      const threadId = replyTo ? this.threadReplies.get(replyTo) : undefined;
+      const channel = await this.client.channels.fetch(threadId ?? channelId);
 
       if (!channel || !this.isTextBasedChannel(channel)) {
         return {
@@ -256,14 +541,32 @@ export class DiscordAdapter extends PlatformAdapter {
         };
       }
 
-      // Truncate content if necessary
-      const truncatedContent = content.length > this.capabilities.maxMessageLength
-        ? content.slice(0, this.capabilities.maxMessageLength - 3) + "..."
-        : content;
+      // Open a thread for long replies instead of flooding the channel
+      if (
+        options?.replyToMessageId &&
+        this.config.replyThreadThreshold > 0 &&
+        content.length > this.config.replyThreadThreshold &&
+        (channel.type === ChannelType.GuildText || channel.type === ChannelType.GuildAnnouncement)
+      ) {
+        const threadReply = await this.sendInThread(
+          channel,
+          options.replyToMessageId,
+          truncatedContent,
+          files,
+        );
+        if (threadReply) {
+          return threadReply;
+        }
+      }
 
       // Send reply
-      const messageOptions: { content: string; reply?: { messageReference: string } } = {
+      const messageOptions: {
+        content: string;
+        files: AttachmentBuilder[];
+        reply?: { messageReference: string };
+      } = {
         content: truncatedContent,
+        files,
       };
 
       if (options?.replyToMessageId) {
@@ -273,11 +576,15 @@ export class DiscordAdapter extends PlatformAdapter {
       }
 
       const sentMessage = await channel.send(messageOptions);
+      if (threadId) {
+        this.trackThreadReply(sentMessage.id, threadId);
+      }
 
       logger.debug("Reply sent", {
         channelId,
         messageId: sentMessage.id,
         contentLength: content.length,
+        fileCount: files.length,
       });
 
       return {
@@ -299,6 +606,56 @@ export class DiscordAdapter extends PlatformAdapter {
     }
   }
 
+  /**
+   * Send a reply in a thread started from the trigger message.
+   * Returns null if the thread cannot be opened, so the caller can reply in the channel.
+   */
+  private async sendInThread(
+    channel: TextChannel | NewsChannel,
+    triggerMessageId: string,
+    content: string,
+    files: AttachmentBuilder[],
+  ): Promise<ReplyResult | null> {
+    let thread: ThreadChannel;
+    try {
+      const trigger = await channel.messages.fetch(triggerMessageId);
+      thread = trigger.thread ?? await trigger.startThread({
+        name: buildThreadName(trigger.content),
+      });
+    } catch (error) {
+      logger.warn("Failed to open reply thread, replying in channel", {
+        channelId: channel.id,
+        messageId: triggerMessageId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    }
+
+    const sentMessage = await thread.send({ content, files });
+
+    this.trackThreadReply(sentMessage.id, thread.id);
+
+    logger.debug("Reply sent in thread", {
+      channelId: channel.id,
+      threadId: thread.id,
+      messageId: sentMessage.id,
+      contentLength: content.length,
+    });
+
+    return { success: true, messageId: sentMessage.id };
+  }
+
+  /**
+   * Remember the thread a reply was sent in, so edits and follow-ups find it
+   */
+  private trackThreadReply(messageId: string, threadId: string): void {
+    this.threadReplies.set(messageId, threadId);
+    if (this.threadReplies.size > MAX_TRACKED_THREAD_REPLIES) {
+      const oldest = this.threadReplies.keys().next().value;
+      if (oldest !== undefined) this.threadReplies.delete(oldest);
+    }
+  }
+
   /**
    * Fetch recent messages from a channel
    */
@@ -341,6 +698,57 @@ export class DiscordAdapter extends PlatformAdapter {
     }
   }
 
+  /**
+   * Fetch the starter message and parent channel of a thread or forum post
+   */
+  async fetchThreadContext(
+    channelId: string,
+    parentMessageLimit: number,
+  ): Promise<ThreadContext | null> {
+    const channel = await this.client.channels.fetch(channelId);
+    if (!channel?.isThread()) {
+      return null;
+    }
+
+    // Forum posts and threads created from a message both have a starter message
+    const starter = await channel.fetchStarterMessage().catch(() => null);
+    const starterMessage = starter ? messageToPltatformMessage(starter, this.botId!) : undefined;
+
+    // Forum channels have no messages of their own
+    let parentMessages: PlatformMessage[] = [];
+    const parent = channel.parent;
+    if (parent && this.isTextBasedChannel(parent) && parentMessageLimit > 0) {
+      try {
+        const messages = await parent.messages.fetch({ limit: parentMessageLimit });
+        parentMessages = Array.from(messages.values())
+          .filter((msg) => msg.id !== starter?.id)
+          .map((msg) => messageToPltatformMessage(msg, this.botId!))
+          .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+      } catch (error) {
+        logger.warn("Failed to fetch parent channel messages", {
+          channelId,
+          parentChannelId: parent.id,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    logger.debug("Fetched thread context", {
+      channelId,
+      parentChannelId: channel.parentId,
+      hasStarter: starterMessage !== undefined,
+      parentMessages: parentMessages.length,
+    });
+
+    return {
+      name: channel.name,
+      parentChannelId: channel.parentId ?? "",
+      parentChannelName: parent?.name,
+      starterMessage,
+      parentMessages,
+    };
+  }
+
   /**
    * Search messages in a guild (basic implementation using Discord's limited search)
    */
@@ -447,6 +855,10 @@ export class DiscordAdapter extends PlatformAdapter {
     messageId: string,
     emoji: string,
   ): Promise<ReactionResult> {
+    if (this.pendingInteractions.has(messageId)) {
+      return { success: false, error: "Cannot react to a slash command" };
+    }
+
     try {
       const channel = await this.client.channels.fetch(channelId);
 
@@ -484,21 +896,30 @@ export class DiscordAdapter extends PlatformAdapter {
     _replyToMessageId?: string,
   ): Promise<ReplyResult> {
     try {
-      const channel = await this.client.channels.fetch(channelId);
-
-      if (!channel || !this.isTextBasedChannel(channel)) {
-        return {
-          success: false,
-          error: "Channel not found or not text-based",
-        };
-      }
-
       const truncatedContent = newContent.length > this.capabilities.maxMessageLength
         ? newContent.slice(0, this.capabilities.maxMessageLength - 3) + "..."
         : newContent;
 
-      const message = await channel.messages.fetch(messageId);
-      await message.edit({ content: truncatedContent });
+      // Ephemeral interaction replies can only be edited through the interaction
+      const interaction = this.interactionReplies.get(messageId);
+      if (interaction) {
+        await interaction.editReply({ content: truncatedContent, message: messageId });
+      } else {
+        // Replies moved to a thread live in the thread, not in the channel they answer
+        const channel = await this.client.channels.fetch(
+          this.threadReplies.get(messageId) ?? channelId,
+        );
+
+        if (!channel || !this.isTextBasedChannel(channel)) {
+          return {
+            success: false,
+            error: "Channel not found or not text-based",
+          };
+        }
+
+        const message = await channel.messages.fetch(messageId);
+        await message.edit({ content: truncatedContent });
+      }
 
       logger.debug("Message edited", {
         channelId,
@@ -524,6 +945,89 @@ export class DiscordAdapter extends PlatformAdapter {
     }
   }
 
+  /**
+   * Show the typing indicator in a channel until stopped
+   */
+  override async startTypingIndicator(
+    channelId: string,
+    messageId: string,
+  ): Promise<TypingIndicator> {
+    // Slash commands already show "thinking…" through the deferred reply
+    if (this.pendingInteractions.has(messageId)) {
+      return { stop: () => Promise.resolve() };
+    }
+
+    const channel = await this.client.channels.fetch(channelId);
+    if (!channel || !this.isTextBasedChannel(channel)) {
+      throw new PlatformError(
+        ErrorCode.PLATFORM_API_ERROR,
+        "Channel not found or not text-based",
+        { platform: this.platform, channelId },
+      );
+    }
+
+    const sendTyping = () =>
+      channel.sendTyping().catch((error) => {
+        logger.debug("Failed to send typing indicator", {
+          channelId,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      });
+
+    await sendTyping();
+    const timer = setInterval(sendTyping, TYPING_REFRESH_INTERVAL_MS);
+
+    return {
+      stop: () => {
+        clearInterval(timer);
+        return Promise.resolve();
+      },
+    };
+  }
+
+  /**
+   * Delete a message sent by the bot
+   */
+  override async deleteMessage(channelId: string, messageId: string): Promise<ReplyResult> {
+    try {
+      const interaction = this.interactionReplies.get(messageId);
+      if (interaction) {
+        await interaction.deleteReply(messageId);
+        this.interactionReplies.delete(messageId);
+      } else {
+        const channel = await this.client.channels.fetch(
+          this.threadReplies.get(messageId) ?? channelId,
+        );
+
+        if (!channel || !this.isTextBasedChannel(channel)) {
+          return {
+            success: false,
+            error: "Channel not found or not text-based",
+          };
+        }
+
+        const message = await channel.messages.fetch(messageId);
+        await message.delete();
+        this.threadReplies.delete(messageId);
+      }
+
+      logger.debug("Message deleted", { channelId, messageId });
+
+      return { success: true, messageId };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      logger.error("Failed to delete message", {
+        channelId,
+        messageId,
+        error: errorMessage,
+      });
+      return {
+        success: false,
+        error: `Failed to delete message: ${errorMessage}`,
+      };
+    }
+  }
+
   /**
    * Get or create a DM channel with a user.
    * Used by spontaneous posting to send DMs to whitelisted accounts.
@@ -570,7 +1074,10 @@ export class DiscordAdapter extends PlatformAdapter {
     return (
       ch.type === ChannelType.GuildText ||
       ch.type === ChannelType.DM ||
-      ch.type === ChannelType.GuildAnnouncement
+      ch.type === ChannelType.GuildAnnouncement ||
+      ch.type === ChannelType.PublicThread ||
+      ch.type === ChannelType.PrivateThread ||
+      ch.type === ChannelType.AnnouncementThread
     );
   }
 
@@ -0,0 +1,113 @@
+// src/platforms/discord/discord-commands.ts
+
+import {
+  type ChatInputCommandInteraction,
+  type RESTPostAPIChatInputApplicationCommandsJSONBody,
+  SlashCommandBuilder,
+} from "discord.js";
+import type { NormalizedEvent, Platform } from "../../types/events.ts";
+
+/**
+ * Names of the registered slash commands
+ */
+export type SlashCommandName = "clear" | "forget" | "memories" | "status" | "stop" | "ask";
+
+/**
+ * Slash commands registered on startup
+ */
+export const DISCORD_SLASH_COMMANDS: RESTPostAPIChatInputApplicationCommandsJSONBody[] = [
+  new SlashCommandBuilder()
+    .setName("clear")
+    .setDescription("Start a fresh conversation (earlier messages are ignored)")
+    .toJSON(),
+  new SlashCommandBuilder()
+    .setName("forget")
+    .setDescription("Make the bot forget one of its memories about you")
+    .addStringOption((option) =>
+      option
+        .setName("memory_id")
+        .setDescription("ID of the memory, as shown by /memories")
+        .setRequired(true)
+    )
+    .toJSON(),
+  new SlashCommandBuilder()
+    .setName("memories")
+    .setDescription("Privately list what the bot remembers about you")
+    .toJSON(),
+  new SlashCommandBuilder()
+    .setName("status")
+    .setDescription("Show the bot's status")
+    .toJSON(),
+  new SlashCommandBuilder()
+    .setName("stop")
+    .setDescription("Stop the bot from answering your messages in this channel")
+    .toJSON(),
+  new SlashCommandBuilder()
+    .setName("ask")
+    .setDescription("Ask the bot something and get a private answer")
+    .addStringOption((option) =>
+      option
+        .setName("question")
+        .setDescription("Your question")
+        .setRequired(true)
+    )
+    .toJSON(),
+];
+
+/**
+ * Content posted in the channel by /clear.
+ * Starts with "/clear" so the context assembler drops everything before it.
+ */
+export const CLEAR_COMMAND_REPLY = "/clear — Starting a fresh conversation.";
+
+/**
+ * Check if a command name is one of ours
+ */
+export function isSlashCommandName(name: string): name is SlashCommandName {
+  return DISCORD_SLASH_COMMANDS.some((command) => command.name === name);
+}
+
+/**
+ * Whether the answer to a command is only visible to the user who issued it.
+ * /clear is public because the marker must appear in the channel history.
+ */
+export function isEphemeralCommand(name: SlashCommandName): boolean {
+  return name !== "clear";
+}
+
+/**
+ * Collect the string options of a slash command interaction
+ */
+export function getCommandArgs(interaction: ChatInputCommandInteraction): Record<string, string> {
+  const args: Record<string, string> = {};
+  for (const option of interaction.options.data) {
+    if (option.value !== undefined && option.value !== null) {
+      args[option.name] = String(option.value);
+    }
+  }
+  return args;
+}
+
+/**
+ * Convert a slash command interaction to NormalizedEvent.
+ * The interaction ID stands in for the message ID, so replies to it can be
+ * routed back to the interaction.
+ */
+export function interactionToEvent(
+  interaction: ChatInputCommandInteraction,
+  content: string,
+): NormalizedEvent {
+  const isDm = !interaction.guildId;
+
+  return {
+    platform: "discord" as Platform,
+    channelId: interaction.channelId,
+    userId: interaction.user.id,
+    messageId: interaction.id,
+    isDm,
+    guildId: interaction.guildId ?? "",
+    content,
+    timestamp: interaction.createdAt,
+    raw: interaction,
+  };
+}
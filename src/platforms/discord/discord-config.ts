@@ -26,6 +26,15 @@ export interface DiscordAdapterConfig {
 
   /** Prefix for command triggering (optional) */
   commandPrefix?: string;
+
+  /** Whether to register slash commands (/clear, /forget, /memories, /status, /stop, /ask) */
+  slashCommands?: boolean;
+
+  /** Open a thread for replies longer than this many characters (0 = never) */
+  replyThreadThreshold?: number;
+
+  /** Whether to show the typing indicator while the agent works on a message */
+  typingIndicator?: boolean;
 }
 
 /**
@@ -37,11 +46,17 @@ export const DEFAULT_DISCORD_CONFIG: Partial<DiscordAdapterConfig> = {
     GatewayIntentBits.GuildMessages,
     GatewayIntentBits.MessageContent,
     GatewayIntentBits.DirectMessages,
+    GatewayIntentBits.GuildMessageReactions,
+    GatewayIntentBits.DirectMessageReactions,
   ],
   partials: [
     Partials.Channel, // Required for DM support
     Partials.Message,
+    Partials.Reaction, // Required for reactions to uncached messages
   ],
   allowDm: true,
   respondToMention: true,
+  slashCommands: true,
+  replyThreadThreshold: 0,
+  typingIndicator: true,
 };
@@ -1,7 +1,9 @@
 // src/platforms/discord/discord-utils.ts
 
-import type { GuildMember, Message, User } from "discord.js";
+import { Buffer } from "node:buffer";
+import { AttachmentBuilder, type GuildMember, type Message, type User } from "discord.js";
 import type { Attachment, NormalizedEvent, Platform, PlatformMessage } from "../../types/events.ts";
+import type { ReplyAttachment } from "../../types/platform.ts";
 
 /**
  * Convert a Discord attachment to our Attachment type
@@ -45,6 +47,7 @@ export function normalizeDiscordMessage(
     messageId: message.id,
     isDm,
     guildId: message.guildId ?? "",
+    parentChannelId: getParentChannelId(message.channel),
     content: message.content,
     timestamp: message.createdAt,
     attachments: message.attachments.size > 0
@@ -76,6 +79,32 @@ export function messageToPltatformMessage(
   };
 }
 
+/**
+ * Get the parent channel ID of a thread or forum post (undefined for other channels)
+ */
+export function getParentChannelId(channel: Message["channel"]): string | undefined {
+  return channel.isThread() ? channel.parentId ?? undefined : undefined;
+}
+
+/**
+ * Convert reply attachments to files for a multipart upload
+ */
+export function toDiscordFiles(attachments: ReplyAttachment[] = []): AttachmentBuilder[] {
+  return attachments.map((attachment) =>
+    new AttachmentBuilder(Buffer.from(attachment.data), { name: attachment.filename })
+  );
+}
+
+/**
+ * Build a thread name from the message a thread is started from
+ * Discord limits thread names to 100 characters
+ */
+export function buildThreadName(content: string, fallback = "Reply"): string {
+  const singleLine = content.replace(/<[@#][!&]?\d+>/g, "").replace(/\s+/g, " ").trim();
+  if (!singleLine) return fallback;
+  return singleLine.length > 100 ? singleLine.slice(0, 97) + "..." : singleLine;
+}
+
 /**
  * Check if message mentions the bot
  */
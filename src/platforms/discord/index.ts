@@ -3,3 +3,4 @@
 export { DiscordAdapter } from "./discord-adapter.ts";
 export { DEFAULT_DISCORD_CONFIG, type DiscordAdapterConfig } from "./discord-config.ts";
 export * from "./discord-utils.ts";
+export * from "./discord-commands.ts";
@@ -0,0 +1,7 @@
+// src/platforms/mastodon/index.ts
+
+export { MastodonAdapter } from "./mastodon-adapter.ts";
+export { MastodonClient } from "./mastodon-client.ts";
+export { DEFAULT_MASTODON_CONFIG, MASTODON_STREAMING_ENDPOINTS } from "./mastodon-config.ts";
+export type { MastodonAdapterConfig } from "./mastodon-config.ts";
+export * from "./mastodon-utils.ts";
@@ -0,0 +1,613 @@
+// src/platforms/mastodon/mastodon-adapter.ts
+
+import { createLogger } from "@utils/logger.ts";
+import { PlatformAdapter } from "@platforms/platform-adapter.ts";
+import type { Platform, PlatformMessage } from "../../types/events.ts";
+import {
+  ConnectionState,
+  PlatformCapabilities,
+  type PlatformEmoji,
+  type ReactionResult,
+  type ReplyOptions,
+  type ReplyResult,
+} from "../../types/platform.ts";
+import { ErrorCode, PlatformError } from "../../types/errors.ts";
+import { MastodonClient } from "./mastodon-client.ts";
+import { DEFAULT_MASTODON_CONFIG, MastodonAdapterConfig } from "./mastodon-config.ts";
+import {
+  buildReplyParams,
+  type MastodonAccount,
+  type MastodonContext,
+  type MastodonCustomEmoji,
+  type MastodonNotification,
+  type MastodonStatus,
+  normalizeMastodonStatus,
+  removeBotMention,
+  shouldRespondToStatus,
+  statusToPlatformMessage,
+} from "./mastodon-utils.ts";
+
+const logger = createLogger("MastodonAdapter");
+
+export class MastodonAdapter extends PlatformAdapter {
+  readonly platform: Platform = "mastodon";
+  readonly capabilities: PlatformCapabilities = {
+    canFetchHistory: true,
+    canSearchMessages: true,
+    supportsDm: true,
+    supportsGuild: false,
+    supportsReactions: true,
+    maxMessageLength: 500,
+  };
+
+  private readonly client: MastodonClient;
+  private readonly config: Required<MastodonAdapterConfig>;
+  private botId: string | null = null;
+  private botUsername: string | null = null;
+  private running = false;
+  private streamAbort: AbortController | null = null;
+  private streamLoop: Promise<void> | null = null;
+  private reconnectAttempts = 0;
+  private emojiCache: PlatformEmoji[] | null = null;
+  private emojiCacheTimestamp = 0;
+  private readonly EMOJI_CACHE_TTL_MS = 5 * 60 * 1000; // 5 minutes
+
+  constructor(config: MastodonAdapterConfig) {
+    super();
+
+    this.config = {
+      ...DEFAULT_MASTODON_CONFIG,
+      ...config,
+    } as Required<MastodonAdapterConfig>;
+
+    this.client = new MastodonClient(this.config);
+  }
+
+  /**
+   * Connect to Mastodon and start streaming notifications
+   */
+  async connect(): Promise<void> {
+    logger.info("Connecting to Mastodon", { host: this.config.host });
+    this.updateConnectionState(ConnectionState.CONNECTING);
+
+    try {
+      const self = await this.client.verifyCredentials();
+      this.botId = self.id;
+      this.botUsername = self.username;
+
+      // Instances may raise the default 500 character limit
+      const maxCharacters = await this.client.getMaxStatusCharacters().catch(() => null);
+      if (maxCharacters) {
+        this.capabilities.maxMessageLength = maxCharacters;
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.updateConnectionState(ConnectionState.ERROR, message);
+
+      throw new PlatformError(
+        ErrorCode.PLATFORM_AUTH_FAILED,
+        `Failed to connect to Mastodon: ${message}`,
+        { platform: this.platform, host: this.config.host },
+      );
+    }
+
+    this.running = true;
+    this.reconnectAttempts = 0;
+    this.streamAbort = new AbortController();
+    this.streamLoop = this.stream(this.streamAbort.signal);
+
+    logger.info("Connected to Mastodon", {
+      host: this.config.host,
+      botUsername: this.botUsername,
+    });
+  }
+
+  /**
+   * Streaming loop. Reopens the notification stream until disconnect()
+   * or until reconnect attempts are exhausted.
+   */
+  private async stream(signal: AbortSignal): Promise<void> {
+    while (this.running) {
+      let failure: unknown = new Error("Stream closed by server");
+      try {
+        const notifications = this.client.streamNotifications(signal, () => {
+          this.reconnectAttempts = 0;
+          this.updateConnectionState(ConnectionState.CONNECTED);
+          logger.info("Connected to Mastodon streaming API", { host: this.config.host });
+        });
+
+        for await (const notification of notifications) {
+          this.handleNotification(notification).catch((error) => {
+            logger.error("Failed to handle Mastodon notification", {
+              notificationId: notification.id,
+              error: error instanceof Error ? error.message : String(error),
+            });
+          });
+        }
+      } catch (error) {
+        failure = error;
+      }
+
+      if (!this.running) break;
+
+      const errorMessage = failure instanceof Error ? failure.message : String(failure);
+      logger.warn("Disconnected from Mastodon streaming API", { error: errorMessage });
+
+      const isAuthError = failure instanceof PlatformError &&
+        failure.code === ErrorCode.PLATFORM_AUTH_FAILED;
+      if (
+        isAuthError || !this.config.reconnect.enabled ||
+        this.reconnectAttempts >= (this.config.reconnect.maxAttempts ?? 5)
+      ) {
+        logger.error("Stopping Mastodon streaming", { error: errorMessage });
+        this.running = false;
+        this.updateConnectionState(ConnectionState.ERROR, errorMessage);
+        break;
+      }
+
+      this.reconnectAttempts++;
+      const delay = (this.config.reconnect.baseDelay ?? 1000) *
+        Math.pow(2, this.reconnectAttempts - 1);
+
+      logger.info("Scheduling reconnect in {delay}ms (attempt {attempt})", {
+        attempt: this.reconnectAttempts,
+        delay,
+      });
+      this.updateConnectionState(ConnectionState.RECONNECTING);
+      await this.sleep(delay, signal);
+    }
+  }
+
+  /**
+   * Abortable delay used between reconnect attempts
+   */
+  private sleep(ms: number, signal: AbortSignal): Promise<void> {
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => {
+        signal.removeEventListener("abort", onAbort);
+        resolve();
+      }, ms);
+      const onAbort = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+      signal.addEventListener("abort", onAbort, { once: true });
+    });
+  }
+
+  /**
+   * Handle incoming notification (only mentions carry statuses to answer)
+   */
+  private async handleNotification(notification: MastodonNotification): Promise<void> {
+    if (notification.type !== "mention" || !notification.status) {
+      return;
+    }
+
+    if (!this.botId || !this.botUsername) {
+      logger.warn("Received notification before bot info was set");
+      return;
+    }
+
+    const status = notification.status;
+
+    // Check if we should respond
+    if (
+      !shouldRespondToStatus(status, this.botId, {
+        allowDm: this.config.allowDm,
+        respondToMention: this.config.respondToMention,
+      })
+    ) {
+      return;
+    }
+
+    logger.debug("Processing status", {
+      statusId: status.id,
+      visibility: status.visibility,
+    });
+
+    // Normalize event
+    const normalizedEvent = normalizeMastodonStatus(status);
+
+    // Clean up content (remove bot mention if present)
+    normalizedEvent.content = removeBotMention(normalizedEvent.content, this.botUsername);
+
+    await this.emitEvent(normalizedEvent);
+  }
+
+  /**
+   * Disconnect from Mastodon
+   */
+  async disconnect(): Promise<void> {
+    logger.info("Disconnecting from Mastodon");
+
+    this.running = false;
+    this.streamAbort?.abort();
+    await this.streamLoop?.catch(() => {});
+    this.streamAbort = null;
+    this.streamLoop = null;
+
+    this.updateConnectionState(ConnectionState.DISCONNECTED);
+  }
+
+  /**
+   * Send a reply (post a status)
+   * - "timeline:self": public status on the bot's own timeline
+   * - with replyToMessageId: reply with the original status' visibility
+   * - "dm:{accountId}" without a reply target: new direct status to that account
+   */
+  async sendReply(
+    channelId: string,
+    content: string,
+    options?: ReplyOptions,
+  ): Promise<ReplyResult> {
+    try {
+      const params: Record<string, unknown> = {};
+      let prefix = "";
+
+      if (channelId === "timeline:self") {
+        params.visibility = "public";
+      } else if (options?.replyToMessageId) {
+        const originalStatus = await this.client.request<MastodonStatus>(
+          "GET",
+          `/api/v1/statuses/${encodeURIComponent(options.replyToMessageId)}`,
+        );
+        const { mentionPrefix, ...replyParams } = buildReplyParams(originalStatus, this.botId!);
+        Object.assign(params, replyParams);
+        prefix = mentionPrefix;
+      } else if (channelId.startsWith("dm:")) {
+        const account = await this.client.request<MastodonAccount>(
+          "GET",
+          `/api/v1/accounts/${encodeURIComponent(channelId.slice(3))}`,
+        );
+        params.visibility = "direct";
+        prefix = `@${account.acct} `;
+      }
+
+      params.status = this.truncate(content, prefix);
+
+      const status = await this.client.request<MastodonStatus>(
+        "POST",
+        "/api/v1/statuses",
+        params,
+      );
+
+      logger.debug("Reply sent", {
+        statusId: status.id,
+        visibility: status.visibility,
+        contentLength: content.length,
+      });
+
+      return {
+        success: true,
+        messageId: status.id,
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+
+      logger.error("Failed to send reply", {
+        channelId,
+        error: errorMessage,
+      });
+
+      return {
+        success: false,
+        error: errorMessage,
+      };
+    }
+  }
+
+  /**
+   * Prepend mentions and truncate to the status character limit
+   */
+  private truncate(content: string, prefix = ""): string {
+    const maxLength = this.capabilities.maxMessageLength - prefix.length;
+    return prefix +
+      (content.length > maxLength ? content.slice(0, maxLength - 3) + "..." : content);
+  }
+
+  /**
+   * Edit a status in place (Mastodon 3.5+).
+   * Mentions and visibility of the original status are preserved.
+   */
+  async editMessage(
+    channelId: string,
+    messageId: string,
+    newContent: string,
+  ): Promise<ReplyResult> {
+    try {
+      const path = `/api/v1/statuses/${encodeURIComponent(messageId)}`;
+      const original = await this.client.request<MastodonStatus>("GET", path);
+      const mentionPrefix = (original.mentions ?? [])
+        .map((mention) => `@${mention.acct} `)
+        .join("");
+
+      const status = await this.client.request<MastodonStatus>("PUT", path, {
+        status: this.truncate(newContent, mentionPrefix),
+      });
+
+      logger.debug("Status edited", {
+        statusId: status.id,
+        contentLength: newContent.length,
+      });
+
+      return { success: true, messageId: status.id };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      logger.error("Failed to edit status", { channelId, messageId, error: errorMessage });
+      return { success: false, error: `Failed to edit status: ${errorMessage}` };
+    }
+  }
+
+  /**
+   * Fetch recent messages (for context)
+   * Supports the bot's own timeline, status threads and DMs
+   */
+  async fetchRecentMessages(
+    channelId: string,
+    limit: number,
+  ): Promise<PlatformMessage[]> {
+    try {
+      // For timeline:self, fetch the bot's own recent statuses
+      if (channelId === "timeline:self") {
+        if (!this.botId) return [];
+
+        const statuses = await this.client.request<MastodonStatus[]>(
+          "GET",
+          `/api/v1/accounts/${encodeURIComponent(this.botId)}/statuses`,
+          { limit, exclude_replies: true },
+        );
+
+        return statuses.reverse().map((status) => statusToPlatformMessage(status, this.botId!));
+      }
+
+      // For dm:accountId, fetch recent mentions from that account
+      if (channelId.startsWith("dm:")) {
+        const accountId = channelId.slice(3);
+        const notifications = await this.client.request<MastodonNotification[]>(
+          "GET",
+          "/api/v1/notifications",
+          { types: ["mention"], account_id: accountId, limit },
+        );
+
+        return notifications
+          .filter((notification) => notification.status)
+          .map((notification) => notification.status!)
+          .reverse()
+          .map((status) => statusToPlatformMessage(status, this.botId!));
+      }
+
+      // For status:xxx, fetch the conversation thread (ancestors + current + replies)
+      if (channelId.startsWith("status:")) {
+        const statusId = channelId.slice(7);
+
+        const currentStatus = await this.client.request<MastodonStatus>(
+          "GET",
+          `/api/v1/statuses/${encodeURIComponent(statusId)}`,
+        );
+
+        // Fetch ancestors and replies with fallback:
+        // statuses/:id/context (single call) → in_reply_to_id chain walk
+        const { ancestors, descendants } = await this.fetchContextWithFallback(
+          currentStatus,
+          limit,
+        );
+
+        const allStatuses = [...ancestors, currentStatus, ...descendants];
+
+        // Deduplicate by status ID and sort chronologically, then apply limit
+        const seen = new Set<string>();
+        const unique = allStatuses.filter((status) => {
+          if (seen.has(status.id)) return false;
+          seen.add(status.id);
+          return true;
+        });
+        unique.sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime());
+
+        logger.debug("Status thread assembled", {
+          statusId,
+          ancestorsCount: ancestors.length,
+          descendantsCount: descendants.length,
+          totalUnique: unique.length,
+        });
+
+        return unique.slice(-limit).map((status) => statusToPlatformMessage(status, this.botId!));
+      }
+
+      return [];
+    } catch (error) {
+      throw new PlatformError(
+        ErrorCode.PLATFORM_API_ERROR,
+        `Failed to fetch messages: ${error instanceof Error ? error.message : String(error)}`,
+        { channelId },
+      );
+    }
+  }
+
+  /**
+   * Fetch thread context with fallback.
+   * Tries statuses/:id/context first (ancestors and replies in one call), then falls back to
+   * walking the in_reply_to_id chain via statuses/:id (no replies in that case).
+   */
+  private async fetchContextWithFallback(
+    currentStatus: MastodonStatus,
+    limit: number,
+  ): Promise<MastodonContext> {
+    try {
+      const context = await this.client.request<MastodonContext>(
+        "GET",
+        `/api/v1/statuses/${encodeURIComponent(currentStatus.id)}/context`,
+      );
+      logger.debug("Fetched thread via statuses context", {
+        statusId: currentStatus.id,
+        ancestors: context.ancestors.length,
+        descendants: context.descendants.length,
+      });
+      return context;
+    } catch {
+      logger.debug("Status context unavailable, falling back to in_reply_to_id chain walk", {
+        statusId: currentStatus.id,
+      });
+    }
+
+    // Fallback: walk the in_reply_to_id chain
+    const ancestors: MastodonStatus[] = [];
+    let cursorReplyId = currentStatus.in_reply_to_id;
+    while (cursorReplyId && ancestors.length < limit) {
+      try {
+        const parent: MastodonStatus = await this.client.request<MastodonStatus>(
+          "GET",
+          `/api/v1/statuses/${encodeURIComponent(cursorReplyId)}`,
+        );
+        ancestors.unshift(parent);
+        cursorReplyId = parent.in_reply_to_id;
+      } catch (error) {
+        logger.warn("Ancestor fetch stopped: failed to fetch parent status", {
+          statusId: cursorReplyId,
+          error: error instanceof Error ? error.message : String(error),
+          ancestorsFetched: ancestors.length,
+        });
+        break;
+      }
+    }
+
+    logger.debug("Fetched ancestors via in_reply_to_id chain walk", {
+      statusId: currentStatus.id,
+      count: ancestors.length,
+    });
+    return { ancestors, descendants: [] };
+  }
+
+  /**
+   * Search statuses by keyword (requires full-text search on the instance)
+   */
+  override async searchRelatedMessages(
+    _guildId: string,
+    _channelId: string,
+    query: string,
+    limit: number,
+  ): Promise<PlatformMessage[]> {
+    try {
+      const result = await this.client.request<{ statuses: MastodonStatus[] }>(
+        "GET",
+        "/api/v2/search",
+        { q: query, type: "statuses", limit, resolve: false },
+      );
+
+      return result.statuses.map((status) => statusToPlatformMessage(status, this.botId!));
+    } catch (error) {
+      logger.warn("Failed to search statuses", {
+        query,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return [];
+    }
+  }
+
+  /**
+   * Fetch available custom emojis from the Mastodon instance
+   */
+  async fetchEmojis(): Promise<PlatformEmoji[]> {
+    const now = Date.now();
+    if (this.emojiCache && (now - this.emojiCacheTimestamp) < this.EMOJI_CACHE_TTL_MS) {
+      return this.emojiCache;
+    }
+
+    try {
+      const response = await this.client.request<MastodonCustomEmoji[]>(
+        "GET",
+        "/api/v1/custom_emojis",
+      );
+
+      const emojis: PlatformEmoji[] = response
+        .filter((e) => e.visible_in_picker)
+        .map((e) => ({
+          name: e.shortcode,
+          animated: e.url !== e.static_url,
+          category: e.category ?? null,
+          useInText: `:${e.shortcode}:`,
+          // Reactions are favourites on Mastodon, so the emoji itself is informational
+          useAsReaction: `:${e.shortcode}:`,
+        }));
+
+      this.emojiCache = emojis;
+      this.emojiCacheTimestamp = now;
+
+      logger.debug("Fetched Mastodon emojis", { count: emojis.length });
+      return emojis;
+    } catch (error) {
+      logger.error("Failed to fetch Mastodon emojis", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return this.emojiCache ?? [];
+    }
+  }
+
+  /**
+   * React to a status.
+   * Mastodon has no emoji reactions, so any reaction favourites the status.
+   */
+  async addReaction(
+    _channelId: string,
+    messageId: string,
+    emoji: string,
+  ): Promise<ReactionResult> {
+    try {
+      await this.client.request(
+        "POST",
+        `/api/v1/statuses/${encodeURIComponent(messageId)}/favourite`,
+      );
+
+      logger.debug("Status favourited as reaction", { statusId: messageId, emoji });
+
+      return { success: true };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      logger.error("Failed to add reaction", {
+        statusId: messageId,
+        emoji,
+        error: errorMessage,
+      });
+
+      return {
+        success: false,
+        error: errorMessage,
+      };
+    }
+  }
+
+  /**
+   * Get username for an account ID
+   */
+  async getUsername(userId: string): Promise<string> {
+    try {
+      const account = await this.client.request<MastodonAccount>(
+        "GET",
+        `/api/v1/accounts/${encodeURIComponent(userId)}`,
+      );
+      return account.display_name || account.username;
+    } catch {
+      return userId;
+    }
+  }
+
+  /**
+   * Check if an account ID is the bot itself
+   */
+  isSelf(userId: string): boolean {
+    return userId === this.botId;
+  }
+
+  /**
+   * Get the bot account ID
+   */
+  getBotId(): string | null {
+    return this.botId;
+  }
+
+  /**
+   * Get the bot username
+   */
+  getBotUsername(): string | null {
+    return this.botUsername;
+  }
+}
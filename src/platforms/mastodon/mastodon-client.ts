@@ -0,0 +1,198 @@
+// src/platforms/mastodon/mastodon-client.ts
+
+import { createLogger } from "@utils/logger.ts";
+import { ErrorCode, PlatformError } from "../../types/errors.ts";
+import { MASTODON_STREAMING_ENDPOINTS, MastodonAdapterConfig } from "./mastodon-config.ts";
+import type { MastodonAccount, MastodonNotification } from "./mastodon-utils.ts";
+
+const logger = createLogger("MastodonClient");
+
+/**
+ * Thin Mastodon REST and streaming API client built on fetch
+ */
+export class MastodonClient {
+  private readonly origin: string;
+  private readonly token: string;
+
+  constructor(config: MastodonAdapterConfig) {
+    this.origin = `${config.secure === false ? "http" : "https"}://${config.host}`;
+    this.token = config.token;
+  }
+
+  /**
+   * Make a REST API request
+   * @param path - API path (e.g., "/api/v1/statuses")
+   */
+  async request<T = unknown>(
+    method: "GET" | "POST" | "PUT" | "DELETE",
+    path: string,
+    params: Record<string, unknown> = {},
+  ): Promise<T> {
+    const url = new URL(`${this.origin}${path}`);
+    const init: RequestInit = {
+      method,
+      headers: {
+        "Authorization": `Bearer ${this.token}`,
+        "Content-Type": "application/json",
+      },
+    };
+
+    if (method === "GET") {
+      for (const [key, value] of Object.entries(params)) {
+        if (Array.isArray(value)) {
+          for (const item of value) url.searchParams.append(`${key}[]`, String(item));
+        } else if (value !== undefined) {
+          url.searchParams.set(key, String(value));
+        }
+      }
+    } else {
+      init.body = JSON.stringify(params);
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(url, init);
+    } catch (error) {
+      throw new PlatformError(
+        ErrorCode.PLATFORM_CONNECTION_FAILED,
+        `Mastodon request failed: ${error instanceof Error ? error.message : String(error)}`,
+        { method, path },
+      );
+    }
+
+    const body = await response.json().catch(() => ({}));
+
+    if (!response.ok) {
+      const description = typeof body?.error === "string" ? body.error : `HTTP ${response.status}`;
+      logger.error("Mastodon API error", {
+        method,
+        path,
+        status: response.status,
+        error: description,
+      });
+
+      const code = response.status === 401
+        ? ErrorCode.PLATFORM_AUTH_FAILED
+        : response.status === 429
+        ? ErrorCode.PLATFORM_RATE_LIMITED
+        : ErrorCode.PLATFORM_API_ERROR;
+
+      throw new PlatformError(code, `Mastodon API error: ${description}`, {
+        method,
+        path,
+        status: response.status,
+      });
+    }
+
+    return body as T;
+  }
+
+  /**
+   * Get the account of the access token owner
+   */
+  verifyCredentials(): Promise<MastodonAccount> {
+    return this.request<MastodonAccount>("GET", "/api/v1/accounts/verify_credentials");
+  }
+
+  /**
+   * Get the status character limit of the instance (null if not reported)
+   */
+  async getMaxStatusCharacters(): Promise<number | null> {
+    const instance = await this.request<{
+      configuration?: { statuses?: { max_characters?: number } };
+    }>("GET", "/api/v2/instance");
+    return instance.configuration?.statuses?.max_characters ?? null;
+  }
+
+  /**
+   * Stream notifications of the authenticated user via server-sent events.
+   * Completes when the server closes the stream or the signal is aborted.
+   * @param onOpen - Called once the stream has been accepted by the server
+   */
+  async *streamNotifications(
+    signal: AbortSignal,
+    onOpen?: () => void,
+  ): AsyncGenerator<MastodonNotification> {
+    let response: Response;
+    try {
+      response = await fetch(`${this.origin}${MASTODON_STREAMING_ENDPOINTS.USER_NOTIFICATION}`, {
+        headers: {
+          "Authorization": `Bearer ${this.token}`,
+          "Accept": "text/event-stream",
+        },
+        signal,
+      });
+    } catch (error) {
+      if (signal.aborted) return;
+      throw new PlatformError(
+        ErrorCode.PLATFORM_CONNECTION_FAILED,
+        `Mastodon streaming failed: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+
+    if (!response.ok || !response.body) {
+      await response.body?.cancel();
+      throw new PlatformError(
+        response.status === 401 ? ErrorCode.PLATFORM_AUTH_FAILED : ErrorCode.PLATFORM_API_ERROR,
+        `Mastodon streaming error: HTTP ${response.status}`,
+        { status: response.status },
+      );
+    }
+
+    onOpen?.();
+
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = "";
+    try {
+      while (true) {
+        const { value, done } = await reader.read();
+        if (done) return;
+        buffer += value.replace(/\r\n/g, "\n");
+
+        let boundary = buffer.indexOf("\n\n");
+        while (boundary !== -1) {
+          const block = buffer.slice(0, boundary);
+          buffer = buffer.slice(boundary + 2);
+          boundary = buffer.indexOf("\n\n");
+
+          const notification = this.parseNotificationEvent(block);
+          if (notification) yield notification;
+        }
+      }
+    } catch (error) {
+      if (signal.aborted) return;
+      throw new PlatformError(
+        ErrorCode.PLATFORM_CONNECTION_FAILED,
+        `Mastodon stream interrupted: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    } finally {
+      reader.releaseLock();
+    }
+  }
+
+  /**
+   * Parse a server-sent event block; returns the notification for "notification" events
+   */
+  private parseNotificationEvent(block: string): MastodonNotification | null {
+    let event = "message";
+    const data: string[] = [];
+    for (const line of block.split("\n")) {
+      // Lines starting with ":" are heartbeats/comments
+      if (line.startsWith(":")) continue;
+      const separator = line.indexOf(":");
+      const field = separator === -1 ? line : line.slice(0, separator);
+      const value = separator === -1 ? "" : line.slice(separator + 1).replace(/^ /, "");
+      if (field === "event") event = value;
+      if (field === "data") data.push(value);
+    }
+
+    if (event !== "notification" || data.length === 0) return null;
+
+    try {
+      return JSON.parse(data.join("\n")) as MastodonNotification;
+    } catch {
+      logger.warn("Ignoring malformed streaming payload", { event });
+      return null;
+    }
+  }
+}
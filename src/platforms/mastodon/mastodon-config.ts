@@ -0,0 +1,53 @@
+// src/platforms/mastodon/mastodon-config.ts
+
+/**
+ * Mastodon adapter configuration
+ */
+export interface MastodonAdapterConfig {
+  /** Instance host (e.g., "mastodon.social") */
+  host: string;
+
+  /** Access token of the bot account */
+  token: string;
+
+  /** Whether to use HTTPS */
+  secure?: boolean;
+
+  /** Whether to respond to mentions */
+  respondToMention?: boolean;
+
+  /** Whether to respond to direct visibility statuses */
+  allowDm?: boolean;
+
+  /** Reconnect options for the streaming connection */
+  reconnect?: {
+    /** Whether to auto-reconnect */
+    enabled: boolean;
+    /** Max reconnect attempts */
+    maxAttempts?: number;
+    /** Base delay between attempts (ms) */
+    baseDelay?: number;
+  };
+}
+
+/**
+ * Default Mastodon configuration
+ */
+export const DEFAULT_MASTODON_CONFIG: Partial<MastodonAdapterConfig> = {
+  secure: true,
+  respondToMention: true,
+  allowDm: true,
+  reconnect: {
+    enabled: true,
+    maxAttempts: 5,
+    baseDelay: 1000,
+  },
+};
+
+/**
+ * Mastodon streaming API endpoints (server-sent events)
+ */
+export const MASTODON_STREAMING_ENDPOINTS = {
+  /** Notifications of the authenticated user (mentions, follows, favourites, ...) */
+  USER_NOTIFICATION: "/api/v1/streaming/user/notification",
+} as const;
@@ -0,0 +1,290 @@
+// src/platforms/mastodon/mastodon-utils.ts
+
+import type { Attachment, NormalizedEvent, Platform, PlatformMessage } from "../../types/events.ts";
+
+/**
+ * Status visibility levels
+ */
+export type MastodonVisibility = "public" | "unlisted" | "private" | "direct";
+
+/**
+ * Mastodon account entity (subset)
+ */
+export interface MastodonAccount {
+  id: string;
+  username: string;
+  /** username for local accounts, username@domain for remote ones */
+  acct: string;
+  display_name: string;
+  bot?: boolean;
+}
+
+/**
+ * Mastodon media attachment entity (subset)
+ */
+export interface MastodonMediaAttachment {
+  id: string;
+  type: "image" | "gifv" | "video" | "audio" | "unknown";
+  url: string;
+  remote_url?: string | null;
+  description?: string | null;
+  meta?: {
+    original?: { width?: number; height?: number };
+  } | null;
+}
+
+/**
+ * Mastodon status entity (subset)
+ */
+export interface MastodonStatus {
+  id: string;
+  created_at: string;
+  in_reply_to_id: string | null;
+  in_reply_to_account_id?: string | null;
+  visibility: MastodonVisibility;
+  /** HTML content */
+  content: string;
+  spoiler_text?: string;
+  account: MastodonAccount;
+  mentions: Array<{ id: string; username: string; acct: string }>;
+  media_attachments: MastodonMediaAttachment[];
+}
+
+/**
+ * Mastodon notification entity (subset)
+ */
+export interface MastodonNotification {
+  id: string;
+  type: string;
+  created_at: string;
+  account: MastodonAccount;
+  status?: MastodonStatus;
+}
+
+/**
+ * Response of GET /api/v1/statuses/:id/context
+ */
+export interface MastodonContext {
+  ancestors: MastodonStatus[];
+  descendants: MastodonStatus[];
+}
+
+/**
+ * Mastodon custom emoji entity
+ */
+export interface MastodonCustomEmoji {
+  shortcode: string;
+  url: string;
+  static_url: string;
+  visible_in_picker: boolean;
+  category?: string | null;
+}
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+};
+
+/**
+ * Convert status HTML to plain text (paragraphs and line breaks become newlines)
+ */
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/p>\s*<p[^>]*>/gi, "\n\n")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+      const lower = entity.toLowerCase();
+      if (lower.startsWith("#x")) return String.fromCodePoint(parseInt(lower.slice(2), 16));
+      if (lower.startsWith("#")) return String.fromCodePoint(parseInt(lower.slice(1), 10));
+      return HTML_ENTITIES[lower] ?? match;
+    })
+    .trim();
+}
+
+/**
+ * Get the plain text of a status, including its content warning if present
+ */
+export function getStatusText(status: MastodonStatus): string {
+  const text = htmlToText(status.content ?? "");
+  return status.spoiler_text ? `[CW: ${status.spoiler_text}]\n${text}` : text;
+}
+
+/**
+ * Guess a MIME type for a media attachment (the API only reports a coarse type)
+ */
+function guessMimeType(attachment: MastodonMediaAttachment): string {
+  const extension = attachment.url.split(/[?#]/)[0].split(".").pop()?.toLowerCase();
+  switch (extension) {
+    case "jpg":
+    case "jpeg":
+      return "image/jpeg";
+    case "png":
+      return "image/png";
+    case "gif":
+      return "image/gif";
+    case "webp":
+      return "image/webp";
+    case "mp4":
+      return "video/mp4";
+    case "webm":
+      return "video/webm";
+    case "mp3":
+      return "audio/mpeg";
+    case "ogg":
+      return "audio/ogg";
+  }
+  switch (attachment.type) {
+    case "image":
+      return "image/jpeg";
+    case "gifv":
+    case "video":
+      return "video/mp4";
+    case "audio":
+      return "audio/mpeg";
+    default:
+      return "application/octet-stream";
+  }
+}
+
+/**
+ * Convert status media attachments to Attachments
+ */
+function extractAttachments(status: MastodonStatus): Attachment[] {
+  return (status.media_attachments ?? []).map((media) => ({
+    id: media.id,
+    url: media.url,
+    mimeType: guessMimeType(media),
+    filename: media.description || media.url.split(/[?#]/)[0].split("/").pop() || "file",
+    width: media.meta?.original?.width,
+    height: media.meta?.original?.height,
+    isImage: media.type === "image",
+  }));
+}
+
+/**
+ * Check if a status mentions the bot account
+ */
+export function isMentionToBot(status: MastodonStatus, botId: string): boolean {
+  return (status.mentions ?? []).some((mention) => mention.id === botId);
+}
+
+/**
+ * Remove bot mention (@username or @username@domain) from status text
+ */
+export function removeBotMention(text: string, botUsername: string): string {
+  const mentionPattern = new RegExp(`@${botUsername}(?:@[\\w.-]+)?\\s*`, "gi");
+  return text.replace(mentionPattern, "").trim();
+}
+
+/**
+ * Check if a status is a direct message (direct visibility)
+ */
+export function isDirectMessage(status: MastodonStatus): boolean {
+  return status.visibility === "direct";
+}
+
+/**
+ * Check if we should respond to this status
+ */
+export function shouldRespondToStatus(
+  status: MastodonStatus,
+  botId: string,
+  config: {
+    allowDm: boolean;
+    respondToMention: boolean;
+  },
+): boolean {
+  // Never respond to self
+  if (status.account.id === botId) {
+    return false;
+  }
+
+  // Never respond to bots
+  if (status.account.bot) {
+    return false;
+  }
+
+  // Check DM
+  if (isDirectMessage(status)) {
+    return config.allowDm;
+  }
+
+  // Check mention
+  return config.respondToMention && isMentionToBot(status, botId);
+}
+
+/**
+ * Convert Mastodon status to NormalizedEvent
+ */
+export function normalizeMastodonStatus(status: MastodonStatus): NormalizedEvent {
+  const isDm = isDirectMessage(status);
+  const attachments = extractAttachments(status);
+
+  return {
+    platform: "mastodon" as Platform,
+    channelId: isDm ? `dm:${status.account.id}` : `status:${status.id}`,
+    userId: status.account.id,
+    messageId: status.id,
+    isDm,
+    guildId: "", // Mastodon doesn't have guilds
+    content: getStatusText(status),
+    timestamp: new Date(status.created_at),
+    attachments: attachments.length > 0 ? attachments : undefined,
+    raw: status,
+  };
+}
+
+/**
+ * Convert Mastodon status to PlatformMessage
+ */
+export function statusToPlatformMessage(
+  status: MastodonStatus,
+  botId: string,
+): PlatformMessage {
+  const displayName = status.account.display_name || status.account.username;
+  const attachments = extractAttachments(status);
+
+  return {
+    messageId: status.id,
+    userId: status.account.id,
+    username: `@${displayName} (${status.account.id})`,
+    content: getStatusText(status),
+    timestamp: new Date(status.created_at),
+    isBot: status.account.id === botId || !!status.account.bot,
+    attachments: attachments.length > 0 ? attachments : undefined,
+  };
+}
+
+/**
+ * Build reply parameters: same visibility as the original status and
+ * mentions of its author and other participants (except the bot)
+ */
+export function buildReplyParams(
+  originalStatus: MastodonStatus,
+  botId: string,
+): {
+  in_reply_to_id: string;
+  visibility: MastodonVisibility;
+  mentionPrefix: string;
+} {
+  const accts = [originalStatus.account.acct];
+  for (const mention of originalStatus.mentions ?? []) {
+    if (mention.id !== botId && !accts.includes(mention.acct)) {
+      accts.push(mention.acct);
+    }
+  }
+  if (originalStatus.account.id === botId) {
+    accts.shift();
+  }
+
+  return {
+    in_reply_to_id: originalStatus.id,
+    visibility: originalStatus.visibility,
+    mentionPrefix: accts.map((acct) => `@${acct} `).join(""),
+  };
+}
@@ -0,0 +1,7 @@
+// src/platforms/matrix/index.ts
+
+export { MatrixAdapter } from "./matrix-adapter.ts";
+export { MatrixClient } from "./matrix-client.ts";
+export { DEFAULT_MATRIX_CONFIG, MATRIX_EVENT_TYPES } from "./matrix-config.ts";
+export type { MatrixAdapterConfig } from "./matrix-config.ts";
+export * from "./matrix-utils.ts";
@@ -0,0 +1,594 @@
+// src/platforms/matrix/matrix-adapter.ts
+
+import { createLogger } from "@utils/logger.ts";
+import { PlatformAdapter } from "@platforms/platform-adapter.ts";
+import type { Platform, PlatformMessage } from "../../types/events.ts";
+import {
+  ConnectionState,
+  PlatformCapabilities,
+  type PlatformEmoji,
+  type ReactionResult,
+  type ReplyOptions,
+  type ReplyResult,
+} from "../../types/platform.ts";
+import { ErrorCode, PlatformError } from "../../types/errors.ts";
+import { MatrixClient } from "./matrix-client.ts";
+import { DEFAULT_MATRIX_CONFIG, MATRIX_EVENT_TYPES, MatrixAdapterConfig } from "./matrix-config.ts";
+import {
+  eventToPlatformMessage,
+  getDirectRoomIds,
+  getReplacedEventId,
+  getReplacementContent,
+  getReplyToEventId,
+  isEditEvent,
+  type MatrixDirectContent,
+  type MatrixEvent,
+  type MatrixSyncResponse,
+  normalizeMatrixEvent,
+  removeBotMention,
+  shouldRespondToEvent,
+} from "./matrix-utils.ts";
+
+const logger = createLogger("MatrixAdapter");
+
+/** Upper bound on the number of bot event IDs remembered for reply detection */
+const MAX_TRACKED_OWN_EVENTS = 1000;
+
+export class MatrixAdapter extends PlatformAdapter {
+  readonly platform: Platform = "matrix";
+  readonly capabilities: PlatformCapabilities = {
+    canFetchHistory: true,
+    canSearchMessages: false,
+    supportsDm: true,
+    supportsGuild: false,
+    supportsReactions: true,
+    maxMessageLength: 16000,
+  };
+
+  private readonly client: MatrixClient;
+  private readonly config: Required<MatrixAdapterConfig>;
+  private botUserId: string | null = null;
+  private botDisplayName: string | null = null;
+  private directContent: MatrixDirectContent = {};
+  private directRoomIds = new Set<string>();
+  private readonly ownEventIds = new Set<string>();
+  private readonly displayNames = new Map<string, string>();
+  private running = false;
+  private syncAbort: AbortController | null = null;
+  private syncLoop: Promise<void> | null = null;
+  private syncToken: string | undefined;
+  private failedSyncs = 0;
+
+  constructor(config: MatrixAdapterConfig) {
+    super();
+
+    this.config = {
+      ...DEFAULT_MATRIX_CONFIG,
+      ...config,
+    } as Required<MatrixAdapterConfig>;
+
+    this.client = new MatrixClient(this.config);
+  }
+
+  /**
+   * Connect to the homeserver and start the sync loop
+   */
+  async connect(): Promise<void> {
+    logger.info("Connecting to Matrix", { homeserverUrl: this.config.homeserverUrl });
+    this.updateConnectionState(ConnectionState.CONNECTING);
+
+    try {
+      this.botUserId = await this.client.whoami();
+      this.botDisplayName = await this.client.getDisplayName(this.botUserId).catch(() => null);
+
+      const direct = await this.client.getAccountData<MatrixDirectContent>(
+        this.botUserId,
+        MATRIX_EVENT_TYPES.DIRECT,
+      );
+      this.setDirectContent(direct ?? {});
+
+      // Initial sync without timeout: skip the backlog but handle pending invites
+      const initial = await this.client.sync(this.syncToken, 0, undefined, {
+        room: { timeline: { limit: 1 } },
+      });
+      this.syncToken = initial.next_batch;
+      await this.handleInvites(initial);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.updateConnectionState(ConnectionState.ERROR, message);
+
+      throw new PlatformError(
+        ErrorCode.PLATFORM_AUTH_FAILED,
+        `Failed to connect to Matrix: ${message}`,
+        { platform: this.platform, homeserverUrl: this.config.homeserverUrl },
+      );
+    }
+
+    this.running = true;
+    this.failedSyncs = 0;
+    this.syncAbort = new AbortController();
+    this.syncLoop = this.runSyncLoop(this.syncAbort.signal);
+
+    this.updateConnectionState(ConnectionState.CONNECTED);
+    logger.info("Connected to Matrix", {
+      homeserverUrl: this.config.homeserverUrl,
+      botUserId: this.botUserId,
+      directRooms: this.directRoomIds.size,
+    });
+  }
+
+  /**
+   * Sync loop. Runs until disconnect() or until reconnect attempts are exhausted.
+   */
+  private async runSyncLoop(signal: AbortSignal): Promise<void> {
+    while (this.running) {
+      try {
+        const response = await this.client.sync(
+          this.syncToken,
+          this.config.syncTimeoutMs,
+          signal,
+        );
+
+        if (this.failedSyncs > 0) {
+          this.failedSyncs = 0;
+          this.updateConnectionState(ConnectionState.CONNECTED);
+        }
+
+        this.syncToken = response.next_batch;
+        await this.handleSync(response);
+      } catch (error) {
+        if (!this.running) break;
+
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        logger.warn("Matrix sync failed", { error: errorMessage });
+
+        const isAuthError = error instanceof PlatformError &&
+          error.code === ErrorCode.PLATFORM_AUTH_FAILED;
+        if (
+          isAuthError || !this.config.reconnect.enabled ||
+          this.failedSyncs >= (this.config.reconnect.maxAttempts ?? 5)
+        ) {
+          logger.error("Stopping Matrix sync", { error: errorMessage });
+          this.running = false;
+          this.updateConnectionState(ConnectionState.ERROR, errorMessage);
+          break;
+        }
+
+        this.failedSyncs++;
+        const retryAfterMs = error instanceof PlatformError
+          ? (error.context?.retryAfterMs as number | undefined)
+          : undefined;
+        const delay = retryAfterMs ??
+          (this.config.reconnect.baseDelay ?? 1000) * Math.pow(2, this.failedSyncs - 1);
+
+        logger.info("Retrying Matrix sync in {delay}ms (attempt {attempt})", {
+          attempt: this.failedSyncs,
+          delay,
+        });
+        this.updateConnectionState(ConnectionState.RECONNECTING);
+        await this.sleep(delay, signal);
+      }
+    }
+  }
+
+  /**
+   * Abortable delay used between failed syncs
+   */
+  private sleep(ms: number, signal: AbortSignal): Promise<void> {
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => {
+        signal.removeEventListener("abort", onAbort);
+        resolve();
+      }, ms);
+      const onAbort = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+      signal.addEventListener("abort", onAbort, { once: true });
+    });
+  }
+
+  /**
+   * Process a /sync response
+   */
+  private async handleSync(response: MatrixSyncResponse): Promise<void> {
+    for (const event of response.account_data?.events ?? []) {
+      if (event.type === MATRIX_EVENT_TYPES.DIRECT) {
+        this.setDirectContent(event.content as MatrixDirectContent);
+      }
+    }
+
+    await this.handleInvites(response);
+
+    for (const [roomId, room] of Object.entries(response.rooms?.join ?? {})) {
+      for (const event of room.timeline?.events ?? []) {
+        if (event.type !== MATRIX_EVENT_TYPES.MESSAGE) continue;
+        this.handleRoomMessage(roomId, event).catch((error) => {
+          logger.error("Failed to handle Matrix event", {
+            roomId,
+            eventId: event.event_id,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        });
+      }
+    }
+  }
+
+  /**
+   * Join rooms the bot was invited to, recording direct invites in m.direct
+   */
+  private async handleInvites(response: MatrixSyncResponse): Promise<void> {
+    if (!this.botUserId) return;
+
+    for (const [roomId, room] of Object.entries(response.rooms?.invite ?? {})) {
+      const memberEvent = room.invite_state?.events.find((event) =>
+        event.type === MATRIX_EVENT_TYPES.MEMBER && event.state_key === this.botUserId
+      );
+
+      if (!this.config.autoJoin) {
+        logger.debug("Ignoring room invite (autoJoin disabled)", { roomId });
+        continue;
+      }
+
+      try {
+        await this.client.joinRoom(roomId);
+        logger.info("Joined Matrix room {roomId}", { roomId, inviter: memberEvent?.sender });
+
+        if (memberEvent?.content?.is_direct === true && memberEvent.sender) {
+          await this.markDirectRoom(memberEvent.sender, roomId);
+        }
+      } catch (error) {
+        logger.warn("Failed to join Matrix room", {
+          roomId,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  }
+
+  /**
+   * Handle an incoming m.room.message event
+   */
+  private async handleRoomMessage(roomId: string, event: MatrixEvent): Promise<void> {
+    if (!this.botUserId) {
+      logger.warn("Received event before bot info was set");
+      return;
+    }
+
+    const isDm = this.directRoomIds.has(roomId);
+    const repliesToBot = !isDm && await this.isReplyToBot(roomId, event);
+
+    if (
+      !shouldRespondToEvent(event, this.botUserId, isDm, repliesToBot, {
+        allowDm: this.config.allowDm,
+        respondToMention: this.config.respondToMention,
+      })
+    ) {
+      return;
+    }
+
+    logger.debug("Processing event", { roomId, eventId: event.event_id, isDm });
+
+    const normalizedEvent = normalizeMatrixEvent(
+      event,
+      roomId,
+      isDm,
+      this.config.homeserverUrl,
+    );
+    normalizedEvent.content = removeBotMention(
+      normalizedEvent.content,
+      this.botUserId,
+      this.botDisplayName,
+    );
+
+    await this.emitEvent(normalizedEvent);
+  }
+
+  /**
+   * Check whether a message replies to one of the bot's events
+   */
+  private async isReplyToBot(roomId: string, event: MatrixEvent): Promise<boolean> {
+    const replyTo = getReplyToEventId(event);
+    if (!replyTo || event.sender === this.botUserId) return false;
+    if (this.ownEventIds.has(replyTo)) return true;
+
+    try {
+      const parent = await this.client.getEvent(roomId, replyTo);
+      return parent.sender === this.botUserId;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Replace the known m.direct mapping
+   */
+  private setDirectContent(content: MatrixDirectContent): void {
+    this.directContent = content;
+    this.directRoomIds = getDirectRoomIds(content);
+  }
+
+  /**
+   * Record a room as a DM with a user and persist it to m.direct
+   */
+  private async markDirectRoom(userId: string, roomId: string): Promise<void> {
+    const rooms = this.directContent[userId] ?? [];
+    if (rooms.includes(roomId)) return;
+
+    this.setDirectContent({ ...this.directContent, [userId]: [...rooms, roomId] });
+    if (this.botUserId) {
+      await this.client.setAccountData(
+        this.botUserId,
+        MATRIX_EVENT_TYPES.DIRECT,
+        this.directContent,
+      );
+    }
+  }
+
+  /**
+   * Remember an event sent by the bot
+   */
+  private trackOwnEvent(eventId: string): void {
+    this.ownEventIds.add(eventId);
+    if (this.ownEventIds.size > MAX_TRACKED_OWN_EVENTS) {
+      const oldest = this.ownEventIds.values().next().value;
+      if (oldest !== undefined) this.ownEventIds.delete(oldest);
+    }
+  }
+
+  /**
+   * Stop syncing
+   */
+  async disconnect(): Promise<void> {
+    logger.info("Disconnecting from Matrix");
+
+    this.running = false;
+    this.syncAbort?.abort();
+    await this.syncLoop?.catch(() => {});
+    this.syncAbort = null;
+    this.syncLoop = null;
+
+    this.updateConnectionState(ConnectionState.DISCONNECTED);
+  }
+
+  /**
+   * Send a message to a room (optionally as a reply)
+   */
+  async sendReply(
+    channelId: string,
+    content: string,
+    options?: ReplyOptions,
+  ): Promise<ReplyResult> {
+    try {
+      const maxLength = this.capabilities.maxMessageLength;
+      const truncatedContent = content.length > maxLength
+        ? content.slice(0, maxLength - 3) + "..."
+        : content;
+
+      const eventContent: Record<string, unknown> = {
+        msgtype: "m.text",
+        body: truncatedContent,
+      };
+
+      if (options?.replyToMessageId) {
+        eventContent["m.relates_to"] = {
+          "m.in_reply_to": { event_id: options.replyToMessageId },
+        };
+      }
+
+      const eventId = await this.client.sendEvent(
+        channelId,
+        MATRIX_EVENT_TYPES.MESSAGE,
+        eventContent,
+      );
+      this.trackOwnEvent(eventId);
+
+      logger.debug("Reply sent", {
+        eventId,
+        contentLength: content.length,
+      });
+
+      return {
+        success: true,
+        messageId: eventId,
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+
+      logger.error("Failed to send reply", {
+        channelId,
+        error: errorMessage,
+      });
+
+      return {
+        success: false,
+        error: errorMessage,
+      };
+    }
+  }
+
+  /**
+   * Edit a message by sending an m.replace relation.
+   * The original event ID stays the canonical message ID for further edits.
+   */
+  async editMessage(
+    channelId: string,
+    messageId: string,
+    newContent: string,
+  ): Promise<ReplyResult> {
+    try {
+      const maxLength = this.capabilities.maxMessageLength;
+      const truncatedContent = newContent.length > maxLength
+        ? newContent.slice(0, maxLength - 3) + "..."
+        : newContent;
+
+      const eventId = await this.client.sendEvent(channelId, MATRIX_EVENT_TYPES.MESSAGE, {
+        msgtype: "m.text",
+        body: `* ${truncatedContent}`,
+        "m.new_content": {
+          msgtype: "m.text",
+          body: truncatedContent,
+        },
+        "m.relates_to": {
+          rel_type: "m.replace",
+          event_id: messageId,
+        },
+      });
+      this.trackOwnEvent(eventId);
+
+      logger.debug("Message edited", {
+        messageId,
+        editEventId: eventId,
+        contentLength: newContent.length,
+      });
+
+      return { success: true, messageId };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      logger.error("Failed to edit message", { channelId, messageId, error: errorMessage });
+      return { success: false, error: `Failed to edit message: ${errorMessage}` };
+    }
+  }
+
+  /**
+   * Fetch recent messages from a room, with edits applied to their originals
+   */
+  async fetchRecentMessages(
+    channelId: string,
+    limit: number,
+  ): Promise<PlatformMessage[]> {
+    try {
+      // Newest first
+      const events = (await this.client.getRoomMessages(channelId, limit))
+        .filter((event) => event.type === MATRIX_EVENT_TYPES.MESSAGE);
+
+      // Keep only the latest replacement for each edited event
+      const replacements = new Map<string, MatrixEvent>();
+      for (const event of events) {
+        const targetId = getReplacedEventId(event);
+        if (targetId && !replacements.has(targetId)) {
+          replacements.set(targetId, event);
+        }
+      }
+
+      const originals = events.filter((event) => !isEditEvent(event)).reverse();
+      const messages: PlatformMessage[] = [];
+
+      for (const event of originals) {
+        const replacement = replacements.get(event.event_id);
+        const newContent = replacement ? getReplacementContent(replacement) : undefined;
+        const effective: MatrixEvent = newContent ? { ...event, content: newContent } : event;
+        const displayName = await this.getUsername(event.sender);
+        messages.push(
+          eventToPlatformMessage(
+            effective,
+            this.botUserId ?? "",
+            this.config.homeserverUrl,
+            displayName,
+          ),
+        );
+      }
+
+      return messages;
+    } catch (error) {
+      throw new PlatformError(
+        ErrorCode.PLATFORM_API_ERROR,
+        `Failed to fetch messages: ${error instanceof Error ? error.message : String(error)}`,
+        { channelId },
+      );
+    }
+  }
+
+  /**
+   * Matrix has no standard custom emoji listing; agents use Unicode emoji
+   */
+  fetchEmojis(): Promise<PlatformEmoji[]> {
+    return Promise.resolve([]);
+  }
+
+  /**
+   * Add a reaction (m.annotation) to an event
+   */
+  async addReaction(
+    channelId: string,
+    messageId: string,
+    emoji: string,
+  ): Promise<ReactionResult> {
+    try {
+      await this.client.sendEvent(channelId, MATRIX_EVENT_TYPES.REACTION, {
+        "m.relates_to": {
+          rel_type: "m.annotation",
+          event_id: messageId,
+          key: emoji,
+        },
+      });
+
+      logger.debug("Reaction added", { eventId: messageId, emoji });
+
+      return { success: true };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      logger.error("Failed to add reaction", {
+        eventId: messageId,
+        emoji,
+        error: errorMessage,
+      });
+
+      return {
+        success: false,
+        error: errorMessage,
+      };
+    }
+  }
+
+  /**
+   * Get (or create) the DM room with a user
+   */
+  async getDmChannelId(userId: string): Promise<string | null> {
+    const existing = this.directContent[userId]?.[0];
+    if (existing) return existing;
+
+    try {
+      const roomId = await this.client.createDirectRoom(userId);
+      await this.markDirectRoom(userId, roomId);
+      logger.info("Created Matrix DM room", { userId, roomId });
+      return roomId;
+    } catch (error) {
+      logger.error("Failed to create Matrix DM room", {
+        userId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Get display name for a user ID
+   */
+  async getUsername(userId: string): Promise<string> {
+    const cached = this.displayNames.get(userId);
+    if (cached) return cached;
+
+    try {
+      const name = await this.client.getDisplayName(userId) ?? userId;
+      this.displayNames.set(userId, name);
+      return name;
+    } catch {
+      return userId;
+    }
+  }
+
+  /**
+   * Check if a user ID is the bot itself
+   */
+  isSelf(userId: string): boolean {
+    return userId === this.botUserId;
+  }
+
+  /**
+   * Get the bot's user ID
+   */
+  getBotId(): string | null {
+    return this.botUserId;
+  }
+}
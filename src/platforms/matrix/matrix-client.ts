@@ -0,0 +1,213 @@
+// src/platforms/matrix/matrix-client.ts
+
+import { createLogger } from "@utils/logger.ts";
+import { ErrorCode, PlatformError } from "../../types/errors.ts";
+import { MatrixAdapterConfig } from "./matrix-config.ts";
+import type { MatrixEvent, MatrixSyncResponse } from "./matrix-utils.ts";
+
+const logger = createLogger("MatrixClient");
+
+/**
+ * Thin Matrix client-server API client built on fetch
+ */
+export class MatrixClient {
+  private readonly baseUrl: string;
+  private readonly accessToken: string;
+  private txnCounter = 0;
+
+  constructor(config: MatrixAdapterConfig) {
+    this.baseUrl = config.homeserverUrl.replace(/\/+$/, "");
+    this.accessToken = config.accessToken;
+  }
+
+  /**
+   * Make a client-server API request
+   * @param path - Path below /_matrix/client/v3 (already URL-encoded)
+   */
+  async request<T = unknown>(
+    method: "GET" | "POST" | "PUT",
+    path: string,
+    options: {
+      body?: unknown;
+      query?: Record<string, string | number | undefined>;
+      signal?: AbortSignal;
+    } = {},
+  ): Promise<T> {
+    const url = new URL(`${this.baseUrl}/_matrix/client/v3${path}`);
+    for (const [key, value] of Object.entries(options.query ?? {})) {
+      if (value !== undefined) url.searchParams.set(key, String(value));
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method,
+        headers: {
+          "Authorization": `Bearer ${this.accessToken}`,
+          "Content-Type": "application/json",
+        },
+        body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
+        signal: options.signal,
+      });
+    } catch (error) {
+      if (options.signal?.aborted) throw error;
+      throw new PlatformError(
+        ErrorCode.PLATFORM_CONNECTION_FAILED,
+        `Matrix request failed: ${error instanceof Error ? error.message : String(error)}`,
+        { method, path },
+      );
+    }
+
+    const body = await response.json().catch(() => ({})) as Record<string, unknown>;
+
+    if (!response.ok) {
+      const errcode = typeof body.errcode === "string" ? body.errcode : undefined;
+      const description = typeof body.error === "string" ? body.error : `HTTP ${response.status}`;
+      logger.error("Matrix API error", {
+        method,
+        path,
+        status: response.status,
+        errcode,
+        error: description,
+      });
+
+      const code = response.status === 401 || errcode === "M_UNKNOWN_TOKEN"
+        ? ErrorCode.PLATFORM_AUTH_FAILED
+        : response.status === 429
+        ? ErrorCode.PLATFORM_RATE_LIMITED
+        : ErrorCode.PLATFORM_API_ERROR;
+
+      throw new PlatformError(code, `Matrix API error: ${description}`, {
+        method,
+        path,
+        status: response.status,
+        errcode,
+        retryAfterMs: body.retry_after_ms,
+      });
+    }
+
+    return body as T;
+  }
+
+  /**
+   * Get the user ID of the access token owner
+   */
+  async whoami(): Promise<string> {
+    const result = await this.request<{ user_id: string }>("GET", "/account/whoami");
+    return result.user_id;
+  }
+
+  /**
+   * Long poll for new events
+   */
+  sync(
+    since: string | undefined,
+    timeoutMs: number,
+    signal?: AbortSignal,
+    filter?: Record<string, unknown>,
+  ): Promise<MatrixSyncResponse> {
+    return this.request<MatrixSyncResponse>("GET", "/sync", {
+      query: { since, timeout: timeoutMs, filter: filter ? JSON.stringify(filter) : undefined },
+      signal,
+    });
+  }
+
+  /**
+   * Join a room by ID or alias
+   */
+  joinRoom(roomId: string): Promise<{ room_id: string }> {
+    return this.request("POST", `/join/${encodeURIComponent(roomId)}`, { body: {} });
+  }
+
+  /**
+   * Send a room event and return its event ID
+   */
+  async sendEvent(
+    roomId: string,
+    eventType: string,
+    content: Record<string, unknown>,
+  ): Promise<string> {
+    const txnId = `af${Date.now()}.${this.txnCounter++}`;
+    const result = await this.request<{ event_id: string }>(
+      "PUT",
+      `/rooms/${encodeURIComponent(roomId)}/send/${encodeURIComponent(eventType)}/${txnId}`,
+      { body: content },
+    );
+    return result.event_id;
+  }
+
+  /**
+   * Fetch the most recent room events (newest first)
+   */
+  async getRoomMessages(roomId: string, limit: number): Promise<MatrixEvent[]> {
+    const result = await this.request<{ chunk: MatrixEvent[] }>(
+      "GET",
+      `/rooms/${encodeURIComponent(roomId)}/messages`,
+      { query: { dir: "b", limit } },
+    );
+    return result.chunk;
+  }
+
+  /**
+   * Get a single room event
+   */
+  getEvent(roomId: string, eventId: string): Promise<MatrixEvent> {
+    return this.request<MatrixEvent>(
+      "GET",
+      `/rooms/${encodeURIComponent(roomId)}/event/${encodeURIComponent(eventId)}`,
+    );
+  }
+
+  /**
+   * Get a user's display name
+   */
+  async getDisplayName(userId: string): Promise<string | null> {
+    const result = await this.request<{ displayname?: string }>(
+      "GET",
+      `/profile/${encodeURIComponent(userId)}/displayname`,
+    );
+    return result.displayname ?? null;
+  }
+
+  /**
+   * Get global account data of the given type (null if not set)
+   */
+  async getAccountData<T>(userId: string, type: string): Promise<T | null> {
+    try {
+      return await this.request<T>(
+        "GET",
+        `/user/${encodeURIComponent(userId)}/account_data/${encodeURIComponent(type)}`,
+      );
+    } catch (error) {
+      if (error instanceof PlatformError && error.context?.status === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Set global account data of the given type
+   */
+  async setAccountData(userId: string, type: string, content: unknown): Promise<void> {
+    await this.request(
+      "PUT",
+      `/user/${encodeURIComponent(userId)}/account_data/${encodeURIComponent(type)}`,
+      { body: content },
+    );
+  }
+
+  /**
+   * Create a direct message room with a user
+   */
+  async createDirectRoom(userId: string): Promise<string> {
+    const result = await this.request<{ room_id: string }>("POST", "/createRoom", {
+      body: {
+        is_direct: true,
+        invite: [userId],
+        preset: "trusted_private_chat",
+      },
+    });
+    return result.room_id;
+  }
+}
@@ -0,0 +1,59 @@
+// src/platforms/matrix/matrix-config.ts
+
+/**
+ * Matrix adapter configuration
+ */
+export interface MatrixAdapterConfig {
+  /** Homeserver base URL (e.g., "https://matrix.example.com") */
+  homeserverUrl: string;
+
+  /** Access token of the bot account */
+  accessToken: string;
+
+  /** Whether to join rooms the bot is invited to */
+  autoJoin?: boolean;
+
+  /** Whether to respond in direct message rooms */
+  allowDm?: boolean;
+
+  /** Whether to respond when mentioned or replied to in group rooms */
+  respondToMention?: boolean;
+
+  /** Long polling timeout passed to /sync (ms) */
+  syncTimeoutMs?: number;
+
+  /** Reconnect options for the sync loop */
+  reconnect?: {
+    /** Whether to keep syncing after failures */
+    enabled: boolean;
+    /** Max consecutive failed syncs before giving up */
+    maxAttempts?: number;
+    /** Base delay between attempts (ms) */
+    baseDelay?: number;
+  };
+}
+
+/**
+ * Default Matrix configuration
+ */
+export const DEFAULT_MATRIX_CONFIG: Partial<MatrixAdapterConfig> = {
+  autoJoin: true,
+  allowDm: true,
+  respondToMention: true,
+  syncTimeoutMs: 30000,
+  reconnect: {
+    enabled: true,
+    maxAttempts: 5,
+    baseDelay: 1000,
+  },
+};
+
+/**
+ * Matrix event and account data types used by the adapter
+ */
+export const MATRIX_EVENT_TYPES = {
+  MESSAGE: "m.room.message",
+  REACTION: "m.reaction",
+  MEMBER: "m.room.member",
+  DIRECT: "m.direct",
+} as const;
@@ -0,0 +1,280 @@
+// src/platforms/matrix/matrix-utils.ts
+
+import type { Attachment, NormalizedEvent, Platform, PlatformMessage } from "../../types/events.ts";
+
+/**
+ * Matrix room event (subset of the client-server event format)
+ */
+export interface MatrixEvent {
+  event_id: string;
+  type: string;
+  sender: string;
+  origin_server_ts: number;
+  room_id?: string;
+  state_key?: string;
+  content: Record<string, unknown>;
+}
+
+/**
+ * Response of GET /sync (only the parts the adapter uses)
+ */
+export interface MatrixSyncResponse {
+  next_batch: string;
+  rooms?: {
+    join?: Record<string, { timeline?: { events: MatrixEvent[] } }>;
+    invite?: Record<string, { invite_state?: { events: MatrixEvent[] } }>;
+  };
+  account_data?: { events: MatrixEvent[] };
+}
+
+/**
+ * Content of the m.direct account data: user ID → DM room IDs
+ */
+export type MatrixDirectContent = Record<string, string[]>;
+
+/**
+ * Get a string field of event content
+ */
+function getString(content: Record<string, unknown> | undefined, key: string): string | undefined {
+  const value = content?.[key];
+  return typeof value === "string" ? value : undefined;
+}
+
+/**
+ * Get the m.relates_to block of an event
+ */
+function getRelation(event: MatrixEvent): Record<string, unknown> | undefined {
+  const relation = event.content?.["m.relates_to"];
+  return typeof relation === "object" && relation !== null
+    ? relation as Record<string, unknown>
+    : undefined;
+}
+
+/**
+ * Check if an event is an edit (m.replace) of another event
+ */
+export function isEditEvent(event: MatrixEvent): boolean {
+  return getRelation(event)?.rel_type === "m.replace";
+}
+
+/**
+ * Get the ID of the event an edit replaces, if any
+ */
+export function getReplacedEventId(event: MatrixEvent): string | undefined {
+  return isEditEvent(event) ? getString(getRelation(event), "event_id") : undefined;
+}
+
+/**
+ * Get the new content of an edit, if any
+ */
+export function getReplacementContent(event: MatrixEvent): Record<string, unknown> | undefined {
+  const content = event.content?.["m.new_content"];
+  return typeof content === "object" && content !== null
+    ? content as Record<string, unknown>
+    : undefined;
+}
+
+/**
+ * Get the event ID this event replies to (via m.in_reply_to), if any
+ */
+export function getReplyToEventId(event: MatrixEvent): string | undefined {
+  const inReplyTo = getRelation(event)?.["m.in_reply_to"] as { event_id?: string } | undefined;
+  return inReplyTo?.event_id;
+}
+
+/**
+ * Remove the legacy reply fallback ("> <@user:server> quoted text" lines) from a body
+ */
+export function stripReplyFallback(body: string): string {
+  const lines = body.split("\n");
+  let index = 0;
+  while (index < lines.length && lines[index].startsWith(">")) {
+    index++;
+  }
+  if (index === 0) return body;
+  if (index < lines.length && lines[index].trim() === "") {
+    index++;
+  }
+  return lines.slice(index).join("\n");
+}
+
+/**
+ * Get the plain text body of a message event without reply fallback
+ */
+export function getMessageBody(event: MatrixEvent): string {
+  const body = getString(event.content, "body") ?? "";
+  return getReplyToEventId(event) ? stripReplyFallback(body) : body;
+}
+
+/**
+ * Convert an mxc:// URI to an HTTP download URL on the homeserver
+ */
+export function mxcToHttp(mxcUrl: string, homeserverUrl: string): string | null {
+  const match = mxcUrl.match(/^mxc:\/\/([^/]+)\/([^/?#]+)$/);
+  if (!match) return null;
+  const base = homeserverUrl.replace(/\/+$/, "");
+  return `${base}/_matrix/media/v3/download/${encodeURIComponent(match[1])}/${
+    encodeURIComponent(match[2])
+  }`;
+}
+
+/**
+ * Extract attachments from an m.image / m.file / m.video / m.audio event
+ */
+export function extractAttachments(event: MatrixEvent, homeserverUrl: string): Attachment[] {
+  const msgtype = getString(event.content, "msgtype") ?? "";
+  if (!["m.image", "m.file", "m.video", "m.audio"].includes(msgtype)) {
+    return [];
+  }
+
+  const mxcUrl = getString(event.content, "url");
+  const url = mxcUrl ? mxcToHttp(mxcUrl, homeserverUrl) : null;
+  if (!url) return [];
+
+  const info = (event.content.info ?? {}) as {
+    mimetype?: string;
+    size?: number;
+    w?: number;
+    h?: number;
+  };
+  const mimeType = info.mimetype ?? "application/octet-stream";
+
+  return [{
+    id: event.event_id,
+    url,
+    mimeType,
+    filename: getString(event.content, "filename") ?? getString(event.content, "body") ?? "file",
+    size: info.size,
+    width: info.w,
+    height: info.h,
+    isImage: msgtype === "m.image" || mimeType.startsWith("image/"),
+  }];
+}
+
+/**
+ * Check if a message event mentions the bot
+ * (intentional m.mentions, matrix.to pill in formatted body, or raw user ID in body)
+ */
+export function isMentionToBot(event: MatrixEvent, botUserId: string): boolean {
+  const mentions = event.content?.["m.mentions"] as { user_ids?: string[] } | undefined;
+  if (mentions?.user_ids?.includes(botUserId)) {
+    return true;
+  }
+
+  const formattedBody = getString(event.content, "formatted_body") ?? "";
+  if (
+    formattedBody.includes(`matrix.to/#/${botUserId}`) ||
+    formattedBody.includes(`matrix.to/#/${encodeURIComponent(botUserId)}`)
+  ) {
+    return true;
+  }
+
+  return getMessageBody(event).includes(botUserId);
+}
+
+/**
+ * Remove bot mention (user ID or "Display Name:" pill prefix) from message text
+ */
+export function removeBotMention(
+  text: string,
+  botUserId: string,
+  botDisplayName?: string | null,
+): string {
+  let result = text.split(botUserId).join("");
+  if (botDisplayName) {
+    const escaped = botDisplayName.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    result = result.replace(new RegExp(`^${escaped}:?\\s*`, "i"), "");
+  }
+  return result.replace(/^[:,\s]+/, "").trim();
+}
+
+/**
+ * Check if we should respond to this message event
+ */
+export function shouldRespondToEvent(
+  event: MatrixEvent,
+  botUserId: string,
+  isDm: boolean,
+  repliesToBot: boolean,
+  config: {
+    allowDm: boolean;
+    respondToMention: boolean;
+  },
+): boolean {
+  if (event.type !== "m.room.message" || event.sender === botUserId) {
+    return false;
+  }
+
+  // Edits and notices (bot output by convention) never trigger a response
+  if (isEditEvent(event) || event.content?.msgtype === "m.notice") {
+    return false;
+  }
+
+  if (isDm) {
+    return config.allowDm;
+  }
+
+  return config.respondToMention && (repliesToBot || isMentionToBot(event, botUserId));
+}
+
+/**
+ * Convert a Matrix message event to NormalizedEvent
+ */
+export function normalizeMatrixEvent(
+  event: MatrixEvent,
+  roomId: string,
+  isDm: boolean,
+  homeserverUrl: string,
+): NormalizedEvent {
+  const attachments = extractAttachments(event, homeserverUrl);
+
+  return {
+    platform: "matrix" as Platform,
+    channelId: roomId,
+    userId: event.sender,
+    messageId: event.event_id,
+    isDm,
+    guildId: "", // Matrix has no guild concept above rooms
+    // Media events carry the filename in body; it is already part of the attachment
+    content: attachments.length > 0 ? "" : getMessageBody(event),
+    timestamp: new Date(event.origin_server_ts),
+    attachments: attachments.length > 0 ? attachments : undefined,
+    raw: event,
+  };
+}
+
+/**
+ * Convert a Matrix message event to PlatformMessage
+ */
+export function eventToPlatformMessage(
+  event: MatrixEvent,
+  botUserId: string,
+  homeserverUrl: string,
+  displayName?: string | null,
+): PlatformMessage {
+  const attachments = extractAttachments(event, homeserverUrl);
+
+  return {
+    messageId: event.event_id,
+    userId: event.sender,
+    username: `@${displayName ?? event.sender} (${event.sender})`,
+    content: attachments.length > 0 ? "" : getMessageBody(event),
+    timestamp: new Date(event.origin_server_ts),
+    isBot: event.sender === botUserId,
+    attachments: attachments.length > 0 ? attachments : undefined,
+  };
+}
+
+/**
+ * Collect the room IDs marked as direct chats in m.direct content
+ */
+export function getDirectRoomIds(direct: MatrixDirectContent | null): Set<string> {
+  const roomIds = new Set<string>();
+  for (const rooms of Object.values(direct ?? {})) {
+    if (!Array.isArray(rooms)) continue;
+    for (const roomId of rooms) {
+      roomIds.add(roomId);
+    }
+  }
+  return roomIds;
+}
@@ -11,6 +11,7 @@ import {
   type ReactionResult,
   type ReplyOptions,
   type ReplyResult,
+  type TypingIndicator,
 } from "../../types/platform.ts";
 import { ErrorCode, PlatformError } from "../../types/errors.ts";
 import { MisskeyClient } from "./misskey-client.ts";
@@ -25,6 +26,7 @@ import {
   chatMessageToPlatformMessage,
   MisskeyMessage,
   MisskeyNote,
+  MisskeyNoteUpdate,
   normalizeMisskeyChatMessage,
   normalizeMisskeyNote,
   noteToPlatformMessage,
@@ -35,6 +37,11 @@ import {
 
 const logger = createLogger("MisskeyAdapter");
 
+/**
+ * Chat messages have a fixed length limit, unlike notes
+ */
+const MAX_CHAT_MESSAGE_LENGTH = 2000;
+
 export class MisskeyAdapter extends PlatformAdapter {
   readonly platform: Platform = "misskey";
   readonly capabilities: PlatformCapabilities = {
@@ -44,6 +51,8 @@ export class MisskeyAdapter extends PlatformAdapter {
     supportsGuild: false,
     supportsReactions: true,
     maxMessageLength: 3000,
+    maxAttachmentSize: 20 * 1024 * 1024,
+    maxAttachments: 16,
   };
 
   private readonly client: MisskeyClient;
@@ -55,6 +64,10 @@ export class MisskeyAdapter extends PlatformAdapter {
   private emojiCache: PlatformEmoji[] | null = null;
   private emojiCacheTimestamp = 0;
   private readonly EMOJI_CACHE_TTL_MS = 5 * 60 * 1000; // 5 minutes
+  /** Notes currently showing the working reaction */
+  private readonly workingNotes = new Set<string>();
+  /** Channel IDs of the notes being answered, captured for deletions and reactions */
+  private readonly watchedNotes = new Map<string, string>();
 
   constructor(config: MisskeyAdapterConfig) {
     super();
@@ -63,6 +76,7 @@ export class MisskeyAdapter extends PlatformAdapter {
       ...DEFAULT_MISSKEY_CONFIG,
       ...config,
     } as Required<MisskeyAdapterConfig>;
+    this.capabilities.supportsTypingIndicator = this.config.workingReaction !== "";
 
     this.client = new MisskeyClient(this.config);
   }
@@ -80,6 +94,9 @@ export class MisskeyAdapter extends PlatformAdapter {
       this.botId = self.id;
       this.botUsername = self.username;
 
+      await this.loadNoteLengthLimit();
+      await this.applyPersonaProfile(self);
+
       // Connect to streaming API
       const stream = this.client.connectStream();
 
@@ -95,6 +112,11 @@ export class MisskeyAdapter extends PlatformAdapter {
         this.handleChatMessage(message);
       });
 
+      // Deletions of and reactions to captured notes
+      stream.on("noteUpdated", (event: MisskeyNoteUpdate) => {
+        this.handleNoteUpdated(event);
+      });
+
       // Handle stream events
       stream.on("_connected_", () => {
         this.reconnectAttempts = 0;
@@ -122,6 +144,101 @@ export class MisskeyAdapter extends PlatformAdapter {
     }
   }
 
+  /**
+   * Use the instance's note length limit (maxNoteTextLength) instead of the default
+   */
+  private async loadNoteLengthLimit(): Promise<void> {
+    try {
+      const meta = await this.client.request<{ maxNoteTextLength?: number }>("meta", {
+        detail: false,
+      });
+      if (typeof meta.maxNoteTextLength === "number" && meta.maxNoteTextLength > 0) {
+        this.capabilities.maxMessageLength = meta.maxNoteTextLength;
+      }
+    } catch (error) {
+      logger.warn("Could not fetch instance meta, using default note length limit", {
+        maxMessageLength: this.capabilities.maxMessageLength,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Give the bot account the display name and avatar of its persona, when they differ
+   */
+  private async applyPersonaProfile(
+    self: { name: string | null; avatarId?: string | null },
+  ): Promise<void> {
+    if (!this.persona) return;
+
+    const { name, displayName, avatarUrl } = this.persona;
+    try {
+      const changes: Record<string, string> = {};
+      if (displayName && self.name !== displayName) {
+        changes.name = displayName;
+      }
+      if (avatarUrl) {
+        const avatarId = await this.getAvatarFileId(avatarUrl);
+        if (avatarId !== self.avatarId) {
+          changes.avatarId = avatarId;
+        }
+      }
+
+      if (Object.keys(changes).length > 0) {
+        await this.client.request("i/update", changes);
+        logger.info("Applied profile of persona {persona}", {
+          persona: name,
+          changed: Object.keys(changes),
+        });
+      }
+    } catch (error) {
+      logger.warn("Failed to apply profile of persona {persona}", {
+        persona: name,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Drive file of an avatar image. Each image URL is uploaded once: the file is named
+   * after the URL and reused on later connects.
+   */
+  private async getAvatarFileId(avatarUrl: string): Promise<string> {
+    const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(avatarUrl));
+    const filename = `avatar-${
+      Array.from(new Uint8Array(digest).slice(0, 8))
+        .map((byte) => byte.toString(16).padStart(2, "0"))
+        .join("")
+    }`;
+
+    const existing = await this.client.request<{ id: string }[]>("drive/files/find", {
+      name: filename,
+    });
+    if (existing.length > 0) {
+      return existing[0].id;
+    }
+
+    const response = await fetch(avatarUrl);
+    if (!response.ok) {
+      throw new Error(`Failed to download avatar: HTTP ${response.status}`);
+    }
+    const file = await this.client.uploadFile(
+      new Uint8Array(await response.arrayBuffer()),
+      filename,
+      response.headers.get("content-type") ?? "image/png",
+    );
+    return file.id;
+  }
+
+  /**
+   * Maximum message length of a channel: chat messages are shorter than notes
+   */
+  override getMaxMessageLength(channelId: string): number {
+    return channelId.startsWith("chat:")
+      ? MAX_CHAT_MESSAGE_LENGTH
+      : this.capabilities.maxMessageLength;
+  }
+
   /**
    * Handle incoming note
    */
@@ -156,7 +273,49 @@ export class MisskeyAdapter extends PlatformAdapter {
       this.botUsername,
     );
 
-    await this.emitEvent(normalizedEvent);
+    // Capture the note while it is answered, so deleting or reacting to it can stop the session
+    this.watchNote(note.id, normalizedEvent.channelId);
+    try {
+      await this.emitEvent(normalizedEvent);
+    } finally {
+      this.unwatchNote(note.id);
+    }
+  }
+
+  private watchNote(noteId: string, channelId: string): void {
+    this.watchedNotes.set(noteId, channelId);
+    this.client.getStream()?.send("subNote", { id: noteId });
+  }
+
+  private unwatchNote(noteId: string): void {
+    if (!this.watchedNotes.delete(noteId)) return;
+    this.client.getStream()?.send("unsubNote", { id: noteId });
+  }
+
+  /**
+   * Report deletions of and reactions by other users to captured notes
+   */
+  private async handleNoteUpdated(event: MisskeyNoteUpdate): Promise<void> {
+    const channelId = this.watchedNotes.get(event.id);
+    if (!channelId) return;
+
+    if (event.type === "deleted") {
+      await this.emitActivity({
+        type: "deleted",
+        platform: this.platform,
+        channelId,
+        messageId: event.id,
+      });
+    } else if (event.type === "reacted" && event.body.userId !== this.botId) {
+      await this.emitActivity({
+        type: "reacted",
+        platform: this.platform,
+        channelId,
+        messageId: event.id,
+        userId: event.body.userId,
+        reaction: event.body.reaction,
+      });
+    }
   }
 
   /**
@@ -255,18 +414,19 @@ export class MisskeyAdapter extends PlatformAdapter {
   ): Promise<ReplyResult> {
     try {
       // Truncate content if necessary
-      const maxLength = channelId.startsWith("chat:")
-        ? 2000 // Chat messages have 2000 char limit
-        : this.capabilities.maxMessageLength;
+      const maxLength = this.getMaxMessageLength(channelId);
       const truncatedContent = content.length > maxLength
         ? content.slice(0, maxLength - 3) + "..."
         : content;
 
+      // Upload attachments to Drive first, notes and chat messages refer to them by ID
+      const fileIds = await this.uploadAttachments(options?.attachments);
+
       // Handle spontaneous post to bot's own timeline
       if (channelId === "timeline:self") {
         const result = await this.client.request<{ createdNote: MisskeyNote }>(
           "notes/create",
-          { text: truncatedContent },
+          { text: truncatedContent, ...(fileIds.length > 0 ? { fileIds } : {}) },
         );
 
         logger.debug("Spontaneous note posted", {
@@ -281,13 +441,16 @@ export class MisskeyAdapter extends PlatformAdapter {
 
       // Handle chat messages
       if (channelId.startsWith("chat:")) {
-        return await this.sendChatMessage(channelId, truncatedContent);
+        return await this.sendChatMessage(channelId, truncatedContent, fileIds);
       }
 
       // Handle notes
       const params: Record<string, unknown> = {
         text: truncatedContent,
       };
+      if (fileIds.length > 0) {
+        params.fileIds = fileIds;
+      }
 
       // If replying to a specific note, set visibility appropriately
       if (options?.replyToMessageId) {
@@ -313,6 +476,7 @@ export class MisskeyAdapter extends PlatformAdapter {
       logger.debug("Reply sent", {
         noteId: createdNote.createdNote.id,
         contentLength: content.length,
+        fileCount: fileIds.length,
       });
 
       return {
@@ -335,27 +499,53 @@ export class MisskeyAdapter extends PlatformAdapter {
   }
 
   /**
-   * Send a chat message to a user
+   * Upload reply attachments to the bot's Drive
+   * @returns Drive file IDs in attachment order
+   */
+  private async uploadAttachments(attachments: ReplyOptions["attachments"]): Promise<string[]> {
+    const fileIds: string[] = [];
+    for (const attachment of attachments ?? []) {
+      const file = await this.client.uploadFile(
+        attachment.data,
+        attachment.filename,
+        attachment.mimeType,
+      );
+      fileIds.push(file.id);
+    }
+    return fileIds;
+  }
+
+  /**
+   * Send a chat message to a user.
+   * A chat message carries at most one file, so extra files are sent as follow-up messages.
    */
   private async sendChatMessage(
     channelId: string,
     content: string,
+    fileIds: string[] = [],
   ): Promise<ReplyResult> {
     const userId = channelId.slice(5); // Remove "chat:" prefix
 
     try {
+      const [firstFileId, ...extraFileIds] = fileIds;
       const result = await this.client.request<ChatMessageLite>(
         "chat/messages/create-to-user",
         {
           toUserId: userId,
           text: content,
+          ...(firstFileId ? { fileId: firstFileId } : {}),
         },
       );
 
+      for (const fileId of extraFileIds) {
+        await this.client.request("chat/messages/create-to-user", { toUserId: userId, fileId });
+      }
+
       logger.debug("Chat message sent", {
         messageId: result.id,
         toUserId: userId,
         contentLength: content.length,
+        fileCount: fileIds.length,
       });
 
       return {
@@ -653,6 +843,9 @@ export class MisskeyAdapter extends PlatformAdapter {
     }
 
     try {
+      // A user has one reaction per note, so the working reaction has to go first
+      await this.removeWorkingReaction(messageId);
+
       await this.client.request("notes/reactions/create", {
         noteId: messageId,
         reaction: emoji,
@@ -676,6 +869,43 @@ export class MisskeyAdapter extends PlatformAdapter {
     }
   }
 
+  /**
+   * Put the working reaction on the trigger note until stopped.
+   * Chat messages have no indicator.
+   */
+  override async startTypingIndicator(
+    channelId: string,
+    messageId: string,
+  ): Promise<TypingIndicator> {
+    if (channelId.startsWith("chat:")) {
+      return { stop: () => Promise.resolve() };
+    }
+
+    await this.client.request("notes/reactions/create", {
+      noteId: messageId,
+      reaction: this.config.workingReaction,
+    });
+    this.workingNotes.add(messageId);
+
+    return { stop: () => this.removeWorkingReaction(messageId) };
+  }
+
+  /**
+   * Remove the working reaction from a note, if it is there
+   */
+  private async removeWorkingReaction(noteId: string): Promise<void> {
+    if (!this.workingNotes.delete(noteId)) return;
+
+    try {
+      await this.client.request("notes/reactions/delete", { noteId });
+    } catch (error) {
+      logger.warn("Failed to remove working reaction", {
+        noteId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
   /**
    * Get username for a user ID
    */
@@ -703,7 +933,7 @@ export class MisskeyAdapter extends PlatformAdapter {
     newContent: string,
     replyToMessageId?: string,
   ): Promise<ReplyResult> {
-    const maxLength = channelId.startsWith("chat:") ? 2000 : this.capabilities.maxMessageLength;
+    const maxLength = this.getMaxMessageLength(channelId);
     const truncatedContent = newContent.length > maxLength
       ? newContent.slice(0, maxLength - 3) + "..."
       : newContent;
@@ -714,6 +944,31 @@ export class MisskeyAdapter extends PlatformAdapter {
     return await this.editNote(messageId, truncatedContent, replyToMessageId);
   }
 
+  /**
+   * Delete a note or chat message sent by the bot
+   */
+  override async deleteMessage(channelId: string, messageId: string): Promise<ReplyResult> {
+    try {
+      if (channelId.startsWith("chat:")) {
+        await this.client.request("chat/messages/delete", { messageId });
+      } else {
+        await this.client.request("notes/delete", { noteId: messageId });
+      }
+
+      logger.debug("Message deleted", { channelId, messageId });
+
+      return { success: true, messageId };
+    } catch (error) {
+      const errorMessage = error instanceof Error
+        ? error.message
+        : (typeof error === "object" && error !== null && "message" in error)
+        ? String((error as Record<string, unknown>).message)
+        : JSON.stringify(error);
+      logger.error("Failed to delete message", { channelId, messageId, error: errorMessage });
+      return { success: false, error: `Failed to delete message: ${errorMessage}` };
+    }
+  }
+
   private async editNote(
     noteId: string,
     newContent: string,
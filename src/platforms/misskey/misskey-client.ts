@@ -3,6 +3,7 @@
 import { api as MisskeyApi, Stream } from "misskey-js";
 import { MisskeyAdapterConfig } from "./misskey-config.ts";
 import { createLogger } from "@utils/logger.ts";
+import { ErrorCode, PlatformError } from "../../types/errors.ts";
 
 const logger = createLogger("MisskeyClient");
 
@@ -13,11 +14,13 @@ export class MisskeyClient {
   private readonly api: MisskeyApi.APIClient;
   private stream: Stream | null = null;
   private readonly config: MisskeyAdapterConfig;
+  private readonly origin: string;
 
   constructor(config: MisskeyAdapterConfig) {
     this.config = config;
+    this.origin = `${config.secure ? "https" : "http"}://${config.host}`;
     this.api = new MisskeyApi.APIClient({
-      origin: `${config.secure ? "https" : "http"}://${config.host}`,
+      origin: this.origin,
       credential: config.token,
     });
   }
@@ -99,7 +102,44 @@ export class MisskeyClient {
     id: string;
     username: string;
     name: string | null;
+    avatarId?: string | null;
   }> {
     return this.request("i");
   }
+
+  /**
+   * Upload a file to the bot's Drive.
+   * drive/files/create takes multipart form data, which the API client cannot send.
+   */
+  async uploadFile(
+    data: Uint8Array,
+    filename: string,
+    mimeType: string,
+  ): Promise<{ id: string }> {
+    const form = new FormData();
+    form.append("i", this.config.token);
+    form.append("name", filename);
+    form.append("file", new Blob([new Uint8Array(data)], { type: mimeType }), filename);
+
+    const response = await fetch(`${this.origin}/api/drive/files/create`, {
+      method: "POST",
+      body: form,
+    });
+
+    if (!response.ok) {
+      const body = await response.text();
+      logger.error("Misskey Drive upload failed", {
+        filename,
+        status: response.status,
+        error: body,
+      });
+      throw new PlatformError(
+        response.status === 429 ? ErrorCode.PLATFORM_RATE_LIMITED : ErrorCode.PLATFORM_API_ERROR,
+        `Failed to upload ${filename} to Misskey Drive: HTTP ${response.status}`,
+        { platform: "misskey", status: response.status },
+      );
+    }
+
+    return await response.json();
+  }
 }
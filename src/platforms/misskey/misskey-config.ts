@@ -19,6 +19,9 @@ export interface MisskeyAdapterConfig {
   /** Whether to respond to DMs */
   allowDm?: boolean;
 
+  /** Reaction put on a note while the agent works on it, removed once it answers (empty = none) */
+  workingReaction?: string;
+
   /** Reconnect options */
   reconnect?: {
     /** Whether to auto-reconnect */
@@ -37,6 +40,7 @@ export const DEFAULT_MISSKEY_CONFIG: Partial<MisskeyAdapterConfig> = {
   secure: true,
   respondToMention: true,
   allowDm: true,
+  workingReaction: "",
   reconnect: {
     enabled: true,
     maxAttempts: 5,
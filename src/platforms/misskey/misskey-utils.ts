@@ -1,6 +1,6 @@
 // src/platforms/misskey/misskey-utils.ts
 
-import type { entities } from "misskey-js";
+import type { entities, StreamEvents } from "misskey-js";
 import type { Attachment, NormalizedEvent, Platform, PlatformMessage } from "../../types/events.ts";
 
 /**
@@ -8,6 +8,11 @@ import type { Attachment, NormalizedEvent, Platform, PlatformMessage } from "../
  */
 export type MisskeyNote = entities.Note;
 
+/**
+ * Update of a captured note (reaction, deletion, ...) from the streaming API
+ */
+export type MisskeyNoteUpdate = Parameters<StreamEvents["noteUpdated"]>[0];
+
 /**
  * Misskey ChatMessage type (using misskey-js entities)
  */
@@ -1,16 +1,27 @@
 // src/platforms/platform-adapter.ts
 
 import { createLogger } from "@utils/logger.ts";
-import type { NormalizedEvent, Platform, PlatformMessage } from "../types/events.ts";
+import type {
+  MessageActivity,
+  NormalizedEvent,
+  Platform,
+  PlatformMessage,
+} from "../types/events.ts";
 import {
+  type ActivityHandler,
+  type CommandHandler,
+  type CommandResult,
   ConnectionState,
   type ConnectionStatus,
   type EventHandler,
+  type PersonaProfile,
   type PlatformCapabilities,
+  type PlatformCommand,
   type PlatformEmoji,
   type ReactionResult,
   type ReplyOptions,
   type ReplyResult,
+  type TypingIndicator,
 } from "../types/platform.ts";
 import type { MessageFetcher } from "../types/context.ts";
 
@@ -38,6 +49,30 @@ export abstract class PlatformAdapter implements MessageFetcher {
   /** Event handlers */
   protected eventHandlers: EventHandler[] = [];
 
+  /** Command handler (at most one, since a command has a single result) */
+  protected commandHandler: CommandHandler | null = null;
+
+  /** Message activity handlers */
+  protected activityHandlers: ActivityHandler[] = [];
+
+  /** Persona the platform account belongs to (null for the default persona) */
+  protected persona: PersonaProfile | null = null;
+
+  /**
+   * Bind the adapter to a persona. Its events, commands and activities are tagged with
+   * the persona name. Must be called before connect().
+   */
+  setPersona(persona: PersonaProfile): void {
+    this.persona = persona;
+  }
+
+  /**
+   * Name of the persona the platform account belongs to (undefined for the default persona)
+   */
+  getPersonaName(): string | undefined {
+    return this.persona?.name;
+  }
+
   /**
    * Get current connection status
    */
@@ -72,6 +107,10 @@ export abstract class PlatformAdapter implements MessageFetcher {
       channelId: event.channelId,
     });
 
+    if (this.persona) {
+      event = { ...event, persona: this.persona.name };
+    }
+
     const errors: Error[] = [];
 
     for (const handler of this.eventHandlers) {
@@ -97,6 +136,79 @@ export abstract class PlatformAdapter implements MessageFetcher {
     }
   }
 
+  /**
+   * Register a handler for deletions of and reactions to messages, and /clear slash commands.
+   * Only platforms that can notice them emit activities.
+   */
+  onActivity(handler: ActivityHandler): void {
+    this.activityHandlers.push(handler);
+  }
+
+  /**
+   * Emit a message activity to all handlers
+   */
+  protected async emitActivity(activity: MessageActivity): Promise<void> {
+    logger.debug("Emitting message activity", {
+      platform: this.platform,
+      type: activity.type,
+      messageId: activity.messageId,
+      channelId: activity.channelId,
+    });
+
+    if (this.persona) {
+      activity = { ...activity, persona: this.persona.name };
+    }
+
+    for (const handler of this.activityHandlers) {
+      try {
+        await handler(activity);
+      } catch (error) {
+        logger.error("Activity handler error", {
+          platform: this.platform,
+          type: activity.type,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  }
+
+  /**
+   * Register the command handler, replacing any previous one
+   */
+  onCommand(handler: CommandHandler): void {
+    this.commandHandler = handler;
+  }
+
+  /**
+   * Execute a command through the registered handler
+   */
+  protected async executeCommand(command: PlatformCommand): Promise<CommandResult> {
+    if (!this.commandHandler) {
+      return { success: false, content: "Commands are not available right now." };
+    }
+
+    logger.debug("Executing command", {
+      platform: this.platform,
+      command: command.name,
+      channelId: command.event.channelId,
+    });
+
+    if (this.persona) {
+      command = { ...command, event: { ...command.event, persona: this.persona.name } };
+    }
+
+    try {
+      return await this.commandHandler(command);
+    } catch (error) {
+      logger.error("Command handler error", {
+        platform: this.platform,
+        command: command.name,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return { success: false, content: "Something went wrong while running this command." };
+    }
+  }
+
   /**
    * Update connection state
    */
@@ -198,6 +310,25 @@ export abstract class PlatformAdapter implements MessageFetcher {
     replyToMessageId?: string,
   ): Promise<ReplyResult>;
 
+  /**
+   * Show that the bot is working on a message (optional).
+   * Only called when capabilities.supportsTypingIndicator is true.
+   * The indicator keeps running until stopped, which happens once the bot has answered.
+   */
+  startTypingIndicator?(channelId: string, messageId: string): Promise<TypingIndicator>;
+
+  /**
+   * Delete a message sent by the bot (optional).
+   * Used to remove the surplus messages when a split reply is edited into fewer parts.
+   */
+  deleteMessage?(channelId: string, messageId: string): Promise<ReplyResult>;
+
+  /**
+   * Maximum message length in a channel (optional).
+   * Defaults to capabilities.maxMessageLength; implement when some channels have a different limit.
+   */
+  getMaxMessageLength?(channelId: string): number;
+
   /**
    * Get username for a user ID
    */
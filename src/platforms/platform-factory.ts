@@ -0,0 +1,58 @@
+// src/platforms/platform-factory.ts
+
+import { createLogger } from "@utils/logger.ts";
+import type { PlatformAdapter } from "./platform-adapter.ts";
+import { DiscordAdapter } from "./discord/index.ts";
+import { MisskeyAdapter } from "./misskey/index.ts";
+import { TelegramAdapter } from "./telegram/index.ts";
+import { MatrixAdapter } from "./matrix/index.ts";
+import { MastodonAdapter } from "./mastodon/index.ts";
+import { ConsoleAdapter } from "./console/index.ts";
+import { WebhookAdapter } from "./webhook/index.ts";
+import type { PlatformsConfig } from "../types/config.ts";
+
+const logger = createLogger("PlatformFactory");
+
+/**
+ * Create the adapters of the enabled platforms of a platforms section
+ */
+export function createPlatformAdapters(platforms: Partial<PlatformsConfig>): PlatformAdapter[] {
+  const adapters: PlatformAdapter[] = [];
+
+  if (platforms.discord?.enabled) {
+    logger.info("Registering Discord adapter");
+    adapters.push(new DiscordAdapter(platforms.discord));
+  }
+
+  if (platforms.misskey?.enabled) {
+    logger.info("Registering Misskey adapter");
+    adapters.push(new MisskeyAdapter(platforms.misskey));
+  }
+
+  if (platforms.telegram?.enabled) {
+    logger.info("Registering Telegram adapter");
+    adapters.push(new TelegramAdapter(platforms.telegram));
+  }
+
+  if (platforms.matrix?.enabled) {
+    logger.info("Registering Matrix adapter");
+    adapters.push(new MatrixAdapter(platforms.matrix));
+  }
+
+  if (platforms.mastodon?.enabled) {
+    logger.info("Registering Mastodon adapter");
+    adapters.push(new MastodonAdapter(platforms.mastodon));
+  }
+
+  if (platforms.console?.enabled) {
+    logger.info("Registering Console adapter");
+    adapters.push(new ConsoleAdapter(platforms.console));
+  }
+
+  if (platforms.webhook?.enabled) {
+    logger.info("Registering Webhook adapter");
+    adapters.push(new WebhookAdapter(platforms.webhook));
+  }
+
+  return adapters;
+}
@@ -3,32 +3,35 @@
 import { createLogger } from "@utils/logger.ts";
 import type { PlatformAdapter } from "./platform-adapter.ts";
 import { ConnectionManager } from "./connection-manager.ts";
-import type { NormalizedEvent, Platform } from "../types/events.ts";
+import { getAccountKey, type NormalizedEvent, type Platform } from "../types/events.ts";
 import type { ConnectionStatus, EventHandler } from "../types/platform.ts";
 
 const logger = createLogger("PlatformRegistry");
 
 /**
- * Registry for managing multiple platform adapters
+ * Registry for managing multiple platform adapters.
+ * Adapters are keyed by platform account (see getAccountKey), so a platform can have
+ * one account per persona.
  */
 export class PlatformRegistry {
-  private readonly adapters = new Map<Platform, PlatformAdapter>();
-  private readonly connectionManagers = new Map<Platform, ConnectionManager>();
+  private readonly adapters = new Map<string, PlatformAdapter>();
+  private readonly connectionManagers = new Map<string, ConnectionManager>();
   private readonly globalEventHandlers: EventHandler[] = [];
 
   /**
    * Register a platform adapter
    */
   register(adapter: PlatformAdapter): void {
-    if (this.adapters.has(adapter.platform)) {
-      throw new Error(`Platform ${adapter.platform} is already registered`);
+    const key = getAccountKey(adapter.platform, adapter.getPersonaName());
+    if (this.adapters.has(key)) {
+      throw new Error(`Platform ${key} is already registered`);
     }
 
-    this.adapters.set(adapter.platform, adapter);
+    this.adapters.set(key, adapter);
 
     // Create connection manager for the adapter
     const connectionManager = new ConnectionManager(adapter);
-    this.connectionManagers.set(adapter.platform, connectionManager);
+    this.connectionManagers.set(key, connectionManager);
 
     // Forward events to global handlers
     adapter.onEvent(async (event) => {
@@ -36,16 +39,46 @@ export class PlatformRegistry {
     });
 
     logger.info("Platform registered: {platform}", {
-      platform: adapter.platform,
+      platform: key,
       capabilities: adapter.capabilities,
     });
   }
 
   /**
-   * Get a registered adapter by platform
+   * Disconnect and remove an adapter whose account was removed or is replaced (config reload)
    */
-  getAdapter(platform: Platform): PlatformAdapter | undefined {
-    return this.adapters.get(platform);
+  async unregister(adapter: PlatformAdapter): Promise<void> {
+    const key = getAccountKey(adapter.platform, adapter.getPersonaName());
+    if (this.adapters.get(key) !== adapter) return;
+
+    this.adapters.delete(key);
+    const connectionManager = this.connectionManagers.get(key);
+    this.connectionManagers.delete(key);
+    await connectionManager?.disconnect();
+
+    logger.info("Platform unregistered: {platform}", { platform: key });
+  }
+
+  /**
+   * Connect an adapter registered after connectAll() (config reload)
+   */
+  async connect(adapter: PlatformAdapter): Promise<void> {
+    const key = getAccountKey(adapter.platform, adapter.getPersonaName());
+    try {
+      await this.connectionManagers.get(key)?.connectWithRetry();
+    } catch (error) {
+      logger.error("Failed to connect platform", {
+        platform: key,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Get a registered adapter by platform, and persona for the accounts of other personas
+   */
+  getAdapter(platform: Platform, persona?: string): PlatformAdapter | undefined {
+    return this.adapters.get(getAccountKey(platform, persona));
   }
 
   /**
@@ -123,10 +156,10 @@ export class PlatformRegistry {
   }
 
   /**
-   * Get connection status for all platforms
+   * Get connection status for all platform accounts
    */
-  getStatus(): Map<Platform, ConnectionStatus> {
-    const status = new Map<Platform, ConnectionStatus>();
+  getStatus(): Map<string, ConnectionStatus> {
+    const status = new Map<string, ConnectionStatus>();
 
     for (const [platform, adapter] of this.adapters) {
       status.set(platform, adapter.getConnectionStatus());
@@ -0,0 +1,208 @@
+// src/platforms/reply-draft.ts
+
+import { createLogger } from "@utils/logger.ts";
+import { editReplySeries, getMaxMessageLength } from "./reply-series.ts";
+import type { PlatformAdapter } from "./platform-adapter.ts";
+import type { ReplyOptions, ReplyResult } from "../types/platform.ts";
+
+const logger = createLogger("ReplyDraft");
+
+/**
+ * Minimum time between two edits of a draft (Discord allows about 5 edits per 5 seconds)
+ */
+export const DRAFT_EDIT_INTERVAL_MS = 1500;
+
+/**
+ * Content of a draft before its first edit, and of drafts that are discarded but cannot be deleted
+ */
+const DRAFT_PLACEHOLDER = "…";
+
+/**
+ * Draft reply streamed from the text the agent writes while it works.
+ *
+ * A placeholder message is posted as soon as the agent writes text, then edited with
+ * the accumulated text at most every editIntervalMs. send-reply turns the draft into
+ * the final reply (see finalize()); a draft that is never finalized is discarded.
+ */
+export class ReplyDraft {
+  private adapter: PlatformAdapter;
+  private channelId: string;
+  private replyToMessageId?: string;
+  private editIntervalMs: number;
+
+  private text = "";
+  /** Content the draft message currently shows */
+  private shown = "";
+  private messageId: string | null = null;
+  private started = false;
+  private closed = false;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private lastEditAt = 0;
+  /** Platform calls, one at a time */
+  private pending: Promise<void> = Promise.resolve();
+
+  constructor(
+    adapter: PlatformAdapter,
+    channelId: string,
+    replyToMessageId?: string,
+    editIntervalMs = DRAFT_EDIT_INTERVAL_MS,
+  ) {
+    this.adapter = adapter;
+    this.channelId = channelId;
+    this.replyToMessageId = replyToMessageId;
+    this.editIntervalMs = editIntervalMs;
+  }
+
+  /**
+   * Add text written by the agent
+   */
+  append(text: string): void {
+    if (this.closed) return;
+
+    this.text += text;
+    if (this.text.trim().length === 0) return;
+
+    if (!this.started) {
+      this.started = true;
+      this.lastEditAt = Date.now();
+      this.enqueue(() => this.post());
+    }
+    this.scheduleEdit();
+  }
+
+  /**
+   * Start over with the next text. Text written before a tool call is usually the agent
+   * describing its work; the draft keeps showing it until new text arrives.
+   */
+  restart(): void {
+    this.text = "";
+  }
+
+  /**
+   * Turn the draft into the final reply, editing it when the final text differs
+   * @returns null if there is no draft message to reuse (the caller sends the reply itself)
+   */
+  async finalize(content: string, options: ReplyOptions = {}): Promise<ReplyResult | null> {
+    this.close();
+    await this.pending;
+
+    const messageId = this.messageId;
+    if (!messageId) return null;
+
+    // Attachments cannot be added by editing: replace the draft with a new message
+    if (options.attachments && options.attachments.length > 0) {
+      await this.remove();
+      return null;
+    }
+
+    this.messageId = null;
+    if (content === this.shown) {
+      return { success: true, messageId };
+    }
+    return await editReplySeries(
+      this.adapter,
+      this.channelId,
+      [messageId],
+      content,
+      options.replyToMessageId ?? this.replyToMessageId,
+    );
+  }
+
+  /**
+   * Remove a draft that was not finalized. Safe to call after finalize().
+   */
+  async discard(): Promise<void> {
+    this.close();
+    await this.pending;
+    await this.remove();
+  }
+
+  private close(): void {
+    this.closed = true;
+    if (this.timer !== null) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private enqueue(task: () => Promise<void>): void {
+    this.pending = this.pending.then(task).catch((error) => {
+      logger.warn("Failed to update reply draft", {
+        platform: this.adapter.platform,
+        channelId: this.channelId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    });
+  }
+
+  private scheduleEdit(): void {
+    if (this.timer !== null) return;
+
+    const wait = Math.max(0, this.lastEditAt + this.editIntervalMs - Date.now());
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.lastEditAt = Date.now();
+      this.enqueue(() => this.edit());
+    }, wait);
+  }
+
+  private async post(): Promise<void> {
+    if (this.closed) return;
+
+    const result = await this.adapter.sendReply(this.channelId, DRAFT_PLACEHOLDER, {
+      replyToMessageId: this.replyToMessageId,
+    });
+    if (!result.success || !result.messageId) {
+      throw new Error(result.error ?? "Draft message was not sent");
+    }
+
+    this.messageId = result.messageId;
+    this.shown = DRAFT_PLACEHOLDER;
+  }
+
+  private async edit(): Promise<void> {
+    const content = this.preview();
+    if (this.closed || !this.messageId || !content || content === this.shown) return;
+
+    const result = await this.adapter.editMessage(
+      this.channelId,
+      this.messageId,
+      content,
+      this.replyToMessageId,
+    );
+    if (!result.success) {
+      throw new Error(result.error ?? "Draft message was not edited");
+    }
+
+    // Some platforms (e.g., Misskey) recreate the message on edit
+    this.messageId = result.messageId ?? this.messageId;
+    this.shown = content;
+  }
+
+  /**
+   * Accumulated text, cut to fit in one message
+   */
+  private preview(): string {
+    const text = this.text.trim();
+    const maxLength = getMaxMessageLength(this.adapter, this.channelId);
+    return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+  }
+
+  private async remove(): Promise<void> {
+    const messageId = this.messageId;
+    if (!messageId) return;
+    this.messageId = null;
+
+    const deleted = this.adapter.deleteMessage
+      ? await this.adapter.deleteMessage(this.channelId, messageId)
+      : { success: false };
+    if (!deleted.success) {
+      await this.adapter.editMessage(
+        this.channelId,
+        messageId,
+        DRAFT_PLACEHOLDER,
+        this.replyToMessageId,
+      );
+    }
+  }
+}
@@ -0,0 +1,137 @@
+// src/platforms/reply-series.ts
+
+import { createLogger } from "@utils/logger.ts";
+import { splitMessage } from "@utils/message-splitter.ts";
+import type { PlatformAdapter } from "./platform-adapter.ts";
+import type { ReplyOptions, ReplyResult } from "../types/platform.ts";
+
+const logger = createLogger("ReplySeries");
+
+/**
+ * Content left in a surplus part when a shorter edit cannot delete it
+ */
+const EMPTY_PART_PLACEHOLDER = "…";
+
+/**
+ * Maximum message length of a channel
+ */
+export function getMaxMessageLength(adapter: PlatformAdapter, channelId: string): number {
+  return adapter.getMaxMessageLength?.(channelId) ?? adapter.capabilities.maxMessageLength;
+}
+
+/**
+ * Send a reply, split into several messages when it is longer than the platform allows.
+ * The first part carries the reply options (trigger message, attachments);
+ * each following part replies to the part before it.
+ */
+export async function sendReplySeries(
+  adapter: PlatformAdapter,
+  channelId: string,
+  content: string,
+  options: ReplyOptions = {},
+): Promise<ReplyResult> {
+  const parts = splitMessage(content, getMaxMessageLength(adapter, channelId));
+  if (parts.length === 1) {
+    return await adapter.sendReply(channelId, parts[0], options);
+  }
+
+  const messageIds: string[] = [];
+  for (const [index, part] of parts.entries()) {
+    const result = await adapter.sendReply(
+      channelId,
+      part,
+      index === 0 ? options : { replyToMessageId: messageIds.at(-1) },
+    );
+
+    if (!result.success) {
+      if (index === 0) return result;
+
+      logger.error("Failed to send part {part} of {total} of a long reply", {
+        platform: adapter.platform,
+        channelId,
+        part: index + 1,
+        total: parts.length,
+        error: result.error,
+      });
+      return {
+        success: false,
+        messageId: messageIds[0],
+        messageIds,
+        error: `Sent ${index} of ${parts.length} parts: ${result.error ?? "unknown error"}`,
+      };
+    }
+
+    if (result.messageId) messageIds.push(result.messageId);
+  }
+
+  logger.info("Long reply split into {total} messages", {
+    platform: adapter.platform,
+    channelId,
+    total: parts.length,
+    contentLength: content.length,
+  });
+
+  return { success: true, messageId: messageIds[0], messageIds };
+}
+
+/**
+ * Rewrite a reply sent by sendReplySeries().
+ * Existing parts are edited in order, missing parts are sent and surplus parts are deleted
+ * (or emptied when the platform cannot delete messages).
+ */
+export async function editReplySeries(
+  adapter: PlatformAdapter,
+  channelId: string,
+  messageIds: string[],
+  content: string,
+  replyToMessageId?: string,
+): Promise<ReplyResult> {
+  const parts = splitMessage(content, getMaxMessageLength(adapter, channelId));
+  if (parts.length === 1 && messageIds.length === 1) {
+    return await adapter.editMessage(channelId, messageIds[0], parts[0], replyToMessageId);
+  }
+
+  const newIds: string[] = [];
+  for (const [index, part] of parts.entries()) {
+    const previousId = index === 0 ? replyToMessageId : newIds.at(-1);
+    const result = index < messageIds.length
+      ? await adapter.editMessage(channelId, messageIds[index], part, previousId)
+      : await adapter.sendReply(channelId, part, { replyToMessageId: previousId });
+
+    if (!result.success) {
+      return {
+        success: false,
+        messageId: newIds[0] ?? messageIds[0],
+        messageIds: [...newIds, ...messageIds.slice(index)],
+        error: `Updated ${index} of ${parts.length} parts: ${result.error ?? "unknown error"}`,
+      };
+    }
+
+    newIds.push(result.messageId ?? messageIds[index]);
+  }
+
+  for (const messageId of messageIds.slice(parts.length)) {
+    const deleted = adapter.deleteMessage
+      ? await adapter.deleteMessage(channelId, messageId)
+      : { success: false };
+    if (deleted.success) continue;
+
+    // Keep the message in the series so a longer edit can reuse it
+    const result = await adapter.editMessage(
+      channelId,
+      messageId,
+      EMPTY_PART_PLACEHOLDER,
+      newIds.at(-1),
+    );
+    newIds.push(result.messageId ?? messageId);
+  }
+
+  logger.info("Long reply rewritten as {total} messages", {
+    platform: adapter.platform,
+    channelId,
+    total: parts.length,
+    previousTotal: messageIds.length,
+  });
+
+  return { success: true, messageId: newIds[0], messageIds: newIds };
+}
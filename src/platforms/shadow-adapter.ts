@@ -0,0 +1,171 @@
+// src/platforms/shadow-adapter.ts
+
+import { PlatformAdapter } from "./platform-adapter.ts";
+import { getMaxMessageLength } from "./reply-series.ts";
+import type { Platform, PlatformMessage } from "../types/events.ts";
+import type {
+  ConnectionStatus,
+  PlatformCapabilities,
+  PlatformEmoji,
+  ReactionResult,
+  ReplyOptions,
+  ReplyResult,
+} from "../types/platform.ts";
+import type { MessageFetcher } from "../types/context.ts";
+
+/**
+ * Output that a shadowed session would have posted
+ */
+export type ShadowOutput =
+  | {
+    type: "reply";
+    channelId: string;
+    /** ID given to the reply instead of a platform message ID */
+    messageId: string;
+    content: string;
+    replyToMessageId?: string;
+    /** File names of the attachments */
+    attachments?: string[];
+  }
+  | { type: "edit"; channelId: string; messageId: string; content: string }
+  | { type: "reaction"; channelId: string; messageId: string; reaction: string }
+  | { type: "delete"; channelId: string; messageId: string };
+
+/**
+ * Handler receiving the intercepted outputs of a shadow adapter
+ */
+export type ShadowOutputHandler = (
+  adapter: ShadowPlatformAdapter,
+  output: ShadowOutput,
+) => Promise<void>;
+
+/**
+ * Wraps a connected platform adapter so that a session runs as usual but posts nothing.
+ * Replies, edits, reactions and deletions are handed to the output handler and reported
+ * as successful; reading (history, search, emojis, usernames) goes to the wrapped adapter.
+ * Components and skills use it like any other adapter.
+ */
+export class ShadowPlatformAdapter extends PlatformAdapter {
+  readonly platform: Platform;
+  readonly capabilities: PlatformCapabilities;
+
+  /** Thread context of the wrapped adapter, when it can fetch one */
+  fetchThreadContext?: MessageFetcher["fetchThreadContext"];
+
+  private readonly inner: PlatformAdapter;
+  private readonly onOutput: ShadowOutputHandler;
+  private nextMessageId = 1;
+
+  constructor(inner: PlatformAdapter, onOutput: ShadowOutputHandler) {
+    super();
+    this.inner = inner;
+    this.onOutput = onOutput;
+    this.platform = inner.platform;
+    // Typing indicators are visible in the channel
+    this.capabilities = { ...inner.capabilities, supportsTypingIndicator: false };
+
+    if (inner.searchRelatedMessages) {
+      const search = inner.searchRelatedMessages.bind(inner);
+      this.searchRelatedMessages = (guildId, channelId, query, limit) =>
+        search(guildId, channelId, query, limit);
+    }
+    const fetcher = inner as MessageFetcher;
+    if (fetcher.fetchThreadContext) {
+      const fetchThreadContext = fetcher.fetchThreadContext.bind(inner);
+      this.fetchThreadContext = (channelId, parentMessageLimit) =>
+        fetchThreadContext(channelId, parentMessageLimit);
+    }
+  }
+
+  /**
+   * The adapter whose outputs are intercepted
+   */
+  getInner(): PlatformAdapter {
+    return this.inner;
+  }
+
+  override getPersonaName(): string | undefined {
+    return this.inner.getPersonaName();
+  }
+
+  override getConnectionStatus(): ConnectionStatus {
+    return this.inner.getConnectionStatus();
+  }
+
+  /**
+   * The wrapped adapter stays connected; the wrapper itself has nothing to connect
+   */
+  connect(): Promise<void> {
+    return Promise.resolve();
+  }
+
+  disconnect(): Promise<void> {
+    return Promise.resolve();
+  }
+
+  async sendReply(
+    channelId: string,
+    content: string,
+    options?: ReplyOptions,
+  ): Promise<ReplyResult> {
+    const messageId = this.createMessageId();
+    await this.onOutput(this, {
+      type: "reply",
+      channelId,
+      messageId,
+      content,
+      ...(options?.replyToMessageId ? { replyToMessageId: options.replyToMessageId } : {}),
+      ...(options?.attachments?.length
+        ? { attachments: options.attachments.map((attachment) => attachment.filename) }
+        : {}),
+    });
+    return { success: true, messageId };
+  }
+
+  async editMessage(
+    channelId: string,
+    messageId: string,
+    newContent: string,
+  ): Promise<ReplyResult> {
+    await this.onOutput(this, { type: "edit", channelId, messageId, content: newContent });
+    return { success: true, messageId };
+  }
+
+  async addReaction(channelId: string, messageId: string, emoji: string): Promise<ReactionResult> {
+    await this.onOutput(this, { type: "reaction", channelId, messageId, reaction: emoji });
+    return { success: true };
+  }
+
+  override async deleteMessage(channelId: string, messageId: string): Promise<ReplyResult> {
+    await this.onOutput(this, { type: "delete", channelId, messageId });
+    return { success: true, messageId };
+  }
+
+  fetchRecentMessages(channelId: string, limit: number): Promise<PlatformMessage[]> {
+    return this.inner.fetchRecentMessages(channelId, limit);
+  }
+
+  fetchEmojis(): Promise<PlatformEmoji[]> {
+    return this.inner.fetchEmojis();
+  }
+
+  override getMaxMessageLength(channelId: string): number {
+    return getMaxMessageLength(this.inner, channelId);
+  }
+
+  getUsername(userId: string): Promise<string> {
+    return this.inner.getUsername(userId);
+  }
+
+  isSelf(userId: string): boolean {
+    return this.inner.isSelf(userId);
+  }
+
+  getBotId(): string | null {
+    return this.inner.getBotId();
+  }
+
+  private createMessageId(): string {
+    return `shadow-${this.nextMessageId++}`;
+  }
+}
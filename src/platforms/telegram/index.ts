@@ -0,0 +1,7 @@
+// src/platforms/telegram/index.ts
+
+export { TelegramAdapter } from "./telegram-adapter.ts";
+export { TelegramClient } from "./telegram-client.ts";
+export { DEFAULT_TELEGRAM_CONFIG, TELEGRAM_ALLOWED_UPDATES } from "./telegram-config.ts";
+export type { TelegramAdapterConfig } from "./telegram-config.ts";
+export * from "./telegram-utils.ts";
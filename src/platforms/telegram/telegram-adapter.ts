@@ -0,0 +1,498 @@
+// src/platforms/telegram/telegram-adapter.ts
+
+import { createLogger } from "@utils/logger.ts";
+import { PlatformAdapter } from "@platforms/platform-adapter.ts";
+import type { Platform, PlatformMessage } from "../../types/events.ts";
+import {
+  ConnectionState,
+  PlatformCapabilities,
+  type PlatformEmoji,
+  type ReactionResult,
+  type ReplyOptions,
+  type ReplyResult,
+} from "../../types/platform.ts";
+import { ErrorCode, PlatformError } from "../../types/errors.ts";
+import { TelegramClient } from "./telegram-client.ts";
+import { DEFAULT_TELEGRAM_CONFIG, TelegramAdapterConfig } from "./telegram-config.ts";
+import {
+  getDisplayName,
+  getMessageChannelId,
+  messageToPlatformMessage,
+  normalizeTelegramMessage,
+  parseChannelId,
+  removeBotMention,
+  shouldRespondToMessage,
+  type TelegramChat,
+  type TelegramMessage,
+  toReactionType,
+} from "./telegram-utils.ts";
+
+const logger = createLogger("TelegramAdapter");
+
+/** Upper bound on the number of chats kept in the in-memory history */
+const MAX_TRACKED_CHATS = 1000;
+
+export class TelegramAdapter extends PlatformAdapter {
+  readonly platform: Platform = "telegram";
+  readonly capabilities: PlatformCapabilities = {
+    canFetchHistory: true,
+    canSearchMessages: false,
+    supportsDm: true,
+    supportsGuild: true,
+    supportsReactions: true,
+    maxMessageLength: 4096,
+  };
+
+  private readonly client: TelegramClient;
+  private readonly config: Required<TelegramAdapterConfig>;
+  private botId: number | null = null;
+  private botUsername: string | null = null;
+  private running = false;
+  private pollAbort: AbortController | null = null;
+  private pollLoop: Promise<void> | null = null;
+  private updateOffset: number | undefined;
+  private failedPolls = 0;
+  private readonly history = new Map<string, PlatformMessage[]>();
+  private readonly usernames = new Map<string, string>();
+  private emojiCache: PlatformEmoji[] | null = null;
+  private emojiCacheTimestamp = 0;
+  private readonly EMOJI_CACHE_TTL_MS = 5 * 60 * 1000; // 5 minutes
+
+  constructor(config: TelegramAdapterConfig) {
+    super();
+
+    this.config = {
+      ...DEFAULT_TELEGRAM_CONFIG,
+      ...config,
+    } as Required<TelegramAdapterConfig>;
+
+    this.client = new TelegramClient(this.config);
+  }
+
+  /**
+   * Connect to Telegram and start long polling
+   */
+  async connect(): Promise<void> {
+    logger.info("Connecting to Telegram");
+    this.updateConnectionState(ConnectionState.CONNECTING);
+
+    try {
+      const me = await this.client.getMe();
+      this.botId = me.id;
+      this.botUsername = me.username ?? null;
+
+      // getUpdates is rejected while a webhook is set
+      await this.client.deleteWebhook();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.updateConnectionState(ConnectionState.ERROR, message);
+
+      throw new PlatformError(
+        ErrorCode.PLATFORM_AUTH_FAILED,
+        `Failed to connect to Telegram: ${message}`,
+        { platform: this.platform },
+      );
+    }
+
+    this.running = true;
+    this.failedPolls = 0;
+    this.pollAbort = new AbortController();
+    this.pollLoop = this.poll(this.pollAbort.signal);
+
+    this.updateConnectionState(ConnectionState.CONNECTED);
+    logger.info("Connected to Telegram", {
+      botId: this.botId,
+      botUsername: this.botUsername,
+    });
+  }
+
+  /**
+   * Long polling loop. Runs until disconnect() or until reconnect attempts are exhausted.
+   */
+  private async poll(signal: AbortSignal): Promise<void> {
+    while (this.running) {
+      try {
+        const updates = await this.client.getUpdates(
+          this.updateOffset,
+          this.config.pollTimeoutSeconds,
+          signal,
+        );
+
+        if (this.failedPolls > 0) {
+          this.failedPolls = 0;
+          this.updateConnectionState(ConnectionState.CONNECTED);
+        }
+
+        for (const update of updates) {
+          this.updateOffset = update.update_id + 1;
+          if (update.message) {
+            this.handleMessage(update.message).catch((error) => {
+              logger.error("Failed to handle Telegram message", {
+                messageId: update.message?.message_id,
+                error: error instanceof Error ? error.message : String(error),
+              });
+            });
+          }
+        }
+      } catch (error) {
+        if (!this.running) break;
+
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        logger.warn("Telegram polling failed", { error: errorMessage });
+
+        const isAuthError = error instanceof PlatformError &&
+          error.code === ErrorCode.PLATFORM_AUTH_FAILED;
+        if (
+          isAuthError || !this.config.reconnect.enabled ||
+          this.failedPolls >= (this.config.reconnect.maxAttempts ?? 5)
+        ) {
+          logger.error("Stopping Telegram polling", { error: errorMessage });
+          this.running = false;
+          this.updateConnectionState(ConnectionState.ERROR, errorMessage);
+          break;
+        }
+
+        this.failedPolls++;
+        const retryAfter = error instanceof PlatformError
+          ? (error.context?.retryAfter as number | undefined)
+          : undefined;
+        const delay = retryAfter !== undefined
+          ? retryAfter * 1000
+          : (this.config.reconnect.baseDelay ?? 1000) * Math.pow(2, this.failedPolls - 1);
+
+        logger.info("Retrying Telegram polling in {delay}ms (attempt {attempt})", {
+          attempt: this.failedPolls,
+          delay,
+        });
+        this.updateConnectionState(ConnectionState.RECONNECTING);
+        await this.sleep(delay, signal);
+      }
+    }
+  }
+
+  /**
+   * Abortable delay used between failed polls
+   */
+  private sleep(ms: number, signal: AbortSignal): Promise<void> {
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => {
+        signal.removeEventListener("abort", onAbort);
+        resolve();
+      }, ms);
+      const onAbort = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+      signal.addEventListener("abort", onAbort, { once: true });
+    });
+  }
+
+  /**
+   * Handle an incoming message
+   */
+  private async handleMessage(message: TelegramMessage): Promise<void> {
+    if (this.botId === null || !this.botUsername) {
+      logger.warn("Received message before bot info was set");
+      return;
+    }
+
+    this.recordMessage(message);
+
+    if (
+      !shouldRespondToMessage(message, this.botId, this.botUsername, {
+        allowDm: this.config.allowDm,
+        respondToMention: this.config.respondToMention,
+      })
+    ) {
+      return;
+    }
+
+    logger.debug("Processing message", {
+      messageId: message.message_id,
+      chatId: message.chat.id,
+      chatType: message.chat.type,
+      threadId: message.message_thread_id,
+    });
+
+    const normalizedEvent = normalizeTelegramMessage(message);
+    normalizedEvent.content = removeBotMention(normalizedEvent.content, this.botUsername);
+
+    await this.emitEvent(normalizedEvent);
+  }
+
+  /**
+   * Remember a message for fetchRecentMessages and its author for getUsername
+   */
+  private recordMessage(message: TelegramMessage): void {
+    if (this.botId === null) return;
+
+    if (message.from) {
+      this.usernames.set(String(message.from.id), getDisplayName(message.from));
+    }
+
+    const channelId = getMessageChannelId(message);
+    const messages = this.history.get(channelId) ?? [];
+    const platformMessage = messageToPlatformMessage(message, this.botId);
+    const existingIndex = messages.findIndex((m) => m.messageId === platformMessage.messageId);
+
+    if (existingIndex !== -1) {
+      messages[existingIndex] = platformMessage;
+    } else {
+      messages.push(platformMessage);
+    }
+    if (messages.length > this.config.historyLimit) {
+      messages.splice(0, messages.length - this.config.historyLimit);
+    }
+
+    // Re-insert to keep the most recently active chats at the end of the map
+    this.history.delete(channelId);
+    this.history.set(channelId, messages);
+    if (this.history.size > MAX_TRACKED_CHATS) {
+      const oldest = this.history.keys().next().value;
+      if (oldest !== undefined) this.history.delete(oldest);
+    }
+  }
+
+  /**
+   * Stop polling
+   */
+  async disconnect(): Promise<void> {
+    logger.info("Disconnecting from Telegram");
+
+    this.running = false;
+    this.pollAbort?.abort();
+    await this.pollLoop?.catch(() => {});
+    this.pollAbort = null;
+    this.pollLoop = null;
+
+    this.updateConnectionState(ConnectionState.DISCONNECTED);
+  }
+
+  /**
+   * Send a message to a chat (optionally replying to a message)
+   */
+  async sendReply(
+    channelId: string,
+    content: string,
+    options?: ReplyOptions,
+  ): Promise<ReplyResult> {
+    try {
+      const { chatId, threadId } = parseChannelId(channelId);
+      const maxLength = this.capabilities.maxMessageLength;
+      const truncatedContent = content.length > maxLength
+        ? content.slice(0, maxLength - 3) + "..."
+        : content;
+
+      const params: Record<string, unknown> = {
+        chat_id: chatId,
+        text: truncatedContent,
+      };
+
+      if (threadId !== undefined) {
+        params.message_thread_id = threadId;
+      }
+
+      if (options?.replyToMessageId) {
+        params.reply_parameters = {
+          message_id: Number(options.replyToMessageId),
+          allow_sending_without_reply: true,
+        };
+      }
+
+      const sent = await this.client.request<TelegramMessage>("sendMessage", params);
+      this.recordMessage(sent);
+
+      logger.debug("Reply sent", {
+        messageId: sent.message_id,
+        contentLength: content.length,
+      });
+
+      return {
+        success: true,
+        messageId: String(sent.message_id),
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+
+      logger.error("Failed to send reply", {
+        channelId,
+        error: errorMessage,
+      });
+
+      return {
+        success: false,
+        error: errorMessage,
+      };
+    }
+  }
+
+  /**
+   * Edit a message previously sent by the bot
+   */
+  async editMessage(
+    channelId: string,
+    messageId: string,
+    newContent: string,
+  ): Promise<ReplyResult> {
+    try {
+      const { chatId } = parseChannelId(channelId);
+      const maxLength = this.capabilities.maxMessageLength;
+      const truncatedContent = newContent.length > maxLength
+        ? newContent.slice(0, maxLength - 3) + "..."
+        : newContent;
+
+      const edited = await this.client.request<TelegramMessage | boolean>("editMessageText", {
+        chat_id: chatId,
+        message_id: Number(messageId),
+        text: truncatedContent,
+      });
+
+      if (typeof edited === "object") {
+        this.recordMessage(edited);
+      }
+
+      logger.debug("Message edited", {
+        messageId,
+        contentLength: newContent.length,
+      });
+
+      return { success: true, messageId };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      logger.error("Failed to edit message", { channelId, messageId, error: errorMessage });
+      return { success: false, error: `Failed to edit message: ${errorMessage}` };
+    }
+  }
+
+  /**
+   * Fetch recent messages seen in a chat.
+   * The Bot API has no history endpoint, so this returns the in-memory buffer.
+   */
+  fetchRecentMessages(
+    channelId: string,
+    limit: number,
+  ): Promise<PlatformMessage[]> {
+    const messages = this.history.get(channelId) ?? [];
+    return Promise.resolve(messages.slice(-limit));
+  }
+
+  /**
+   * Fetch custom emojis from the configured custom emoji sticker sets
+   */
+  async fetchEmojis(): Promise<PlatformEmoji[]> {
+    if (this.config.customEmojiSets.length === 0) {
+      return [];
+    }
+
+    const now = Date.now();
+    if (this.emojiCache && (now - this.emojiCacheTimestamp) < this.EMOJI_CACHE_TTL_MS) {
+      return this.emojiCache;
+    }
+
+    try {
+      const emojis: PlatformEmoji[] = [];
+
+      for (const setName of this.config.customEmojiSets) {
+        const set = await this.client.getStickerSet(setName);
+        set.stickers.forEach((sticker, index) => {
+          if (!sticker.custom_emoji_id) return;
+          emojis.push({
+            name: `${set.name}_${index}`,
+            animated: sticker.is_animated || sticker.is_video,
+            platformId: sticker.custom_emoji_id,
+            category: set.title,
+            // Bots can only embed custom emoji through message entities; fall back to the base emoji
+            useInText: sticker.emoji ?? "",
+            useAsReaction: sticker.custom_emoji_id,
+          });
+        });
+      }
+
+      this.emojiCache = emojis;
+      this.emojiCacheTimestamp = now;
+
+      logger.debug("Fetched Telegram custom emojis", { count: emojis.length });
+      return emojis;
+    } catch (error) {
+      logger.error("Failed to fetch Telegram custom emojis", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return this.emojiCache ?? [];
+    }
+  }
+
+  /**
+   * Add a reaction to a message
+   * @param emoji - Unicode emoji or a custom emoji ID (numeric string)
+   */
+  async addReaction(
+    channelId: string,
+    messageId: string,
+    emoji: string,
+  ): Promise<ReactionResult> {
+    try {
+      const { chatId } = parseChannelId(channelId);
+      await this.client.request("setMessageReaction", {
+        chat_id: chatId,
+        message_id: Number(messageId),
+        reaction: [toReactionType(emoji)],
+      });
+
+      logger.debug("Reaction added", { messageId, emoji });
+
+      return { success: true };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      logger.error("Failed to add reaction", {
+        messageId,
+        emoji,
+        error: errorMessage,
+      });
+
+      return {
+        success: false,
+        error: errorMessage,
+      };
+    }
+  }
+
+  /**
+   * Get the private chat ID for a user.
+   * Telegram uses the user ID as the private chat ID; the user must have started the bot.
+   */
+  getDmChannelId(userId: string): Promise<string | null> {
+    return Promise.resolve(userId);
+  }
+
+  /**
+   * Get display name for a user ID
+   */
+  async getUsername(userId: string): Promise<string> {
+    const cached = this.usernames.get(userId);
+    if (cached) return cached;
+
+    try {
+      const chat = await this.client.request<TelegramChat>("getChat", { chat_id: userId });
+      const name = [chat.first_name, chat.last_name].filter(Boolean).join(" ") ||
+        chat.username || chat.title || userId;
+      this.usernames.set(userId, name);
+      return name;
+    } catch {
+      return userId;
+    }
+  }
+
+  /**
+   * Check if a user ID is the bot itself
+   */
+  isSelf(userId: string): boolean {
+    return this.botId !== null && userId === String(this.botId);
+  }
+
+  /**
+   * Get the bot's user ID
+   */
+  getBotId(): string | null {
+    return this.botId !== null ? String(this.botId) : null;
+  }
+}
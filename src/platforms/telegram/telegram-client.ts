@@ -0,0 +1,131 @@
+// src/platforms/telegram/telegram-client.ts
+
+import { createLogger } from "@utils/logger.ts";
+import { ErrorCode, PlatformError } from "../../types/errors.ts";
+import { TELEGRAM_ALLOWED_UPDATES, TelegramAdapterConfig } from "./telegram-config.ts";
+import type { TelegramStickerSet, TelegramUpdate, TelegramUser } from "./telegram-utils.ts";
+
+const logger = createLogger("TelegramClient");
+
+/**
+ * Bot API response envelope
+ */
+interface TelegramApiResponse<T> {
+  ok: boolean;
+  result?: T;
+  description?: string;
+  error_code?: number;
+  parameters?: { retry_after?: number };
+}
+
+/**
+ * Thin Telegram Bot API client built on fetch
+ */
+export class TelegramClient {
+  private readonly baseUrl: string;
+
+  constructor(config: TelegramAdapterConfig) {
+    const apiBaseUrl = (config.apiBaseUrl ?? "https://api.telegram.org").replace(/\/+$/, "");
+    this.baseUrl = `${apiBaseUrl}/bot${config.token}`;
+  }
+
+  /**
+   * Make a Bot API request
+   */
+  async request<T = unknown>(
+    method: string,
+    params: Record<string, unknown> = {},
+    signal?: AbortSignal,
+  ): Promise<T> {
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl}/${method}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(params),
+        signal,
+      });
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      throw new PlatformError(
+        ErrorCode.PLATFORM_CONNECTION_FAILED,
+        `Telegram request failed: ${error instanceof Error ? error.message : String(error)}`,
+        { method },
+      );
+    }
+
+    let body: TelegramApiResponse<T>;
+    try {
+      body = await response.json();
+    } catch {
+      throw new PlatformError(
+        ErrorCode.PLATFORM_API_ERROR,
+        `Telegram returned a non-JSON response (HTTP ${response.status})`,
+        { method, status: response.status },
+      );
+    }
+
+    if (!body.ok) {
+      const description = body.description ?? `HTTP ${response.status}`;
+      logger.error("Telegram API error", {
+        method,
+        errorCode: body.error_code,
+        error: description,
+      });
+
+      const code = body.error_code === 401 || body.error_code === 404
+        ? ErrorCode.PLATFORM_AUTH_FAILED
+        : body.error_code === 429
+        ? ErrorCode.PLATFORM_RATE_LIMITED
+        : ErrorCode.PLATFORM_API_ERROR;
+
+      throw new PlatformError(code, `Telegram API error: ${description}`, {
+        method,
+        errorCode: body.error_code,
+        retryAfter: body.parameters?.retry_after,
+      });
+    }
+
+    return body.result as T;
+  }
+
+  /**
+   * Get the bot's own user info
+   */
+  getMe(): Promise<TelegramUser> {
+    return this.request<TelegramUser>("getMe");
+  }
+
+  /**
+   * Remove any configured webhook so that getUpdates can be used
+   */
+  deleteWebhook(): Promise<boolean> {
+    return this.request<boolean>("deleteWebhook", { drop_pending_updates: false });
+  }
+
+  /**
+   * Long poll for new updates
+   */
+  getUpdates(
+    offset: number | undefined,
+    timeoutSeconds: number,
+    signal?: AbortSignal,
+  ): Promise<TelegramUpdate[]> {
+    return this.request<TelegramUpdate[]>(
+      "getUpdates",
+      {
+        offset,
+        timeout: timeoutSeconds,
+        allowed_updates: TELEGRAM_ALLOWED_UPDATES,
+      },
+      signal,
+    );
+  }
+
+  /**
+   * Get a sticker set (used for custom emoji packs)
+   */
+  getStickerSet(name: string): Promise<TelegramStickerSet> {
+    return this.request<TelegramStickerSet>("getStickerSet", { name });
+  }
+}
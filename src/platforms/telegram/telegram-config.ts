@@ -0,0 +1,62 @@
+// src/platforms/telegram/telegram-config.ts
+
+/**
+ * Telegram adapter configuration
+ */
+export interface TelegramAdapterConfig {
+  /** Bot token issued by @BotFather */
+  token: string;
+
+  /** Bot API base URL (override for self-hosted Bot API servers) */
+  apiBaseUrl?: string;
+
+  /** Whether to respond when mentioned or replied to in groups */
+  respondToMention?: boolean;
+
+  /** Whether to respond to private chats */
+  allowDm?: boolean;
+
+  /** Long polling timeout passed to getUpdates (seconds) */
+  pollTimeoutSeconds?: number;
+
+  /**
+   * Number of messages kept in memory per chat.
+   * The Bot API cannot fetch history, so context is built from messages seen via getUpdates.
+   */
+  historyLimit?: number;
+
+  /** Custom emoji sticker set names exposed to the agent as available emojis */
+  customEmojiSets?: string[];
+
+  /** Reconnect options for the polling loop */
+  reconnect?: {
+    /** Whether to keep polling after failures */
+    enabled: boolean;
+    /** Max consecutive failed polls before giving up */
+    maxAttempts?: number;
+    /** Base delay between attempts (ms) */
+    baseDelay?: number;
+  };
+}
+
+/**
+ * Default Telegram configuration
+ */
+export const DEFAULT_TELEGRAM_CONFIG: Partial<TelegramAdapterConfig> = {
+  apiBaseUrl: "https://api.telegram.org",
+  respondToMention: true,
+  allowDm: true,
+  pollTimeoutSeconds: 30,
+  historyLimit: 100,
+  customEmojiSets: [],
+  reconnect: {
+    enabled: true,
+    maxAttempts: 5,
+    baseDelay: 1000,
+  },
+};
+
+/**
+ * Update types requested from getUpdates
+ */
+export const TELEGRAM_ALLOWED_UPDATES = ["message"] as const;
@@ -0,0 +1,258 @@
+// src/platforms/telegram/telegram-utils.ts
+
+import type { NormalizedEvent, Platform, PlatformMessage } from "../../types/events.ts";
+
+/**
+ * Telegram user (subset of the Bot API User object)
+ */
+export interface TelegramUser {
+  id: number;
+  is_bot: boolean;
+  first_name: string;
+  last_name?: string;
+  username?: string;
+}
+
+/**
+ * Telegram chat (subset of the Bot API Chat object)
+ */
+export interface TelegramChat {
+  id: number;
+  type: "private" | "group" | "supergroup" | "channel";
+  title?: string;
+  username?: string;
+  first_name?: string;
+  last_name?: string;
+  is_forum?: boolean;
+}
+
+/**
+ * Telegram message entity (mentions, commands, custom emoji, ...)
+ */
+export interface TelegramMessageEntity {
+  type: string;
+  offset: number;
+  length: number;
+  user?: TelegramUser;
+  custom_emoji_id?: string;
+}
+
+/**
+ * Telegram message (subset of the Bot API Message object)
+ */
+export interface TelegramMessage {
+  message_id: number;
+  message_thread_id?: number;
+  is_topic_message?: boolean;
+  from?: TelegramUser;
+  chat: TelegramChat;
+  date: number;
+  text?: string;
+  caption?: string;
+  entities?: TelegramMessageEntity[];
+  caption_entities?: TelegramMessageEntity[];
+  reply_to_message?: TelegramMessage;
+}
+
+/**
+ * Telegram update delivered by getUpdates
+ */
+export interface TelegramUpdate {
+  update_id: number;
+  message?: TelegramMessage;
+}
+
+/**
+ * Telegram sticker (subset, used for custom emoji sets)
+ */
+export interface TelegramSticker {
+  file_id: string;
+  type: "regular" | "mask" | "custom_emoji";
+  emoji?: string;
+  custom_emoji_id?: string;
+  is_animated: boolean;
+  is_video: boolean;
+}
+
+/**
+ * Telegram sticker set
+ */
+export interface TelegramStickerSet {
+  name: string;
+  title: string;
+  sticker_type: "regular" | "mask" | "custom_emoji";
+  stickers: TelegramSticker[];
+}
+
+/**
+ * Build the channel ID for a chat, including the forum topic when present.
+ * Format: "{chatId}" or "{chatId}:{threadId}"
+ */
+export function buildChannelId(chatId: number | string, threadId?: number): string {
+  return threadId !== undefined ? `${chatId}:${threadId}` : String(chatId);
+}
+
+/**
+ * Parse a channel ID produced by buildChannelId
+ */
+export function parseChannelId(channelId: string): { chatId: string; threadId?: number } {
+  const separator = channelId.indexOf(":");
+  if (separator === -1) {
+    return { chatId: channelId };
+  }
+
+  const threadId = Number(channelId.slice(separator + 1));
+  return {
+    chatId: channelId.slice(0, separator),
+    threadId: Number.isInteger(threadId) ? threadId : undefined,
+  };
+}
+
+/**
+ * Get the channel ID a message belongs to.
+ * Only forum topic messages are scoped by thread; reply threads in regular groups are not.
+ */
+export function getMessageChannelId(message: TelegramMessage): string {
+  return buildChannelId(
+    message.chat.id,
+    message.is_topic_message ? message.message_thread_id : undefined,
+  );
+}
+
+/**
+ * Get text content of a message (text or media caption)
+ */
+export function getMessageText(message: TelegramMessage): string {
+  return message.text ?? message.caption ?? "";
+}
+
+/**
+ * Get display name for a Telegram user
+ */
+export function getDisplayName(user: TelegramUser): string {
+  return [user.first_name, user.last_name].filter(Boolean).join(" ") || user.username ||
+    String(user.id);
+}
+
+/**
+ * Check if a message is in a private chat
+ */
+export function isDirectMessage(message: TelegramMessage): boolean {
+  return message.chat.type === "private";
+}
+
+/**
+ * Check if a message mentions the bot (by @username or text mention) or replies to it
+ */
+export function isMentionToBot(
+  message: TelegramMessage,
+  botId: number,
+  botUsername: string,
+): boolean {
+  if (message.reply_to_message?.from?.id === botId) {
+    return true;
+  }
+
+  const text = getMessageText(message);
+  const entities = message.entities ?? message.caption_entities ?? [];
+
+  return entities.some((entity) => {
+    if (entity.type === "text_mention") {
+      return entity.user?.id === botId;
+    }
+    if (entity.type === "mention" || entity.type === "bot_command") {
+      const value = text.slice(entity.offset, entity.offset + entity.length).toLowerCase();
+      return value === `@${botUsername.toLowerCase()}` ||
+        value.endsWith(`@${botUsername.toLowerCase()}`);
+    }
+    return false;
+  });
+}
+
+/**
+ * Remove bot mention from message text
+ */
+export function removeBotMention(text: string, botUsername: string): string {
+  const mentionPattern = new RegExp(`@${botUsername}\\b\\s*`, "gi");
+  return text.replace(mentionPattern, "").trim();
+}
+
+/**
+ * Check if we should respond to this message
+ */
+export function shouldRespondToMessage(
+  message: TelegramMessage,
+  botId: number,
+  botUsername: string,
+  config: {
+    allowDm: boolean;
+    respondToMention: boolean;
+  },
+): boolean {
+  // Ignore service messages and anonymous channel posts
+  if (!message.from) {
+    return false;
+  }
+
+  // Never respond to self or other bots
+  if (message.from.id === botId || message.from.is_bot) {
+    return false;
+  }
+
+  if (isDirectMessage(message)) {
+    return config.allowDm;
+  }
+
+  return config.respondToMention && isMentionToBot(message, botId, botUsername);
+}
+
+/**
+ * Convert Telegram message to NormalizedEvent
+ */
+export function normalizeTelegramMessage(message: TelegramMessage): NormalizedEvent {
+  const isDm = isDirectMessage(message);
+
+  return {
+    platform: "telegram" as Platform,
+    channelId: getMessageChannelId(message),
+    userId: String(message.from?.id ?? message.chat.id),
+    messageId: String(message.message_id),
+    isDm,
+    guildId: isDm ? "" : String(message.chat.id),
+    content: getMessageText(message),
+    timestamp: new Date(message.date * 1000),
+    raw: message,
+  };
+}
+
+/**
+ * Convert Telegram message to PlatformMessage
+ */
+export function messageToPlatformMessage(
+  message: TelegramMessage,
+  botId: number,
+): PlatformMessage {
+  const userId = String(message.from?.id ?? message.chat.id);
+  const displayName = message.from ? getDisplayName(message.from) : message.chat.title ?? userId;
+
+  return {
+    messageId: String(message.message_id),
+    userId,
+    username: `@${displayName} (${userId})`,
+    content: getMessageText(message),
+    timestamp: new Date(message.date * 1000),
+    isBot: message.from?.id === botId || !!message.from?.is_bot,
+  };
+}
+
+/**
+ * Build a Bot API ReactionType.
+ * Numeric strings are treated as custom emoji IDs, anything else as a Unicode emoji.
+ */
+export function toReactionType(
+  emoji: string,
+): { type: "emoji"; emoji: string } | { type: "custom_emoji"; custom_emoji_id: string } {
+  return /^\d+$/.test(emoji)
+    ? { type: "custom_emoji", custom_emoji_id: emoji }
+    : { type: "emoji", emoji };
+}
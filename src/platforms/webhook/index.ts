@@ -0,0 +1,10 @@
+// src/platforms/webhook/index.ts
+
+export { WebhookAdapter } from "./webhook-adapter.ts";
+export {
+  DEFAULT_WEBHOOK_CONFIG,
+  WEBHOOK_BOT_ID,
+  WEBHOOK_SIGNATURE_HEADER,
+} from "./webhook-config.ts";
+export type { WebhookAdapterConfig } from "./webhook-config.ts";
+export * from "./webhook-utils.ts";
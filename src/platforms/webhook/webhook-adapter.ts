@@ -0,0 +1,426 @@
+// src/platforms/webhook/webhook-adapter.ts
+
+import { createLogger } from "@utils/logger.ts";
+import { PlatformAdapter } from "@platforms/platform-adapter.ts";
+import type { Platform, PlatformMessage } from "../../types/events.ts";
+import {
+  ConnectionState,
+  PlatformCapabilities,
+  type PlatformEmoji,
+  type ReactionResult,
+  type ReplyOptions,
+  type ReplyResult,
+} from "../../types/platform.ts";
+import { ErrorCode, PlatformError } from "../../types/errors.ts";
+import {
+  DEFAULT_WEBHOOK_CONFIG,
+  WEBHOOK_BOT_ID,
+  WEBHOOK_SIGNATURE_HEADER,
+  WebhookAdapterConfig,
+} from "./webhook-config.ts";
+import {
+  inboundToPlatformMessage,
+  normalizeWebhookMessage,
+  parseInboundMessage,
+  signPayload,
+  timingSafeEqual,
+  type WebhookCallbackPayload,
+  type WebhookCallbackResponse,
+  type WebhookInboundMessage,
+} from "./webhook-utils.ts";
+
+const logger = createLogger("WebhookAdapter");
+
+/**
+ * Maximum number of channels kept in the in-memory history
+ */
+const MAX_TRACKED_CHANNELS = 1000;
+
+/**
+ * Generic HTTP webhook adapter.
+ * Receives chat messages over authenticated HTTP POST and delivers the bot's
+ * replies, edits and reactions to a callback URL (see docs/WEBHOOK.md).
+ */
+export class WebhookAdapter extends PlatformAdapter {
+  readonly platform: Platform = "webhook";
+  readonly capabilities: PlatformCapabilities = {
+    canFetchHistory: true,
+    canSearchMessages: false,
+    supportsDm: true,
+    supportsGuild: true,
+    supportsReactions: true,
+    maxMessageLength: 4000,
+  };
+
+  private readonly config: Required<WebhookAdapterConfig>;
+  private server: Deno.HttpServer<Deno.NetAddr> | null = null;
+  private readonly history = new Map<string, PlatformMessage[]>();
+  private readonly usernames = new Map<string, string>();
+  private readonly dmChannels = new Map<string, string>();
+
+  constructor(config: WebhookAdapterConfig) {
+    super();
+
+    this.config = {
+      ...DEFAULT_WEBHOOK_CONFIG,
+      ...config,
+    } as Required<WebhookAdapterConfig>;
+  }
+
+  /**
+   * Start the inbound HTTP server
+   */
+  async connect(): Promise<void> {
+    logger.info("Starting webhook server", { host: this.config.host, port: this.config.port });
+    this.updateConnectionState(ConnectionState.CONNECTING);
+
+    try {
+      const listening = Promise.withResolvers<void>();
+      this.server = Deno.serve(
+        {
+          port: this.config.port,
+          hostname: this.config.host,
+          onListen: ({ hostname, port }) => {
+            logger.info("Webhook server listening on {hostname}:{port}", { hostname, port });
+            listening.resolve();
+          },
+        },
+        (request) => this.handleRequest(request),
+      );
+      await listening.promise;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.updateConnectionState(ConnectionState.ERROR, message);
+
+      throw new PlatformError(
+        ErrorCode.PLATFORM_CONNECTION_FAILED,
+        `Failed to start webhook server: ${message}`,
+        { platform: this.platform, port: this.config.port },
+      );
+    }
+
+    this.updateConnectionState(ConnectionState.CONNECTED);
+  }
+
+  /**
+   * Get the port the inbound server listens on (null if not started)
+   */
+  getPort(): number | null {
+    return this.server?.addr.port ?? null;
+  }
+
+  /**
+   * Handle an inbound HTTP request
+   */
+  private async handleRequest(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+
+    if (url.pathname !== this.config.path) {
+      return this.jsonResponse(404, { success: false, error: "Not found" });
+    }
+
+    if (request.method !== "POST") {
+      return this.jsonResponse(405, { success: false, error: "Method not allowed" });
+    }
+
+    const authorization = request.headers.get("Authorization") ?? "";
+    if (!timingSafeEqual(authorization, `Bearer ${this.config.secret}`)) {
+      logger.warn("Rejected webhook request with invalid credentials");
+      return this.jsonResponse(401, { success: false, error: "Unauthorized" });
+    }
+
+    let message: WebhookInboundMessage;
+    try {
+      message = parseInboundMessage(await request.json());
+    } catch (error) {
+      const errorMessage = error instanceof PlatformError
+        ? error.message
+        : "Invalid webhook payload: body must be valid JSON";
+      return this.jsonResponse(400, { success: false, error: errorMessage });
+    }
+
+    this.handleMessage(message);
+
+    return this.jsonResponse(202, { success: true, messageId: message.messageId });
+  }
+
+  /**
+   * Record an inbound message and emit it unless it is context only
+   */
+  private handleMessage(message: WebhookInboundMessage): void {
+    this.usernames.set(message.userId, message.username ?? message.userId);
+    if (message.isDm) {
+      this.dmChannels.set(message.userId, message.channelId);
+    }
+    this.recordMessage(message.channelId, inboundToPlatformMessage(message));
+
+    if (message.respond === false || message.isBot) {
+      return;
+    }
+
+    logger.debug("Processing webhook message", {
+      messageId: message.messageId,
+      channelId: message.channelId,
+    });
+
+    // emitEvent resolves after the whole session; answer the HTTP request right away
+    this.emitEvent(normalizeWebhookMessage(message)).catch((error) => {
+      logger.error("Failed to handle webhook message", {
+        messageId: message.messageId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    });
+  }
+
+  /**
+   * Append or replace a message in the channel history
+   */
+  private recordMessage(channelId: string, message: PlatformMessage): void {
+    const messages = this.history.get(channelId) ?? [];
+    const existingIndex = messages.findIndex((m) => m.messageId === message.messageId);
+
+    if (existingIndex !== -1) {
+      messages[existingIndex] = message;
+    } else {
+      messages.push(message);
+    }
+    if (messages.length > this.config.historyLimit) {
+      messages.splice(0, messages.length - this.config.historyLimit);
+    }
+
+    // Re-insert to keep the most recently active channels at the end of the map
+    this.history.delete(channelId);
+    this.history.set(channelId, messages);
+    if (this.history.size > MAX_TRACKED_CHANNELS) {
+      const oldest = this.history.keys().next().value;
+      if (oldest !== undefined) this.history.delete(oldest);
+    }
+  }
+
+  private jsonResponse(status: number, body: Record<string, unknown>): Response {
+    return new Response(JSON.stringify(body), {
+      status,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  /**
+   * Stop the inbound HTTP server
+   */
+  async disconnect(): Promise<void> {
+    logger.info("Stopping webhook server");
+
+    if (this.server) {
+      await this.server.shutdown();
+      this.server = null;
+    }
+
+    this.updateConnectionState(ConnectionState.DISCONNECTED);
+  }
+
+  /**
+   * POST a signed payload to the callback URL
+   * @throws PlatformError if the request fails or the callback reports a failure
+   */
+  private async deliver(payload: WebhookCallbackPayload): Promise<WebhookCallbackResponse> {
+    const body = JSON.stringify(payload);
+
+    let response: Response;
+    try {
+      response = await fetch(this.config.callbackUrl, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          [WEBHOOK_SIGNATURE_HEADER]: await signPayload(this.config.secret, body),
+        },
+        body,
+        signal: AbortSignal.timeout(this.config.callbackTimeoutMs),
+      });
+    } catch (error) {
+      throw new PlatformError(
+        ErrorCode.PLATFORM_CONNECTION_FAILED,
+        `Webhook callback failed: ${error instanceof Error ? error.message : String(error)}`,
+        { type: payload.type },
+      );
+    }
+
+    const result = await response.json().catch(() => ({})) as WebhookCallbackResponse;
+
+    if (!response.ok || result.success === false) {
+      const description = result.error ?? `HTTP ${response.status}`;
+      throw new PlatformError(
+        ErrorCode.PLATFORM_API_ERROR,
+        `Webhook callback error: ${description}`,
+        { type: payload.type, status: response.status },
+      );
+    }
+
+    return result;
+  }
+
+  /**
+   * Deliver a reply to the callback URL
+   */
+  async sendReply(
+    channelId: string,
+    content: string,
+    options?: ReplyOptions,
+  ): Promise<ReplyResult> {
+    try {
+      const maxLength = this.capabilities.maxMessageLength;
+      const truncatedContent = content.length > maxLength
+        ? content.slice(0, maxLength - 3) + "..."
+        : content;
+
+      const generatedId = crypto.randomUUID();
+      const result = await this.deliver({
+        type: "reply",
+        platform: "webhook",
+        channelId,
+        messageId: generatedId,
+        content: truncatedContent,
+        replyToMessageId: options?.replyToMessageId,
+      });
+      const messageId = typeof result.messageId === "string" && result.messageId
+        ? result.messageId
+        : generatedId;
+
+      this.recordMessage(channelId, {
+        messageId,
+        userId: WEBHOOK_BOT_ID,
+        username: `@bot (${WEBHOOK_BOT_ID})`,
+        content: truncatedContent,
+        timestamp: new Date(),
+        isBot: true,
+      });
+
+      logger.debug("Reply sent", { messageId, contentLength: content.length });
+
+      return { success: true, messageId };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+
+      logger.error("Failed to send reply", {
+        channelId,
+        error: errorMessage,
+      });
+
+      return {
+        success: false,
+        error: errorMessage,
+      };
+    }
+  }
+
+  /**
+   * Deliver an edit of a bot message to the callback URL
+   */
+  async editMessage(
+    channelId: string,
+    messageId: string,
+    newContent: string,
+  ): Promise<ReplyResult> {
+    try {
+      const maxLength = this.capabilities.maxMessageLength;
+      const truncatedContent = newContent.length > maxLength
+        ? newContent.slice(0, maxLength - 3) + "..."
+        : newContent;
+
+      await this.deliver({
+        type: "edit",
+        platform: "webhook",
+        channelId,
+        messageId,
+        content: truncatedContent,
+      });
+
+      const existing = this.history.get(channelId)?.find((m) => m.messageId === messageId);
+      if (existing) {
+        this.recordMessage(channelId, { ...existing, content: truncatedContent });
+      }
+
+      logger.debug("Message edited", { messageId, contentLength: newContent.length });
+
+      return { success: true, messageId };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      logger.error("Failed to edit message", { channelId, messageId, error: errorMessage });
+      return { success: false, error: `Failed to edit message: ${errorMessage}` };
+    }
+  }
+
+  /**
+   * Return the in-memory history of a channel
+   */
+  fetchRecentMessages(
+    channelId: string,
+    limit: number,
+  ): Promise<PlatformMessage[]> {
+    const messages = this.history.get(channelId) ?? [];
+    return Promise.resolve(messages.slice(-limit));
+  }
+
+  /**
+   * Webhook integrations have no custom emojis
+   */
+  fetchEmojis(): Promise<PlatformEmoji[]> {
+    return Promise.resolve([]);
+  }
+
+  /**
+   * Deliver a reaction to the callback URL
+   */
+  async addReaction(
+    channelId: string,
+    messageId: string,
+    emoji: string,
+  ): Promise<ReactionResult> {
+    try {
+      await this.deliver({ type: "reaction", platform: "webhook", channelId, messageId, emoji });
+
+      logger.debug("Reaction added", { messageId, emoji });
+
+      return { success: true };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      logger.error("Failed to add reaction", {
+        messageId,
+        emoji,
+        error: errorMessage,
+      });
+
+      return {
+        success: false,
+        error: errorMessage,
+      };
+    }
+  }
+
+  /**
+   * Get the DM channel of a user, known once the user has sent a direct message
+   */
+  getDmChannelId(userId: string): Promise<string | null> {
+    return Promise.resolve(this.dmChannels.get(userId) ?? null);
+  }
+
+  /**
+   * Get display name for a user ID
+   */
+  getUsername(userId: string): Promise<string> {
+    return Promise.resolve(this.usernames.get(userId) ?? userId);
+  }
+
+  /**
+   * Check if a user ID is the bot itself
+   */
+  isSelf(userId: string): boolean {
+    return userId === WEBHOOK_BOT_ID;
+  }
+
+  /**
+   * Get the bot's user ID
+   */
+  getBotId(): string | null {
+    return WEBHOOK_BOT_ID;
+  }
+}
@@ -0,0 +1,48 @@
+// src/platforms/webhook/webhook-config.ts
+
+/**
+ * Webhook adapter configuration
+ */
+export interface WebhookAdapterConfig {
+  /** Shared secret: inbound requests must send it as a Bearer token; callbacks are signed with it */
+  secret: string;
+
+  /** URL that receives the bot's replies, edits and reactions */
+  callbackUrl: string;
+
+  /** Port of the inbound HTTP server */
+  port?: number;
+
+  /** Hostname the inbound HTTP server binds to */
+  host?: string;
+
+  /** Path that accepts inbound messages */
+  path?: string;
+
+  /** Number of messages kept in memory per channel for context */
+  historyLimit?: number;
+
+  /** Timeout for callback requests (ms) */
+  callbackTimeoutMs?: number;
+}
+
+/**
+ * Default webhook configuration
+ */
+export const DEFAULT_WEBHOOK_CONFIG: Partial<WebhookAdapterConfig> = {
+  port: 8090,
+  host: "0.0.0.0",
+  path: "/webhook",
+  historyLimit: 100,
+  callbackTimeoutMs: 10000,
+};
+
+/**
+ * User ID of the bot in webhook conversations
+ */
+export const WEBHOOK_BOT_ID = "webhook-bot";
+
+/**
+ * Header carrying the HMAC-SHA256 signature of callback bodies
+ */
+export const WEBHOOK_SIGNATURE_HEADER = "X-AIr-Friends-Signature";
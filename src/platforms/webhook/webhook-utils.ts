@@ -0,0 +1,223 @@
+// src/platforms/webhook/webhook-utils.ts
+
+import type { Attachment, NormalizedEvent, PlatformMessage } from "../../types/events.ts";
+import { ErrorCode, PlatformError } from "../../types/errors.ts";
+
+/**
+ * Inbound chat message (request body of POST {path}).
+ * Mirrors NormalizedEvent without the platform and raw fields.
+ */
+export interface WebhookInboundMessage {
+  channelId: string;
+  userId: string;
+  messageId: string;
+  content: string;
+  /** Display name of the author (default: userId) */
+  username?: string;
+  /** Whether this is a direct message (default: false) */
+  isDm?: boolean;
+  /** Guild/server identifier (default: "") */
+  guildId?: string;
+  /** ISO 8601 timestamp (default: time of receipt) */
+  timestamp?: string;
+  attachments?: Attachment[];
+  /** Whether the author is a bot (default: false) */
+  isBot?: boolean;
+  /** Set to false to only record the message as context without a response (default: true) */
+  respond?: boolean;
+}
+
+/**
+ * Outbound callback payload (request body sent to the callback URL)
+ */
+export type WebhookCallbackPayload =
+  | {
+    type: "reply";
+    platform: "webhook";
+    channelId: string;
+    messageId: string;
+    content: string;
+    replyToMessageId?: string;
+  }
+  | {
+    type: "edit";
+    platform: "webhook";
+    channelId: string;
+    messageId: string;
+    content: string;
+  }
+  | {
+    type: "reaction";
+    platform: "webhook";
+    channelId: string;
+    messageId: string;
+    emoji: string;
+  };
+
+/**
+ * Optional callback response body, mirroring ReplyResult.
+ * A messageId returned for a reply replaces the one generated by the adapter.
+ */
+export interface WebhookCallbackResponse {
+  success?: boolean;
+  messageId?: string;
+  error?: string;
+}
+
+function invalid(message: string): PlatformError {
+  return new PlatformError(
+    ErrorCode.PLATFORM_API_ERROR,
+    `Invalid webhook payload: ${message}`,
+  );
+}
+
+function requireString(body: Record<string, unknown>, field: string): string {
+  const value = body[field];
+  if (typeof value !== "string" || value.trim() === "") {
+    throw invalid(`${field} must be a non-empty string`);
+  }
+  return value;
+}
+
+function optionalType<T>(
+  body: Record<string, unknown>,
+  field: string,
+  type: string,
+): T | undefined {
+  const value = body[field];
+  if (value === undefined || value === null) return undefined;
+  const actualType = typeof value;
+  if (actualType !== type) {
+    throw invalid(`${field} must be a ${type}`);
+  }
+  return value as T;
+}
+
+/**
+ * Parse an attachment of an inbound message, filling in optional fields
+ */
+function parseAttachment(value: unknown, index: number): Attachment {
+  if (value === null || typeof value !== "object") {
+    throw invalid(`attachments[${index}] must be an object`);
+  }
+  const attachment = value as Record<string, unknown>;
+  const url = requireString(attachment, "url");
+  const mimeType = optionalType<string>(attachment, "mimeType", "string") ??
+    "application/octet-stream";
+
+  return {
+    id: optionalType<string>(attachment, "id", "string") ?? url,
+    url,
+    mimeType,
+    filename: optionalType<string>(attachment, "filename", "string") ??
+      (url.split(/[?#]/)[0].split("/").pop() || "file"),
+    size: optionalType<number>(attachment, "size", "number"),
+    width: optionalType<number>(attachment, "width", "number"),
+    height: optionalType<number>(attachment, "height", "number"),
+    isImage: optionalType<boolean>(attachment, "isImage", "boolean") ??
+      mimeType.startsWith("image/"),
+  };
+}
+
+/**
+ * Validate an inbound request body
+ * @throws PlatformError if a field is missing or has the wrong type
+ */
+export function parseInboundMessage(body: unknown): WebhookInboundMessage {
+  if (body === null || typeof body !== "object" || Array.isArray(body)) {
+    throw invalid("body must be a JSON object");
+  }
+  const data = body as Record<string, unknown>;
+
+  const timestamp = optionalType<string>(data, "timestamp", "string");
+  if (timestamp !== undefined && isNaN(Date.parse(timestamp))) {
+    throw invalid("timestamp must be an ISO 8601 date");
+  }
+
+  const attachments = data.attachments;
+  if (attachments !== undefined && !Array.isArray(attachments)) {
+    throw invalid("attachments must be an array");
+  }
+
+  return {
+    channelId: requireString(data, "channelId"),
+    userId: requireString(data, "userId"),
+    messageId: requireString(data, "messageId"),
+    content: optionalType<string>(data, "content", "string") ?? "",
+    username: optionalType<string>(data, "username", "string"),
+    isDm: optionalType<boolean>(data, "isDm", "boolean"),
+    guildId: optionalType<string>(data, "guildId", "string"),
+    timestamp,
+    attachments: attachments?.map(parseAttachment),
+    isBot: optionalType<boolean>(data, "isBot", "boolean"),
+    respond: optionalType<boolean>(data, "respond", "boolean"),
+  };
+}
+
+/**
+ * Convert an inbound message to NormalizedEvent
+ */
+export function normalizeWebhookMessage(message: WebhookInboundMessage): NormalizedEvent {
+  const isDm = message.isDm ?? false;
+
+  return {
+    platform: "webhook",
+    channelId: message.channelId,
+    userId: message.userId,
+    messageId: message.messageId,
+    isDm,
+    guildId: isDm ? "" : message.guildId ?? "",
+    content: message.content,
+    timestamp: message.timestamp ? new Date(message.timestamp) : new Date(),
+    attachments: message.attachments?.length ? message.attachments : undefined,
+    raw: message,
+  };
+}
+
+/**
+ * Convert an inbound message to PlatformMessage
+ */
+export function inboundToPlatformMessage(message: WebhookInboundMessage): PlatformMessage {
+  return {
+    messageId: message.messageId,
+    userId: message.userId,
+    username: `@${message.username ?? message.userId} (${message.userId})`,
+    content: message.content,
+    timestamp: message.timestamp ? new Date(message.timestamp) : new Date(),
+    isBot: message.isBot ?? false,
+    attachments: message.attachments?.length ? message.attachments : undefined,
+  };
+}
+
+/**
+ * Compare two strings in time independent of where they differ
+ */
+export function timingSafeEqual(a: string, b: string): boolean {
+  const encoder = new TextEncoder();
+  const left = encoder.encode(a);
+  const right = encoder.encode(b);
+  let diff = left.length ^ right.length;
+  for (let i = 0; i < Math.min(left.length, right.length); i++) {
+    diff |= left[i] ^ right[i];
+  }
+  return diff === 0;
+}
+
+/**
+ * Compute the "sha256=<hex>" HMAC signature of a callback body
+ */
+export async function signPayload(secret: string, body: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(body));
+  const hex = Array.from(new Uint8Array(signature))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+  return `sha256=${hex}`;
+}
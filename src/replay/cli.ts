@@ -0,0 +1,100 @@
+// src/replay/cli.ts
+
+import { parse } from "@std/flags";
+import { join } from "@std/path";
+import { readFixture } from "./fixture.ts";
+
+/**
+ * Print help message
+ */
+function printHelp(): void {
+  console.log(`
+Replay recorded events against a scripted agent, without network or LLM access
+
+Usage:
+  deno task replay [options] <fixture or directory>...
+
+Options:
+  -h, --help            Show this help message
+  --print               Print the outputs of each replay as JSON
+  -v, --verbose         Show the debug logs of the replayed sessions
+
+Environment Variables:
+  LOG_LEVEL             Log level when not verbose (default: ERROR)
+
+Exits with status 1 when a replay fails its expectations.
+`);
+}
+
+/**
+ * Expand directories to the fixture files they contain, in path order
+ */
+async function findFixtures(paths: string[]): Promise<string[]> {
+  const files: string[] = [];
+  for (const path of paths) {
+    if (!(await Deno.stat(path)).isDirectory) {
+      files.push(path);
+      continue;
+    }
+    const found: string[] = [];
+    for await (const entry of Deno.readDir(path)) {
+      const entryPath = join(path, entry.name);
+      if (entry.isDirectory) {
+        found.push(...await findFixtures([entryPath]));
+      } else if (entry.name.endsWith(".json")) {
+        found.push(entryPath);
+      }
+    }
+    files.push(...found.sort());
+  }
+  return files;
+}
+
+async function main(): Promise<void> {
+  const args = parse(Deno.args, {
+    boolean: ["help", "print", "verbose"],
+    alias: { h: "help", v: "verbose" },
+  });
+  const paths = args._.map(String);
+
+  if (args.help || paths.length === 0) {
+    printHelp();
+    Deno.exit(args.help ? 0 : 1);
+  }
+
+  // Loggers read LOG_LEVEL when their module loads: set it before importing the core
+  Deno.env.set("LOG_LEVEL", args.verbose ? "DEBUG" : Deno.env.get("LOG_LEVEL") ?? "ERROR");
+  const { runReplay } = await import("./replay-runner.ts");
+
+  let failed = 0;
+  const files = await findFixtures(paths);
+  for (const file of files) {
+    const fixture = await readFixture(file);
+    const result = await runReplay(fixture);
+    const label = fixture.name ? `${file} (${fixture.name})` : file;
+
+    if (result.failures.length === 0) {
+      console.log(`✓ ${label}`);
+    } else {
+      failed++;
+      console.log(`✗ ${label}`);
+      for (const failure of result.failures) {
+        console.log(`    ${failure}`);
+      }
+    }
+    if (args.print) {
+      const { prompts: _prompts, ...outputs } = result;
+      console.log(JSON.stringify(outputs, null, 2));
+    }
+  }
+
+  console.log(`\n${files.length - failed} passed, ${failed} failed`);
+  Deno.exit(failed > 0 ? 1 : 0);
+}
+
+if (import.meta.main) {
+  main().catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    Deno.exit(1);
+  });
+}
@@ -0,0 +1,70 @@
+// src/replay/fixture.ts
+
+import { ConfigError, ErrorCode } from "../types/errors.ts";
+import { type NormalizedEvent, type PlatformMessage, PLATFORMS } from "../types/events.ts";
+import type { ReplayFixture } from "../types/replay.ts";
+
+/**
+ * Read a replay fixture, turning the timestamps of its events and history back into dates
+ * @throws ConfigError if the file is not a replay fixture
+ */
+export async function readFixture(path: string): Promise<ReplayFixture> {
+  let fixture: ReplayFixture;
+  try {
+    fixture = JSON.parse(await Deno.readTextFile(path));
+  } catch (error) {
+    throw new ConfigError(
+      ErrorCode.CONFIG_INVALID,
+      `Cannot read replay fixture ${path}: ${error instanceof Error ? error.message : error}`,
+      { path },
+    );
+  }
+
+  const problem = findProblem(fixture);
+  if (problem) {
+    throw new ConfigError(
+      ErrorCode.CONFIG_INVALID,
+      `Invalid replay fixture ${path}: ${problem}`,
+      { path },
+    );
+  }
+
+  return {
+    ...fixture,
+    events: fixture.events.map(({ event, history }) => ({
+      event: reviveEvent(event),
+      history: (history ?? []).map(reviveMessage),
+    })),
+  };
+}
+
+/**
+ * Describe what makes parsed JSON an invalid fixture (null if it is valid)
+ */
+function findProblem(fixture: ReplayFixture): string | null {
+  if (fixture?.version !== 1) {
+    return `unsupported version ${JSON.stringify(fixture?.version)}`;
+  }
+  if (!(PLATFORMS as readonly string[]).includes(fixture.platform)) {
+    return `unknown platform ${JSON.stringify(fixture.platform)}`;
+  }
+  if (!Array.isArray(fixture.events) || fixture.events.length === 0) {
+    return "no events";
+  }
+  if (fixture.events.some(({ event }) => event?.platform !== fixture.platform)) {
+    return `events of another platform than ${fixture.platform}`;
+  }
+  return null;
+}
+
+function reviveEvent(event: NormalizedEvent): NormalizedEvent {
+  return {
+    ...event,
+    timestamp: new Date(event.timestamp),
+    ...(event.precedingEvents ? { precedingEvents: event.precedingEvents.map(reviveEvent) } : {}),
+  };
+}
+
+function reviveMessage(message: PlatformMessage): PlatformMessage {
+  return { ...message, timestamp: new Date(message.timestamp) };
+}
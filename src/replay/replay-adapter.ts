@@ -0,0 +1,130 @@
+// src/replay/replay-adapter.ts
+
+import { PlatformAdapter } from "@platforms/platform-adapter.ts";
+import type { Platform, PlatformMessage } from "../types/events.ts";
+import {
+  ConnectionState,
+  type PlatformCapabilities,
+  type PlatformEmoji,
+  type ReactionResult,
+  type ReplyOptions,
+  type ReplyResult,
+} from "../types/platform.ts";
+import type { ReplayFixture } from "../types/replay.ts";
+
+/**
+ * Reply sent during a replay
+ */
+export interface ReplayedReply {
+  channelId: string;
+  messageId: string;
+  content: string;
+  replyToMessageId?: string;
+  /** File names of the attachments */
+  attachments?: string[];
+}
+
+/**
+ * Edit made during a replay
+ */
+export interface ReplayedEdit {
+  channelId: string;
+  messageId: string;
+  content: string;
+}
+
+/**
+ * Reaction added during a replay
+ */
+export interface ReplayedReaction {
+  channelId: string;
+  messageId: string;
+  emoji: string;
+}
+
+/**
+ * Platform adapter of a replay: serves the recorded channel history and
+ * keeps the replies, edits and reactions sent through it
+ */
+export class ReplayPlatformAdapter extends PlatformAdapter {
+  readonly platform: Platform;
+  readonly capabilities: PlatformCapabilities;
+
+  readonly replies: ReplayedReply[] = [];
+  readonly edits: ReplayedEdit[] = [];
+  readonly reactions: ReplayedReaction[] = [];
+
+  private readonly botId: string;
+  /** Channel history of the event being replayed, by channel ID */
+  private history = new Map<string, PlatformMessage[]>();
+
+  constructor(fixture: ReplayFixture) {
+    super();
+    this.platform = fixture.platform;
+    this.capabilities = fixture.capabilities;
+    this.botId = fixture.botId;
+  }
+
+  /**
+   * Serve the history recorded with the next event
+   */
+  setHistory(channelId: string, messages: PlatformMessage[]): void {
+    this.history.set(channelId, messages);
+  }
+
+  connect(): Promise<void> {
+    this.updateConnectionState(ConnectionState.CONNECTED);
+    return Promise.resolve();
+  }
+
+  disconnect(): Promise<void> {
+    this.updateConnectionState(ConnectionState.DISCONNECTED);
+    return Promise.resolve();
+  }
+
+  sendReply(channelId: string, content: string, options?: ReplyOptions): Promise<ReplyResult> {
+    const messageId = `replay-reply-${this.replies.length + 1}`;
+    this.replies.push({
+      channelId,
+      messageId,
+      content,
+      ...(options?.replyToMessageId ? { replyToMessageId: options.replyToMessageId } : {}),
+      ...(options?.attachments?.length
+        ? { attachments: options.attachments.map((attachment) => attachment.filename) }
+        : {}),
+    });
+    return Promise.resolve({ success: true, messageId });
+  }
+
+  editMessage(channelId: string, messageId: string, newContent: string): Promise<ReplyResult> {
+    this.edits.push({ channelId, messageId, content: newContent });
+    return Promise.resolve({ success: true, messageId });
+  }
+
+  addReaction(channelId: string, messageId: string, emoji: string): Promise<ReactionResult> {
+    this.reactions.push({ channelId, messageId, emoji });
+    return Promise.resolve({ success: true });
+  }
+
+  fetchRecentMessages(channelId: string, limit: number): Promise<PlatformMessage[]> {
+    return Promise.resolve((this.history.get(channelId) ?? []).slice(-limit));
+  }
+
+  fetchEmojis(): Promise<PlatformEmoji[]> {
+    return Promise.resolve([]);
+  }
+
+  getUsername(userId: string): Promise<string> {
+    const message = Array.from(this.history.values()).flat()
+      .find((message) => message.userId === userId);
+    return Promise.resolve(message?.username ?? userId);
+  }
+
+  isSelf(userId: string): boolean {
+    return userId === this.botId;
+  }
+
+  getBotId(): string | null {
+    return this.botId;
+  }
+}
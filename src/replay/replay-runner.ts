@@ -0,0 +1,340 @@
+// src/replay/replay-runner.ts
+
+import { join } from "@std/path";
+import { AgentCore } from "@core/agent-core.ts";
+import { MemoryStore } from "@core/memory-store.ts";
+import { WorkspaceManager } from "@core/workspace-manager.ts";
+import { metricsRegistry } from "@utils/metrics.ts";
+import type { Config } from "../types/config.ts";
+import type { MemoryImportance, MemoryVisibility } from "../types/memory.ts";
+import type { ReplayExpectations, ReplayFixture } from "../types/replay.ts";
+import {
+  type ReplayedEdit,
+  type ReplayedReaction,
+  type ReplayedReply,
+  ReplayPlatformAdapter,
+} from "./replay-adapter.ts";
+import { type ExecutedSkillCall, ScriptedAgent, ScriptedAgentConnector } from "./scripted-agent.ts";
+
+const SYSTEM_PROMPT = "You are a friendly bot chatting with people. Reply in their language.\n";
+
+/**
+ * Memory written during a replay
+ */
+export interface ReplayedMemory {
+  workspace: string;
+  content: string;
+  visibility: MemoryVisibility;
+  importance: MemoryImportance;
+}
+
+/**
+ * Outputs of a replay and the expectations they failed
+ */
+export interface ReplayResult {
+  replies: ReplayedReply[];
+  edits: ReplayedEdit[];
+  reactions: ReplayedReaction[];
+  memories: ReplayedMemory[];
+
+  /** Counter increases by series, e.g. `airfriends_replies_sent_total{platform="discord"}` */
+  metrics: Record<string, number>;
+
+  /** Prompts received by the scripted agent */
+  prompts: string[];
+
+  /** Skill calls made by the scripted agent */
+  skillCalls: ExecutedSkillCall[];
+
+  /** Failed expectations (empty when the replay passed) */
+  failures: string[];
+}
+
+/**
+ * Series of a counter
+ */
+interface CounterSeries {
+  name: string;
+  labels: Record<string, string | number>;
+  value: number;
+}
+
+/**
+ * Replay the events of a fixture through AgentCore.handleEvent, with the scripted agent
+ * of the fixture and a platform adapter serving the recorded history. Runs in a temporary
+ * data directory, without network or LLM access (the skill API listens on localhost).
+ *
+ * Counters are process-wide: replays must not run concurrently.
+ */
+export async function runReplay(fixture: ReplayFixture): Promise<ReplayResult> {
+  const repoPath = await Deno.makeTempDir({ prefix: "airfriends-replay-" });
+  try {
+    await Deno.mkdir(join(repoPath, "prompts"));
+    await Deno.writeTextFile(join(repoPath, "prompts", "system.md"), SYSTEM_PROMPT);
+
+    const port = findFreePort();
+    const config = createReplayConfig(repoPath, port);
+    const agent = new ScriptedAgent(fixture.agent?.turns ?? [], `http://127.0.0.1:${port}`);
+    const agentCore = new AgentCore(
+      config,
+      false,
+      (options) => new ScriptedAgentConnector(options, agent),
+    );
+    const adapter = new ReplayPlatformAdapter(fixture);
+    agentCore.registerPlatform(adapter);
+
+    const before = await snapshotCounters();
+    try {
+      for (const { event, history } of fixture.events) {
+        // The adapter is registered without persona
+        const { persona: _persona, ...replayed } = event;
+        adapter.setHistory(event.channelId, history);
+        await agentCore.handleEvent(replayed);
+      }
+    } finally {
+      await agentCore.shutdown();
+    }
+    const metrics = diffCounters(before, await snapshotCounters());
+
+    const result: ReplayResult = {
+      replies: adapter.replies,
+      edits: adapter.edits,
+      reactions: adapter.reactions,
+      memories: await collectMemories(config),
+      metrics,
+      prompts: agent.prompts,
+      skillCalls: agent.skillCalls,
+      failures: [],
+    };
+    result.failures = checkExpectations(fixture.expect ?? {}, result);
+    return result;
+  } finally {
+    await Deno.remove(repoPath, { recursive: true });
+  }
+}
+
+function createReplayConfig(repoPath: string, skillApiPort: number): Config {
+  return {
+    platforms: {
+      discord: { token: "", enabled: false },
+      misskey: { host: "", token: "", enabled: false },
+    },
+    agent: {
+      model: "replay",
+      systemPromptPath: join(repoPath, "prompts", "system.md"),
+      tokenLimit: 20000,
+      defaultAgentType: "opencode",
+    },
+    memory: {
+      searchLimit: 10,
+      maxChars: 2000,
+      recentMessageLimit: 20,
+    },
+    workspace: {
+      repoPath,
+      workspacesDir: "workspaces",
+    },
+    logging: {
+      level: "ERROR",
+    },
+    accessControl: {
+      replyTo: "all",
+      whitelist: [],
+    },
+    skillApi: {
+      enabled: true,
+      port: skillApiPort,
+      host: "127.0.0.1",
+      sessionTimeoutMs: 60000,
+    },
+    // Events are replayed one at a time; waiting for more messages only slows replays down
+    sessionQueue: {
+      debounceMs: 0,
+    },
+  };
+}
+
+function findFreePort(): number {
+  const listener = Deno.listen({ hostname: "127.0.0.1", port: 0 });
+  const { port } = listener.addr as Deno.NetAddr;
+  listener.close();
+  return port;
+}
+
+/**
+ * Read the memories of all workspaces created by the replay
+ */
+async function collectMemories(config: Config): Promise<ReplayedMemory[]> {
+  const workspaceManager = new WorkspaceManager({
+    repoPath: config.workspace.repoPath,
+    workspacesDir: config.workspace.workspacesDir,
+  });
+  const memoryStore = new MemoryStore(workspaceManager, {
+    searchLimit: config.memory.searchLimit,
+    maxChars: config.memory.maxChars,
+  });
+
+  const memories: ReplayedMemory[] = [];
+  for (const key of await workspaceManager.listWorkspaces()) {
+    const components = workspaceManager.parseWorkspaceKey(key);
+    if (!components) continue;
+
+    const info = { key, components, path: workspaceManager.getWorkspacePath(key), isDm: true };
+    for (const visibility of ["public", "private"] as const) {
+      for (const memory of await memoryStore.loadAllMemories(info, visibility)) {
+        if (!memory.enabled) continue;
+        memories.push({
+          workspace: key,
+          content: memory.content,
+          visibility: memory.visibility,
+          importance: memory.importance,
+        });
+      }
+    }
+  }
+  return memories;
+}
+
+async function snapshotCounters(): Promise<CounterSeries[]> {
+  const metrics = await metricsRegistry.getMetricsAsJSON();
+  return metrics
+    // Typed as a numeric enum, but reported as "counter", "gauge", ...
+    .filter((metric) => String(metric.type) === "counter")
+    .flatMap((metric) =>
+      metric.values.map((value) => ({
+        name: metric.name,
+        labels: value.labels as Record<string, string | number>,
+        value: value.value,
+      }))
+    );
+}
+
+/**
+ * Counter increases between two snapshots, by series
+ */
+function diffCounters(before: CounterSeries[], after: CounterSeries[]): Record<string, number> {
+  const previous = new Map(before.map((series) => [formatSeries(series), series.value]));
+  const increases: Record<string, number> = {};
+  for (const series of after) {
+    const key = formatSeries(series);
+    const increase = series.value - (previous.get(key) ?? 0);
+    if (increase !== 0) increases[key] = increase;
+  }
+  return increases;
+}
+
+/**
+ * Format a series as in the Prometheus exposition format, without the default app label
+ */
+function formatSeries({ name, labels }: Pick<CounterSeries, "name" | "labels">): string {
+  const pairs = Object.entries(labels)
+    .filter(([label]) => label !== "app")
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([label, value]) => `${label}="${value}"`);
+  return pairs.length > 0 ? `${name}{${pairs.join(",")}}` : name;
+}
+
+/**
+ * Sum the increases of the series matching a selector such as `name{label="value"}`
+ */
+function sumIncreases(metrics: Record<string, number>, selector: string): number {
+  const match = selector.match(/^([^{]+)(?:\{(.*)\})?$/);
+  const name = match?.[1] ?? selector;
+  const required = [...(match?.[2] ?? "").matchAll(/(\w+)="([^"]*)"/g)].map(([pair]) => pair);
+
+  let total = 0;
+  for (const [series, increase] of Object.entries(metrics)) {
+    const [seriesName, labels = ""] = series.split(/[{}]/);
+    if (seriesName !== name) continue;
+    const present = labels.split(",");
+    if (required.every((pair) => present.includes(pair))) total += increase;
+  }
+  return total;
+}
+
+/**
+ * Describe each expectation the outputs fail
+ */
+function checkExpectations(expect: ReplayExpectations, result: ReplayResult): string[] {
+  const failures: string[] = [];
+
+  if (expect.replies) {
+    if (result.replies.length !== expect.replies.length) {
+      failures.push(
+        `expected ${expect.replies.length} replies, got ${result.replies.length}`,
+      );
+    }
+    expect.replies.forEach((expected, index) => {
+      const reply = result.replies[index];
+      if (!reply) return;
+      const label = `reply ${index + 1}`;
+      if (expected.channelId !== undefined && reply.channelId !== expected.channelId) {
+        failures.push(`${label}: channel ${reply.channelId}, expected ${expected.channelId}`);
+      }
+      if (
+        expected.replyToMessageId !== undefined &&
+        reply.replyToMessageId !== expected.replyToMessageId
+      ) {
+        failures.push(
+          `${label}: replies to ${reply.replyToMessageId}, expected ${expected.replyToMessageId}`,
+        );
+      }
+      if (expected.content !== undefined && reply.content !== expected.content) {
+        failures.push(`${label}: content ${JSON.stringify(reply.content)}`);
+      }
+      for (const text of expected.contains ?? []) {
+        if (!reply.content.includes(text)) {
+          failures.push(`${label}: missing ${JSON.stringify(text)}`);
+        }
+      }
+    });
+  }
+
+  if (expect.reactions) {
+    if (result.reactions.length !== expect.reactions.length) {
+      failures.push(
+        `expected ${expect.reactions.length} reactions, got ${result.reactions.length}`,
+      );
+    }
+    expect.reactions.forEach((expected, index) => {
+      const reaction = result.reactions[index];
+      if (!reaction) return;
+      if (reaction.emoji !== expected.emoji) {
+        failures.push(`reaction ${index + 1}: ${reaction.emoji}, expected ${expected.emoji}`);
+      }
+      if (expected.messageId !== undefined && reaction.messageId !== expected.messageId) {
+        failures.push(
+          `reaction ${index + 1}: on ${reaction.messageId}, expected ${expected.messageId}`,
+        );
+      }
+    });
+  }
+
+  for (const expected of expect.memories ?? []) {
+    const found = result.memories.some((memory) =>
+      memory.workspace === expected.workspace &&
+      (expected.content === undefined || memory.content === expected.content) &&
+      (expected.contains ?? []).every((text) => memory.content.includes(text)) &&
+      (expected.visibility === undefined || memory.visibility === expected.visibility) &&
+      (expected.importance === undefined || memory.importance === expected.importance)
+    );
+    if (!found) {
+      failures.push(`no memory in ${expected.workspace} matching ${JSON.stringify(expected)}`);
+    }
+  }
+
+  for (const [selector, expected] of Object.entries(expect.metrics ?? {})) {
+    const increase = sumIncreases(result.metrics, selector);
+    if (increase !== expected) {
+      failures.push(`${selector} increased by ${increase}, expected ${expected}`);
+    }
+  }
+
+  for (const text of expect.promptContains ?? []) {
+    if (!result.prompts.some((prompt) => prompt.includes(text))) {
+      failures.push(`no prompt contains ${JSON.stringify(text)}`);
+    }
+  }
+
+  return failures;
+}
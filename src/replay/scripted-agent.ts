@@ -0,0 +1,138 @@
+// src/replay/scripted-agent.ts
+
+import * as acp from "@agentclientprotocol/sdk";
+import { AgentConnector } from "@acp/agent-connector.ts";
+import type { AgentConnectorOptions } from "@acp/types.ts";
+import { createLogger } from "@utils/logger.ts";
+import type { ScriptedSkillCall, ScriptedTurn } from "../types/replay.ts";
+
+const logger = createLogger("ScriptedAgent");
+
+/**
+ * Skill call made by the scripted agent, with the answer of the skill API
+ */
+export interface ExecutedSkillCall extends ScriptedSkillCall {
+  /** HTTP status of the skill API response */
+  status: number;
+  /** Response body of the skill API */
+  result: unknown;
+}
+
+/**
+ * Stand-in for an LLM agent: answers each prompt with the next scripted turn,
+ * writing its text and calling its skills through the skill API like a real agent.
+ * Prompts received after the last turn end without any action.
+ *
+ * The agent lives in the process; ScriptedAgentConnector connects sessions to it.
+ */
+export class ScriptedAgent {
+  /** Texts of the prompts received, in order */
+  readonly prompts: string[] = [];
+
+  /** Skill calls made, in order */
+  readonly skillCalls: ExecutedSkillCall[] = [];
+
+  private turns: ScriptedTurn[];
+  private skillApiUrl: string;
+  private nextSessionId = 1;
+
+  /**
+   * @param skillApiUrl Base URL of the skill API (e.g. "http://127.0.0.1:3001")
+   */
+  constructor(turns: ScriptedTurn[], skillApiUrl: string) {
+    this.turns = [...turns];
+    this.skillApiUrl = skillApiUrl;
+  }
+
+  /**
+   * Create the ACP handler of one connection
+   */
+  serve(connection: acp.AgentSideConnection): acp.Agent {
+    return {
+      initialize: () =>
+        Promise.resolve({
+          protocolVersion: acp.PROTOCOL_VERSION,
+          agentCapabilities: { loadSession: false, promptCapabilities: { image: false } },
+        }),
+      newSession: () => Promise.resolve({ sessionId: `scripted-${this.nextSessionId++}` }),
+      authenticate: () => Promise.resolve({}),
+      unstable_setSessionModel: () => Promise.resolve({}),
+      prompt: (params) => this.prompt(connection, params),
+      cancel: () => Promise.resolve(),
+    };
+  }
+
+  private async prompt(
+    connection: acp.AgentSideConnection,
+    params: acp.PromptRequest,
+  ): Promise<acp.PromptResponse> {
+    const text = params.prompt
+      .map((block) => block.type === "text" ? block.text : "")
+      .join("\n");
+    this.prompts.push(text);
+
+    const turn = this.turns.shift();
+    if (!turn) {
+      logger.debug("No scripted turn left for session {sessionId}", {
+        sessionId: params.sessionId,
+      });
+      return { stopReason: "end_turn" };
+    }
+
+    if (turn.text) {
+      await connection.sessionUpdate({
+        sessionId: params.sessionId,
+        update: {
+          sessionUpdate: "agent_message_chunk",
+          content: { type: "text", text: turn.text },
+        },
+      });
+    }
+
+    // Skills take the session ID of the bot session, which the prompt announces
+    const sessionId = text.match(/Your session ID is: (\S+)/)?.[1];
+    for (const call of turn.skills ?? []) {
+      await this.callSkill(call, sessionId);
+    }
+
+    return { stopReason: "end_turn" };
+  }
+
+  private async callSkill(call: ScriptedSkillCall, sessionId: string | undefined): Promise<void> {
+    const response = await fetch(`${this.skillApiUrl}/api/skill/${call.skill}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ sessionId, parameters: call.parameters }),
+    });
+    const result = await response.json().catch(() => null);
+    this.skillCalls.push({ ...call, status: response.status, result });
+
+    logger.debug("Scripted skill call {skill} answered {status}", {
+      skill: call.skill,
+      status: response.status,
+    });
+  }
+}
+
+/**
+ * Connector whose Agent is a ScriptedAgent in this process instead of a subprocess
+ */
+export class ScriptedAgentConnector extends AgentConnector {
+  private agent: ScriptedAgent;
+
+  constructor(options: AgentConnectorOptions, agent: ScriptedAgent) {
+    super(options);
+    this.agent = agent;
+  }
+
+  protected override openStream(): acp.Stream {
+    const toAgent = new TransformStream<Uint8Array, Uint8Array>();
+    const fromAgent = new TransformStream<Uint8Array, Uint8Array>();
+
+    new acp.AgentSideConnection(
+      (connection) => this.agent.serve(connection),
+      acp.ndJsonStream(fromAgent.writable, toAgent.readable),
+    );
+    return acp.ndJsonStream(toAgent.writable, fromAgent.readable);
+  }
+}
@@ -63,7 +63,13 @@ export class ShutdownHandler {
     const { platformRegistry, agentCore, healthCheckServer } = this.context;
 
     try {
-      // Stop health check server first
+      // Stop reloading configuration changes first
+      if (this.context.configReloader) {
+        logger.info("Stopping config reloader");
+        this.context.configReloader.stop();
+      }
+
+      // Stop health check server
       if (healthCheckServer) {
         logger.info("Stopping health check server");
         await healthCheckServer.stop();
@@ -270,6 +270,7 @@ export class SkillAPIServer {
       platformAdapter: session.platformAdapter,
       replyToMessageId: session.triggerEvent?.messageId,
       agentWorkspacePath: session.agentWorkspacePath,
+      replyDraft: session.replyDraft,
     };
 
     // Execute skill
@@ -293,6 +294,11 @@ export class SkillAPIServer {
       });
     }
 
+    // The user has an answer, so the bot is no longer "typing"
+    if ((skillName === "send-reply" || skillName === "react-message") && result.success) {
+      await session.typingIndicator?.stop();
+    }
+
     logger.info("Skill {skillName} executed via API for session {sessionId}", {
       skillName,
       sessionId: body.sessionId,
@@ -4,6 +4,8 @@ import { createLogger } from "@utils/logger.ts";
 import type { NormalizedEvent } from "../types/events.ts";
 import type { WorkspaceInfo } from "../types/workspace.ts";
 import type { PlatformAdapter } from "@platforms/platform-adapter.ts";
+import type { TypingIndicator } from "../types/platform.ts";
+import type { ReplyDraft } from "@platforms/reply-draft.ts";
 
 const logger = createLogger("SessionRegistry");
 
@@ -37,6 +39,10 @@ export interface ActiveSession {
   replySent: boolean;
   /** Agent's global workspace path */
   agentWorkspacePath?: string;
+  /** Typing indicator shown until the agent answers */
+  typingIndicator?: TypingIndicator;
+  /** Draft message send-reply turns into the reply, when the platform streams replies */
+  replyDraft?: ReplyDraft;
 }
 
 /**
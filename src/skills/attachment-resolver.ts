@@ -0,0 +1,186 @@
+// src/skills/attachment-resolver.ts
+
+import { basename, extname, isAbsolute, join } from "@std/path";
+import { validatePathWithinBoundary } from "@utils/path-validator.ts";
+import { ErrorCode, SkillError, WorkspaceError } from "../types/errors.ts";
+import type { ReplyAttachment } from "../types/platform.ts";
+import type { SendReplyParams, SkillContext } from "./types.ts";
+
+type AttachmentSource = NonNullable<SendReplyParams["attachments"]>[number];
+
+/**
+ * MIME types of common file extensions.
+ * Unknown extensions are uploaded as application/octet-stream.
+ */
+const MIME_TYPES: Record<string, string> = {
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+  ".svg": "image/svg+xml",
+  ".pdf": "application/pdf",
+  ".zip": "application/zip",
+  ".json": "application/json",
+  ".csv": "text/csv",
+  ".txt": "text/plain",
+  ".md": "text/markdown",
+  ".html": "text/html",
+  ".js": "text/javascript",
+  ".ts": "text/plain",
+  ".py": "text/x-python",
+  ".mp3": "audio/mpeg",
+  ".wav": "audio/wav",
+  ".mp4": "video/mp4",
+  ".webm": "video/webm",
+};
+
+const DATA_URL_PATTERN = /^data:([^;,]*)((?:;[^;,]*)*?)(;base64)?,(.*)$/s;
+
+/**
+ * Guess the MIME type of a file name from its extension
+ */
+export function guessMimeType(filename: string): string {
+  return MIME_TYPES[extname(filename).toLowerCase()] ?? "application/octet-stream";
+}
+
+function extensionForMimeType(mimeType: string): string {
+  const entry = Object.entries(MIME_TYPES).find(([, type]) => type === mimeType);
+  return entry ? entry[0] : ".bin";
+}
+
+function invalid(message: string, context?: Record<string, unknown>): SkillError {
+  return new SkillError(ErrorCode.SKILL_INVALID_PARAMS, message, context);
+}
+
+/**
+ * Decode a data URL ("data:image/png;base64,...")
+ * @throws SkillError if the URL is malformed
+ */
+export function decodeDataUrl(url: string): { mimeType: string; data: Uint8Array } {
+  const match = url.match(DATA_URL_PATTERN);
+  if (!match) {
+    throw invalid("Invalid data URL attachment");
+  }
+
+  const mimeType = match[1] || "text/plain";
+  const payload = match[4];
+
+  try {
+    if (match[3]) {
+      const binary = atob(payload);
+      return { mimeType, data: Uint8Array.from(binary, (char) => char.charCodeAt(0)) };
+    }
+    return { mimeType, data: new TextEncoder().encode(decodeURIComponent(payload)) };
+  } catch {
+    throw invalid("Invalid data URL attachment: payload cannot be decoded");
+  }
+}
+
+/**
+ * Check that a path lies within the user workspace or the agent workspace.
+ * Symlinks are resolved first so they cannot point outside the workspaces.
+ */
+async function resolveWorkspaceFile(path: string, context: SkillContext): Promise<string> {
+  const target = isAbsolute(path) ? path : join(context.workspace.path, path);
+
+  let realTarget: string;
+  try {
+    realTarget = await Deno.realPath(target);
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) {
+      throw invalid(`Attachment file not found: ${path}`, { path });
+    }
+    throw error;
+  }
+
+  const boundaries = [context.workspace.path, context.agentWorkspacePath]
+    .filter((boundary): boundary is string => !!boundary);
+
+  for (const boundary of boundaries) {
+    try {
+      validatePathWithinBoundary(realTarget, await Deno.realPath(boundary));
+      return realTarget;
+    } catch (error) {
+      if (!(error instanceof WorkspaceError) && !(error instanceof Deno.errors.NotFound)) {
+        throw error;
+      }
+    }
+  }
+
+  throw invalid(`Attachment path is outside the workspace: ${path}`, { path });
+}
+
+/**
+ * Load one attachment, enforcing the platform's size limit
+ */
+async function resolveAttachment(
+  source: AttachmentSource,
+  context: SkillContext,
+  maxSize: number,
+): Promise<ReplyAttachment> {
+  if (!source || typeof source.url !== "string" || source.url.trim() === "") {
+    throw invalid("Each attachment needs a 'url' (workspace file path or data URL)");
+  }
+
+  const tooLarge = (size: number) =>
+    invalid(
+      `Attachment ${source.filename ?? source.url.slice(0, 64)} is too large ` +
+        `(${size} bytes, limit ${maxSize} bytes on ${context.platformAdapter.platform})`,
+      { size, maxSize },
+    );
+
+  if (source.url.startsWith("data:")) {
+    const { mimeType, data } = decodeDataUrl(source.url);
+    if (data.byteLength > maxSize) throw tooLarge(data.byteLength);
+
+    return {
+      filename: source.filename ?? `attachment${extensionForMimeType(mimeType)}`,
+      mimeType,
+      data,
+    };
+  }
+
+  const filePath = await resolveWorkspaceFile(source.url, context);
+  const stat = await Deno.stat(filePath);
+  if (!stat.isFile) {
+    throw invalid(`Attachment is not a file: ${source.url}`, { path: source.url });
+  }
+  if (stat.size > maxSize) throw tooLarge(stat.size);
+
+  const filename = source.filename ?? basename(filePath);
+  return {
+    filename,
+    mimeType: guessMimeType(filename),
+    data: await Deno.readFile(filePath),
+  };
+}
+
+/**
+ * Load send-reply attachments from workspace files or data URLs
+ * @throws SkillError if the platform does not support attachments, a limit is exceeded,
+ *   or a file cannot be read
+ */
+export async function resolveReplyAttachments(
+  sources: AttachmentSource[],
+  context: SkillContext,
+): Promise<ReplyAttachment[]> {
+  const { platform, capabilities } = context.platformAdapter;
+
+  if (!capabilities.maxAttachmentSize) {
+    throw invalid(`Attachments are not supported on ${platform}`, { platform });
+  }
+
+  if (capabilities.maxAttachments !== undefined && sources.length > capabilities.maxAttachments) {
+    throw invalid(
+      `Too many attachments (${sources.length}, limit ${capabilities.maxAttachments} on ${platform})`,
+      { count: sources.length, maxAttachments: capabilities.maxAttachments },
+    );
+  }
+
+  const attachments: ReplyAttachment[] = [];
+  for (const source of sources) {
+    attachments.push(await resolveAttachment(source, context, capabilities.maxAttachmentSize));
+  }
+  return attachments;
+}
@@ -8,6 +8,9 @@ import type {
   SkillHandler,
   SkillResult,
 } from "./types.ts";
+import { resolveReplyAttachments } from "./attachment-resolver.ts";
+import { editReplySeries, sendReplySeries } from "@platforms/reply-series.ts";
+import type { ReplyAttachment } from "../types/platform.ts";
 
 import { repliesSentTotal } from "@utils/metrics.ts";
 
@@ -16,6 +19,9 @@ const logger = createLogger("ReplyHandler");
 export class ReplyHandler {
   private replySentMap: Map<string, boolean> = new Map();
 
+  /** Message IDs of replies split into several messages, keyed by session and first message ID */
+  private replySeriesMap: Map<string, string[]> = new Map();
+
   /**
    * Generate session key for tracking if reply was sent
    */
@@ -53,6 +59,21 @@ export class ReplyHandler {
   clearReplyState(workspaceKey: string, channelId: string): void {
     const key = `${workspaceKey}:${channelId}`;
     this.replySentMap.delete(key);
+
+    for (const seriesKey of this.replySeriesMap.keys()) {
+      if (seriesKey.startsWith(`${key}:`)) {
+        this.replySeriesMap.delete(seriesKey);
+      }
+    }
+  }
+
+  /**
+   * Remember the messages of a split reply under its first message ID
+   */
+  private trackReplySeries(context: SkillContext, messageIds: string[] | undefined): void {
+    if (messageIds && messageIds.length > 0) {
+      this.replySeriesMap.set(`${this.getSessionKey(context)}:${messageIds[0]}`, messageIds);
+    }
   }
 
   /**
@@ -92,7 +113,8 @@ export class ReplyHandler {
         };
       }
 
-      // Validate attachments if provided
+      // Load attachments if provided
+      let attachments: ReplyAttachment[] | undefined;
       if (params.attachments) {
         if (!Array.isArray(params.attachments)) {
           return {
@@ -101,23 +123,29 @@ export class ReplyHandler {
           };
         }
 
-        // For now, we'll note attachments but not implement full support
         if (params.attachments.length > 0) {
-          logger.warn("Attachments provided but not yet fully supported", {
-            workspaceKey: context.workspace.key,
-            attachmentCount: params.attachments.length,
-          });
+          attachments = await resolveReplyAttachments(params.attachments, context);
         }
       }
 
-      // Send reply via platform adapter
-      const result = await context.platformAdapter.sendReply(
-        context.channelId,
-        params.message,
-        { replyToMessageId: context.replyToMessageId },
-      );
+      // Send reply via platform adapter, split into several messages if too long.
+      // A streamed draft becomes the reply instead of a new message.
+      const replyOptions = { replyToMessageId: context.replyToMessageId, attachments };
+      const result = await context.replyDraft?.finalize(params.message, replyOptions) ??
+        await sendReplySeries(
+          context.platformAdapter,
+          context.channelId,
+          params.message,
+          replyOptions,
+        );
 
       if (!result.success) {
+        // Part of a long reply went out: it can only be fixed with edit-reply now
+        if (result.messageIds && result.messageIds.length > 0) {
+          this.markReplySent(context);
+          this.trackReplySeries(context, result.messageIds);
+        }
+
         logger.error("Failed to send reply via platform", {
           workspaceKey: context.workspace.key,
           channelId: context.channelId,
@@ -132,6 +160,7 @@ export class ReplyHandler {
 
       // Mark reply as sent
       this.markReplySent(context);
+      this.trackReplySeries(context, result.messageIds);
       repliesSentTotal.labels(context.workspace.components.platform).inc();
 
       logger.info("Reply sent via skill to channel {channelId} ({contentLength} chars)", {
@@ -139,12 +168,15 @@ export class ReplyHandler {
         channelId: context.channelId,
         messageId: result.messageId,
         contentLength: params.message.length,
+        attachmentCount: attachments?.length ?? 0,
+        messageCount: result.messageIds?.length ?? 1,
       });
 
       return {
         success: true,
         data: {
           messageId: result.messageId,
+          ...(result.messageIds ? { messageIds: result.messageIds } : {}),
           timestamp: new Date().toISOString(),
         },
       };
@@ -201,14 +233,22 @@ export class ReplyHandler {
         };
       }
 
-      // Edit message via platform adapter
-      const result = await context.platformAdapter.editMessage(
+      // Edit every message of a split reply, splitting the new content as needed
+      const seriesKey = `${this.getSessionKey(context)}:${params.messageId}`;
+      const result = await editReplySeries(
+        context.platformAdapter,
         context.channelId,
-        params.messageId,
+        this.replySeriesMap.get(seriesKey) ?? [params.messageId],
         params.message,
         context.replyToMessageId,
       );
 
+      // Edits may recreate messages (e.g., Misskey), so re-key the series by its new first ID
+      if (result.messageIds) {
+        this.replySeriesMap.delete(seriesKey);
+        this.trackReplySeries(context, result.messageIds);
+      }
+
       if (!result.success) {
         logger.error("Failed to edit reply via platform", {
           workspaceKey: context.workspace.key,
@@ -234,6 +274,7 @@ export class ReplyHandler {
         success: true,
         data: {
           messageId: result.messageId,
+          ...(result.messageIds ? { messageIds: result.messageIds } : {}),
           timestamp: new Date().toISOString(),
         },
       };
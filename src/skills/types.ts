@@ -2,6 +2,7 @@
 
 import type { WorkspaceInfo } from "../types/workspace.ts";
 import type { PlatformAdapter } from "@platforms/platform-adapter.ts";
+import type { ReplyDraft } from "@platforms/reply-draft.ts";
 import type { AgentNoteSearchResult, ResolvedMemory } from "../types/memory.ts";
 import type { PlatformMessage } from "../types/events.ts";
 
@@ -34,6 +35,8 @@ export interface SkillContext {
   replyToMessageId?: string;
   /** Agent's global workspace path for searching notes */
   agentWorkspacePath?: string;
+  /** Streamed draft of the reply, reused by send-reply */
+  replyDraft?: ReplyDraft;
 }
 
 /**
@@ -85,8 +88,11 @@ export interface MemoryPatchParams {
 export interface SendReplyParams {
   message: string;
   attachments?: Array<{
-    type: "image" | "file";
+    /** Informational; the upload type is derived from the file */
+    type?: "image" | "file";
+    /** Path of a file in the user or agent workspace, or a data URL */
     url: string;
+    /** File name shown on the platform (defaults to the file's own name) */
     filename?: string;
   }>;
 }
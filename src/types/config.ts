@@ -7,6 +7,8 @@ import type { LogLevel } from "./logger.ts";
  */
 export interface BasePlatformConfig {
   enabled: boolean;
+  /** Optional: show the reply while the agent writes it by editing a draft message (default: false) */
+  streamReplies?: boolean;
 }
 
 /**
@@ -16,6 +18,12 @@ export interface DiscordConfig extends BasePlatformConfig {
   token: string;
   /** Optional: specific guild IDs to operate in (empty = all guilds) */
   guildIds?: string[];
+  /** Optional: register slash commands on startup (default: true) */
+  slashCommands?: boolean;
+  /** Optional: open a thread for replies longer than this many characters (default: 0 = never) */
+  replyThreadThreshold?: number;
+  /** Optional: show the typing indicator while the agent works (default: true) */
+  typingIndicator?: boolean;
   /** Spontaneous posting configuration */
   spontaneousPost?: SpontaneousPostConfig;
 }
@@ -26,6 +34,99 @@ export interface DiscordConfig extends BasePlatformConfig {
 export interface MisskeyConfig extends BasePlatformConfig {
   host: string;
   token: string;
+  /** Optional: reaction shown on a note while the agent works on it (default: none) */
+  workingReaction?: string;
+  /** Spontaneous posting configuration */
+  spontaneousPost?: SpontaneousPostConfig;
+}
+
+/**
+ * Telegram platform configuration
+ */
+export interface TelegramConfig extends BasePlatformConfig {
+  token: string;
+  /** Optional: Bot API base URL (for self-hosted Bot API servers) */
+  apiBaseUrl?: string;
+  /** Whether to respond to private chats (default: true) */
+  allowDm?: boolean;
+  /** Whether to respond when mentioned or replied to in groups (default: true) */
+  respondToMention?: boolean;
+  /** Number of messages kept in memory per chat for context (default: 100) */
+  historyLimit?: number;
+  /** Custom emoji sticker set names exposed to the agent */
+  customEmojiSets?: string[];
+  /** Spontaneous posting configuration */
+  spontaneousPost?: SpontaneousPostConfig;
+}
+
+/**
+ * Matrix platform configuration
+ */
+export interface MatrixConfig extends BasePlatformConfig {
+  /** Homeserver base URL (e.g., "https://matrix.example.com") */
+  homeserverUrl: string;
+  accessToken: string;
+  /** Whether to join rooms the bot is invited to (default: true) */
+  autoJoin?: boolean;
+  /** Whether to respond in direct message rooms (default: true) */
+  allowDm?: boolean;
+  /** Whether to respond when mentioned or replied to in group rooms (default: true) */
+  respondToMention?: boolean;
+  /** Spontaneous posting configuration */
+  spontaneousPost?: SpontaneousPostConfig;
+}
+
+/**
+ * Mastodon platform configuration
+ */
+export interface MastodonConfig extends BasePlatformConfig {
+  /** Instance host (e.g., "mastodon.social") */
+  host: string;
+  token: string;
+  /** Whether to respond to direct visibility statuses (default: true) */
+  allowDm?: boolean;
+  /** Whether to respond to mentions (default: true) */
+  respondToMention?: boolean;
+  /** Spontaneous posting configuration */
+  spontaneousPost?: SpontaneousPostConfig;
+}
+
+/**
+ * Console platform configuration (local REPL for offline development)
+ */
+export interface ConsoleConfig extends BasePlatformConfig {
+  /** User ID the console user acts as (default: "console-user") */
+  userId?: string;
+  /** Display name of the console user (default: "console") */
+  username?: string;
+  /** Whether messages are sent as direct messages (default: false) */
+  isDm?: boolean;
+  /** Guild ID reported for non-DM messages (default: "console") */
+  guildId?: string;
+  /** Number of messages kept in memory for context (default: 200) */
+  historyLimit?: number;
+  /** Spontaneous posting configuration */
+  spontaneousPost?: SpontaneousPostConfig;
+}
+
+/**
+ * Generic HTTP webhook platform configuration
+ */
+export interface WebhookConfig extends BasePlatformConfig {
+  /** Shared secret for inbound Bearer authentication and callback signatures */
+  secret: string;
+  /** URL that receives the bot's replies, edits and reactions */
+  callbackUrl: string;
+  /** Port of the inbound HTTP server (default: 8090) */
+  port?: number;
+  /** Hostname the inbound HTTP server binds to (default: "0.0.0.0") */
+  host?: string;
+  /** Path that accepts inbound messages (default: "/webhook") */
+  path?: string;
+  /** Number of messages kept in memory per channel for context (default: 100) */
+  historyLimit?: number;
+  /** Timeout for callback requests in ms (default: 10000) */
+  callbackTimeoutMs?: number;
   /** Spontaneous posting configuration */
   spontaneousPost?: SpontaneousPostConfig;
 }
@@ -36,6 +137,11 @@ export interface MisskeyConfig extends BasePlatformConfig {
 export interface PlatformsConfig {
   discord: DiscordConfig;
   misskey: MisskeyConfig;
+  telegram?: TelegramConfig;
+  matrix?: MatrixConfig;
+  mastodon?: MastodonConfig;
+  console?: ConsoleConfig;
+  webhook?: WebhookConfig;
 }
 
 /**
@@ -63,8 +169,18 @@ export interface AgentConfig {
   /** OpenRouter API key for OpenRouter provider (optional) */
   openRouterApiKey?: string;
 
-  /** Default ACP agent type to use ("copilot", "gemini", or "opencode") */
-  defaultAgentType?: "copilot" | "gemini" | "opencode";
+  /**
+   * ACP agent type to use ("copilot", "gemini", or "opencode"), or a list of them tried
+   * in order when an agent is unavailable (missing credentials, crashed, out of quota)
+   */
+  defaultAgentType?:
+    | "copilot"
+    | "gemini"
+    | "opencode"
+    | Array<"copilot" | "gemini" | "opencode">;
+
+  /** IANA timezone of the time variables in prompt templates (system timezone if unset) */
+  timezone?: string;
 }
 
 /**
@@ -185,6 +301,12 @@ export interface AccessControlConfig {
 
   /** Whitelist entries in format "{platform}/account/{id}" or "{platform}/channel/{id}" */
   whitelist: string[];
+
+  /** Whether a whitelisted channel also covers its threads and forum posts (default: true) */
+  includeThreads?: boolean;
+
+  /** Accounts allowed to use "!af" admin commands, in format "{platform}/account/{id}" */
+  admins?: string[];
 }
 
 /**
@@ -254,6 +376,191 @@ export interface RateLimitConfig {
   cooldownMs: number;
 }
 
+/**
+ * Global agent process concurrency configuration
+ */
+export interface AgentConcurrencyConfig {
+  /** Maximum agent processes running at once across all platforms (default: 4, 0 = unlimited) */
+  maxAgents: number;
+
+  /** Maximum sessions waiting for a slot before new ones are rejected (default: 20) */
+  maxQueued: number;
+
+  /** Reaction added to messages rejected while busy (default: "⏳", empty = none) */
+  busyReaction: string;
+}
+
+/**
+ * Warm agent process pool configuration.
+ * Connected agent processes are reused across sessions instead of spawning one per message.
+ */
+export interface AgentPoolConfig {
+  /** Enable the pool (default: false) */
+  enabled: boolean;
+
+  /** Idle processes kept ready for the default agent type (default: 1, sessionCwd only) */
+  warmProcesses: number;
+
+  /** Maximum idle processes across all agent types and workspaces (default: 2) */
+  maxIdleProcesses: number;
+
+  /** Sessions a process may serve before it is replaced (default: 20, 0 = unlimited) */
+  maxSessionsPerProcess: number;
+
+  /** Idle processes are killed after this many milliseconds (default: 600000, 0 = never) */
+  idleTimeoutMs: number;
+
+  /**
+   * Share processes between workspaces by passing the workspace as the ACP session cwd
+   * (default: true). Disable for agents that ignore the session cwd:
+   * processes are then only reused within the workspace they were started in.
+   */
+  sessionCwd: boolean;
+}
+
+/**
+ * Per-channel session queue configuration.
+ * Sessions of a channel run one at a time and bursts of messages share one session.
+ */
+export interface SessionQueueConfig {
+  /** Quiet time in milliseconds after the last message before a session starts (default: 1500) */
+  debounceMs: number;
+
+  /** Longest time in milliseconds a message waits for more messages of its author (default: 10000) */
+  maxWaitMs?: number;
+}
+
+/**
+ * Letting users stop the agent session working on their message,
+ * with /stop in the channel, by deleting the message or by reacting to it
+ */
+export interface SessionCancelConfig {
+  /** Enable cancellation (default: true) */
+  enabled: boolean;
+
+  /** Reaction on a message that stops its session (default: "🛑", "" = none) */
+  reaction: string;
+}
+
+/**
+ * Watching the config files and prompt directory to apply changes without a restart
+ */
+export interface ConfigReloadConfig {
+  /** Enable hot reload (default: true) */
+  enabled: boolean;
+
+  /** Wait this long after the last file change before reloading (default: 500) */
+  debounceMs: number;
+}
+
+/**
+ * Local transcripts of the channel messages, in {repoPath}/transcripts
+ */
+export interface TranscriptConfig {
+  /** Record received messages and the replies, edits and reactions of the bot (default: true) */
+  enabled: boolean;
+
+  /**
+   * Where the recent messages of the context come from (default: "platform"):
+   * "platform" uses the transcript when fetching fails or returns nothing,
+   * "transcript" fetches from the platform only when the transcript has no messages
+   */
+  contextSource: "platform" | "transcript";
+}
+
+/**
+ * Recording of received events with the channel history they arrived with,
+ * as replay fixtures in {repoPath}/recordings
+ */
+export interface EventRecordingConfig {
+  /** Record received events (default: false) */
+  enabled: boolean;
+
+  /** Channel messages saved with each event (default: 20) */
+  historyLimit: number;
+}
+
+/**
+ * Shadow (dry-run) mode: sessions run as usual, but their replies, edits and reactions
+ * go to the review log ({repoPath}/shadow-review.jsonl) instead of the channel
+ */
+export interface ShadowConfig {
+  /** Enable shadow mode (default: false) */
+  enabled: boolean;
+
+  /** Shadowed channels as "{platform}/channel/{id}", threads included; empty = every channel (default: []) */
+  channels: string[];
+
+  /** Channel the intercepted outputs are posted to, as "{platform}/channel/{id}" (optional) */
+  reviewChannel?: string;
+}
+
+/**
+ * Resuming ACP sessions per channel for agents that support loadSession.
+ * Resumed sessions only receive the messages sent since their last turn.
+ */
+export interface SessionResumeConfig {
+  /** Enable session resume (default: true) */
+  enabled: boolean;
+
+  /** Sessions idle longer than this start over with the full context (default: 21600000 = 6h) */
+  maxAgeMs: number;
+}
+
+/**
+ * Conditions of a routing rule. Every condition that is set must match;
+ * a list matches any of its values.
+ */
+export interface RoutingMatch {
+  platform?: string | string[];
+  guildId?: string | string[];
+  /** Channel IDs; a channel also matches its threads */
+  channelId?: string | string[];
+  userId?: string | string[];
+  isDm?: boolean;
+}
+
+/**
+ * Session settings for messages matching a routing rule.
+ * Unset fields keep the values of the agent and memory sections.
+ */
+export interface RoutingRule {
+  /** Name shown in logs (default: "rule {index}") */
+  name?: string;
+  match: RoutingMatch;
+  agentType?: AgentConfig["defaultAgentType"];
+  model?: string;
+  tokenLimit?: number;
+  systemPromptPath?: string;
+  recentMessageLimit?: number;
+}
+
+/**
+ * Rule-based routing of message sessions. The first rule matching a message applies.
+ */
+export interface RoutingConfig {
+  rules: RoutingRule[];
+}
+
+/**
+ * Character running on its own platform accounts.
+ * Unset fields keep the values of the agent section.
+ */
+export interface PersonaConfig {
+  /** Identifier used in workspace keys and logs (letters, digits, "-" and "_") */
+  name: string;
+  /** Name the persona's platform accounts are given (Discord and Misskey) */
+  displayName?: string;
+  /** Image URL the persona's platform accounts use as avatar (Discord and Misskey) */
+  avatarUrl?: string;
+  /** System prompt; its directory holds the persona's character files */
+  systemPromptPath?: string;
+  agentType?: AgentConfig["defaultAgentType"];
+  model?: string;
+  /** Platform accounts of the persona */
+  platforms: Partial<PlatformsConfig>;
+}
+
 /**
  * Metrics export configuration
  */
@@ -279,6 +586,18 @@ export interface Config {
   selfResearch?: SelfResearchConfig;
   memoryMaintenance?: MemoryMaintenanceConfig;
   rateLimit?: RateLimitConfig;
+  sessionQueue?: SessionQueueConfig;
+  sessionCancel?: SessionCancelConfig;
+  agentConcurrency?: AgentConcurrencyConfig;
+  agentPool?: AgentPoolConfig;
+  sessionResume?: SessionResumeConfig;
+  routing?: RoutingConfig;
+  configReload?: ConfigReloadConfig;
+  transcript?: TranscriptConfig;
+  shadow?: ShadowConfig;
+  eventRecording?: EventRecordingConfig;
+  /** Additional personas; the platforms section belongs to the default persona */
+  personas?: PersonaConfig[];
   /** Metrics export configuration (optional) */
   metrics?: MetricsConfig;
 }
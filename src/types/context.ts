@@ -23,16 +23,45 @@ export interface AssembledContext {
   /** Current user's message that triggered this interaction */
   triggerMessage: PlatformMessage;
 
+  /** Earlier messages of the same burst, answered together with the trigger message (oldest first) */
+  precedingMessages?: PlatformMessage[];
+
   /** Estimated token count */
   estimatedTokens: number;
 
   /** Available custom emojis on the platform */
   availableEmojis?: PlatformEmoji[];
 
+  /** Thread the trigger message was sent in (optional) */
+  threadContext?: ThreadContext;
+
+  /** Time of the /clear command that cut the recent messages (optional) */
+  clearedAt?: Date;
+
   /** Timestamp when context was assembled */
   assembledAt: Date;
 }
 
+/**
+ * Extra context for messages sent in a thread or forum post
+ */
+export interface ThreadContext {
+  /** Thread (or forum post) title */
+  name: string;
+
+  /** Channel the thread belongs to */
+  parentChannelId: string;
+
+  /** Name of the parent channel (if available) */
+  parentChannelName?: string;
+
+  /** Message the thread was started from (the post itself for forum threads) */
+  starterMessage?: PlatformMessage;
+
+  /** Latest messages of the parent channel (oldest first, empty for forums) */
+  parentMessages: PlatformMessage[];
+}
+
 /**
  * Assembled context for a spontaneous post session.
  * Similar to AssembledContext but without a trigger message.
@@ -72,8 +101,22 @@ export interface ContextAssemblyConfig {
 
   /** Path to system prompt file */
   systemPromptPath: string;
+
+  /** IANA timezone of the time variables in the system prompt */
+  timezone?: string;
+
+  /** Where recent messages come from when a transcript store is available (default: "platform") */
+  contextSource?: "platform" | "transcript";
 }
 
+/**
+ * Context assembly settings of one session that differ from the assembler config
+ * (e.g. set by a routing rule)
+ */
+export type ContextOverrides = Partial<
+  Pick<ContextAssemblyConfig, "recentMessageLimit" | "tokenLimit" | "systemPromptPath">
+>;
+
 /**
  * Formatted context ready to be sent to LLM
  */
@@ -116,4 +159,13 @@ export interface MessageFetcher {
    * Fetch available custom emojis (optional)
    */
   fetchEmojis?(): Promise<PlatformEmoji[]>;
+
+  /**
+   * Fetch thread context for a channel (optional)
+   * Returns null if the channel is not a thread
+   */
+  fetchThreadContext?(
+    channelId: string,
+    parentMessageLimit: number,
+  ): Promise<ThreadContext | null>;
 }
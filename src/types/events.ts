@@ -3,7 +3,28 @@
 /**
  * Supported platform identifiers
  */
-export type Platform = "discord" | "misskey";
+export const PLATFORMS = [
+  "discord",
+  "misskey",
+  "telegram",
+  "matrix",
+  "mastodon",
+  "console",
+  "webhook",
+] as const;
+
+/**
+ * Supported platform identifier
+ */
+export type Platform = (typeof PLATFORMS)[number];
+
+/**
+ * Key of the platform account an event arrived on: the platform itself for the
+ * default persona, "{persona}/{platform}" for the accounts of other personas
+ */
+export function getAccountKey(platform: Platform, persona?: string): string {
+  return persona ? `${persona}/${platform}` : platform;
+}
 
 /**
  * Attachment from a message (image, file, sticker, etc.)
@@ -51,12 +72,18 @@ export interface NormalizedEvent {
   /** Original message identifier */
   messageId: string;
 
+  /** Persona whose platform account received the message (unset for the default persona) */
+  persona?: string;
+
   /** Whether this is a direct message */
   isDm: boolean;
 
   /** Guild/server identifier (empty string if not applicable) */
   guildId: string;
 
+  /** Parent channel identifier when the message was sent in a thread or forum post */
+  parentChannelId?: string;
+
   /** Message content text */
   content: string;
 
@@ -66,10 +93,51 @@ export interface NormalizedEvent {
   /** Attachments (images, files, stickers) associated with this message */
   attachments?: Attachment[];
 
+  /** Earlier messages of a burst answered together with this one (oldest first) */
+  precedingEvents?: NormalizedEvent[];
+
+  /** Whether only the author sees the message and its answer (Discord /ask) */
+  ephemeral?: boolean;
+
   /** Raw platform-specific data for reference */
   raw?: unknown;
 }
 
+/**
+ * Something done to a message after it was sent: deleted, or reacted to by a user.
+ * Lets users stop the session working on their message.
+ * Also reports /clear commands that arrive as no message (Discord slash commands).
+ */
+export type MessageActivity =
+  | {
+    type: "deleted";
+    platform: Platform;
+    channelId: string;
+    messageId: string;
+    persona?: string;
+  }
+  | {
+    type: "reacted";
+    platform: Platform;
+    channelId: string;
+    messageId: string;
+    persona?: string;
+    /** User who added the reaction */
+    userId: string;
+    /** Unicode emoji or platform-specific custom emoji code */
+    reaction: string;
+  }
+  | {
+    type: "cleared";
+    platform: Platform;
+    channelId: string;
+    /** ID of the /clear command (the interaction ID on Discord) */
+    messageId: string;
+    persona?: string;
+    /** User who cleared the conversation */
+    userId: string;
+  };
+
 /**
  * Message from platform history
  */
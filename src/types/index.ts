@@ -8,3 +8,5 @@ export * from "./errors.ts";
 export * from "./workspace.ts";
 export * from "./platform.ts";
 export * from "./context.ts";
+export * from "./transcript.ts";
+export * from "./replay.ts";
@@ -1,6 +1,6 @@
 // src/types/platform.ts
 
-import type { NormalizedEvent } from "./events.ts";
+import type { MessageActivity, NormalizedEvent } from "./events.ts";
 
 /**
  * Platform connection state
@@ -34,6 +34,15 @@ export interface PlatformCapabilities {
 
   /** Maximum message length */
   maxMessageLength: number;
+
+  /** Maximum size of a single reply attachment in bytes (unset = attachments not supported) */
+  maxAttachmentSize?: number;
+
+  /** Maximum number of attachments per reply */
+  maxAttachments?: number;
+
+  /** Can show that the bot is working on a message (see PlatformAdapter.startTypingIndicator) */
+  supportsTypingIndicator?: boolean;
 }
 
 /**
@@ -51,6 +60,11 @@ export interface ConnectionStatus {
  */
 export type EventHandler = (event: NormalizedEvent) => Promise<void>;
 
+/**
+ * Handler for deletions of and reactions to messages
+ */
+export type ActivityHandler = (activity: MessageActivity) => Promise<void>;
+
 /**
  * Reply options for platform-specific features
  */
@@ -61,19 +75,46 @@ export interface ReplyOptions {
   /** Mention the user in the reply */
   mentionUser?: boolean;
 
+  /** Files to upload with the reply */
+  attachments?: ReplyAttachment[];
+
   /** Additional platform-specific options */
   platformSpecific?: Record<string, unknown>;
 }
 
+/**
+ * File uploaded with a reply
+ */
+export interface ReplyAttachment {
+  /** File name shown on the platform */
+  filename: string;
+
+  /** MIME type (e.g., "image/png") */
+  mimeType: string;
+
+  /** File content */
+  data: Uint8Array;
+}
+
 /**
  * Result of sending a reply
  */
 export interface ReplyResult {
   success: boolean;
   messageId?: string;
+  /** IDs of all messages, in order, when a long reply was split into several messages */
+  messageIds?: string[];
   error?: string;
 }
 
+/**
+ * A running "bot is working" indicator
+ */
+export interface TypingIndicator {
+  /** Stop the indicator. Safe to call more than once; never throws. */
+  stop(): Promise<void>;
+}
+
 /**
  * Represents a custom emoji available on the platform.
  * Unicode emojis do not need to be listed — agents already know them.
@@ -113,3 +154,44 @@ export interface ReactionResult {
   success: boolean;
   error?: string;
 }
+
+/**
+ * Persona a platform account belongs to
+ */
+export interface PersonaProfile {
+  name: string;
+  /** Name to give the account */
+  displayName?: string;
+  /** Image URL to use as the account's avatar */
+  avatarUrl?: string;
+}
+
+/**
+ * Platform-independent command (e.g. a Discord slash command).
+ * Commands are answered directly instead of starting an agent session.
+ */
+export interface PlatformCommand {
+  /** Command name without prefix ("forget", "memories", "status") */
+  name: string;
+
+  /** Named command arguments */
+  args: Record<string, string>;
+
+  /** Event describing who issued the command and where */
+  event: NormalizedEvent;
+}
+
+/**
+ * Result of executing a platform command
+ */
+export interface CommandResult {
+  success: boolean;
+
+  /** Text to show to the user who issued the command */
+  content: string;
+}
+
+/**
+ * Handler that executes platform commands
+ */
+export type CommandHandler = (command: PlatformCommand) => Promise<CommandResult>;
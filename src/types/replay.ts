@@ -0,0 +1,124 @@
+// src/types/replay.ts
+
+import type { NormalizedEvent, Platform, PlatformMessage } from "./events.ts";
+import type { MemoryImportance, MemoryVisibility } from "./memory.ts";
+import type { PlatformCapabilities } from "./platform.ts";
+
+/**
+ * Event received on a platform account, with the channel history it arrived with
+ */
+export interface RecordedEvent {
+  /** The event as emitted by the adapter, without its raw platform data */
+  event: NormalizedEvent;
+
+  /** Recent messages of the channel when the event arrived (oldest first) */
+  history: PlatformMessage[];
+}
+
+/**
+ * Skill call made by the scripted agent
+ */
+export interface ScriptedSkillCall {
+  /** Skill name (e.g. "send-reply", "memory-save") */
+  skill: string;
+
+  /** Skill parameters, as an agent would pass them */
+  parameters: Record<string, unknown>;
+}
+
+/**
+ * What the scripted agent does in one prompt turn
+ */
+export interface ScriptedTurn {
+  /** Text written before the skill calls (optional) */
+  text?: string;
+
+  /** Skills called in order (optional) */
+  skills?: ScriptedSkillCall[];
+}
+
+/**
+ * Reply the replay must produce
+ */
+export interface ExpectedReply {
+  channelId?: string;
+  replyToMessageId?: string;
+  /** Exact content */
+  content?: string;
+  /** Texts the content must contain */
+  contains?: string[];
+}
+
+/**
+ * Reaction the replay must produce
+ */
+export interface ExpectedReaction {
+  messageId?: string;
+  emoji: string;
+}
+
+/**
+ * Memory the replay must write
+ */
+export interface ExpectedMemory {
+  /** Workspace key (e.g. "discord/123") */
+  workspace: string;
+  /** Exact content */
+  content?: string;
+  /** Texts the content must contain */
+  contains?: string[];
+  visibility?: MemoryVisibility;
+  importance?: MemoryImportance;
+}
+
+/**
+ * Assertions on the outputs of a replay. Replies and reactions are matched in order
+ * and their counts must be equal; memories are matched in any order.
+ */
+export interface ReplayExpectations {
+  replies?: ExpectedReply[];
+  reactions?: ExpectedReaction[];
+  memories?: ExpectedMemory[];
+
+  /**
+   * Counter increases by metric, summed over the series matching the optional
+   * label matchers, e.g. `airfriends_sessions_total{status="success"}`
+   */
+  metrics?: Record<string, number>;
+
+  /** Texts the prompts sent to the agent must contain */
+  promptContains?: string[];
+}
+
+/**
+ * Replay fixture: recorded events, the scripted agent answering them and the
+ * expected outputs. Written by the event recorder without agent and expect sections.
+ */
+export interface ReplayFixture {
+  /** Fixture format version */
+  version: 1;
+
+  /** Description shown in replay reports (optional) */
+  name?: string;
+
+  /** Time of the recording (ISO 8601) */
+  recordedAt?: string;
+
+  /** Platform of the recorded account */
+  platform: Platform;
+
+  /** Bot user ID of the recorded account */
+  botId: string;
+
+  /** Capabilities of the recorded adapter */
+  capabilities: PlatformCapabilities;
+
+  /** Events, replayed in order */
+  events: RecordedEvent[];
+
+  /** Turns of the scripted agent, used in order by all prompts (optional) */
+  agent?: { turns: ScriptedTurn[] };
+
+  /** Expected outputs (optional) */
+  expect?: ReplayExpectations;
+}
@@ -0,0 +1,96 @@
+// src/types/transcript.ts
+
+import type { Attachment, PlatformMessage } from "./events.ts";
+
+/**
+ * Entry type in a channel transcript
+ */
+export type TranscriptEntryType = "message" | "edit" | "delete" | "reaction" | "clear";
+
+/**
+ * Base transcript entry (common fields)
+ */
+interface BaseTranscriptEntry {
+  /** Entry type */
+  type: TranscriptEntryType;
+
+  /** Message the entry is about */
+  messageId: string;
+
+  /** Timestamp of the entry (the message timestamp for messages and /clear markers) */
+  ts: string;
+}
+
+/**
+ * Message received from a user or sent by the bot
+ */
+export interface TranscriptMessageEntry extends BaseTranscriptEntry {
+  type: "message";
+  userId: string;
+  username: string;
+  content: string;
+  isBot: boolean;
+
+  /** Message this one replies to (optional) */
+  replyToMessageId?: string;
+
+  /** Attachments of received messages (optional) */
+  attachments?: Attachment[];
+}
+
+/**
+ * Message edited by the bot
+ */
+export interface TranscriptEditEntry extends BaseTranscriptEntry {
+  type: "edit";
+  content: string;
+
+  /** ID of the message replacing the edited one, on platforms that edit by re-posting */
+  newMessageId?: string;
+}
+
+/**
+ * Message deleted by its author or the bot
+ */
+export interface TranscriptDeleteEntry extends BaseTranscriptEntry {
+  type: "delete";
+}
+
+/**
+ * Reaction added to a message by a user or the bot
+ */
+export interface TranscriptReactionEntry extends BaseTranscriptEntry {
+  type: "reaction";
+  userId: string;
+  reaction: string;
+  isBot: boolean;
+}
+
+/**
+ * /clear command: the recent messages of the channel start after it
+ */
+export interface TranscriptClearEntry extends BaseTranscriptEntry {
+  type: "clear";
+  userId: string;
+}
+
+/**
+ * Union type for all transcript entries (one JSONL line each)
+ */
+export type TranscriptEntry =
+  | TranscriptMessageEntry
+  | TranscriptEditEntry
+  | TranscriptDeleteEntry
+  | TranscriptReactionEntry
+  | TranscriptClearEntry;
+
+/**
+ * Recent messages of a channel, as read from its transcript or fetched from the platform
+ */
+export interface ChannelHistory {
+  /** Messages after the last /clear marker (oldest first) */
+  messages: PlatformMessage[];
+
+  /** Time of the last /clear marker (optional) */
+  clearedAt?: Date;
+}
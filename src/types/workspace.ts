@@ -8,13 +8,15 @@ import type { Platform } from "./events.ts";
 export interface WorkspaceKeyComponents {
   platform: Platform;
   userId: string;
+  /** Persona the workspace belongs to (unset for the default persona) */
+  persona?: string;
 }
 
 /**
  * Workspace information
  */
 export interface WorkspaceInfo {
-  /** Full workspace key (e.g., "discord/123456") */
+  /** Full workspace key (e.g., "discord/123456", or "alice/discord/123456" for persona alice) */
   key: string;
 
   /** Components of the workspace key */
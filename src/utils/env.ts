@@ -9,15 +9,30 @@ export const ENV_MAPPINGS = {
   MISSKEY_TOKEN: "platforms.misskey.token",
   MISSKEY_HOST: "platforms.misskey.host",
   MISSKEY_ENABLED: "platforms.misskey.enabled",
+  TELEGRAM_TOKEN: "platforms.telegram.token",
+  TELEGRAM_ENABLED: "platforms.telegram.enabled",
+  MATRIX_HOMESERVER_URL: "platforms.matrix.homeserverUrl",
+  MATRIX_ACCESS_TOKEN: "platforms.matrix.accessToken",
+  MATRIX_ENABLED: "platforms.matrix.enabled",
+  MASTODON_HOST: "platforms.mastodon.host",
+  MASTODON_TOKEN: "platforms.mastodon.token",
+  MASTODON_ENABLED: "platforms.mastodon.enabled",
+  WEBHOOK_SECRET: "platforms.webhook.secret",
+  WEBHOOK_CALLBACK_URL: "platforms.webhook.callbackUrl",
+  WEBHOOK_PORT: "platforms.webhook.port",
+  WEBHOOK_ENABLED: "platforms.webhook.enabled",
   AGENT_MODEL: "agent.model",
   GITHUB_TOKEN: "agent.githubToken",
   GEMINI_API_KEY: "agent.geminiApiKey",
   OPENROUTER_API_KEY: "agent.openRouterApiKey",
   AGENT_DEFAULT_TYPE: "agent.defaultAgentType",
+  AGENT_TIMEZONE: "agent.timezone",
   LOG_LEVEL: "logging.level",
   HEALTH_PORT: "health.port",
   REPLY_TO: "accessControl.replyTo",
   WHITELIST: "accessControl.whitelist",
+  WHITELIST_INCLUDE_THREADS: "accessControl.includeThreads",
+  ADMINS: "accessControl.admins",
 
   // Spontaneous post settings - Discord
   DISCORD_SPONTANEOUS_ENABLED: "platforms.discord.spontaneousPost.enabled",
@@ -33,6 +48,34 @@ export const ENV_MAPPINGS = {
   MISSKEY_SPONTANEOUS_CONTEXT_FETCH_PROBABILITY:
     "platforms.misskey.spontaneousPost.contextFetchProbability",
 
+  // Spontaneous post settings - Telegram
+  TELEGRAM_SPONTANEOUS_ENABLED: "platforms.telegram.spontaneousPost.enabled",
+  TELEGRAM_SPONTANEOUS_MIN_INTERVAL_MS: "platforms.telegram.spontaneousPost.minIntervalMs",
+  TELEGRAM_SPONTANEOUS_MAX_INTERVAL_MS: "platforms.telegram.spontaneousPost.maxIntervalMs",
+  TELEGRAM_SPONTANEOUS_CONTEXT_FETCH_PROBABILITY:
+    "platforms.telegram.spontaneousPost.contextFetchProbability",
+
+  // Spontaneous post settings - Matrix
+  MATRIX_SPONTANEOUS_ENABLED: "platforms.matrix.spontaneousPost.enabled",
+  MATRIX_SPONTANEOUS_MIN_INTERVAL_MS: "platforms.matrix.spontaneousPost.minIntervalMs",
+  MATRIX_SPONTANEOUS_MAX_INTERVAL_MS: "platforms.matrix.spontaneousPost.maxIntervalMs",
+  MATRIX_SPONTANEOUS_CONTEXT_FETCH_PROBABILITY:
+    "platforms.matrix.spontaneousPost.contextFetchProbability",
+
+  // Spontaneous post settings - Mastodon
+  MASTODON_SPONTANEOUS_ENABLED: "platforms.mastodon.spontaneousPost.enabled",
+  MASTODON_SPONTANEOUS_MIN_INTERVAL_MS: "platforms.mastodon.spontaneousPost.minIntervalMs",
+  MASTODON_SPONTANEOUS_MAX_INTERVAL_MS: "platforms.mastodon.spontaneousPost.maxIntervalMs",
+  MASTODON_SPONTANEOUS_CONTEXT_FETCH_PROBABILITY:
+    "platforms.mastodon.spontaneousPost.contextFetchProbability",
+
+  // Spontaneous post settings - Webhook
+  WEBHOOK_SPONTANEOUS_ENABLED: "platforms.webhook.spontaneousPost.enabled",
+  WEBHOOK_SPONTANEOUS_MIN_INTERVAL_MS: "platforms.webhook.spontaneousPost.minIntervalMs",
+  WEBHOOK_SPONTANEOUS_MAX_INTERVAL_MS: "platforms.webhook.spontaneousPost.maxIntervalMs",
+  WEBHOOK_SPONTANEOUS_CONTEXT_FETCH_PROBABILITY:
+    "platforms.webhook.spontaneousPost.contextFetchProbability",
+
   // GELF log output settings
   GELF_ENABLED: "logging.gelf.enabled",
   GELF_ENDPOINT: "logging.gelf.endpoint",
@@ -60,6 +103,48 @@ export const ENV_MAPPINGS = {
   RATE_LIMIT_MAX_REQUESTS_PER_WINDOW: "rateLimit.maxRequestsPerWindow",
   RATE_LIMIT_WINDOW_MS: "rateLimit.windowMs",
   RATE_LIMIT_COOLDOWN_MS: "rateLimit.cooldownMs",
+
+  // Session queue settings
+  SESSION_QUEUE_DEBOUNCE_MS: "sessionQueue.debounceMs",
+  SESSION_QUEUE_MAX_WAIT_MS: "sessionQueue.maxWaitMs",
+
+  // Session cancellation settings
+  SESSION_CANCEL_ENABLED: "sessionCancel.enabled",
+  SESSION_CANCEL_REACTION: "sessionCancel.reaction",
+
+  // Agent concurrency settings
+  AGENT_MAX_CONCURRENT: "agentConcurrency.maxAgents",
+  AGENT_MAX_QUEUED: "agentConcurrency.maxQueued",
+  AGENT_BUSY_REACTION: "agentConcurrency.busyReaction",
+
+  // Agent pool settings
+  AGENT_POOL_ENABLED: "agentPool.enabled",
+  AGENT_POOL_WARM_PROCESSES: "agentPool.warmProcesses",
+  AGENT_POOL_MAX_IDLE: "agentPool.maxIdleProcesses",
+  AGENT_POOL_MAX_SESSIONS_PER_PROCESS: "agentPool.maxSessionsPerProcess",
+  AGENT_POOL_IDLE_TIMEOUT_MS: "agentPool.idleTimeoutMs",
+  AGENT_POOL_SESSION_CWD: "agentPool.sessionCwd",
+
+  // Session resume settings
+  SESSION_RESUME_ENABLED: "sessionResume.enabled",
+  SESSION_RESUME_MAX_AGE_MS: "sessionResume.maxAgeMs",
+
+  // Config hot reload settings
+  CONFIG_RELOAD_ENABLED: "configReload.enabled",
+  CONFIG_RELOAD_DEBOUNCE_MS: "configReload.debounceMs",
+
+  // Transcript settings
+  TRANSCRIPT_ENABLED: "transcript.enabled",
+  TRANSCRIPT_CONTEXT_SOURCE: "transcript.contextSource",
+
+  // Shadow mode settings
+  SHADOW_ENABLED: "shadow.enabled",
+  SHADOW_CHANNELS: "shadow.channels",
+  SHADOW_REVIEW_CHANNEL: "shadow.reviewChannel",
+
+  // Event recording settings
+  EVENT_RECORDING_ENABLED: "eventRecording.enabled",
+  EVENT_RECORDING_HISTORY_LIMIT: "eventRecording.historyLimit",
 } as const;
 
 /**
@@ -122,8 +207,8 @@ export function applyEnvOverrides(config: Record<string, unknown>): void {
       else if (value === "false") parsedValue = false;
       else if (/^\d+$/.test(value)) parsedValue = parseInt(value, 10);
       else if (/^\d+\.\d+$/.test(value)) parsedValue = parseFloat(value);
-      // Handle comma-separated array for WHITELIST
-      else if (envName === "WHITELIST") {
+      // Handle comma-separated arrays for WHITELIST, ADMINS and SHADOW_CHANNELS
+      else if (envName === "WHITELIST" || envName === "ADMINS" || envName === "SHADOW_CHANNELS") {
         parsedValue = value.split(",").map((s) => s.trim()).filter((s) => s !== "");
       } // Handle JSON string for SELF_RESEARCH_RSS_FEEDS
       else if (envName === "SELF_RESEARCH_RSS_FEEDS") {
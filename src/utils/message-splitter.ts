@@ -0,0 +1,276 @@
+// src/utils/message-splitter.ts
+
+/**
+ * Part of a message that must stay in one piece
+ */
+interface ProtectedSpan {
+  start: number;
+  end: number;
+  /** Opening line of a code fence, used to reopen the fence in the next chunk */
+  fenceLine?: string;
+}
+
+/**
+ * Inline tokens that must not be cut
+ */
+const INLINE_TOKEN_PATTERNS: RegExp[] = [
+  /`[^`\n]+`/g, // Inline code
+  /<a?:\w+:\d+>/g, // Discord custom emoji
+  /<(?:@[!&]?|#)\d+>/g, // Discord mentions
+  /:[\w+-]+(?:@[\w.-]+)?:/g, // Misskey custom emoji (:name: or :name@host:)
+  /\[[^\]\n]*\]\([^)\s]*\)/g, // Markdown links
+  /https?:\/\/[^\s<>]+/g, // URLs
+];
+
+const FENCE_OPEN_PATTERN = /^([ \t]*)(`{3,}|~{3,})/;
+
+/**
+ * Ways to end a chunk, from most to least preferred
+ */
+enum BreakLevel {
+  Paragraph,
+  Line,
+  Sentence,
+  Word,
+}
+
+/**
+ * Split a message into chunks of at most maxLength characters.
+ *
+ * Chunks end at paragraph, line, sentence or word boundaries, in that order of preference.
+ * Code fences, Markdown links, MFM tags ($[...]), custom emojis, mentions and URLs are never cut,
+ * and list items are kept whole. A code block longer than maxLength is split between lines,
+ * closing the fence at the end of a chunk and reopening it at the start of the next.
+ */
+export function splitMessage(content: string, maxLength: number): string[] {
+  if (maxLength <= 0 || content.length <= maxLength) {
+    return [content];
+  }
+
+  const chunks: string[] = [];
+  let rest = content;
+
+  while (rest.length > maxLength) {
+    const [chunk, remainder] = takeChunk(rest, maxLength);
+    if (chunk.trim().length > 0) {
+      chunks.push(chunk);
+    }
+    rest = remainder;
+  }
+
+  if (rest.trim().length > 0) {
+    chunks.push(rest);
+  }
+
+  return chunks;
+}
+
+/**
+ * Take the first chunk off a text longer than maxLength
+ * @returns The chunk and the remaining text
+ */
+function takeChunk(text: string, maxLength: number): [string, string] {
+  const spans = findProtectedSpans(text);
+
+  // A code block that cannot fit in any message is split inside
+  const fence = spans.find((span) =>
+    span.fenceLine !== undefined && span.start < maxLength && span.end > maxLength
+  );
+  if (fence && fence.end - fence.start > maxLength) {
+    const split = splitInsideFence(text, fence, maxLength);
+    if (split) {
+      return split;
+    }
+  }
+
+  const isSafe = (position: number) =>
+    !spans.some((span) => span.start < position && position < span.end);
+
+  const minLength = Math.floor(maxLength / 2);
+  for (
+    const level of [BreakLevel.Paragraph, BreakLevel.Line, BreakLevel.Sentence, BreakLevel.Word]
+  ) {
+    for (let position = maxLength; position >= minLength; position--) {
+      if (isBreak(text, position, level) && isSafe(position)) {
+        return cutAt(text, position, level);
+      }
+    }
+  }
+
+  // No natural boundary in the second half: cut as late as possible outside protected spans
+  for (let position = maxLength; position > 0; position--) {
+    if (isSafe(position) && !isInsideSurrogatePair(text, position)) {
+      return cutAt(text, position);
+    }
+  }
+
+  // A single token is longer than a message
+  const position = isInsideSurrogatePair(text, maxLength) ? maxLength - 1 : maxLength;
+  return cutAt(text, position);
+}
+
+/**
+ * Check whether a chunk may end right before the given position
+ */
+function isBreak(text: string, position: number, level: BreakLevel): boolean {
+  const char = text[position];
+  switch (level) {
+    case BreakLevel.Paragraph:
+      return char === "\n" && text[position + 1] === "\n";
+    case BreakLevel.Line:
+      return char === "\n" && !isListContinuation(text, position + 1);
+    case BreakLevel.Sentence: {
+      const previous = text[position - 1];
+      return (/[.!?]/.test(previous) && /\s/.test(char ?? "")) || /[。！？]/.test(previous);
+    }
+    case BreakLevel.Word:
+      return /\s/.test(char ?? "");
+  }
+}
+
+/**
+ * Whether the line starting at the given position continues the list item above it
+ * (indented text that does not start a new item)
+ */
+function isListContinuation(text: string, lineStart: number): boolean {
+  const lineEnd = text.indexOf("\n", lineStart);
+  const line = text.slice(lineStart, lineEnd === -1 ? undefined : lineEnd);
+  return /^[ \t]+\S/.test(line) && !/^[ \t]*(?:[-*+]|\d+[.)])[ \t]/.test(line);
+}
+
+function isInsideSurrogatePair(text: string, position: number): boolean {
+  const code = text.charCodeAt(position - 1);
+  return code >= 0xd800 && code <= 0xdbff;
+}
+
+/**
+ * Cut the text at a position, dropping the whitespace around the cut
+ */
+function cutAt(text: string, position: number, level?: BreakLevel): [string, string] {
+  const chunk = text.slice(0, position).trimEnd();
+  let remainder = text.slice(position);
+
+  if (level === BreakLevel.Paragraph || level === BreakLevel.Line) {
+    remainder = remainder.replace(/^(?:[ \t]*\n)+/, "");
+  } else if (level !== undefined) {
+    remainder = remainder.replace(/^[ \t]+/, "").replace(/^\n+/, "");
+  }
+
+  return [chunk, remainder];
+}
+
+/**
+ * Split a code block between two of its lines
+ * @returns null if no line of the code block fits in the chunk
+ */
+function splitInsideFence(
+  text: string,
+  fence: ProtectedSpan,
+  maxLength: number,
+): [string, string] | null {
+  const fenceLine = fence.fenceLine!;
+  const [, indent, marker] = fenceLine.match(FENCE_OPEN_PATTERN)!;
+  const closing = `\n${indent}${marker}`;
+  const bodyStart = fence.start + fenceLine.length;
+
+  const lineEnd = text.lastIndexOf("\n", maxLength - closing.length);
+  if (lineEnd > bodyStart) {
+    return [text.slice(0, lineEnd) + closing, fenceLine + text.slice(lineEnd)];
+  }
+
+  // The code block starts too late to hold any of its lines: start it in the next chunk
+  if (fence.start > 0) {
+    return [text.slice(0, fence.start).trimEnd(), text.slice(fence.start)];
+  }
+
+  // A single code line is longer than a message
+  let cut = maxLength - closing.length;
+  if (cut <= bodyStart + 1) {
+    return null;
+  }
+  if (isInsideSurrogatePair(text, cut)) cut--;
+  return [text.slice(0, cut) + closing, `${fenceLine}\n` + text.slice(cut)];
+}
+
+/**
+ * Find the code fences, MFM tags and inline tokens of a text
+ */
+function findProtectedSpans(text: string): ProtectedSpan[] {
+  const spans = findFences(text);
+
+  const insideFence = (index: number) =>
+    spans.some((span) => span.start <= index && index < span.end);
+
+  spans.push(...findMfmTags(text).filter((span) => !insideFence(span.start)));
+
+  for (const pattern of INLINE_TOKEN_PATTERNS) {
+    for (const match of text.matchAll(pattern)) {
+      if (!insideFence(match.index)) {
+        spans.push({ start: match.index, end: match.index + match[0].length });
+      }
+    }
+  }
+
+  return spans;
+}
+
+/**
+ * Find fenced code blocks (``` or ~~~). An unclosed fence runs to the end of the text.
+ */
+function findFences(text: string): ProtectedSpan[] {
+  const spans: ProtectedSpan[] = [];
+  let open: { start: number; line: string; marker: string } | null = null;
+  let lineStart = 0;
+
+  while (lineStart <= text.length) {
+    const newline = text.indexOf("\n", lineStart);
+    const lineEnd = newline === -1 ? text.length : newline;
+    const line = text.slice(lineStart, lineEnd);
+    const match = line.match(FENCE_OPEN_PATTERN);
+
+    if (open === null) {
+      if (match) {
+        open = { start: lineStart, line, marker: match[2] };
+      }
+    } else if (
+      match && match[2][0] === open.marker[0] && match[2].length >= open.marker.length &&
+      line.trim() === match[2]
+    ) {
+      spans.push({ start: open.start, end: lineEnd, fenceLine: open.line });
+      open = null;
+    }
+
+    if (newline === -1) break;
+    lineStart = newline + 1;
+  }
+
+  if (open !== null) {
+    spans.push({ start: open.start, end: text.length, fenceLine: open.line });
+  }
+
+  return spans;
+}
+
+/**
+ * Find outermost MFM function tags such as $[x2 text] (tags may nest)
+ */
+function findMfmTags(text: string): ProtectedSpan[] {
+  const spans: ProtectedSpan[] = [];
+  let depth = 0;
+  let start = 0;
+
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === "$" && text[i + 1] === "[") {
+      if (depth === 0) start = i;
+      depth++;
+      i++;
+    } else if (text[i] === "]" && depth > 0) {
+      depth--;
+      if (depth === 0) {
+        spans.push({ start, end: i + 1 });
+      }
+    }
+  }
+
+  return spans;
+}
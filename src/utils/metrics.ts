@@ -58,6 +58,46 @@ export const rateLimitRejectionsTotal = new client.Counter({
   registers: [metricsRegistry],
 });
 
+/** Sessions rejected because all agent slots and queue places were taken */
+export const agentLimiterRejectionsTotal = new client.Counter({
+  name: "airfriends_agent_limiter_rejections_total",
+  help: "Total sessions rejected because the agent concurrency limit and queue were full",
+  labelNames: ["priority"] as const,
+  registers: [metricsRegistry],
+});
+
+/** Sessions served by an already running agent process */
+export const agentPoolHitsTotal = new client.Counter({
+  name: "airfriends_agent_pool_hits_total",
+  help: "Total sessions that reused a warm agent process from the pool",
+  labelNames: ["agent_type"] as const,
+  registers: [metricsRegistry],
+});
+
+/** Sessions that had to spawn a new agent process */
+export const agentPoolMissesTotal = new client.Counter({
+  name: "airfriends_agent_pool_misses_total",
+  help: "Total sessions that found no warm agent process and spawned a new one",
+  labelNames: ["agent_type"] as const,
+  registers: [metricsRegistry],
+});
+
+/** Message sessions per agent type that ran them */
+export const agentSessionsTotal = new client.Counter({
+  name: "airfriends_agent_sessions_total",
+  help: "Total message sessions by the agent type that ran them",
+  labelNames: ["agent_type", "status"] as const,
+  registers: [metricsRegistry],
+});
+
+/** Sessions handed to the next agent type of the fallback chain */
+export const agentFallbacksTotal = new client.Counter({
+  name: "airfriends_agent_fallbacks_total",
+  help: "Total sessions retried with the next agent type after the agent was unavailable",
+  labelNames: ["from", "to"] as const,
+  registers: [metricsRegistry],
+});
+
 // --- Histograms ---
 
 /** Session duration (from start to reply sent or failure) */
@@ -69,6 +109,15 @@ export const sessionDurationSeconds = new client.Histogram({
   registers: [metricsRegistry],
 });
 
+/** Time messages wait in the per-channel session queue */
+export const sessionQueueWaitSeconds = new client.Histogram({
+  name: "airfriends_session_queue_wait_seconds",
+  help: "Time messages wait in the per-channel session queue before their session starts",
+  labelNames: ["platform"] as const,
+  buckets: [0.5, 1, 2, 5, 10, 30, 60, 120, 300],
+  registers: [metricsRegistry],
+});
+
 // --- Gauges ---
 
 /** Currently active sessions */
@@ -77,3 +126,25 @@ export const activeSessionsGauge = new client.Gauge({
   help: "Number of currently active agent sessions",
   registers: [metricsRegistry],
 });
+
+/** Messages waiting in per-channel session queues */
+export const sessionQueueDepth = new client.Gauge({
+  name: "airfriends_session_queue_depth",
+  help: "Number of messages waiting in per-channel session queues",
+  labelNames: ["platform"] as const,
+  registers: [metricsRegistry],
+});
+
+/** Warm agent processes waiting in the pool */
+export const agentPoolIdleGauge = new client.Gauge({
+  name: "airfriends_agent_pool_idle",
+  help: "Number of idle agent processes kept warm in the pool",
+  registers: [metricsRegistry],
+});
+
+/** Sessions waiting for an agent slot */
+export const agentLimiterWaitingGauge = new client.Gauge({
+  name: "airfriends_agent_limiter_waiting",
+  help: "Number of sessions waiting for an agent process slot",
+  registers: [metricsRegistry],
+});
@@ -39,6 +39,30 @@ export function sanitizePathComponent(component: string): string {
     .trim();
 }
 
+/**
+ * Encode an identifier as a single, reversible path component.
+ * Characters outside [A-Za-z0-9_-.@] are percent-encoded (e.g. Matrix "@user:server"
+ * becomes "@user%3Aserver"), as are leading dots and dots forming "..".
+ * Plain alphanumeric IDs are returned unchanged.
+ */
+export function encodePathComponent(component: string): string {
+  const encoder = new TextEncoder();
+  return component
+    .replace(/[^A-Za-z0-9_\-.@]/gu, (char) =>
+      Array.from(encoder.encode(char))
+        .map((byte) => `%${byte.toString(16).toUpperCase().padStart(2, "0")}`)
+        .join(""))
+    .replace(/^\./, "%2E")
+    .replace(/\.(?=\.)/g, "%2E");
+}
+
+/**
+ * Decode a path component produced by encodePathComponent
+ */
+export function decodePathComponent(component: string): string {
+  return decodeURIComponent(component);
+}
+
 /**
  * Check if a path exists and is accessible
  */
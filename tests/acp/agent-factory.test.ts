@@ -3,10 +3,13 @@
 import { assertEquals, assertExists, assertStringIncludes, assertThrows } from "@std/assert";
 import {
   createAgentConfig,
+  getAgentTypes,
   getDefaultAgentType,
   getRetryPromptStrategy,
+  isAgentUnavailableError,
 } from "@acp/agent-factory.ts";
 import type { Config } from "../../src/types/config.ts";
+import { ConfigError } from "../../src/types/errors.ts";
 
 // Create a minimal test config
 const createTestConfig = (overrides: Partial<Config> = {}): Config => {
@@ -120,7 +123,7 @@ Deno.test("createAgentConfig - throws for copilot without GitHub token", () => {
   try {
     assertThrows(
       () => createAgentConfig("copilot", "/tmp/workspace", config),
-      Error,
+      ConfigError,
       "GitHub token not configured",
     );
   } finally {
@@ -280,6 +283,47 @@ Deno.test("getDefaultAgentType - returns opencode when configured", () => {
   assertEquals(getDefaultAgentType(config), "opencode");
 });
 
+Deno.test("getAgentTypes - returns the fallback chain in order", () => {
+  const config = createTestConfig({
+    agent: {
+      model: "test",
+      systemPromptPath: "./test.md",
+      tokenLimit: 20000,
+      defaultAgentType: ["copilot", "opencode", "copilot", "gemini"],
+    },
+  });
+  assertEquals(getAgentTypes(config), ["copilot", "opencode", "gemini"]);
+  assertEquals(getDefaultAgentType(config), "copilot");
+});
+
+Deno.test("getAgentTypes - wraps a single agent type", () => {
+  assertEquals(getAgentTypes(createTestConfig()), ["copilot"]);
+
+  const config = createTestConfig({
+    agent: {
+      model: "test",
+      systemPromptPath: "./test.md",
+      tokenLimit: 20000,
+      defaultAgentType: [],
+    },
+  });
+  assertEquals(getAgentTypes(config), ["copilot"]);
+});
+
+Deno.test("isAgentUnavailableError - detects transport and quota errors", () => {
+  assertEquals(isAgentUnavailableError(new Deno.errors.BrokenPipe("Broken pipe")), true);
+  assertEquals(isAgentUnavailableError(new Error("Not connected to agent")), true);
+  assertEquals(
+    isAgentUnavailableError({ code: -32603, message: "You have exceeded your monthly quota" }),
+    true,
+  );
+  assertEquals(isAgentUnavailableError({ code: -32603, message: "HTTP 429" }), true);
+  assertEquals(isAgentUnavailableError({ code: -32000, message: "Authentication required" }), true);
+
+  assertEquals(isAgentUnavailableError(new Error("Invalid prompt content")), false);
+  assertEquals(isAgentUnavailableError({ code: -32602, message: "Invalid params" }), false);
+});
+
 Deno.test("createAgentConfig - inherits critical environment variables for copilot", () => {
   const config = createTestConfig();
 
@@ -0,0 +1,249 @@
+// tests/acp/agent-pool.test.ts
+
+import { assertEquals } from "@std/assert";
+import { AgentPool, type AgentProcessCounter, DEFAULT_AGENT_POOL } from "@acp/agent-pool.ts";
+import type { AgentConnector } from "@acp/agent-connector.ts";
+import type { AgentConnectorOptions, ClientConfig } from "@acp/types.ts";
+import type { AgentPoolConfig } from "../../src/types/config.ts";
+
+class FakeConnector {
+  connected = false;
+  disconnected = false;
+  cwd: string;
+  clientConfig: ClientConfig;
+
+  constructor(options: AgentConnectorOptions) {
+    this.cwd = options.agentConfig.cwd;
+    this.clientConfig = options.clientConfig;
+  }
+
+  connect(): Promise<void> {
+    this.connected = true;
+    return Promise.resolve();
+  }
+
+  disconnect(): Promise<void> {
+    this.disconnected = true;
+    return Promise.resolve();
+  }
+
+  get isConnected(): boolean {
+    return this.connected && !this.disconnected;
+  }
+
+  rebind(clientConfig: ClientConfig): void {
+    this.clientConfig = clientConfig;
+  }
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function createPool(config: Partial<AgentPoolConfig> = {}, countProcesses?: AgentProcessCounter) {
+  const spawned: FakeConnector[] = [];
+  const pool = new AgentPool(
+    { ...DEFAULT_AGENT_POOL, enabled: true, warmProcesses: 0, idleTimeoutMs: 0, ...config },
+    (options) => {
+      const connector = new FakeConnector(options);
+      spawned.push(connector);
+      return connector as unknown as AgentConnector;
+    },
+    countProcesses,
+  );
+  return { pool, spawned };
+}
+
+function sessionOptions(
+  userId: string,
+  agentWorkspacePath = "/agent-workspace",
+): AgentConnectorOptions {
+  return {
+    agentConfig: { command: "copilot", args: ["--acp"], cwd: `/workspaces/${userId}`, env: {} },
+    clientConfig: {
+      workingDir: `/workspaces/${userId}`,
+      agentWorkspacePath,
+      platform: "discord",
+      userId,
+      channelId: "channel",
+      isDM: false,
+    },
+    skillRegistry: {},
+    logger: { info() {}, warn() {}, debug() {} },
+  };
+}
+
+Deno.test("AgentPool - disabled pool spawns a process per session", async () => {
+  const { pool, spawned } = createPool({ enabled: false });
+
+  const lease = await pool.acquire("copilot", sessionOptions("alice"));
+  assertEquals(lease.warm, false);
+  assertEquals(spawned[0].cwd, "/workspaces/alice");
+
+  await lease.release(true);
+  assertEquals(spawned[0].disconnected, true);
+  assertEquals(pool.getIdleCount(), 0);
+});
+
+Deno.test("AgentPool - reuses a process for another workspace with the session cwd", async () => {
+  const { pool, spawned } = createPool();
+
+  const first = await pool.acquire("copilot", sessionOptions("alice"));
+  assertEquals(first.warm, false);
+  assertEquals(spawned[0].cwd, "/agent-workspace");
+  await first.release(true);
+  await first.release(true);
+  assertEquals(pool.getIdleCount(), 1);
+
+  const second = await pool.acquire("copilot", sessionOptions("bob"));
+  assertEquals(second.warm, true);
+  assertEquals(spawned.length, 1);
+  assertEquals(spawned[0].clientConfig.workingDir, "/workspaces/bob");
+
+  // Other agent types never share processes
+  const gemini = await pool.acquire("gemini", sessionOptions("bob"));
+  assertEquals(gemini.warm, false);
+  assertEquals(spawned.length, 2);
+
+  await second.release(true);
+  await gemini.release(true);
+  await pool.close();
+  assertEquals(spawned.map((connector) => connector.disconnected), [true, true]);
+});
+
+Deno.test("AgentPool - keeps processes per workspace without session cwd", async () => {
+  const { pool, spawned } = createPool({ sessionCwd: false });
+
+  await (await pool.acquire("copilot", sessionOptions("alice"))).release(true);
+  const bob = await pool.acquire("copilot", sessionOptions("bob"));
+  const alice = await pool.acquire("copilot", sessionOptions("alice"));
+
+  assertEquals(bob.warm, false);
+  assertEquals(alice.warm, true);
+  assertEquals(spawned.map((connector) => connector.cwd), [
+    "/workspaces/alice",
+    "/workspaces/bob",
+  ]);
+
+  await bob.release(true);
+  await alice.release(true);
+  await pool.close();
+});
+
+Deno.test("AgentPool - kills failed and worn out processes", async () => {
+  const { pool, spawned } = createPool({ maxSessionsPerProcess: 2 });
+
+  await (await pool.acquire("copilot", sessionOptions("alice"))).release(false);
+  assertEquals(spawned[0].disconnected, true);
+
+  await (await pool.acquire("copilot", sessionOptions("alice"))).release(true);
+  const lease = await pool.acquire("copilot", sessionOptions("bob"));
+  assertEquals(lease.warm, true);
+  await lease.release(true);
+
+  assertEquals(spawned.length, 2);
+  assertEquals(spawned[1].disconnected, true);
+  assertEquals(pool.getIdleCount(), 0);
+});
+
+Deno.test("AgentPool - skips idle processes that exited", async () => {
+  const { pool, spawned } = createPool();
+
+  await (await pool.acquire("copilot", sessionOptions("alice"))).release(true);
+  spawned[0].disconnected = true;
+
+  const lease = await pool.acquire("copilot", sessionOptions("bob"));
+  assertEquals(lease.warm, false);
+  assertEquals(spawned.length, 2);
+
+  await lease.release(true);
+  await pool.close();
+});
+
+Deno.test("AgentPool - evicts the least recently used idle process", async () => {
+  const { pool, spawned } = createPool({ sessionCwd: false, maxIdleProcesses: 1 });
+
+  const alice = await pool.acquire("copilot", sessionOptions("alice"));
+  const bob = await pool.acquire("copilot", sessionOptions("bob"));
+  await alice.release(true);
+  await bob.release(true);
+
+  assertEquals(pool.getIdleCount(), 1);
+  assertEquals(spawned.map((connector) => connector.disconnected), [true, false]);
+
+  await pool.close();
+});
+
+Deno.test("AgentPool - warms up replacement processes", async () => {
+  const { pool, spawned } = createPool({ warmProcesses: 1 });
+
+  await pool.warmUp("copilot", sessionOptions("alice"));
+  assertEquals(pool.getIdleCount(), 1);
+
+  const lease = await pool.acquire("copilot", sessionOptions("bob"));
+  assertEquals(lease.warm, true);
+  await delay(0);
+  assertEquals(spawned.length, 2);
+  assertEquals(pool.getIdleCount(), 1);
+
+  await lease.release(true);
+  assertEquals(pool.getIdleCount(), 2);
+
+  await pool.close();
+  assertEquals(spawned.every((connector) => connector.disconnected), true);
+});
+
+Deno.test("AgentPool - keeps all processes within maxAgents", async () => {
+  // Sessions hold a limiter slot from before acquire until after release
+  let active = 0;
+  const { pool, spawned } = createPool(
+    { warmProcesses: 2, maxIdleProcesses: 2 },
+    () => ({ active, maxAgents: 2 }),
+  );
+  const running = () => spawned.filter((connector) => connector.isConnected).length;
+
+  await pool.warmUp("copilot", sessionOptions("alice"));
+  assertEquals(running(), 2);
+
+  // Another persona's process evicts an idle one and warms up no replacement
+  active++;
+  const bob = await pool.acquire("copilot", sessionOptions("bob", "/agent-workspaces/bob"));
+  assertEquals(bob.warm, false);
+  await delay(0);
+  assertEquals(running(), 2);
+
+  active++;
+  const alice = await pool.acquire("copilot", sessionOptions("alice"));
+  assertEquals(alice.warm, true);
+  await delay(0);
+  assertEquals(running(), 2);
+
+  await alice.release(true);
+  await bob.release(true);
+  active -= 2;
+  assertEquals(running(), 2);
+
+  // The idle process of the other persona leaves no room for a replacement
+  active++;
+  const carol = await pool.acquire("copilot", sessionOptions("carol"));
+  assertEquals(carol.warm, true);
+  await delay(0);
+  assertEquals(running(), 2);
+  assertEquals(pool.getIdleCount(), 1);
+  await carol.release(true);
+  active--;
+
+  await pool.close();
+  assertEquals(running(), 0);
+});
+
+Deno.test("AgentPool - kills processes after the idle timeout", async () => {
+  const { pool, spawned } = createPool({ idleTimeoutMs: 20 });
+
+  await (await pool.acquire("copilot", sessionOptions("alice"))).release(true);
+  assertEquals(pool.getIdleCount(), 1);
+
+  await delay(50);
+  assertEquals(pool.getIdleCount(), 0);
+  assertEquals(spawned[0].disconnected, true);
+});
@@ -451,6 +451,106 @@ Deno.test("ChatbotClient - sessionUpdate handles various update types", async ()
   }
 });
 
+Deno.test("ChatbotClient - sessionUpdate streams agent text to the reply draft", async () => {
+  const tempDir = Deno.makeTempDirSync();
+  try {
+    const streamed: string[] = [];
+    const config = {
+      workingDir: tempDir,
+      platform: "discord",
+      userId: "123",
+      channelId: "456",
+      isDM: false,
+      replyDraft: {
+        append: (text: string) => streamed.push(text),
+        restart: () => streamed.push("<restart>"),
+      },
+    };
+
+    const client = new ChatbotClient(createTestSkillRegistry(), createTestLogger(), config);
+    client.startPrompt();
+
+    await client.sessionUpdate({
+      update: {
+        sessionUpdate: "agent_message_chunk",
+        content: { type: "text", text: "Let me check" },
+      },
+    } as acp.SessionNotification);
+    await client.sessionUpdate({
+      sessionId: "test-session",
+      update: {
+        sessionUpdate: "tool_call",
+        toolCallId: "test-id",
+        title: "test",
+        kind: null,
+        status: "pending" as const,
+      },
+    } as unknown as acp.SessionNotification);
+    await client.sessionUpdate({
+      update: {
+        sessionUpdate: "agent_message_chunk",
+        content: { type: "text", text: "Hello" },
+      },
+    } as acp.SessionNotification);
+
+    assertEquals(streamed, ["Let me check", "<restart>", "Hello"]);
+  } finally {
+    Deno.removeSync(tempDir, { recursive: true });
+  }
+});
+
+Deno.test("ChatbotClient - sessionUpdate ignores messages replayed by loadSession", async () => {
+  const tempDir = Deno.makeTempDirSync();
+  try {
+    const streamed: string[] = [];
+    const config = {
+      workingDir: tempDir,
+      platform: "discord",
+      userId: "123",
+      channelId: "456",
+      isDM: false,
+      replyDraft: {
+        append: (text: string) => streamed.push(text),
+        restart: () => streamed.push("<restart>"),
+      },
+    };
+
+    const client = new ChatbotClient(createTestSkillRegistry(), createTestLogger(), config);
+    const chunk = (text: string) =>
+      client.sessionUpdate({
+        update: {
+          sessionUpdate: "agent_message_chunk",
+          content: { type: "text", text },
+        },
+      } as acp.SessionNotification);
+
+    // Replay of the previous reply while the session is loaded
+    await chunk("Old reply");
+    await client.sessionUpdate({
+      sessionId: "test-session",
+      update: {
+        sessionUpdate: "tool_call",
+        toolCallId: "test-id",
+        title: "test",
+        kind: null,
+        status: "pending" as const,
+      },
+    } as unknown as acp.SessionNotification);
+    assertEquals(streamed, []);
+
+    client.startPrompt();
+    await chunk("New reply");
+    assertEquals(streamed, ["New reply"]);
+
+    // A pooled process rebound to another session replays again before its prompt
+    client.rebind(config, createTestLogger());
+    await chunk("Other reply");
+    assertEquals(streamed, ["New reply"]);
+  } finally {
+    Deno.removeSync(tempDir, { recursive: true });
+  }
+});
+
 Deno.test("ChatbotClient - sessionUpdate handles usage_update", async () => {
   const tempDir = Deno.makeTempDirSync();
   try {
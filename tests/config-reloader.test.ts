@@ -0,0 +1,228 @@
+// tests/config-reloader.test.ts
+
+import { assertEquals } from "@std/assert";
+import {
+  ConfigReloader,
+  diffAccounts,
+  diffConfig,
+  formatChange,
+  requiresRestart,
+} from "../src/config-reloader.ts";
+import { loadConfig } from "@core/config-loader.ts";
+import type { AppContext } from "../src/bootstrap.ts";
+import type { Config } from "../src/types/config.ts";
+
+function configYaml(dir: string, options: { whitelist?: string; token?: string } = {}): string {
+  return `
+platforms:
+  discord:
+    token: "${options.token ?? "token-1"}"
+    enabled: true
+  misskey:
+    enabled: false
+agent:
+  model: "gpt-4"
+  systemPromptPath: "${dir}/prompts/system.md"
+  tokenLimit: 20000
+workspace:
+  repoPath: "${dir}/data"
+  workspacesDir: "workspaces"
+accessControl:
+  replyTo: whitelist
+  whitelist: [${options.whitelist ?? ""}]
+`;
+}
+
+async function withConfigDir(fn: (dir: string) => Promise<void>): Promise<void> {
+  const dir = await Deno.makeTempDir();
+  try {
+    await Deno.mkdir(`${dir}/prompts`);
+    await Deno.writeTextFile(`${dir}/prompts/system.md`, "You are a friend.");
+    await Deno.writeTextFile(`${dir}/config.yaml`, configYaml(dir));
+    await fn(dir);
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+}
+
+function createContext(config: Config, calls: string[]): AppContext {
+  return {
+    config,
+    agentCore: {
+      applyConfig: () => calls.push("applyConfig"),
+      getOrchestrator: () => ({
+        reloadPromptTemplates: () => {
+          calls.push("reloadPromptTemplates");
+          return Promise.resolve();
+        },
+      }),
+      unregisterPlatform: () => calls.push("unregisterPlatform"),
+      registerPlatform: () => calls.push("registerPlatform"),
+    },
+    platformRegistry: {
+      getAllAdapters: () => [],
+      register: () => calls.push("register"),
+      connect: () => Promise.resolve(),
+    },
+    healthCheckServer: null,
+    spontaneousScheduler: null,
+    selfResearchScheduler: null,
+    memoryMaintenanceScheduler: null,
+    configReloader: null,
+    yolo: false,
+  } as unknown as AppContext;
+}
+
+function createConfig(platforms: Record<string, unknown>, personas: unknown[] = []): Config {
+  return { platforms, personas } as unknown as Config;
+}
+
+Deno.test("diffConfig - lists changed, added and removed settings", () => {
+  const changes = diffConfig(
+    { agent: { model: "a", tokenLimit: 100 }, memory: { searchLimit: 10 } },
+    { agent: { model: "b", tokenLimit: 100 }, rateLimit: { enabled: true } },
+  );
+
+  assertEquals(changes, [
+    { path: "agent.model", before: "a", after: "b" },
+    { path: "memory", before: { searchLimit: 10 }, after: undefined },
+    { path: "rateLimit", before: undefined, after: { enabled: true } },
+  ]);
+});
+
+Deno.test("diffConfig - compares lists of values as a whole and lists of objects by index", () => {
+  const changes = diffConfig(
+    { whitelist: ["a"], personas: [{ name: "alice", model: "x" }] },
+    { whitelist: ["a", "b"], personas: [{ name: "alice", model: "y" }] },
+  );
+
+  assertEquals(changes.map((change) => change.path), ["whitelist", "personas.0.model"]);
+});
+
+Deno.test("formatChange - masks secrets", () => {
+  assertEquals(
+    formatChange({ path: "platforms.discord.token", before: "old", after: "new" }),
+    "platforms.discord.token: *** -> ***",
+  );
+  assertEquals(
+    formatChange({ path: "personas", before: [], after: [{ name: "a", accessToken: "x" }] }),
+    'personas: [] -> [{"name":"a","accessToken":"***"}]',
+  );
+  assertEquals(
+    formatChange({ path: "agent.tokenLimit", before: undefined, after: 100 }),
+    "agent.tokenLimit: (unset) -> 100",
+  );
+});
+
+Deno.test("diffAccounts - reconnects accounts whose credentials changed", () => {
+  const before = createConfig({
+    discord: { enabled: true, token: "a", guildIds: ["1"] },
+    misskey: { enabled: true, host: "m.example", token: "b" },
+  });
+  const after = createConfig({
+    discord: { enabled: true, token: "a", guildIds: ["2"] },
+    misskey: { enabled: true, host: "m.example", token: "c" },
+  });
+
+  assertEquals(diffAccounts(before, after), { removed: ["misskey"], added: ["misskey"] });
+});
+
+Deno.test("diffAccounts - adds and removes enabled accounts and persona accounts", () => {
+  const before = createConfig({
+    discord: { enabled: true, token: "a" },
+    misskey: { enabled: false, host: "m.example", token: "b" },
+  });
+  const after = createConfig(
+    {
+      discord: { enabled: false, token: "a" },
+      misskey: { enabled: true, host: "m.example", token: "b" },
+    },
+    [{ name: "alice", platforms: { discord: { enabled: true, token: "d" } } }],
+  );
+
+  assertEquals(diffAccounts(before, after), {
+    removed: ["discord"],
+    added: ["misskey", "alice/discord"],
+  });
+});
+
+Deno.test("requiresRestart - classifies settings", () => {
+  assertEquals(requiresRestart("accessControl.whitelist"), false);
+  assertEquals(requiresRestart("rateLimit.maxRequestsPerWindow"), false);
+  assertEquals(requiresRestart("platforms.discord.token"), false);
+  assertEquals(requiresRestart("platforms.discord.spontaneousPost.minIntervalMs"), false);
+  assertEquals(requiresRestart("personas.0.platforms.misskey.host"), false);
+  assertEquals(requiresRestart("platforms.discord.guildIds"), true);
+  assertEquals(requiresRestart("workspace.repoPath"), true);
+  assertEquals(requiresRestart("memory.searchLimit"), true);
+  assertEquals(requiresRestart("memory.recentMessageLimit"), false);
+  assertEquals(requiresRestart("personas.0.displayName"), true);
+});
+
+Deno.test("ConfigReloader - applies a valid configuration in place", async () => {
+  await withConfigDir(async (dir) => {
+    const config = await loadConfig(dir);
+    const accessControl = config.accessControl;
+    const calls: string[] = [];
+    const reloader = new ConfigReloader(createContext(config, calls), dir);
+
+    await Deno.writeTextFile(
+      `${dir}/config.yaml`,
+      configYaml(dir, { whitelist: '"discord/account/1"' }),
+    );
+    assertEquals(await reloader.reloadConfig(), true);
+
+    assertEquals(config.accessControl, accessControl);
+    assertEquals(config.accessControl.whitelist, ["discord/account/1"]);
+    assertEquals(calls, ["applyConfig", "reloadPromptTemplates"]);
+  });
+});
+
+Deno.test("ConfigReloader - rejects an invalid configuration and keeps the current one", async () => {
+  await withConfigDir(async (dir) => {
+    const config = await loadConfig(dir);
+    const calls: string[] = [];
+    const reloader = new ConfigReloader(createContext(config, calls), dir);
+
+    await Deno.writeTextFile(
+      `${dir}/config.yaml`,
+      configYaml(dir).replace("replyTo: whitelist", "replyTo: everyone"),
+    );
+    assertEquals(await reloader.reloadConfig(), false);
+
+    assertEquals(config.accessControl.replyTo, "whitelist");
+    assertEquals(calls, []);
+  });
+});
+
+Deno.test("ConfigReloader - rejects a configuration with a broken prompt template", async () => {
+  await withConfigDir(async (dir) => {
+    const config = await loadConfig(dir);
+    const calls: string[] = [];
+    const reloader = new ConfigReloader(createContext(config, calls), dir);
+
+    await Deno.writeTextFile(`${dir}/prompts/broken.md`, "{{#if isDm}}unclosed");
+    await Deno.writeTextFile(
+      `${dir}/config.yaml`,
+      configYaml(dir).replace("prompts/system.md", "prompts/broken.md"),
+    );
+    assertEquals(await reloader.reloadConfig(), false);
+
+    assertEquals(config.agent.systemPromptPath, `${dir}/prompts/system.md`);
+    assertEquals(calls, []);
+  });
+});
+
+Deno.test("ConfigReloader - reconnects an account whose token changed", async () => {
+  await withConfigDir(async (dir) => {
+    const config = await loadConfig(dir);
+    const calls: string[] = [];
+    const reloader = new ConfigReloader(createContext(config, calls), dir);
+
+    await Deno.writeTextFile(`${dir}/config.yaml`, configYaml(dir, { token: "token-2" }));
+    assertEquals(await reloader.reloadConfig(), true);
+
+    assertEquals(config.platforms.discord.token, "token-2");
+    assertEquals(calls, ["applyConfig", "reloadPromptTemplates", "register", "registerPlatform"]);
+  });
+});
@@ -0,0 +1,239 @@
+// tests/core/admin-command-handler.test.ts
+
+import { assertEquals, assertStringIncludes } from "@std/assert";
+import { parse as parseYaml } from "@std/yaml";
+import { AdminCommandHandler, type AdminOperations } from "@core/admin-command-handler.ts";
+import { MemoryStore } from "@core/memory-store.ts";
+import { ReplyPolicyEvaluator } from "@core/reply-policy.ts";
+import type { SessionOrchestrator, SessionResponse } from "@core/session-orchestrator.ts";
+import { WorkspaceManager } from "@core/workspace-manager.ts";
+import type { PlatformAdapter } from "@platforms/platform-adapter.ts";
+import type { Config } from "../../src/types/config.ts";
+import type { NormalizedEvent, Platform } from "../../src/types/events.ts";
+import { ConnectionState } from "../../src/types/platform.ts";
+
+const ADMIN = "admin1";
+
+function createEvent(content: string, overrides: Partial<NormalizedEvent> = {}): NormalizedEvent {
+  return {
+    platform: "discord",
+    channelId: "channel123",
+    userId: ADMIN,
+    messageId: "msg1",
+    isDm: true,
+    guildId: "",
+    content,
+    timestamp: new Date(),
+    ...overrides,
+  };
+}
+
+interface TestContext {
+  handler: AdminCommandHandler;
+  config: Config;
+  store: MemoryStore;
+  manager: WorkspaceManager;
+  repoPath: string;
+  replies: string[];
+  operations: string[];
+  maintenance: string[];
+  run: (content: string, overrides?: Partial<NormalizedEvent>) => Promise<string | undefined>;
+}
+
+async function withHandler(fn: (context: TestContext) => Promise<void>): Promise<void> {
+  const repoPath = await Deno.makeTempDir();
+  try {
+    const config = {
+      workspace: { repoPath, workspacesDir: "workspaces" },
+      accessControl: {
+        replyTo: "whitelist",
+        whitelist: ["discord/account/friend"],
+        admins: [`discord/account/${ADMIN}`],
+      },
+      memoryMaintenance: { enabled: false, model: "gpt-5-mini" },
+    } as unknown as Config;
+    const manager = new WorkspaceManager(config.workspace);
+    const store = new MemoryStore(manager, { searchLimit: 10, maxChars: 2000 });
+    const replies: string[] = [];
+    const operations: string[] = [];
+    const maintenance: string[] = [];
+
+    const adapter = {
+      platform: "discord",
+      capabilities: { maxMessageLength: 2000 },
+      getConnectionStatus: () => ({ state: ConnectionState.CONNECTED, reconnectAttempts: 0 }),
+      sendReply: (_channelId: string, content: string) => {
+        replies.push(content);
+        return Promise.resolve({ success: true, messageId: `reply${replies.length}` });
+      },
+    } as unknown as PlatformAdapter;
+    const orchestrator = {
+      getAgentLimiter: () => ({
+        getStatus: () => ({ active: 1, queued: 0, maxAgents: 4, maxQueued: 20, saturated: false }),
+      }),
+      processMemoryMaintenance: (workspaceKey: string): Promise<SessionResponse> => {
+        maintenance.push(workspaceKey);
+        return new Promise((resolve) =>
+          setTimeout(() => resolve({ success: true, replySent: false }), 0)
+        );
+      },
+    } as unknown as SessionOrchestrator;
+
+    const handler = new AdminCommandHandler(
+      config,
+      new ReplyPolicyEvaluator(config.accessControl),
+      { getActiveCount: () => 2, getQueuedCount: () => 3 },
+      orchestrator,
+      manager,
+      store,
+      new Map([["discord", adapter]]),
+    );
+    const adminOperations: AdminOperations = {
+      reloadConfig: () => {
+        operations.push("reload");
+        return Promise.resolve(true);
+      },
+      runSpontaneousPost: (platform: Platform) => {
+        operations.push(`spontaneous:${platform}`);
+        return platform === "discord";
+      },
+      runSelfResearch: () => {
+        operations.push("research");
+        return false;
+      },
+    };
+    handler.setOperations(adminOperations);
+
+    const run = async (content: string, overrides: Partial<NormalizedEvent> = {}) => {
+      const count = replies.length;
+      await handler.handle(createEvent(content, overrides), adapter);
+      return replies.length > count ? replies[replies.length - 1] : undefined;
+    };
+
+    await fn({ handler, config, store, manager, repoPath, replies, operations, maintenance, run });
+  } finally {
+    await Deno.remove(repoPath, { recursive: true });
+  }
+}
+
+Deno.test("AdminCommandHandler - recognizes admin command messages", async () => {
+  await withHandler(({ handler }) => {
+    assertEquals(handler.isAdminCommand(createEvent("!af status")), true);
+    assertEquals(handler.isAdminCommand(createEvent("  !af")), true);
+    assertEquals(handler.isAdminCommand(createEvent("!afk")), false);
+    assertEquals(handler.isAdminCommand(createEvent("hello !af status")), false);
+    return Promise.resolve();
+  });
+});
+
+Deno.test("AdminCommandHandler - ignores commands of non-admins", async () => {
+  await withHandler(async ({ run, operations }) => {
+    assertEquals(await run("!af reload", { userId: "friend" }), undefined);
+    assertEquals(operations, []);
+  });
+});
+
+Deno.test("AdminCommandHandler - status reports sessions, agents and platforms", async () => {
+  await withHandler(async ({ run }) => {
+    const reply = await run("!af status");
+    assertStringIncludes(reply!, "Platforms: discord (connected)");
+    assertStringIncludes(reply!, "Sessions: 2 active, 3 messages queued");
+    assertStringIncludes(reply!, "Agents: 1/4 running, 0/20 waiting");
+  });
+});
+
+Deno.test("AdminCommandHandler - unknown commands show the usage", async () => {
+  await withHandler(async ({ run }) => {
+    assertStringIncludes((await run("!af"))!, "Admin commands:");
+    assertStringIncludes((await run("!af research later"))!, "Admin commands:");
+  });
+});
+
+Deno.test("AdminCommandHandler - whitelist add saves a runtime override and reloads", async () => {
+  await withHandler(async ({ run, repoPath, operations }) => {
+    const reply = await run("!af whitelist add discord/channel/general");
+
+    assertEquals(reply, "Added `discord/channel/general` to the whitelist.");
+    assertEquals(operations, ["reload"]);
+    const overrides = parseYaml(
+      await Deno.readTextFile(`${repoPath}/runtime-overrides.yaml`),
+    ) as { accessControl: { whitelist: string[] } };
+    assertEquals(overrides.accessControl.whitelist, [
+      "discord/account/friend",
+      "discord/channel/general",
+    ]);
+  });
+});
+
+Deno.test("AdminCommandHandler - whitelist remove and invalid entries", async () => {
+  await withHandler(async ({ run, repoPath, operations }) => {
+    assertEquals(
+      await run("!af whitelist remove discord/account/friend"),
+      "Removed `discord/account/friend` from the whitelist.",
+    );
+    const overrides = parseYaml(
+      await Deno.readTextFile(`${repoPath}/runtime-overrides.yaml`),
+    ) as { accessControl: { whitelist: string[] } };
+    assertEquals(overrides.accessControl.whitelist, []);
+
+    assertStringIncludes(
+      (await run("!af whitelist add discord/user/1"))!,
+      "Invalid whitelist entry",
+    );
+    assertEquals(
+      await run("!af whitelist remove discord/account/stranger"),
+      "`discord/account/stranger` is not whitelisted.",
+    );
+    assertEquals(operations, ["reload"]);
+  });
+});
+
+Deno.test("AdminCommandHandler - triggers reloads and background sessions", async () => {
+  await withHandler(async ({ run, operations }) => {
+    assertEquals(await run("!af reload"), "Configuration reloaded.");
+    assertEquals(await run("!af spontaneous now"), "Started a spontaneous post on discord.");
+    assertStringIncludes((await run("!af spontaneous now misskey"))!, "Cannot post on misskey");
+    assertEquals(await run("!af spontaneous now myspace"), "Unknown platform `myspace`.");
+    assertStringIncludes((await run("!af research now"))!, "Cannot start self-research");
+    assertEquals(operations, ["reload", "spontaneous:discord", "spontaneous:misskey", "research"]);
+  });
+});
+
+Deno.test("AdminCommandHandler - runs memory maintenance of an existing workspace", async () => {
+  await withHandler(async ({ run, manager, maintenance, replies }) => {
+    await manager.getOrCreateWorkspace(createEvent("hi", { userId: "friend" }));
+
+    assertEquals(await run("!af maintenance run discord/nobody"), "No workspace `discord/nobody`.");
+    await run("!af maintenance run discord/friend");
+    assertEquals(replies[replies.length - 1], "Started memory maintenance of `discord/friend`.");
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    assertEquals(maintenance, ["discord/friend"]);
+    assertEquals(replies[replies.length - 1], "Memory maintenance of `discord/friend` completed.");
+  });
+});
+
+Deno.test("AdminCommandHandler - lists private memories of a user in DMs only", async () => {
+  await withHandler(async ({ run, manager, store }) => {
+    const workspace = await manager.getOrCreateWorkspace(
+      createEvent("hi", { userId: "friend" }),
+    );
+    const tea = await store.addMemory(workspace, "Likes green tea", { importance: "high" });
+    const secret = await store.addMemory(workspace, "Birthday in May", { visibility: "private" });
+
+    const reply = await run("!af memories friend");
+    assertEquals(
+      reply,
+      "`discord/friend` has 2 memories:" +
+        `\n- \`${tea.id}\` ⭐ Likes green tea` +
+        `\n- \`${secret.id}\` 🔒 Birthday in May`,
+    );
+    assertEquals(await run("!af memories discord/nobody"), "No workspace `discord/nobody`.");
+
+    // Private memories stay out of guild channels
+    assertEquals(
+      await run("!af memories friend", { isDm: false, guildId: "guild1" }),
+      "`discord/friend` has 1 memory:" + `\n- \`${tea.id}\` ⭐ Likes green tea`,
+    );
+  });
+});
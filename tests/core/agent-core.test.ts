@@ -58,6 +58,14 @@ class MockPlatformAdapter implements Partial<PlatformAdapter> {
 
   offEvent() {}
 
+  onCommand() {}
+
+  onActivity() {}
+
+  getPersonaName(): string | undefined {
+    return undefined;
+  }
+
   getConnectionStatus() {
     return {
       state: "connected" as ConnectionState,
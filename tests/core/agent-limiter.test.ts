@@ -0,0 +1,99 @@
+// tests/core/agent-limiter.test.ts
+
+import { assertEquals, assertExists } from "@std/assert";
+import { AgentLimiter, SessionPriority } from "@core/agent-limiter.ts";
+
+Deno.test("AgentLimiter - grants slots up to the limit", async () => {
+  const limiter = new AgentLimiter({ maxAgents: 2, maxQueued: 5, busyReaction: "" });
+
+  const first = await limiter.acquire(SessionPriority.Message, "a");
+  const second = await limiter.acquire(SessionPriority.Message, "b");
+  assertExists(first);
+  assertExists(second);
+
+  let thirdSlot = false;
+  const third = limiter.acquire(SessionPriority.Message, "c").then((slot) => {
+    thirdSlot = slot !== null;
+    return slot;
+  });
+  await Promise.resolve();
+  assertEquals(thirdSlot, false);
+  assertEquals(limiter.getStatus(), {
+    active: 2,
+    queued: 1,
+    maxAgents: 2,
+    maxQueued: 5,
+    saturated: false,
+  });
+
+  first.release();
+  first.release();
+  (await third)?.release();
+  second.release();
+
+  assertEquals(thirdSlot, true);
+  assertEquals(limiter.getStatus().active, 0);
+});
+
+Deno.test("AgentLimiter - starts waiters by priority, then in order", async () => {
+  const limiter = new AgentLimiter({ maxAgents: 1, maxQueued: 5, busyReaction: "" });
+  const running = await limiter.acquire(SessionPriority.Message, "running");
+
+  const order: string[] = [];
+  const wait = (priority: SessionPriority, label: string) =>
+    limiter.acquire(priority, label).then((slot) => {
+      order.push(label);
+      slot?.release();
+    });
+
+  const all = Promise.all([
+    wait(SessionPriority.MemoryMaintenance, "maintenance"),
+    wait(SessionPriority.Spontaneous, "spontaneous"),
+    wait(SessionPriority.Message, "mention1"),
+    wait(SessionPriority.WhitelistedDm, "dm"),
+    wait(SessionPriority.Message, "mention2"),
+  ]);
+
+  running?.release();
+  await all;
+
+  assertEquals(order, ["dm", "mention1", "mention2", "spontaneous", "maintenance"]);
+});
+
+Deno.test("AgentLimiter - rejects sessions when the queue is full", async () => {
+  const limiter = new AgentLimiter({ maxAgents: 1, maxQueued: 1, busyReaction: "" });
+  const running = await limiter.acquire(SessionPriority.Message, "running");
+  const waiting = limiter.acquire(SessionPriority.Message, "waiting");
+
+  assertEquals(await limiter.acquire(SessionPriority.Message, "rejected"), null);
+  assertEquals(limiter.getStatus().saturated, true);
+
+  running?.release();
+  (await waiting)?.release();
+  assertEquals(limiter.getStatus().saturated, false);
+});
+
+Deno.test("AgentLimiter - higher priority takes the place of the lowest waiter", async () => {
+  const limiter = new AgentLimiter({ maxAgents: 1, maxQueued: 1, busyReaction: "" });
+  const running = await limiter.acquire(SessionPriority.Message, "running");
+  const research = limiter.acquire(SessionPriority.SelfResearch, "research");
+  const dm = limiter.acquire(SessionPriority.WhitelistedDm, "dm");
+
+  assertEquals(await research, null);
+
+  running?.release();
+  const dmSlot = await dm;
+  assertExists(dmSlot);
+  dmSlot.release();
+});
+
+Deno.test("AgentLimiter - maxAgents 0 disables the limit", async () => {
+  const limiter = new AgentLimiter({ maxAgents: 0, maxQueued: 0, busyReaction: "" });
+
+  const slots = await Promise.all(
+    Array.from({ length: 10 }, (_, i) => limiter.acquire(SessionPriority.Message, `s${i}`)),
+  );
+
+  assertEquals(slots.every((slot) => slot !== null), true);
+  assertEquals(limiter.getStatus().active, 10);
+});
@@ -0,0 +1,77 @@
+// tests/core/agent-session-store.test.ts
+
+import { assertEquals } from "@std/assert";
+import { AgentSessionStore } from "@core/agent-session-store.ts";
+import { WorkspaceManager } from "@core/workspace-manager.ts";
+import type { NormalizedEvent } from "../../src/types/events.ts";
+import type { WorkspaceInfo } from "../../src/types/workspace.ts";
+
+async function withStore(
+  fn: (store: AgentSessionStore, workspace: WorkspaceInfo) => Promise<void>,
+): Promise<void> {
+  const tempDir = await Deno.makeTempDir();
+  try {
+    const manager = new WorkspaceManager({ repoPath: tempDir, workspacesDir: "workspaces" });
+    const workspace = await manager.getOrCreateWorkspace({
+      platform: "discord",
+      channelId: "channel1",
+      userId: "user1",
+      messageId: "msg1",
+      isDm: true,
+      guildId: "",
+      content: "Hello",
+      timestamp: new Date(),
+    } as NormalizedEvent);
+
+    await fn(new AgentSessionStore(manager), workspace);
+  } finally {
+    await Deno.remove(tempDir, { recursive: true });
+  }
+}
+
+function createSession(sessionId: string) {
+  return {
+    sessionId,
+    agentType: "copilot" as const,
+    contextAt: "2026-01-01T12:00:00.000Z",
+    updatedAt: "2026-01-01T12:01:00.000Z",
+  };
+}
+
+Deno.test("AgentSessionStore - should save, get and delete sessions per channel", async () => {
+  await withStore(async (store, workspace) => {
+    assertEquals(await store.get(workspace, "channel1"), null);
+
+    await store.save(workspace, "channel1", createSession("s1"));
+    await store.save(workspace, "channel2", createSession("s2"));
+    assertEquals(await store.get(workspace, "channel1"), createSession("s1"));
+
+    await store.delete(workspace, "channel1");
+    assertEquals(await store.get(workspace, "channel1"), null);
+    assertEquals(await store.get(workspace, "channel2"), createSession("s2"));
+  });
+});
+
+Deno.test("AgentSessionStore - should not lose concurrent writes of a workspace", async () => {
+  await withStore(async (store, workspace) => {
+    await Promise.all([
+      store.save(workspace, "channel1", createSession("s1")),
+      store.save(workspace, "channel2", createSession("s2")),
+      store.save(workspace, "channel3", createSession("s3")),
+    ]);
+
+    for (const channelId of ["channel1", "channel2", "channel3"]) {
+      assertEquals((await store.get(workspace, channelId))?.sessionId, `s${channelId.at(-1)}`);
+    }
+  });
+});
+
+Deno.test("AgentSessionStore - should ignore an unreadable sessions file", async () => {
+  await withStore(async (store, workspace) => {
+    await Deno.writeTextFile(`${workspace.path}/agent-sessions.json`, "{not json");
+
+    assertEquals(await store.get(workspace, "channel1"), null);
+    await store.save(workspace, "channel1", createSession("s1"));
+    assertEquals((await store.get(workspace, "channel1"))?.sessionId, "s1");
+  });
+});
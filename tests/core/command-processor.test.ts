@@ -0,0 +1,213 @@
+// tests/core/command-processor.test.ts
+
+import { assertEquals, assertStringIncludes } from "@std/assert";
+import { CommandProcessor, formatUptime } from "@core/command-processor.ts";
+import { MemoryStore } from "@core/memory-store.ts";
+import { ReplyPolicyEvaluator } from "@core/reply-policy.ts";
+import { WorkspaceManager } from "@core/workspace-manager.ts";
+import type { CancelRequest } from "@core/session-queue.ts";
+import type { PlatformAdapter } from "@platforms/platform-adapter.ts";
+import type { AccessControlConfig } from "../../src/types/config.ts";
+import type { NormalizedEvent } from "../../src/types/events.ts";
+import { ConnectionState, type PlatformCommand } from "../../src/types/platform.ts";
+
+function createTestEvent(overrides: Partial<NormalizedEvent> = {}): NormalizedEvent {
+  return {
+    platform: "discord",
+    channelId: "channel123",
+    userId: "user456",
+    messageId: "interaction789",
+    isDm: false,
+    guildId: "guild001",
+    content: "/memories",
+    timestamp: new Date(),
+    ...overrides,
+  };
+}
+
+function createCommand(
+  name: string,
+  args: Record<string, string> = {},
+  eventOverrides: Partial<NormalizedEvent> = {},
+): PlatformCommand {
+  return { name, args, event: createTestEvent(eventOverrides) };
+}
+
+async function withProcessor(
+  fn: (context: {
+    processor: CommandProcessor;
+    store: MemoryStore;
+    manager: WorkspaceManager;
+    cancelRequests: CancelRequest[];
+  }) => Promise<void>,
+  accessControl: AccessControlConfig = { replyTo: "all", whitelist: [] },
+  maxMessageLength = 2000,
+): Promise<void> {
+  const tempDir = await Deno.makeTempDir();
+  try {
+    const manager = new WorkspaceManager({ repoPath: tempDir, workspacesDir: "workspaces" });
+    const store = new MemoryStore(manager, { searchLimit: 10, maxChars: 2000 });
+    const adapter = {
+      platform: "discord",
+      capabilities: { maxMessageLength },
+      getConnectionStatus: () => ({ state: ConnectionState.CONNECTED, reconnectAttempts: 0 }),
+    } as unknown as PlatformAdapter;
+    const cancelRequests: CancelRequest[] = [];
+    const processor = new CommandProcessor(
+      manager,
+      store,
+      new ReplyPolicyEvaluator(accessControl),
+      new Map([["discord", adapter]]),
+      {
+        getActiveCount: () => 2,
+        cancel: (request) => {
+          cancelRequests.push(request);
+          return request.channelId === "channel123";
+        },
+      },
+      "gpt-test",
+    );
+
+    await fn({ processor, store, manager, cancelRequests });
+  } finally {
+    await Deno.remove(tempDir, { recursive: true });
+  }
+}
+
+Deno.test("CommandProcessor - should list enabled memories", async () => {
+  await withProcessor(async ({ processor, store, manager }) => {
+    const workspace = await manager.getOrCreateWorkspace(createTestEvent());
+    const first = await store.addMemory(workspace, "Likes green tea", { importance: "high" });
+    const second = await store.addMemory(workspace, "Has a cat\nnamed Mochi");
+    const disabled = await store.addMemory(workspace, "Old memory");
+    await store.patchMemory(workspace, disabled.id, { enabled: false });
+
+    const result = await processor.execute(createCommand("memories"));
+
+    assertEquals(result.success, true);
+    assertEquals(
+      result.content,
+      `I remember 2 things:\n- \`${first.id}\` ⭐ Likes green tea\n- \`${second.id}\` Has a cat named Mochi`,
+    );
+  });
+});
+
+Deno.test("CommandProcessor - should only list private memories in DMs", async () => {
+  await withProcessor(async ({ processor, store, manager }) => {
+    const dmEvent = createTestEvent({ isDm: true, guildId: "" });
+    const workspace = await manager.getOrCreateWorkspace(dmEvent);
+    await store.addMemory(workspace, "Public fact");
+    await store.addMemory(workspace, "Secret fact", { visibility: "private" });
+
+    const inDm = await processor.execute(createCommand("memories", {}, dmEvent));
+    assertStringIncludes(inDm.content, "Secret fact");
+
+    const inGuild = await processor.execute(createCommand("memories"));
+    assertStringIncludes(inGuild.content, "Public fact");
+    assertEquals(inGuild.content.includes("Secret fact"), false);
+  });
+});
+
+Deno.test("CommandProcessor - should fit the memory list into one message", async () => {
+  await withProcessor(
+    async ({ processor, store, manager }) => {
+      const workspace = await manager.getOrCreateWorkspace(createTestEvent());
+      for (let i = 0; i < 10; i++) {
+        await store.addMemory(workspace, `Memory number ${i} `.repeat(5));
+      }
+
+      const result = await processor.execute(createCommand("memories"));
+
+      assertEquals(result.content.length <= 500, true);
+      assertStringIncludes(result.content, "more");
+    },
+    undefined,
+    500,
+  );
+});
+
+Deno.test("CommandProcessor - should report an empty memory list", async () => {
+  await withProcessor(async ({ processor }) => {
+    const result = await processor.execute(createCommand("memories"));
+    assertEquals(result, { success: true, content: "I don't remember anything about you yet." });
+  });
+});
+
+Deno.test("CommandProcessor - should forget a memory", async () => {
+  await withProcessor(async ({ processor, store, manager }) => {
+    const workspace = await manager.getOrCreateWorkspace(createTestEvent());
+    const memory = await store.addMemory(workspace, "Likes green tea");
+
+    const result = await processor.execute(createCommand("forget", { memory_id: memory.id }));
+
+    assertEquals(result.success, true);
+    const memories = await store.loadAllMemories(workspace, "public");
+    assertEquals(memories[0].enabled, false);
+  });
+});
+
+Deno.test("CommandProcessor - should report unknown memories", async () => {
+  await withProcessor(async ({ processor }) => {
+    const result = await processor.execute(createCommand("forget", { memory_id: "mem_missing" }));
+
+    assertEquals(result.success, false);
+    assertStringIncludes(result.content, "mem_missing");
+
+    const empty = await processor.execute(createCommand("forget", { memory_id: " " }));
+    assertEquals(empty.success, false);
+  });
+});
+
+Deno.test("CommandProcessor - should report status", async () => {
+  await withProcessor(async ({ processor }) => {
+    const result = await processor.execute(createCommand("status"));
+
+    assertEquals(result.success, true);
+    assertStringIncludes(result.content, "Platforms: discord (connected)");
+    assertStringIncludes(result.content, "Active sessions: 2");
+    assertStringIncludes(result.content, "Model: gpt-test");
+    assertStringIncludes(result.content, "Uptime: 0m");
+  });
+});
+
+Deno.test("CommandProcessor - should stop the sessions of the user", async () => {
+  await withProcessor(async ({ processor, cancelRequests }) => {
+    const stopped = await processor.execute(createCommand("stop"));
+    assertEquals(stopped, { success: true, content: "Okay, I stopped." });
+    assertEquals(cancelRequests, [{
+      platform: "discord",
+      channelId: "channel123",
+      userId: "user456",
+      reason: "command",
+    }]);
+
+    const idle = await processor.execute(createCommand("stop", {}, { channelId: "quiet" }));
+    assertEquals(idle.success, false);
+  });
+});
+
+Deno.test("CommandProcessor - should apply access control", async () => {
+  await withProcessor(async ({ processor }) => {
+    const denied = await processor.execute(createCommand("status"));
+    assertEquals(denied.success, false);
+
+    const allowed = await processor.execute(
+      createCommand("status", {}, { userId: "friend" }),
+    );
+    assertEquals(allowed.success, true);
+  }, { replyTo: "whitelist", whitelist: ["discord/account/friend"] });
+});
+
+Deno.test("CommandProcessor - should reject unknown commands", async () => {
+  await withProcessor(async ({ processor }) => {
+    const result = await processor.execute(createCommand("dance"));
+    assertEquals(result, { success: false, content: "Unknown command: dance" });
+  });
+});
+
+Deno.test("formatUptime - should format durations", () => {
+  assertEquals(formatUptime(59_000), "0m");
+  assertEquals(formatUptime(3 * 60_000), "3m");
+  assertEquals(formatUptime(2 * 3_600_000 + 5 * 60_000), "2h 5m");
+  assertEquals(formatUptime(26 * 3_600_000), "1d 2h 0m");
+});
@@ -1,7 +1,7 @@
 // tests/core/config-loader.test.ts
 
-import { assertEquals, assertRejects, assertStringIncludes } from "@std/assert";
-import { loadConfig, loadSystemPrompt } from "@core/config-loader.ts";
+import { assertEquals, assertRejects } from "@std/assert";
+import { loadConfig, updateRuntimeOverrides } from "@core/config-loader.ts";
 import { ConfigError } from "../../src/types/errors.ts";
 
 // Test with a temporary directory containing test config files
@@ -188,6 +188,204 @@ workspace:
   }
 });
 
+Deno.test("loadConfig - AGENT_DEFAULT_TYPE accepts a comma-separated fallback chain", async () => {
+  const config = `
+platforms:
+  discord:
+    token: "test-token"
+    enabled: true
+agent:
+  model: "gpt-4"
+  systemPromptPath: "./prompts/system.md"
+  tokenLimit: 20000
+workspace:
+  repoPath: "./data"
+  workspacesDir: "workspaces"
+`;
+
+  Deno.env.set("AGENT_DEFAULT_TYPE", "copilot, opencode,gemini");
+  try {
+    await withTestConfig(config, async (dir) => {
+      const result = await loadConfig(dir);
+      assertEquals(result.agent.defaultAgentType, ["copilot", "opencode", "gemini"]);
+    });
+  } finally {
+    Deno.env.delete("AGENT_DEFAULT_TYPE");
+  }
+});
+
+Deno.test("loadConfig - should throw on unknown agent types", async () => {
+  const config = `
+platforms:
+  discord:
+    token: "test-token"
+    enabled: true
+agent:
+  model: "gpt-4"
+  systemPromptPath: "./prompts/system.md"
+  tokenLimit: 20000
+  defaultAgentType: [copilot, claude]
+workspace:
+  repoPath: "./data"
+  workspacesDir: "workspaces"
+`;
+
+  await withTestConfig(config, async (dir) => {
+    await assertRejects(
+      () => loadConfig(dir),
+      ConfigError,
+      'Invalid agent.defaultAgentType value: "claude"',
+    );
+  });
+});
+
+Deno.test("loadConfig - should throw on unknown timezones", async () => {
+  const config = `
+platforms:
+  discord:
+    token: "test-token"
+    enabled: true
+agent:
+  model: "gpt-4"
+  systemPromptPath: "./prompts/system.md"
+  tokenLimit: 20000
+  timezone: "Mars/Olympus_Mons"
+workspace:
+  repoPath: "./data"
+  workspacesDir: "workspaces"
+`;
+
+  await withTestConfig(config, async (dir) => {
+    await assertRejects(
+      () => loadConfig(dir),
+      ConfigError,
+      'Invalid agent.timezone value: "Mars/Olympus_Mons"',
+    );
+  });
+});
+
+Deno.test("loadConfig - should load routing rules", async () => {
+  const config = `
+platforms:
+  discord:
+    token: "test-token"
+    enabled: true
+agent:
+  model: "gpt-5"
+  systemPromptPath: "./prompts/system.md"
+  tokenLimit: 20000
+workspace:
+  repoPath: "./data"
+  workspacesDir: "workspaces"
+routing:
+  rules:
+    - name: noisy channel
+      match: { platform: discord, channelId: "123" }
+      model: gpt-5-mini
+      recentMessageLimit: 5
+`;
+
+  await withTestConfig(config, async (dir) => {
+    const result = await loadConfig(dir);
+    assertEquals(result.routing?.rules.length, 1);
+    assertEquals(result.routing?.rules[0].match, { platform: "discord", channelId: "123" });
+  });
+});
+
+Deno.test("loadConfig - should throw on unknown routing conditions", async () => {
+  const config = `
+platforms:
+  discord:
+    token: "test-token"
+    enabled: true
+agent:
+  model: "gpt-5"
+  systemPromptPath: "./prompts/system.md"
+  tokenLimit: 20000
+workspace:
+  repoPath: "./data"
+  workspacesDir: "workspaces"
+routing:
+  rules:
+    - match: { channel: "123" }
+      model: gpt-5-mini
+`;
+
+  await withTestConfig(config, async (dir) => {
+    await assertRejects(
+      () => loadConfig(dir),
+      ConfigError,
+      "Unknown routing.rules[0].match conditions: channel",
+    );
+  });
+});
+
+Deno.test("loadConfig - should load personas with their own platform accounts", async () => {
+  const config = `
+platforms:
+  discord:
+    enabled: false
+agent:
+  model: "gpt-5"
+  systemPromptPath: "./prompts/system.md"
+  tokenLimit: 20000
+workspace:
+  repoPath: "./data"
+  workspacesDir: "workspaces"
+personas:
+  - name: alice
+    displayName: Alice
+    systemPromptPath: ./prompts/alice/system.md
+    platforms:
+      discord:
+        enabled: true
+        token: "alice-token"
+`;
+
+  await withTestConfig(config, async (dir) => {
+    // Persona accounts count as enabled platforms
+    const result = await loadConfig(dir);
+    assertEquals(result.personas?.[0].name, "alice");
+    assertEquals(result.personas?.[0].platforms.discord?.token, "alice-token");
+  });
+
+  await withTestConfig(config.replace(`token: "alice-token"`, ""), async (dir) => {
+    await assertRejects(
+      () => loadConfig(dir),
+      ConfigError,
+      "Missing required configuration fields: personas[0].platforms.discord.token",
+    );
+  });
+});
+
+Deno.test("loadConfig - should throw on invalid persona names", async () => {
+  const config = (names: string[]) => `
+platforms:
+  discord:
+    token: "test-token"
+    enabled: true
+agent:
+  model: "gpt-5"
+  systemPromptPath: "./prompts/system.md"
+  tokenLimit: 20000
+workspace:
+  repoPath: "./data"
+  workspacesDir: "workspaces"
+personas:
+${names.map((name) => `  - name: "${name}"\n    platforms: {}`).join("\n")}
+`;
+
+  await withTestConfig(config(["../alice"]), async (dir) => {
+    await assertRejects(() => loadConfig(dir), ConfigError, "personas[0].name must consist of");
+  });
+  await withTestConfig(config(["misskey"]), async (dir) => {
+    await assertRejects(() => loadConfig(dir), ConfigError, "must not be a platform name");
+  });
+  await withTestConfig(config(["alice", "alice"]), async (dir) => {
+    await assertRejects(() => loadConfig(dir), ConfigError, `Duplicate persona name: "alice"`);
+  });
+});
+
 Deno.test("loadConfig - should throw on missing required fields", async () => {
   const config = `
 platforms:
@@ -208,7 +406,7 @@ agent:
   });
 });
 
-Deno.test("loadConfig - should throw when no platform is enabled", async () => {
+Deno.test("loadConfig - should require Telegram token when Telegram is enabled", async () => {
   const config = `
 platforms:
   discord:
@@ -216,10 +414,11 @@ platforms:
     enabled: false
   misskey:
     enabled: false
+  telegram:
+    enabled: true
 agent:
   model: "gpt-4"
   systemPromptPath: "./prompts/system.md"
-  tokenLimit: 20000
 workspace:
   repoPath: "./data"
   workspacesDir: "workspaces"
@@ -229,139 +428,260 @@ workspace:
     await assertRejects(
       () => loadConfig(dir),
       ConfigError,
-      "At least one platform must be enabled",
+      "platforms.telegram.token",
     );
   });
 });
 
-// --- loadSystemPrompt tests ---
-
-async function withPromptDir(
-  files: Record<string, string>,
-  fn: (systemPromptPath: string) => Promise<void>,
-): Promise<void> {
-  const tempDir = await Deno.makeTempDir();
-  try {
-    const promptDir = `${tempDir}/prompts`;
-    await Deno.mkdir(promptDir, { recursive: true });
-    for (const [name, content] of Object.entries(files)) {
-      await Deno.writeTextFile(`${promptDir}/${name}`, content);
-    }
-    await fn(`${promptDir}/system.md`);
-  } finally {
-    await Deno.remove(tempDir, { recursive: true });
-  }
-}
+Deno.test("loadConfig - should accept Telegram whitelist entries", async () => {
+  const config = `
+platforms:
+  discord:
+    token: "test-token"
+    enabled: false
+  misskey:
+    enabled: false
+  telegram:
+    token: "telegram-token"
+    enabled: true
+agent:
+  model: "gpt-4"
+  systemPromptPath: "./prompts/system.md"
+workspace:
+  repoPath: "./data"
+  workspacesDir: "workspaces"
+accessControl:
+  whitelist:
+    - "telegram/account/123456789"
+    - "telegram/channel/-1001234567890:42"
+`;
 
-Deno.test("loadSystemPrompt - should replace single placeholder with fragment file content", async () => {
-  await withPromptDir(
-    {
-      "system.md": "Hello, I am {{character_name}}!",
-      "character_name.md": "Yuna",
-    },
-    async (path) => {
-      const result = await loadSystemPrompt(path);
-      assertEquals(result, "Hello, I am Yuna!");
-    },
-  );
+  await withTestConfig(config, async (dir) => {
+    const result = await loadConfig(dir);
+    assertEquals(result.platforms.telegram?.enabled, true);
+    assertEquals(result.platforms.telegram?.spontaneousPost?.enabled, false);
+    assertEquals(result.accessControl.whitelist, [
+      "telegram/account/123456789",
+      "telegram/channel/-1001234567890:42",
+    ]);
+  });
 });
 
-Deno.test("loadSystemPrompt - should replace multiple different placeholders", async () => {
-  await withPromptDir(
-    {
-      "system.md": "Name: {{char_name}}, Info: {{char_info}}",
-      "char_name.md": "Yuna",
-      "char_info.md": "An AI assistant",
-    },
-    async (path) => {
-      const result = await loadSystemPrompt(path);
-      assertEquals(result, "Name: Yuna, Info: An AI assistant");
-    },
-  );
+Deno.test("loadConfig - should require Matrix credentials when Matrix is enabled", async () => {
+  const config = `
+platforms:
+  discord:
+    token: "test-token"
+    enabled: false
+  misskey:
+    enabled: false
+  matrix:
+    enabled: true
+    homeserverUrl: "https://matrix.example.org"
+agent:
+  model: "gpt-4"
+  systemPromptPath: "./prompts/system.md"
+workspace:
+  repoPath: "./data"
+  workspacesDir: "workspaces"
+`;
+
+  await withTestConfig(config, async (dir) => {
+    await assertRejects(
+      () => loadConfig(dir),
+      ConfigError,
+      "platforms.matrix.accessToken",
+    );
+  });
 });
 
-Deno.test("loadSystemPrompt - should replace same placeholder appearing multiple times", async () => {
-  await withPromptDir(
-    {
-      "system.md": "I am {{name}}. Call me {{name}}.",
-      "name.md": "Yuna",
-    },
-    async (path) => {
-      const result = await loadSystemPrompt(path);
-      assertEquals(result, "I am Yuna. Call me Yuna.");
-    },
-  );
+Deno.test("loadConfig - should accept Matrix whitelist entries", async () => {
+  const config = `
+platforms:
+  discord:
+    token: "test-token"
+    enabled: false
+  misskey:
+    enabled: false
+  matrix:
+    homeserverUrl: "https://matrix.example.org"
+    accessToken: "matrix-token"
+    enabled: true
+agent:
+  model: "gpt-4"
+  systemPromptPath: "./prompts/system.md"
+workspace:
+  repoPath: "./data"
+  workspacesDir: "workspaces"
+accessControl:
+  whitelist:
+    - "matrix/account/@alice:example.org"
+    - "matrix/channel/!abcdef:example.org"
+`;
+
+  await withTestConfig(config, async (dir) => {
+    const result = await loadConfig(dir);
+    assertEquals(result.platforms.matrix?.enabled, true);
+    assertEquals(result.platforms.matrix?.spontaneousPost?.enabled, false);
+    assertEquals(result.accessControl.whitelist, [
+      "matrix/account/@alice:example.org",
+      "matrix/channel/!abcdef:example.org",
+    ]);
+  });
 });
 
-Deno.test("loadSystemPrompt - should leave placeholder unchanged when fragment file is missing", async () => {
-  await withPromptDir(
-    {
-      "system.md": "Hello {{missing_fragment}}!",
-    },
-    async (path) => {
-      const result = await loadSystemPrompt(path);
-      assertStringIncludes(result, "{{missing_fragment}}");
-    },
-  );
+Deno.test("loadConfig - should require Mastodon host and token when Mastodon is enabled", async () => {
+  const config = `
+platforms:
+  discord:
+    token: "test-token"
+    enabled: false
+  misskey:
+    enabled: false
+  mastodon:
+    enabled: true
+    token: "mastodon-token"
+agent:
+  model: "gpt-4"
+  systemPromptPath: "./prompts/system.md"
+workspace:
+  repoPath: "./data"
+  workspacesDir: "workspaces"
+`;
+
+  await withTestConfig(config, async (dir) => {
+    await assertRejects(
+      () => loadConfig(dir),
+      ConfigError,
+      "platforms.mastodon.host",
+    );
+  });
 });
 
-Deno.test("loadSystemPrompt - should not use system.md as a fragment source", async () => {
-  await withPromptDir(
-    {
-      "system.md": "Hello {{system}}!",
-    },
-    async (path) => {
-      const result = await loadSystemPrompt(path);
-      // {{system}} should remain because system.md is excluded
-      assertStringIncludes(result, "{{system}}");
-    },
-  );
+Deno.test("loadConfig - should require webhook secret and callback URL when enabled", async () => {
+  const config = `
+platforms:
+  discord:
+    enabled: false
+  misskey:
+    enabled: false
+  webhook:
+    enabled: true
+agent:
+  model: "gpt-4"
+  systemPromptPath: "./prompts/system.md"
+workspace:
+  repoPath: "./data"
+  workspacesDir: "workspaces"
+`;
+
+  await withTestConfig(config, async (dir) => {
+    await assertRejects(
+      () => loadConfig(dir),
+      ConfigError,
+      "platforms.webhook.secret, platforms.webhook.callbackUrl",
+    );
+  });
 });
 
-Deno.test("loadSystemPrompt - should trim fragment content", async () => {
-  await withPromptDir(
-    {
-      "system.md": "Name: {{char_name}}.",
-      "char_name.md": "  Yuna  \n",
-    },
-    async (path) => {
-      const result = await loadSystemPrompt(path);
-      assertEquals(result, "Name: Yuna.");
-    },
-  );
+Deno.test("loadConfig - should not require Discord token when Discord is disabled", async () => {
+  const config = `
+platforms:
+  discord:
+    enabled: false
+  misskey:
+    enabled: false
+  mastodon:
+    enabled: true
+    host: "example.social"
+    token: "mastodon-token"
+agent:
+  model: "gpt-4"
+  systemPromptPath: "./prompts/system.md"
+workspace:
+  repoPath: "./data"
+  workspacesDir: "workspaces"
+`;
+
+  await withTestConfig(config, async (dir) => {
+    const result = await loadConfig(dir);
+    assertEquals(result.platforms.mastodon?.enabled, true);
+  });
 });
 
-Deno.test("loadSystemPrompt - should trim final result", async () => {
-  await withPromptDir(
-    {
-      "system.md": "\n  Hello World  \n",
-    },
-    async (path) => {
-      const result = await loadSystemPrompt(path);
-      assertEquals(result, "Hello World");
-    },
-  );
+Deno.test("loadConfig - platform override should run only the selected platform", async () => {
+  const config = `
+platforms:
+  discord:
+    token: "test-token"
+    enabled: true
+  misskey:
+    enabled: false
+agent:
+  model: "gpt-4"
+  systemPromptPath: "./prompts/system.md"
+workspace:
+  repoPath: "./data"
+  workspacesDir: "workspaces"
+accessControl:
+  whitelist:
+    - "discord/account/123"
+`;
+
+  await withTestConfig(config, async (dir) => {
+    const result = await loadConfig(dir, {
+      platform: "console",
+      platformConfig: { userId: "alice", isDm: true },
+    });
+    assertEquals(result.platforms.discord.enabled, false);
+    assertEquals(result.platforms.console?.enabled, true);
+    assertEquals(result.platforms.console?.userId, "alice");
+    assertEquals(result.platforms.console?.isDm, true);
+    assertEquals(result.accessControl.whitelist, ["discord/account/123", "console/account/alice"]);
+  });
 });
 
-Deno.test("loadSystemPrompt - should throw when system prompt file not found", async () => {
-  await assertRejects(
-    () => loadSystemPrompt("/nonexistent/path/system.md"),
-    ConfigError,
-    "System prompt file not found",
-  );
+Deno.test("loadConfig - console mode should not require any platform credentials", async () => {
+  const config = `
+agent:
+  model: "gpt-4"
+  systemPromptPath: "./prompts/system.md"
+workspace:
+  repoPath: "./data"
+  workspacesDir: "workspaces"
+`;
+
+  await withTestConfig(config, async (dir) => {
+    const result = await loadConfig(dir, { platform: "console" });
+    assertEquals(result.platforms.console?.enabled, true);
+    assertEquals(result.accessControl.whitelist, ["console/account/console-user"]);
+  });
 });
 
-Deno.test("loadSystemPrompt - should handle prompt with no placeholders", async () => {
-  await withPromptDir(
-    {
-      "system.md": "A plain prompt with no placeholders.",
-      "unused.md": "This should not matter.",
-    },
-    async (path) => {
-      const result = await loadSystemPrompt(path);
-      assertEquals(result, "A plain prompt with no placeholders.");
-    },
-  );
+Deno.test("loadConfig - should throw when no platform is enabled", async () => {
+  const config = `
+platforms:
+  discord:
+    token: "test-token"
+    enabled: false
+  misskey:
+    enabled: false
+agent:
+  model: "gpt-4"
+  systemPromptPath: "./prompts/system.md"
+  tokenLimit: 20000
+workspace:
+  repoPath: "./data"
+  workspacesDir: "workspaces"
+`;
+
+  await withTestConfig(config, async (dir) => {
+    await assertRejects(
+      () => loadConfig(dir),
+      ConfigError,
+      "At least one platform must be enabled",
+    );
+  });
 });
 
 // --- accessControl configuration tests ---
@@ -1251,3 +1571,126 @@ metrics:
     assertEquals(result.metrics?.path, "/custom");
   });
 });
+
+Deno.test("loadConfig - runtime overrides take precedence over config files", async () => {
+  await withTestConfig("", async (dir) => {
+    await Deno.writeTextFile(
+      `${dir}/config.yaml`,
+      `
+platforms:
+  discord:
+    token: "test-token"
+    enabled: true
+agent:
+  model: "gpt-4"
+  systemPromptPath: "./prompts/system.md"
+  tokenLimit: 20000
+workspace:
+  repoPath: "${dir}/data"
+  workspacesDir: "workspaces"
+accessControl:
+  replyTo: whitelist
+  whitelist: ["discord/account/1"]
+  admins: ["discord/account/1", "discord/channel/2"]
+`,
+    );
+    await updateRuntimeOverrides(`${dir}/data`, (overrides) => {
+      overrides.accessControl = { whitelist: ["discord/channel/3"] };
+    });
+
+    const result = await loadConfig(dir);
+    assertEquals(result.accessControl.whitelist, ["discord/channel/3"]);
+    assertEquals(result.accessControl.replyTo, "whitelist");
+    // Only accounts can be admins
+    assertEquals(result.accessControl.admins, ["discord/account/1"]);
+  });
+});
+
+Deno.test("loadConfig - transcript defaults and contextSource validation", async () => {
+  const config = `
+platforms:
+  discord:
+    token: "test-token"
+    enabled: true
+agent:
+  model: "gpt-4"
+  systemPromptPath: "./prompts/system.md"
+  tokenLimit: 20000
+workspace:
+  repoPath: "./data"
+  workspacesDir: "workspaces"
+`;
+
+  await withTestConfig(config, async (dir) => {
+    const result = await loadConfig(dir);
+    assertEquals(result.transcript, { enabled: true, contextSource: "platform" });
+  });
+
+  await withTestConfig(config + "transcript:\n  contextSource: local\n", async (dir) => {
+    await assertRejects(
+      () => loadConfig(dir),
+      ConfigError,
+      'Invalid transcript.contextSource value: "local"',
+    );
+  });
+});
+
+Deno.test("loadConfig - shadow defaults and entry validation", async () => {
+  const config = `
+platforms:
+  discord:
+    token: "test-token"
+    enabled: true
+agent:
+  model: "gpt-4"
+  systemPromptPath: "./prompts/system.md"
+  tokenLimit: 20000
+workspace:
+  repoPath: "./data"
+  workspacesDir: "workspaces"
+`;
+
+  await withTestConfig(config, async (dir) => {
+    const result = await loadConfig(dir);
+    assertEquals(result.shadow, { enabled: false, channels: [] });
+  });
+
+  const shadow = `shadow:
+  enabled: true
+  channels:
+    - discord/channel/general
+    - discord/account/1
+  reviewChannel: discord/review
+`;
+  await withTestConfig(config + shadow, async (dir) => {
+    const result = await loadConfig(dir);
+    // Only channels can be shadowed
+    assertEquals(result.shadow, { enabled: true, channels: ["discord/channel/general"] });
+  });
+});
+
+Deno.test("loadConfig - event recording defaults", async () => {
+  const config = `
+platforms:
+  discord:
+    token: "test-token"
+    enabled: true
+agent:
+  model: "gpt-4"
+  systemPromptPath: "./prompts/system.md"
+  tokenLimit: 20000
+workspace:
+  repoPath: "./data"
+  workspacesDir: "workspaces"
+`;
+
+  await withTestConfig(config, async (dir) => {
+    const result = await loadConfig(dir);
+    assertEquals(result.eventRecording, { enabled: false, historyLimit: 20 });
+  });
+
+  await withTestConfig(config + "eventRecording:\n  enabled: true\n", async (dir) => {
+    const result = await loadConfig(dir);
+    assertEquals(result.eventRecording, { enabled: true, historyLimit: 20 });
+  });
+});
@@ -3,10 +3,12 @@
 import { assertEquals, assertStringIncludes } from "@std/assert";
 import { ContextAssembler } from "../../src/core/context-assembler.ts";
 import { MemoryStore } from "../../src/core/memory-store.ts";
+import type { TranscriptStore } from "../../src/core/transcript-store.ts";
 import { WorkspaceManager } from "../../src/core/workspace-manager.ts";
 import type { MessageFetcher } from "../../src/types/context.ts";
 import type { NormalizedEvent, Platform, PlatformMessage } from "../../src/types/events.ts";
 import type { PlatformEmoji } from "../../src/types/platform.ts";
+import type { ChannelHistory } from "../../src/types/transcript.ts";
 
 function createTestMessage(overrides: Partial<PlatformMessage> = {}): PlatformMessage {
   return {
@@ -195,6 +197,40 @@ Deno.test("ContextAssembler - should respect message limit", async () => {
   });
 });
 
+Deno.test("ContextAssembler - should apply session overrides", async () => {
+  await withTestContextAssembler(async (assembler, _store, manager, tempDir) => {
+    const event = createTestEvent();
+    const workspace = await manager.getOrCreateWorkspace(event);
+    await Deno.writeTextFile(`${tempDir}/prompts/cheap.md`, "Keep it short.");
+
+    const messages: PlatformMessage[] = [];
+    for (let i = 0; i < 10; i++) {
+      messages.push(
+        createTestMessage({ messageId: `msg${i}`, content: `Message ${i} `.repeat(20) }),
+      );
+    }
+    const fetcher = createMockMessageFetcher(messages);
+    const overrides = {
+      systemPromptPath: `${tempDir}/prompts/cheap.md`,
+      recentMessageLimit: 5,
+      tokenLimit: 100,
+    };
+
+    const context = await assembler.assembleContext(event, workspace, fetcher, overrides);
+    assertEquals(context.systemPrompt, "Keep it short.");
+    assertEquals(context.recentMessages.length, 5);
+    assertEquals(
+      assembler.formatContext(context, overrides).estimatedTokens <
+        assembler.formatContext(context).estimatedTokens,
+      true,
+    );
+
+    // Sessions without overrides keep the configured prompt
+    const defaultContext = await assembler.assembleContext(event, workspace, fetcher);
+    assertEquals(defaultContext.systemPrompt, "You are a helpful assistant.");
+  });
+});
+
 Deno.test("ContextAssembler - should estimate tokens", async () => {
   await withTestContextAssembler(async (assembler, _store, manager) => {
     const event = createTestEvent({ content: "A longer message for testing" });
@@ -544,6 +580,30 @@ Deno.test("ContextAssembler - /clear should be applied during context assembly",
     // Only the message after /clear should remain
     assertEquals(context.recentMessages.length, 1);
     assertEquals(context.recentMessages[0].content, "New conversation start");
+    assertEquals(context.clearedAt instanceof Date, true);
+  });
+});
+
+Deno.test("ContextAssembler - formatResumeContext includes only new messages", async () => {
+  await withTestContextAssembler(async (assembler, _store, manager) => {
+    const since = new Date("2026-01-01T12:00:00Z");
+    const later = new Date("2026-01-01T12:05:00Z");
+    const event = createTestEvent({ content: "What about now?", timestamp: later });
+    const workspace = await manager.getOrCreateWorkspace(event);
+    const fetcher = createMockMessageFetcher([
+      createTestMessage({ messageId: "old", content: "Already seen", timestamp: since }),
+      createTestMessage({ messageId: "new", content: "Something new", timestamp: later }),
+      createTestMessage({ messageId: "msg789", content: "What about now?", timestamp: later }),
+    ]);
+
+    const context = await assembler.assembleContext(event, workspace, fetcher);
+    const formatted = assembler.formatResumeContext(context, since);
+
+    assertEquals(formatted.systemMessage, "");
+    assertEquals(formatted.userMessage.includes("Already seen"), false);
+    assertStringIncludes(formatted.userMessage, "[User] User1: Something new");
+    assertStringIncludes(formatted.userMessage, "## Current Message\n\nuser456: What about now?");
+    assertEquals(formatted.userMessage.split("What about now?").length, 2);
   });
 });
 
@@ -970,6 +1030,32 @@ Deno.test("ContextAssembler - trigger message with attachments includes descript
   });
 });
 
+Deno.test("ContextAssembler - lists coalesced messages together", async () => {
+  await withTestContextAssembler(async (assembler, _store, manager) => {
+    const event = createTestEvent({
+      messageId: "msg3",
+      content: "Third",
+      precedingEvents: [
+        createTestEvent({ messageId: "msg1", content: "First" }),
+        createTestEvent({ messageId: "msg2", content: "Second" }),
+      ],
+    });
+    const workspace = await manager.getOrCreateWorkspace(event);
+    const fetcher = createMockMessageFetcher([]);
+
+    const context = await assembler.assembleContext(event, workspace, fetcher);
+    assertEquals(context.triggerMessage.messageId, "msg3");
+    assertEquals(context.precedingMessages?.map((m) => m.messageId), ["msg1", "msg2"]);
+
+    const formatted = assembler.formatContext(context);
+    assertStringIncludes(formatted.userMessage, "## Current Messages");
+    assertStringIncludes(
+      formatted.userMessage,
+      "user456: First\nuser456: Second\nuser456: Third",
+    );
+  });
+});
+
 Deno.test("ContextAssembler - formatFileSize via attachment description", async () => {
   await withTestContextAssembler(async (assembler, _store, manager) => {
     const event = createTestEvent();
@@ -995,3 +1081,149 @@ Deno.test("ContextAssembler - formatFileSize via attachment description", async
     assertStringIncludes(formatted.userMessage, "2.0MB");
   });
 });
+
+Deno.test("ContextAssembler - assembleContext includes thread context", async () => {
+  await withTestContextAssembler(async (assembler, _store, manager) => {
+    const event = createTestEvent({ channelId: "thread1", parentChannelId: "forum1" });
+    const workspace = await manager.getOrCreateWorkspace(event);
+
+    const starter = createTestMessage({ messageId: "thread1", content: "How do I bake bread?" });
+    const requestedLimits: number[] = [];
+    const fetcher: MessageFetcher = {
+      ...createMockMessageFetcher([
+        starter,
+        createTestMessage({ messageId: "reply1", content: "Use more yeast" }),
+      ]),
+      fetchThreadContext: (channelId: string, parentMessageLimit: number) => {
+        assertEquals(channelId, "thread1");
+        requestedLimits.push(parentMessageLimit);
+        return Promise.resolve({
+          name: "Bread help",
+          parentChannelId: "general1",
+          parentChannelName: "general",
+          starterMessage: starter,
+          parentMessages: [createTestMessage({ messageId: "p1", content: "Lunch time" })],
+        });
+      },
+    };
+
+    const context = await assembler.assembleContext(event, workspace, fetcher);
+
+    assertEquals(requestedLimits.length, 1);
+    assertEquals(context.threadContext?.name, "Bread help");
+    // The forum post is shown once, in the thread section
+    assertEquals(context.recentMessages.map((m) => m.messageId), ["reply1"]);
+
+    const formatted = assembler.formatContext(context);
+    assertStringIncludes(
+      formatted.userMessage,
+      'This conversation takes place in the thread "Bread help" of #general.',
+    );
+    assertStringIncludes(
+      formatted.userMessage,
+      "Thread starter:\n[User] User1: How do I bake bread?",
+    );
+    assertStringIncludes(
+      formatted.userMessage,
+      "Latest messages in #general:\n[User] User1: Lunch time",
+    );
+  });
+});
+
+Deno.test("ContextAssembler - assembleContext skips thread context outside threads", async () => {
+  await withTestContextAssembler(async (assembler, _store, manager) => {
+    const event = createTestEvent();
+    const workspace = await manager.getOrCreateWorkspace(event);
+    let called = false;
+    const fetcher: MessageFetcher = {
+      ...createMockMessageFetcher([]),
+      fetchThreadContext: () => {
+        called = true;
+        return Promise.resolve(null);
+      },
+    };
+
+    const context = await assembler.assembleContext(event, workspace, fetcher);
+
+    assertEquals(called, false);
+    assertEquals(context.threadContext, undefined);
+    assertEquals(assembler.formatContext(context).userMessage.includes("## Thread"), false);
+  });
+});
+
+/**
+ * Context assembler reading a fixed channel transcript
+ */
+async function withTranscriptAssembler(
+  transcript: ChannelHistory,
+  contextSource: "platform" | "transcript",
+  fn: (assembler: ContextAssembler, manager: WorkspaceManager) => Promise<void>,
+): Promise<void> {
+  await withTestContextAssembler(async (_assembler, store, manager, tempDir) => {
+    const transcriptStore = {
+      readRecent: (_accountKey: string, _channelId: string, limit: number) =>
+        Promise.resolve({ ...transcript, messages: transcript.messages.slice(-limit) }),
+    } as unknown as TranscriptStore;
+    const assembler = new ContextAssembler(store, {
+      recentMessageLimit: 20,
+      memoryMaxChars: 2000,
+      tokenLimit: 20000,
+      systemPromptPath: `${tempDir}/prompts/system.md`,
+      contextSource,
+    }, transcriptStore);
+    await fn(assembler, manager);
+  });
+}
+
+Deno.test("ContextAssembler - uses the transcript when the platform fetch fails", async () => {
+  const transcript = { messages: [createTestMessage({ messageId: "t1", content: "Recorded" })] };
+  await withTranscriptAssembler(transcript, "platform", async (assembler, manager) => {
+    const event = createTestEvent();
+    const workspace = await manager.getOrCreateWorkspace(event);
+    const fetcher: MessageFetcher = {
+      fetchRecentMessages: () => Promise.reject(new Error("Missing Access")),
+    };
+
+    const context = await assembler.assembleContext(event, workspace, fetcher);
+    assertEquals(context.recentMessages.map((m) => m.messageId), ["t1"]);
+
+    const empty = await assembler.assembleContext(event, workspace, createMockMessageFetcher([]));
+    assertEquals(empty.recentMessages.map((m) => m.messageId), ["t1"]);
+  });
+});
+
+Deno.test("ContextAssembler - cuts platform messages at the transcript /clear marker", async () => {
+  const clearedAt = new Date("2026-01-01T00:01:00Z");
+  const transcript = { messages: [createTestMessage({ messageId: "t1" })], clearedAt };
+  await withTranscriptAssembler(transcript, "platform", async (assembler, manager) => {
+    const event = createTestEvent();
+    const workspace = await manager.getOrCreateWorkspace(event);
+    const fetcher = createMockMessageFetcher([
+      createTestMessage({ messageId: "old1", timestamp: new Date("2026-01-01T00:00:00Z") }),
+      createTestMessage({ messageId: "new1", timestamp: new Date("2026-01-01T00:02:00Z") }),
+    ]);
+
+    const context = await assembler.assembleContext(event, workspace, fetcher);
+    assertEquals(context.recentMessages.map((m) => m.messageId), ["new1"]);
+    assertEquals(context.clearedAt, clearedAt);
+  });
+});
+
+Deno.test("ContextAssembler - reads the transcript first with contextSource transcript", async () => {
+  const transcript = { messages: [createTestMessage({ messageId: "t1", username: "Alice" })] };
+  await withTranscriptAssembler(transcript, "transcript", async (assembler, manager) => {
+    const event = createTestEvent({ userId: "user1" });
+    const workspace = await manager.getOrCreateWorkspace(event);
+    let fetched = false;
+    const fetcher: MessageFetcher = {
+      fetchRecentMessages: () => {
+        fetched = true;
+        return Promise.resolve([]);
+      },
+    };
+
+    const context = await assembler.assembleContext(event, workspace, fetcher);
+    assertEquals(context.recentMessages.map((m) => m.messageId), ["t1"]);
+    assertEquals(fetched, false);
+  });
+});
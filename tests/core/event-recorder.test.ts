@@ -0,0 +1,127 @@
+// tests/core/event-recorder.test.ts
+
+import { assertEquals } from "@std/assert";
+import { join } from "@std/path";
+import { EventRecorder } from "@core/event-recorder.ts";
+import type { PlatformAdapter } from "@platforms/platform-adapter.ts";
+import { readFixture } from "../../src/replay/fixture.ts";
+import type { Config } from "../../src/types/config.ts";
+import type { NormalizedEvent, PlatformMessage } from "../../src/types/events.ts";
+import type { EventHandler } from "../../src/types/platform.ts";
+
+function createEvent(overrides: Partial<NormalizedEvent> = {}): NormalizedEvent {
+  return {
+    platform: "discord",
+    channelId: "channel1",
+    userId: "user1",
+    messageId: "msg1",
+    isDm: false,
+    guildId: "guild1",
+    content: "Hello",
+    timestamp: new Date("2026-01-01T00:00:00Z"),
+    raw: { circular: globalThis },
+    ...overrides,
+  };
+}
+
+const HISTORY: PlatformMessage[] = [
+  {
+    messageId: "msg0",
+    userId: "user2",
+    username: "Mira",
+    content: "Earlier message",
+    timestamp: new Date("2025-12-31T23:59:00Z"),
+    isBot: false,
+  },
+];
+
+/**
+ * Adapter double that emits events to the handlers registered on it
+ */
+function createAdapter(fetchRecentMessages: () => Promise<PlatformMessage[]>) {
+  const eventHandlers: EventHandler[] = [];
+  const fetchLimits: number[] = [];
+
+  const adapter = {
+    platform: "discord",
+    capabilities: { canFetchHistory: true, maxMessageLength: 2000 },
+    getBotId: () => "bot1",
+    onEvent: (handler: EventHandler) => eventHandlers.push(handler),
+    fetchRecentMessages: (_channelId: string, limit: number) => {
+      fetchLimits.push(limit);
+      return fetchRecentMessages();
+    },
+  } as unknown as PlatformAdapter;
+
+  return {
+    adapter,
+    fetchLimits,
+    emit: async (event: NormalizedEvent) => {
+      for (const handler of eventHandlers) await handler(event);
+    },
+  };
+}
+
+async function withRecorder(
+  enabled: boolean,
+  fn: (recorder: EventRecorder, dir: string, config: Config) => Promise<void>,
+) {
+  const dir = await Deno.makeTempDir();
+  const config = {
+    workspace: { repoPath: dir, workspacesDir: "workspaces" },
+    eventRecording: { enabled, historyLimit: 5 },
+  } as Config;
+  try {
+    await fn(new EventRecorder(config), dir, config);
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+}
+
+const FIXTURE_PATH = ["recordings", "discord", "channel1", "1767225600000-msg1.json"];
+
+Deno.test("EventRecorder - records the event and its history as a replay fixture", async () => {
+  await withRecorder(true, async (recorder, dir) => {
+    const { adapter, fetchLimits, emit } = createAdapter(() => Promise.resolve(HISTORY));
+    recorder.attach(adapter);
+
+    await emit(createEvent());
+
+    assertEquals(fetchLimits, [5]);
+    const fixture = await readFixture(join(dir, ...FIXTURE_PATH));
+    assertEquals(fixture.platform, "discord");
+    assertEquals(fixture.botId, "bot1");
+    assertEquals(fixture.events.length, 1);
+    assertEquals(fixture.events[0].event.content, "Hello");
+    assertEquals(fixture.events[0].event.timestamp, new Date("2026-01-01T00:00:00Z"));
+    assertEquals(fixture.events[0].event.raw, undefined);
+    assertEquals(fixture.events[0].history, HISTORY);
+  });
+});
+
+Deno.test("EventRecorder - records without history when fetching it fails", async () => {
+  await withRecorder(true, async (recorder, dir) => {
+    const { adapter, emit } = createAdapter(() => Promise.reject(new Error("rate limited")));
+    recorder.attach(adapter);
+
+    await emit(createEvent());
+
+    const fixture = await readFixture(join(dir, ...FIXTURE_PATH));
+    assertEquals(fixture.events[0].history, []);
+  });
+});
+
+Deno.test("EventRecorder - follows the enabled setting of the live config", async () => {
+  await withRecorder(false, async (recorder, dir, config) => {
+    const { adapter, fetchLimits, emit } = createAdapter(() => Promise.resolve(HISTORY));
+    recorder.attach(adapter);
+
+    await emit(createEvent());
+    assertEquals(fetchLimits, []);
+
+    config.eventRecording!.enabled = true;
+    await emit(createEvent());
+    assertEquals(fetchLimits, [5]);
+    assertEquals((await Deno.stat(join(dir, ...FIXTURE_PATH))).isFile, true);
+  });
+});
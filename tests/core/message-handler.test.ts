@@ -2,11 +2,13 @@
 
 import { assertEquals } from "@std/assert";
 import { MessageHandler } from "@core/message-handler.ts";
+import { SessionPriority } from "@core/agent-limiter.ts";
 import { ReplyPolicyEvaluator } from "@core/reply-policy.ts";
 import type { SessionOrchestrator, SessionResponse } from "@core/session-orchestrator.ts";
+import type { CancelRequest } from "@core/session-queue.ts";
 import type { NormalizedEvent } from "../../src/types/events.ts";
 import type { PlatformAdapter } from "@platforms/platform-adapter.ts";
-import type { RateLimitConfig } from "../../src/types/config.ts";
+import type { RateLimitConfig, SessionQueueConfig } from "../../src/types/config.ts";
 
 const DEFAULT_RATE_LIMIT: RateLimitConfig = {
   enabled: false,
@@ -15,6 +17,10 @@ const DEFAULT_RATE_LIMIT: RateLimitConfig = {
   cooldownMs: 600000,
 };
 
+const DEFAULT_SESSION_QUEUE: SessionQueueConfig = {
+  debounceMs: 0,
+};
+
 const DEFAULT_REPLY_POLICY = new ReplyPolicyEvaluator({
   replyTo: "all",
   whitelist: [],
@@ -64,7 +70,12 @@ function createTestEvent(messageId: string): NormalizedEvent {
 
 Deno.test("MessageHandler - handles event successfully", async () => {
   const orchestrator = new MockSessionOrchestrator(true, true) as unknown as SessionOrchestrator;
-  const handler = new MessageHandler(orchestrator, DEFAULT_RATE_LIMIT, DEFAULT_REPLY_POLICY);
+  const handler = new MessageHandler(
+    orchestrator,
+    DEFAULT_RATE_LIMIT,
+    DEFAULT_REPLY_POLICY,
+    DEFAULT_SESSION_QUEUE,
+  );
 
   const event = createTestEvent("msg_1");
   const response = await handler.handleEvent(event, mockPlatformAdapter);
@@ -75,7 +86,12 @@ Deno.test("MessageHandler - handles event successfully", async () => {
 
 Deno.test("MessageHandler - handles failed events", async () => {
   const orchestrator = new MockSessionOrchestrator(false, false) as unknown as SessionOrchestrator;
-  const handler = new MessageHandler(orchestrator, DEFAULT_RATE_LIMIT, DEFAULT_REPLY_POLICY);
+  const handler = new MessageHandler(
+    orchestrator,
+    DEFAULT_RATE_LIMIT,
+    DEFAULT_REPLY_POLICY,
+    DEFAULT_SESSION_QUEUE,
+  );
 
   const event = createTestEvent("msg_2");
   const response = await handler.handleEvent(event, mockPlatformAdapter);
@@ -87,7 +103,12 @@ Deno.test("MessageHandler - handles failed events", async () => {
 
 Deno.test("MessageHandler - prevents duplicate event processing", async () => {
   const orchestrator = new MockSessionOrchestrator(true, true) as unknown as SessionOrchestrator;
-  const handler = new MessageHandler(orchestrator, DEFAULT_RATE_LIMIT, DEFAULT_REPLY_POLICY);
+  const handler = new MessageHandler(
+    orchestrator,
+    DEFAULT_RATE_LIMIT,
+    DEFAULT_REPLY_POLICY,
+    DEFAULT_SESSION_QUEUE,
+  );
 
   const event = createTestEvent("msg_3");
 
@@ -111,7 +132,12 @@ Deno.test("MessageHandler - prevents duplicate event processing", async () => {
 
 Deno.test("MessageHandler - tracks processing state", async () => {
   const orchestrator = new MockSessionOrchestrator(true, true) as unknown as SessionOrchestrator;
-  const handler = new MessageHandler(orchestrator, DEFAULT_RATE_LIMIT, DEFAULT_REPLY_POLICY);
+  const handler = new MessageHandler(
+    orchestrator,
+    DEFAULT_RATE_LIMIT,
+    DEFAULT_REPLY_POLICY,
+    DEFAULT_SESSION_QUEUE,
+  );
 
   const event = createTestEvent("msg_4");
 
@@ -135,7 +161,12 @@ Deno.test("MessageHandler - tracks processing state", async () => {
 
 Deno.test("MessageHandler - handles multiple events concurrently", async () => {
   const orchestrator = new MockSessionOrchestrator(true, true) as unknown as SessionOrchestrator;
-  const handler = new MessageHandler(orchestrator, DEFAULT_RATE_LIMIT, DEFAULT_REPLY_POLICY);
+  const handler = new MessageHandler(
+    orchestrator,
+    DEFAULT_RATE_LIMIT,
+    DEFAULT_REPLY_POLICY,
+    DEFAULT_SESSION_QUEUE,
+  );
 
   const event1 = createTestEvent("msg_5");
   const event2 = createTestEvent("msg_6");
@@ -166,7 +197,12 @@ Deno.test("MessageHandler - rate limited event returns error", async () => {
     windowMs: 600000,
     cooldownMs: 600000,
   };
-  const handler = new MessageHandler(orchestrator, rateLimitConfig, DEFAULT_REPLY_POLICY);
+  const handler = new MessageHandler(
+    orchestrator,
+    rateLimitConfig,
+    DEFAULT_REPLY_POLICY,
+    DEFAULT_SESSION_QUEUE,
+  );
 
   const event1 = createTestEvent("msg_rl_1");
   const event2 = createTestEvent("msg_rl_2");
@@ -197,7 +233,12 @@ Deno.test("MessageHandler - rate limited event does not call orchestrator", asyn
     windowMs: 600000,
     cooldownMs: 600000,
   };
-  const handler = new MessageHandler(orchestrator, rateLimitConfig, DEFAULT_REPLY_POLICY);
+  const handler = new MessageHandler(
+    orchestrator,
+    rateLimitConfig,
+    DEFAULT_REPLY_POLICY,
+    DEFAULT_SESSION_QUEUE,
+  );
 
   await handler.handleEvent(createTestEvent("msg_rl_3"), mockPlatformAdapter);
   await handler.handleEvent(createTestEvent("msg_rl_4"), mockPlatformAdapter);
@@ -223,7 +264,12 @@ Deno.test("MessageHandler - duplicate events not counted in rate limit", async (
     windowMs: 600000,
     cooldownMs: 600000,
   };
-  const handler = new MessageHandler(orchestrator, rateLimitConfig, DEFAULT_REPLY_POLICY);
+  const handler = new MessageHandler(
+    orchestrator,
+    rateLimitConfig,
+    DEFAULT_REPLY_POLICY,
+    DEFAULT_SESSION_QUEUE,
+  );
 
   // Send same message ID twice concurrently — duplicate should not count toward rate limit
   const event = createTestEvent("msg_rl_dup");
@@ -254,7 +300,12 @@ Deno.test("MessageHandler - whitelisted account bypasses rate limit", async () =
     replyTo: "whitelist",
     whitelist: ["discord/account/test_user"],
   });
-  const handler = new MessageHandler(orchestrator, rateLimitConfig, replyPolicy);
+  const handler = new MessageHandler(
+    orchestrator,
+    rateLimitConfig,
+    replyPolicy,
+    DEFAULT_SESSION_QUEUE,
+  );
 
   // Send more than maxRequestsPerWindow messages — all should succeed
   const r1 = await handler.handleEvent(createTestEvent("msg_wl_1"), mockPlatformAdapter);
@@ -280,7 +331,12 @@ Deno.test("MessageHandler - whitelisted channel user still rate limited", async
     replyTo: "whitelist",
     whitelist: ["discord/channel/test_channel"],
   });
-  const handler = new MessageHandler(orchestrator, rateLimitConfig, replyPolicy);
+  const handler = new MessageHandler(
+    orchestrator,
+    rateLimitConfig,
+    replyPolicy,
+    DEFAULT_SESSION_QUEUE,
+  );
 
   const r1 = await handler.handleEvent(createTestEvent("msg_ch_1"), mockPlatformAdapter);
   const r2 = await handler.handleEvent(createTestEvent("msg_ch_2"), mockPlatformAdapter);
@@ -304,7 +360,12 @@ Deno.test("MessageHandler - non-whitelisted account rate limited normally", asyn
     replyTo: "whitelist",
     whitelist: ["discord/account/other_user"],
   });
-  const handler = new MessageHandler(orchestrator, rateLimitConfig, replyPolicy);
+  const handler = new MessageHandler(
+    orchestrator,
+    rateLimitConfig,
+    replyPolicy,
+    DEFAULT_SESSION_QUEUE,
+  );
 
   const r1 = await handler.handleEvent(createTestEvent("msg_nwl_1"), mockPlatformAdapter);
   const r2 = await handler.handleEvent(createTestEvent("msg_nwl_2"), mockPlatformAdapter);
@@ -315,3 +376,141 @@ Deno.test("MessageHandler - non-whitelisted account rate limited normally", asyn
 
   handler.dispose();
 });
+
+Deno.test("MessageHandler - whitelisted DMs get the highest agent priority", async () => {
+  const priorities: SessionPriority[] = [];
+  const orchestrator = {
+    processMessage(
+      _event: NormalizedEvent,
+      _platformAdapter: PlatformAdapter,
+      priority: SessionPriority,
+    ): Promise<SessionResponse> {
+      priorities.push(priority);
+      return Promise.resolve({ success: true, replySent: true });
+    },
+  } as unknown as SessionOrchestrator;
+  const replyPolicy = new ReplyPolicyEvaluator({
+    replyTo: "all",
+    whitelist: ["discord/account/test_user"],
+  });
+  const handler = new MessageHandler(
+    orchestrator,
+    DEFAULT_RATE_LIMIT,
+    replyPolicy,
+    DEFAULT_SESSION_QUEUE,
+  );
+
+  const dm = { ...createTestEvent("msg_dm"), isDm: true, channelId: "dm_channel" };
+  await handler.handleEvent(dm, mockPlatformAdapter);
+  await handler.handleEvent(createTestEvent("msg_mention"), mockPlatformAdapter);
+
+  assertEquals(priorities, [SessionPriority.WhitelistedDm, SessionPriority.Message]);
+
+  handler.dispose();
+});
+
+Deno.test("MessageHandler - /stop cancels the sessions of its author", async () => {
+  const requests: CancelRequest[] = [];
+  let processed = 0;
+  const orchestrator = {
+    processMessage(): Promise<SessionResponse> {
+      processed++;
+      return Promise.resolve({ success: true, replySent: true });
+    },
+    cancelSession(request: CancelRequest): boolean {
+      requests.push(request);
+      return true;
+    },
+  } as unknown as SessionOrchestrator;
+  const handler = new MessageHandler(
+    orchestrator,
+    DEFAULT_RATE_LIMIT,
+    DEFAULT_REPLY_POLICY,
+    DEFAULT_SESSION_QUEUE,
+  );
+
+  const response = await handler.handleEvent(
+    { ...createTestEvent("msg_stop"), content: " /stop " },
+    mockPlatformAdapter,
+  );
+
+  assertEquals(response, { success: true, replySent: false, cancelled: true });
+  assertEquals(processed, 0);
+  assertEquals(requests, [{
+    platform: "discord",
+    channelId: "test_channel",
+    userId: "test_user",
+    reason: "command",
+  }]);
+
+  handler.dispose();
+});
+
+Deno.test("MessageHandler - deletions and the cancel reaction stop sessions", () => {
+  const requests: CancelRequest[] = [];
+  const orchestrator = {
+    cancelSession(request: CancelRequest): boolean {
+      requests.push(request);
+      return true;
+    },
+  } as unknown as SessionOrchestrator;
+  const handler = new MessageHandler(
+    orchestrator,
+    DEFAULT_RATE_LIMIT,
+    DEFAULT_REPLY_POLICY,
+    DEFAULT_SESSION_QUEUE,
+    { enabled: true, reaction: "🛑" },
+  );
+  const message = { platform: "discord" as const, channelId: "test_channel", messageId: "msg_1" };
+
+  assertEquals(handler.handleActivity({ type: "deleted", ...message }), true);
+  assertEquals(
+    handler.handleActivity({ type: "reacted", ...message, userId: "test_user", reaction: "👍" }),
+    false,
+  );
+  assertEquals(
+    handler.handleActivity({ type: "reacted", ...message, userId: "test_user", reaction: "🛑" }),
+    true,
+  );
+  assertEquals(requests.map((request) => [request.reason, request.userId]), [
+    ["deleted", undefined],
+    ["reaction", "test_user"],
+  ]);
+
+  handler.dispose();
+});
+
+Deno.test("MessageHandler - disabled cancellation sends /stop to the agent", async () => {
+  let processed = 0;
+  const orchestrator = {
+    processMessage(): Promise<SessionResponse> {
+      processed++;
+      return Promise.resolve({ success: true, replySent: true });
+    },
+    cancelSession: () => true,
+  } as unknown as SessionOrchestrator;
+  const handler = new MessageHandler(
+    orchestrator,
+    DEFAULT_RATE_LIMIT,
+    DEFAULT_REPLY_POLICY,
+    DEFAULT_SESSION_QUEUE,
+    { enabled: false, reaction: "🛑" },
+  );
+
+  await handler.handleEvent(
+    { ...createTestEvent("msg_stop"), content: "/stop" },
+    mockPlatformAdapter,
+  );
+  assertEquals(processed, 1);
+  assertEquals(
+    handler.handleActivity({
+      type: "deleted",
+      platform: "discord",
+      channelId: "test_channel",
+      messageId: "msg_1",
+    }),
+    false,
+  );
+
+  handler.dispose();
+});
@@ -0,0 +1,240 @@
+// tests/core/prompt-template.test.ts
+
+import { assertEquals, assertRejects, assertStringIncludes } from "@std/assert";
+import { dirname } from "@std/path";
+import { createPromptVariables, loadPromptTemplate } from "@core/prompt-template.ts";
+import { ConfigError } from "../../src/types/errors.ts";
+
+async function withPromptDir(
+  files: Record<string, string>,
+  fn: (systemPromptPath: string) => Promise<void>,
+): Promise<void> {
+  const tempDir = await Deno.makeTempDir();
+  try {
+    const promptDir = `${tempDir}/prompts`;
+    await Deno.mkdir(promptDir, { recursive: true });
+    for (const [name, content] of Object.entries(files)) {
+      await Deno.mkdir(dirname(`${promptDir}/${name}`), { recursive: true });
+      await Deno.writeTextFile(`${promptDir}/${name}`, content);
+    }
+    await fn(`${promptDir}/system.md`);
+  } finally {
+    await Deno.remove(tempDir, { recursive: true });
+  }
+}
+
+Deno.test("loadPromptTemplate - should replace single placeholder with fragment file content", async () => {
+  await withPromptDir(
+    {
+      "system.md": "Hello, I am {{character_name}}!",
+      "character_name.md": "Yuna",
+    },
+    async (path) => {
+      const result = (await loadPromptTemplate(path)).render();
+      assertEquals(result, "Hello, I am Yuna!");
+    },
+  );
+});
+
+Deno.test("loadPromptTemplate - should replace multiple different placeholders", async () => {
+  await withPromptDir(
+    {
+      "system.md": "Name: {{char_name}}, Info: {{char_info}}",
+      "char_name.md": "Yuna",
+      "char_info.md": "An AI assistant",
+    },
+    async (path) => {
+      const result = (await loadPromptTemplate(path)).render();
+      assertEquals(result, "Name: Yuna, Info: An AI assistant");
+    },
+  );
+});
+
+Deno.test("loadPromptTemplate - should replace same placeholder appearing multiple times", async () => {
+  await withPromptDir(
+    {
+      "system.md": "I am {{name}}. Call me {{name}}.",
+      "name.md": "Yuna",
+    },
+    async (path) => {
+      const result = (await loadPromptTemplate(path)).render();
+      assertEquals(result, "I am Yuna. Call me Yuna.");
+    },
+  );
+});
+
+Deno.test("loadPromptTemplate - should leave placeholder unchanged when fragment file is missing", async () => {
+  await withPromptDir(
+    {
+      "system.md": "Hello {{missing_fragment}}!",
+    },
+    async (path) => {
+      const result = (await loadPromptTemplate(path)).render();
+      assertStringIncludes(result, "{{missing_fragment}}");
+    },
+  );
+});
+
+Deno.test("loadPromptTemplate - should not use system.md as a fragment source", async () => {
+  await withPromptDir(
+    {
+      "system.md": "Hello {{system}}!",
+    },
+    async (path) => {
+      const result = (await loadPromptTemplate(path)).render();
+      // {{system}} should remain because system.md is excluded
+      assertStringIncludes(result, "{{system}}");
+    },
+  );
+});
+
+Deno.test("loadPromptTemplate - should trim fragment content", async () => {
+  await withPromptDir(
+    {
+      "system.md": "Name: {{char_name}}.",
+      "char_name.md": "  Yuna  \n",
+    },
+    async (path) => {
+      const result = (await loadPromptTemplate(path)).render();
+      assertEquals(result, "Name: Yuna.");
+    },
+  );
+});
+
+Deno.test("loadPromptTemplate - should trim final result", async () => {
+  await withPromptDir(
+    {
+      "system.md": "\n  Hello World  \n",
+    },
+    async (path) => {
+      const result = (await loadPromptTemplate(path)).render();
+      assertEquals(result, "Hello World");
+    },
+  );
+});
+
+Deno.test("loadPromptTemplate - should throw when system prompt file not found", async () => {
+  await assertRejects(
+    () => loadPromptTemplate("/nonexistent/path/system.md"),
+    ConfigError,
+    "System prompt file not found",
+  );
+});
+
+Deno.test("loadPromptTemplate - should handle prompt with no placeholders", async () => {
+  await withPromptDir(
+    {
+      "system.md": "A plain prompt with no placeholders.",
+      "unused.md": "This should not matter.",
+    },
+    async (path) => {
+      const result = (await loadPromptTemplate(path)).render();
+      assertEquals(result, "A plain prompt with no placeholders.");
+    },
+  );
+});
+
+Deno.test("loadPromptTemplate - should render variables", async () => {
+  await withPromptDir(
+    {
+      "system.md": "Talking to {{username}} on {{platform}}{{persona}}.",
+    },
+    async (path) => {
+      const template = await loadPromptTemplate(path);
+      assertEquals(
+        template.render({ username: "Jim", platform: "discord" }),
+        "Talking to Jim on discord.",
+      );
+    },
+  );
+});
+
+Deno.test("loadPromptTemplate - should render conditionals without leaving blank lines", async () => {
+  await withPromptDir(
+    {
+      "system.md": [
+        "Start",
+        "{{#if isDm}}",
+        "Private chat with {{username}}.",
+        "{{else}}",
+        "Group chat.",
+        "{{/if}}",
+        "{{#unless persona}}Default persona.{{/unless}}",
+        "End",
+      ].join("\n"),
+    },
+    async (path) => {
+      const template = await loadPromptTemplate(path);
+      assertEquals(
+        template.render({ isDm: true, username: "Jim" }),
+        "Start\nPrivate chat with Jim.\nDefault persona.\nEnd",
+      );
+      assertEquals(template.render({ isDm: false, persona: "alice" }), "Start\nGroup chat.\n\nEnd");
+    },
+  );
+});
+
+Deno.test("loadPromptTemplate - should render includes with the same variables", async () => {
+  await withPromptDir(
+    {
+      "system.md": "{{> shared/header}}\nBody",
+      "shared/header.md": "  Hi {{username}}, see {{> footer.txt}}  \n",
+      "shared/footer.txt": "{{character_name}}",
+      "character_name.md": "Yuna",
+    },
+    async (path) => {
+      const template = await loadPromptTemplate(path);
+      assertEquals(template.render({ username: "Jim" }), "Hi Jim, see Yuna\nBody");
+    },
+  );
+});
+
+Deno.test("loadPromptTemplate - should reject include cycles", async () => {
+  await withPromptDir(
+    {
+      "system.md": "{{> a}}",
+      "a.md": "A\n{{> b}}",
+      "b.md": "{{a}}",
+    },
+    async (path) => {
+      await assertRejects(
+        () => loadPromptTemplate(path),
+        ConfigError,
+        "b.md:1: Prompt include cycle: system.md -> a.md -> b.md -> a.md",
+      );
+    },
+  );
+});
+
+Deno.test("loadPromptTemplate - should report the file and line of template errors", async () => {
+  const cases: [string, string][] = [
+    ["Hello\n{{#if isDm}}\nDM", "system.md:2: Unclosed {{#if isDm}}"],
+    ["{{#if mood}}{{/if}}", "system.md:1: Unknown variable in {{#if mood}}"],
+    ["{{#each users}}{{/each}}", "system.md:1: Unknown block {{#each users}}"],
+    ["{{#if isDm}}\n{{/unless}}", "system.md:2: {{/unless}} does not close {{#if isDm}} (line 1)"],
+    ["\n\n{{else}}", "system.md:3: Unexpected {{else}}"],
+    ["Hi\n{{> missing}}", "system.md:2: Included prompt file"],
+  ];
+
+  for (const [content, message] of cases) {
+    await withPromptDir({ "system.md": content }, async (path) => {
+      await assertRejects(() => loadPromptTemplate(path), ConfigError, message);
+    });
+  }
+});
+
+Deno.test("createPromptVariables - should format the time in the timezone", () => {
+  const variables = createPromptVariables({
+    timezone: "Asia/Taipei",
+    now: new Date("2026-01-01T20:30:00Z"),
+    platform: "misskey",
+    channelType: "dm",
+  });
+
+  assertEquals(variables.now, "2026-01-02 04:30");
+  assertEquals(variables.date, "2026-01-02");
+  assertEquals(variables.weekday, "Friday");
+  assertEquals(variables.timezone, "Asia/Taipei");
+  assertEquals(variables.isDm, true);
+  assertEquals(variables.username, undefined);
+});
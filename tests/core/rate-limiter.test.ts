@@ -131,3 +131,11 @@ Deno.test("RateLimiter - resetAll clears all state", () => {
   assertEquals(limiter.isAllowed("discord:user1"), true);
   assertEquals(limiter.isAllowed("discord:user2"), true);
 });
+
+Deno.test("RateLimiter - updateConfig applies a changed limit", () => {
+  const limiter = new RateLimiter(createConfig({ maxRequestsPerWindow: 1 }));
+  assertEquals(limiter.isAllowed("discord:user1"), true);
+
+  limiter.updateConfig(createConfig({ maxRequestsPerWindow: 3 }));
+  assertEquals(limiter.isAllowed("discord:user1"), true);
+});
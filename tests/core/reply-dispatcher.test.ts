@@ -2,6 +2,7 @@
 
 import { assertEquals } from "@std/assert";
 import { ReplyDispatcher } from "@core/reply-dispatcher.ts";
+import { AGENT_CAPACITY_ERROR } from "@core/agent-limiter.ts";
 import type { SessionResponse } from "@core/session-orchestrator.ts";
 import type { PlatformAdapter } from "@platforms/platform-adapter.ts";
 import type { PlatformCapabilities, ReplyOptions, ReplyResult } from "../../src/types/platform.ts";
@@ -154,6 +155,23 @@ Deno.test("ReplyDispatcher - skips error dispatch for cancelled errors", async (
   assertEquals(mockAdapter.sentReplies.length, 0);
 });
 
+Deno.test("ReplyDispatcher - skips error dispatch when agent capacity is reached", async () => {
+  const dispatcher = new ReplyDispatcher();
+  const mockAdapter = new MockPlatformAdapter();
+  const adapter = mockAdapter as unknown as PlatformAdapter;
+
+  const response: SessionResponse = {
+    success: false,
+    replySent: false,
+    error: AGENT_CAPACITY_ERROR,
+  };
+
+  const dispatched = await dispatcher.dispatchErrorIfNeeded(adapter, "channel_6", response);
+
+  assertEquals(dispatched, false);
+  assertEquals(mockAdapter.sentReplies.length, 0);
+});
+
 Deno.test("ReplyDispatcher - handles platform send failure gracefully", async () => {
   const dispatcher = new ReplyDispatcher();
   const mockAdapter = new MockPlatformAdapter();
@@ -134,3 +134,86 @@ Deno.test("ReplyPolicy - isWhitelistedAccount returns false for different platfo
   const evaluator = createEvaluator("whitelist", ["discord/account/123"]);
   assertEquals(evaluator.isWhitelistedAccount("misskey", "123"), false);
 });
+
+Deno.test("ReplyPolicy - whitelist mode allows Telegram forum topic channel", () => {
+  const evaluator = createEvaluator("whitelist", ["telegram/channel/-100555:7"]);
+  const event = createEvent({ platform: "telegram", channelId: "-100555:7" });
+  assertEquals(evaluator.shouldReply(event), true);
+});
+
+Deno.test("ReplyPolicy - whitelist accepts Matrix user and room IDs", () => {
+  const evaluator = createEvaluator("whitelist", [
+    "matrix/account/@alice:example.org",
+    "matrix/channel/!room:example.org",
+  ]);
+
+  assertEquals(
+    evaluator.shouldReply(
+      createEvent({ platform: "matrix", userId: "@alice:example.org", channelId: "!other:x" }),
+    ),
+    true,
+  );
+  assertEquals(
+    evaluator.shouldReply(
+      createEvent({
+        platform: "matrix",
+        userId: "@bob:example.org",
+        channelId: "!room:example.org",
+      }),
+    ),
+    true,
+  );
+  assertEquals(
+    evaluator.shouldReply(
+      createEvent({ platform: "matrix", userId: "@bob:example.org", channelId: "!other:x" }),
+    ),
+    false,
+  );
+});
+
+Deno.test("ReplyPolicy - whitelisted channel covers its threads", () => {
+  const evaluator = createEvaluator("whitelist", ["discord/channel/parent_1"]);
+
+  assertEquals(
+    evaluator.shouldReply(createEvent({ channelId: "thread_1", parentChannelId: "parent_1" })),
+    true,
+  );
+  assertEquals(
+    evaluator.shouldReply(createEvent({ channelId: "thread_2", parentChannelId: "parent_2" })),
+    false,
+  );
+});
+
+Deno.test("ReplyPolicy - threads are not covered when includeThreads is false", () => {
+  const evaluator = new ReplyPolicyEvaluator({
+    replyTo: "whitelist",
+    whitelist: ["discord/channel/parent_1"],
+    includeThreads: false,
+  });
+
+  assertEquals(
+    evaluator.shouldReply(createEvent({ channelId: "thread_1", parentChannelId: "parent_1" })),
+    false,
+  );
+  assertEquals(evaluator.shouldReply(createEvent({ channelId: "parent_1" })), true);
+});
+
+Deno.test("ReplyPolicy - update applies a changed whitelist", () => {
+  const evaluator = createEvaluator("whitelist");
+  const event = createEvent({ userId: "user_456" });
+  assertEquals(evaluator.shouldReply(event), false);
+
+  evaluator.update({ replyTo: "whitelist", whitelist: ["discord/account/user_456"] });
+  assertEquals(evaluator.shouldReply(event), true);
+});
+
+Deno.test("ReplyPolicy - isAdmin matches admin accounts only", () => {
+  const evaluator = new ReplyPolicyEvaluator({
+    replyTo: "all",
+    whitelist: ["discord/account/user_456"],
+    admins: ["discord/account/admin_1"],
+  });
+  assertEquals(evaluator.isAdmin("discord", "admin_1"), true);
+  assertEquals(evaluator.isAdmin("misskey", "admin_1"), false);
+  assertEquals(evaluator.isAdmin("discord", "user_456"), false);
+});
@@ -153,3 +153,44 @@ Deno.test("SelfResearchScheduler - lastExecutedAt is set after callback runs", a
 
   scheduler.stop();
 });
+
+Deno.test("SelfResearchScheduler - reschedule() follows the enabled setting", () => {
+  const config = createConfig({ enabled: false });
+  const scheduler = new SelfResearchScheduler(config);
+  scheduler.setCallback(async () => {});
+  scheduler.start();
+
+  config.selfResearch!.enabled = true;
+  scheduler.reschedule();
+  assertEquals(scheduler.getStatus().nextScheduledAt instanceof Date, true);
+
+  config.selfResearch!.enabled = false;
+  scheduler.reschedule();
+  assertEquals(scheduler.getStatus().nextScheduledAt, null);
+
+  scheduler.stop();
+});
+
+Deno.test("SelfResearchScheduler - runNow() starts a session only when enabled and idle", async () => {
+  const config = createConfig({ enabled: true, minIntervalMs: 60_000, maxIntervalMs: 60_000 });
+  const scheduler = new SelfResearchScheduler(config);
+  let callCount = 0;
+  let finish = () => {};
+  scheduler.setCallback(() => {
+    callCount++;
+    return new Promise((resolve) => finish = resolve);
+  });
+
+  assertEquals(scheduler.runNow(), false);
+
+  scheduler.start();
+  assertEquals(scheduler.runNow(), true);
+  assertEquals(scheduler.runNow(), false);
+  assertEquals(callCount, 1);
+
+  finish();
+  await new Promise((resolve) => setTimeout(resolve, 0));
+  assertEquals(scheduler.getStatus().nextScheduledAt instanceof Date, true);
+
+  scheduler.stop();
+});
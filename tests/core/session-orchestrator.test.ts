@@ -1,17 +1,25 @@
 // tests/core/session-orchestrator.test.ts
 
-import { assertEquals, assertExists } from "@std/assert";
-import { SessionOrchestrator } from "@core/session-orchestrator.ts";
+import { assertEquals, assertExists, assertStringIncludes } from "@std/assert";
+import { getPromptTemplatePaths, SessionOrchestrator } from "@core/session-orchestrator.ts";
+import { AGENT_CAPACITY_ERROR, SessionPriority } from "@core/agent-limiter.ts";
 import { WorkspaceManager } from "@core/workspace-manager.ts";
 import { ContextAssembler } from "@core/context-assembler.ts";
 import { MemoryStore } from "@core/memory-store.ts";
 import { SkillRegistry } from "@skills/registry.ts";
 import { SessionRegistry } from "../../src/skill-api/session-registry.ts";
-import type { Config } from "../../src/types/config.ts";
+import type {
+  AgentConcurrencyConfig,
+  AgentPoolConfig,
+  Config,
+  PersonaConfig,
+  RoutingConfig,
+  SessionResumeConfig,
+} from "../../src/types/config.ts";
 import type { NormalizedEvent, PlatformMessage } from "../../src/types/events.ts";
 import type { PlatformAdapter } from "@platforms/platform-adapter.ts";
 import type { PlatformCapabilities, ReplyResult } from "../../src/types/platform.ts";
-import type { AgentConnectorOptions } from "../../src/acp/types.ts";
+import type { AgentConnectorOptions, ClientConfig } from "../../src/acp/types.ts";
 import type { AgentConnector } from "../../src/acp/agent-connector.ts";
 import type { PromptResponse } from "npm:@agentclientprotocol/sdk@^0.14.1";
 
@@ -420,10 +428,35 @@ class MockAgentConnector {
   promptCallCount = 0;
   promptResponses: PromptResponse[] = [];
   modelSet = false;
+  model: string | null = null;
   disconnected = false;
+  clientConfig: ClientConfig;
+  loadSessionSupported = false;
+  loadSessionError: Error | null = null;
+  loadedSessionId: string | null = null;
+  createSessionCount = 0;
+  prompts: string[] = [];
   onPrompt?: (callCount: number) => void;
+  /** Keep prompts running until the session is cancelled */
+  promptUntilCancelled = false;
+  cancelledSessionIds: string[] = [];
+  /** Error thrown by prompts, like the JSON-RPC error of an agent out of quota */
+  promptError: unknown = null;
+  command: string;
+  private endPrompt?: () => void;
+
+  constructor(options: AgentConnectorOptions) {
+    this.clientConfig = options.clientConfig;
+    this.command = options.agentConfig.command;
+  }
+
+  get isConnected(): boolean {
+    return this.connected && !this.disconnected;
+  }
 
-  constructor(_options: AgentConnectorOptions) {}
+  rebind(clientConfig: ClientConfig): void {
+    this.clientConfig = clientConfig;
+  }
 
   async connect(): Promise<void> {
     this.connected = true;
@@ -435,22 +468,46 @@ class MockAgentConnector {
   }
 
   async createSession(): Promise<string> {
+    this.createSessionCount++;
     return await Promise.resolve(this.sessionId);
   }
 
-  async setSessionModel(_sessionId: string, _modelId: string): Promise<void> {
+  supportsLoadSession(): boolean {
+    return this.loadSessionSupported;
+  }
+
+  async loadSession(sessionId: string): Promise<void> {
+    if (this.loadSessionError) throw this.loadSessionError;
+    this.loadedSessionId = sessionId;
+    await Promise.resolve();
+  }
+
+  async setSessionModel(_sessionId: string, modelId: string): Promise<void> {
     this.modelSet = true;
+    this.model = modelId;
     await Promise.resolve();
   }
 
-  async prompt(_sessionId: string, _text: string): Promise<PromptResponse> {
+  async prompt(_sessionId: string, text: string): Promise<PromptResponse> {
+    this.prompts.push(text);
     const response = this.promptResponses[this.promptCallCount] ??
       { stopReason: "end_turn" } as PromptResponse;
     this.promptCallCount++;
     this.onPrompt?.(this.promptCallCount);
+    if (this.promptError) throw this.promptError;
+    if (this.promptUntilCancelled) {
+      await new Promise<void>((resolve) => this.endPrompt = resolve);
+      return { stopReason: "cancelled" } as PromptResponse;
+    }
     return await Promise.resolve(response);
   }
 
+  async cancel(sessionId: string): Promise<void> {
+    this.cancelledSessionIds.push(sessionId);
+    this.endPrompt?.();
+    await Promise.resolve();
+  }
+
   async disconnect(): Promise<void> {
     this.disconnected = true;
     await Promise.resolve();
@@ -462,6 +519,7 @@ class MockAgentConnector {
  */
 class TestableSessionOrchestrator extends SessionOrchestrator {
   mockConnector: MockAgentConnector | null = null;
+  connectorCount = 0;
   private connectorSetup?: (connector: MockAgentConnector) => void;
 
   setConnectorSetup(setup: (connector: MockAgentConnector) => void): void {
@@ -472,6 +530,7 @@ class TestableSessionOrchestrator extends SessionOrchestrator {
     options: AgentConnectorOptions,
   ): AgentConnector {
     this.mockConnector = new MockAgentConnector(options);
+    this.connectorCount++;
     this.connectorSetup?.(this.mockConnector);
     return this.mockConnector as unknown as AgentConnector;
   }
@@ -480,9 +539,25 @@ class TestableSessionOrchestrator extends SessionOrchestrator {
 /**
  * Helper to create a testable orchestrator with all dependencies
  */
-async function createTestableOrchestrator(tempDir: string, options?: { skillApi?: boolean }) {
+async function createTestableOrchestrator(
+  tempDir: string,
+  options?: {
+    skillApi?: boolean;
+    agentConcurrency?: AgentConcurrencyConfig;
+    agentPool?: AgentPoolConfig;
+    sessionResume?: SessionResumeConfig;
+    defaultAgentType?: Config["agent"]["defaultAgentType"];
+    routing?: RoutingConfig;
+    personas?: PersonaConfig[];
+  },
+) {
   const config = createTestConfig(tempDir);
-  config.agent.defaultAgentType = "copilot";
+  config.personas = options?.personas;
+  config.agentConcurrency = options?.agentConcurrency;
+  config.agentPool = options?.agentPool;
+  config.sessionResume = options?.sessionResume;
+  config.routing = options?.routing;
+  config.agent.defaultAgentType = options?.defaultAgentType ?? "copilot";
   // Set GitHub token to avoid config error in createAgentConfig
   config.agent.githubToken = "test-token";
   if (options?.skillApi !== false) {
@@ -716,6 +791,411 @@ Deno.test("SessionOrchestrator - no retry when initial prompt has reply sent", a
   }
 });
 
+Deno.test("SessionOrchestrator - shows typing indicator until the session ends", async () => {
+  const tempDir = await Deno.makeTempDir();
+  try {
+    const { orchestrator, sessionRegistry } = await createTestableOrchestrator(tempDir);
+
+    const event = createTestEvent();
+    const mockAdapter = new MockPlatformAdapter();
+    mockAdapter.capabilities.supportsTypingIndicator = true;
+    const events: string[] = [];
+    const platformAdapter = Object.assign(mockAdapter, {
+      startTypingIndicator: (channelId: string, messageId: string) => {
+        events.push(`start ${channelId} ${messageId}`);
+        return Promise.resolve({
+          stop: () => {
+            events.push("stop");
+            return Promise.resolve();
+          },
+        });
+      },
+    }) as unknown as PlatformAdapter;
+
+    orchestrator.setConnectorSetup((connector) => {
+      connector.promptResponses = [{ stopReason: "cancelled" } as PromptResponse];
+      connector.onPrompt = () => events.push("prompt");
+    });
+
+    await orchestrator.processMessage(event, platformAdapter);
+
+    assertEquals(events, [`start ${event.channelId} ${event.messageId}`, "prompt", "stop"]);
+
+    sessionRegistry.stop();
+  } finally {
+    await Deno.remove(tempDir, { recursive: true });
+  }
+});
+
+Deno.test("SessionOrchestrator - continues when the typing indicator fails", async () => {
+  const tempDir = await Deno.makeTempDir();
+  try {
+    const { orchestrator, sessionRegistry } = await createTestableOrchestrator(tempDir);
+
+    const mockAdapter = new MockPlatformAdapter();
+    mockAdapter.capabilities.supportsTypingIndicator = true;
+    const platformAdapter = Object.assign(mockAdapter, {
+      startTypingIndicator: () => Promise.reject(new Error("Missing permissions")),
+    }) as unknown as PlatformAdapter;
+
+    orchestrator.setConnectorSetup((connector) => {
+      connector.promptResponses = [{ stopReason: "cancelled" } as PromptResponse];
+    });
+
+    await orchestrator.processMessage(createTestEvent(), platformAdapter);
+
+    assertEquals(orchestrator.mockConnector!.promptCallCount, 1);
+
+    sessionRegistry.stop();
+  } finally {
+    await Deno.remove(tempDir, { recursive: true });
+  }
+});
+
+Deno.test("SessionOrchestrator - reacts busy when agent capacity is exhausted", async () => {
+  const tempDir = await Deno.makeTempDir();
+  try {
+    const { orchestrator, sessionRegistry } = await createTestableOrchestrator(tempDir, {
+      agentConcurrency: { maxAgents: 1, maxQueued: 0, busyReaction: "⏳" },
+    });
+    const running = await orchestrator.getAgentLimiter().acquire(SessionPriority.Message, "test");
+
+    const event = createTestEvent();
+    const mockAdapter = new MockPlatformAdapter();
+    mockAdapter.capabilities.supportsReactions = true;
+    const reactions: string[] = [];
+    const platformAdapter = Object.assign(mockAdapter, {
+      addReaction: (_channelId: string, messageId: string, emoji: string) => {
+        reactions.push(`${messageId} ${emoji}`);
+        return Promise.resolve({ success: true });
+      },
+    }) as unknown as PlatformAdapter;
+
+    const response = await orchestrator.processMessage(event, platformAdapter);
+
+    assertEquals(response, {
+      success: false,
+      replySent: false,
+      reactionSent: true,
+      error: AGENT_CAPACITY_ERROR,
+    });
+    assertEquals(reactions, [`${event.messageId} ⏳`]);
+    assertEquals(orchestrator.mockConnector, null);
+
+    running?.release();
+    sessionRegistry.stop();
+  } finally {
+    await Deno.remove(tempDir, { recursive: true });
+  }
+});
+
+Deno.test("SessionOrchestrator - reuses pooled agent processes across workspaces", async () => {
+  const tempDir = await Deno.makeTempDir();
+  try {
+    const { orchestrator, sessionRegistry } = await createTestableOrchestrator(tempDir, {
+      agentPool: {
+        enabled: true,
+        warmProcesses: 0,
+        maxIdleProcesses: 2,
+        maxSessionsPerProcess: 2,
+        idleTimeoutMs: 0,
+        sessionCwd: true,
+      },
+    });
+    const platformAdapter = new MockPlatformAdapter() as unknown as PlatformAdapter;
+
+    await orchestrator.processMessage(createTestEvent(), platformAdapter);
+    const connector = orchestrator.mockConnector!;
+    const firstDir = connector.clientConfig.workingDir;
+    assertEquals(connector.disconnected, false);
+
+    await orchestrator.processMessage(
+      { ...createTestEvent(), userId: "other_user" },
+      platformAdapter,
+    );
+
+    assertEquals(orchestrator.connectorCount, 1);
+    assertEquals(connector.promptCallCount, 4);
+    assertEquals(connector.clientConfig.userId, "other_user");
+    assertEquals(connector.clientConfig.workingDir === firstDir, false);
+    // Recycled after maxSessionsPerProcess sessions
+    assertEquals(connector.disconnected, true);
+    assertEquals(orchestrator.getAgentPool().getIdleCount(), 0);
+
+    sessionRegistry.stop();
+  } finally {
+    await Deno.remove(tempDir, { recursive: true });
+  }
+});
+
+Deno.test("SessionOrchestrator - resumes the channel session with new messages only", async () => {
+  const tempDir = await Deno.makeTempDir();
+  try {
+    const { orchestrator, sessionRegistry } = await createTestableOrchestrator(tempDir);
+    const recentMessages: PlatformMessage[] = [];
+    const platformAdapter = Object.assign(new MockPlatformAdapter(), {
+      fetchRecentMessages: () => Promise.resolve(recentMessages),
+    }) as unknown as PlatformAdapter;
+    orchestrator.setConnectorSetup((connector) => {
+      connector.loadSessionSupported = true;
+      connector.sessionId = `session-${orchestrator.connectorCount}`;
+    });
+
+    await orchestrator.processMessage(createTestEvent(), platformAdapter);
+    assertEquals(orchestrator.mockConnector!.createSessionCount, 1);
+    assertEquals(orchestrator.mockConnector!.prompts[0].includes("helpful assistant"), true);
+
+    recentMessages.push({
+      messageId: "other_msg",
+      userId: "other_user",
+      username: "Other",
+      content: "Did you see that?",
+      timestamp: new Date(Date.now() + 1000),
+      isBot: false,
+    });
+    await orchestrator.processMessage(
+      { ...createTestEvent(), messageId: "test_msg_2", content: "Follow-up" },
+      platformAdapter,
+    );
+
+    const connector = orchestrator.mockConnector!;
+    assertEquals(connector.loadedSessionId, "session-1");
+    assertEquals(connector.createSessionCount, 0);
+    const prompt = connector.prompts[0];
+    assertEquals(prompt.includes("helpful assistant"), false);
+    assertEquals(prompt.includes("[User] Other: Did you see that?"), true);
+    assertEquals(prompt.includes("Follow-up"), true);
+
+    sessionRegistry.stop();
+  } finally {
+    await Deno.remove(tempDir, { recursive: true });
+  }
+});
+
+Deno.test("SessionOrchestrator - starts over when the stored session cannot be loaded", async () => {
+  const tempDir = await Deno.makeTempDir();
+  try {
+    const { orchestrator, sessionRegistry } = await createTestableOrchestrator(tempDir);
+    const platformAdapter = new MockPlatformAdapter() as unknown as PlatformAdapter;
+    orchestrator.setConnectorSetup((connector) => {
+      connector.loadSessionSupported = true;
+      connector.loadSessionError = new Error("Session not found");
+    });
+
+    await orchestrator.processMessage(createTestEvent(), platformAdapter);
+    const response = await orchestrator.processMessage(createTestEvent(), platformAdapter);
+
+    const connector = orchestrator.mockConnector!;
+    assertEquals(response.success, false);
+    assertEquals(connector.loadedSessionId, null);
+    assertEquals(connector.createSessionCount, 1);
+    assertEquals(connector.prompts[0].includes("helpful assistant"), true);
+
+    sessionRegistry.stop();
+  } finally {
+    await Deno.remove(tempDir, { recursive: true });
+  }
+});
+
+Deno.test("SessionOrchestrator - does not resume sessions older than maxAgeMs", async () => {
+  const tempDir = await Deno.makeTempDir();
+  try {
+    const { orchestrator, sessionRegistry } = await createTestableOrchestrator(tempDir, {
+      sessionResume: { enabled: true, maxAgeMs: -1 },
+    });
+    const platformAdapter = new MockPlatformAdapter() as unknown as PlatformAdapter;
+    orchestrator.setConnectorSetup((connector) => {
+      connector.loadSessionSupported = true;
+    });
+
+    await orchestrator.processMessage(createTestEvent(), platformAdapter);
+    await orchestrator.processMessage(createTestEvent(), platformAdapter);
+
+    assertEquals(orchestrator.mockConnector!.loadedSessionId, null);
+    assertEquals(orchestrator.mockConnector!.createSessionCount, 1);
+
+    sessionRegistry.stop();
+  } finally {
+    await Deno.remove(tempDir, { recursive: true });
+  }
+});
+
+Deno.test("SessionOrchestrator - cancelSession stops the running session of the user", async () => {
+  const tempDir = await Deno.makeTempDir();
+  try {
+    const { orchestrator, sessionRegistry } = await createTestableOrchestrator(tempDir);
+    const event = createTestEvent();
+    let prompted!: () => void;
+    const promptStarted = new Promise<void>((resolve) => prompted = resolve);
+    orchestrator.setConnectorSetup((connector) => {
+      connector.promptUntilCancelled = true;
+      connector.onPrompt = () => prompted();
+    });
+
+    const processing = orchestrator.processMessage(
+      event,
+      new MockPlatformAdapter() as unknown as PlatformAdapter,
+    );
+    await promptStarted;
+    assertEquals(sessionRegistry.activeCount, 1);
+
+    const request = { platform: event.platform, channelId: event.channelId } as const;
+    assertEquals(
+      orchestrator.cancelSession({ ...request, userId: "someone_else", reason: "command" }),
+      false,
+    );
+    assertEquals(
+      orchestrator.cancelSession({ ...request, messageId: event.messageId, reason: "deleted" }),
+      true,
+    );
+    // Skill calls of the session are rejected right away
+    assertEquals(sessionRegistry.activeCount, 0);
+
+    const response = await processing;
+    assertEquals(response.cancelled, true);
+    assertEquals(response.success, false);
+    assertEquals(orchestrator.mockConnector?.cancelledSessionIds, ["mock-session-id"]);
+    assertEquals(orchestrator.mockConnector?.promptCallCount, 1);
+
+    // The session is over
+    assertEquals(
+      orchestrator.cancelSession({ ...request, userId: event.userId, reason: "command" }),
+      false,
+    );
+
+    sessionRegistry.stop();
+  } finally {
+    await Deno.remove(tempDir, { recursive: true });
+  }
+});
+
+Deno.test("SessionOrchestrator - runs sessions with the matching routing rule", async () => {
+  const tempDir = await Deno.makeTempDir();
+  try {
+    const { orchestrator, sessionRegistry } = await createTestableOrchestrator(tempDir, {
+      routing: {
+        rules: [
+          { match: { isDm: true }, model: "strong-model" },
+          { match: { channelId: "test_channel" }, agentType: "opencode", model: "cheap-model" },
+        ],
+      },
+    });
+    const platformAdapter = new MockPlatformAdapter() as unknown as PlatformAdapter;
+
+    await orchestrator.processMessage(createTestEvent(), platformAdapter);
+    assertEquals(orchestrator.mockConnector?.command, "opencode");
+    assertEquals(orchestrator.mockConnector?.model, "cheap-model");
+
+    await orchestrator.processMessage(
+      { ...createTestEvent(), channelId: "dm_channel", isDm: true, guildId: "" },
+      platformAdapter,
+    );
+    assertEquals(orchestrator.mockConnector?.command, "copilot");
+    assertEquals(orchestrator.mockConnector?.model, "strong-model");
+
+    sessionRegistry.stop();
+  } finally {
+    await Deno.remove(tempDir, { recursive: true });
+  }
+});
+
+Deno.test("SessionOrchestrator - falls back to the next agent type when an agent is unavailable", async () => {
+  const tempDir = await Deno.makeTempDir();
+  try {
+    const { orchestrator, skillRegistry, workspaceManager, sessionRegistry } =
+      await createTestableOrchestrator(tempDir, { defaultAgentType: ["copilot", "opencode"] });
+    const event = createTestEvent();
+    const connectors: MockAgentConnector[] = [];
+    orchestrator.setConnectorSetup((connector) => {
+      connectors.push(connector);
+      if (connector.command === "copilot") {
+        connector.promptError = { code: -32603, message: "Quota exceeded for this month" };
+        return;
+      }
+      connector.onPrompt = () => {
+        const workspace = workspaceManager.getWorkspaceKeyFromEvent(event);
+        // deno-lint-ignore no-explicit-any
+        (skillRegistry.getReplyHandler() as any).replySentMap.set(
+          `${workspace}:${event.channelId}`,
+          true,
+        );
+      };
+    });
+
+    const response = await orchestrator.processMessage(
+      event,
+      new MockPlatformAdapter() as unknown as PlatformAdapter,
+    );
+
+    assertEquals(response.success, true);
+    assertEquals(response.replySent, true);
+    assertEquals(connectors.map((connector) => connector.command), ["copilot", "opencode"]);
+    // The failed process is not kept
+    assertEquals(connectors[0].disconnected, true);
+
+    sessionRegistry.stop();
+  } finally {
+    await Deno.remove(tempDir, { recursive: true });
+  }
+});
+
+Deno.test("SessionOrchestrator - does not fall back after the agent replied", async () => {
+  const tempDir = await Deno.makeTempDir();
+  try {
+    const { orchestrator, skillRegistry, workspaceManager, sessionRegistry } =
+      await createTestableOrchestrator(tempDir, { defaultAgentType: ["copilot", "opencode"] });
+    const event = createTestEvent();
+    orchestrator.setConnectorSetup((connector) => {
+      connector.promptError = new Error("Rate limit exceeded");
+      connector.onPrompt = () => {
+        const workspace = workspaceManager.getWorkspaceKeyFromEvent(event);
+        // deno-lint-ignore no-explicit-any
+        (skillRegistry.getReplyHandler() as any).replySentMap.set(
+          `${workspace}:${event.channelId}`,
+          true,
+        );
+      };
+    });
+
+    const response = await orchestrator.processMessage(
+      event,
+      new MockPlatformAdapter() as unknown as PlatformAdapter,
+    );
+
+    assertEquals(response.success, false);
+    assertEquals(response.error, "Rate limit exceeded");
+    assertEquals(orchestrator.connectorCount, 1);
+
+    sessionRegistry.stop();
+  } finally {
+    await Deno.remove(tempDir, { recursive: true });
+  }
+});
+
+Deno.test("SessionOrchestrator - does not fall back on session errors", async () => {
+  const tempDir = await Deno.makeTempDir();
+  try {
+    const { orchestrator, sessionRegistry } = await createTestableOrchestrator(tempDir, {
+      defaultAgentType: ["copilot", "opencode"],
+    });
+    orchestrator.setConnectorSetup((connector) => {
+      connector.promptError = new Error("Invalid prompt content");
+    });
+
+    const response = await orchestrator.processMessage(
+      createTestEvent(),
+      new MockPlatformAdapter() as unknown as PlatformAdapter,
+    );
+
+    assertEquals(response.success, false);
+    assertEquals(orchestrator.connectorCount, 1);
+
+    sessionRegistry.stop();
+  } finally {
+    await Deno.remove(tempDir, { recursive: true });
+  }
+});
+
 Deno.test("SessionOrchestrator - no retry when initial stop reason is cancelled", async () => {
   const tempDir = await Deno.makeTempDir();
   try {
@@ -817,6 +1297,91 @@ Deno.test("SessionOrchestrator - processSpontaneousPost sends reply successfully
   }
 });
 
+Deno.test("SessionOrchestrator - processSpontaneousPost falls back to the next agent type", async () => {
+  const tempDir = await Deno.makeTempDir();
+  try {
+    const { orchestrator, skillRegistry, sessionRegistry } = await createTestableOrchestrator(
+      tempDir,
+      { defaultAgentType: ["copilot", "opencode"] },
+    );
+    orchestrator.setConnectorSetup((connector) => {
+      if (connector.command === "copilot") {
+        connector.promptError = { code: -32603, message: "Quota exceeded for this month" };
+        return;
+      }
+      connector.onPrompt = () => {
+        // deno-lint-ignore no-explicit-any
+        (skillRegistry.getReplyHandler() as any).replySentMap.set(
+          "discord/bot_id:test_channel",
+          true,
+        );
+      };
+    });
+
+    const response = await orchestrator.processSpontaneousPost(
+      "discord",
+      "test_channel",
+      new MockPlatformAdapter() as unknown as PlatformAdapter,
+      { botId: "bot_id", fetchRecentMessages: false },
+    );
+
+    assertEquals(response.success, true);
+    assertEquals(response.replySent, true);
+    assertEquals(orchestrator.connectorCount, 2);
+
+    sessionRegistry.stop();
+  } finally {
+    await Deno.remove(tempDir, { recursive: true });
+  }
+});
+
+Deno.test("SessionOrchestrator - processSpontaneousPost posts as the persona of the account", async () => {
+  const tempDir = await Deno.makeTempDir();
+  try {
+    const { orchestrator, skillRegistry, sessionRegistry } = await createTestableOrchestrator(
+      tempDir,
+      {
+        personas: [{
+          name: "alice",
+          systemPromptPath: `${tempDir}/prompts/alice.md`,
+          agentType: "opencode",
+          model: "alice-model",
+          platforms: {},
+        }],
+      },
+    );
+    await Deno.writeTextFile(`${tempDir}/prompts/alice.md`, "You are Alice.");
+    orchestrator.setConnectorSetup((connector) => {
+      connector.onPrompt = () => {
+        // deno-lint-ignore no-explicit-any
+        (skillRegistry.getReplyHandler() as any).replySentMap.set(
+          "alice/discord/bot_id:test_channel",
+          true,
+        );
+      };
+    });
+
+    const response = await orchestrator.processSpontaneousPost(
+      "discord",
+      "test_channel",
+      new MockPlatformAdapter() as unknown as PlatformAdapter,
+      { botId: "bot_id", fetchRecentMessages: false, persona: "alice" },
+    );
+
+    assertEquals(response.success, true);
+    const connector = orchestrator.mockConnector!;
+    assertEquals(connector.command, "opencode");
+    assertEquals(connector.model, "alice-model");
+    assertStringIncludes(connector.prompts[0], "You are Alice.");
+    assertStringIncludes(connector.clientConfig.workingDir, "alice/discord/bot_id");
+    assertStringIncludes(connector.clientConfig.agentWorkspacePath!, "agent-workspaces/alice");
+
+    sessionRegistry.stop();
+  } finally {
+    await Deno.remove(tempDir, { recursive: true });
+  }
+});
+
 Deno.test("SessionOrchestrator - processSpontaneousPost returns error when no reply sent", async () => {
   const tempDir = await Deno.makeTempDir();
   try {
@@ -1150,6 +1715,95 @@ Deno.test("SessionOrchestrator - processSelfResearch creates workspace and runs
   }
 });
 
+Deno.test("SessionOrchestrator - processSelfResearch writes to the agent workspace of a persona", async () => {
+  const tempDir = await Deno.makeTempDir();
+  try {
+    const { orchestrator, sessionRegistry } = await createTestableOrchestrator(tempDir, {
+      personas: [{ name: "alice", agentType: "opencode", platforms: {} }],
+    });
+
+    const response = await orchestrator.processSelfResearch([], {
+      enabled: true,
+      model: "gpt-5-mini",
+      rssFeeds: [{ url: "https://example.com/feed.xml" }],
+      minIntervalMs: 43200000,
+      maxIntervalMs: 86400000,
+    }, "alice");
+
+    assertEquals(response.success, true);
+    const connector = orchestrator.mockConnector!;
+    assertEquals(connector.command, "opencode");
+    assertEquals(connector.model, "gpt-5-mini");
+    assertStringIncludes(connector.clientConfig.workingDir, "alice/discord/self-research");
+    assertStringIncludes(connector.clientConfig.agentWorkspacePath!, "agent-workspaces/alice");
+
+    sessionRegistry.stop();
+  } finally {
+    await Deno.remove(tempDir, { recursive: true });
+  }
+});
+
+Deno.test("SessionOrchestrator - background sessions read the prompt directory of their persona", async () => {
+  const tempDir = await Deno.makeTempDir();
+  try {
+    const personas: PersonaConfig[] = [];
+    for (const name of ["alice", "bob"]) {
+      await Deno.mkdir(`${tempDir}/${name}`);
+      await Deno.writeTextFile(`${tempDir}/${name}/system.md`, `You are ${name}.`);
+      await Deno.writeTextFile(
+        `${tempDir}/${name}/system_self_research.md`,
+        `Research as ${name}\n{rss_items_placeholder}`,
+      );
+      await Deno.writeTextFile(
+        `${tempDir}/${name}/system_memory_maintenance.md`,
+        `Maintain ${name} memories of {workspace_key}`,
+      );
+      personas.push({ name, systemPromptPath: `${tempDir}/${name}/system.md`, platforms: {} });
+    }
+    const { orchestrator, sessionRegistry } = await createTestableOrchestrator(tempDir, {
+      personas,
+    });
+
+    const research = await orchestrator.processSelfResearch([], {
+      enabled: true,
+      model: "gpt-5-mini",
+      rssFeeds: [{ url: "https://example.com/feed.xml" }],
+      minIntervalMs: 43200000,
+      maxIntervalMs: 86400000,
+    }, "alice");
+    assertEquals(research.success, true);
+    assertStringIncludes(orchestrator.mockConnector!.prompts[0], "Research as alice");
+
+    const maintenance = await orchestrator.processMemoryMaintenance("bob/discord/test_user", {
+      enabled: true,
+      model: "gpt-5-mini",
+      minMemoryCount: 50,
+      intervalMs: 604800000,
+    });
+    assertEquals(maintenance.success, true);
+    assertStringIncludes(
+      orchestrator.mockConnector!.prompts[0],
+      "Maintain bob memories of bob/discord/test_user",
+    );
+
+    const paths = getPromptTemplatePaths({
+      agent: { systemPromptPath: "./prompts/system.md" },
+      personas,
+      selfResearch: { enabled: true },
+      memoryMaintenance: { enabled: true },
+    } as unknown as Config);
+    for (const name of ["alice", "bob"]) {
+      assertEquals(paths.includes(`${tempDir}/${name}/system_self_research.md`), true);
+      assertEquals(paths.includes(`${tempDir}/${name}/system_memory_maintenance.md`), true);
+    }
+    assertEquals(paths.includes("prompts/system_self_research.md"), true);
+
+    sessionRegistry.stop();
+  } finally {
+    await Deno.remove(tempDir, { recursive: true });
+  }
+});
+
 Deno.test("SessionOrchestrator - processSelfResearch returns error on cancelled stop reason", async () => {
   const tempDir = await Deno.makeTempDir();
   try {
@@ -1401,6 +2055,45 @@ Deno.test("SessionOrchestrator - processMemoryMaintenance returns success on end
   }
 });
 
+Deno.test("SessionOrchestrator - processMemoryMaintenance falls back to the next agent type", async () => {
+  const tempDir = await Deno.makeTempDir();
+  try {
+    const { orchestrator, sessionRegistry } = await createTestableOrchestrator(tempDir, {
+      defaultAgentType: ["copilot", "opencode"],
+    });
+
+    await Deno.writeTextFile(
+      `${tempDir}/prompts/system_memory_maintenance.md`,
+      "Maintenance for {workspace_key}\nMemories:\n{memories_dump}",
+    );
+
+    const commands: string[] = [];
+    orchestrator.setConnectorSetup((connector) => {
+      commands.push(connector.command);
+      if (connector.command === "copilot") {
+        connector.promptError = { code: -32603, message: "Quota exceeded for this month" };
+      }
+    });
+
+    const response = await orchestrator.processMemoryMaintenance(
+      "discord/test_user",
+      {
+        enabled: true,
+        model: "gpt-5-mini",
+        minMemoryCount: 50,
+        intervalMs: 604800000,
+      },
+    );
+
+    assertEquals(response.success, true);
+    assertEquals(commands, ["copilot", "opencode"]);
+
+    sessionRegistry.stop();
+  } finally {
+    await Deno.remove(tempDir, { recursive: true });
+  }
+});
+
 Deno.test("SessionOrchestrator - processMemoryMaintenance returns failure on cancelled", async () => {
   const tempDir = await Deno.makeTempDir();
   try {
@@ -1468,7 +2161,7 @@ Deno.test("SessionOrchestrator - processMemoryMaintenance rejects unsupported pl
     const { orchestrator, sessionRegistry } = await createTestableOrchestrator(tempDir);
 
     const response = await orchestrator.processMemoryMaintenance(
-      "telegram/user123",
+      "slack/user123",
       {
         enabled: true,
         model: "gpt-5-mini",
@@ -1478,7 +2171,7 @@ Deno.test("SessionOrchestrator - processMemoryMaintenance rejects unsupported pl
     );
 
     assertEquals(response.success, false);
-    assertEquals(response.error, "Invalid workspace key: telegram/user123");
+    assertEquals(response.error, "Invalid workspace key: slack/user123");
 
     sessionRegistry.stop();
   } finally {
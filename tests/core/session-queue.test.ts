@@ -0,0 +1,255 @@
+// tests/core/session-queue.test.ts
+
+import { assertEquals } from "@std/assert";
+import { coalesceEvents, matchesCancelRequest, SessionQueue } from "@core/session-queue.ts";
+import type { SessionResponse } from "@core/session-orchestrator.ts";
+import type { NormalizedEvent } from "../../src/types/events.ts";
+import type { PlatformAdapter } from "@platforms/platform-adapter.ts";
+
+const mockPlatformAdapter = {} as PlatformAdapter;
+
+function createTestEvent(messageId: string, channelId = "test_channel"): NormalizedEvent {
+  return {
+    platform: "discord",
+    channelId,
+    userId: "test_user",
+    messageId,
+    isDm: false,
+    guildId: "test_guild",
+    content: `Message ${messageId}`,
+    timestamp: new Date(),
+  };
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Session runner that records the sessions it runs
+ */
+function createRecordingRunner(durationMs = 0) {
+  const sessions: string[][] = [];
+  let running = 0;
+  let maxRunning = 0;
+
+  const run = async (event: NormalizedEvent): Promise<SessionResponse> => {
+    running++;
+    maxRunning = Math.max(maxRunning, running);
+    sessions.push([
+      ...(event.precedingEvents ?? []).map((e) => e.messageId),
+      event.messageId,
+    ]);
+    await delay(durationMs);
+    running--;
+    return { success: true, replySent: true };
+  };
+
+  return { run, sessions, getMaxRunning: () => maxRunning };
+}
+
+Deno.test("SessionQueue - runs a single message after the debounce window", async () => {
+  const runner = createRecordingRunner();
+  const queue = new SessionQueue({ debounceMs: 20 }, runner.run);
+
+  const pending = queue.enqueue(createTestEvent("m1"), mockPlatformAdapter);
+  assertEquals(queue.getQueueDepth(), 1);
+  assertEquals(runner.sessions, []);
+
+  const response = await pending;
+  assertEquals(response, { success: true, replySent: true });
+  assertEquals(runner.sessions, [["m1"]]);
+  assertEquals(queue.getQueueDepth(), 0);
+});
+
+Deno.test("SessionQueue - coalesces a burst into one session", async () => {
+  const runner = createRecordingRunner();
+  const queue = new SessionQueue({ debounceMs: 30 }, runner.run);
+
+  const first = queue.enqueue(createTestEvent("m1"), mockPlatformAdapter);
+  await delay(10);
+  const second = queue.enqueue(createTestEvent("m2"), mockPlatformAdapter);
+  await delay(10);
+  const third = queue.enqueue(createTestEvent("m3"), mockPlatformAdapter);
+
+  const responses = await Promise.all([first, second, third]);
+
+  assertEquals(runner.sessions, [["m1", "m2", "m3"]]);
+  assertEquals(responses.map((r) => r.coalesced), [true, true, undefined]);
+  assertEquals(responses.every((r) => r.success), true);
+});
+
+Deno.test("SessionQueue - queues messages received during a session into one follow-up", async () => {
+  const runner = createRecordingRunner(50);
+  const queue = new SessionQueue({ debounceMs: 0 }, runner.run);
+
+  const first = queue.enqueue(createTestEvent("m1"), mockPlatformAdapter);
+  await delay(10);
+  const second = queue.enqueue(createTestEvent("m2"), mockPlatformAdapter);
+  const third = queue.enqueue(createTestEvent("m3"), mockPlatformAdapter);
+  assertEquals(queue.getQueueDepth(), 2);
+
+  await Promise.all([first, second, third]);
+
+  assertEquals(runner.sessions, [["m1"], ["m2", "m3"]]);
+  assertEquals(runner.getMaxRunning(), 1);
+});
+
+Deno.test("SessionQueue - runs the messages of different users in separate sessions", async () => {
+  const runner = createRecordingRunner(20);
+  const queue = new SessionQueue({ debounceMs: 20 }, runner.run);
+
+  const responses = await Promise.all([
+    queue.enqueue({ ...createTestEvent("m1"), userId: "alice" }, mockPlatformAdapter),
+    queue.enqueue({ ...createTestEvent("m2"), userId: "bob" }, mockPlatformAdapter),
+    queue.enqueue({ ...createTestEvent("m3"), userId: "alice" }, mockPlatformAdapter),
+  ]);
+
+  assertEquals(runner.sessions, [["m1", "m3"], ["m2"]]);
+  assertEquals(responses.map((r) => r.coalesced), [true, undefined, undefined]);
+  assertEquals(runner.getMaxRunning(), 1);
+});
+
+Deno.test("SessionQueue - starts a session within maxWaitMs of a continuous burst", async () => {
+  const runner = createRecordingRunner();
+  const queue = new SessionQueue({ debounceMs: 60, maxWaitMs: 40 }, runner.run);
+
+  const pending = [];
+  for (let i = 1; i <= 6; i++) {
+    pending.push(queue.enqueue(createTestEvent(`m${i}`), mockPlatformAdapter));
+    await delay(15);
+  }
+  // Without the cap, the first session would start 60ms after the last message
+  assertEquals(runner.sessions.length > 0, true);
+
+  await Promise.all(pending);
+  assertEquals(runner.sessions.flat(), ["m1", "m2", "m3", "m4", "m5", "m6"]);
+});
+
+Deno.test("SessionQueue - runs different channels independently", async () => {
+  const runner = createRecordingRunner(30);
+  const queue = new SessionQueue({ debounceMs: 0 }, runner.run);
+
+  await Promise.all([
+    queue.enqueue(createTestEvent("m1", "channel_a"), mockPlatformAdapter),
+    queue.enqueue(createTestEvent("m2", "channel_b"), mockPlatformAdapter),
+  ]);
+
+  assertEquals(runner.sessions, [["m1"], ["m2"]]);
+  assertEquals(runner.getMaxRunning(), 2);
+});
+
+Deno.test("SessionQueue - turns runner errors into failed responses", async () => {
+  const queue = new SessionQueue(
+    { debounceMs: 0 },
+    () => Promise.reject(new Error("Agent crashed")),
+  );
+
+  const response = await queue.enqueue(createTestEvent("m1"), mockPlatformAdapter);
+
+  assertEquals(response, { success: false, replySent: false, error: "Agent crashed" });
+});
+
+Deno.test("SessionQueue - dispose fails waiting messages", async () => {
+  const runner = createRecordingRunner();
+  const queue = new SessionQueue({ debounceMs: 1000 }, runner.run);
+
+  const pending = queue.enqueue(createTestEvent("m1"), mockPlatformAdapter);
+  queue.dispose();
+
+  assertEquals(await pending, { success: false, replySent: false, error: "Shutting down" });
+  assertEquals(runner.sessions, []);
+  assertEquals(queue.getQueueDepth(), 0);
+});
+
+Deno.test("SessionQueue - cancel drops the waiting messages of a request", async () => {
+  const runner = createRecordingRunner();
+  const queue = new SessionQueue({ debounceMs: 20 }, runner.run);
+
+  const first = queue.enqueue(createTestEvent("m1"), mockPlatformAdapter);
+  const second = queue.enqueue(createTestEvent("m2"), mockPlatformAdapter);
+
+  const dropped = queue.cancel({
+    platform: "discord",
+    channelId: "test_channel",
+    messageId: "m1",
+    reason: "deleted",
+  });
+
+  assertEquals(dropped, 1);
+  assertEquals(await first, {
+    success: false,
+    replySent: false,
+    cancelled: true,
+    error: "Session was cancelled",
+  });
+  assertEquals((await second).success, true);
+  assertEquals(runner.sessions, [["m2"]]);
+});
+
+Deno.test("SessionQueue - cancel of every waiting message skips the session", async () => {
+  const runner = createRecordingRunner();
+  const queue = new SessionQueue({ debounceMs: 20 }, runner.run);
+
+  const pending = queue.enqueue(createTestEvent("m1"), mockPlatformAdapter);
+  const request = {
+    platform: "discord" as const,
+    channelId: "test_channel",
+    userId: "test_user",
+    reason: "command" as const,
+  };
+
+  assertEquals(queue.cancel({ ...request, userId: "someone_else" }), 0);
+  assertEquals(queue.cancel(request), 1);
+  assertEquals((await pending).cancelled, true);
+
+  await delay(40);
+  assertEquals(runner.sessions, []);
+  assertEquals(queue.getQueueDepth(), 0);
+});
+
+Deno.test("matchesCancelRequest - matches coalesced messages and their authors", () => {
+  const event = coalesceEvents([
+    { ...createTestEvent("m1"), userId: "alice" },
+    { ...createTestEvent("m2"), userId: "bob" },
+  ]);
+  const request = { platform: "discord" as const, channelId: "test_channel" };
+
+  assertEquals(
+    matchesCancelRequest(event, { ...request, userId: "alice", reason: "command" }),
+    true,
+  );
+  assertEquals(
+    matchesCancelRequest(event, { ...request, userId: "carol", reason: "command" }),
+    false,
+  );
+  assertEquals(
+    matchesCancelRequest(event, { ...request, messageId: "m1", reason: "deleted" }),
+    true,
+  );
+  assertEquals(
+    matchesCancelRequest(event, { ...request, messageId: "m1", userId: "bob", reason: "reaction" }),
+    false,
+  );
+  assertEquals(
+    matchesCancelRequest(event, {
+      ...request,
+      channelId: "other",
+      userId: "alice",
+      reason: "command",
+    }),
+    false,
+  );
+});
+
+Deno.test("coalesceEvents - keeps the latest message as the trigger", () => {
+  const single = createTestEvent("m1");
+  assertEquals(coalesceEvents([single]), single);
+
+  const merged = coalesceEvents([createTestEvent("m1"), createTestEvent("m2")]);
+  const nested = coalesceEvents([merged, createTestEvent("m3")]);
+
+  assertEquals(nested.messageId, "m3");
+  assertEquals(nested.precedingEvents?.map((e) => e.messageId), ["m1", "m2"]);
+  assertEquals(nested.precedingEvents?.some((e) => e.precedingEvents), false);
+});
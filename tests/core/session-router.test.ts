@@ -0,0 +1,148 @@
+// tests/core/session-router.test.ts
+
+import { assertEquals } from "@std/assert";
+import { createMatchCondition, SessionRouter } from "@core/session-router.ts";
+import type { Config, PersonaConfig, RoutingRule } from "../../src/types/config.ts";
+import type { NormalizedEvent } from "../../src/types/events.ts";
+
+function createEvent(overrides: Partial<NormalizedEvent> = {}): NormalizedEvent {
+  return {
+    platform: "discord",
+    channelId: "channel_123",
+    userId: "user_456",
+    messageId: "msg_789",
+    isDm: false,
+    guildId: "guild_001",
+    content: "Hello",
+    timestamp: new Date(),
+    ...overrides,
+  };
+}
+
+function createRouter(rules: RoutingRule[], personas: PersonaConfig[] = []): SessionRouter {
+  return new SessionRouter({
+    platforms: {},
+    agent: {
+      model: "gpt-5",
+      systemPromptPath: "./prompts/system.md",
+      tokenLimit: 20000,
+      defaultAgentType: ["copilot", "opencode"],
+    },
+    memory: { searchLimit: 10, maxChars: 2000, recentMessageLimit: 20 },
+    workspace: { repoPath: "./data", workspacesDir: "workspaces" },
+    logging: { level: "FATAL" },
+    accessControl: { replyTo: "all", whitelist: [] },
+    routing: { rules },
+    personas,
+  } as unknown as Config);
+}
+
+Deno.test("createMatchCondition - requires every condition that is set", () => {
+  const condition = createMatchCondition({
+    platform: "discord",
+    guildId: ["guild_001", "guild_002"],
+    isDm: false,
+  });
+
+  assertEquals(condition(createEvent()), true);
+  assertEquals(condition(createEvent({ guildId: "guild_002" })), true);
+  assertEquals(condition(createEvent({ guildId: "guild_003" })), false);
+  assertEquals(condition(createEvent({ platform: "misskey" })), false);
+  assertEquals(condition(createEvent({ isDm: true, guildId: undefined })), false);
+
+  // An empty match section matches every message
+  assertEquals(createMatchCondition({})(createEvent({ isDm: true })), true);
+});
+
+Deno.test("createMatchCondition - channels match their threads", () => {
+  const condition = createMatchCondition({ channelId: "channel_123" });
+
+  assertEquals(condition(createEvent()), true);
+  assertEquals(
+    condition(createEvent({ channelId: "thread_1", parentChannelId: "channel_123" })),
+    true,
+  );
+  assertEquals(condition(createEvent({ channelId: "channel_999" })), false);
+});
+
+Deno.test("SessionRouter - uses the config without matching rules", () => {
+  const router = createRouter([{ match: { isDm: true }, model: "gpt-5-mini" }]);
+
+  assertEquals(router.resolve(createEvent()), {
+    rule: null,
+    agentTypes: ["copilot", "opencode"],
+    model: "gpt-5",
+    context: {},
+  });
+});
+
+Deno.test("SessionRouter - applies the first matching rule", () => {
+  const router = createRouter([
+    {
+      name: "maintainer DMs",
+      match: { isDm: true, userId: ["maintainer"] },
+      model: "claude-opus",
+      systemPromptPath: "./prompts/maintainer.md",
+    },
+    {
+      name: "noisy channel",
+      match: { channelId: "channel_123" },
+      agentType: "opencode",
+      model: "gpt-5-mini",
+      tokenLimit: 8000,
+      recentMessageLimit: 5,
+    },
+    { match: {}, model: "unused" },
+  ]);
+
+  assertEquals(router.resolve(createEvent()), {
+    rule: "noisy channel",
+    agentTypes: ["opencode"],
+    model: "gpt-5-mini",
+    context: { tokenLimit: 8000, systemPromptPath: undefined, recentMessageLimit: 5 },
+  });
+
+  const dm = router.resolve(createEvent({ isDm: true, userId: "maintainer", guildId: undefined }));
+  assertEquals(dm.rule, "maintainer DMs");
+  assertEquals(dm.agentTypes, ["copilot", "opencode"]);
+  assertEquals(dm.model, "claude-opus");
+  assertEquals(dm.context.systemPromptPath, "./prompts/maintainer.md");
+
+  // Rules without a name are named after their position
+  const other = router.resolve(createEvent({ channelId: "channel_999" }));
+  assertEquals(other.rule, "rule 3");
+  assertEquals(other.model, "unused");
+});
+
+Deno.test("SessionRouter - applies rules on top of the persona settings", () => {
+  const router = createRouter(
+    [{ name: "DMs", match: { isDm: true }, model: "gpt-5-mini" }],
+    [{
+      name: "alice",
+      systemPromptPath: "./prompts/alice/system.md",
+      agentType: "gemini",
+      model: "gemini-2.5-pro",
+      platforms: {},
+    }],
+  );
+
+  assertEquals(router.resolve(createEvent({ persona: "alice" })), {
+    rule: null,
+    agentTypes: ["gemini"],
+    model: "gemini-2.5-pro",
+    context: {
+      tokenLimit: undefined,
+      systemPromptPath: "./prompts/alice/system.md",
+      recentMessageLimit: undefined,
+    },
+  });
+
+  const dm = router.resolve(createEvent({ persona: "alice", isDm: true, guildId: undefined }));
+  assertEquals(dm.rule, "DMs");
+  assertEquals(dm.agentTypes, ["gemini"]);
+  assertEquals(dm.model, "gpt-5-mini");
+  assertEquals(dm.context.systemPromptPath, "./prompts/alice/system.md");
+
+  // Messages to the default persona keep the agent section
+  assertEquals(router.resolve(createEvent()).model, "gpt-5");
+});
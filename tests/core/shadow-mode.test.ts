@@ -0,0 +1,128 @@
+// tests/core/shadow-mode.test.ts
+
+import { assert, assertEquals } from "@std/assert";
+import { ShadowMode } from "@core/shadow-mode.ts";
+import type { PlatformAdapter } from "@platforms/platform-adapter.ts";
+import { ShadowPlatformAdapter } from "@platforms/shadow-adapter.ts";
+import type { Config, ShadowConfig } from "../../src/types/config.ts";
+import { MockPlatformAdapter } from "../mocks/mock-platform-adapter.ts";
+
+async function withShadowMode(
+  shadow: ShadowConfig,
+  fn: (
+    mode: ShadowMode,
+    context: { adapter: MockPlatformAdapter; config: Config; readLog: () => Promise<unknown[]> },
+  ) => Promise<void>,
+): Promise<void> {
+  const repoPath = await Deno.makeTempDir();
+  try {
+    const config = { workspace: { repoPath }, shadow } as unknown as Config;
+    const adapter = new MockPlatformAdapter();
+    const mode = new ShadowMode(config, new Map<string, PlatformAdapter>([["discord", adapter]]));
+    const readLog = async () =>
+      (await Deno.readTextFile(`${repoPath}/shadow-review.jsonl`))
+        .trim().split("\n").map((line) => JSON.parse(line));
+
+    await fn(mode, { adapter, config, readLog });
+  } finally {
+    await Deno.remove(repoPath, { recursive: true });
+  }
+}
+
+Deno.test("ShadowMode - shadows every channel or the listed channels and their threads", async () => {
+  await withShadowMode({ enabled: true, channels: [] }, async (mode, { config }) => {
+    assertEquals(mode.isShadowed({ platform: "misskey", channelId: "any" }), true);
+
+    config.shadow = { enabled: true, channels: ["discord/channel/general"] };
+    assertEquals(mode.isShadowed({ platform: "discord", channelId: "general" }), true);
+    assertEquals(
+      mode.isShadowed({ platform: "discord", channelId: "thread1", parentChannelId: "general" }),
+      true,
+    );
+    assertEquals(mode.isShadowed({ platform: "discord", channelId: "random" }), false);
+    assertEquals(mode.isShadowed({ platform: "misskey", channelId: "general" }), false);
+
+    // A config reload updates the settings in place
+    config.shadow.enabled = false;
+    assertEquals(mode.isShadowed({ platform: "discord", channelId: "general" }), false);
+    return await Promise.resolve();
+  });
+});
+
+Deno.test("ShadowMode - intercepted outputs go to the review log", async () => {
+  await withShadowMode({ enabled: true, channels: [] }, async (mode, { adapter, readLog }) => {
+    const shadow = mode.wrap(adapter);
+    assert(mode.wrap(adapter) === shadow);
+
+    const reply = await shadow.sendReply("general", "Hello!", { replyToMessageId: "msg1" });
+    assertEquals(reply, { success: true, messageId: "shadow-1" });
+    await shadow.editMessage("general", "shadow-1", "Hello again!");
+    await shadow.addReaction("general", "msg1", "👍");
+
+    assertEquals(adapter.sentReplies, []);
+    const entries = (await readLog()) as Record<string, unknown>[];
+    assertEquals(entries.map(({ ts: _ts, ...entry }) => entry), [
+      {
+        platform: "discord",
+        type: "reply",
+        channelId: "general",
+        messageId: "shadow-1",
+        content: "Hello!",
+        replyToMessageId: "msg1",
+      },
+      {
+        platform: "discord",
+        type: "edit",
+        channelId: "general",
+        messageId: "shadow-1",
+        content: "Hello again!",
+      },
+      {
+        platform: "discord",
+        type: "reaction",
+        channelId: "general",
+        messageId: "msg1",
+        reaction: "👍",
+      },
+    ]);
+  });
+});
+
+Deno.test("ShadowMode - posts intercepted outputs to the review channel", async () => {
+  await withShadowMode(
+    { enabled: true, channels: [], reviewChannel: "discord/channel/review" },
+    async (mode, { adapter }) => {
+      const shadow = mode.wrap(adapter);
+      await shadow.sendReply("general", "Hello!", { replyToMessageId: "msg1" });
+      await shadow.addReaction("general", "msg1", "👍");
+      await shadow.deleteMessage("general", "shadow-1");
+
+      assertEquals(adapter.sentReplies.map((reply) => [reply.channelId, reply.content]), [
+        ["review", "🕶️ Reply in `discord/channel/general` to `msg1`:\nHello!"],
+        ["review", "🕶️ Reaction 👍 to `msg1` in `discord/channel/general`"],
+      ]);
+    },
+  );
+});
+
+Deno.test("ShadowPlatformAdapter - reads through the wrapped adapter", async () => {
+  const adapter = new MockPlatformAdapter();
+  adapter.setMockMessages([{
+    messageId: "msg1",
+    userId: "user1",
+    username: "User-user1",
+    content: "Earlier message",
+    timestamp: new Date(),
+    isBot: false,
+  }]);
+  const shadow = new ShadowPlatformAdapter(adapter, () => Promise.resolve());
+
+  assertEquals(shadow.platform, "discord");
+  assertEquals(shadow.capabilities.supportsTypingIndicator, false);
+  assertEquals(shadow.getBotId(), "bot-123");
+  assertEquals(await shadow.getUsername("user1"), "User-user1");
+  assertEquals((await shadow.fetchRecentMessages("general", 10)).length, 1);
+  assertEquals((await shadow.searchRelatedMessages!("guild", "general", "earlier", 5)).length, 1);
+  assertEquals(shadow.getMaxMessageLength("general"), 2000);
+  assertEquals(shadow.fetchThreadContext, undefined);
+});
@@ -218,3 +218,96 @@ Deno.test("SpontaneousScheduler - lastExecutedAt is set after callback runs", as
 
   scheduler.stop();
 });
+
+Deno.test("SpontaneousScheduler - reschedule() adds and removes platforms", () => {
+  const config = createConfig({
+    discordEnabled: true,
+    discordSpontaneous: true,
+    misskeyEnabled: true,
+    misskeySpontaneous: false,
+  });
+  const scheduler = new SpontaneousScheduler(config);
+  scheduler.setCallback(async () => {});
+  scheduler.start();
+
+  config.platforms.discord.spontaneousPost!.enabled = false;
+  config.platforms.misskey.spontaneousPost!.enabled = true;
+  scheduler.reschedule();
+
+  const status = scheduler.getStatus();
+  assertEquals("discord" in status, false);
+  assertEquals(status.misskey?.nextScheduledAt instanceof Date, true);
+
+  scheduler.stop();
+});
+
+Deno.test("SpontaneousScheduler - runNow() posts only on scheduled idle platforms", async () => {
+  const config = createConfig({
+    discordEnabled: true,
+    discordSpontaneous: true,
+    minIntervalMs: 60_000,
+    maxIntervalMs: 60_000,
+  });
+  const platforms: string[] = [];
+  let finish = () => {};
+  const scheduler = new SpontaneousScheduler(config);
+  scheduler.setCallback((platform) => {
+    platforms.push(platform);
+    return new Promise((resolve) => finish = resolve);
+  });
+  scheduler.start();
+
+  assertEquals(scheduler.runNow("misskey"), false);
+  assertEquals(scheduler.runNow("discord"), true);
+  assertEquals(scheduler.runNow("discord"), false);
+  assertEquals(platforms, ["discord"]);
+
+  finish();
+  await new Promise((resolve) => setTimeout(resolve, 0));
+  assertEquals(scheduler.getStatus().discord.nextScheduledAt instanceof Date, true);
+
+  scheduler.stop();
+});
+
+Deno.test("SpontaneousScheduler - schedules the accounts of each persona", async () => {
+  const config = createConfig({
+    discordEnabled: true,
+    discordSpontaneous: true,
+    minIntervalMs: 60_000,
+    maxIntervalMs: 60_000,
+  });
+  config.personas = [{
+    name: "alice",
+    platforms: {
+      discord: {
+        token: "alice",
+        enabled: true,
+        spontaneousPost: {
+          enabled: true,
+          minIntervalMs: 60_000,
+          maxIntervalMs: 60_000,
+          contextFetchProbability: 0.5,
+        },
+      },
+    },
+  }];
+  const posts: string[] = [];
+  const scheduler = new SpontaneousScheduler(config);
+  scheduler.setCallback((platform, persona) => {
+    posts.push(`${persona ?? "-"}:${platform}`);
+    return Promise.resolve();
+  });
+  scheduler.start();
+
+  assertEquals(Object.keys(scheduler.getStatus()).sort(), ["alice/discord", "discord"]);
+  assertEquals(scheduler.runNow("misskey", "alice"), false);
+  assertEquals(scheduler.runNow("discord", "alice"), true);
+  await new Promise((resolve) => setTimeout(resolve, 0));
+  assertEquals(posts, ["alice:discord"]);
+
+  config.personas = [];
+  scheduler.reschedule();
+  assertEquals(Object.keys(scheduler.getStatus()), ["discord"]);
+
+  scheduler.stop();
+});
@@ -8,6 +8,7 @@ import {
 } from "@core/spontaneous-target.ts";
 import type { Config } from "../../src/types/config.ts";
 import type { PlatformAdapter } from "@platforms/platform-adapter.ts";
+import { ConsoleAdapter } from "@platforms/console/console-adapter.ts";
 
 function createConfig(whitelist: string[]): Config {
   return {
@@ -144,3 +145,59 @@ Deno.test("determineSpontaneousTarget - unsupported platform returns null", asyn
   );
   assertEquals(target, null);
 });
+
+Deno.test("determineSpontaneousTarget - Telegram selects only Telegram whitelist entries", async () => {
+  const config = createConfig(["discord/channel/111", "telegram/channel/-100555:7"]);
+  const adapter = createMockAdapter();
+
+  const target = await determineSpontaneousTarget(
+    "telegram",
+    adapter as PlatformAdapter,
+    config,
+  );
+  assertEquals(target?.channelId, "-100555:7");
+});
+
+Deno.test("determineSpontaneousTarget - Matrix resolves account to DM room", async () => {
+  const config = createConfig(["discord/channel/111", "matrix/account/@alice:example.org"]);
+  const adapter = createMockAdapter();
+
+  const target = await determineSpontaneousTarget(
+    "matrix",
+    adapter as PlatformAdapter,
+    config,
+  );
+  assertEquals(target?.channelId, "dm-channel-123");
+});
+
+Deno.test("determineSpontaneousTarget - Mastodon posts to own timeline", async () => {
+  const config = createConfig([]);
+  const adapter = createMockAdapter();
+
+  const target = await determineSpontaneousTarget(
+    "mastodon",
+    adapter as PlatformAdapter,
+    config,
+  );
+  assertEquals(target?.channelId, "timeline:self");
+});
+
+Deno.test("determineSpontaneousTarget - Console posts to the console channel", async () => {
+  const config = createConfig([]);
+  const adapter = new ConsoleAdapter({ userId: "alice", isDm: true });
+
+  const target = await determineSpontaneousTarget("console", adapter, config);
+  assertEquals(target?.channelId, "dm:alice");
+});
+
+Deno.test("determineSpontaneousTarget - Webhook selects a webhook channel", async () => {
+  const config = createConfig(["discord/channel/111", "webhook/channel/support-42"]);
+  const adapter = createMockAdapter();
+
+  const target = await determineSpontaneousTarget(
+    "webhook",
+    adapter as PlatformAdapter,
+    config,
+  );
+  assertEquals(target?.channelId, "support-42");
+});
@@ -0,0 +1,237 @@
+// tests/core/transcript-store.test.ts
+
+import { assertEquals } from "@std/assert";
+import { TranscriptStore } from "@core/transcript-store.ts";
+import type { PlatformAdapter } from "@platforms/platform-adapter.ts";
+import type { MessageActivity, NormalizedEvent } from "../../src/types/events.ts";
+import type { ActivityHandler, EventHandler } from "../../src/types/platform.ts";
+
+function createEvent(overrides: Partial<NormalizedEvent> = {}): NormalizedEvent {
+  return {
+    platform: "discord",
+    channelId: "channel1",
+    userId: "user1",
+    messageId: "msg1",
+    isDm: false,
+    guildId: "guild1",
+    content: "Hello",
+    timestamp: new Date("2026-01-01T00:00:00Z"),
+    ...overrides,
+  };
+}
+
+/**
+ * Adapter double that emits events to the handlers registered on it
+ */
+function createAdapter(persona?: string) {
+  const eventHandlers: EventHandler[] = [];
+  const activityHandlers: ActivityHandler[] = [];
+  let replyCount = 0;
+
+  const adapter = {
+    platform: "discord",
+    getPersonaName: () => persona,
+    getBotId: () => "bot1",
+    getUsername: (userId: string) => Promise.resolve(`name-${userId}`),
+    onEvent: (handler: EventHandler) => eventHandlers.push(handler),
+    onActivity: (handler: ActivityHandler) => activityHandlers.push(handler),
+    sendReply: () => Promise.resolve({ success: true, messageId: `reply${++replyCount}` }),
+    editMessage: (_channelId: string, messageId: string) =>
+      Promise.resolve({ success: true, messageId }),
+    addReaction: () => Promise.resolve({ success: true }),
+    deleteMessage: () => Promise.resolve({ success: true }),
+  } as unknown as PlatformAdapter;
+
+  return {
+    adapter,
+    emit: async (event: NormalizedEvent) => {
+      for (const handler of eventHandlers) await handler(event);
+    },
+    emitActivity: async (activity: MessageActivity) => {
+      for (const handler of activityHandlers) await handler(activity);
+    },
+  };
+}
+
+async function withStore(fn: (store: TranscriptStore, dir: string) => Promise<void>) {
+  const dir = await Deno.makeTempDir();
+  try {
+    await fn(new TranscriptStore(dir), dir);
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+}
+
+Deno.test("TranscriptStore - records received messages and replies", async () => {
+  await withStore(async (store) => {
+    const { adapter, emit } = createAdapter();
+    store.attach(adapter);
+
+    await emit(createEvent());
+    await adapter.sendReply("channel1", "Hi there", { replyToMessageId: "msg1" });
+
+    const { messages, clearedAt } = await store.readRecent("discord", "channel1", 10);
+    assertEquals(clearedAt, undefined);
+    assertEquals(messages.map((m) => [m.messageId, m.username, m.content, m.isBot]), [
+      ["msg1", "name-user1", "Hello", false],
+      ["reply1", "name-bot1", "Hi there", true],
+    ]);
+    assertEquals((await store.readRecent("discord", "channel2", 10)).messages, []);
+  });
+});
+
+Deno.test("TranscriptStore - returns the latest messages up to the limit", async () => {
+  await withStore(async (store) => {
+    const { adapter, emit } = createAdapter();
+    store.attach(adapter);
+
+    for (let i = 1; i <= 5; i++) {
+      await emit(createEvent({
+        messageId: `msg${i}`,
+        content: `Message ${i}`,
+        timestamp: new Date(Date.UTC(2026, 0, 1, 0, i)),
+      }));
+    }
+
+    const { messages } = await store.readRecent("discord", "channel1", 2);
+    assertEquals(messages.map((m) => m.messageId), ["msg4", "msg5"]);
+  });
+});
+
+Deno.test("TranscriptStore - applies edits and deletions", async () => {
+  await withStore(async (store) => {
+    const { adapter, emit, emitActivity } = createAdapter();
+    store.attach(adapter);
+
+    await emit(createEvent());
+    await emit(createEvent({ messageId: "msg2", content: "Oops" }));
+    await adapter.sendReply("channel1", "Draft");
+    await adapter.editMessage("channel1", "reply1", "Final answer");
+    await adapter.sendReply("channel1", "Surplus part");
+    await adapter.deleteMessage!("channel1", "reply2");
+    await emitActivity({
+      type: "deleted",
+      platform: "discord",
+      channelId: "channel1",
+      messageId: "msg2",
+    });
+
+    const { messages } = await store.readRecent("discord", "channel1", 10);
+    assertEquals(messages.map((m) => [m.messageId, m.content]), [
+      ["msg1", "Hello"],
+      ["reply1", "Final answer"],
+    ]);
+  });
+});
+
+Deno.test("TranscriptStore - follows edits that re-post the message", async () => {
+  await withStore(async (store) => {
+    const { adapter } = createAdapter();
+    adapter.editMessage = () => Promise.resolve({ success: true, messageId: "reposted" });
+    store.attach(adapter);
+
+    await adapter.sendReply("channel1", "Draft");
+    await adapter.editMessage("channel1", "reply1", "Final answer");
+
+    const { messages } = await store.readRecent("discord", "channel1", 10);
+    assertEquals(messages.map((m) => [m.messageId, m.content]), [["reposted", "Final answer"]]);
+  });
+});
+
+Deno.test("TranscriptStore - keeps /clear as a marker", async () => {
+  await withStore(async (store) => {
+    const { adapter, emit, emitActivity } = createAdapter();
+    store.attach(adapter);
+
+    await emit(createEvent());
+    await emit(createEvent({
+      messageId: "clear1",
+      content: "/clear",
+      timestamp: new Date("2026-01-01T00:01:00Z"),
+    }));
+    // Deleting the /clear message does not bring the old messages back
+    await emitActivity({
+      type: "deleted",
+      platform: "discord",
+      channelId: "channel1",
+      messageId: "clear1",
+    });
+    await emit(createEvent({
+      messageId: "msg2",
+      content: "Fresh start",
+      timestamp: new Date("2026-01-01T00:02:00Z"),
+    }));
+
+    const { messages, clearedAt } = await store.readRecent("discord", "channel1", 10);
+    assertEquals(messages.map((m) => m.messageId), ["msg2"]);
+    assertEquals(clearedAt, new Date("2026-01-01T00:01:00Z"));
+  });
+});
+
+Deno.test("TranscriptStore - keeps /clear slash commands as a marker", async () => {
+  await withStore(async (store) => {
+    const { adapter, emit, emitActivity } = createAdapter();
+    store.attach(adapter);
+
+    await emit(createEvent());
+    await emitActivity({
+      type: "cleared",
+      platform: "discord",
+      channelId: "channel1",
+      messageId: "interaction1",
+      userId: "user1",
+    });
+    await emit(createEvent({ messageId: "msg2", content: "Fresh start", timestamp: new Date() }));
+
+    const { messages, clearedAt } = await store.readRecent("discord", "channel1", 10);
+    assertEquals(messages.map((m) => m.messageId), ["msg2"]);
+    assertEquals(clearedAt instanceof Date, true);
+  });
+});
+
+Deno.test("TranscriptStore - does not record private questions and their answers", async () => {
+  await withStore(async (store) => {
+    const { adapter, emit } = createAdapter();
+    store.attach(adapter);
+
+    await emit(createEvent({ messageId: "ask1", content: "Secret question", ephemeral: true }));
+    await adapter.sendReply("channel1", "Secret answer", { replyToMessageId: "ask1" });
+    await adapter.editMessage("channel1", "reply1", "Edited secret answer");
+    await adapter.addReaction("channel1", "ask1", "👍");
+
+    assertEquals((await store.readRecent("discord", "channel1", 10)).messages, []);
+  });
+});
+
+Deno.test("TranscriptStore - keeps a transcript per account and channel", async () => {
+  await withStore(async (store, dir) => {
+    const { adapter, emit } = createAdapter("alice");
+    store.attach(adapter);
+
+    await emit(createEvent({ channelId: "chat:user1" }));
+    await adapter.addReaction("chat:user1", "msg1", "👍");
+
+    const lines = (await Deno.readTextFile(`${dir}/transcripts/alice/discord/chat%3Auser1.jsonl`))
+      .trim().split("\n").map((line) => JSON.parse(line));
+    assertEquals(lines.map((entry) => entry.type), ["message", "reaction"]);
+    assertEquals(lines[1].reaction, "👍");
+    assertEquals((await store.readRecent("alice/discord", "chat:user1", 10)).messages.length, 1);
+    assertEquals((await store.readRecent("discord", "chat:user1", 10)).messages, []);
+  });
+});
+
+Deno.test("TranscriptStore - skips unreadable lines", async () => {
+  await withStore(async (store, dir) => {
+    const { adapter, emit } = createAdapter();
+    store.attach(adapter);
+
+    await emit(createEvent());
+    await Deno.writeTextFile(`${dir}/transcripts/discord/channel1.jsonl`, "{broken\n", {
+      append: true,
+    });
+    await emit(createEvent({ messageId: "msg2" }));
+
+    const { messages } = await store.readRecent("discord", "channel1", 10);
+    assertEquals(messages.map((m) => m.messageId), ["msg1", "msg2"]);
+  });
+});
@@ -57,6 +57,61 @@ Deno.test("WorkspaceManager - should sanitize path components", async () => {
   });
 });
 
+Deno.test("WorkspaceManager - should encode Matrix IDs into distinct path components", async () => {
+  await withTestWorkspace((manager) => {
+    const key = manager.getWorkspaceKeyFromEvent(createTestEvent({
+      platform: "matrix",
+      userId: "@alice:example.org",
+    }));
+    const otherKey = manager.getWorkspaceKeyFromEvent(createTestEvent({
+      platform: "matrix",
+      userId: "@alice_example.org",
+    }));
+
+    assertEquals(key, "matrix/@alice%3Aexample.org");
+    assertEquals(otherKey, "matrix/@alice_example.org");
+    return Promise.resolve();
+  });
+});
+
+Deno.test("WorkspaceManager - parseWorkspaceKey round-trips computed keys", async () => {
+  await withTestWorkspace((manager) => {
+    const key = manager.computeWorkspaceKey({
+      platform: "matrix",
+      userId: "@alice:example.org",
+    });
+
+    assertEquals(manager.parseWorkspaceKey(key), {
+      platform: "matrix",
+      userId: "@alice:example.org",
+    });
+    assertEquals(manager.parseWorkspaceKey("discord/user456"), {
+      platform: "discord",
+      userId: "user456",
+    });
+    assertEquals(manager.parseWorkspaceKey("unknown/user456"), null);
+    assertEquals(manager.parseWorkspaceKey("matrix/%E0%A4%A"), null);
+    return Promise.resolve();
+  });
+});
+
+Deno.test("WorkspaceManager - keeps persona workspaces apart", async () => {
+  await withTestWorkspace(async (manager) => {
+    const alice = await manager.getOrCreateWorkspace(createTestEvent({ persona: "alice" }));
+    const defaultPersona = await manager.getOrCreateWorkspace(createTestEvent());
+
+    assertEquals(alice.key, "alice/discord/user456");
+    assertEquals(alice.components, { platform: "discord", userId: "user456", persona: "alice" });
+    assertEquals(defaultPersona.key, "discord/user456");
+    assertEquals(alice.path === defaultPersona.path, false);
+
+    assertEquals(manager.parseWorkspaceKey(alice.key), alice.components);
+    // Persona names never collide with platforms
+    assertEquals(manager.parseWorkspaceKey("misskey/discord/user456"), null);
+    assertEquals(manager.parseWorkspaceKey("alice/unknown/user456"), null);
+  });
+});
+
 Deno.test("WorkspaceManager - should create workspace directory", async () => {
   await withTestWorkspace(async (manager) => {
     const event = createTestEvent();
@@ -179,6 +234,26 @@ Deno.test("WorkspaceManager - should list workspaces", async () => {
   });
 });
 
+Deno.test("WorkspaceManager - should list workspaces of all personas", async () => {
+  await withTestWorkspace(async (manager) => {
+    await manager.getOrCreateWorkspace(createTestEvent({ userId: "user1" }));
+    await manager.getOrCreateWorkspace(createTestEvent({ userId: "user1", persona: "alice" }));
+    await manager.getOrCreateWorkspace(
+      createTestEvent({ platform: "misskey", userId: "user2", persona: "alice" }),
+    );
+
+    assertEquals((await manager.listWorkspaces()).sort(), [
+      "alice/discord/user1",
+      "alice/misskey/user2",
+      "discord/user1",
+    ]);
+    assertEquals((await manager.listWorkspaces("discord")).sort(), [
+      "alice/discord/user1",
+      "discord/user1",
+    ]);
+  });
+});
+
 // ============ Agent Workspace Tests ============
 
 Deno.test("WorkspaceManager - getOrCreateAgentWorkspace creates directory structure", async () => {
@@ -234,3 +309,16 @@ Deno.test(
     });
   },
 );
+
+Deno.test("WorkspaceManager - each persona has its own agent workspace", async () => {
+  await withTestWorkspace(async (manager, tempDir) => {
+    const defaultPath = await manager.getOrCreateAgentWorkspace();
+    const alicePath = await manager.getOrCreateAgentWorkspace("alice");
+
+    assertEquals(alicePath, `${tempDir}/agent-workspaces/alice`);
+    assertEquals(alicePath.startsWith(`${defaultPath}/`), false);
+
+    const notesStat = await Deno.stat(`${alicePath}/notes`);
+    assertEquals(notesStat.isDirectory, true);
+  });
+});
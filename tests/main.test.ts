@@ -6,6 +6,14 @@ import { HealthCheckServer } from "../src/healthcheck.ts";
 import { configureLogger, createLogger } from "../src/utils/logger.ts";
 import type { AppContext } from "../src/bootstrap.ts";
 import { ConnectionState } from "../src/types/platform.ts";
+import { AgentLimiter, SessionPriority } from "../src/core/agent-limiter.ts";
+
+// Agent core whose orchestrator exposes the given agent limiter
+function createMockAgentCore(
+  limiter = new AgentLimiter({ maxAgents: 4, maxQueued: 20, busyReaction: "" }),
+) {
+  return { getOrchestrator: () => ({ getAgentLimiter: () => limiter }) };
+}
 
 // ShutdownHandler tests
 Deno.test("ShutdownHandler - initial state", () => {
@@ -221,7 +229,7 @@ Deno.test("HealthCheckServer - handles /health endpoint", async () => {
   const server = new HealthCheckServer(8084);
   const mockContext = {
     config: {},
-    agentCore: {},
+    agentCore: createMockAgentCore(),
     platformRegistry: {
       getAllAdapters: () => [],
       getStatus: () =>
@@ -354,7 +362,7 @@ Deno.test("HealthCheckServer - health status reflects platform state", async ()
   const server = new HealthCheckServer(8090);
   const mockContext = {
     config: {},
-    agentCore: {},
+    agentCore: createMockAgentCore(),
     platformRegistry: {
       getAllAdapters: () => [],
       getStatus: () =>
@@ -381,7 +389,7 @@ Deno.test("HealthCheckServer - health status reflects platform state", async ()
     const data = await response.json();
 
     assertEquals(data.status, "degraded");
-    assertEquals(data.checks.length, 2);
+    assertEquals(data.checks.length, 3);
 
     const discordCheck = data.checks.find((c: { name: string }) => c.name === "platform:discord");
     assertEquals(discordCheck.status, "pass");
@@ -398,7 +406,7 @@ Deno.test("HealthCheckServer - health status shows unhealthy for errors", async
   const server = new HealthCheckServer(8091);
   const mockContext = {
     config: {},
-    agentCore: {},
+    agentCore: createMockAgentCore(),
     platformRegistry: {
       getAllAdapters: () => [],
       getStatus: () =>
@@ -431,6 +439,40 @@ Deno.test("HealthCheckServer - health status shows unhealthy for errors", async
   }
 });
 
+Deno.test("HealthCheckServer - health status is degraded when agent capacity is saturated", async () => {
+  const server = new HealthCheckServer(8092);
+  const limiter = new AgentLimiter({ maxAgents: 1, maxQueued: 0, busyReaction: "" });
+  const slot = await limiter.acquire(SessionPriority.Message, "test");
+  const mockContext = {
+    config: {},
+    agentCore: createMockAgentCore(limiter),
+    platformRegistry: {
+      getAllAdapters: () => [],
+      getStatus: () => new Map(),
+      isAllConnected: () => true,
+    },
+  } as unknown as AppContext;
+
+  server.setContext(mockContext);
+  server.start();
+
+  try {
+    const response = await fetch("http://localhost:8092/health");
+    assertEquals(response.status, 200);
+
+    const data = await response.json();
+    assertEquals(data.status, "degraded");
+    assertEquals(data.checks, [{
+      name: "agent-capacity",
+      status: "warn",
+      message: "1/1 agents running, 0/0 queued",
+    }]);
+  } finally {
+    slot?.release();
+    await server.stop();
+  }
+});
+
 // Logger tests
 Deno.test("configureLogger - sets log level from config", () => {
   configureLogger({ level: "DEBUG" });
@@ -0,0 +1,163 @@
+// tests/platforms/console/console-adapter.test.ts
+
+import { assertEquals } from "@std/assert";
+import { ConsoleAdapter } from "@platforms/console/console-adapter.ts";
+import { CONSOLE_BOT_ID } from "@platforms/console/console-config.ts";
+import type { NormalizedEvent } from "../../../src/types/events.ts";
+import { ConnectionState } from "../../../src/types/platform.ts";
+
+/**
+ * Create an adapter fed by a controllable input stream, capturing its output
+ */
+function createConsole(options: { userId?: string; isDm?: boolean; guildId?: string } = {}) {
+  const encoder = new TextEncoder();
+  let controller!: ReadableStreamDefaultController<Uint8Array>;
+  const input = new ReadableStream<Uint8Array>({
+    start(c) {
+      controller = c;
+    },
+  });
+  const output: string[] = [];
+  const adapter = new ConsoleAdapter({
+    ...options,
+    input,
+    output: (text) => output.push(text),
+  });
+  const events: NormalizedEvent[] = [];
+  adapter.onEvent((event) => {
+    events.push(event);
+    return Promise.resolve();
+  });
+
+  return {
+    adapter,
+    output,
+    events,
+    write: (text: string) => controller.enqueue(encoder.encode(text)),
+    close: () => controller.close(),
+  };
+}
+
+async function waitFor(condition: () => boolean, timeoutMs = 2000): Promise<void> {
+  const start = Date.now();
+  while (!condition()) {
+    if (Date.now() - start > timeoutMs) throw new Error("Timed out waiting for condition");
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+}
+
+Deno.test("ConsoleAdapter - should emit guild events for input lines", async () => {
+  const { adapter, events, write } = createConsole();
+  await adapter.connect();
+
+  try {
+    assertEquals(adapter.getConnectionStatus().state, ConnectionState.CONNECTED);
+
+    write("hello there\n  \nsecond ");
+    write("line\r\n");
+    await waitFor(() => events.length === 2);
+
+    assertEquals(events[0].platform, "console");
+    assertEquals(events[0].channelId, "general");
+    assertEquals(events[0].userId, "console-user");
+    assertEquals(events[0].isDm, false);
+    assertEquals(events[0].guildId, "console");
+    assertEquals(events[0].content, "hello there");
+    assertEquals(events[1].content, "second line");
+    assertEquals(events[1].messageId, "2");
+  } finally {
+    await adapter.disconnect();
+  }
+
+  assertEquals(adapter.getConnectionStatus().state, ConnectionState.DISCONNECTED);
+});
+
+Deno.test("ConsoleAdapter - should act as the configured user in a DM", async () => {
+  const { adapter, events, write } = createConsole({ userId: "alice", isDm: true });
+  await adapter.connect();
+
+  try {
+    write("hi\n");
+    await waitFor(() => events.length === 1);
+
+    assertEquals(events[0].channelId, "dm:alice");
+    assertEquals(events[0].userId, "alice");
+    assertEquals(events[0].isDm, true);
+    assertEquals(events[0].guildId, "");
+    assertEquals(await adapter.getDmChannelId("alice"), "dm:alice");
+  } finally {
+    await adapter.disconnect();
+  }
+});
+
+Deno.test("ConsoleAdapter - should emit a trailing line when input closes", async () => {
+  const { adapter, events, write, close } = createConsole();
+  await adapter.connect();
+
+  try {
+    write("no newline");
+    close();
+    await waitFor(() => events.length === 1);
+    assertEquals(events[0].content, "no newline");
+  } finally {
+    await adapter.disconnect();
+  }
+});
+
+Deno.test("ConsoleAdapter - should print replies, edits and reactions", async () => {
+  const { adapter, output } = createConsole();
+  await adapter.connect();
+
+  try {
+    const reply = await adapter.sendReply("general", "Hi!", { replyToMessageId: "1" });
+    assertEquals(reply.success, true);
+    assertEquals(output.at(-1), `[bot #${reply.messageId} -> #1] Hi!`);
+
+    const edited = await adapter.editMessage("general", reply.messageId!, "Hello!");
+    assertEquals(edited.success, true);
+    assertEquals(output.at(-1), `[bot #${reply.messageId} edited] Hello!`);
+
+    const reaction = await adapter.addReaction("general", "1", "👍");
+    assertEquals(reaction.success, true);
+    assertEquals(output.at(-1), "[bot reacted to #1] 👍");
+
+    const missing = await adapter.editMessage("general", "999", "nope");
+    assertEquals(missing.success, false);
+  } finally {
+    await adapter.disconnect();
+  }
+});
+
+Deno.test("ConsoleAdapter - should keep channel history for context", async () => {
+  const { adapter, events, write } = createConsole();
+  await adapter.connect();
+
+  try {
+    write("first\n/clear\n");
+    await waitFor(() => events.length === 2);
+    const reply = await adapter.sendReply("general", "answer");
+    await adapter.editMessage("general", reply.messageId!, "edited answer");
+
+    const messages = await adapter.fetchRecentMessages("general", 10);
+    assertEquals(messages.map((m) => m.content), ["first", "/clear", "edited answer"]);
+    assertEquals(messages[2].isBot, true);
+    assertEquals(messages[2].userId, CONSOLE_BOT_ID);
+    assertEquals(messages[0].isBot, false);
+
+    const limited = await adapter.fetchRecentMessages("general", 1);
+    assertEquals(limited.map((m) => m.content), ["edited answer"]);
+    assertEquals(await adapter.fetchRecentMessages("other", 10), []);
+  } finally {
+    await adapter.disconnect();
+  }
+});
+
+Deno.test("ConsoleAdapter - should identify the bot and the console user", async () => {
+  const adapter = new ConsoleAdapter({ userId: "alice", input: new ReadableStream() });
+
+  assertEquals(adapter.getBotId(), CONSOLE_BOT_ID);
+  assertEquals(adapter.isSelf(CONSOLE_BOT_ID), true);
+  assertEquals(adapter.isSelf("alice"), false);
+  assertEquals(await adapter.getUsername("alice"), "console");
+  assertEquals(await adapter.fetchEmojis(), []);
+});
@@ -3,12 +3,15 @@
 // deno-lint-ignore-file no-explicit-any
 
 import { assertEquals } from "@std/assert";
-import type { Message } from "discord.js";
+import { type Message, MessageFlags } from "discord.js";
 import {
+  buildThreadName,
+  getParentChannelId,
   isBotMentioned,
   normalizeDiscordMessage,
   removeBotMention,
   shouldRespondToMessage,
+  toDiscordFiles,
 } from "@platforms/discord/discord-utils.ts";
 
 // Mock Discord Message for testing
@@ -27,6 +30,7 @@ function createMockMessage(overrides: Record<string, unknown> = {}): any {
     },
     channel: {
       isDMBased: () => false,
+      isThread: () => false,
     },
     mentions: {
       users: new Map(),
@@ -52,7 +56,7 @@ Deno.test("normalizeDiscordMessage - should normalize guild message", () => {
 Deno.test("normalizeDiscordMessage - should normalize DM message", () => {
   const message = createMockMessage({
     guildId: null,
-    channel: { isDMBased: () => true },
+    channel: { isDMBased: () => true, isThread: () => false },
   });
   const event = normalizeDiscordMessage(message as Message, "bot123");
 
@@ -60,6 +64,30 @@ Deno.test("normalizeDiscordMessage - should normalize DM message", () => {
   assertEquals(event.guildId, "");
 });
 
+Deno.test("normalizeDiscordMessage - should set parent channel for thread messages", () => {
+  const message = createMockMessage({
+    channelId: "thread123",
+    channel: { isDMBased: () => false, isThread: () => true, parentId: "ch123" },
+  });
+  const event = normalizeDiscordMessage(message as Message, "bot123");
+
+  assertEquals(event.channelId, "thread123");
+  assertEquals(event.parentChannelId, "ch123");
+  assertEquals(normalizeDiscordMessage(createMockMessage(), "bot123").parentChannelId, undefined);
+});
+
+Deno.test("getParentChannelId - should ignore channels that are not threads", () => {
+  assertEquals(getParentChannelId({ isThread: () => false } as any), undefined);
+  assertEquals(getParentChannelId({ isThread: () => true, parentId: null } as any), undefined);
+  assertEquals(getParentChannelId({ isThread: () => true, parentId: "p1" } as any), "p1");
+});
+
+Deno.test("buildThreadName - should build a single-line name from the trigger message", () => {
+  assertEquals(buildThreadName("<@123> explain\n  monads please"), "explain monads please");
+  assertEquals(buildThreadName("<@!123>"), "Reply");
+  assertEquals(buildThreadName("a".repeat(150)).length, 100);
+});
+
 Deno.test("shouldRespondToMessage - should not respond to bots", () => {
   const message = createMockMessage({
     author: { id: "otherbot", bot: true },
@@ -253,6 +281,8 @@ Deno.test("messageToPltatformMessage - without attachments", () => {
 // ============ DiscordAdapter.editMessage tests ============
 
 import { DiscordAdapter } from "@platforms/discord/discord-adapter.ts";
+import { CLEAR_COMMAND_REPLY } from "@platforms/discord/discord-commands.ts";
+import type { MessageActivity } from "../../../src/types/events.ts";
 
 function createMockDiscordAdapter(): DiscordAdapter {
   const adapter = new DiscordAdapter({ token: "fake-token" });
@@ -351,3 +381,439 @@ Deno.test({
     assertEquals(capturedContent.endsWith("..."), true);
   },
 });
+
+// ============ Thread tests ============
+
+function mockDiscordChannels(adapter: DiscordAdapter, channels: Record<string, any>): void {
+  (adapter as any).client = {
+    channels: {
+      fetch: (id: string) => Promise.resolve(channels[id] ?? null),
+    },
+  };
+}
+
+Deno.test({
+  name: "DiscordAdapter.sendReply - opens a thread for long replies",
+  sanitizeOps: false,
+  sanitizeResources: false,
+  fn: async () => {
+    const adapter = new DiscordAdapter({ token: "fake-token", replyThreadThreshold: 10 });
+    const sent: Array<{ where: string; content: string }> = [];
+    const edited: string[] = [];
+    const thread = {
+      id: "thread1",
+      type: 11,
+      send: (opts: { content: string }) => {
+        sent.push({ where: "thread", content: opts.content });
+        return Promise.resolve({ id: "reply1" });
+      },
+      messages: {
+        fetch: () => Promise.resolve({ edit: (opts: any) => edited.push(opts.content) }),
+      },
+    };
+    let threadName = "";
+    const channel = {
+      id: "ch1",
+      type: 0,
+      send: (opts: { content: string }) => {
+        sent.push({ where: "channel", content: opts.content });
+        return Promise.resolve({ id: "reply2" });
+      },
+      messages: {
+        fetch: () =>
+          Promise.resolve({
+            content: "<@123> tell me a story",
+            thread: null,
+            startThread: (opts: { name: string }) => {
+              threadName = opts.name;
+              return Promise.resolve(thread);
+            },
+          }),
+      },
+    };
+    mockDiscordChannels(adapter, { ch1: channel, thread1: thread });
+
+    const long = await adapter.sendReply("ch1", "Once upon a time...", { replyToMessageId: "m1" });
+    assertEquals(long, { success: true, messageId: "reply1" });
+    assertEquals(threadName, "tell me a story");
+
+    const short = await adapter.sendReply("ch1", "The end.", { replyToMessageId: "m1" });
+    assertEquals(short.messageId, "reply2");
+    assertEquals(sent.map((s) => s.where), ["thread", "channel"]);
+
+    // Edits of the thread reply go to the thread
+    const edit = await adapter.editMessage("ch1", "reply1", "Once upon a time, again");
+    assertEquals(edit.success, true);
+    assertEquals(edited, ["Once upon a time, again"]);
+  },
+});
+
+Deno.test({
+  name: "DiscordAdapter.sendReply - replies in the channel when the thread cannot be opened",
+  sanitizeOps: false,
+  sanitizeResources: false,
+  fn: async () => {
+    const adapter = new DiscordAdapter({ token: "fake-token", replyThreadThreshold: 5 });
+    const channel = {
+      id: "ch1",
+      type: 0,
+      send: () => Promise.resolve({ id: "reply1" }),
+      messages: {
+        fetch: () =>
+          Promise.resolve({
+            content: "hi",
+            thread: null,
+            startThread: () => Promise.reject(new Error("Missing permissions")),
+          }),
+      },
+    };
+    mockDiscordChannels(adapter, { ch1: channel });
+
+    const result = await adapter.sendReply("ch1", "A long answer", { replyToMessageId: "m1" });
+    assertEquals(result, { success: true, messageId: "reply1" });
+  },
+});
+
+Deno.test({
+  name: "DiscordAdapter.sendReply - uploads attachments with the reply",
+  sanitizeOps: false,
+  sanitizeResources: false,
+  fn: async () => {
+    const adapter = new DiscordAdapter({ token: "fake-token" });
+    let sentOptions: any;
+    mockDiscordChannels(adapter, {
+      ch1: {
+        id: "ch1",
+        type: 0,
+        send: (opts: any) => {
+          sentOptions = opts;
+          return Promise.resolve({ id: "reply1" });
+        },
+      },
+    });
+
+    const result = await adapter.sendReply("ch1", "Here is the chart", {
+      replyToMessageId: "m1",
+      attachments: [{ filename: "chart.png", mimeType: "image/png", data: new Uint8Array([1, 2]) }],
+    });
+
+    assertEquals(result, { success: true, messageId: "reply1" });
+    assertEquals(sentOptions.files.map((file: any) => file.name), ["chart.png"]);
+    assertEquals(Array.from(sentOptions.files[0].attachment), [1, 2]);
+  },
+});
+
+Deno.test({
+  name: "DiscordAdapter.sendReply - continues in the thread of the message it replies to",
+  sanitizeOps: false,
+  sanitizeResources: false,
+  fn: async () => {
+    const adapter = new DiscordAdapter({ token: "fake-token" });
+    const sent: Array<{ where: string; reply?: string }> = [];
+    const thread = {
+      id: "thread1",
+      type: 11,
+      send: (opts: any) => {
+        sent.push({ where: "thread", reply: opts.reply?.messageReference });
+        return Promise.resolve({ id: "part2" });
+      },
+    };
+    mockDiscordChannels(adapter, { ch1: { id: "ch1", type: 0, send: () => {} }, thread1: thread });
+    (adapter as any).threadReplies.set("part1", "thread1");
+
+    const result = await adapter.sendReply("ch1", "Second part", { replyToMessageId: "part1" });
+
+    assertEquals(result, { success: true, messageId: "part2" });
+    assertEquals(sent, [{ where: "thread", reply: "part1" }]);
+    assertEquals((adapter as any).threadReplies.get("part2"), "thread1");
+  },
+});
+
+Deno.test({
+  name: "DiscordAdapter.sendReply - follows up privately on interaction answers",
+  sanitizeOps: false,
+  sanitizeResources: false,
+  fn: async () => {
+    const adapter = new DiscordAdapter({ token: "fake-token" });
+    const followUps: any[] = [];
+    const interaction = {
+      id: "interaction1",
+      followUp: (opts: any) => {
+        followUps.push(opts);
+        return Promise.resolve({ id: "part2" });
+      },
+    };
+    (adapter as any).interactionReplies.set("part1", interaction);
+
+    const result = await adapter.sendReply("ch1", "Second part", { replyToMessageId: "part1" });
+
+    assertEquals(result, { success: true, messageId: "part2" });
+    assertEquals(followUps[0].content, "Second part");
+    assertEquals(followUps[0].flags, MessageFlags.Ephemeral);
+  },
+});
+
+Deno.test({
+  name: "DiscordAdapter - reports /clear slash commands as an activity",
+  sanitizeOps: false,
+  sanitizeResources: false,
+  fn: async () => {
+    const adapter = new DiscordAdapter({ token: "fake-token" });
+    const activities: MessageActivity[] = [];
+    adapter.onActivity((activity) => {
+      activities.push(activity);
+      return Promise.resolve();
+    });
+    const replies: string[] = [];
+    const interaction = {
+      id: "interaction1",
+      commandName: "clear",
+      guildId: "guild1",
+      channelId: "ch1",
+      user: { id: "user1" },
+      isChatInputCommand: () => true,
+      deferReply: () => Promise.resolve(),
+      editReply: (content: string) => {
+        replies.push(content);
+        return Promise.resolve();
+      },
+    };
+
+    await (adapter as any).handleInteraction(interaction);
+
+    assertEquals(replies, [CLEAR_COMMAND_REPLY]);
+    assertEquals(activities, [{
+      type: "cleared",
+      platform: "discord",
+      channelId: "ch1",
+      messageId: "interaction1",
+      userId: "user1",
+    }]);
+  },
+});
+
+Deno.test({
+  name: "DiscordAdapter - applies the persona profile only when it changed",
+  sanitizeOps: false,
+  sanitizeResources: false,
+  fn: async () => {
+    const adapter = new DiscordAdapter({ token: "fake-token" });
+    adapter.setPersona({
+      name: "alice",
+      displayName: "Alice",
+      avatarUrl: "https://example.com/alice.png",
+    });
+    const avatars: string[] = [];
+    const me = {
+      nickname: null as string | null,
+      setNickname: (nickname: string) => {
+        me.nickname = nickname;
+        return Promise.resolve();
+      },
+    };
+    const guilds = [{ id: "guild1", members: { me } }];
+    (adapter as any).client = {
+      user: {
+        setAvatar: (url: string) => {
+          avatars.push(url);
+          return Promise.resolve();
+        },
+      },
+      guilds: { cache: { map: (fn: (guild: any) => unknown) => guilds.map(fn) } },
+    };
+
+    // Reconnections fire ready again
+    await (adapter as any).applyPersonaProfile();
+    await (adapter as any).applyPersonaProfile();
+
+    assertEquals(avatars, ["https://example.com/alice.png"]);
+    assertEquals(me.nickname, "Alice");
+  },
+});
+
+Deno.test({
+  name: "DiscordAdapter.deleteMessage - deletes messages and interaction answers",
+  sanitizeOps: false,
+  sanitizeResources: false,
+  fn: async () => {
+    const adapter = new DiscordAdapter({ token: "fake-token" });
+    const deleted: string[] = [];
+    mockDiscordChannels(adapter, {
+      ch1: {
+        id: "ch1",
+        type: 0,
+        messages: {
+          fetch: (id: string) =>
+            id === "missing" ? Promise.reject(new Error("Unknown Message")) : Promise.resolve({
+              delete: () => {
+                deleted.push(id);
+                return Promise.resolve();
+              },
+            }),
+        },
+      },
+    });
+    (adapter as any).interactionReplies.set("answer1", {
+      deleteReply: (id: string) => {
+        deleted.push(`interaction:${id}`);
+        return Promise.resolve();
+      },
+    });
+
+    assertEquals(await adapter.deleteMessage("ch1", "msg1"), { success: true, messageId: "msg1" });
+    assertEquals(await adapter.deleteMessage("ch1", "answer1"), {
+      success: true,
+      messageId: "answer1",
+    });
+    assertEquals(deleted, ["msg1", "interaction:answer1"]);
+
+    const missing = await adapter.deleteMessage("ch1", "missing");
+    assertEquals(missing, { success: false, error: "Failed to delete message: Unknown Message" });
+  },
+});
+
+Deno.test("toDiscordFiles - should convert reply attachments", () => {
+  assertEquals(toDiscordFiles(), []);
+  const [file] = toDiscordFiles([
+    { filename: "notes.txt", mimeType: "text/plain", data: new TextEncoder().encode("hi") },
+  ]);
+  assertEquals(file.name, "notes.txt");
+});
+
+function createHistoryMessage(id: string, content: string, timestamp: number): any {
+  return {
+    id,
+    content,
+    createdAt: new Date(timestamp),
+    author: { id: `author_${id}`, username: "someone", displayName: "Someone", bot: false },
+    attachments: new Map(),
+  };
+}
+
+Deno.test({
+  name: "DiscordAdapter.fetchThreadContext - returns starter message and parent channel",
+  sanitizeOps: false,
+  sanitizeResources: false,
+  fn: async () => {
+    const adapter = new DiscordAdapter({ token: "fake-token" });
+    const starter = createHistoryMessage("start1", "Thread topic", 1000);
+    let requestedLimit = 0;
+    const parent = {
+      id: "ch1",
+      name: "general",
+      type: 0,
+      messages: {
+        fetch: (opts: { limit: number }) => {
+          requestedLimit = opts.limit;
+          return Promise.resolve(
+            new Map([
+              ["p2", createHistoryMessage("p2", "Second", 3000)],
+              ["start1", starter],
+              ["p1", createHistoryMessage("p1", "First", 2000)],
+            ]),
+          );
+        },
+      },
+    };
+    const thread = {
+      id: "thread1",
+      name: "Topic",
+      parentId: "ch1",
+      parent,
+      isThread: () => true,
+      fetchStarterMessage: () => Promise.resolve(starter),
+    };
+    mockDiscordChannels(adapter, {
+      thread1: thread,
+      ch1: { ...parent, isThread: () => false },
+    });
+
+    const context = await adapter.fetchThreadContext("thread1", 5);
+    assertEquals(requestedLimit, 5);
+    assertEquals(context?.name, "Topic");
+    assertEquals(context?.parentChannelId, "ch1");
+    assertEquals(context?.parentChannelName, "general");
+    assertEquals(context?.starterMessage?.content, "Thread topic");
+    assertEquals(context?.parentMessages.map((m) => m.content), ["First", "Second"]);
+
+    assertEquals(await adapter.fetchThreadContext("ch1", 5), null);
+  },
+});
+
+Deno.test({
+  name: "DiscordAdapter.fetchThreadContext - forum posts have no parent messages",
+  sanitizeOps: false,
+  sanitizeResources: false,
+  fn: async () => {
+    const adapter = new DiscordAdapter({ token: "fake-token" });
+    const post = createHistoryMessage("thread1", "My forum post", 1000);
+    mockDiscordChannels(adapter, {
+      thread1: {
+        id: "thread1",
+        name: "Forum post",
+        parentId: "forum1",
+        parent: { id: "forum1", name: "help", type: 15 },
+        isThread: () => true,
+        fetchStarterMessage: () => Promise.resolve(post),
+      },
+    });
+
+    const context = await adapter.fetchThreadContext("thread1", 5);
+    assertEquals(context?.starterMessage?.messageId, "thread1");
+    assertEquals(context?.parentChannelName, "help");
+    assertEquals(context?.parentMessages, []);
+  },
+});
+
+// ============ Typing indicator tests ============
+
+Deno.test({
+  name: "DiscordAdapter.startTypingIndicator - sends typing until stopped",
+  sanitizeOps: false,
+  sanitizeResources: false,
+  fn: async () => {
+    const adapter = new DiscordAdapter({ token: "fake-token" });
+    assertEquals(adapter.capabilities.supportsTypingIndicator, true);
+
+    let typingCount = 0;
+    mockDiscordChannels(adapter, {
+      ch1: {
+        id: "ch1",
+        type: 0,
+        sendTyping: () => {
+          typingCount++;
+          return Promise.resolve();
+        },
+      },
+    });
+
+    const indicator = await adapter.startTypingIndicator("ch1", "m1");
+    assertEquals(typingCount, 1);
+    await indicator.stop();
+    await indicator.stop();
+  },
+});
+
+Deno.test({
+  name: "DiscordAdapter.startTypingIndicator - skips deferred slash commands",
+  sanitizeOps: false,
+  sanitizeResources: false,
+  fn: async () => {
+    const adapter = new DiscordAdapter({ token: "fake-token" });
+    (adapter as any).pendingInteractions.set("int1", {});
+    mockDiscordChannels(adapter, {});
+
+    const indicator = await adapter.startTypingIndicator("ch1", "int1");
+    await indicator.stop();
+  },
+});
+
+Deno.test({
+  name: "DiscordAdapter - typingIndicator option disables the capability",
+  sanitizeOps: false,
+  sanitizeResources: false,
+  fn: () => {
+    const adapter = new DiscordAdapter({ token: "fake-token", typingIndicator: false });
+    assertEquals(adapter.capabilities.supportsTypingIndicator, false);
+  },
+});
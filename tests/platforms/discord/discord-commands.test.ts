@@ -0,0 +1,94 @@
+// tests/platforms/discord/discord-commands.test.ts
+
+// deno-lint-ignore-file no-explicit-any
+
+import { assertEquals } from "@std/assert";
+import {
+  CLEAR_COMMAND_REPLY,
+  DISCORD_SLASH_COMMANDS,
+  getCommandArgs,
+  interactionToEvent,
+  isEphemeralCommand,
+  isSlashCommandName,
+} from "@platforms/discord/discord-commands.ts";
+
+// Mock Discord ChatInputCommandInteraction for testing
+function createMockInteraction(overrides: Record<string, unknown> = {}): any {
+  return {
+    id: "interaction123",
+    channelId: "ch123",
+    guildId: "guild123",
+    createdAt: new Date("2024-01-01T00:00:00.000Z"),
+    commandName: "ask",
+    user: { id: "user123", username: "TestUser" },
+    options: {
+      data: [{ name: "question", type: 3, value: "What's up?" }],
+    },
+    ...overrides,
+  };
+}
+
+Deno.test("DISCORD_SLASH_COMMANDS - should define the command set", () => {
+  assertEquals(
+    DISCORD_SLASH_COMMANDS.map((command) => command.name),
+    ["clear", "forget", "memories", "status", "stop", "ask"],
+  );
+
+  const forget = DISCORD_SLASH_COMMANDS.find((command) => command.name === "forget");
+  assertEquals(forget?.options?.map((option) => [option.name, option.required]), [
+    ["memory_id", true],
+  ]);
+
+  const ask = DISCORD_SLASH_COMMANDS.find((command) => command.name === "ask");
+  assertEquals(ask?.options?.map((option) => [option.name, option.required]), [
+    ["question", true],
+  ]);
+});
+
+Deno.test("isSlashCommandName - should recognize registered commands", () => {
+  assertEquals(isSlashCommandName("memories"), true);
+  assertEquals(isSlashCommandName("dance"), false);
+});
+
+Deno.test("isEphemeralCommand - should keep /clear public", () => {
+  assertEquals(isEphemeralCommand("clear"), false);
+  assertEquals(isEphemeralCommand("ask"), true);
+  assertEquals(isEphemeralCommand("memories"), true);
+  assertEquals(CLEAR_COMMAND_REPLY.startsWith("/clear"), true);
+});
+
+Deno.test("getCommandArgs - should collect option values as strings", () => {
+  const interaction = createMockInteraction({
+    options: {
+      data: [
+        { name: "memory_id", type: 3, value: "mem_abc" },
+        { name: "count", type: 4, value: 3 },
+        { name: "empty", type: 3, value: undefined },
+      ],
+    },
+  });
+
+  assertEquals(getCommandArgs(interaction), { memory_id: "mem_abc", count: "3" });
+});
+
+Deno.test("interactionToEvent - should use the interaction ID as message ID", () => {
+  const interaction = createMockInteraction();
+  const event = interactionToEvent(interaction, "What's up?");
+
+  assertEquals(event.platform, "discord");
+  assertEquals(event.messageId, "interaction123");
+  assertEquals(event.channelId, "ch123");
+  assertEquals(event.userId, "user123");
+  assertEquals(event.guildId, "guild123");
+  assertEquals(event.isDm, false);
+  assertEquals(event.content, "What's up?");
+  assertEquals(event.timestamp.toISOString(), "2024-01-01T00:00:00.000Z");
+  assertEquals(event.raw, interaction);
+});
+
+Deno.test("interactionToEvent - should treat interactions without guild as DMs", () => {
+  const event = interactionToEvent(createMockInteraction({ guildId: null }), "/memories");
+
+  assertEquals(event.isDm, true);
+  assertEquals(event.guildId, "");
+});
@@ -0,0 +1,450 @@
+// tests/platforms/mastodon/mastodon-adapter.test.ts
+
+import { assertEquals, assertRejects } from "@std/assert";
+import { MastodonAdapter } from "@platforms/mastodon/mastodon-adapter.ts";
+import {
+  buildReplyParams,
+  htmlToText,
+  type MastodonStatus,
+  normalizeMastodonStatus,
+  removeBotMention,
+  shouldRespondToStatus,
+  statusToPlatformMessage,
+} from "@platforms/mastodon/mastodon-utils.ts";
+import { PlatformError } from "../../../src/types/errors.ts";
+import type { NormalizedEvent } from "../../../src/types/events.ts";
+import { ConnectionState } from "../../../src/types/platform.ts";
+
+const BOT_ID = "900";
+const BOT_USERNAME = "friend";
+
+function createStatus(overrides: Partial<MastodonStatus> = {}): MastodonStatus {
+  return {
+    id: "1001",
+    created_at: "2024-01-01T00:00:00.000Z",
+    in_reply_to_id: null,
+    visibility: "public",
+    content:
+      '<p><span class="h-card"><a href="https://example.social/@friend" class="u-url mention">@<span>friend</span></a></span> hello &amp; welcome</p>',
+    account: { id: "100", username: "alice", acct: "alice", display_name: "Alice" },
+    mentions: [{ id: BOT_ID, username: BOT_USERNAME, acct: BOT_USERNAME }],
+    media_attachments: [],
+    ...overrides,
+  };
+}
+
+const respondConfig = { allowDm: true, respondToMention: true };
+
+// ============ Utility tests ============
+
+Deno.test("htmlToText - should convert paragraphs, line breaks and entities", () => {
+  assertEquals(
+    htmlToText("<p>one<br>two</p><p>three &lt;3 &#8220;x&#x201D;</p>"),
+    "one\ntwo\n\nthree <3 “x”",
+  );
+});
+
+Deno.test("normalizeMastodonStatus - should normalize public mention", () => {
+  const event = normalizeMastodonStatus(createStatus());
+
+  assertEquals(event.platform, "mastodon");
+  assertEquals(event.channelId, "status:1001");
+  assertEquals(event.userId, "100");
+  assertEquals(event.messageId, "1001");
+  assertEquals(event.isDm, false);
+  assertEquals(event.guildId, "");
+  assertEquals(event.content, "@friend hello & welcome");
+  assertEquals(event.timestamp.toISOString(), "2024-01-01T00:00:00.000Z");
+});
+
+Deno.test("normalizeMastodonStatus - should treat direct visibility as DM", () => {
+  const event = normalizeMastodonStatus(createStatus({ visibility: "direct" }));
+  assertEquals(event.isDm, true);
+  assertEquals(event.channelId, "dm:100");
+});
+
+Deno.test("normalizeMastodonStatus - should convert media attachments", () => {
+  const event = normalizeMastodonStatus(createStatus({
+    media_attachments: [{
+      id: "m1",
+      type: "image",
+      url: "https://files.example.social/media/cat.png",
+      description: "a cat",
+      meta: { original: { width: 64, height: 48 } },
+    }],
+  }));
+
+  assertEquals(event.attachments?.length, 1);
+  assertEquals(event.attachments?.[0].mimeType, "image/png");
+  assertEquals(event.attachments?.[0].filename, "a cat");
+  assertEquals(event.attachments?.[0].isImage, true);
+  assertEquals(event.attachments?.[0].width, 64);
+});
+
+Deno.test("removeBotMention - should remove local and remote mentions", () => {
+  assertEquals(removeBotMention("@friend hello", BOT_USERNAME), "hello");
+  assertEquals(removeBotMention("@friend@example.social hello", BOT_USERNAME), "hello");
+});
+
+Deno.test("shouldRespondToStatus - should not respond to self or bots", () => {
+  assertEquals(
+    shouldRespondToStatus(
+      createStatus({
+        account: { id: BOT_ID, username: BOT_USERNAME, acct: "friend", display_name: "" },
+      }),
+      BOT_ID,
+      respondConfig,
+    ),
+    false,
+  );
+  assertEquals(
+    shouldRespondToStatus(
+      createStatus({
+        account: { id: "200", username: "robot", acct: "robot", display_name: "", bot: true },
+      }),
+      BOT_ID,
+      respondConfig,
+    ),
+    false,
+  );
+});
+
+Deno.test("shouldRespondToStatus - should respect allowDm and mentions", () => {
+  const dm = createStatus({ visibility: "direct" });
+  assertEquals(shouldRespondToStatus(dm, BOT_ID, respondConfig), true);
+  assertEquals(shouldRespondToStatus(dm, BOT_ID, { ...respondConfig, allowDm: false }), false);
+  assertEquals(shouldRespondToStatus(createStatus(), BOT_ID, respondConfig), true);
+  assertEquals(
+    shouldRespondToStatus(createStatus({ mentions: [] }), BOT_ID, respondConfig),
+    false,
+  );
+});
+
+Deno.test("buildReplyParams - should keep visibility and mention participants", () => {
+  const params = buildReplyParams(
+    createStatus({
+      visibility: "unlisted",
+      mentions: [
+        { id: BOT_ID, username: BOT_USERNAME, acct: BOT_USERNAME },
+        { id: "300", username: "bob", acct: "bob@remote.example" },
+      ],
+    }),
+    BOT_ID,
+  );
+
+  assertEquals(params, {
+    in_reply_to_id: "1001",
+    visibility: "unlisted",
+    mentionPrefix: "@alice @bob@remote.example ",
+  });
+});
+
+Deno.test("statusToPlatformMessage - should format username and bot flag", () => {
+  const message = statusToPlatformMessage(createStatus(), BOT_ID);
+  assertEquals(message.username, "@Alice (100)");
+  assertEquals(message.isBot, false);
+});
+
+// ============ Adapter tests against a local fake instance ============
+
+interface FakeInstance {
+  host: string;
+  calls: Array<{ method: string; path: string; body: Record<string, unknown> }>;
+  statuses: Map<string, MastodonStatus>;
+  contextFails: boolean;
+  pushNotification(type: string, status?: MastodonStatus): void;
+  close(): Promise<void>;
+}
+
+function startFakeInstance(options: { failAuth?: boolean } = {}): FakeInstance {
+  const calls: FakeInstance["calls"] = [];
+  const streams = new Set<ReadableStreamDefaultController<Uint8Array>>();
+  const encoder = new TextEncoder();
+  let nextStatusId = 5000;
+  let nextNotificationId = 1;
+
+  const fake: FakeInstance = {
+    host: "",
+    calls,
+    statuses: new Map(),
+    contextFails: false,
+    pushNotification(type, status) {
+      const payload = JSON.stringify({
+        id: String(nextNotificationId++),
+        type,
+        created_at: "2024-01-01T00:00:00.000Z",
+        account: status?.account ?? { id: "100", username: "alice", acct: "alice" },
+        status,
+      });
+      for (const controller of streams) {
+        controller.enqueue(encoder.encode(`event: notification\ndata: ${payload}\n\n`));
+      }
+    },
+    close: () => Promise.resolve(),
+  };
+
+  const server = Deno.serve({ port: 0, hostname: "127.0.0.1", onListen: () => {} }, async (req) => {
+    const url = new URL(req.url);
+    const path = url.pathname;
+    const body = req.method === "GET"
+      ? Object.fromEntries(url.searchParams)
+      : await req.json().catch(() => ({})) as Record<string, unknown>;
+    calls.push({ method: req.method, path, body });
+
+    if (options.failAuth) {
+      return Response.json({ error: "The access token is invalid" }, { status: 401 });
+    }
+
+    if (path === "/api/v1/streaming/user/notification") {
+      let controllerRef: ReadableStreamDefaultController<Uint8Array>;
+      const stream = new ReadableStream<Uint8Array>({
+        start(controller) {
+          controllerRef = controller;
+          streams.add(controller);
+          controller.enqueue(encoder.encode(":)\n\n"));
+        },
+        cancel() {
+          streams.delete(controllerRef);
+        },
+      });
+      return new Response(stream, { headers: { "Content-Type": "text/event-stream" } });
+    }
+
+    if (path === "/api/v1/accounts/verify_credentials") {
+      return Response.json({ id: BOT_ID, username: BOT_USERNAME, acct: BOT_USERNAME });
+    }
+    if (path === "/api/v2/instance") {
+      return Response.json({ configuration: { statuses: { max_characters: 1000 } } });
+    }
+    if (path === "/api/v1/statuses" && req.method === "POST") {
+      const id = String(nextStatusId++);
+      const status = createStatus({
+        id,
+        content: `<p>${body.status}</p>`,
+        visibility: (body.visibility as MastodonStatus["visibility"]) ?? "public",
+        in_reply_to_id: (body.in_reply_to_id as string) ?? null,
+        account: { id: BOT_ID, username: BOT_USERNAME, acct: BOT_USERNAME, display_name: "" },
+        mentions: [],
+      });
+      fake.statuses.set(id, status);
+      return Response.json(status);
+    }
+
+    const contextMatch = path.match(/^\/api\/v1\/statuses\/([^/]+)\/context$/);
+    if (contextMatch) {
+      if (fake.contextFails) {
+        return Response.json({ error: "Record not found" }, { status: 404 });
+      }
+      return Response.json({
+        ancestors: [fake.statuses.get("1000")].filter(Boolean),
+        descendants: [],
+      });
+    }
+
+    const favouriteMatch = path.match(/^\/api\/v1\/statuses\/([^/]+)\/favourite$/);
+    if (favouriteMatch) {
+      return Response.json(fake.statuses.get(favouriteMatch[1]) ?? createStatus());
+    }
+
+    const statusMatch = path.match(/^\/api\/v1\/statuses\/([^/]+)$/);
+    if (statusMatch) {
+      const status = fake.statuses.get(statusMatch[1]);
+      if (!status) return Response.json({ error: "Record not found" }, { status: 404 });
+      if (req.method === "PUT") {
+        const updated = { ...status, content: `<p>${body.status}</p>` };
+        fake.statuses.set(status.id, updated);
+        return Response.json(updated);
+      }
+      return Response.json(status);
+    }
+
+    const accountMatch = path.match(/^\/api\/v1\/accounts\/([^/]+)$/);
+    if (accountMatch) {
+      return Response.json({
+        id: accountMatch[1],
+        username: "alice",
+        acct: "alice@remote.example",
+        display_name: "Alice",
+      });
+    }
+
+    return Response.json({ error: "Not found" }, { status: 404 });
+  });
+
+  fake.host = `127.0.0.1:${server.addr.port}`;
+  fake.close = async () => {
+    for (const controller of streams) {
+      try {
+        controller.close();
+      } catch {
+        // Already closed
+      }
+    }
+    streams.clear();
+    await server.shutdown();
+  };
+  return fake;
+}
+
+function createAdapter(instance: FakeInstance, overrides = {}): MastodonAdapter {
+  return new MastodonAdapter({
+    host: instance.host,
+    token: "test-token",
+    secure: false,
+    reconnect: { enabled: false },
+    ...overrides,
+  });
+}
+
+async function waitFor(predicate: () => boolean, timeoutMs = 2000): Promise<void> {
+  const start = Date.now();
+  while (!predicate()) {
+    if (Date.now() - start > timeoutMs) throw new Error("Timed out waiting for condition");
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+Deno.test("MastodonAdapter - connect fails with PlatformError on bad token", async () => {
+  const instance = startFakeInstance({ failAuth: true });
+  const adapter = createAdapter(instance);
+
+  try {
+    await assertRejects(() => adapter.connect(), PlatformError, "Failed to connect to Mastodon");
+    assertEquals(adapter.getConnectionStatus().state, ConnectionState.ERROR);
+  } finally {
+    await instance.close();
+  }
+});
+
+Deno.test("MastodonAdapter - emits events for streamed mentions only", async () => {
+  const instance = startFakeInstance();
+  const adapter = createAdapter(instance);
+  const events: NormalizedEvent[] = [];
+  adapter.onEvent((event) => {
+    events.push(event);
+    return Promise.resolve();
+  });
+
+  try {
+    await adapter.connect();
+    await waitFor(() => adapter.getConnectionStatus().state === ConnectionState.CONNECTED);
+    assertEquals(adapter.getBotId(), BOT_ID);
+    assertEquals(adapter.capabilities.maxMessageLength, 1000);
+
+    instance.pushNotification("favourite", createStatus({ id: "1" }));
+    instance.pushNotification("mention", createStatus({ id: "2" }));
+    instance.pushNotification("mention", createStatus({ id: "3", visibility: "direct" }));
+
+    await waitFor(() => events.length === 2);
+    assertEquals(events[0].messageId, "2");
+    assertEquals(events[0].content, "hello & welcome");
+    assertEquals(events[1].isDm, true);
+    assertEquals(events[1].channelId, "dm:100");
+  } finally {
+    await adapter.disconnect();
+    await instance.close();
+  }
+
+  assertEquals(adapter.getConnectionStatus().state, ConnectionState.DISCONNECTED);
+});
+
+Deno.test("MastodonAdapter - sendReply matches visibility and mentions the author", async () => {
+  const instance = startFakeInstance();
+  const adapter = createAdapter(instance);
+  instance.statuses.set("1001", createStatus({ visibility: "direct" }));
+
+  try {
+    await adapter.connect();
+    const result = await adapter.sendReply("dm:100", "Hi!", { replyToMessageId: "1001" });
+
+    assertEquals(result.success, true);
+    const call = instance.calls.find((c) => c.method === "POST" && c.path === "/api/v1/statuses")!;
+    assertEquals(call.body, { in_reply_to_id: "1001", visibility: "direct", status: "@alice Hi!" });
+  } finally {
+    await adapter.disconnect();
+    await instance.close();
+  }
+});
+
+Deno.test("MastodonAdapter - sendReply posts spontaneous toots to own timeline", async () => {
+  const instance = startFakeInstance();
+  const adapter = createAdapter(instance);
+
+  try {
+    await adapter.connect();
+    const result = await adapter.sendReply("timeline:self", "Good morning");
+
+    assertEquals(result.success, true);
+    const call = instance.calls.find((c) => c.method === "POST" && c.path === "/api/v1/statuses")!;
+    assertEquals(call.body, { visibility: "public", status: "Good morning" });
+  } finally {
+    await adapter.disconnect();
+    await instance.close();
+  }
+});
+
+Deno.test("MastodonAdapter - editMessage and addReaction call the REST API", async () => {
+  const instance = startFakeInstance();
+  const adapter = createAdapter(instance);
+  instance.statuses.set("1001", createStatus());
+
+  try {
+    await adapter.connect();
+    const sent = await adapter.sendReply("status:1001", "Draft", { replyToMessageId: "1001" });
+    const edit = await adapter.editMessage("status:1001", sent.messageId!, "Final");
+    const reaction = await adapter.addReaction("status:1001", "1001", "👍");
+
+    assertEquals(edit, { success: true, messageId: sent.messageId });
+    assertEquals(reaction.success, true);
+    assertEquals(
+      instance.calls.some((c) =>
+        c.method === "PUT" && c.path === `/api/v1/statuses/${sent.messageId}`
+      ),
+      true,
+    );
+    assertEquals(instance.calls.some((c) => c.path === "/api/v1/statuses/1001/favourite"), true);
+  } finally {
+    await adapter.disconnect();
+    await instance.close();
+  }
+});
+
+Deno.test("MastodonAdapter - fetchRecentMessages assembles thread with context", async () => {
+  const instance = startFakeInstance();
+  const adapter = createAdapter(instance);
+  instance.statuses.set(
+    "1000",
+    createStatus({ id: "1000", created_at: "2023-12-31T23:00:00.000Z" }),
+  );
+  instance.statuses.set("1001", createStatus({ in_reply_to_id: "1000" }));
+
+  try {
+    await adapter.connect();
+    const messages = await adapter.fetchRecentMessages("status:1001", 10);
+    assertEquals(messages.map((m) => m.messageId), ["1000", "1001"]);
+  } finally {
+    await adapter.disconnect();
+    await instance.close();
+  }
+});
+
+Deno.test("MastodonAdapter - fetchRecentMessages walks in_reply_to_id when context fails", async () => {
+  const instance = startFakeInstance();
+  const adapter = createAdapter(instance);
+  instance.contextFails = true;
+  instance.statuses.set("999", createStatus({ id: "999", created_at: "2023-12-31T22:00:00.000Z" }));
+  instance.statuses.set(
+    "1000",
+    createStatus({ id: "1000", in_reply_to_id: "999", created_at: "2023-12-31T23:00:00.000Z" }),
+  );
+  instance.statuses.set("1001", createStatus({ in_reply_to_id: "1000" }));
+
+  try {
+    await adapter.connect();
+    const messages = await adapter.fetchRecentMessages("status:1001", 10);
+    assertEquals(messages.map((m) => m.messageId), ["999", "1000", "1001"]);
+  } finally {
+    await adapter.disconnect();
+    await instance.close();
+  }
+});
@@ -0,0 +1,494 @@
+// tests/platforms/matrix/matrix-adapter.test.ts
+
+import { assertEquals, assertRejects } from "@std/assert";
+import { MatrixAdapter } from "@platforms/matrix/matrix-adapter.ts";
+import {
+  eventToPlatformMessage,
+  getDirectRoomIds,
+  getMessageBody,
+  isMentionToBot,
+  type MatrixEvent,
+  mxcToHttp,
+  normalizeMatrixEvent,
+  removeBotMention,
+  shouldRespondToEvent,
+  stripReplyFallback,
+} from "@platforms/matrix/matrix-utils.ts";
+import { PlatformError } from "../../../src/types/errors.ts";
+import type { NormalizedEvent } from "../../../src/types/events.ts";
+import { ConnectionState } from "../../../src/types/platform.ts";
+
+const BOT_USER_ID = "@friend:example.org";
+const ROOM_ID = "!group:example.org";
+const DM_ROOM_ID = "!dm:example.org";
+const HOMESERVER = "https://matrix.example.org";
+
+function createEvent(overrides: Partial<MatrixEvent> = {}): MatrixEvent {
+  return {
+    event_id: "$event1",
+    type: "m.room.message",
+    sender: "@alice:example.org",
+    origin_server_ts: 1704067200000,
+    content: {
+      msgtype: "m.text",
+      body: "Friend: hello",
+      "m.mentions": { user_ids: [BOT_USER_ID] },
+    },
+    ...overrides,
+  };
+}
+
+const respondConfig = { allowDm: true, respondToMention: true };
+
+// ============ Utility tests ============
+
+Deno.test("normalizeMatrixEvent - should normalize room message", () => {
+  const event = normalizeMatrixEvent(createEvent(), ROOM_ID, false, HOMESERVER);
+
+  assertEquals(event.platform, "matrix");
+  assertEquals(event.channelId, ROOM_ID);
+  assertEquals(event.userId, "@alice:example.org");
+  assertEquals(event.messageId, "$event1");
+  assertEquals(event.isDm, false);
+  assertEquals(event.guildId, "");
+  assertEquals(event.timestamp.toISOString(), "2024-01-01T00:00:00.000Z");
+});
+
+Deno.test("normalizeMatrixEvent - should convert media events to attachments", () => {
+  const event = normalizeMatrixEvent(
+    createEvent({
+      content: {
+        msgtype: "m.image",
+        body: "cat.png",
+        url: "mxc://example.org/abc123",
+        info: { mimetype: "image/png", size: 1024, w: 64, h: 48 },
+      },
+    }),
+    DM_ROOM_ID,
+    true,
+    HOMESERVER,
+  );
+
+  assertEquals(event.content, "");
+  assertEquals(event.attachments?.length, 1);
+  assertEquals(
+    event.attachments?.[0].url,
+    "https://matrix.example.org/_matrix/media/v3/download/example.org/abc123",
+  );
+  assertEquals(event.attachments?.[0].isImage, true);
+  assertEquals(event.attachments?.[0].filename, "cat.png");
+});
+
+Deno.test("mxcToHttp - should reject non-mxc URLs", () => {
+  assertEquals(mxcToHttp("https://example.org/file", HOMESERVER), null);
+});
+
+Deno.test("stripReplyFallback - should remove quoted reply lines", () => {
+  assertEquals(stripReplyFallback("> <@bob:example.org> earlier\n\nanswer"), "answer");
+  assertEquals(stripReplyFallback("no quote"), "no quote");
+});
+
+Deno.test("getMessageBody - should strip fallback only for replies", () => {
+  const reply = createEvent({
+    content: {
+      msgtype: "m.text",
+      body: "> <@friend:example.org> hi\n\nthanks",
+      "m.relates_to": { "m.in_reply_to": { event_id: "$bot" } },
+    },
+  });
+  assertEquals(getMessageBody(reply), "thanks");
+});
+
+Deno.test("isMentionToBot - should detect m.mentions, pills and raw IDs", () => {
+  assertEquals(isMentionToBot(createEvent(), BOT_USER_ID), true);
+  assertEquals(
+    isMentionToBot(
+      createEvent({
+        content: {
+          msgtype: "m.text",
+          body: "Friend: hi",
+          formatted_body: `<a href="https://matrix.to/#/${BOT_USER_ID}">Friend</a>: hi`,
+        },
+      }),
+      BOT_USER_ID,
+    ),
+    true,
+  );
+  assertEquals(
+    isMentionToBot(
+      createEvent({ content: { msgtype: "m.text", body: `${BOT_USER_ID} hi` } }),
+      BOT_USER_ID,
+    ),
+    true,
+  );
+  assertEquals(
+    isMentionToBot(createEvent({ content: { msgtype: "m.text", body: "hi all" } }), BOT_USER_ID),
+    false,
+  );
+});
+
+Deno.test("removeBotMention - should remove user ID and display name prefix", () => {
+  assertEquals(removeBotMention(`${BOT_USER_ID}: hello`, BOT_USER_ID), "hello");
+  assertEquals(removeBotMention("Friend: hello", BOT_USER_ID, "Friend"), "hello");
+});
+
+Deno.test("shouldRespondToEvent - should ignore self, edits and notices", () => {
+  assertEquals(
+    shouldRespondToEvent(
+      createEvent({ sender: BOT_USER_ID }),
+      BOT_USER_ID,
+      true,
+      false,
+      respondConfig,
+    ),
+    false,
+  );
+  assertEquals(
+    shouldRespondToEvent(
+      createEvent({
+        content: {
+          msgtype: "m.text",
+          body: "* edited",
+          "m.relates_to": { rel_type: "m.replace", event_id: "$event0" },
+        },
+      }),
+      BOT_USER_ID,
+      true,
+      false,
+      respondConfig,
+    ),
+    false,
+  );
+  assertEquals(
+    shouldRespondToEvent(
+      createEvent({ content: { msgtype: "m.notice", body: "bot output" } }),
+      BOT_USER_ID,
+      true,
+      false,
+      respondConfig,
+    ),
+    false,
+  );
+});
+
+Deno.test("shouldRespondToEvent - should respect allowDm and group mentions", () => {
+  const plain = createEvent({ content: { msgtype: "m.text", body: "hi" } });
+
+  assertEquals(shouldRespondToEvent(plain, BOT_USER_ID, true, false, respondConfig), true);
+  assertEquals(
+    shouldRespondToEvent(plain, BOT_USER_ID, true, false, { ...respondConfig, allowDm: false }),
+    false,
+  );
+  assertEquals(shouldRespondToEvent(plain, BOT_USER_ID, false, false, respondConfig), false);
+  assertEquals(shouldRespondToEvent(plain, BOT_USER_ID, false, true, respondConfig), true);
+  assertEquals(shouldRespondToEvent(createEvent(), BOT_USER_ID, false, false, respondConfig), true);
+});
+
+Deno.test("eventToPlatformMessage - should format username and bot flag", () => {
+  const message = eventToPlatformMessage(
+    createEvent({ sender: BOT_USER_ID }),
+    BOT_USER_ID,
+    HOMESERVER,
+    "Friend",
+  );
+  assertEquals(message.username, "@Friend (@friend:example.org)");
+  assertEquals(message.isBot, true);
+});
+
+Deno.test("getDirectRoomIds - should flatten m.direct content", () => {
+  const rooms = getDirectRoomIds({
+    "@alice:example.org": ["!a:example.org"],
+    "@bob:example.org": ["!b:example.org", "!c:example.org"],
+  });
+  assertEquals([...rooms].sort(), ["!a:example.org", "!b:example.org", "!c:example.org"]);
+  assertEquals(getDirectRoomIds(null).size, 0);
+});
+
+// ============ Adapter tests against a local fake homeserver ============
+
+interface FakeHomeserver {
+  baseUrl: string;
+  calls: Array<{ method: string; path: string; body: Record<string, unknown> }>;
+  pushTimeline(roomId: string, event: MatrixEvent): void;
+  pushInvite(roomId: string, inviter: string, isDirect: boolean): void;
+  roomMessages: MatrixEvent[];
+  close(): Promise<void>;
+}
+
+function startFakeHomeserver(options: { failWhoami?: boolean } = {}): FakeHomeserver {
+  const calls: FakeHomeserver["calls"] = [];
+  const timeline: Array<{ roomId: string; event: MatrixEvent }> = [];
+  const invites: Array<{ roomId: string; inviter: string; isDirect: boolean }> = [];
+  let direct: Record<string, string[]> = { "@alice:example.org": [DM_ROOM_ID] };
+  let nextEventId = 1;
+  let batch = 0;
+
+  const fake: FakeHomeserver = {
+    baseUrl: "",
+    calls,
+    roomMessages: [],
+    pushTimeline(roomId, event) {
+      timeline.push({ roomId, event });
+    },
+    pushInvite(roomId, inviter, isDirect) {
+      invites.push({ roomId, inviter, isDirect });
+    },
+    close: () => Promise.resolve(),
+  };
+
+  const server = Deno.serve({ port: 0, hostname: "127.0.0.1", onListen: () => {} }, async (req) => {
+    const url = new URL(req.url);
+    const path = decodeURIComponent(url.pathname.replace("/_matrix/client/v3", ""));
+    const body = await req.json().catch(() => ({})) as Record<string, unknown>;
+    calls.push({ method: req.method, path, body });
+
+    if (path === "/account/whoami") {
+      if (options.failWhoami) {
+        return Response.json({ errcode: "M_UNKNOWN_TOKEN", error: "Invalid token" }, {
+          status: 401,
+        });
+      }
+      return Response.json({ user_id: BOT_USER_ID });
+    }
+    if (path === `/profile/${BOT_USER_ID}/displayname`) {
+      return Response.json({ displayname: "Friend" });
+    }
+    if (path.startsWith("/profile/")) {
+      return Response.json({ displayname: "Alice" });
+    }
+    if (path === `/user/${BOT_USER_ID}/account_data/m.direct`) {
+      if (req.method === "PUT") {
+        direct = body as Record<string, string[]>;
+        return Response.json({});
+      }
+      return Response.json(direct);
+    }
+    if (path === "/sync") {
+      const join: Record<string, { timeline: { events: MatrixEvent[] } }> = {};
+      for (const { roomId, event } of timeline.splice(0)) {
+        join[roomId] ??= { timeline: { events: [] } };
+        join[roomId].timeline.events.push(event);
+      }
+      const invite: Record<string, { invite_state: { events: MatrixEvent[] } }> = {};
+      for (const entry of invites.splice(0)) {
+        invite[entry.roomId] = {
+          invite_state: {
+            events: [{
+              event_id: "$invite",
+              type: "m.room.member",
+              sender: entry.inviter,
+              state_key: BOT_USER_ID,
+              origin_server_ts: 0,
+              content: { membership: "invite", is_direct: entry.isDirect },
+            }],
+          },
+        };
+      }
+      if (Object.keys(join).length === 0 && Object.keys(invite).length === 0) {
+        // Short wait instead of a real long poll to keep tests fast
+        await new Promise((resolve) => setTimeout(resolve, 20));
+      }
+      return Response.json({ next_batch: `s${++batch}`, rooms: { join, invite } });
+    }
+    if (path.startsWith("/join/")) {
+      return Response.json({ room_id: path.slice("/join/".length) });
+    }
+    if (path.includes("/send/")) {
+      return Response.json({ event_id: `$sent${nextEventId++}` });
+    }
+    if (path.endsWith("/messages")) {
+      return Response.json({ chunk: fake.roomMessages });
+    }
+    if (path === "/createRoom") {
+      return Response.json({ room_id: "!newdm:example.org" });
+    }
+    return Response.json({ errcode: "M_UNRECOGNIZED", error: "Unknown endpoint" }, {
+      status: 404,
+    });
+  });
+
+  fake.baseUrl = `http://127.0.0.1:${server.addr.port}`;
+  fake.close = () => server.shutdown();
+  return fake;
+}
+
+function createAdapter(homeserver: FakeHomeserver, overrides = {}): MatrixAdapter {
+  return new MatrixAdapter({
+    homeserverUrl: homeserver.baseUrl,
+    accessToken: "test-token",
+    syncTimeoutMs: 0,
+    reconnect: { enabled: false },
+    ...overrides,
+  });
+}
+
+async function waitFor(predicate: () => boolean, timeoutMs = 2000): Promise<void> {
+  const start = Date.now();
+  while (!predicate()) {
+    if (Date.now() - start > timeoutMs) throw new Error("Timed out waiting for condition");
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+Deno.test("MatrixAdapter - connect fails with PlatformError on bad token", async () => {
+  const homeserver = startFakeHomeserver({ failWhoami: true });
+  const adapter = createAdapter(homeserver);
+
+  try {
+    await assertRejects(() => adapter.connect(), PlatformError, "Failed to connect to Matrix");
+    assertEquals(adapter.getConnectionStatus().state, ConnectionState.ERROR);
+  } finally {
+    await homeserver.close();
+  }
+});
+
+Deno.test("MatrixAdapter - emits events for DMs and group mentions", async () => {
+  const homeserver = startFakeHomeserver();
+  const adapter = createAdapter(homeserver);
+  const events: NormalizedEvent[] = [];
+  adapter.onEvent((event) => {
+    events.push(event);
+    return Promise.resolve();
+  });
+
+  try {
+    await adapter.connect();
+    assertEquals(adapter.getBotId(), BOT_USER_ID);
+    assertEquals(adapter.isSelf(BOT_USER_ID), true);
+
+    homeserver.pushTimeline(
+      ROOM_ID,
+      createEvent({ event_id: "$plain", content: { msgtype: "m.text", body: "chatting" } }),
+    );
+    homeserver.pushTimeline(ROOM_ID, createEvent({ event_id: "$mention" }));
+    homeserver.pushTimeline(
+      DM_ROOM_ID,
+      createEvent({ event_id: "$dm", content: { msgtype: "m.text", body: "hi there" } }),
+    );
+
+    await waitFor(() => events.length === 2);
+    const byId = Object.fromEntries(events.map((e) => [e.messageId, e]));
+    assertEquals(byId["$mention"].content, "hello");
+    assertEquals(byId["$mention"].isDm, false);
+    assertEquals(byId["$dm"].isDm, true);
+    assertEquals(byId["$dm"].channelId, DM_ROOM_ID);
+  } finally {
+    await adapter.disconnect();
+    await homeserver.close();
+  }
+
+  assertEquals(adapter.getConnectionStatus().state, ConnectionState.DISCONNECTED);
+});
+
+Deno.test("MatrixAdapter - auto-joins direct invites and records them in m.direct", async () => {
+  const homeserver = startFakeHomeserver();
+  const adapter = createAdapter(homeserver);
+  const events: NormalizedEvent[] = [];
+  adapter.onEvent((event) => {
+    events.push(event);
+    return Promise.resolve();
+  });
+
+  try {
+    await adapter.connect();
+    homeserver.pushInvite("!invited:example.org", "@carol:example.org", true);
+
+    await waitFor(() =>
+      homeserver.calls.some((c) => c.method === "PUT" && c.path.endsWith("/m.direct"))
+    );
+    assertEquals(homeserver.calls.some((c) => c.path === "/join/!invited:example.org"), true);
+    assertEquals(await adapter.getDmChannelId("@carol:example.org"), "!invited:example.org");
+
+    homeserver.pushTimeline(
+      "!invited:example.org",
+      createEvent({ sender: "@carol:example.org", content: { msgtype: "m.text", body: "hey" } }),
+    );
+    await waitFor(() => events.length === 1);
+    assertEquals(events[0].isDm, true);
+  } finally {
+    await adapter.disconnect();
+    await homeserver.close();
+  }
+});
+
+Deno.test("MatrixAdapter - sendReply, editMessage and addReaction use relations", async () => {
+  const homeserver = startFakeHomeserver();
+  const adapter = createAdapter(homeserver);
+
+  try {
+    await adapter.connect();
+    const reply = await adapter.sendReply(ROOM_ID, "Hi!", { replyToMessageId: "$event1" });
+    const edit = await adapter.editMessage(ROOM_ID, reply.messageId!, "Updated");
+    const reaction = await adapter.addReaction(ROOM_ID, "$event1", "👍");
+
+    assertEquals(reply.success, true);
+    assertEquals(edit, { success: true, messageId: reply.messageId });
+    assertEquals(reaction.success, true);
+
+    const sends = homeserver.calls.filter((c) => c.path.includes("/send/"));
+    assertEquals(sends[0].body["m.relates_to"], { "m.in_reply_to": { event_id: "$event1" } });
+    assertEquals(sends[1].body["m.relates_to"], {
+      rel_type: "m.replace",
+      event_id: reply.messageId,
+    });
+    assertEquals(sends[1].body["m.new_content"], { msgtype: "m.text", body: "Updated" });
+    assertEquals(sends[2].path.includes("/send/m.reaction/"), true);
+    assertEquals(sends[2].body["m.relates_to"], {
+      rel_type: "m.annotation",
+      event_id: "$event1",
+      key: "👍",
+    });
+  } finally {
+    await adapter.disconnect();
+    await homeserver.close();
+  }
+});
+
+Deno.test("MatrixAdapter - fetchRecentMessages applies edits in chronological order", async () => {
+  const homeserver = startFakeHomeserver();
+  const adapter = createAdapter(homeserver);
+  // Newest first, as returned by /messages?dir=b
+  homeserver.roomMessages = [
+    createEvent({
+      event_id: "$edit",
+      origin_server_ts: 1704067260000,
+      content: {
+        msgtype: "m.text",
+        body: "* fixed",
+        "m.new_content": { msgtype: "m.text", body: "fixed" },
+        "m.relates_to": { rel_type: "m.replace", event_id: "$first" },
+      },
+    }),
+    createEvent({
+      event_id: "$second",
+      origin_server_ts: 1704067230000,
+      content: { msgtype: "m.text", body: "second" },
+    }),
+    createEvent({
+      event_id: "$first",
+      origin_server_ts: 1704067200000,
+      content: { msgtype: "m.text", body: "frist" },
+    }),
+  ];
+
+  try {
+    await adapter.connect();
+    const messages = await adapter.fetchRecentMessages(ROOM_ID, 10);
+
+    assertEquals(messages.map((m) => m.messageId), ["$first", "$second"]);
+    assertEquals(messages[0].content, "fixed");
+    assertEquals(messages[0].username, "@Alice (@alice:example.org)");
+  } finally {
+    await adapter.disconnect();
+    await homeserver.close();
+  }
+});
+
+Deno.test("MatrixAdapter - sendReply reports failure when the homeserver is unreachable", async () => {
+  const homeserver = startFakeHomeserver();
+  const adapter = createAdapter(homeserver);
+  await homeserver.close();
+
+  const result = await adapter.sendReply(ROOM_ID, "Hi!");
+  assertEquals(result.success, false);
+});
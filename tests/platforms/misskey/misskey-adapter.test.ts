@@ -2,6 +2,7 @@
 
 import { assertEquals, assertRejects } from "@std/assert";
 import { MisskeyAdapter } from "@platforms/misskey/misskey-adapter.ts";
+import { MisskeyClient } from "@platforms/misskey/misskey-client.ts";
 import { PlatformError } from "../../../src/types/errors.ts";
 import {
   buildReplyParams,
@@ -1252,3 +1253,233 @@ Deno.test("MisskeyAdapter.editMessage - handles non-Error object in chat error",
   assertEquals(result.success, false);
   assertEquals(result.error, "Failed to edit chat message: Message not found");
 });
+
+Deno.test("MisskeyAdapter.sendReply - attaches uploaded files to notes", async () => {
+  const adapter = createMockMisskeyAdapter();
+  const uploads: string[] = [];
+  const requests: Array<{ endpoint: string; params: Record<string, unknown> }> = [];
+  // deno-lint-ignore no-explicit-any
+  (adapter as any).client = {
+    uploadFile: (_data: Uint8Array, filename: string) => {
+      uploads.push(filename);
+      return Promise.resolve({ id: `file_${uploads.length}` });
+    },
+    request: (endpoint: string, params: Record<string, unknown>) => {
+      requests.push({ endpoint, params });
+      if (endpoint === "notes/show") {
+        return Promise.resolve({ id: "abc123", userId: "user1", visibility: "home" });
+      }
+      return Promise.resolve({ createdNote: { id: "note999" } });
+    },
+  };
+
+  const data = new Uint8Array([1, 2, 3]);
+  const result = await adapter.sendReply("note:abc123", "Here you go", {
+    replyToMessageId: "abc123",
+    attachments: [
+      { filename: "a.png", mimeType: "image/png", data },
+      { filename: "b.txt", mimeType: "text/plain", data },
+    ],
+  });
+
+  assertEquals(result, { success: true, messageId: "note999" });
+  assertEquals(uploads, ["a.png", "b.txt"]);
+  const create = requests.find((r) => r.endpoint === "notes/create");
+  assertEquals(create?.params.fileIds, ["file_1", "file_2"]);
+  assertEquals(create?.params.visibility, "home");
+});
+
+Deno.test("MisskeyAdapter.sendReply - sends one chat message per extra file", async () => {
+  const adapter = createMockMisskeyAdapter();
+  const requests: Array<{ endpoint: string; params: Record<string, unknown> }> = [];
+  let uploadCount = 0;
+  // deno-lint-ignore no-explicit-any
+  (adapter as any).client = {
+    uploadFile: () => Promise.resolve({ id: `file_${++uploadCount}` }),
+    request: (endpoint: string, params: Record<string, unknown>) => {
+      requests.push({ endpoint, params });
+      return Promise.resolve({ id: `msg_${requests.length}` });
+    },
+  };
+
+  const data = new Uint8Array([1]);
+  const result = await adapter.sendReply("chat:user1", "Two files", {
+    attachments: [
+      { filename: "a.png", mimeType: "image/png", data },
+      { filename: "b.png", mimeType: "image/png", data },
+    ],
+  });
+
+  assertEquals(result, { success: true, messageId: "msg_1" });
+  assertEquals(requests.map((r) => r.params), [
+    { toUserId: "user1", text: "Two files", fileId: "file_1" },
+    { toUserId: "user1", fileId: "file_2" },
+  ]);
+});
+
+Deno.test("MisskeyAdapter.sendReply - fails when the Drive upload fails", async () => {
+  const adapter = createMockMisskeyAdapter();
+  let created = false;
+  // deno-lint-ignore no-explicit-any
+  (adapter as any).client = {
+    uploadFile: () => Promise.reject(new Error("Drive is full")),
+    request: () => {
+      created = true;
+      return Promise.resolve({ createdNote: { id: "note1" } });
+    },
+  };
+
+  const result = await adapter.sendReply("note:abc123", "Hi", {
+    attachments: [{ filename: "a.png", mimeType: "image/png", data: new Uint8Array([1]) }],
+  });
+
+  assertEquals(result, { success: false, error: "Drive is full" });
+  assertEquals(created, false);
+});
+
+Deno.test("MisskeyClient.uploadFile - posts multipart form data to Drive", async () => {
+  const client = new MisskeyClient({ host: "misskey.test", token: "test-token", secure: true });
+  const originalFetch = globalThis.fetch;
+  let url = "";
+  let form: FormData | undefined;
+  globalThis.fetch = (input: string | URL | Request, init?: RequestInit) => {
+    url = String(input);
+    form = init?.body as FormData;
+    return Promise.resolve(Response.json({ id: "file123" }));
+  };
+
+  try {
+    const file = await client.uploadFile(new Uint8Array([1, 2]), "a.png", "image/png");
+
+    assertEquals(file.id, "file123");
+    assertEquals(url, "https://misskey.test/api/drive/files/create");
+    assertEquals(form?.get("i"), "test-token");
+    assertEquals(form?.get("name"), "a.png");
+    assertEquals((form?.get("file") as File).type, "image/png");
+
+    globalThis.fetch = () => Promise.resolve(new Response("too large", { status: 413 }));
+    await assertRejects(
+      () => client.uploadFile(new Uint8Array([1]), "b.png", "image/png"),
+      PlatformError,
+      "HTTP 413",
+    );
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+});
+
+Deno.test("MisskeyAdapter.getMaxMessageLength - uses the instance note limit", async () => {
+  const adapter = createMockMisskeyAdapter();
+  mockClientRequest(adapter, (endpoint: string) => {
+    if (endpoint === "meta") return Promise.resolve({ maxNoteTextLength: 5000 });
+    return Promise.resolve({});
+  });
+
+  assertEquals(adapter.getMaxMessageLength("note:abc"), 3000);
+
+  // deno-lint-ignore no-explicit-any
+  await (adapter as any).loadNoteLengthLimit();
+
+  assertEquals(adapter.getMaxMessageLength("note:abc"), 5000);
+  assertEquals(adapter.getMaxMessageLength("timeline:self"), 5000);
+  assertEquals(adapter.getMaxMessageLength("chat:user1"), 2000);
+});
+
+Deno.test("MisskeyAdapter.getMaxMessageLength - keeps the default when meta fails", async () => {
+  const adapter = createMockMisskeyAdapter();
+  mockClientRequest(adapter, () => Promise.reject(new Error("Not available")));
+
+  // deno-lint-ignore no-explicit-any
+  await (adapter as any).loadNoteLengthLimit();
+
+  assertEquals(adapter.getMaxMessageLength("note:abc"), 3000);
+});
+
+Deno.test("MisskeyAdapter.deleteMessage - deletes notes and chat messages", async () => {
+  const adapter = createMockMisskeyAdapter();
+  const calls: Array<[string, unknown]> = [];
+  mockClientRequest(adapter, (endpoint: string, params: unknown) => {
+    calls.push([endpoint, params]);
+    if (endpoint === "notes/delete") {
+      throw { code: "NO_SUCH_NOTE", message: "Note not found" };
+    }
+    return Promise.resolve({});
+  });
+
+  const chat = await adapter.deleteMessage("chat:user1", "msg1");
+  assertEquals(chat, { success: true, messageId: "msg1" });
+
+  const note = await adapter.deleteMessage("note:abc", "note1");
+  assertEquals(note, { success: false, error: "Failed to delete message: Note not found" });
+
+  assertEquals(calls, [
+    ["chat/messages/delete", { messageId: "msg1" }],
+    ["notes/delete", { noteId: "note1" }],
+  ]);
+});
+
+// ============ MisskeyAdapter.startTypingIndicator tests ============
+
+Deno.test("MisskeyAdapter.startTypingIndicator - adds and removes the working reaction", async () => {
+  const adapter = new MisskeyAdapter({
+    host: "localhost",
+    token: "test-token",
+    secure: false,
+    workingReaction: "⏳",
+  });
+  assertEquals(adapter.capabilities.supportsTypingIndicator, true);
+
+  const calls: Array<[string, unknown]> = [];
+  mockClientRequest(adapter, (endpoint: string, params: unknown) => {
+    calls.push([endpoint, params]);
+    return Promise.resolve({});
+  });
+
+  const indicator = await adapter.startTypingIndicator("note:note1", "note1");
+  await indicator.stop();
+  await indicator.stop();
+
+  assertEquals(calls, [
+    ["notes/reactions/create", { noteId: "note1", reaction: "⏳" }],
+    ["notes/reactions/delete", { noteId: "note1" }],
+  ]);
+});
+
+Deno.test("MisskeyAdapter.startTypingIndicator - replaces the working reaction on react", async () => {
+  const adapter = new MisskeyAdapter({
+    host: "localhost",
+    token: "test-token",
+    secure: false,
+    workingReaction: "⏳",
+  });
+  const calls: Array<[string, unknown]> = [];
+  mockClientRequest(adapter, (endpoint: string, params: unknown) => {
+    calls.push([endpoint, params]);
+    return Promise.resolve({});
+  });
+
+  const indicator = await adapter.startTypingIndicator("note:note1", "note1");
+  await adapter.addReaction("note:note1", "note1", "👍");
+  await indicator.stop();
+
+  assertEquals(calls.map(([endpoint]) => endpoint), [
+    "notes/reactions/create",
+    "notes/reactions/delete",
+    "notes/reactions/create",
+  ]);
+});
+
+Deno.test("MisskeyAdapter.startTypingIndicator - does nothing for chat messages", async () => {
+  const adapter = createMockMisskeyAdapter();
+  assertEquals(adapter.capabilities.supportsTypingIndicator, false);
+
+  const calls: string[] = [];
+  mockClientRequest(adapter, (endpoint: string) => {
+    calls.push(endpoint);
+    return Promise.resolve({});
+  });
+
+  const indicator = await adapter.startTypingIndicator("chat:user1", "msg1");
+  await indicator.stop();
+  assertEquals(calls, []);
+});
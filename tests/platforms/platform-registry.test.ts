@@ -169,6 +169,46 @@ Deno.test({
   },
 });
 
+Deno.test({
+  name: "PlatformRegistry - should register one account per persona",
+  async fn() {
+    resetPlatformRegistry();
+    const registry = new PlatformRegistry();
+    const defaultAdapter = new MockAdapter();
+    const aliceAdapter = new MockAdapter();
+    aliceAdapter.setPersona({ name: "alice", displayName: "Alice" });
+
+    registry.register(defaultAdapter);
+    registry.register(aliceAdapter);
+
+    assertEquals(registry.getAdapter("discord"), defaultAdapter);
+    assertEquals(registry.getAdapter("discord", "alice"), aliceAdapter);
+    assertEquals(Array.from(registry.getStatus().keys()), ["discord", "alice/discord"]);
+
+    // Events are tagged with the persona of the account that received them
+    const receivedEvents: NormalizedEvent[] = [];
+    registry.onEvent((event) => {
+      receivedEvents.push(event);
+      return Promise.resolve();
+    });
+
+    const testEvent: NormalizedEvent = {
+      platform: "discord",
+      channelId: "ch1",
+      userId: "user1",
+      messageId: "msg1",
+      isDm: false,
+      guildId: "guild1",
+      content: "Hello",
+      timestamp: new Date(),
+    };
+    await defaultAdapter.simulateEvent(testEvent);
+    await aliceAdapter.simulateEvent(testEvent);
+
+    assertEquals(receivedEvents.map((event) => event.persona), [undefined, "alice"]);
+  },
+});
+
 Deno.test({
   name: "PlatformRegistry - should get all adapters",
   fn() {
@@ -0,0 +1,197 @@
+// tests/platforms/reply-draft.test.ts
+
+import { assertEquals } from "@std/assert";
+import { ReplyDraft } from "@platforms/reply-draft.ts";
+import type { PlatformAdapter } from "@platforms/platform-adapter.ts";
+import type { ReplyOptions, ReplyResult } from "../../src/types/platform.ts";
+
+interface Call {
+  action: "send" | "edit" | "delete";
+  messageId?: string;
+  content?: string;
+  replyTo?: string;
+}
+
+function createMockAdapter(
+  options: { maxMessageLength?: number; canDelete?: boolean; failOnSend?: boolean } = {},
+): { adapter: PlatformAdapter; calls: Call[] } {
+  const calls: Call[] = [];
+  let sendCount = 0;
+
+  const adapter = {
+    platform: "discord",
+    capabilities: { maxMessageLength: options.maxMessageLength ?? 2000 },
+    sendReply: (_channelId: string, content: string, replyOptions?: ReplyOptions) => {
+      calls.push({ action: "send", content, replyTo: replyOptions?.replyToMessageId });
+      if (options.failOnSend) {
+        return Promise.resolve({ success: false, error: "Rate limited" });
+      }
+      return Promise.resolve({ success: true, messageId: `sent${++sendCount}` });
+    },
+    editMessage: (_channelId: string, messageId: string, content: string, replyTo?: string) => {
+      calls.push({ action: "edit", messageId, content, replyTo });
+      return Promise.resolve({ success: true, messageId });
+    },
+    ...(options.canDelete === false ? {} : {
+      deleteMessage: (_channelId: string, messageId: string): Promise<ReplyResult> => {
+        calls.push({ action: "delete", messageId });
+        return Promise.resolve({ success: true, messageId });
+      },
+    }),
+  } as unknown as PlatformAdapter;
+
+  return { adapter, calls };
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+Deno.test("ReplyDraft - should post a placeholder and edit it with the streamed text", async () => {
+  const { adapter, calls } = createMockAdapter();
+  const draft = new ReplyDraft(adapter, "ch1", "m1", 20);
+
+  draft.append("   ");
+  assertEquals(calls, []);
+
+  draft.append("Hello");
+  draft.append(", world");
+  await delay(50);
+
+  assertEquals(calls, [
+    { action: "send", content: "…", replyTo: "m1" },
+    { action: "edit", messageId: "sent1", content: "Hello, world", replyTo: "m1" },
+  ]);
+
+  await draft.discard();
+});
+
+Deno.test("ReplyDraft - should throttle edits", async () => {
+  const { adapter, calls } = createMockAdapter();
+  const draft = new ReplyDraft(adapter, "ch1", undefined, 40);
+
+  draft.append("One");
+  await delay(60);
+  draft.append(" two");
+  draft.append(" three");
+  await delay(10);
+  assertEquals(calls.filter((c) => c.action === "edit").length, 1);
+
+  await delay(60);
+  assertEquals(calls.filter((c) => c.action === "edit").map((c) => c.content), [
+    "One",
+    "One two three",
+  ]);
+
+  await draft.discard();
+});
+
+Deno.test("ReplyDraft - should start over after restart", async () => {
+  const { adapter, calls } = createMockAdapter();
+  const draft = new ReplyDraft(adapter, "ch1", undefined, 0);
+
+  draft.append("Let me look that up.");
+  await delay(10);
+  draft.restart();
+  draft.append("Found it");
+  await delay(10);
+
+  assertEquals(calls.filter((c) => c.action === "edit").map((c) => c.content), [
+    "Let me look that up.",
+    "Found it",
+  ]);
+
+  await draft.discard();
+});
+
+Deno.test("ReplyDraft - should cut previews to the message length", async () => {
+  const { adapter, calls } = createMockAdapter({ maxMessageLength: 10 });
+  const draft = new ReplyDraft(adapter, "ch1", undefined, 0);
+
+  draft.append("This text is too long");
+  await delay(10);
+
+  assertEquals(calls[1].content, "This text…");
+
+  await draft.discard();
+});
+
+Deno.test("ReplyDraft - finalize should edit the draft into the reply", async () => {
+  const { adapter, calls } = createMockAdapter();
+  const draft = new ReplyDraft(adapter, "ch1", "m1", 0);
+
+  draft.append("Hello");
+  await delay(10);
+  const result = await draft.finalize("Hello, world!");
+
+  assertEquals(result, { success: true, messageId: "sent1" });
+  assertEquals(calls.map((c) => [c.action, c.content]), [
+    ["send", "…"],
+    ["edit", "Hello"],
+    ["edit", "Hello, world!"],
+  ]);
+
+  // The draft is the reply now: discarding it does nothing
+  draft.append("More text");
+  await draft.discard();
+  assertEquals(calls.length, 3);
+});
+
+Deno.test("ReplyDraft - finalize should skip the edit when the draft shows the reply", async () => {
+  const { adapter, calls } = createMockAdapter();
+  const draft = new ReplyDraft(adapter, "ch1", undefined, 0);
+
+  draft.append("Done.");
+  await delay(10);
+  const result = await draft.finalize("Done.");
+
+  assertEquals(result, { success: true, messageId: "sent1" });
+  assertEquals(calls.length, 2);
+});
+
+Deno.test("ReplyDraft - finalize should return null without a draft message", async () => {
+  const { adapter, calls } = createMockAdapter();
+  const draft = new ReplyDraft(adapter, "ch1");
+
+  assertEquals(await draft.finalize("Hello"), null);
+
+  // Text after finalize is not streamed
+  draft.append("Late text");
+  await delay(10);
+  assertEquals(calls, []);
+
+  const failing = createMockAdapter({ failOnSend: true });
+  const failed = new ReplyDraft(failing.adapter, "ch1", undefined, 0);
+  failed.append("Hello");
+  await delay(10);
+  assertEquals(await failed.finalize("Hello"), null);
+});
+
+Deno.test("ReplyDraft - finalize should delete the draft for replies with attachments", async () => {
+  const { adapter, calls } = createMockAdapter();
+  const draft = new ReplyDraft(adapter, "ch1", undefined, 0);
+
+  draft.append("Here is the picture");
+  await delay(10);
+  const result = await draft.finalize("Here is the picture", {
+    attachments: [{ filename: "a.png", mimeType: "image/png", data: new Uint8Array() }],
+  });
+
+  assertEquals(result, null);
+  assertEquals(calls[calls.length - 1], { action: "delete", messageId: "sent1" });
+});
+
+Deno.test("ReplyDraft - discard should empty drafts that cannot be deleted", async () => {
+  const { adapter, calls } = createMockAdapter({ canDelete: false });
+  const draft = new ReplyDraft(adapter, "ch1", undefined, 0);
+
+  draft.append("Thinking out loud");
+  await delay(10);
+  await draft.discard();
+
+  assertEquals(calls.map((c) => [c.action, c.content]), [
+    ["send", "…"],
+    ["edit", "Thinking out loud"],
+    ["edit", "…"],
+  ]);
+});
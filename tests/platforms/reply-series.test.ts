@@ -0,0 +1,157 @@
+// tests/platforms/reply-series.test.ts
+
+import { assertEquals } from "@std/assert";
+import { editReplySeries, getMaxMessageLength, sendReplySeries } from "@platforms/reply-series.ts";
+import type { PlatformAdapter } from "@platforms/platform-adapter.ts";
+import type { ReplyOptions, ReplyResult } from "../../src/types/platform.ts";
+
+interface Call {
+  action: "send" | "edit" | "delete";
+  messageId?: string;
+  content?: string;
+  replyTo?: string;
+  options?: ReplyOptions;
+}
+
+function createMockAdapter(
+  options: { maxMessageLength?: number; canDelete?: boolean; failOnSend?: number } = {},
+): { adapter: PlatformAdapter; calls: Call[] } {
+  const calls: Call[] = [];
+  let sendCount = 0;
+
+  const adapter = {
+    platform: "discord",
+    capabilities: { maxMessageLength: options.maxMessageLength ?? 20 },
+    sendReply: (_channelId: string, content: string, replyOptions?: ReplyOptions) => {
+      sendCount++;
+      calls.push({ action: "send", content, replyTo: replyOptions?.replyToMessageId });
+      if (sendCount === options.failOnSend) {
+        return Promise.resolve({ success: false, error: "Rate limited" });
+      }
+      calls[calls.length - 1].options = replyOptions;
+      return Promise.resolve({ success: true, messageId: `sent${sendCount}` });
+    },
+    editMessage: (_channelId: string, messageId: string, content: string, replyTo?: string) => {
+      calls.push({ action: "edit", messageId, content, replyTo });
+      return Promise.resolve({ success: true, messageId });
+    },
+    ...(options.canDelete === false ? {} : {
+      deleteMessage: (_channelId: string, messageId: string): Promise<ReplyResult> => {
+        calls.push({ action: "delete", messageId });
+        return Promise.resolve({ success: true, messageId });
+      },
+    }),
+  } as unknown as PlatformAdapter;
+
+  return { adapter, calls };
+}
+
+const LONG_REPLY = "First part here.\n\nSecond part here.\n\nThird part here.";
+
+Deno.test("getMaxMessageLength - should prefer the channel-specific limit", () => {
+  const { adapter } = createMockAdapter({ maxMessageLength: 3000 });
+  assertEquals(getMaxMessageLength(adapter, "note:1"), 3000);
+
+  adapter.getMaxMessageLength = (channelId) => channelId.startsWith("chat:") ? 2000 : 3000;
+  assertEquals(getMaxMessageLength(adapter, "chat:1"), 2000);
+});
+
+Deno.test("sendReplySeries - should send short replies as one message", async () => {
+  const { adapter, calls } = createMockAdapter();
+
+  const result = await sendReplySeries(adapter, "ch1", "Short", { replyToMessageId: "m1" });
+
+  assertEquals(result, { success: true, messageId: "sent1" });
+  assertEquals(calls.map((c) => [c.content, c.replyTo]), [["Short", "m1"]]);
+});
+
+Deno.test("sendReplySeries - should chain the parts of a long reply", async () => {
+  const { adapter, calls } = createMockAdapter();
+  const attachments = [{ filename: "a.png", mimeType: "image/png", data: new Uint8Array() }];
+
+  const result = await sendReplySeries(adapter, "ch1", LONG_REPLY, {
+    replyToMessageId: "m1",
+    attachments,
+  });
+
+  assertEquals(result, {
+    success: true,
+    messageId: "sent1",
+    messageIds: ["sent1", "sent2", "sent3"],
+  });
+  assertEquals(calls.map((c) => [c.content, c.replyTo]), [
+    ["First part here.", "m1"],
+    ["Second part here.", "sent1"],
+    ["Third part here.", "sent2"],
+  ]);
+  assertEquals(calls[0].options?.attachments, attachments);
+  assertEquals(calls[1].options?.attachments, undefined);
+});
+
+Deno.test("sendReplySeries - should report the parts sent before a failure", async () => {
+  const { adapter } = createMockAdapter({ failOnSend: 2 });
+
+  const result = await sendReplySeries(adapter, "ch1", LONG_REPLY);
+
+  assertEquals(result, {
+    success: false,
+    messageId: "sent1",
+    messageIds: ["sent1"],
+    error: "Sent 1 of 3 parts: Rate limited",
+  });
+});
+
+Deno.test("sendReplySeries - should return the failure of the first part as is", async () => {
+  const { adapter } = createMockAdapter({ failOnSend: 1 });
+
+  const result = await sendReplySeries(adapter, "ch1", LONG_REPLY);
+
+  assertEquals(result, { success: false, error: "Rate limited" });
+});
+
+Deno.test("editReplySeries - should edit a single message", async () => {
+  const { adapter, calls } = createMockAdapter();
+
+  const result = await editReplySeries(adapter, "ch1", ["msg1"], "Updated", "m1");
+
+  assertEquals(result, { success: true, messageId: "msg1" });
+  assertEquals(calls, [{ action: "edit", messageId: "msg1", content: "Updated", replyTo: "m1" }]);
+});
+
+Deno.test("editReplySeries - should send the parts a longer edit needs", async () => {
+  const { adapter, calls } = createMockAdapter();
+
+  const result = await editReplySeries(adapter, "ch1", ["msg1"], LONG_REPLY, "m1");
+
+  assertEquals(result.messageIds, ["msg1", "sent1", "sent2"]);
+  assertEquals(calls.map((c) => [c.action, c.messageId, c.replyTo]), [
+    ["edit", "msg1", "m1"],
+    ["send", undefined, "msg1"],
+    ["send", undefined, "sent1"],
+  ]);
+});
+
+Deno.test("editReplySeries - should delete the parts a shorter edit leaves over", async () => {
+  const { adapter, calls } = createMockAdapter();
+
+  const result = await editReplySeries(adapter, "ch1", ["msg1", "msg2", "msg3"], "Short", "m1");
+
+  assertEquals(result, { success: true, messageId: "msg1", messageIds: ["msg1"] });
+  assertEquals(calls.map((c) => [c.action, c.messageId]), [
+    ["edit", "msg1"],
+    ["delete", "msg2"],
+    ["delete", "msg3"],
+  ]);
+});
+
+Deno.test("editReplySeries - should empty leftover parts that cannot be deleted", async () => {
+  const { adapter, calls } = createMockAdapter({ canDelete: false });
+
+  const result = await editReplySeries(adapter, "ch1", ["msg1", "msg2"], "Short", "m1");
+
+  assertEquals(result.messageIds, ["msg1", "msg2"]);
+  assertEquals(calls.map((c) => [c.action, c.messageId, c.content]), [
+    ["edit", "msg1", "Short"],
+    ["edit", "msg2", "…"],
+  ]);
+});
@@ -0,0 +1,361 @@
+// tests/platforms/telegram/telegram-adapter.test.ts
+
+import { assertEquals, assertRejects } from "@std/assert";
+import { TelegramAdapter } from "@platforms/telegram/telegram-adapter.ts";
+import {
+  buildChannelId,
+  isMentionToBot,
+  messageToPlatformMessage,
+  normalizeTelegramMessage,
+  parseChannelId,
+  removeBotMention,
+  shouldRespondToMessage,
+  type TelegramMessage,
+  toReactionType,
+} from "@platforms/telegram/telegram-utils.ts";
+import { PlatformError } from "../../../src/types/errors.ts";
+import type { NormalizedEvent } from "../../../src/types/events.ts";
+import { ConnectionState } from "../../../src/types/platform.ts";
+
+const BOT_ID = 9000;
+const BOT_USERNAME = "friend_bot";
+
+function createMessage(overrides: Partial<TelegramMessage> = {}): TelegramMessage {
+  return {
+    message_id: 42,
+    from: { id: 1234, is_bot: false, first_name: "Alice", username: "alice" },
+    chat: { id: -100555, type: "supergroup", title: "Test Group" },
+    date: 1704067200,
+    text: "@friend_bot hello",
+    entities: [{ type: "mention", offset: 0, length: 11 }],
+    ...overrides,
+  };
+}
+
+const respondConfig = { allowDm: true, respondToMention: true };
+
+// ============ Utility tests ============
+
+Deno.test("buildChannelId / parseChannelId - round trip with and without topic", () => {
+  assertEquals(buildChannelId(-100555), "-100555");
+  assertEquals(buildChannelId(-100555, 7), "-100555:7");
+  assertEquals(parseChannelId("-100555"), { chatId: "-100555" });
+  assertEquals(parseChannelId("-100555:7"), { chatId: "-100555", threadId: 7 });
+});
+
+Deno.test("normalizeTelegramMessage - should normalize group mention", () => {
+  const event = normalizeTelegramMessage(createMessage());
+
+  assertEquals(event.platform, "telegram");
+  assertEquals(event.channelId, "-100555");
+  assertEquals(event.userId, "1234");
+  assertEquals(event.messageId, "42");
+  assertEquals(event.isDm, false);
+  assertEquals(event.guildId, "-100555");
+  assertEquals(event.timestamp.toISOString(), "2024-01-01T00:00:00.000Z");
+});
+
+Deno.test("normalizeTelegramMessage - should normalize private chat as DM", () => {
+  const event = normalizeTelegramMessage(createMessage({
+    chat: { id: 1234, type: "private", first_name: "Alice" },
+    text: "hi",
+    entities: undefined,
+  }));
+
+  assertEquals(event.isDm, true);
+  assertEquals(event.channelId, "1234");
+  assertEquals(event.guildId, "");
+});
+
+Deno.test("normalizeTelegramMessage - should scope forum topic messages by thread", () => {
+  const event = normalizeTelegramMessage(createMessage({
+    is_topic_message: true,
+    message_thread_id: 7,
+  }));
+  assertEquals(event.channelId, "-100555:7");
+});
+
+Deno.test("normalizeTelegramMessage - should ignore reply thread IDs outside forum topics", () => {
+  const event = normalizeTelegramMessage(createMessage({ message_thread_id: 7 }));
+  assertEquals(event.channelId, "-100555");
+});
+
+Deno.test("isMentionToBot - should detect @username mention entity", () => {
+  assertEquals(isMentionToBot(createMessage(), BOT_ID, BOT_USERNAME), true);
+});
+
+Deno.test("isMentionToBot - should detect reply to bot message", () => {
+  const message = createMessage({
+    text: "thanks",
+    entities: undefined,
+    reply_to_message: createMessage({
+      from: { id: BOT_ID, is_bot: true, first_name: "Friend" },
+    }),
+  });
+  assertEquals(isMentionToBot(message, BOT_ID, BOT_USERNAME), true);
+});
+
+Deno.test("isMentionToBot - should not detect other mentions", () => {
+  const message = createMessage({ text: "@someone hello" });
+  assertEquals(isMentionToBot(message, BOT_ID, BOT_USERNAME), false);
+});
+
+Deno.test("removeBotMention - should remove mention from text", () => {
+  assertEquals(removeBotMention("@friend_bot hello there", BOT_USERNAME), "hello there");
+});
+
+Deno.test("shouldRespondToMessage - should not respond to self or bots", () => {
+  const fromSelf = createMessage({
+    from: { id: BOT_ID, is_bot: true, first_name: "Friend" },
+  });
+  const fromBot = createMessage({
+    from: { id: 77, is_bot: true, first_name: "Other" },
+  });
+  assertEquals(shouldRespondToMessage(fromSelf, BOT_ID, BOT_USERNAME, respondConfig), false);
+  assertEquals(shouldRespondToMessage(fromBot, BOT_ID, BOT_USERNAME, respondConfig), false);
+});
+
+Deno.test("shouldRespondToMessage - should respect allowDm", () => {
+  const dm = createMessage({
+    chat: { id: 1234, type: "private" },
+    text: "hi",
+    entities: undefined,
+  });
+  assertEquals(shouldRespondToMessage(dm, BOT_ID, BOT_USERNAME, respondConfig), true);
+  assertEquals(
+    shouldRespondToMessage(dm, BOT_ID, BOT_USERNAME, { ...respondConfig, allowDm: false }),
+    false,
+  );
+});
+
+Deno.test("shouldRespondToMessage - should ignore unmentioned group messages", () => {
+  const message = createMessage({ text: "just chatting", entities: undefined });
+  assertEquals(shouldRespondToMessage(message, BOT_ID, BOT_USERNAME, respondConfig), false);
+});
+
+Deno.test("messageToPlatformMessage - should format username and bot flag", () => {
+  const message = messageToPlatformMessage(createMessage(), BOT_ID);
+  assertEquals(message.username, "@Alice (1234)");
+  assertEquals(message.isBot, false);
+});
+
+Deno.test("toReactionType - should distinguish custom emoji IDs from Unicode emoji", () => {
+  assertEquals(toReactionType("👍"), { type: "emoji", emoji: "👍" });
+  assertEquals(toReactionType("5368324170671202286"), {
+    type: "custom_emoji",
+    custom_emoji_id: "5368324170671202286",
+  });
+});
+
+// ============ Adapter tests against a local fake Bot API ============
+
+interface FakeBotApi {
+  baseUrl: string;
+  calls: Array<{ method: string; params: Record<string, unknown> }>;
+  pushUpdate(message: TelegramMessage): void;
+  close(): Promise<void>;
+}
+
+function startFakeBotApi(options: { failGetMe?: boolean } = {}): FakeBotApi {
+  const calls: FakeBotApi["calls"] = [];
+  const pending: Array<{ update_id: number; message: TelegramMessage }> = [];
+  let nextUpdateId = 1;
+  let nextMessageId = 1000;
+
+  const server = Deno.serve({ port: 0, hostname: "127.0.0.1", onListen: () => {} }, async (req) => {
+    const method = new URL(req.url).pathname.split("/").pop()!;
+    const params = await req.json().catch(() => ({})) as Record<string, unknown>;
+    calls.push({ method, params });
+
+    const ok = (result: unknown) => Response.json({ ok: true, result });
+
+    switch (method) {
+      case "getMe":
+        if (options.failGetMe) {
+          return Response.json({ ok: false, error_code: 401, description: "Unauthorized" });
+        }
+        return ok({ id: BOT_ID, is_bot: true, first_name: "Friend", username: BOT_USERNAME });
+      case "deleteWebhook":
+        return ok(true);
+      case "getUpdates": {
+        const offset = (params.offset as number | undefined) ?? 0;
+        const updates = pending.filter((u) => u.update_id >= offset);
+        if (updates.length === 0) {
+          // Short wait instead of a real long poll to keep tests fast
+          await new Promise((resolve) => setTimeout(resolve, 20));
+        }
+        return ok(updates);
+      }
+      case "sendMessage":
+        return ok({
+          message_id: nextMessageId++,
+          from: { id: BOT_ID, is_bot: true, first_name: "Friend" },
+          chat: { id: Number(params.chat_id), type: "supergroup" },
+          date: 1704067300,
+          text: params.text,
+        });
+      case "editMessageText":
+        return ok({
+          message_id: params.message_id,
+          from: { id: BOT_ID, is_bot: true, first_name: "Friend" },
+          chat: { id: Number(params.chat_id), type: "supergroup" },
+          date: 1704067300,
+          text: params.text,
+        });
+      case "setMessageReaction":
+        return ok(true);
+      case "getStickerSet":
+        return ok({
+          name: params.name,
+          title: "Party",
+          sticker_type: "custom_emoji",
+          stickers: [{
+            file_id: "f1",
+            type: "custom_emoji",
+            emoji: "🎉",
+            custom_emoji_id: "111",
+            is_animated: false,
+            is_video: false,
+          }],
+        });
+      default:
+        return Response.json({ ok: false, error_code: 400, description: "Unknown method" });
+    }
+  });
+
+  return {
+    baseUrl: `http://127.0.0.1:${server.addr.port}`,
+    calls,
+    pushUpdate(message) {
+      pending.push({ update_id: nextUpdateId++, message });
+    },
+    close: () => server.shutdown(),
+  };
+}
+
+function createAdapter(api: FakeBotApi, overrides = {}): TelegramAdapter {
+  return new TelegramAdapter({
+    token: "test-token",
+    apiBaseUrl: api.baseUrl,
+    pollTimeoutSeconds: 0,
+    reconnect: { enabled: false },
+    ...overrides,
+  });
+}
+
+async function waitFor(predicate: () => boolean, timeoutMs = 2000): Promise<void> {
+  const start = Date.now();
+  while (!predicate()) {
+    if (Date.now() - start > timeoutMs) throw new Error("Timed out waiting for condition");
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+Deno.test("TelegramAdapter - connect fails with PlatformError on bad token", async () => {
+  const api = startFakeBotApi({ failGetMe: true });
+  const adapter = createAdapter(api);
+
+  try {
+    await assertRejects(() => adapter.connect(), PlatformError, "Failed to connect to Telegram");
+    assertEquals(adapter.getConnectionStatus().state, ConnectionState.ERROR);
+  } finally {
+    await api.close();
+  }
+});
+
+Deno.test("TelegramAdapter - emits events for mentions and records history", async () => {
+  const api = startFakeBotApi();
+  const adapter = createAdapter(api);
+  const events: NormalizedEvent[] = [];
+  adapter.onEvent((event) => {
+    events.push(event);
+    return Promise.resolve();
+  });
+
+  try {
+    await adapter.connect();
+    assertEquals(adapter.getBotId(), String(BOT_ID));
+    assertEquals(adapter.isSelf(String(BOT_ID)), true);
+
+    api.pushUpdate(createMessage({ message_id: 1, text: "just chatting", entities: undefined }));
+    api.pushUpdate(createMessage({ message_id: 2 }));
+
+    await waitFor(() => events.length === 1);
+    assertEquals(events[0].messageId, "2");
+    assertEquals(events[0].content, "hello");
+
+    const history = await adapter.fetchRecentMessages("-100555", 10);
+    assertEquals(history.map((m) => m.messageId), ["1", "2"]);
+    assertEquals(await adapter.getUsername("1234"), "Alice");
+  } finally {
+    await adapter.disconnect();
+    await api.close();
+  }
+
+  assertEquals(adapter.getConnectionStatus().state, ConnectionState.DISCONNECTED);
+});
+
+Deno.test("TelegramAdapter - sendReply targets topic and reply message", async () => {
+  const api = startFakeBotApi();
+  const adapter = createAdapter(api);
+
+  try {
+    await adapter.connect();
+    const result = await adapter.sendReply("-100555:7", "Hi!", { replyToMessageId: "42" });
+
+    assertEquals(result.success, true);
+    const call = api.calls.find((c) => c.method === "sendMessage")!;
+    assertEquals(call.params.chat_id, "-100555");
+    assertEquals(call.params.message_thread_id, 7);
+    assertEquals(call.params.reply_parameters, {
+      message_id: 42,
+      allow_sending_without_reply: true,
+    });
+  } finally {
+    await adapter.disconnect();
+    await api.close();
+  }
+});
+
+Deno.test("TelegramAdapter - editMessage and addReaction call Bot API", async () => {
+  const api = startFakeBotApi();
+  const adapter = createAdapter(api);
+
+  try {
+    await adapter.connect();
+    const edit = await adapter.editMessage("-100555", "1000", "Updated");
+    const reaction = await adapter.addReaction("-100555", "42", "👍");
+
+    assertEquals(edit, { success: true, messageId: "1000" });
+    assertEquals(reaction.success, true);
+    const reactionCall = api.calls.find((c) => c.method === "setMessageReaction")!;
+    assertEquals(reactionCall.params.reaction, [{ type: "emoji", emoji: "👍" }]);
+  } finally {
+    await adapter.disconnect();
+    await api.close();
+  }
+});
+
+Deno.test("TelegramAdapter - fetchEmojis reads configured custom emoji sets", async () => {
+  const api = startFakeBotApi();
+  const adapter = createAdapter(api, { customEmojiSets: ["party_pack"] });
+
+  try {
+    const emojis = await adapter.fetchEmojis();
+    assertEquals(emojis.length, 1);
+    assertEquals(emojis[0].category, "Party");
+    assertEquals(emojis[0].useInText, "🎉");
+    assertEquals(emojis[0].useAsReaction, "111");
+  } finally {
+    await api.close();
+  }
+});
+
+Deno.test("TelegramAdapter - sendReply reports failure when the API is unreachable", async () => {
+  const api = startFakeBotApi();
+  const adapter = createAdapter(api);
+  await api.close();
+
+  const result = await adapter.sendReply("-100555", "Hi!");
+  assertEquals(result.success, false);
+});
@@ -0,0 +1,347 @@
+// tests/platforms/webhook/webhook-adapter.test.ts
+
+import { assertEquals, assertThrows } from "@std/assert";
+import { WebhookAdapter } from "@platforms/webhook/webhook-adapter.ts";
+import { WEBHOOK_BOT_ID, WEBHOOK_SIGNATURE_HEADER } from "@platforms/webhook/webhook-config.ts";
+import {
+  normalizeWebhookMessage,
+  parseInboundMessage,
+  signPayload,
+  timingSafeEqual,
+} from "@platforms/webhook/webhook-utils.ts";
+import { PlatformError } from "../../../src/types/errors.ts";
+import type { NormalizedEvent } from "../../../src/types/events.ts";
+import { ConnectionState } from "../../../src/types/platform.ts";
+
+const SECRET = "test-secret";
+
+// ============ Utility tests ============
+
+Deno.test("parseInboundMessage - should accept a minimal message", () => {
+  const message = parseInboundMessage({ channelId: "c1", userId: "u1", messageId: "m1" });
+
+  assertEquals(message.channelId, "c1");
+  assertEquals(message.content, "");
+  assertEquals(message.respond, undefined);
+});
+
+Deno.test("parseInboundMessage - should fill in attachment defaults", () => {
+  const message = parseInboundMessage({
+    channelId: "c1",
+    userId: "u1",
+    messageId: "m1",
+    content: "look",
+    attachments: [{ url: "https://example.com/files/cat.png?x=1", mimeType: "image/png" }],
+  });
+
+  assertEquals(message.attachments, [{
+    id: "https://example.com/files/cat.png?x=1",
+    url: "https://example.com/files/cat.png?x=1",
+    mimeType: "image/png",
+    filename: "cat.png",
+    size: undefined,
+    width: undefined,
+    height: undefined,
+    isImage: true,
+  }]);
+});
+
+Deno.test("parseInboundMessage - should reject invalid payloads", () => {
+  assertThrows(() => parseInboundMessage(null), PlatformError, "body must be a JSON object");
+  assertThrows(
+    () => parseInboundMessage({ channelId: "c1", userId: "u1" }),
+    PlatformError,
+    "messageId must be a non-empty string",
+  );
+  assertThrows(
+    () => parseInboundMessage({ channelId: "c1", userId: "u1", messageId: "m1", isDm: "yes" }),
+    PlatformError,
+    "isDm must be a boolean",
+  );
+  assertThrows(
+    () =>
+      parseInboundMessage({ channelId: "c1", userId: "u1", messageId: "m1", timestamp: "never" }),
+    PlatformError,
+    "timestamp must be an ISO 8601 date",
+  );
+});
+
+Deno.test("normalizeWebhookMessage - should build a NormalizedEvent", () => {
+  const event = normalizeWebhookMessage({
+    channelId: "c1",
+    userId: "u1",
+    messageId: "m1",
+    content: "hi",
+    guildId: "g1",
+    timestamp: "2024-01-01T00:00:00.000Z",
+  });
+
+  assertEquals(event.platform, "webhook");
+  assertEquals(event.isDm, false);
+  assertEquals(event.guildId, "g1");
+  assertEquals(event.timestamp.toISOString(), "2024-01-01T00:00:00.000Z");
+  assertEquals(event.attachments, undefined);
+
+  const dm = normalizeWebhookMessage({
+    channelId: "d1",
+    userId: "u1",
+    messageId: "m2",
+    content: "hi",
+    isDm: true,
+    guildId: "g1",
+  });
+  assertEquals(dm.isDm, true);
+  assertEquals(dm.guildId, "");
+});
+
+Deno.test("timingSafeEqual - should compare strings", () => {
+  assertEquals(timingSafeEqual("Bearer abc", "Bearer abc"), true);
+  assertEquals(timingSafeEqual("Bearer abd", "Bearer abc"), false);
+  assertEquals(timingSafeEqual("Bearer ab", "Bearer abc"), false);
+  assertEquals(timingSafeEqual("", "Bearer abc"), false);
+});
+
+// ============ Adapter tests ============
+
+interface Callback {
+  body: Record<string, unknown>;
+  signature: string | null;
+  raw: string;
+}
+
+/**
+ * Start a fake callback receiver
+ */
+function createCallbackServer(respond: (body: Record<string, unknown>) => Response) {
+  const callbacks: Callback[] = [];
+  const server = Deno.serve({ port: 0, hostname: "127.0.0.1", onListen: () => {} }, async (req) => {
+    const raw = await req.text();
+    const body = JSON.parse(raw) as Record<string, unknown>;
+    callbacks.push({ body, signature: req.headers.get(WEBHOOK_SIGNATURE_HEADER), raw });
+    return respond(body);
+  });
+
+  return {
+    callbacks,
+    url: `http://127.0.0.1:${server.addr.port}/callback`,
+    close: () => server.shutdown(),
+  };
+}
+
+async function withAdapter(
+  respond: (body: Record<string, unknown>) => Response,
+  fn: (context: {
+    adapter: WebhookAdapter;
+    events: NormalizedEvent[];
+    callbacks: Callback[];
+    post: (body: unknown, secret?: string) => Promise<Response>;
+  }) => Promise<void>,
+): Promise<void> {
+  const callbackServer = createCallbackServer(respond);
+  const adapter = new WebhookAdapter({
+    secret: SECRET,
+    callbackUrl: callbackServer.url,
+    port: 0,
+    host: "127.0.0.1",
+  });
+  const events: NormalizedEvent[] = [];
+  adapter.onEvent((event) => {
+    events.push(event);
+    return Promise.resolve();
+  });
+
+  await adapter.connect();
+  const post = (body: unknown, secret = SECRET) =>
+    fetch(`http://127.0.0.1:${adapter.getPort()}/webhook`, {
+      method: "POST",
+      headers: { "Authorization": `Bearer ${secret}`, "Content-Type": "application/json" },
+      body: typeof body === "string" ? body : JSON.stringify(body),
+    });
+
+  try {
+    await fn({ adapter, events, callbacks: callbackServer.callbacks, post });
+  } finally {
+    await adapter.disconnect();
+    await callbackServer.close();
+  }
+}
+
+async function waitFor(predicate: () => boolean, timeoutMs = 2000): Promise<void> {
+  const start = Date.now();
+  while (!predicate()) {
+    if (Date.now() - start > timeoutMs) throw new Error("Timed out waiting for condition");
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+Deno.test("WebhookAdapter - should emit authenticated inbound messages", async () => {
+  await withAdapter(() => Response.json({}), async ({ adapter, events, post }) => {
+    assertEquals(adapter.getConnectionStatus().state, ConnectionState.CONNECTED);
+
+    const response = await post({
+      channelId: "c1",
+      userId: "u1",
+      messageId: "m1",
+      content: "hello",
+      username: "Alice",
+    });
+    assertEquals(response.status, 202);
+    assertEquals(await response.json(), { success: true, messageId: "m1" });
+
+    await waitFor(() => events.length === 1);
+    assertEquals(events[0].platform, "webhook");
+    assertEquals(events[0].content, "hello");
+    assertEquals(await adapter.getUsername("u1"), "Alice");
+  });
+});
+
+Deno.test("WebhookAdapter - should reject bad requests", async () => {
+  await withAdapter(() => Response.json({}), async ({ adapter, events, post }) => {
+    const unauthorized = await post({ channelId: "c1", userId: "u1", messageId: "m1" }, "wrong");
+    assertEquals(unauthorized.status, 401);
+    await unauthorized.body?.cancel();
+
+    const malformed = await post("{not json");
+    assertEquals(malformed.status, 400);
+    assertEquals(
+      (await malformed.json()).error,
+      "Invalid webhook payload: body must be valid JSON",
+    );
+
+    const missing = await post({ channelId: "c1", userId: "u1" });
+    assertEquals(missing.status, 400);
+    await missing.body?.cancel();
+
+    const wrongPath = await fetch(`http://127.0.0.1:${adapter.getPort()}/other`, {
+      method: "POST",
+    });
+    assertEquals(wrongPath.status, 404);
+    await wrongPath.body?.cancel();
+
+    const wrongMethod = await fetch(`http://127.0.0.1:${adapter.getPort()}/webhook`);
+    assertEquals(wrongMethod.status, 405);
+    await wrongMethod.body?.cancel();
+
+    assertEquals(events.length, 0);
+  });
+});
+
+Deno.test("WebhookAdapter - should record context-only messages without emitting", async () => {
+  await withAdapter(() => Response.json({}), async ({ adapter, events, post }) => {
+    const contextOnly = await post({
+      channelId: "c1",
+      userId: "u2",
+      messageId: "m1",
+      content: "earlier",
+      respond: false,
+    });
+    await contextOnly.body?.cancel();
+    const fromBot = await post({
+      channelId: "c1",
+      userId: "b1",
+      messageId: "m2",
+      content: "beep",
+      isBot: true,
+    });
+    await fromBot.body?.cancel();
+    const trigger = await post({ channelId: "c1", userId: "u1", messageId: "m3", content: "now" });
+    await trigger.body?.cancel();
+
+    await waitFor(() => events.length === 1);
+    assertEquals(events[0].messageId, "m3");
+
+    const history = await adapter.fetchRecentMessages("c1", 10);
+    assertEquals(history.map((m) => m.content), ["earlier", "beep", "now"]);
+    assertEquals(history.map((m) => m.isBot), [false, true, false]);
+    assertEquals(history[0].username, "@u2 (u2)");
+  });
+});
+
+Deno.test("WebhookAdapter - should deliver signed replies, edits and reactions", async () => {
+  await withAdapter(
+    (body) => Response.json(body.type === "reply" ? { success: true, messageId: "tool-1" } : {}),
+    async ({ adapter, callbacks }) => {
+      const reply = await adapter.sendReply("c1", "Hi!", { replyToMessageId: "m1" });
+      assertEquals(reply, { success: true, messageId: "tool-1" });
+      assertEquals(callbacks[0].body.type, "reply");
+      assertEquals(callbacks[0].body.platform, "webhook");
+      assertEquals(callbacks[0].body.channelId, "c1");
+      assertEquals(callbacks[0].body.content, "Hi!");
+      assertEquals(callbacks[0].body.replyToMessageId, "m1");
+      assertEquals(callbacks[0].signature, await signPayload(SECRET, callbacks[0].raw));
+
+      const edit = await adapter.editMessage("c1", "tool-1", "Hello!");
+      assertEquals(edit, { success: true, messageId: "tool-1" });
+      assertEquals(callbacks[1].body, {
+        type: "edit",
+        platform: "webhook",
+        channelId: "c1",
+        messageId: "tool-1",
+        content: "Hello!",
+      });
+
+      const reaction = await adapter.addReaction("c1", "m1", "👍");
+      assertEquals(reaction.success, true);
+      assertEquals(callbacks[2].body, {
+        type: "reaction",
+        platform: "webhook",
+        channelId: "c1",
+        messageId: "m1",
+        emoji: "👍",
+      });
+
+      const history = await adapter.fetchRecentMessages("c1", 10);
+      assertEquals(history.length, 1);
+      assertEquals(history[0].content, "Hello!");
+      assertEquals(history[0].userId, WEBHOOK_BOT_ID);
+      assertEquals(history[0].isBot, true);
+    },
+  );
+});
+
+Deno.test("WebhookAdapter - should keep the generated ID when the callback returns none", async () => {
+  await withAdapter(() => new Response(null, { status: 204 }), async ({ adapter, callbacks }) => {
+    const reply = await adapter.sendReply("c1", "Hi!");
+    assertEquals(reply.success, true);
+    assertEquals(reply.messageId, callbacks[0].body.messageId);
+  });
+});
+
+Deno.test("WebhookAdapter - should report callback failures", async () => {
+  await withAdapter(
+    (body) =>
+      body.type === "reply"
+        ? Response.json({ error: "channel closed" }, { status: 410 })
+        : Response.json({ success: false, error: "not allowed" }),
+    async ({ adapter }) => {
+      const reply = await adapter.sendReply("c1", "Hi!");
+      assertEquals(reply.success, false);
+      assertEquals(reply.error, "Webhook callback error: channel closed");
+
+      const reaction = await adapter.addReaction("c1", "m1", "👍");
+      assertEquals(reaction.success, false);
+      assertEquals(reaction.error, "Webhook callback error: not allowed");
+
+      assertEquals(await adapter.fetchRecentMessages("c1", 10), []);
+    },
+  );
+});
+
+Deno.test("WebhookAdapter - should resolve DM channels from direct messages", async () => {
+  await withAdapter(() => Response.json({}), async ({ adapter, events, post }) => {
+    assertEquals(await adapter.getDmChannelId("u1"), null);
+
+    const response = await post({
+      channelId: "dm-u1",
+      userId: "u1",
+      messageId: "m1",
+      content: "psst",
+      isDm: true,
+    });
+    await response.body?.cancel();
+    await waitFor(() => events.length === 1);
+
+    assertEquals(events[0].isDm, true);
+    assertEquals(await adapter.getDmChannelId("u1"), "dm-u1");
+  });
+});
@@ -0,0 +1,79 @@
+// tests/replay/replay-runner.test.ts
+
+import { assertEquals, assertRejects } from "@std/assert";
+import { join } from "@std/path";
+import { readFixture } from "../../src/replay/fixture.ts";
+import { runReplay } from "../../src/replay/replay-runner.ts";
+import { ConfigError } from "../../src/types/errors.ts";
+
+const FIXTURES_DIR = new URL("../fixtures/replay/", import.meta.url).pathname;
+
+Deno.test("runReplay - replays a Misskey quote renote", async () => {
+  const fixture = await readFixture(join(FIXTURES_DIR, "misskey-quote-renote.json"));
+
+  const result = await runReplay(fixture);
+
+  assertEquals(result.failures, []);
+  assertEquals(result.replies.length, 1);
+  assertEquals(result.memories.map((memory) => memory.workspace), ["misskey/9xuser0001"]);
+  assertEquals(result.skillCalls.map((call) => call.status), [200, 200, 200]);
+});
+
+Deno.test("runReplay - replays a Discord reply with attachments", async () => {
+  const fixture = await readFixture(join(FIXTURES_DIR, "discord-reply-with-attachments.json"));
+
+  const result = await runReplay(fixture);
+
+  assertEquals(result.failures, []);
+  assertEquals(result.replies[0].replyToMessageId, "1296000000000000302");
+  assertEquals(result.prompts.length, 1);
+});
+
+Deno.test("runReplay - reports the expectations the outputs fail", async () => {
+  const fixture = await readFixture(join(FIXTURES_DIR, "misskey-quote-renote.json"));
+  fixture.expect = {
+    replies: [{ contains: ["TypeScript"] }, { content: "second reply" }],
+    memories: [{ workspace: "misskey/9xuser0001", visibility: "private" }],
+    metrics: { 'airfriends_replies_sent_total{platform="misskey"}': 2 },
+    promptContains: ["not in any prompt"],
+  };
+
+  const result = await runReplay(fixture);
+
+  assertEquals(result.failures.length, 5);
+  assertEquals(result.failures[0], "expected 2 replies, got 1");
+  assertEquals(
+    result.failures[3],
+    'airfriends_replies_sent_total{platform="misskey"} increased by 1, expected 2',
+  );
+});
+
+Deno.test("runReplay - ends prompts without action once the script runs out", async () => {
+  const fixture = await readFixture(join(FIXTURES_DIR, "discord-reply-with-attachments.json"));
+  fixture.agent = { turns: [] };
+  // Without a reply after the retry prompt, the user gets the error message
+  fixture.expect = { replies: [{ replyToMessageId: "1296000000000000302" }], reactions: [] };
+
+  const result = await runReplay(fixture);
+
+  assertEquals(result.failures, []);
+  assertEquals(result.prompts.length, 2);
+  assertEquals(result.skillCalls, []);
+});
+
+Deno.test("readFixture - rejects events of another platform", async () => {
+  const dir = await Deno.makeTempDir();
+  try {
+    const fixture = JSON.parse(
+      await Deno.readTextFile(join(FIXTURES_DIR, "misskey-quote-renote.json")),
+    );
+    fixture.platform = "discord";
+    const path = join(dir, "fixture.json");
+    await Deno.writeTextFile(path, JSON.stringify(fixture));
+
+    await assertRejects(() => readFixture(path), ConfigError, "events of another platform");
+    await assertRejects(() => readFixture(join(dir, "missing.json")), ConfigError);
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});
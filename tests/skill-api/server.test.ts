@@ -355,9 +355,11 @@ Deno.test("SkillAPIServer - enforces single reply rule", async () => {
     };
 
     const mockAdapter = {
+      capabilities: { maxMessageLength: 2000 },
       sendReply: () => Promise.resolve({ success: true, messageId: "test123" }),
       // deno-lint-ignore no-explicit-any
     } as any;
+    let typingStops = 0;
 
     const sessionId = sessionRegistry.register({
       platform: "discord",
@@ -377,6 +379,12 @@ Deno.test("SkillAPIServer - enforces single reply rule", async () => {
         timestamp: new Date(),
       },
       timeoutMs: 60000,
+      typingIndicator: {
+        stop: () => {
+          typingStops++;
+          return Promise.resolve();
+        },
+      },
     });
 
     const port = 3009;
@@ -401,6 +409,7 @@ Deno.test("SkillAPIServer - enforces single reply rule", async () => {
     assertEquals(response1.status, 200);
     const body1 = await response1.json();
     assertEquals(body1.success, true);
+    assertEquals(typingStops, 1);
 
     // Second reply should fail
     const response2 = await fetch(`http://localhost:${port}/api/skill/send-reply`, {
@@ -0,0 +1,154 @@
+// tests/skills/attachment-resolver.test.ts
+
+import { assertEquals, assertRejects, assertThrows } from "@std/assert";
+import {
+  decodeDataUrl,
+  guessMimeType,
+  resolveReplyAttachments,
+} from "@skills/attachment-resolver.ts";
+import type { SkillContext } from "@skills/types.ts";
+import type { PlatformAdapter } from "@platforms/platform-adapter.ts";
+import { SkillError } from "../../src/types/errors.ts";
+
+async function withWorkspaces(
+  fn: (context: SkillContext, dirs: { root: string; agentWorkspace: string }) => Promise<void>,
+  capabilities: { maxAttachmentSize?: number; maxAttachments?: number } = {
+    maxAttachmentSize: 1024,
+    maxAttachments: 3,
+  },
+): Promise<void> {
+  const root = await Deno.makeTempDir();
+  const workspacePath = `${root}/workspace`;
+  const agentWorkspace = `${root}/agent`;
+  await Deno.mkdir(workspacePath);
+  await Deno.mkdir(agentWorkspace);
+
+  try {
+    const context: SkillContext = {
+      workspace: {
+        key: "discord/123",
+        components: { platform: "discord", userId: "123" },
+        path: workspacePath,
+        isDm: true,
+      },
+      platformAdapter: {
+        platform: "discord",
+        capabilities: { maxMessageLength: 2000, ...capabilities },
+      } as unknown as PlatformAdapter,
+      channelId: "456",
+      userId: "123",
+      agentWorkspacePath: agentWorkspace,
+    };
+
+    await fn(context, { root, agentWorkspace });
+  } finally {
+    await Deno.remove(root, { recursive: true });
+  }
+}
+
+Deno.test("resolveReplyAttachments - should load workspace files", async () => {
+  await withWorkspaces(async (context, { agentWorkspace }) => {
+    await Deno.writeTextFile(`${context.workspace.path}/chart.png`, "png!");
+    await Deno.writeTextFile(`${agentWorkspace}/notes.md`, "# Notes");
+
+    const attachments = await resolveReplyAttachments([
+      { type: "image", url: "chart.png" },
+      { url: `${agentWorkspace}/notes.md`, filename: "summary.md" },
+    ], context);
+
+    assertEquals(attachments.map((a) => [a.filename, a.mimeType]), [
+      ["chart.png", "image/png"],
+      ["summary.md", "text/markdown"],
+    ]);
+    assertEquals(new TextDecoder().decode(attachments[1].data), "# Notes");
+  });
+});
+
+Deno.test("resolveReplyAttachments - should decode data URLs", async () => {
+  await withWorkspaces(async (context) => {
+    const attachments = await resolveReplyAttachments([
+      { url: "data:image/png;base64,aGVsbG8=" },
+      { url: "data:,caf%C3%A9", filename: "word.txt" },
+    ], context);
+
+    assertEquals(attachments[0].filename, "attachment.png");
+    assertEquals(new TextDecoder().decode(attachments[0].data), "hello");
+    assertEquals(attachments[1].filename, "word.txt");
+    assertEquals(attachments[1].mimeType, "text/plain");
+    assertEquals(new TextDecoder().decode(attachments[1].data), "café");
+  });
+});
+
+Deno.test("resolveReplyAttachments - should reject paths outside the workspaces", async () => {
+  await withWorkspaces(async (context, { root }) => {
+    await Deno.writeTextFile(`${root}/secret.txt`, "secret");
+    await Deno.symlink(`${root}/secret.txt`, `${context.workspace.path}/link.txt`);
+
+    for (const url of ["../secret.txt", `${root}/secret.txt`, "link.txt"]) {
+      await assertRejects(
+        () => resolveReplyAttachments([{ url }], context),
+        SkillError,
+        "outside the workspace",
+      );
+    }
+  });
+});
+
+Deno.test("resolveReplyAttachments - should reject missing files and directories", async () => {
+  await withWorkspaces(async (context) => {
+    await Deno.mkdir(`${context.workspace.path}/folder`);
+
+    await assertRejects(
+      () => resolveReplyAttachments([{ url: "missing.png" }], context),
+      SkillError,
+      "not found",
+    );
+    await assertRejects(
+      () => resolveReplyAttachments([{ url: "folder" }], context),
+      SkillError,
+      "not a file",
+    );
+  });
+});
+
+Deno.test("resolveReplyAttachments - should enforce platform limits", async () => {
+  await withWorkspaces(async (context) => {
+    await Deno.writeFile(`${context.workspace.path}/big.bin`, new Uint8Array(1025));
+
+    await assertRejects(
+      () => resolveReplyAttachments([{ url: "big.bin" }], context),
+      SkillError,
+      "too large",
+    );
+    await assertRejects(
+      () => resolveReplyAttachments([{ url: `data:;base64,${btoa("x".repeat(1025))}` }], context),
+      SkillError,
+      "too large",
+    );
+    await assertRejects(
+      () => resolveReplyAttachments(Array(4).fill({ url: "data:,x" }), context),
+      SkillError,
+      "Too many attachments",
+    );
+  });
+});
+
+Deno.test("resolveReplyAttachments - should reject platforms without uploads", async () => {
+  await withWorkspaces(async (context) => {
+    await assertRejects(
+      () => resolveReplyAttachments([{ url: "data:,x" }], context),
+      SkillError,
+      "Attachments are not supported on discord",
+    );
+  }, {});
+});
+
+Deno.test("decodeDataUrl - should reject malformed URLs", () => {
+  assertThrows(() => decodeDataUrl("data:image/png;base64"), SkillError, "Invalid data URL");
+  assertThrows(() => decodeDataUrl("data:image/png;base64,@@@"), SkillError, "cannot be decoded");
+});
+
+Deno.test("guessMimeType - should fall back to octet-stream", () => {
+  assertEquals(guessMimeType("photo.JPG"), "image/jpeg");
+  assertEquals(guessMimeType("archive.tar.xz"), "application/octet-stream");
+});
@@ -3,8 +3,10 @@
 import { assertEquals } from "@std/assert";
 import { ReplyHandler } from "@skills/reply-handler.ts";
 import type { SkillContext } from "@skills/types.ts";
+import { ReplyDraft } from "@platforms/reply-draft.ts";
 import type { WorkspaceInfo } from "../../src/types/workspace.ts";
 import type { PlatformAdapter } from "@platforms/platform-adapter.ts";
+import type { ReplyOptions } from "../../src/types/platform.ts";
 
 // Create a mock platform adapter
 const createMockPlatformAdapter = (
@@ -231,40 +233,149 @@ Deno.test("ReplyHandler - handleSendReply validates attachments type", async ()
   assertEquals(result.error, "Invalid 'attachments' parameter. Must be an array");
 });
 
-Deno.test("ReplyHandler - handleSendReply logs warning for attachments", async () => {
+Deno.test("ReplyHandler - handleSendReply passes loaded attachments to the platform", async () => {
+  const handler = new ReplyHandler();
+  const tempDir = await Deno.makeTempDir();
+
+  try {
+    await Deno.writeTextFile(`${tempDir}/notes.txt`, "hello");
+
+    const workspace: WorkspaceInfo = {
+      key: "discord/555",
+      components: {
+        platform: "discord",
+        userId: "555",
+      },
+      path: tempDir,
+      isDm: true,
+    };
+
+    let sentOptions: ReplyOptions | undefined;
+    const adapter = createMockPlatformAdapter({ success: true, messageId: "msg_555" });
+    adapter.capabilities.maxAttachmentSize = 1024;
+    adapter.sendReply = (_channelId, _content, options) => {
+      sentOptions = options;
+      return Promise.resolve({ success: true, messageId: "msg_555" });
+    };
+
+    const context: SkillContext = {
+      workspace,
+      platformAdapter: adapter,
+      channelId: "444",
+      userId: "555",
+      replyToMessageId: "trigger_1",
+    };
+
+    const result = await handler.handleSendReply(
+      {
+        message: "Test",
+        attachments: [{ url: "notes.txt" }, { url: "data:image/png;base64,iVBORw==" }],
+      },
+      context,
+    );
+
+    assertEquals(result.success, true);
+    assertEquals(sentOptions?.replyToMessageId, "trigger_1");
+    assertEquals(
+      sentOptions?.attachments?.map((a) => [a.filename, a.mimeType, a.data.byteLength]),
+      [["notes.txt", "text/plain", 5], ["attachment.png", "image/png", 4]],
+    );
+  } finally {
+    await Deno.remove(tempDir, { recursive: true });
+  }
+});
+
+Deno.test("ReplyHandler - handleSendReply does not send when attachments are rejected", async () => {
   const handler = new ReplyHandler();
 
   const workspace: WorkspaceInfo = {
-    key: "discord/555",
+    key: "discord/333",
     components: {
       platform: "discord",
-      userId: "555",
+      userId: "333",
     },
-    path: "/tmp/workspaces/discord/555",
+    path: "/tmp/workspaces/discord/333",
     isDm: true,
   };
 
+  let sendCount = 0;
+  const adapter = createMockPlatformAdapter();
+  adapter.sendReply = () => {
+    sendCount++;
+    return Promise.resolve({ success: true, messageId: "msg_333" });
+  };
+
   const context: SkillContext = {
     workspace,
-    platformAdapter: createMockPlatformAdapter({ success: true }),
-    channelId: "444",
-    userId: "555",
+    platformAdapter: adapter,
+    channelId: "222",
+    userId: "333",
   };
 
-  const result = await handler.handleSendReply(
-    {
-      message: "Test",
-      attachments: [{ type: "image", url: "http://example.com/img.png" }],
-    },
+  const rejected = await handler.handleSendReply(
+    { message: "Test", attachments: [{ url: "data:text/plain,hi" }] },
     context,
   );
 
-  // Should still succeed but log warning
-  assertEquals(result.success, true);
+  assertEquals(rejected.success, false);
+  assertEquals(rejected.error, "Attachments are not supported on discord");
+  assertEquals(sendCount, 0);
+
+  // The reply can still be sent without the attachment
+  const retried = await handler.handleSendReply({ message: "Test" }, context);
+  assertEquals(retried.success, true);
+  assertEquals(sendCount, 1);
 });
 
 // ============ edit-reply tests ============
 
+Deno.test("ReplyHandler - handleSendReply turns the streamed draft into the reply", async () => {
+  const handler = new ReplyHandler();
+
+  const workspace: WorkspaceInfo = {
+    key: "discord/draft1",
+    components: { platform: "discord", userId: "draft1" },
+    path: "/tmp/workspaces/discord/draft1",
+    isDm: true,
+  };
+
+  const sent: string[] = [];
+  const edited: string[] = [];
+  const adapter = createMockPlatformAdapter();
+  adapter.sendReply = (_channelId, content) => {
+    sent.push(content);
+    return Promise.resolve({ success: true, messageId: "draft_msg" });
+  };
+  adapter.editMessage = (_channelId, messageId, content) => {
+    edited.push(content);
+    return Promise.resolve({ success: true, messageId });
+  };
+
+  const replyDraft = new ReplyDraft(adapter, "ch_draft1", "trigger", 0);
+  replyDraft.append("Hello, wor");
+  await new Promise((resolve) => setTimeout(resolve, 10));
+
+  const context: SkillContext = {
+    workspace,
+    platformAdapter: adapter,
+    channelId: "ch_draft1",
+    userId: "draft1",
+    replyToMessageId: "trigger",
+    replyDraft,
+  };
+
+  const result = await handler.handleSendReply({ message: "Hello, world!" }, context);
+
+  assertEquals(result.success, true);
+  assertEquals((result.data as Record<string, unknown>).messageId, "draft_msg");
+  assertEquals(sent, ["…"]);
+  assertEquals(edited, ["Hello, wor", "Hello, world!"]);
+
+  // edit-reply works on the finalized draft
+  const edit = await handler.handleEditReply({ messageId: "draft_msg", message: "Hi" }, context);
+  assertEquals(edit.success, true);
+});
+
 Deno.test("ReplyHandler - handleEditReply succeeds after send-reply", async () => {
   const handler = new ReplyHandler();
 
@@ -298,6 +409,59 @@ Deno.test("ReplyHandler - handleEditReply succeeds after send-reply", async () =
   assertEquals((result.data as Record<string, unknown>).messageId, "msg_edit1");
 });
 
+Deno.test("ReplyHandler - handleEditReply rewrites every part of a split reply", async () => {
+  const handler = new ReplyHandler();
+
+  const workspace: WorkspaceInfo = {
+    key: "discord/edit9",
+    components: { platform: "discord", userId: "edit9" },
+    path: "/tmp/workspaces/discord/edit9",
+    isDm: true,
+  };
+
+  let sendCount = 0;
+  const edited: string[] = [];
+  const deleted: string[] = [];
+  const adapter = createMockPlatformAdapter();
+  adapter.capabilities.maxMessageLength = 20;
+  adapter.sendReply = () => Promise.resolve({ success: true, messageId: `part${++sendCount}` });
+  adapter.editMessage = (_channelId, messageId) => {
+    edited.push(messageId);
+    return Promise.resolve({ success: true, messageId });
+  };
+  adapter.deleteMessage = (_channelId, messageId) => {
+    deleted.push(messageId);
+    return Promise.resolve({ success: true, messageId });
+  };
+
+  const context: SkillContext = {
+    workspace,
+    platformAdapter: adapter,
+    channelId: "ch_edit9",
+    userId: "edit9",
+  };
+
+  const sent = await handler.handleSendReply(
+    { message: "First part here.\n\nSecond part here.\n\nThird part here." },
+    context,
+  );
+  assertEquals(sent.data, {
+    messageId: "part1",
+    messageIds: ["part1", "part2", "part3"],
+    timestamp: (sent.data as Record<string, unknown>).timestamp,
+  });
+
+  const result = await handler.handleEditReply(
+    { messageId: "part1", message: "Shorter.\n\nTwo parts now." },
+    context,
+  );
+
+  assertEquals(result.success, true);
+  assertEquals((result.data as Record<string, unknown>).messageIds, ["part1", "part2"]);
+  assertEquals(edited, ["part1", "part2"]);
+  assertEquals(deleted, ["part3"]);
+});
+
 Deno.test("ReplyHandler - handleEditReply fails without prior send-reply", async () => {
   const handler = new ReplyHandler();
 
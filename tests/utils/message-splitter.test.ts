@@ -0,0 +1,115 @@
+// tests/utils/message-splitter.test.ts
+
+import { assertEquals } from "@std/assert";
+import { splitMessage } from "@utils/message-splitter.ts";
+
+function assertFits(chunks: string[], maxLength: number): void {
+  for (const chunk of chunks) {
+    assertEquals(chunk.length <= maxLength, true, `Chunk too long (${chunk.length}): ${chunk}`);
+  }
+}
+
+Deno.test("splitMessage - should keep short messages whole", () => {
+  assertEquals(splitMessage("Hello!", 10), ["Hello!"]);
+  assertEquals(splitMessage("", 10), [""]);
+});
+
+Deno.test("splitMessage - should prefer paragraph breaks", () => {
+  const first = "First paragraph. It has two sentences.";
+  const second = "Second paragraph.\nWith a second line.";
+  const chunks = splitMessage(`${first}\n\n${second}`, 60);
+
+  assertEquals(chunks, [first, second]);
+});
+
+Deno.test("splitMessage - should fall back to sentences and words", () => {
+  const sentences = splitMessage("One two three four. Five six seven eight nine.", 30);
+  assertEquals(sentences, ["One two three four.", "Five six seven eight nine."]);
+
+  const words = splitMessage("alpha beta gamma delta epsilon zeta eta theta", 20);
+  assertFits(words, 20);
+  assertEquals(words.join(" "), "alpha beta gamma delta epsilon zeta eta theta");
+});
+
+Deno.test("splitMessage - should split CJK text after full stops", () => {
+  const chunks = splitMessage("今天天氣很好。我們去公園散步吧。然後去吃晚餐。", 16);
+  assertEquals(chunks, ["今天天氣很好。我們去公園散步吧。", "然後去吃晚餐。"]);
+});
+
+Deno.test("splitMessage - should keep list items whole", () => {
+  const content = [
+    "Shopping list:",
+    "- Apples",
+    "  green ones, not red",
+    "- Bananas",
+    "  1. ripe",
+    "  2. cheap",
+  ].join("\n");
+  const chunks = splitMessage(content, 45);
+
+  assertFits(chunks, 45);
+  assertEquals(chunks, [
+    "Shopping list:\n- Apples\n  green ones, not red",
+    "- Bananas\n  1. ripe\n  2. cheap",
+  ]);
+});
+
+Deno.test("splitMessage - should not cut a code block that fits in a message", () => {
+  const code = "```ts\nconst a = 1;\nconst b = 2;\n```";
+  const chunks = splitMessage(`Here is the code:\n${code}\nDone.`, 45);
+
+  assertFits(chunks, 45);
+  assertEquals(chunks, ["Here is the code:", `${code}\nDone.`]);
+});
+
+Deno.test("splitMessage - should close and reopen long code blocks", () => {
+  const lines = Array.from({ length: 10 }, (_, i) => `console.log(${i});`);
+  const content = "```js\n" + lines.join("\n") + "\n```";
+  const chunks = splitMessage(content, 60);
+
+  assertFits(chunks, 60);
+  for (const chunk of chunks) {
+    assertEquals(chunk.startsWith("```js\n"), true, chunk);
+    assertEquals(chunk.endsWith("\n```"), true, chunk);
+  }
+  const body = chunks.map((chunk) => chunk.slice("```js\n".length, -"\n```".length));
+  assertEquals(body.join("\n"), lines.join("\n"));
+});
+
+Deno.test("splitMessage - should not cut MFM tags, emojis, mentions or URLs", () => {
+  const tokens = [
+    "$[x2 $[tada big news]]",
+    ":blobcat_happy:",
+    ":misskey@misskey.io:",
+    "<a:party_parrot:123456789>",
+    "<@987654321>",
+    "https://example.com/a/very/long/path?with=query",
+    "[docs](https://example.com/docs)",
+  ];
+  const content = tokens.map((token) => `word ${token} word`).join(" ");
+
+  for (const maxLength of [25, 40, 60, 80]) {
+    const chunks = splitMessage(content, maxLength);
+    const joined = chunks.join(" ");
+    for (const token of tokens) {
+      if (token.length <= maxLength) {
+        assertEquals(joined.includes(token), true, `${token} cut at ${maxLength}`);
+      }
+    }
+  }
+});
+
+Deno.test("splitMessage - should hard-cut a token longer than a message", () => {
+  const chunks = splitMessage("x".repeat(25), 10);
+  assertEquals(chunks, ["x".repeat(10), "x".repeat(10), "x".repeat(5)]);
+});
+
+Deno.test("splitMessage - should not cut surrogate pairs", () => {
+  const chunks = splitMessage("😀".repeat(6), 5);
+
+  assertFits(chunks, 5);
+  assertEquals(chunks.join(""), "😀".repeat(6));
+  for (const chunk of chunks) {
+    assertEquals([...chunk].every((char) => char === "😀"), true);
+  }
+});
@@ -18,6 +18,13 @@ Deno.test("metrics registry - exports all registered metrics", async () => {
   assertStringIncludes(output, "airfriends_memory_operations_total");
   assertStringIncludes(output, "airfriends_skill_api_calls_total");
   assertStringIncludes(output, "airfriends_rate_limit_rejections_total");
+  assertStringIncludes(output, "airfriends_session_queue_depth");
+  assertStringIncludes(output, "airfriends_session_queue_wait_seconds");
+  assertStringIncludes(output, "airfriends_agent_limiter_rejections_total");
+  assertStringIncludes(output, "airfriends_agent_limiter_waiting");
+  assertStringIncludes(output, "airfriends_agent_pool_hits_total");
+  assertStringIncludes(output, "airfriends_agent_pool_misses_total");
+  assertStringIncludes(output, "airfriends_agent_pool_idle");
 });
 
 Deno.test("metrics - counter increments correctly", async () => {